@@ -77,6 +77,7 @@ export const KAFKA_TOPICS = {
   // Quality events
   QUALITY_CHECK_COMPLETED: 'quality.check.completed',
   QUALITY_NONCONFORMANCE: 'quality.nonconformance',
+  QUALITY_SPC_VIOLATION: 'quality.spc.violation',
   
   // Inventory events
   INVENTORY_CONSUMED: 'inventory.consumed',
@@ -110,6 +111,56 @@ export const EventSchemas = {
     reason: z.string().optional(),
   }),
   
+  NonConformanceStatusChanged: z.object({
+    ncrId: z.string().uuid(),
+    ncrNumber: z.string(),
+    productId: z.string().uuid(),
+    manufacturingOrderId: z.string().uuid().optional(),
+    operationId: z.string().uuid().optional(),
+    severity: z.enum(['MINOR', 'MAJOR', 'CRITICAL']),
+    previousStatus: z.enum(['OPEN', 'INVESTIGATING', 'CORRECTIVE_ACTION', 'RESOLVED', 'CLOSED']),
+    newStatus: z.enum(['OPEN', 'INVESTIGATING', 'CORRECTIVE_ACTION', 'RESOLVED', 'CLOSED']),
+    timestamp: z.string().datetime(),
+  }),
+
+  SPCRuleViolation: z.object({
+    productId: z.string().uuid(),
+    checkId: z.string(),
+    workCenterId: z.string().uuid(),
+    qualityCheckId: z.string().uuid(),
+    measuredValue: z.number(),
+    ruleSet: z.enum(['WESTERN_ELECTRIC', 'NELSON']),
+    rule: z.number().int(),
+    description: z.string(),
+    timestamp: z.string().datetime(),
+  }),
+
+  InventoryProduced: z.object({
+    manufacturingOrderId: z.string().uuid(),
+    orderNumber: z.string(),
+    productId: z.string().uuid(),
+    outputType: z.enum(['PRIMARY', 'CO_PRODUCT', 'BY_PRODUCT']),
+    lotId: z.string().uuid(),
+    lotNumber: z.string(),
+    quantity: z.number().positive(),
+    uom: z.string(),
+    unitCost: z.number().min(0),
+    timestamp: z.string().datetime(),
+  }),
+
+  InventoryAdjusted: z.object({
+    transactionId: z.string().uuid(),
+    lotId: z.string().uuid(),
+    lotNumber: z.string(),
+    productId: z.string().uuid(),
+    transactionType: z.enum(['ADJUSTMENT', 'SCRAP']),
+    quantity: z.number(),
+    uom: z.string(),
+    balanceAfter: z.number().min(0),
+    reason: z.string(),
+    timestamp: z.string().datetime(),
+  }),
+
   SensorData: z.object({
     equipmentId: z.string().uuid(),
     sensorId: z.string(),
@@ -168,6 +219,26 @@ export class ManufacturingEventProducer {
     await this.publishEvent(KAFKA_TOPICS.EQUIPMENT_STATUS_CHANGED, validatedEvent, event.equipmentId);
   }
 
+  async publishNonConformanceStatusChanged(event: z.infer<typeof EventSchemas.NonConformanceStatusChanged>): Promise<void> {
+    const validatedEvent = EventSchemas.NonConformanceStatusChanged.parse(event);
+    await this.publishEvent(KAFKA_TOPICS.QUALITY_NONCONFORMANCE, validatedEvent, event.ncrId);
+  }
+
+  async publishSPCRuleViolation(event: z.infer<typeof EventSchemas.SPCRuleViolation>): Promise<void> {
+    const validatedEvent = EventSchemas.SPCRuleViolation.parse(event);
+    await this.publishEvent(KAFKA_TOPICS.QUALITY_SPC_VIOLATION, validatedEvent, `${event.productId}:${event.checkId}:${event.workCenterId}`);
+  }
+
+  async publishInventoryProduced(event: z.infer<typeof EventSchemas.InventoryProduced>): Promise<void> {
+    const validatedEvent = EventSchemas.InventoryProduced.parse(event);
+    await this.publishEvent(KAFKA_TOPICS.INVENTORY_PRODUCED, validatedEvent, event.lotId);
+  }
+
+  async publishInventoryAdjusted(event: z.infer<typeof EventSchemas.InventoryAdjusted>): Promise<void> {
+    const validatedEvent = EventSchemas.InventoryAdjusted.parse(event);
+    await this.publishEvent(KAFKA_TOPICS.INVENTORY_ADJUSTED, validatedEvent, event.lotId);
+  }
+
   async publishSensorData(event: z.infer<typeof EventSchemas.SensorData>): Promise<void> {
     const validatedEvent = EventSchemas.SensorData.parse(event);
     await this.publishEvent(KAFKA_TOPICS.SENSOR_DATA, validatedEvent, event.equipmentId);
@@ -0,0 +1,252 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { createReadStream } from 'fs';
+import { mkdir, unlink, writeFile } from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { z } from 'zod';
+
+/**
+ * Object storage configuration schema
+ */
+export const StorageConfigSchema = z.object({
+  driver: z.enum(['local', 's3']).default('local'),
+  maxFileSizeBytes: z.number().int().positive().default(20 * 1024 * 1024),
+  allowedContentTypes: z.array(z.string()).default([
+    'image/jpeg',
+    'image/png',
+    'image/webp',
+    'application/pdf',
+    'text/plain',
+    'text/csv',
+  ]),
+  signedUrlTtlSeconds: z.number().int().positive().default(900),
+  local: z.object({
+    rootPath: z.string().default('./data/attachments'),
+    urlBase: z.string().default('/api/v1/storage/local'),
+    signingSecret: z.string().min(16),
+  }),
+  s3: z.object({
+    endpoint: z.string().optional(), // Set for S3-compatible stores such as MinIO
+    region: z.string().default('us-east-1'),
+    bucket: z.string().default('akazify-attachments'),
+    accessKeyId: z.string().optional(),
+    secretAccessKey: z.string().optional(),
+    forcePathStyle: z.boolean().default(false),
+  }),
+});
+
+export type StorageConfig = z.infer<typeof StorageConfigSchema>;
+
+/**
+ * Secret that signs local download URLs. It must be set, and dedicated to
+ * storage rather than shared with token signing, or anyone holding the shared
+ * secret could forge download URLs. Required whichever driver is configured,
+ * since attachments stored locally stay downloadable after a switch to S3.
+ */
+function localSigningSecret(): string {
+  const secret = process.env.STORAGE_SIGNING_SECRET;
+  if (!secret) {
+    throw new Error('STORAGE_SIGNING_SECRET must be set to sign attachment download URLs');
+  }
+
+  if (secret === process.env.JWT_SECRET) {
+    throw new Error('STORAGE_SIGNING_SECRET must differ from JWT_SECRET');
+  }
+
+  return secret;
+}
+
+/**
+ * Load object storage configuration from environment variables
+ */
+export function loadStorageConfig(): StorageConfig {
+  return StorageConfigSchema.parse({
+    driver: process.env.STORAGE_DRIVER || 'local',
+    maxFileSizeBytes: parseInt(process.env.STORAGE_MAX_FILE_SIZE_MB || '20') * 1024 * 1024,
+    allowedContentTypes: process.env.STORAGE_ALLOWED_CONTENT_TYPES?.split(',').map(type => type.trim()),
+    signedUrlTtlSeconds: parseInt(process.env.STORAGE_SIGNED_URL_TTL || '900'),
+    local: {
+      rootPath: process.env.STORAGE_LOCAL_PATH || './data/attachments',
+      urlBase: process.env.STORAGE_LOCAL_URL_BASE || '/api/v1/storage/local',
+      signingSecret: localSigningSecret(),
+    },
+    s3: {
+      endpoint: process.env.STORAGE_S3_ENDPOINT,
+      region: process.env.STORAGE_S3_REGION || 'us-east-1',
+      bucket: process.env.STORAGE_S3_BUCKET || 'akazify-attachments',
+      accessKeyId: process.env.STORAGE_S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.STORAGE_S3_SECRET_ACCESS_KEY,
+      forcePathStyle: process.env.STORAGE_S3_FORCE_PATH_STYLE === 'true',
+    },
+  });
+}
+
+/**
+ * Options for a time-limited download URL
+ */
+export interface SignedUrlOptions {
+  expiresInSeconds: number;
+  fileName: string;
+  contentType: string;
+}
+
+/**
+ * Pluggable object storage used for attachments
+ */
+export interface StorageDriver {
+  readonly name: 'local' | 's3';
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Readable>;
+  delete(key: string): Promise<void>;
+  getSignedDownloadUrl(key: string, options: SignedUrlOptions): Promise<string>;
+}
+
+/**
+ * Stores objects on the local filesystem. Downloads are served by the API
+ * itself from HMAC-signed URLs.
+ */
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local' as const;
+  private rootPath: string;
+
+  constructor(private config: StorageConfig['local']) {
+    this.rootPath = path.resolve(config.rootPath);
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const filePath = this.resolveKey(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, body);
+  }
+
+  async get(key: string): Promise<Readable> {
+    return createReadStream(this.resolveKey(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await unlink(this.resolveKey(key));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
+  async getSignedDownloadUrl(key: string, options: SignedUrlOptions): Promise<string> {
+    const expires = Math.floor(Date.now() / 1000) + options.expiresInSeconds;
+    const signature = this.sign(key, expires);
+    return `${this.config.urlBase}/${encodeURIComponent(key)}?expires=${expires}&signature=${signature}`;
+  }
+
+  /**
+   * Check a signature produced by getSignedDownloadUrl
+   */
+  verifySignature(key: string, expires: number, signature: string): boolean {
+    if (!Number.isFinite(expires) || expires < Math.floor(Date.now() / 1000)) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.sign(key, expires));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  private sign(key: string, expires: number): string {
+    return createHmac('sha256', this.config.signingSecret).update(`${key}:${expires}`).digest('hex');
+  }
+
+  /**
+   * Map a storage key to a path, refusing keys that escape the storage root
+   */
+  private resolveKey(key: string): string {
+    const filePath = path.resolve(this.rootPath, key);
+    if (!filePath.startsWith(this.rootPath + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+}
+
+/**
+ * Stores objects in Amazon S3 or an S3-compatible store such as MinIO.
+ * Downloads go directly to the store through presigned URLs.
+ */
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 's3' as const;
+  private client: S3Client;
+
+  constructor(private config: StorageConfig['s3']) {
+    this.client = new S3Client({
+      endpoint: config.endpoint,
+      region: config.region,
+      forcePathStyle: config.forcePathStyle,
+      credentials: config.accessKeyId && config.secretAccessKey
+        ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+        : undefined,
+    });
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.config.bucket,
+      Key: key,
+      Body: body,
+      ContentType: contentType,
+      ContentLength: body.length,
+    }));
+  }
+
+  async get(key: string): Promise<Readable> {
+    const result = await this.client.send(new GetObjectCommand({
+      Bucket: this.config.bucket,
+      Key: key,
+    }));
+    return result.Body as Readable;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({
+      Bucket: this.config.bucket,
+      Key: key,
+    }));
+  }
+
+  async getSignedDownloadUrl(key: string, options: SignedUrlOptions): Promise<string> {
+    const command = new GetObjectCommand({
+      Bucket: this.config.bucket,
+      Key: key,
+      ResponseContentType: options.contentType,
+      ResponseContentDisposition: contentDisposition(options.fileName),
+    });
+    return getSignedUrl(this.client, command, { expiresIn: options.expiresInSeconds });
+  }
+}
+
+/**
+ * Create the storage driver selected by configuration, or the given driver
+ */
+export function createStorageDriver(config?: StorageConfig, driver?: StorageDriver['name']): StorageDriver {
+  const storageConfig = config || loadStorageConfig();
+
+  if ((driver || storageConfig.driver) === 's3') {
+    return new S3StorageDriver(storageConfig.s3);
+  }
+
+  return new LocalStorageDriver(storageConfig.local);
+}
+
+/**
+ * Content-Disposition header value that survives non-ASCII file names
+ */
+export function contentDisposition(fileName: string): string {
+  const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
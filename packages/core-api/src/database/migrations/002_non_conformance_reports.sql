@@ -0,0 +1,55 @@
+-- Akazify Core Database Schema
+-- Migration 002: Non-conformance reports (NCRs)
+
+-- Non-conformance reports - Quality issues raised against products, lots and operations
+CREATE TABLE ncrs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    ncr_number VARCHAR(50) NOT NULL UNIQUE,
+    operation_id UUID REFERENCES manufacturing_order_operations(id),
+    manufacturing_order_id UUID REFERENCES manufacturing_orders(id),
+    quality_check_id UUID,
+    product_id UUID NOT NULL REFERENCES products(id),
+    lot_id UUID REFERENCES lots(id),
+    category VARCHAR(30) NOT NULL CHECK (category IN ('MATERIAL_DEFECT', 'DIMENSIONAL', 'SURFACE_FINISH', 'FUNCTIONAL', 'PACKAGING', 'DOCUMENTATION', 'PROCESS', 'SAFETY', 'OTHER')),
+    severity VARCHAR(20) NOT NULL CHECK (severity IN ('MINOR', 'MAJOR', 'CRITICAL')),
+    status VARCHAR(20) DEFAULT 'OPEN' CHECK (status IN ('OPEN', 'INVESTIGATING', 'CORRECTIVE_ACTION', 'RESOLVED', 'CLOSED')),
+    title VARCHAR(200) NOT NULL,
+    description TEXT NOT NULL,
+    root_cause TEXT,
+    reported_by UUID NOT NULL,
+    reported_by_name VARCHAR(100) NOT NULL,
+    assigned_to UUID,
+    assigned_to_name VARCHAR(100),
+    quantity_affected DECIMAL(10,4) NOT NULL CHECK (quantity_affected >= 0),
+    quantity_rejected DECIMAL(10,4) DEFAULT 0 CHECK (quantity_rejected >= 0),
+    quantity_reworked DECIMAL(10,4) DEFAULT 0 CHECK (quantity_reworked >= 0),
+    quantity_accepted DECIMAL(10,4) DEFAULT 0 CHECK (quantity_accepted >= 0),
+    estimated_cost DECIMAL(12,2) CHECK (estimated_cost >= 0),
+    actual_cost DECIMAL(12,2) CHECK (actual_cost >= 0),
+    detected_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    reported_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    target_close_date TIMESTAMP WITH TIME ZONE,
+    actual_close_date TIMESTAMP WITH TIME ZONE,
+    immediate_action TEXT,
+    corrective_action TEXT,
+    preventive_action TEXT,
+    verified_by UUID,
+    verified_by_name VARCHAR(100),
+    verification_date TIMESTAMP WITH TIME ZONE,
+    verification_notes TEXT,
+    attachments JSONB DEFAULT '[]',
+    document_references JSONB DEFAULT '[]', -- Related NCRs or documents ("references" is reserved)
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    version INTEGER DEFAULT 1
+);
+
+CREATE INDEX idx_ncrs_operation_id ON ncrs(operation_id);
+CREATE INDEX idx_ncrs_manufacturing_order_id ON ncrs(manufacturing_order_id);
+CREATE INDEX idx_ncrs_product_id ON ncrs(product_id);
+CREATE INDEX idx_ncrs_lot_id ON ncrs(lot_id);
+CREATE INDEX idx_ncrs_status ON ncrs(status) WHERE is_active = true;
+CREATE INDEX idx_ncrs_severity ON ncrs(severity) WHERE is_active = true;
+
+CREATE TRIGGER update_ncrs_updated_at BEFORE UPDATE ON ncrs FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,75 @@
+-- Akazify Core Database Schema
+-- Migration 003: Quality checks and automatic NCR rules
+
+-- Quality checks - Individual inspections performed against manufacturing orders and operations
+CREATE TABLE quality_checks (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    check_id VARCHAR(50) NOT NULL,
+    manufacturing_order_id UUID NOT NULL REFERENCES manufacturing_orders(id),
+    operation_id UUID REFERENCES manufacturing_order_operations(id),
+    work_center_id UUID REFERENCES work_centers(id),
+    lot_id UUID REFERENCES lots(id),
+    name VARCHAR(200) NOT NULL,
+    description TEXT,
+    type VARCHAR(20) NOT NULL CHECK (type IN ('VISUAL', 'DIMENSIONAL', 'FUNCTIONAL', 'MATERIAL', 'SAFETY', 'CUSTOM')),
+    specification VARCHAR(500),
+    tolerance VARCHAR(100),
+    unit VARCHAR(20),
+    target_value DECIMAL(14,6),
+    min_value DECIMAL(14,6),
+    max_value DECIMAL(14,6),
+    status VARCHAR(20) DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'IN_PROGRESS', 'PASSED', 'FAILED', 'SKIPPED')),
+    sequence INTEGER NOT NULL CHECK (sequence > 0),
+    is_required BOOLEAN DEFAULT true,
+    result VARCHAR(20) CHECK (result IN ('PASS', 'FAIL', 'CONDITIONAL_PASS', 'NOT_APPLICABLE')),
+    measured_value DECIMAL(14,6),
+    notes TEXT,
+    planned_start_time TIMESTAMP WITH TIME ZONE,
+    actual_start_time TIMESTAMP WITH TIME ZONE,
+    planned_end_time TIMESTAMP WITH TIME ZONE,
+    actual_end_time TIMESTAMP WITH TIME ZONE,
+    inspector_id UUID,
+    inspector_name VARCHAR(100),
+    requires_second_check BOOLEAN DEFAULT false,
+    second_check_by UUID,
+    second_check_result VARCHAR(20) CHECK (second_check_result IN ('PASS', 'FAIL', 'CONDITIONAL_PASS', 'NOT_APPLICABLE')),
+    non_conformance_id UUID REFERENCES ncrs(id),
+    corrective_action VARCHAR(500),
+    attachments JSONB DEFAULT '[]',
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    version INTEGER DEFAULT 1
+);
+
+CREATE INDEX idx_quality_checks_manufacturing_order_id ON quality_checks(manufacturing_order_id);
+CREATE INDEX idx_quality_checks_operation_id ON quality_checks(operation_id);
+CREATE INDEX idx_quality_checks_status ON quality_checks(status) WHERE is_active = true;
+
+-- Now that quality checks exist, NCRs can reference the check that raised them
+ALTER TABLE ncrs ADD CONSTRAINT fk_ncrs_quality_check FOREIGN KEY (quality_check_id) REFERENCES quality_checks(id);
+CREATE INDEX idx_ncrs_quality_check_id ON ncrs(quality_check_id);
+
+-- NCR severity rules - How automatically drafted NCRs are classified per check type
+CREATE TABLE ncr_severity_rules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    check_type VARCHAR(20) NOT NULL UNIQUE CHECK (check_type IN ('VISUAL', 'DIMENSIONAL', 'FUNCTIONAL', 'MATERIAL', 'SAFETY', 'CUSTOM')),
+    severity VARCHAR(20) NOT NULL CHECK (severity IN ('MINOR', 'MAJOR', 'CRITICAL')),
+    category VARCHAR(30) NOT NULL CHECK (category IN ('MATERIAL_DEFECT', 'DIMENSIONAL', 'SURFACE_FINISH', 'FUNCTIONAL', 'PACKAGING', 'DOCUMENTATION', 'PROCESS', 'SAFETY', 'OTHER')),
+    auto_create BOOLEAN DEFAULT true,
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    version INTEGER DEFAULT 1
+);
+
+INSERT INTO ncr_severity_rules (check_type, severity, category) VALUES
+    ('VISUAL', 'MINOR', 'SURFACE_FINISH'),
+    ('DIMENSIONAL', 'MAJOR', 'DIMENSIONAL'),
+    ('FUNCTIONAL', 'MAJOR', 'FUNCTIONAL'),
+    ('MATERIAL', 'MAJOR', 'MATERIAL_DEFECT'),
+    ('SAFETY', 'CRITICAL', 'SAFETY'),
+    ('CUSTOM', 'MINOR', 'OTHER');
+
+CREATE TRIGGER update_quality_checks_updated_at BEFORE UPDATE ON quality_checks FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_ncr_severity_rules_updated_at BEFORE UPDATE ON ncr_severity_rules FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
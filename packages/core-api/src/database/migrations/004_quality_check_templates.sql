@@ -0,0 +1,43 @@
+-- Akazify Core Database Schema
+-- Migration 004: Quality check template library
+
+-- Quality check templates - Reusable, versioned inspection definitions.
+-- Editing a template inserts a new revision; existing checks keep pointing at the revision they were created from.
+CREATE TABLE quality_check_templates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    template_id VARCHAR(50) NOT NULL,
+    template_version INTEGER NOT NULL DEFAULT 1 CHECK (template_version > 0),
+    is_current BOOLEAN DEFAULT true,
+    name VARCHAR(200) NOT NULL,
+    description TEXT,
+    work_center_types JSONB DEFAULT '[]', -- Matches work_centers.category
+    operation_types JSONB DEFAULT '[]', -- Matches manufacturing_order_operations.operation_id
+    product_types JSONB DEFAULT '[]', -- Matches products.category
+    type VARCHAR(20) NOT NULL CHECK (type IN ('VISUAL', 'DIMENSIONAL', 'FUNCTIONAL', 'MATERIAL', 'SAFETY', 'CUSTOM')),
+    specification VARCHAR(500),
+    tolerance VARCHAR(100),
+    unit VARCHAR(20),
+    default_target_value DECIMAL(14,6),
+    default_min_value DECIMAL(14,6),
+    default_max_value DECIMAL(14,6),
+    is_required BOOLEAN DEFAULT true,
+    requires_second_check BOOLEAN DEFAULT false,
+    estimated_duration INTEGER, -- Minutes
+    instructions TEXT,
+    checklist_items JSONB DEFAULT '[]',
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    version INTEGER DEFAULT 1,
+    UNIQUE(template_id, template_version)
+);
+
+-- Only one current revision per template
+CREATE UNIQUE INDEX idx_quality_check_templates_current ON quality_check_templates(template_id) WHERE is_current = true;
+CREATE INDEX idx_quality_check_templates_type ON quality_check_templates(type) WHERE is_active = true;
+
+-- Checks remember which template revision they came from and carry its checklist
+ALTER TABLE quality_checks ADD COLUMN template_id UUID REFERENCES quality_check_templates(id);
+ALTER TABLE quality_checks ADD COLUMN checklist_items JSONB DEFAULT '[]';
+
+CREATE TRIGGER update_quality_check_templates_updated_at BEFORE UPDATE ON quality_check_templates FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
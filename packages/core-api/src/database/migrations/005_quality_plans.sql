@@ -0,0 +1,43 @@
+-- Akazify Core Database Schema
+-- Migration 005: Quality plans
+
+-- Quality plans - Inspections defined once per product and routing
+CREATE TABLE quality_plans (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    product_id UUID NOT NULL REFERENCES products(id),
+    routing_id UUID NOT NULL REFERENCES routings(id) ON DELETE CASCADE,
+    name VARCHAR(200) NOT NULL,
+    description TEXT,
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    version INTEGER DEFAULT 1
+);
+
+-- Only one active plan per product and routing
+CREATE UNIQUE INDEX idx_quality_plans_product_routing ON quality_plans(product_id, routing_id) WHERE is_active = true;
+
+-- Quality plan items - Check templates applied at each routing step
+CREATE TABLE quality_plan_items (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    quality_plan_id UUID NOT NULL REFERENCES quality_plans(id) ON DELETE CASCADE,
+    routing_step_id UUID NOT NULL REFERENCES routing_steps(id) ON DELETE CASCADE,
+    template_code VARCHAR(50) NOT NULL, -- quality_check_templates.template_id; current revision is used
+    sampling_frequency VARCHAR(20) NOT NULL DEFAULT 'PER_OPERATION' CHECK (sampling_frequency IN ('PER_OPERATION', 'FIRST_PIECE', 'FIRST_AND_LAST', 'EVERY_N_UNITS')),
+    sampling_interval INTEGER CHECK (sampling_interval > 0),
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    version INTEGER DEFAULT 1,
+    CHECK (sampling_frequency <> 'EVERY_N_UNITS' OR sampling_interval IS NOT NULL)
+);
+
+CREATE INDEX idx_quality_plan_items_plan_id ON quality_plan_items(quality_plan_id);
+CREATE INDEX idx_quality_plan_items_routing_step_id ON quality_plan_items(routing_step_id);
+
+-- Checks generated from a plan remember the item they came from, so release is idempotent
+ALTER TABLE quality_checks ADD COLUMN quality_plan_item_id UUID REFERENCES quality_plan_items(id);
+CREATE INDEX idx_quality_checks_quality_plan_item_id ON quality_checks(quality_plan_item_id);
+
+CREATE TRIGGER update_quality_plans_updated_at BEFORE UPDATE ON quality_plans FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_quality_plan_items_updated_at BEFORE UPDATE ON quality_plan_items FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,78 @@
+-- Akazify Core Database Schema
+-- Migration 006: Acceptance sampling (ANSI/ASQ Z1.4 / ISO 2859-1)
+
+-- Sampling plans - AQL and inspection level per stage, with the switching state between lots
+CREATE TABLE sampling_plans (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    code VARCHAR(50) UNIQUE NOT NULL,
+    name VARCHAR(200) NOT NULL,
+    description TEXT,
+    inspection_stage VARCHAR(20) NOT NULL CHECK (inspection_stage IN ('RECEIVING', 'IN_PROCESS', 'FINAL', 'SHIPPING')),
+    product_id UUID REFERENCES products(id),
+    aql DECIMAL(6,3) NOT NULL CHECK (aql > 0 AND aql <= 10),
+    inspection_level VARCHAR(3) NOT NULL DEFAULT 'II' CHECK (inspection_level IN ('S1', 'S2', 'S3', 'S4', 'I', 'II', 'III')),
+    allow_reduced BOOLEAN DEFAULT true,
+    current_severity VARCHAR(20) NOT NULL DEFAULT 'NORMAL' CHECK (current_severity IN ('NORMAL', 'TIGHTENED', 'REDUCED')),
+    switching_score INTEGER NOT NULL DEFAULT 0,
+    recent_lot_results JSONB DEFAULT '[]', -- Acceptance of the last five lots under normal inspection
+    consecutive_accepted INTEGER NOT NULL DEFAULT 0,
+    tightened_rejections INTEGER NOT NULL DEFAULT 0,
+    is_suspended BOOLEAN DEFAULT false,
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    version INTEGER DEFAULT 1
+);
+
+CREATE INDEX idx_sampling_plans_stage ON sampling_plans(inspection_stage) WHERE is_active = true;
+CREATE INDEX idx_sampling_plans_product_id ON sampling_plans(product_id);
+
+-- Sample inspections - One lot inspected under a plan; sample size and Ac/Re are fixed when it starts
+CREATE TABLE sample_inspections (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    sampling_plan_id UUID NOT NULL REFERENCES sampling_plans(id),
+    lot_id UUID REFERENCES lots(id),
+    operation_id UUID REFERENCES manufacturing_order_operations(id),
+    quality_check_id UUID REFERENCES quality_checks(id),
+    lot_size INTEGER NOT NULL CHECK (lot_size > 0),
+    severity VARCHAR(20) NOT NULL CHECK (severity IN ('NORMAL', 'TIGHTENED', 'REDUCED')),
+    code_letter CHAR(1) NOT NULL,
+    sample_size INTEGER NOT NULL CHECK (sample_size > 0),
+    accept_number INTEGER NOT NULL CHECK (accept_number >= 0),
+    reject_number INTEGER NOT NULL CHECK (reject_number > accept_number),
+    samples_inspected INTEGER NOT NULL DEFAULT 0,
+    nonconforming_count INTEGER NOT NULL DEFAULT 0,
+    status VARCHAR(20) NOT NULL DEFAULT 'IN_PROGRESS' CHECK (status IN ('IN_PROGRESS', 'ACCEPTED', 'REJECTED')),
+    decided_at TIMESTAMP WITH TIME ZONE,
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    version INTEGER DEFAULT 1,
+    CHECK (lot_id IS NOT NULL OR operation_id IS NOT NULL)
+);
+
+CREATE INDEX idx_sample_inspections_plan_id ON sample_inspections(sampling_plan_id);
+CREATE INDEX idx_sample_inspections_lot_id ON sample_inspections(lot_id);
+CREATE INDEX idx_sample_inspections_operation_id ON sample_inspections(operation_id);
+CREATE INDEX idx_sample_inspections_status ON sample_inspections(status);
+
+-- Sample results - Pass/fail per inspected unit
+CREATE TABLE sample_results (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    sample_inspection_id UUID NOT NULL REFERENCES sample_inspections(id) ON DELETE CASCADE,
+    sample_number INTEGER NOT NULL CHECK (sample_number > 0),
+    result VARCHAR(10) NOT NULL CHECK (result IN ('PASS', 'FAIL')),
+    measured_value DECIMAL(14,6),
+    notes TEXT,
+    inspector_id UUID,
+    inspected_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    version INTEGER DEFAULT 1,
+    UNIQUE(sample_inspection_id, sample_number)
+);
+
+CREATE TRIGGER update_sampling_plans_updated_at BEFORE UPDATE ON sampling_plans FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_sample_inspections_updated_at BEFORE UPDATE ON sample_inspections FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_sample_results_updated_at BEFORE UPDATE ON sample_results FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,19 @@
+-- Akazify Core Database Schema
+-- Migration 007: Two-person verification of quality checks
+
+-- Checks that require a second check wait in PENDING_VERIFICATION after the first result
+ALTER TABLE quality_checks DROP CONSTRAINT quality_checks_status_check;
+ALTER TABLE quality_checks ADD CONSTRAINT quality_checks_status_check
+    CHECK (status IN ('PENDING', 'IN_PROGRESS', 'PENDING_VERIFICATION', 'PASSED', 'FAILED', 'SKIPPED'));
+
+ALTER TABLE quality_checks ADD COLUMN second_check_measured_value DECIMAL(14,6);
+ALTER TABLE quality_checks ADD COLUMN second_check_notes TEXT;
+ALTER TABLE quality_checks ADD COLUMN second_check_at TIMESTAMP WITH TIME ZONE;
+
+-- Disagreements between the two inspectors are resolved by a supervisor
+ALTER TABLE quality_checks ADD COLUMN supervisor_review_required BOOLEAN DEFAULT false;
+ALTER TABLE quality_checks ADD COLUMN supervisor_review_by UUID;
+ALTER TABLE quality_checks ADD COLUMN supervisor_review_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE quality_checks ADD COLUMN supervisor_review_notes TEXT;
+
+CREATE INDEX idx_quality_checks_supervisor_review ON quality_checks(supervisor_review_required) WHERE supervisor_review_required = true AND is_active = true;
@@ -0,0 +1,76 @@
+-- Akazify Core Database Schema
+-- Migration 008: Corrective and preventive actions (CAPA)
+
+-- CAPAs - Linked to NCRs by listing the CAPA number in ncrs.document_references
+CREATE TABLE capas (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    capa_number VARCHAR(50) UNIQUE NOT NULL,
+    type VARCHAR(20) NOT NULL CHECK (type IN ('CORRECTIVE', 'PREVENTIVE')),
+    status VARCHAR(30) NOT NULL DEFAULT 'OPEN' CHECK (status IN ('OPEN', 'IN_PROGRESS', 'EFFECTIVENESS_CHECK', 'PENDING_APPROVAL', 'CLOSED')),
+    title VARCHAR(200) NOT NULL,
+    description TEXT NOT NULL,
+    root_cause TEXT,
+    owner_id UUID NOT NULL,
+    owner_name VARCHAR(100) NOT NULL,
+    due_date TIMESTAMP WITH TIME ZONE NOT NULL,
+    actual_close_date TIMESTAMP WITH TIME ZONE,
+    approved_by UUID,
+    approved_by_name VARCHAR(100),
+    approved_at TIMESTAMP WITH TIME ZONE,
+    approval_notes TEXT,
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    version INTEGER DEFAULT 1,
+    CHECK (approved_by IS NULL OR approved_by <> owner_id)
+);
+
+CREATE INDEX idx_capas_status ON capas(status);
+CREATE INDEX idx_capas_owner_id ON capas(owner_id);
+CREATE INDEX idx_capas_due_date ON capas(due_date) WHERE status <> 'CLOSED';
+
+-- CAPA action items - Individual actions with their own assignee and due date
+CREATE TABLE capa_action_items (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    capa_id UUID NOT NULL REFERENCES capas(id) ON DELETE CASCADE,
+    description TEXT NOT NULL,
+    assigned_to UUID,
+    assigned_to_name VARCHAR(100),
+    due_date TIMESTAMP WITH TIME ZONE NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'OPEN' CHECK (status IN ('OPEN', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED')),
+    completed_at TIMESTAMP WITH TIME ZONE,
+    completion_notes TEXT,
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    version INTEGER DEFAULT 1
+);
+
+CREATE INDEX idx_capa_action_items_capa_id ON capa_action_items(capa_id);
+CREATE INDEX idx_capa_action_items_due_date ON capa_action_items(due_date) WHERE status IN ('OPEN', 'IN_PROGRESS');
+
+-- CAPA effectiveness checks - Verification that the actions prevented recurrence
+CREATE TABLE capa_effectiveness_checks (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    capa_id UUID NOT NULL REFERENCES capas(id) ON DELETE CASCADE,
+    planned_date TIMESTAMP WITH TIME ZONE NOT NULL,
+    criteria TEXT,
+    result VARCHAR(20) CHECK (result IN ('EFFECTIVE', 'NOT_EFFECTIVE')),
+    performed_by UUID,
+    performed_by_name VARCHAR(100),
+    performed_at TIMESTAMP WITH TIME ZONE,
+    notes TEXT,
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    version INTEGER DEFAULT 1
+);
+
+CREATE INDEX idx_capa_effectiveness_checks_capa_id ON capa_effectiveness_checks(capa_id);
+
+-- CAPA lookups search NCR references for the CAPA number
+CREATE INDEX idx_ncrs_document_references ON ncrs USING GIN (document_references);
+
+CREATE TRIGGER update_capas_updated_at BEFORE UPDATE ON capas FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_capa_action_items_updated_at BEFORE UPDATE ON capa_action_items FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_capa_effectiveness_checks_updated_at BEFORE UPDATE ON capa_effectiveness_checks FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
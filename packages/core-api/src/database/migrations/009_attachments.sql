@@ -0,0 +1,28 @@
+-- Akazify Core Database Schema
+-- Migration 009: Quality check and NCR attachments
+
+-- Attachments - File metadata; content lives in the configured object store.
+-- The attachment ID is also listed in the owner's attachments array.
+CREATE TABLE attachments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    owner_type VARCHAR(20) NOT NULL CHECK (owner_type IN ('QUALITY_CHECK', 'NCR')),
+    owner_id UUID NOT NULL,
+    file_name VARCHAR(255) NOT NULL,
+    content_type VARCHAR(100) NOT NULL,
+    size_bytes BIGINT NOT NULL CHECK (size_bytes > 0),
+    checksum_sha256 CHAR(64) NOT NULL,
+    storage_driver VARCHAR(10) NOT NULL CHECK (storage_driver IN ('local', 's3')),
+    storage_key VARCHAR(500) UNIQUE NOT NULL,
+    description TEXT,
+    uploaded_by UUID,
+    uploaded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    version INTEGER DEFAULT 1
+);
+
+CREATE INDEX idx_attachments_owner ON attachments(owner_type, owner_id) WHERE is_active = true;
+CREATE INDEX idx_attachments_checksum ON attachments(checksum_sha256);
+
+CREATE TRIGGER update_attachments_updated_at BEFORE UPDATE ON attachments FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
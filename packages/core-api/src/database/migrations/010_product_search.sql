@@ -0,0 +1,8 @@
+-- Akazify Core Database Schema
+-- Migration 010: Product search and filtering
+
+-- Full-text search over SKU and name; the expression must match ProductRepository
+CREATE INDEX idx_products_search ON products USING GIN (to_tsvector('simple', sku || ' ' || name));
+
+CREATE INDEX idx_products_category ON products(category) WHERE is_active = true;
+CREATE INDEX idx_products_uom ON products(uom) WHERE is_active = true;
@@ -0,0 +1,38 @@
+-- Akazify Core Database Schema
+-- Migration 011: BOM versioning, effectivity and release
+
+-- boms.version is the revision label; bump version_number instead
+CREATE OR REPLACE FUNCTION update_updated_at_version_number_column()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    NEW.version_number = OLD.version_number + 1;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER update_boms_updated_at ON boms;
+CREATE TRIGGER update_boms_updated_at BEFORE UPDATE ON boms FOR EACH ROW EXECUTE FUNCTION update_updated_at_version_number_column();
+
+ALTER TABLE boms
+    ADD COLUMN status VARCHAR(20) NOT NULL DEFAULT 'DRAFT' CHECK (status IN ('DRAFT', 'RELEASED', 'OBSOLETE')),
+    ADD COLUMN effective_from TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN effective_to TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN released_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN released_by UUID,
+    ADD COLUMN released_by_name VARCHAR(100),
+    ADD COLUMN copied_from_bom_id UUID REFERENCES boms(id);
+
+-- BOMs created before versioning were already in use; treat them as released
+UPDATE boms SET status = 'RELEASED', released_at = created_at WHERE is_active = true;
+
+ALTER TABLE boms
+    ADD CONSTRAINT chk_boms_effectivity CHECK (effective_to IS NULL OR effective_from IS NULL OR effective_to > effective_from),
+    ADD CONSTRAINT chk_boms_default_released CHECK (NOT is_default OR status = 'RELEASED');
+
+-- At most one default BOM per product
+CREATE UNIQUE INDEX idx_boms_product_default ON boms(product_id) WHERE is_default = true AND is_active = true;
+CREATE INDEX idx_boms_status ON boms(status);
+
+-- Circular reference checks walk from components to their own BOMs
+CREATE INDEX idx_bom_items_component_product_id ON bom_items(component_product_id) WHERE is_active = true;
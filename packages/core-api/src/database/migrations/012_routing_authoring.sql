@@ -0,0 +1,21 @@
+-- Akazify Core Database Schema
+-- Migration 012: Routing authoring
+
+-- routings.version is the revision label; bump version_number instead
+DROP TRIGGER update_routings_updated_at ON routings;
+CREATE TRIGGER update_routings_updated_at BEFORE UPDATE ON routings FOR EACH ROW EXECUTE FUNCTION update_updated_at_version_number_column();
+
+-- At most one default routing per product
+CREATE UNIQUE INDEX idx_routings_product_default ON routings(product_id) WHERE is_default = true AND is_active = true;
+
+-- Sequences only need to be unique among active steps, so removed steps do
+-- not block their sequence from being reused
+ALTER TABLE routing_steps DROP CONSTRAINT routing_steps_routing_id_sequence_key;
+CREATE UNIQUE INDEX idx_routing_steps_routing_sequence ON routing_steps(routing_id, sequence) WHERE is_active = true;
+
+ALTER TABLE routing_steps
+    ADD CONSTRAINT chk_routing_steps_times CHECK (
+        (setup_time IS NULL OR setup_time >= 0)
+        AND (run_time IS NULL OR run_time >= 0)
+        AND (teardown_time IS NULL OR teardown_time >= 0)
+    );
@@ -0,0 +1,7 @@
+-- Akazify Core Database Schema
+-- Migration 013: Manufacturing order operation sequences
+
+-- Sequences only need to be unique among active operations, so operations
+-- removed from an order do not block it from being regenerated from its routing
+ALTER TABLE manufacturing_order_operations DROP CONSTRAINT manufacturing_order_operations_manufacturing_order_id_sequence_key;
+CREATE UNIQUE INDEX idx_mo_operations_order_sequence ON manufacturing_order_operations(manufacturing_order_id, sequence) WHERE is_active = true;
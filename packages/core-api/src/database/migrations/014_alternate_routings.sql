@@ -0,0 +1,38 @@
+-- Akazify Core Database Schema
+-- Migration 014: Alternate routings and work centers
+
+-- Alternate routings - Used in priority order (1 first) when the default
+-- routing cannot run; NULL for routings that are not alternates
+ALTER TABLE routings ADD COLUMN alternate_priority INTEGER CHECK (alternate_priority > 0);
+ALTER TABLE routings ADD CONSTRAINT chk_routings_default_not_alternate CHECK (NOT (is_default AND alternate_priority IS NOT NULL));
+CREATE UNIQUE INDEX idx_routings_product_alternate_priority ON routings(product_id, alternate_priority) WHERE alternate_priority IS NOT NULL AND is_active = true;
+
+-- Routing step alternates - Backup work centers for a step, tried in priority order
+CREATE TABLE routing_step_alternates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    routing_step_id UUID NOT NULL REFERENCES routing_steps(id) ON DELETE CASCADE,
+    work_center_id UUID NOT NULL REFERENCES work_centers(id),
+    priority INTEGER NOT NULL CHECK (priority > 0),
+    run_rate_multiplier DECIMAL(6,3) NOT NULL DEFAULT 1 CHECK (run_rate_multiplier > 0), -- Applied to the step's run time
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    version INTEGER DEFAULT 1
+);
+
+CREATE UNIQUE INDEX idx_routing_step_alternates_work_center ON routing_step_alternates(routing_step_id, work_center_id) WHERE is_active = true;
+CREATE UNIQUE INDEX idx_routing_step_alternates_priority ON routing_step_alternates(routing_step_id, priority) WHERE is_active = true;
+CREATE INDEX idx_routing_step_alternates_work_center_id ON routing_step_alternates(work_center_id);
+
+CREATE TRIGGER update_routing_step_alternates_updated_at BEFORE UPDATE ON routing_step_alternates FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Operations remember the routing step they came from and, when they run
+-- somewhere other than the step's work center, which alternate was chosen and why
+ALTER TABLE manufacturing_order_operations
+    ADD COLUMN routing_step_id UUID REFERENCES routing_steps(id),
+    ADD COLUMN primary_work_center_id UUID REFERENCES work_centers(id),
+    ADD COLUMN routing_step_alternate_id UUID REFERENCES routing_step_alternates(id),
+    ADD COLUMN run_rate_multiplier DECIMAL(6,3) NOT NULL DEFAULT 1 CHECK (run_rate_multiplier > 0),
+    ADD COLUMN alternate_reason TEXT;
+
+CREATE INDEX idx_mo_operations_routing_step_id ON manufacturing_order_operations(routing_step_id);
@@ -0,0 +1,64 @@
+-- Akazify Core Database Schema
+-- Migration 015: Engineering change orders (ECO)
+
+-- ECOs - Reviewed bundles of BOM and routing revisions
+CREATE TABLE ecos (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    eco_number VARCHAR(50) UNIQUE NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'DRAFT' CHECK (status IN ('DRAFT', 'SUBMITTED', 'APPROVED', 'REJECTED', 'APPLIED', 'CANCELLED')),
+    title VARCHAR(200) NOT NULL,
+    description TEXT,
+    reason TEXT,
+    effective_date TIMESTAMP WITH TIME ZONE NOT NULL, -- New BOM versions take over from here
+    requested_by UUID NOT NULL,
+    requested_by_name VARCHAR(100) NOT NULL,
+    reviewed_by UUID,
+    reviewed_by_name VARCHAR(100),
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    review_notes TEXT,
+    applied_by UUID,
+    applied_by_name VARCHAR(100),
+    applied_at TIMESTAMP WITH TIME ZONE,
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    version INTEGER DEFAULT 1,
+    CHECK (reviewed_by IS NULL OR reviewed_by <> requested_by)
+);
+
+CREATE INDEX idx_ecos_status ON ecos(status);
+
+-- ECO changes - One revision of a BOM or routing; line_changes holds the
+-- proposed item or step additions, updates and removals
+CREATE TABLE eco_changes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    eco_id UUID NOT NULL REFERENCES ecos(id) ON DELETE CASCADE,
+    change_type VARCHAR(20) NOT NULL CHECK (change_type IN ('BOM', 'ROUTING')),
+    product_id UUID NOT NULL REFERENCES products(id),
+    source_bom_id UUID REFERENCES boms(id),
+    source_routing_id UUID REFERENCES routings(id),
+    new_version VARCHAR(10) NOT NULL,
+    new_name VARCHAR(100),
+    new_description TEXT,
+    make_default BOOLEAN NOT NULL DEFAULT true,
+    line_changes JSONB NOT NULL DEFAULT '[]'::jsonb,
+    result_bom_id UUID REFERENCES boms(id),
+    result_routing_id UUID REFERENCES routings(id),
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    version INTEGER DEFAULT 1,
+    CHECK (
+        (change_type = 'BOM' AND source_bom_id IS NOT NULL AND source_routing_id IS NULL)
+        OR (change_type = 'ROUTING' AND source_routing_id IS NOT NULL AND source_bom_id IS NULL)
+    )
+);
+
+-- A BOM or routing is revised at most once per ECO
+CREATE UNIQUE INDEX idx_eco_changes_source_bom ON eco_changes(eco_id, source_bom_id) WHERE is_active = true AND source_bom_id IS NOT NULL;
+CREATE UNIQUE INDEX idx_eco_changes_source_routing ON eco_changes(eco_id, source_routing_id) WHERE is_active = true AND source_routing_id IS NOT NULL;
+CREATE INDEX idx_eco_changes_eco_id ON eco_changes(eco_id);
+CREATE INDEX idx_eco_changes_product_id ON eco_changes(product_id);
+
+CREATE TRIGGER update_ecos_updated_at BEFORE UPDATE ON ecos FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_eco_changes_updated_at BEFORE UPDATE ON eco_changes FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,128 @@
+-- Akazify Core Database Schema
+-- Migration 016: Units of measure, conversions and material consumption
+
+-- Units of measure - Canonical codes for the uom columns; aliases (stored
+-- lower case) are other spellings accepted on write
+CREATE TABLE uoms (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    code VARCHAR(20) NOT NULL UNIQUE CHECK (code ~ '^[A-Z0-9_]+$'),
+    name VARCHAR(100) NOT NULL,
+    dimension VARCHAR(20) NOT NULL CHECK (dimension IN ('MASS', 'LENGTH', 'COUNT', 'VOLUME')),
+    aliases TEXT[] NOT NULL DEFAULT '{}',
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    version INTEGER DEFAULT 1
+);
+
+CREATE INDEX idx_uoms_dimension ON uoms(dimension);
+CREATE INDEX idx_uoms_aliases ON uoms USING GIN(aliases);
+
+-- UoM conversions - 1 from_uom = factor × to_uom. Global conversions
+-- (product_id NULL) stay within a dimension; product conversions such as
+-- 1 BOX = 12 PCS apply to one product only
+CREATE TABLE uom_conversions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    from_uom VARCHAR(20) NOT NULL REFERENCES uoms(code) ON UPDATE CASCADE,
+    to_uom VARCHAR(20) NOT NULL REFERENCES uoms(code) ON UPDATE CASCADE,
+    factor DECIMAL(20,10) NOT NULL CHECK (factor > 0),
+    product_id UUID REFERENCES products(id),
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    version INTEGER DEFAULT 1,
+    CHECK (from_uom <> to_uom)
+);
+
+CREATE UNIQUE INDEX idx_uom_conversions_global ON uom_conversions(from_uom, to_uom) WHERE product_id IS NULL AND is_active = true;
+CREATE UNIQUE INDEX idx_uom_conversions_product ON uom_conversions(product_id, from_uom, to_uom) WHERE product_id IS NOT NULL AND is_active = true;
+CREATE INDEX idx_uom_conversions_product_id ON uom_conversions(product_id);
+
+CREATE TRIGGER update_uoms_updated_at BEFORE UPDATE ON uoms FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_uom_conversions_updated_at BEFORE UPDATE ON uom_conversions FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Standard units
+INSERT INTO uoms (code, name, dimension, aliases) VALUES
+    ('KG', 'Kilogram', 'MASS', '{kilogram,kilograms,kgs,kilo,kilos}'),
+    ('G', 'Gram', 'MASS', '{gram,grams,gr}'),
+    ('MG', 'Milligram', 'MASS', '{milligram,milligrams}'),
+    ('T', 'Tonne', 'MASS', '{tonne,tonnes,metric ton,metric tons}'),
+    ('LB', 'Pound', 'MASS', '{pound,pounds,lbs}'),
+    ('OZ', 'Ounce', 'MASS', '{ounce,ounces}'),
+    ('M', 'Metre', 'LENGTH', '{metre,metres,meter,meters}'),
+    ('CM', 'Centimetre', 'LENGTH', '{centimetre,centimetres,centimeter,centimeters}'),
+    ('MM', 'Millimetre', 'LENGTH', '{millimetre,millimetres,millimeter,millimeters}'),
+    ('IN', 'Inch', 'LENGTH', '{inch,inches}'),
+    ('FT', 'Foot', 'LENGTH', '{foot,feet}'),
+    ('EA', 'Each', 'COUNT', '{each,unit,units}'),
+    ('PCS', 'Piece', 'COUNT', '{pc,piece,pieces}'),
+    ('DOZ', 'Dozen', 'COUNT', '{dozen,dz}'),
+    ('L', 'Litre', 'VOLUME', '{litre,litres,liter,liters,ltr}'),
+    ('ML', 'Millilitre', 'VOLUME', '{millilitre,millilitres,milliliter,milliliters}'),
+    ('M3', 'Cubic metre', 'VOLUME', '{cubic metre,cubic meter,cbm}'),
+    ('GAL', 'US gallon', 'VOLUME', '{gallon,gallons}');
+
+INSERT INTO uom_conversions (from_uom, to_uom, factor) VALUES
+    ('KG', 'G', 1000),
+    ('G', 'MG', 1000),
+    ('T', 'KG', 1000),
+    ('LB', 'KG', 0.45359237),
+    ('OZ', 'G', 28.349523125),
+    ('M', 'CM', 100),
+    ('M', 'MM', 1000),
+    ('IN', 'MM', 25.4),
+    ('FT', 'IN', 12),
+    ('PCS', 'EA', 1),
+    ('DOZ', 'EA', 12),
+    ('L', 'ML', 1000),
+    ('M3', 'L', 1000),
+    ('GAL', 'L', 3.785411784);
+
+-- Normalise existing free-text units to their canonical codes. Units not in
+-- the catalogue are left as they are and rejected on their next write.
+UPDATE products t SET uom = u.code FROM uoms u
+WHERE t.uom <> u.code AND (UPPER(TRIM(t.uom)) = u.code OR LOWER(TRIM(t.uom)) = ANY(u.aliases));
+
+UPDATE bom_items t SET uom = u.code FROM uoms u
+WHERE t.uom <> u.code AND (UPPER(TRIM(t.uom)) = u.code OR LOWER(TRIM(t.uom)) = ANY(u.aliases));
+
+UPDATE lots t SET uom = u.code FROM uoms u
+WHERE t.uom <> u.code AND (UPPER(TRIM(t.uom)) = u.code OR LOWER(TRIM(t.uom)) = ANY(u.aliases));
+
+UPDATE manufacturing_orders t SET uom = u.code FROM uoms u
+WHERE t.uom <> u.code AND (UPPER(TRIM(t.uom)) = u.code OR LOWER(TRIM(t.uom)) = ANY(u.aliases));
+
+-- Material consumption - Component usage recorded against MO operations.
+-- Quantities are held in uom (the BOM item's unit when recorded against one);
+-- lot_quantity is what was drawn from the lot, in the lot's unit.
+CREATE TABLE material_consumption (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    operation_id UUID NOT NULL REFERENCES manufacturing_order_operations(id),
+    manufacturing_order_id UUID NOT NULL REFERENCES manufacturing_orders(id),
+    product_id UUID NOT NULL REFERENCES products(id),
+    bom_item_id UUID REFERENCES bom_items(id),
+    lot_id UUID REFERENCES lots(id),
+    transaction_type VARCHAR(20) NOT NULL DEFAULT 'CONSUMPTION' CHECK (transaction_type IN ('ALLOCATION', 'CONSUMPTION', 'RETURN', 'WASTE', 'SCRAP')),
+    uom VARCHAR(20) NOT NULL REFERENCES uoms(code) ON UPDATE CASCADE,
+    entered_uom VARCHAR(20) REFERENCES uoms(code) ON UPDATE CASCADE,
+    planned_quantity DECIMAL(14,4) NOT NULL DEFAULT 0 CHECK (planned_quantity >= 0),
+    consumed_quantity DECIMAL(14,4) NOT NULL DEFAULT 0 CHECK (consumed_quantity >= 0),
+    waste_quantity DECIMAL(14,4) NOT NULL DEFAULT 0 CHECK (waste_quantity >= 0),
+    lot_quantity DECIMAL(14,4) CHECK (lot_quantity >= 0),
+    lot_uom VARCHAR(20),
+    waste_reason VARCHAR(200),
+    transaction_date TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    recorded_by UUID,
+    notes TEXT,
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    version INTEGER DEFAULT 1,
+    CHECK (lot_id IS NULL OR lot_quantity IS NOT NULL)
+);
+
+CREATE INDEX idx_material_consumption_operation_id ON material_consumption(operation_id);
+CREATE INDEX idx_material_consumption_mo_id ON material_consumption(manufacturing_order_id);
+CREATE INDEX idx_material_consumption_lot_id ON material_consumption(lot_id);
+
+CREATE TRIGGER update_material_consumption_updated_at BEFORE UPDATE ON material_consumption FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
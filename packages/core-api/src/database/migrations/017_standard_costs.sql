@@ -0,0 +1,59 @@
+-- Akazify Core Database Schema
+-- Migration 017: Standard costs
+
+-- Work center rates used to cost routing step times
+ALTER TABLE work_centers
+    ADD COLUMN labor_rate DECIMAL(12,4) NOT NULL DEFAULT 0 CHECK (labor_rate >= 0), -- Per hour
+    ADD COLUMN machine_rate DECIMAL(12,4) NOT NULL DEFAULT 0 CHECK (machine_rate >= 0); -- Per hour
+
+-- Cost periods - Standard costs are versioned per period
+CREATE TABLE cost_periods (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    code VARCHAR(20) NOT NULL UNIQUE,
+    name VARCHAR(100) NOT NULL,
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL, -- Inclusive
+    status VARCHAR(20) NOT NULL DEFAULT 'OPEN' CHECK (status IN ('OPEN', 'FROZEN')),
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    version INTEGER DEFAULT 1,
+    CHECK (end_date >= start_date)
+);
+
+CREATE INDEX idx_cost_periods_dates ON cost_periods(start_date, end_date);
+
+-- Standard costs - Per unit of the product's uom. Material includes the full
+-- standard cost of components; labor and machine are this level's routing.
+CREATE TABLE standard_costs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    cost_period_id UUID NOT NULL REFERENCES cost_periods(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES products(id),
+    cost_type VARCHAR(20) NOT NULL CHECK (cost_type IN ('PURCHASED', 'ROLLED_UP')),
+    uom VARCHAR(20) NOT NULL,
+    lot_size DECIMAL(12,4) NOT NULL DEFAULT 1 CHECK (lot_size > 0), -- Setup and teardown are spread over this quantity
+    material_cost DECIMAL(14,6) NOT NULL DEFAULT 0 CHECK (material_cost >= 0),
+    labor_cost DECIMAL(14,6) NOT NULL DEFAULT 0 CHECK (labor_cost >= 0),
+    machine_cost DECIMAL(14,6) NOT NULL DEFAULT 0 CHECK (machine_cost >= 0),
+    total_cost DECIMAL(14,6) GENERATED ALWAYS AS (material_cost + labor_cost + machine_cost) STORED,
+    bom_id UUID REFERENCES boms(id),
+    routing_id UUID REFERENCES routings(id),
+    lines JSONB NOT NULL DEFAULT '[]'::jsonb, -- Component and operation contributions
+    rolled_up_at TIMESTAMP WITH TIME ZONE,
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    version INTEGER DEFAULT 1,
+    UNIQUE(cost_period_id, product_id)
+);
+
+CREATE INDEX idx_standard_costs_product_id ON standard_costs(product_id);
+
+CREATE TRIGGER update_cost_periods_updated_at BEFORE UPDATE ON cost_periods FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_standard_costs_updated_at BEFORE UPDATE ON standard_costs FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Consumption is costed at the material's standard cost when recorded
+ALTER TABLE material_consumption
+    ADD COLUMN unit_cost DECIMAL(14,6) CHECK (unit_cost >= 0), -- Per uom
+    ADD COLUMN total_cost DECIMAL(14,4) CHECK (total_cost >= 0),
+    ADD COLUMN waste_cost DECIMAL(14,4) CHECK (waste_cost >= 0);
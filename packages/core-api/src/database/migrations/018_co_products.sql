@@ -0,0 +1,53 @@
+-- Akazify Core Database Schema
+-- Migration 018: Co-products, by-products and manufacturing order outputs
+
+-- How an order's cost is split between the BOM's product and its co-products
+ALTER TABLE boms
+    ADD COLUMN cost_allocation_method VARCHAR(20) NOT NULL DEFAULT 'PHYSICAL_QUANTITY'
+        CHECK (cost_allocation_method IN ('PHYSICAL_QUANTITY', 'STANDARD_VALUE', 'FIXED_PERCENTAGE'));
+
+-- BOM outputs - Co-products and by-products made alongside the BOM's product.
+-- yield_ratio is the output quantity, in uom, per unit of the BOM's product.
+CREATE TABLE bom_outputs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    bom_id UUID NOT NULL REFERENCES boms(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES products(id),
+    output_type VARCHAR(20) NOT NULL CHECK (output_type IN ('CO_PRODUCT', 'BY_PRODUCT')),
+    yield_ratio DECIMAL(12,6) NOT NULL CHECK (yield_ratio > 0),
+    uom VARCHAR(20) NOT NULL REFERENCES uoms(code) ON UPDATE CASCADE,
+    allocation_percent DECIMAL(5,2) CHECK (allocation_percent >= 0 AND allocation_percent <= 100),
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    version INTEGER DEFAULT 1
+);
+
+CREATE UNIQUE INDEX idx_bom_outputs_product ON bom_outputs(bom_id, product_id) WHERE is_active = true;
+
+-- Manufacturing order outputs - What a completed order produced, the lot each
+-- output was received into and its share of the order's actual cost
+CREATE TABLE manufacturing_order_outputs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    manufacturing_order_id UUID NOT NULL REFERENCES manufacturing_orders(id),
+    product_id UUID NOT NULL REFERENCES products(id),
+    output_type VARCHAR(20) NOT NULL CHECK (output_type IN ('PRIMARY', 'CO_PRODUCT', 'BY_PRODUCT')),
+    bom_output_id UUID REFERENCES bom_outputs(id),
+    quantity DECIMAL(14,4) NOT NULL CHECK (quantity > 0),
+    uom VARCHAR(20) NOT NULL REFERENCES uoms(code) ON UPDATE CASCADE,
+    lot_id UUID NOT NULL REFERENCES lots(id),
+    allocation_method VARCHAR(20) NOT NULL,
+    cost_share DECIMAL(7,6) NOT NULL DEFAULT 0 CHECK (cost_share >= 0 AND cost_share <= 1),
+    allocated_cost DECIMAL(14,4) NOT NULL DEFAULT 0 CHECK (allocated_cost >= 0),
+    unit_cost DECIMAL(14,6) NOT NULL DEFAULT 0 CHECK (unit_cost >= 0),
+    reported_by UUID,
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    version INTEGER DEFAULT 1,
+    UNIQUE(manufacturing_order_id, product_id)
+);
+
+CREATE INDEX idx_mo_outputs_lot_id ON manufacturing_order_outputs(lot_id);
+
+CREATE TRIGGER update_bom_outputs_updated_at BEFORE UPDATE ON bom_outputs FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_manufacturing_order_outputs_updated_at BEFORE UPDATE ON manufacturing_order_outputs FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
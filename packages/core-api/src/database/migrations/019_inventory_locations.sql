@@ -0,0 +1,25 @@
+-- Akazify Core Database Schema
+-- Migration 019: Inventory location hierarchy, bin capacity and lot placement
+
+-- Bin capacity is measured in a catalogue unit; stock is converted to it
+ALTER TABLE bins
+    ADD COLUMN capacity_uom VARCHAR(20) REFERENCES uoms(code) ON UPDATE CASCADE;
+
+-- Existing capacities were recorded without a unit; clear them rather than
+-- guess one, so they are re-entered with their unit
+UPDATE bins SET capacity = NULL WHERE capacity IS NOT NULL;
+
+ALTER TABLE bins
+    ADD CONSTRAINT bins_capacity_check CHECK (capacity IS NULL OR (capacity > 0 AND capacity_uom IS NOT NULL));
+
+-- Where a lot is stored. A lot in a bin is also in the bin's location.
+ALTER TABLE lots
+    ADD COLUMN location_id UUID REFERENCES locations(id),
+    ADD COLUMN bin_id UUID REFERENCES bins(id);
+
+-- Indexes for location trees and contents queries
+CREATE INDEX idx_locations_parent_location_id ON locations(parent_location_id) WHERE is_active = true;
+CREATE INDEX idx_lots_location_id ON lots(location_id) WHERE is_active = true;
+CREATE INDEX idx_lots_bin_id ON lots(bin_id) WHERE is_active = true;
+CREATE INDEX idx_serial_numbers_location_id ON serial_numbers(location_id) WHERE is_active = true;
+CREATE INDEX idx_serial_numbers_bin_id ON serial_numbers(bin_id) WHERE is_active = true;
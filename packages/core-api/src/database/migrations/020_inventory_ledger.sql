@@ -0,0 +1,92 @@
+-- Akazify Core Database Schema
+-- Migration 020: Append-only inventory transaction ledger and lot status history
+
+-- Inventory transactions - Every change to a lot's quantity or place.
+-- quantity is the signed change in the lot's uom; balance_after is the lot
+-- quantity once applied. Entries are numbered per lot.
+CREATE TABLE inventory_transactions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    lot_id UUID NOT NULL REFERENCES lots(id),
+    product_id UUID NOT NULL REFERENCES products(id),
+    sequence INTEGER NOT NULL CHECK (sequence > 0),
+    transaction_type VARCHAR(20) NOT NULL CHECK (transaction_type IN ('RECEIPT', 'ISSUE', 'ADJUSTMENT', 'TRANSFER', 'SCRAP')),
+    quantity DECIMAL(10,4) NOT NULL,
+    uom VARCHAR(20) NOT NULL,
+    balance_after DECIMAL(10,4) NOT NULL CHECK (balance_after >= 0),
+    entered_quantity DECIMAL(10,4),
+    entered_uom VARCHAR(20),
+    from_location_id UUID REFERENCES locations(id),
+    from_bin_id UUID REFERENCES bins(id),
+    to_location_id UUID REFERENCES locations(id),
+    to_bin_id UUID REFERENCES bins(id),
+    reference_type VARCHAR(30),
+    reference_id UUID,
+    reason TEXT,
+    performed_by UUID,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(lot_id, sequence),
+    CHECK (
+        (transaction_type = 'RECEIPT' AND quantity > 0) OR
+        (transaction_type IN ('ISSUE', 'SCRAP') AND quantity < 0) OR
+        (transaction_type = 'ADJUSTMENT' AND quantity <> 0) OR
+        (transaction_type = 'TRANSFER' AND quantity = 0)
+    )
+);
+
+-- Lot status changes - Audit of status transitions
+CREATE TABLE lot_status_changes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    lot_id UUID NOT NULL REFERENCES lots(id),
+    from_status VARCHAR(20) NOT NULL,
+    to_status VARCHAR(20) NOT NULL,
+    reason TEXT,
+    changed_by UUID,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Opening balances for lots that already hold stock
+INSERT INTO inventory_transactions
+    (lot_id, product_id, sequence, transaction_type, quantity, uom, balance_after,
+     to_location_id, to_bin_id, reference_type, reason)
+SELECT id, product_id, 1, 'RECEIPT', quantity, uom, quantity,
+       location_id, bin_id, 'OPENING_BALANCE', 'Balance when the ledger was introduced'
+FROM lots
+WHERE quantity > 0;
+
+-- Ledger entries are never changed or removed
+CREATE OR REPLACE FUNCTION prevent_inventory_transaction_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'inventory_transactions is append-only';
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER inventory_transactions_append_only BEFORE UPDATE OR DELETE ON inventory_transactions
+    FOR EACH ROW EXECUTE FUNCTION prevent_inventory_transaction_change();
+
+-- A lot's quantity is the balance of its ledger: lots start empty and their
+-- quantity may only be set to the balance of the latest entry
+CREATE OR REPLACE FUNCTION check_lot_quantity_matches_ledger()
+RETURNS TRIGGER AS $$
+DECLARE
+    ledger_balance DECIMAL(10,4);
+BEGIN
+    SELECT balance_after INTO ledger_balance
+    FROM inventory_transactions
+    WHERE lot_id = NEW.id
+    ORDER BY sequence DESC
+    LIMIT 1;
+
+    IF NEW.quantity <> COALESCE(ledger_balance, 0) THEN
+        RAISE EXCEPTION 'Lot % quantity must be changed through inventory transactions', NEW.lot_number;
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER check_lots_quantity BEFORE INSERT OR UPDATE OF quantity ON lots
+    FOR EACH ROW EXECUTE FUNCTION check_lot_quantity_matches_ledger();
+
+CREATE INDEX idx_inventory_transactions_product_id ON inventory_transactions(product_id, created_at);
+CREATE INDEX idx_inventory_transactions_reference ON inventory_transactions(reference_type, reference_id);
+CREATE INDEX idx_lot_status_changes_lot_id ON lot_status_changes(lot_id);
@@ -0,0 +1,33 @@
+-- Akazify Core Database Schema
+-- Migration 021: Lot genealogy linking consumed lots to the lots produced from them
+
+-- Lot genealogy - One edge per consumed lot, produced lot and order.
+-- quantity is what the order drew from the parent lot, in the parent lot's uom.
+CREATE TABLE lot_genealogy (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    parent_lot_id UUID NOT NULL REFERENCES lots(id),
+    child_lot_id UUID NOT NULL REFERENCES lots(id),
+    manufacturing_order_id UUID NOT NULL REFERENCES manufacturing_orders(id),
+    quantity DECIMAL(14,4) NOT NULL CHECK (quantity >= 0),
+    uom VARCHAR(20) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(parent_lot_id, child_lot_id, manufacturing_order_id),
+    CHECK (parent_lot_id <> child_lot_id)
+);
+
+-- Edges for orders that already consumed lots and received outputs
+INSERT INTO lot_genealogy (parent_lot_id, child_lot_id, manufacturing_order_id, quantity, uom)
+SELECT mc.lot_id, moo.lot_id, mc.manufacturing_order_id, SUM(mc.lot_quantity), mc.lot_uom
+FROM material_consumption mc
+INNER JOIN manufacturing_order_outputs moo
+    ON moo.manufacturing_order_id = mc.manufacturing_order_id AND moo.is_active = true
+WHERE mc.lot_id IS NOT NULL AND mc.is_active = true
+GROUP BY mc.lot_id, moo.lot_id, mc.manufacturing_order_id, mc.lot_uom;
+
+CREATE TRIGGER update_lot_genealogy_updated_at BEFORE UPDATE ON lot_genealogy
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE INDEX idx_lot_genealogy_parent_lot_id ON lot_genealogy(parent_lot_id);
+CREATE INDEX idx_lot_genealogy_child_lot_id ON lot_genealogy(child_lot_id);
+CREATE INDEX idx_lot_genealogy_manufacturing_order_id ON lot_genealogy(manufacturing_order_id);
@@ -0,0 +1,63 @@
+-- Akazify Core Database Schema
+-- Migration 022: Serial number lifecycle, as-built records and serial quality checks
+
+-- Serial numbers remember the order that built them and the operation they
+-- are allocated to
+ALTER TABLE serial_numbers
+    ADD COLUMN manufacturing_order_id UUID REFERENCES manufacturing_orders(id),
+    ADD COLUMN allocated_operation_id UUID REFERENCES manufacturing_order_operations(id),
+    ADD CONSTRAINT serial_numbers_allocation_check CHECK (allocated_operation_id IS NULL OR status = 'ALLOCATED');
+
+-- Serial number events - History of each serial from registration on
+CREATE TABLE serial_number_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    serial_number_id UUID NOT NULL REFERENCES serial_numbers(id),
+    event_type VARCHAR(20) NOT NULL CHECK (event_type IN ('REGISTERED', 'MOVED', 'ALLOCATED', 'DEALLOCATED', 'INSTALLED', 'SCRAPPED')),
+    from_status VARCHAR(20),
+    to_status VARCHAR(20) NOT NULL,
+    from_location_id UUID REFERENCES locations(id),
+    from_bin_id UUID REFERENCES bins(id),
+    to_location_id UUID REFERENCES locations(id),
+    to_bin_id UUID REFERENCES bins(id),
+    operation_id UUID REFERENCES manufacturing_order_operations(id),
+    reason TEXT,
+    performed_by UUID,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- As-built components - What was installed in a finished serial, by which
+-- operation and operator. A component is either a serial (quantity 1) or a
+-- share of a lot drawn by a material consumption record.
+CREATE TABLE as_built_components (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    serial_number_id UUID NOT NULL REFERENCES serial_numbers(id),
+    operation_id UUID NOT NULL REFERENCES manufacturing_order_operations(id),
+    product_id UUID NOT NULL REFERENCES products(id),
+    component_serial_id UUID REFERENCES serial_numbers(id),
+    lot_id UUID REFERENCES lots(id),
+    material_consumption_id UUID REFERENCES material_consumption(id),
+    quantity DECIMAL(14,4) NOT NULL CHECK (quantity > 0),
+    uom VARCHAR(20) NOT NULL,
+    installed_by UUID,
+    notes TEXT,
+    installed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (
+        (component_serial_id IS NOT NULL AND lot_id IS NULL AND material_consumption_id IS NULL AND quantity = 1) OR
+        (component_serial_id IS NULL AND lot_id IS NOT NULL AND material_consumption_id IS NOT NULL)
+    ),
+    CHECK (component_serial_id <> serial_number_id)
+);
+
+-- A serial is installed in one place
+CREATE UNIQUE INDEX idx_as_built_components_component_serial ON as_built_components(component_serial_id)
+    WHERE component_serial_id IS NOT NULL;
+
+-- Quality checks may be recorded against a single serial
+ALTER TABLE quality_checks ADD COLUMN serial_number_id UUID REFERENCES serial_numbers(id);
+
+CREATE INDEX idx_serial_numbers_manufacturing_order_id ON serial_numbers(manufacturing_order_id);
+CREATE INDEX idx_serial_numbers_allocated_operation_id ON serial_numbers(allocated_operation_id);
+CREATE INDEX idx_serial_number_events_serial_number_id ON serial_number_events(serial_number_id);
+CREATE INDEX idx_as_built_components_serial_number_id ON as_built_components(serial_number_id);
+CREATE INDEX idx_as_built_components_lot_id ON as_built_components(lot_id);
+CREATE INDEX idx_quality_checks_serial_number_id ON quality_checks(serial_number_id);
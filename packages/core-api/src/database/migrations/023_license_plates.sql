@@ -0,0 +1,72 @@
+-- Akazify Core Database Schema
+-- Migration 023: License plates for containers and pallets
+
+-- License plates - Identified containers that hold lot and serial quantities
+-- and may be nested (a case on a pallet). Nested plates share the place of
+-- the plate they are in.
+CREATE TABLE license_plates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    lp_number VARCHAR(50) NOT NULL UNIQUE,
+    lp_type VARCHAR(20) NOT NULL DEFAULT 'PALLET' CHECK (lp_type IN ('PALLET', 'CASE', 'TOTE', 'CONTAINER')),
+    parent_license_plate_id UUID REFERENCES license_plates(id),
+    location_id UUID REFERENCES locations(id),
+    bin_id UUID REFERENCES bins(id),
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    version INTEGER DEFAULT 1,
+    CHECK (parent_license_plate_id <> id)
+);
+
+-- License plate contents - Lot quantities (in the lot's uom) and serials
+-- packed directly on a plate. A lot's packed quantity is at the plate's
+-- place; the rest of the lot is loose at the lot's own place.
+CREATE TABLE license_plate_contents (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    license_plate_id UUID NOT NULL REFERENCES license_plates(id),
+    product_id UUID NOT NULL REFERENCES products(id),
+    lot_id UUID REFERENCES lots(id),
+    serial_number_id UUID REFERENCES serial_numbers(id),
+    quantity DECIMAL(14,4) NOT NULL CHECK (quantity > 0),
+    uom VARCHAR(20) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(license_plate_id, lot_id),
+    CHECK (
+        (lot_id IS NOT NULL AND serial_number_id IS NULL) OR
+        (lot_id IS NULL AND serial_number_id IS NOT NULL AND quantity = 1)
+    )
+);
+
+-- A serial is packed on one plate at a time
+CREATE UNIQUE INDEX idx_license_plate_contents_serial ON license_plate_contents(serial_number_id)
+    WHERE serial_number_id IS NOT NULL;
+
+-- License plate events - History of each plate
+CREATE TABLE license_plate_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    license_plate_id UUID NOT NULL REFERENCES license_plates(id),
+    event_type VARCHAR(20) NOT NULL CHECK (event_type IN ('CREATED', 'PACKED', 'UNPACKED', 'MOVED', 'NESTED', 'UNNESTED', 'SPLIT', 'MERGED')),
+    lot_id UUID REFERENCES lots(id),
+    serial_number_id UUID REFERENCES serial_numbers(id),
+    quantity DECIMAL(14,4),
+    uom VARCHAR(20),
+    related_license_plate_id UUID REFERENCES license_plates(id),
+    from_location_id UUID REFERENCES locations(id),
+    from_bin_id UUID REFERENCES bins(id),
+    to_location_id UUID REFERENCES locations(id),
+    to_bin_id UUID REFERENCES bins(id),
+    performed_by UUID,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TRIGGER update_license_plates_updated_at BEFORE UPDATE ON license_plates
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_license_plate_contents_updated_at BEFORE UPDATE ON license_plate_contents
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE INDEX idx_license_plates_parent_id ON license_plates(parent_license_plate_id);
+CREATE INDEX idx_license_plates_location_id ON license_plates(location_id) WHERE is_active = true;
+CREATE INDEX idx_license_plates_bin_id ON license_plates(bin_id) WHERE is_active = true;
+CREATE INDEX idx_license_plate_contents_lot_id ON license_plate_contents(lot_id);
+CREATE INDEX idx_license_plate_events_license_plate_id ON license_plate_events(license_plate_id);
@@ -0,0 +1,178 @@
+import { Pool } from 'pg';
+import { Attachment, AttachmentOwnerTypeType } from '@akazify/core-domain';
+import { BaseRepository } from './base';
+
+/**
+ * Table holding each owner type's `attachments` array
+ */
+const OWNER_TABLES: Record<AttachmentOwnerTypeType, string> = {
+  QUALITY_CHECK: 'quality_checks',
+  NCR: 'ncrs',
+};
+
+const ATTACHMENT_COLUMNS = `
+  id,
+  owner_type as "ownerType",
+  owner_id as "ownerId",
+  file_name as "fileName",
+  content_type as "contentType",
+  size_bytes::int as "sizeBytes",
+  checksum_sha256 as "checksumSha256",
+  storage_driver as "storageDriver",
+  storage_key as "storageKey",
+  description,
+  uploaded_by as "uploadedBy",
+  uploaded_at as "uploadedAt",
+  is_active as "isActive",
+  created_at as "createdAt",
+  updated_at as "updatedAt",
+  version
+`;
+
+/**
+ * Attachment repository for files stored against quality checks and NCRs
+ */
+export class AttachmentRepository extends BaseRepository<Attachment> {
+  constructor(pool: Pool) {
+    super(pool, 'attachments');
+  }
+
+  /**
+   * Find attachment by ID
+   */
+  async findById(id: string): Promise<Attachment | null> {
+    const query = `
+      SELECT ${ATTACHMENT_COLUMNS}
+      FROM attachments
+      WHERE id = $1 AND is_active = true
+    `;
+    const result = await this.executeQuery<Attachment>(query, [id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Find attachment by its object key
+   */
+  async findByStorageKey(storageKey: string): Promise<Attachment | null> {
+    const query = `
+      SELECT ${ATTACHMENT_COLUMNS}
+      FROM attachments
+      WHERE storage_key = $1 AND is_active = true
+    `;
+    const result = await this.executeQuery<Attachment>(query, [storageKey]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Attachments of a quality check or NCR, newest first
+   */
+  async findByOwner(ownerType: AttachmentOwnerTypeType, ownerId: string): Promise<Attachment[]> {
+    const query = `
+      SELECT ${ATTACHMENT_COLUMNS}
+      FROM attachments
+      WHERE owner_type = $1 AND owner_id = $2 AND is_active = true
+      ORDER BY uploaded_at DESC
+    `;
+    const result = await this.executeQuery<Attachment>(query, [ownerType, ownerId]);
+    return result.rows;
+  }
+
+  /**
+   * Whether the quality check or NCR exists
+   */
+  async ownerExists(ownerType: AttachmentOwnerTypeType, ownerId: string): Promise<boolean> {
+    const result = await this.executeQuery(
+      `SELECT 1 FROM ${OWNER_TABLES[ownerType]} WHERE id = $1 AND is_active = true`,
+      [ownerId]
+    );
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Record an uploaded file and add it to the owner's attachments array
+   */
+  async createForOwner(data: {
+    id: string;
+    ownerType: AttachmentOwnerTypeType;
+    ownerId: string;
+    fileName: string;
+    contentType: string;
+    sizeBytes: number;
+    checksumSha256: string;
+    storageDriver: 'local' | 's3';
+    storageKey: string;
+    description?: string;
+    uploadedBy?: string;
+  }): Promise<Attachment> {
+    const client = await this.beginTransaction();
+    try {
+      await client.query(
+        `INSERT INTO attachments (
+          id, owner_type, owner_id, file_name, content_type, size_bytes, checksum_sha256,
+          storage_driver, storage_key, description, uploaded_by
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+        [
+          data.id,
+          data.ownerType,
+          data.ownerId,
+          data.fileName,
+          data.contentType,
+          data.sizeBytes,
+          data.checksumSha256,
+          data.storageDriver,
+          data.storageKey,
+          data.description,
+          data.uploadedBy,
+        ]
+      );
+
+      const owner = await client.query(
+        `UPDATE ${OWNER_TABLES[data.ownerType]}
+         SET attachments = COALESCE(attachments, '[]'::jsonb) || jsonb_build_array($2::text), updated_at = NOW()
+         WHERE id = $1 AND is_active = true`,
+        [data.ownerId, data.id]
+      );
+      if (owner.rowCount === 0) {
+        throw new Error(`${data.ownerType === 'NCR' ? 'NCR' : 'Quality check'} with ID ${data.ownerId} not found`);
+      }
+
+      await this.commitTransaction(client);
+    } catch (error) {
+      await this.rollbackTransaction(client);
+      throw error;
+    }
+
+    return (await this.findById(data.id))!;
+  }
+
+  /**
+   * Remove an attachment from its owner. The stored object is kept so the
+   * quality record remains auditable.
+   */
+  async removeFromOwner(id: string): Promise<Attachment | null> {
+    const attachment = await this.findById(id);
+    if (!attachment) {
+      return null;
+    }
+
+    const client = await this.beginTransaction();
+    try {
+      await client.query(
+        `UPDATE attachments SET is_active = false, updated_at = NOW() WHERE id = $1`,
+        [id]
+      );
+      await client.query(
+        `UPDATE ${OWNER_TABLES[attachment.ownerType as AttachmentOwnerTypeType]}
+         SET attachments = COALESCE(attachments, '[]'::jsonb) - $2::text, updated_at = NOW()
+         WHERE id = $1`,
+        [attachment.ownerId, id]
+      );
+      await this.commitTransaction(client);
+    } catch (error) {
+      await this.rollbackTransaction(client);
+      throw error;
+    }
+
+    return attachment;
+  }
+}
@@ -185,7 +185,7 @@ export abstract class BaseRepository<T extends BaseEntity> {
   /**
    * Convert object keys from camelCase to snake_case
    */
-  private convertKeysToSnakeCase(obj: any): any {
+  protected convertKeysToSnakeCase(obj: any): any {
     const converted: any = {};
     for (const [key, value] of Object.entries(obj)) {
       converted[this.toSnakeCase(key)] = value;
@@ -196,7 +196,7 @@ export abstract class BaseRepository<T extends BaseEntity> {
   /**
    * Convert object keys from snake_case to camelCase
    */
-  private convertKeysToCamelCase(obj: any): any {
+  protected convertKeysToCamelCase(obj: any): any {
     const converted: any = {};
     for (const [key, value] of Object.entries(obj)) {
       converted[this.toCamelCase(key)] = value;
@@ -0,0 +1,1181 @@
+import { Pool, PoolClient } from 'pg';
+import {
+  BOMComponentRequirement,
+  BOMDetail,
+  BOMExplosion,
+  BOMExplosionLine,
+  BOMExplosionNode,
+  BOMItemDetail,
+  BOMOutput,
+  BOMOutputTypeType,
+  BOMStatusType,
+  CostAllocationMethodType,
+  WhereUsed,
+  WhereUsedLine,
+  WhereUsedNode,
+} from '@akazify/core-domain';
+import { BaseRepository, FilterOptions, PaginatedResult, PaginationOptions } from './base';
+import { UoMRepository } from './uom.repository';
+
+/**
+ * BOM specific filter options
+ */
+export interface BOMFilterOptions extends FilterOptions {
+  productId?: string;
+  status?: BOMStatusType;
+  isDefault?: boolean;
+  effectiveAt?: Date; // Released BOMs whose effectivity window covers this instant
+}
+
+/**
+ * Fields that may be supplied alongside a status transition
+ */
+export interface BOMTransitionData {
+  releasedBy?: string;
+  releasedByName?: string;
+  makeDefault?: boolean;
+}
+
+/**
+ * BOM item fields accepted on create and update
+ */
+export interface BOMItemInput {
+  componentProductId: string;
+  quantity: number;
+  uom: string;
+  operationSequence?: number;
+  wasteFactor?: number;
+}
+
+/**
+ * BOM co-product and by-product fields accepted on create and update
+ */
+export interface BOMOutputInput {
+  productId: string;
+  outputType: BOMOutputTypeType;
+  yieldRatio: number;
+  uom: string;
+  allocationPercent?: number;
+}
+
+/**
+ * Fields that must be present on a BOM before it may enter each status
+ */
+const BOM_REQUIRED_FIELDS: Record<string, string[]> = {
+  'RELEASED': ['releasedBy', 'releasedByName'],
+};
+
+/**
+ * Manufacturing order statuses that still need their BOM
+ */
+const OPEN_MO_STATUSES = ['PLANNED', 'RELEASED', 'IN_PROGRESS'];
+
+const BOM_COLUMNS = `
+  b.id,
+  b.product_id as "productId",
+  p.sku as "productSku",
+  p.name as "productName",
+  b.version as revision,
+  b.name,
+  b.description,
+  b.status,
+  b.is_default as "isDefault",
+  b.effective_from as "effectiveFrom",
+  b.effective_to as "effectiveTo",
+  b.released_at as "releasedAt",
+  b.released_by as "releasedBy",
+  b.released_by_name as "releasedByName",
+  b.copied_from_bom_id as "copiedFromBomId",
+  b.cost_allocation_method as "costAllocationMethod",
+  b.is_active as "isActive",
+  b.created_at as "createdAt",
+  b.updated_at as "updatedAt",
+  b.version_number as version
+`;
+
+const BOM_ITEM_COLUMNS = `
+  bi.id,
+  bi.bom_id as "bomId",
+  bi.component_product_id as "componentProductId",
+  p.sku as "componentSku",
+  p.name as "componentName",
+  bi.quantity::float8 as quantity,
+  bi.uom,
+  bi.operation_sequence as "operationSequence",
+  bi.waste_factor::float8 as "wasteFactor",
+  bi.is_active as "isActive",
+  bi.created_at as "createdAt",
+  bi.updated_at as "updatedAt",
+  bi.version
+`;
+
+const BOM_OUTPUT_COLUMNS = `
+  bo.id,
+  bo.bom_id as "bomId",
+  bo.product_id as "productId",
+  p.sku as "productSku",
+  p.name as "productName",
+  bo.output_type as "outputType",
+  bo.yield_ratio::float8 as "yieldRatio",
+  bo.uom,
+  bo.allocation_percent::float8 as "allocationPercent",
+  bo.is_active as "isActive",
+  bo.created_at as "createdAt",
+  bo.updated_at as "updatedAt",
+  bo.version
+`;
+
+/**
+ * Effective BOM per product at $1, picked the same way as findEffective.
+ * Callers append a product filter.
+ */
+const EFFECTIVE_BOMS = `
+  SELECT DISTINCT ON (product_id) id, product_id, version
+  FROM boms
+  WHERE is_active = true
+    AND status = 'RELEASED'
+    AND (effective_from IS NULL OR effective_from <= $1)
+    AND (effective_to IS NULL OR effective_to > $1)
+`;
+
+const EFFECTIVE_BOMS_ORDER = `ORDER BY product_id, is_default DESC, effective_from DESC NULLS LAST, released_at DESC`;
+
+/**
+ * Round multiplied quantities to drop floating point noise
+ */
+function roundQuantity(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+/**
+ * Bill of materials repository covering BOM versions and their items
+ */
+export class BOMRepository extends BaseRepository<BOMDetail> {
+  private uomRepository: UoMRepository;
+
+  constructor(pool: Pool) {
+    super(pool, 'boms');
+    this.uomRepository = new UoMRepository(pool);
+  }
+
+  /**
+   * Find BOM by ID with its items
+   */
+  async findById(id: string): Promise<BOMDetail | null> {
+    const query = `
+      SELECT ${BOM_COLUMNS}
+      FROM boms b
+      INNER JOIN products p ON b.product_id = p.id
+      WHERE b.id = $1 AND b.is_active = true
+    `;
+    const result = await this.executeQuery<BOMDetail>(query, [id]);
+    const bom = result.rows[0];
+    if (!bom) {
+      return null;
+    }
+
+    return { ...bom, items: await this.findItems(id), outputs: await this.findOutputs(id) };
+  }
+
+  /**
+   * Find BOMs with filtering and pagination
+   */
+  async findWithFilters(
+    options: PaginationOptions = {},
+    filters: BOMFilterOptions = {}
+  ): Promise<PaginatedResult<BOMDetail>> {
+    const {
+      page = 1,
+      limit = 50,
+      sortBy = 'created_at',
+      sortOrder = 'DESC' as const,
+    } = options;
+
+    const offset = (page - 1) * limit;
+    let whereClause = 'WHERE b.is_active = true';
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    if (filters.productId) {
+      whereClause += ` AND b.product_id = $${paramIndex++}`;
+      params.push(filters.productId);
+    }
+
+    if (filters.status) {
+      whereClause += ` AND b.status = $${paramIndex++}`;
+      params.push(filters.status);
+    }
+
+    if (filters.isDefault !== undefined) {
+      whereClause += ` AND b.is_default = $${paramIndex++}`;
+      params.push(filters.isDefault);
+    }
+
+    if (filters.effectiveAt) {
+      whereClause += ` AND b.status = 'RELEASED'
+        AND (b.effective_from IS NULL OR b.effective_from <= $${paramIndex})
+        AND (b.effective_to IS NULL OR b.effective_to > $${paramIndex++})`;
+      params.push(filters.effectiveAt);
+    }
+
+    // Count query
+    const countQuery = `SELECT COUNT(*) as total FROM boms b ${whereClause}`;
+    const countResult = await this.executeQuery<{ total: string }>(countQuery, params);
+    const total = parseInt(countResult.rows[0].total);
+
+    // Main query
+    const dataQuery = `
+      SELECT ${BOM_COLUMNS}
+      FROM boms b
+      INNER JOIN products p ON b.product_id = p.id
+      ${whereClause}
+      ORDER BY b.${sortBy} ${sortOrder}
+      LIMIT $${paramIndex++} OFFSET $${paramIndex++}
+    `;
+    const dataParams = [...params, limit, offset];
+    const dataResult = await this.executeQuery<BOMDetail>(dataQuery, dataParams);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data: dataResult.rows,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Find the BOM to build a product with at a given time: the default BOM if
+   * its effectivity window covers that time, otherwise the most recently
+   * effective released BOM
+   */
+  async findEffective(productId: string, at: Date = new Date()): Promise<BOMDetail | null> {
+    const query = `
+      SELECT b.id
+      FROM boms b
+      WHERE b.product_id = $1
+        AND b.is_active = true
+        AND b.status = 'RELEASED'
+        AND (b.effective_from IS NULL OR b.effective_from <= $2)
+        AND (b.effective_to IS NULL OR b.effective_to > $2)
+      ORDER BY b.is_default DESC, b.effective_from DESC NULLS LAST, b.released_at DESC
+      LIMIT 1
+    `;
+    const result = await this.executeQuery<{ id: string }>(query, [productId, at]);
+    return result.rows[0] ? this.findById(result.rows[0].id) : null;
+  }
+
+  /**
+   * Create a draft BOM version for a product
+   */
+  async createBOM(data: {
+    productId: string;
+    revision: string;
+    name: string;
+    description?: string;
+    effectiveFrom?: Date;
+    effectiveTo?: Date;
+    costAllocationMethod?: CostAllocationMethodType;
+  }): Promise<BOMDetail> {
+    const product = await this.executeQuery(
+      `SELECT id FROM products WHERE id = $1 AND is_active = true`,
+      [data.productId]
+    );
+    if (product.rows.length === 0) {
+      throw new Error(`Product with ID ${data.productId} does not exist`);
+    }
+
+    this.assertEffectivity(data.effectiveFrom, data.effectiveTo);
+    await this.assertVersionAvailable(data.productId, data.revision);
+
+    const result = await this.executeQuery<{ id: string }>(
+      `INSERT INTO boms (product_id, version, name, description, effective_from, effective_to, cost_allocation_method)
+       VALUES ($1, $2, $3, $4, $5, $6, COALESCE($7, 'PHYSICAL_QUANTITY'))
+       RETURNING id`,
+      [
+        data.productId,
+        data.revision,
+        data.name,
+        data.description,
+        data.effectiveFrom,
+        data.effectiveTo,
+        data.costAllocationMethod,
+      ]
+    );
+
+    return (await this.findById(result.rows[0].id))!;
+  }
+
+  /**
+   * Update a draft BOM's details. Status and default selection are changed
+   * through their own operations.
+   */
+  async updateBOM(
+    id: string,
+    data: {
+      name?: string;
+      description?: string;
+      effectiveFrom?: Date;
+      effectiveTo?: Date;
+      costAllocationMethod?: CostAllocationMethodType;
+    }
+  ): Promise<BOMDetail | null> {
+    const current = await this.findEditableBOM(id);
+    if (!current) {
+      return null;
+    }
+
+    this.assertEffectivity(
+      data.effectiveFrom ?? current.effectiveFrom,
+      data.effectiveTo ?? current.effectiveTo
+    );
+
+    await this.update(id, data);
+    return this.findById(id);
+  }
+
+  /**
+   * Move a BOM through DRAFT → RELEASED → OBSOLETE. Releasing locks the BOM,
+   * re-checks its structure for circular references and makes it the default
+   * when asked to or when the product has no default yet.
+   */
+  async updateStatus(
+    id: string,
+    newStatus: BOMStatusType,
+    transitionData: BOMTransitionData = {}
+  ): Promise<{ bom: BOMDetail; previousStatus: BOMStatusType }> {
+    const current = await this.findById(id);
+    if (!current) {
+      throw new Error(`BOM with ID ${id} not found`);
+    }
+
+    // Validate status transition
+    const validTransitions: Record<string, string[]> = {
+      'DRAFT': ['RELEASED'],
+      'RELEASED': ['OBSOLETE'],
+      'OBSOLETE': [] // Terminal state
+    };
+
+    if (!validTransitions[current.status].includes(newStatus)) {
+      throw new Error(`Invalid status transition from ${current.status} to ${newStatus}`);
+    }
+
+    const missingFields = (BOM_REQUIRED_FIELDS[newStatus] || []).filter(
+      field => !(transitionData as Record<string, any>)[field]
+    );
+    if (missingFields.length > 0) {
+      throw new Error(
+        `Transition requirements not met: ${missingFields.join(', ')} required before moving to ${newStatus}`
+      );
+    }
+
+    if (newStatus === 'RELEASED') {
+      const items = current.items || [];
+      if (items.length === 0) {
+        throw new Error('Transition requirements not met: at least one item required before moving to RELEASED');
+      }
+
+      // Other BOMs may have changed since the items were added
+      for (const item of items) {
+        await this.assertNoCircularReference(current.productId, item.componentProductId);
+      }
+    }
+
+    const client = await this.beginTransaction();
+    try {
+      if (newStatus === 'RELEASED') {
+        const existingDefault = await client.query(
+          `SELECT id FROM boms WHERE product_id = $1 AND is_default = true AND is_active = true`,
+          [current.productId]
+        );
+        const makeDefault = transitionData.makeDefault || existingDefault.rows.length === 0;
+
+        if (makeDefault) {
+          await this.clearDefault(client, current.productId);
+        }
+
+        await client.query(
+          `UPDATE boms
+           SET status = 'RELEASED', released_at = NOW(), released_by = $2, released_by_name = $3, is_default = $4
+           WHERE id = $1`,
+          [id, transitionData.releasedBy, transitionData.releasedByName, makeDefault]
+        );
+      } else {
+        await client.query(
+          `UPDATE boms SET status = $2, is_default = false WHERE id = $1`,
+          [id, newStatus]
+        );
+      }
+
+      await this.commitTransaction(client);
+    } catch (error) {
+      await this.rollbackTransaction(client);
+      throw error;
+    }
+
+    const bom = (await this.findById(id))!;
+    return { bom, previousStatus: current.status };
+  }
+
+  /**
+   * Make a released BOM the product's default version
+   */
+  async setDefault(id: string): Promise<BOMDetail | null> {
+    const current = await this.findById(id);
+    if (!current) {
+      return null;
+    }
+
+    if (current.status !== 'RELEASED') {
+      throw new Error(`Only released BOMs can be the default; BOM ${current.revision} is ${current.status}`);
+    }
+
+    if (current.isDefault) {
+      return current;
+    }
+
+    const client = await this.beginTransaction();
+    try {
+      await this.clearDefault(client, current.productId);
+      await client.query(`UPDATE boms SET is_default = true WHERE id = $1`, [id]);
+      await this.commitTransaction(client);
+    } catch (error) {
+      await this.rollbackTransaction(client);
+      throw error;
+    }
+
+    return this.findById(id);
+  }
+
+  /**
+   * Copy a BOM, its items and its outputs into a new draft version of the
+   * same product
+   */
+  async copyToVersion(
+    id: string,
+    data: {
+      revision: string;
+      name?: string;
+      description?: string;
+      effectiveFrom?: Date;
+      effectiveTo?: Date;
+    }
+  ): Promise<BOMDetail | null> {
+    const source = await this.findById(id);
+    if (!source) {
+      return null;
+    }
+
+    this.assertEffectivity(data.effectiveFrom, data.effectiveTo);
+    await this.assertVersionAvailable(source.productId, data.revision);
+
+    const client = await this.beginTransaction();
+    let bomId: string;
+    try {
+      const insert = await client.query(
+        `INSERT INTO boms
+           (product_id, version, name, description, effective_from, effective_to, copied_from_bom_id, cost_allocation_method)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         RETURNING id`,
+        [
+          source.productId,
+          data.revision,
+          data.name ?? source.name,
+          data.description ?? source.description,
+          data.effectiveFrom,
+          data.effectiveTo,
+          id,
+          source.costAllocationMethod,
+        ]
+      );
+      bomId = insert.rows[0].id;
+
+      await client.query(
+        `INSERT INTO bom_items (bom_id, component_product_id, quantity, uom, operation_sequence, waste_factor)
+         SELECT $2, component_product_id, quantity, uom, operation_sequence, waste_factor
+         FROM bom_items
+         WHERE bom_id = $1 AND is_active = true`,
+        [id, bomId]
+      );
+
+      await client.query(
+        `INSERT INTO bom_outputs (bom_id, product_id, output_type, yield_ratio, uom, allocation_percent)
+         SELECT $2, product_id, output_type, yield_ratio, uom, allocation_percent
+         FROM bom_outputs
+         WHERE bom_id = $1 AND is_active = true`,
+        [id, bomId]
+      );
+
+      await this.commitTransaction(client);
+    } catch (error) {
+      await this.rollbackTransaction(client);
+      throw error;
+    }
+
+    return this.findById(bomId);
+  }
+
+  /**
+   * Add a component to a draft BOM
+   */
+  async addItem(bomId: string, data: BOMItemInput): Promise<BOMItemDetail | null> {
+    const bom = await this.findEditableBOM(bomId);
+    if (!bom) {
+      return null;
+    }
+
+    await this.assertComponentExists(data.componentProductId);
+    await this.assertNoCircularReference(bom.productId, data.componentProductId);
+    const uom = await this.assertItemUoM(data.uom, data.componentProductId);
+
+    const result = await this.executeQuery<{ id: string }>(
+      `INSERT INTO bom_items (bom_id, component_product_id, quantity, uom, operation_sequence, waste_factor)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING id`,
+      [bomId, data.componentProductId, data.quantity, uom, data.operationSequence, data.wasteFactor ?? 0]
+    );
+
+    return this.findItem(bomId, result.rows[0].id);
+  }
+
+  /**
+   * Update a component line on a draft BOM
+   */
+  async updateItem(
+    bomId: string,
+    itemId: string,
+    data: Partial<BOMItemInput>
+  ): Promise<BOMItemDetail | null> {
+    const bom = await this.findEditableBOM(bomId);
+    if (!bom) {
+      return null;
+    }
+
+    const item = await this.findItem(bomId, itemId);
+    if (!item) {
+      throw new Error(`BOM item with ID ${itemId} not found`);
+    }
+
+    if (data.componentProductId && data.componentProductId !== item.componentProductId) {
+      await this.assertComponentExists(data.componentProductId);
+      await this.assertNoCircularReference(bom.productId, data.componentProductId);
+    }
+
+    if (data.uom || data.componentProductId) {
+      const uom = await this.assertItemUoM(
+        data.uom ?? item.uom,
+        data.componentProductId ?? item.componentProductId
+      );
+      data = { ...data, ...(data.uom && { uom }) };
+    }
+
+    const dbData: Record<string, any> = this.convertKeysToSnakeCase(data);
+    const columns = Object.keys(dbData);
+    if (columns.length === 0) {
+      return item;
+    }
+
+    const values = Object.values(dbData);
+    const setClause = columns.map((col, index) => `${col} = $${index + 2}`).join(', ');
+
+    await this.executeQuery(
+      `UPDATE bom_items SET ${setClause} WHERE id = $1`,
+      [itemId, ...values]
+    );
+    return this.findItem(bomId, itemId);
+  }
+
+  /**
+   * Remove a component line from a draft BOM
+   */
+  async removeItem(bomId: string, itemId: string): Promise<boolean> {
+    const bom = await this.findEditableBOM(bomId);
+    if (!bom) {
+      return false;
+    }
+
+    const result = await this.executeQuery(
+      `UPDATE bom_items SET is_active = false WHERE id = $1 AND bom_id = $2 AND is_active = true`,
+      [itemId, bomId]
+    );
+    if (result.rowCount === 0) {
+      throw new Error(`BOM item with ID ${itemId} not found`);
+    }
+    return true;
+  }
+
+  /**
+   * Add a co-product or by-product to a draft BOM. The unit must convert to
+   * the output product's own unit; fixed allocation percentages of the
+   * co-products may not exceed 100, the BOM's product taking the rest.
+   */
+  async addOutput(bomId: string, data: BOMOutputInput): Promise<BOMOutput | null> {
+    const bom = await this.findEditableBOM(bomId);
+    if (!bom) {
+      return null;
+    }
+
+    const uom = await this.assertOutput(bom, data);
+
+    const result = await this.executeQuery<{ id: string }>(
+      `INSERT INTO bom_outputs (bom_id, product_id, output_type, yield_ratio, uom, allocation_percent)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING id`,
+      [bomId, data.productId, data.outputType, data.yieldRatio, uom, data.allocationPercent]
+    );
+
+    return this.findOutput(bomId, result.rows[0].id);
+  }
+
+  /**
+   * Update a co-product or by-product on a draft BOM
+   */
+  async updateOutput(
+    bomId: string,
+    outputId: string,
+    data: Partial<BOMOutputInput>
+  ): Promise<BOMOutput | null> {
+    const bom = await this.findEditableBOM(bomId);
+    if (!bom) {
+      return null;
+    }
+
+    const output = await this.findOutput(bomId, outputId);
+    if (!output) {
+      throw new Error(`BOM output with ID ${outputId} not found`);
+    }
+
+    const merged: BOMOutputInput = {
+      productId: data.productId ?? output.productId,
+      outputType: data.outputType ?? output.outputType,
+      yieldRatio: data.yieldRatio ?? output.yieldRatio,
+      uom: data.uom ?? output.uom,
+      allocationPercent: data.allocationPercent ?? output.allocationPercent,
+    };
+    const uom = await this.assertOutput(bom, merged, outputId);
+
+    await this.executeQuery(
+      `UPDATE bom_outputs
+       SET product_id = $2, output_type = $3, yield_ratio = $4, uom = $5, allocation_percent = $6
+       WHERE id = $1`,
+      [outputId, merged.productId, merged.outputType, merged.yieldRatio, uom, merged.allocationPercent]
+    );
+    return this.findOutput(bomId, outputId);
+  }
+
+  /**
+   * Remove a co-product or by-product from a draft BOM
+   */
+  async removeOutput(bomId: string, outputId: string): Promise<boolean> {
+    const bom = await this.findEditableBOM(bomId);
+    if (!bom) {
+      return false;
+    }
+
+    const result = await this.executeQuery(
+      `UPDATE bom_outputs SET is_active = false WHERE id = $1 AND bom_id = $2 AND is_active = true`,
+      [outputId, bomId]
+    );
+    if (result.rowCount === 0) {
+      throw new Error(`BOM output with ID ${outputId} not found`);
+    }
+    return true;
+  }
+
+  /**
+   * Check if BOM can be deleted (not released and not used by open
+   * manufacturing orders)
+   */
+  async canDelete(id: string): Promise<{ canDelete: boolean; reason?: string }> {
+    const [bomResult, orderResult] = await Promise.all([
+      this.executeQuery<{ status: BOMStatusType; version: string }>(
+        'SELECT status, version FROM boms WHERE id = $1 AND is_active = true',
+        [id]
+      ),
+      this.executeQuery<{ count: string }>(
+        'SELECT COUNT(*) as count FROM manufacturing_orders WHERE bom_id = $1 AND status = ANY($2) AND is_active = true',
+        [id, OPEN_MO_STATUSES]
+      ),
+    ]);
+
+    const bom = bomResult.rows[0];
+    if (bom?.status === 'RELEASED') {
+      return { canDelete: false, reason: `BOM ${bom.version} is released; make it obsolete before deleting it` };
+    }
+
+    const orderCount = parseInt(orderResult.rows[0]?.count || '0');
+    if (orderCount > 0) {
+      return { canDelete: false, reason: `BOM is referenced by ${orderCount} open manufacturing orders` };
+    }
+
+    return { canDelete: true };
+  }
+
+  /**
+   * Reject a component whose own structure already contains the parent
+   * product, directly or through any number of sub-assemblies
+   */
+  async assertNoCircularReference(productId: string, componentProductId: string): Promise<void> {
+    if (productId === componentProductId) {
+      throw new Error('Circular reference: a product cannot be a component of its own BOM');
+    }
+
+    const query = `
+      WITH RECURSIVE structure(product_id, path) AS (
+        SELECT $1::uuid, ARRAY[$1::uuid]
+        UNION ALL
+        SELECT bi.component_product_id, s.path || bi.component_product_id
+        FROM structure s
+        INNER JOIN boms b ON b.product_id = s.product_id AND b.is_active = true AND b.status <> 'OBSOLETE'
+        INNER JOIN bom_items bi ON bi.bom_id = b.id AND bi.is_active = true
+        WHERE NOT bi.component_product_id = ANY(s.path)
+      )
+      SELECT 1 FROM structure WHERE product_id = $2 LIMIT 1
+    `;
+    const result = await this.executeQuery(query, [componentProductId, productId]);
+    if (result.rows.length === 0) {
+      return;
+    }
+
+    const skus = await this.executeQuery<{ id: string; sku: string }>(
+      `SELECT id, sku FROM products WHERE id = ANY($1)`,
+      [[productId, componentProductId]]
+    );
+    const skuOf = (productIdToFind: string) =>
+      skus.rows.find(row => row.id === productIdToFind)?.sku ?? productIdToFind;
+
+    throw new Error(
+      `Circular reference: component ${skuOf(componentProductId)} already contains ${skuOf(productId)} in its structure`
+    );
+  }
+
+  /**
+   * Explode a product's structure level by level, using the effective BOM of
+   * each sub-assembly at the given time. A line's quantity is converted to the
+   * component's stocking unit, which its own BOM is per unit of, before the
+   * component is exploded. Returns the indented tree, the same structure
+   * flattened in depth-first order, and quantities rolled up per component in
+   * its stocking unit across all levels.
+   */
+  async explode(productId: string, quantity: number, at: Date = new Date()): Promise<BOMExplosion> {
+    const product = await this.findProductSummary(productId);
+
+    const tree: BOMExplosionNode = {
+      productId,
+      sku: product.sku,
+      name: product.name,
+      level: 0,
+      uom: product.uom,
+      quantityPer: 1,
+      wasteFactor: 0,
+      extendedQuantity: quantity,
+      children: [],
+    };
+
+    // Quantity of each node in its product's stocking unit
+    const stock = new Map<BOMExplosionNode, { quantity: number; uom: string }>([
+      [tree, { quantity, uom: product.uom }],
+    ]);
+    const factors = new Map<string, number>();
+    const toStockingUnit = async (node: BOMExplosionNode, stockingUom: string) => {
+      const key = `${node.productId}|${node.uom}`;
+      let factor = factors.get(key);
+      if (factor === undefined) {
+        factor = (await this.uomRepository.convert(1, node.uom, stockingUom, node.productId)).factor;
+        factors.set(key, factor);
+      }
+      return { quantity: roundQuantity(node.extendedQuantity * factor), uom: stockingUom };
+    };
+
+    let frontier: { node: BOMExplosionNode; path: string[] }[] = [{ node: tree, path: [productId] }];
+    while (frontier.length > 0) {
+      const parentIds = [...new Set(frontier.map(entry => entry.node.productId))];
+      const result = await this.executeQuery<{
+        parentProductId: string;
+        bomId: string;
+        bomVersion: string;
+        bomItemId: string;
+        productId: string;
+        sku: string;
+        name: string;
+        uom: string;
+        stockingUom: string;
+        quantityPer: number;
+        wasteFactor: number;
+        operationSequence?: number;
+      }>(
+        `WITH effective AS (
+           ${EFFECTIVE_BOMS} AND product_id = ANY($2)
+           ${EFFECTIVE_BOMS_ORDER}
+         )
+         SELECT
+           e.product_id as "parentProductId",
+           e.id as "bomId",
+           e.version as "bomVersion",
+           bi.id as "bomItemId",
+           bi.component_product_id as "productId",
+           p.sku,
+           p.name,
+           bi.uom,
+           p.uom as "stockingUom",
+           bi.quantity::float8 as "quantityPer",
+           bi.waste_factor::float8 as "wasteFactor",
+           bi.operation_sequence as "operationSequence"
+         FROM effective e
+         INNER JOIN bom_items bi ON bi.bom_id = e.id AND bi.is_active = true
+         INNER JOIN products p ON bi.component_product_id = p.id
+         ORDER BY bi.operation_sequence ASC NULLS LAST, p.sku ASC`,
+        [at, parentIds]
+      );
+
+      const next: typeof frontier = [];
+      for (const { node, path } of frontier) {
+        const rows = result.rows.filter(row => row.parentProductId === node.productId);
+        if (rows.length === 0) {
+          continue;
+        }
+
+        node.bomId = rows[0].bomId;
+        node.bomVersion = rows[0].bomVersion;
+        const parentQuantity = stock.get(node)!.quantity;
+
+        for (const row of rows) {
+          // Released structures are checked for cycles; guard anyway
+          if (path.includes(row.productId)) {
+            continue;
+          }
+
+          const child: BOMExplosionNode = {
+            productId: row.productId,
+            sku: row.sku,
+            name: row.name,
+            level: node.level + 1,
+            uom: row.uom,
+            quantityPer: row.quantityPer,
+            wasteFactor: row.wasteFactor,
+            extendedQuantity: roundQuantity(parentQuantity * row.quantityPer * (1 + row.wasteFactor)),
+            bomItemId: row.bomItemId,
+            operationSequence: row.operationSequence ?? undefined,
+            children: [],
+          };
+          node.children.push(child);
+          stock.set(child, await toStockingUnit(child, row.stockingUom));
+          next.push({ node: child, path: [...path, row.productId] });
+        }
+      }
+      frontier = next;
+    }
+
+    if (!tree.bomId) {
+      throw new Error(`No released BOM is effective for product ${product.sku} at ${at.toISOString()}`);
+    }
+
+    const lines: BOMExplosionLine[] = [];
+    const requirements = new Map<string, BOMComponentRequirement>();
+    const visit = (node: BOMExplosionNode, parentProductId?: string) => {
+      const { children, ...line } = node;
+      lines.push({ ...line, parentProductId });
+
+      if (node.level > 0) {
+        const { quantity: stockQuantity, uom: stockingUom } = stock.get(node)!;
+        const requirement = requirements.get(node.productId);
+        if (requirement) {
+          requirement.totalQuantity = roundQuantity(requirement.totalQuantity + stockQuantity);
+          if (!requirement.levels.includes(node.level)) {
+            requirement.levels.push(node.level);
+          }
+        } else {
+          requirements.set(node.productId, {
+            productId: node.productId,
+            sku: node.sku,
+            name: node.name,
+            uom: stockingUom,
+            totalQuantity: stockQuantity,
+            levels: [node.level],
+            isAssembly: !!node.bomId,
+          });
+        }
+      }
+
+      children.forEach((child: BOMExplosionNode) => visit(child, node.productId));
+    };
+    visit(tree);
+
+    return {
+      productId,
+      quantity,
+      effectiveAt: at,
+      tree,
+      lines,
+      components: [...requirements.values()]
+        .map(requirement => ({ ...requirement, levels: requirement.levels.sort((a: number, b: number) => a - b) }))
+        .sort((a, b) => a.sku.localeCompare(b.sku)),
+    };
+  }
+
+  /**
+   * Find every product whose effective BOM uses a component, directly or
+   * through sub-assemblies, up to the end items. Returns the inverted tree and
+   * the same structure flattened in depth-first order.
+   */
+  async whereUsed(productId: string, at: Date = new Date()): Promise<WhereUsed> {
+    const product = await this.findProductSummary(productId);
+
+    const tree: WhereUsedNode = {
+      productId,
+      sku: product.sku,
+      name: product.name,
+      level: 0,
+      uom: product.uom,
+      quantityPer: 1,
+      wasteFactor: 0,
+      cumulativeQuantity: 1,
+      usedBy: [],
+    };
+
+    let frontier: { node: WhereUsedNode; path: string[] }[] = [{ node: tree, path: [productId] }];
+    while (frontier.length > 0) {
+      const childIds = [...new Set(frontier.map(entry => entry.node.productId))];
+      const result = await this.executeQuery<{
+        productId: string;
+        childProductId: string;
+        sku: string;
+        name: string;
+        bomId: string;
+        bomVersion: string;
+        bomItemId: string;
+        uom: string;
+        quantityPer: number;
+        wasteFactor: number;
+      }>(
+        `WITH effective AS (
+           ${EFFECTIVE_BOMS} AND product_id IN (
+             SELECT b.product_id
+             FROM bom_items bi
+             INNER JOIN boms b ON bi.bom_id = b.id
+             WHERE bi.component_product_id = ANY($2) AND bi.is_active = true
+           )
+           ${EFFECTIVE_BOMS_ORDER}
+         )
+         SELECT
+           e.product_id as "productId",
+           bi.component_product_id as "childProductId",
+           p.sku,
+           p.name,
+           e.id as "bomId",
+           e.version as "bomVersion",
+           bi.id as "bomItemId",
+           bi.uom,
+           bi.quantity::float8 as "quantityPer",
+           bi.waste_factor::float8 as "wasteFactor"
+         FROM effective e
+         INNER JOIN bom_items bi ON bi.bom_id = e.id AND bi.is_active = true AND bi.component_product_id = ANY($2)
+         INNER JOIN products p ON e.product_id = p.id
+         ORDER BY p.sku ASC`,
+        [at, childIds]
+      );
+
+      const next: typeof frontier = [];
+      for (const { node, path } of frontier) {
+        for (const row of result.rows.filter(row => row.childProductId === node.productId)) {
+          if (path.includes(row.productId)) {
+            continue;
+          }
+
+          const parent: WhereUsedNode = {
+            productId: row.productId,
+            sku: row.sku,
+            name: row.name,
+            level: node.level + 1,
+            uom: row.uom,
+            quantityPer: row.quantityPer,
+            wasteFactor: row.wasteFactor,
+            cumulativeQuantity: roundQuantity(node.cumulativeQuantity * row.quantityPer * (1 + row.wasteFactor)),
+            bomItemId: row.bomItemId,
+            bomId: row.bomId,
+            bomVersion: row.bomVersion,
+            usedBy: [],
+          };
+          node.usedBy.push(parent);
+          next.push({ node: parent, path: [...path, row.productId] });
+        }
+      }
+      frontier = next;
+    }
+
+    const lines: WhereUsedLine[] = [];
+    const visit = (node: WhereUsedNode, childProductId?: string) => {
+      const { usedBy, ...line } = node;
+      lines.push({ ...line, childProductId, isEndItem: usedBy.length === 0 });
+      usedBy.forEach((parent: WhereUsedNode) => visit(parent, node.productId));
+    };
+    visit(tree);
+
+    return { productId, effectiveAt: at, tree, lines };
+  }
+
+  private async findProductSummary(productId: string): Promise<{ sku: string; name: string; uom: string }> {
+    const result = await this.executeQuery<{ sku: string; name: string; uom: string }>(
+      `SELECT sku, name, uom FROM products WHERE id = $1 AND is_active = true`,
+      [productId]
+    );
+    if (!result.rows[0]) {
+      throw new Error(`Product with ID ${productId} not found`);
+    }
+    return result.rows[0];
+  }
+
+  private async findItems(bomId: string): Promise<BOMItemDetail[]> {
+    const result = await this.executeQuery<BOMItemDetail>(
+      `SELECT ${BOM_ITEM_COLUMNS}
+       FROM bom_items bi
+       INNER JOIN products p ON bi.component_product_id = p.id
+       WHERE bi.bom_id = $1 AND bi.is_active = true
+       ORDER BY bi.operation_sequence ASC NULLS LAST, bi.created_at ASC`,
+      [bomId]
+    );
+    return result.rows;
+  }
+
+  private async findItem(bomId: string, itemId: string): Promise<BOMItemDetail | null> {
+    const result = await this.executeQuery<BOMItemDetail>(
+      `SELECT ${BOM_ITEM_COLUMNS}
+       FROM bom_items bi
+       INNER JOIN products p ON bi.component_product_id = p.id
+       WHERE bi.id = $1 AND bi.bom_id = $2 AND bi.is_active = true`,
+      [itemId, bomId]
+    );
+    return result.rows[0] || null;
+  }
+
+  private async findOutputs(bomId: string): Promise<BOMOutput[]> {
+    const result = await this.executeQuery<BOMOutput>(
+      `SELECT ${BOM_OUTPUT_COLUMNS}
+       FROM bom_outputs bo
+       INNER JOIN products p ON bo.product_id = p.id
+       WHERE bo.bom_id = $1 AND bo.is_active = true
+       ORDER BY bo.output_type ASC, p.sku ASC`,
+      [bomId]
+    );
+    return result.rows;
+  }
+
+  private async findOutput(bomId: string, outputId: string): Promise<BOMOutput | null> {
+    const result = await this.executeQuery<BOMOutput>(
+      `SELECT ${BOM_OUTPUT_COLUMNS}
+       FROM bom_outputs bo
+       INNER JOIN products p ON bo.product_id = p.id
+       WHERE bo.id = $1 AND bo.bom_id = $2 AND bo.is_active = true`,
+      [outputId, bomId]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Validate an output line and resolve its unit to the catalogue code
+   */
+  private async assertOutput(bom: BOMDetail, data: BOMOutputInput, excludeOutputId?: string): Promise<string> {
+    const product = await this.executeQuery(
+      `SELECT id FROM products WHERE id = $1 AND is_active = true`,
+      [data.productId]
+    );
+    if (product.rows.length === 0) {
+      throw new Error(`Output product with ID ${data.productId} does not exist`);
+    }
+
+    if (data.productId === bom.productId) {
+      throw new Error('Validation failed: the BOM\'s own product cannot be one of its outputs');
+    }
+
+    if (data.outputType === 'BY_PRODUCT' && data.allocationPercent !== undefined && data.allocationPercent !== null) {
+      throw new Error('Validation failed: by-products are carried at no cost and take no allocationPercent');
+    }
+
+    const others = await this.executeQuery<{ productId: string; allocationPercent: number | null }>(
+      `SELECT product_id as "productId", allocation_percent::float8 as "allocationPercent"
+       FROM bom_outputs
+       WHERE bom_id = $1 AND is_active = true AND ($2::uuid IS NULL OR id <> $2)`,
+      [bom.id, excludeOutputId ?? null]
+    );
+    if (others.rows.some((row: { productId: string }) => row.productId === data.productId)) {
+      throw new Error(`Output product with ID ${data.productId} already exists on this BOM`);
+    }
+
+    const allocated = others.rows.reduce(
+      (total: number, row: { allocationPercent: number | null }) => total + (row.allocationPercent || 0),
+      data.allocationPercent || 0
+    );
+    if (allocated > 100) {
+      throw new Error(`Validation failed: co-product allocation percentages total ${allocated}, more than 100`);
+    }
+
+    return this.assertItemUoM(data.uom, data.productId);
+  }
+
+  /**
+   * Find a BOM that may still be edited; released and obsolete BOMs are locked
+   */
+  private async findEditableBOM(id: string): Promise<BOMDetail | null> {
+    const result = await this.executeQuery<BOMDetail>(
+      `SELECT ${BOM_COLUMNS}
+       FROM boms b
+       INNER JOIN products p ON b.product_id = p.id
+       WHERE b.id = $1 AND b.is_active = true`,
+      [id]
+    );
+    const bom = result.rows[0];
+    if (bom && bom.status !== 'DRAFT') {
+      throw new Error(`BOM ${bom.revision} is ${bom.status} and cannot be modified; copy it into a new version instead`);
+    }
+    return bom || null;
+  }
+
+  private async clearDefault(client: PoolClient, productId: string): Promise<void> {
+    await client.query(
+      `UPDATE boms SET is_default = false WHERE product_id = $1 AND is_default = true`,
+      [productId]
+    );
+  }
+
+  private async assertComponentExists(componentProductId: string): Promise<void> {
+    const result = await this.executeQuery(
+      `SELECT id FROM products WHERE id = $1 AND is_active = true`,
+      [componentProductId]
+    );
+    if (result.rows.length === 0) {
+      throw new Error(`Component product with ID ${componentProductId} does not exist`);
+    }
+  }
+
+  /**
+   * Resolve an item's unit to its catalogue code; it must convert to the
+   * component's stocking unit so consumption can be checked against it
+   */
+  private async assertItemUoM(uom: string, componentProductId: string): Promise<string> {
+    const code = await this.uomRepository.resolveCode(uom);
+    await this.uomRepository.assertConvertible(code, componentProductId);
+    return code;
+  }
+
+  private async assertVersionAvailable(productId: string, version: string): Promise<void> {
+    const existing = await this.executeQuery(
+      `SELECT id FROM boms WHERE product_id = $1 AND version = $2`,
+      [productId, version]
+    );
+    if (existing.rows.length > 0) {
+      throw new Error(`BOM version '${version}' already exists for this product`);
+    }
+  }
+
+  private assertEffectivity(effectiveFrom?: Date, effectiveTo?: Date): void {
+    if (effectiveFrom && effectiveTo && new Date(effectiveTo) <= new Date(effectiveFrom)) {
+      throw new Error('Validation failed: effectiveTo must be after effectiveFrom');
+    }
+  }
+}
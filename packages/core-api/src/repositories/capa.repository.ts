@@ -0,0 +1,718 @@
+import { Pool } from 'pg';
+import {
+  CAPA,
+  CAPAActionItem,
+  CAPAActionItemStatusType,
+  CAPAEffectivenessCheck,
+  CAPALinkedNCR,
+  CAPAStatusType,
+  CAPASummary,
+  CAPATypeType,
+  EffectivenessResultType,
+} from '@akazify/core-domain';
+import { BaseRepository, FilterOptions, PaginatedResult, PaginationOptions } from './base';
+
+/**
+ * CAPA specific filter options
+ */
+export interface CAPAFilterOptions extends FilterOptions {
+  type?: CAPATypeType;
+  status?: CAPAStatusType;
+  ownerId?: string;
+  ncrId?: string;
+  overdue?: boolean;
+}
+
+/**
+ * Fields that may be supplied alongside a status transition
+ */
+export interface CAPATransitionData {
+  rootCause?: string;
+  approvedBy?: string;
+  approvedByName?: string;
+  approvalNotes?: string;
+}
+
+/**
+ * Fields that must be present on a CAPA before it may enter each status
+ */
+const CAPA_REQUIRED_FIELDS: Record<string, string[]> = {
+  'EFFECTIVENESS_CHECK': ['rootCause'],
+  'CLOSED': ['approvedBy', 'approvedByName'],
+};
+
+const CAPA_COLUMNS = `
+  id,
+  capa_number as "capaNumber",
+  type,
+  status,
+  title,
+  description,
+  root_cause as "rootCause",
+  owner_id as "ownerId",
+  owner_name as "ownerName",
+  due_date as "dueDate",
+  actual_close_date as "actualCloseDate",
+  approved_by as "approvedBy",
+  approved_by_name as "approvedByName",
+  approved_at as "approvedAt",
+  approval_notes as "approvalNotes",
+  (due_date < NOW() AND status <> 'CLOSED') as "isOverdue",
+  is_active as "isActive",
+  created_at as "createdAt",
+  updated_at as "updatedAt",
+  version
+`;
+
+const ACTION_ITEM_COLUMNS = `
+  id,
+  capa_id as "capaId",
+  description,
+  assigned_to as "assignedTo",
+  assigned_to_name as "assignedToName",
+  due_date as "dueDate",
+  status,
+  completed_at as "completedAt",
+  completion_notes as "completionNotes",
+  (due_date < NOW() AND status IN ('OPEN', 'IN_PROGRESS')) as "isOverdue",
+  is_active as "isActive",
+  created_at as "createdAt",
+  updated_at as "updatedAt",
+  version
+`;
+
+const EFFECTIVENESS_CHECK_COLUMNS = `
+  id,
+  capa_id as "capaId",
+  planned_date as "plannedDate",
+  criteria,
+  result,
+  performed_by as "performedBy",
+  performed_by_name as "performedByName",
+  performed_at as "performedAt",
+  notes,
+  is_active as "isActive",
+  created_at as "createdAt",
+  updated_at as "updatedAt",
+  version
+`;
+
+/**
+ * CAPA repository for corrective and preventive action tracking
+ */
+export class CAPARepository extends BaseRepository<CAPA> {
+  constructor(pool: Pool) {
+    super(pool, 'capas');
+  }
+
+  /**
+   * Find CAPA by ID with its action items, effectiveness checks and linked NCRs
+   */
+  async findById(id: string): Promise<CAPA | null> {
+    const query = `
+      SELECT ${CAPA_COLUMNS}
+      FROM capas
+      WHERE id = $1 AND is_active = true
+    `;
+    const result = await this.executeQuery<CAPA>(query, [id]);
+    const capa = result.rows[0];
+    if (!capa) {
+      return null;
+    }
+
+    const [actionItems, effectivenessChecks, linkedNCRs] = await Promise.all([
+      this.findActionItems(id),
+      this.findEffectivenessChecks(id),
+      this.findLinkedNCRs(capa.capaNumber),
+    ]);
+
+    return { ...capa, actionItems, effectivenessChecks, linkedNCRs };
+  }
+
+  /**
+   * Find CAPAs with filtering and pagination
+   */
+  async findWithFilters(
+    options: PaginationOptions = {},
+    filters: CAPAFilterOptions = {}
+  ): Promise<PaginatedResult<CAPA>> {
+    const {
+      page = 1,
+      limit = 50,
+      sortBy = 'due_date',
+      sortOrder = 'ASC' as const,
+    } = options;
+
+    const offset = (page - 1) * limit;
+    let whereClause = 'WHERE is_active = true';
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    if (filters.type) {
+      whereClause += ` AND type = $${paramIndex++}`;
+      params.push(filters.type);
+    }
+
+    if (filters.status) {
+      whereClause += ` AND status = $${paramIndex++}`;
+      params.push(filters.status);
+    }
+
+    if (filters.ownerId) {
+      whereClause += ` AND owner_id = $${paramIndex++}`;
+      params.push(filters.ownerId);
+    }
+
+    if (filters.ncrId) {
+      whereClause += ` AND capa_number IN (
+        SELECT jsonb_array_elements_text(document_references) FROM ncrs WHERE id = $${paramIndex++}
+      )`;
+      params.push(filters.ncrId);
+    }
+
+    if (filters.overdue !== undefined) {
+      whereClause += filters.overdue
+        ? ` AND due_date < NOW() AND status <> 'CLOSED'`
+        : ` AND NOT (due_date < NOW() AND status <> 'CLOSED')`;
+    }
+
+    // Count query
+    const countQuery = `SELECT COUNT(*) as total FROM capas ${whereClause}`;
+    const countResult = await this.executeQuery<{ total: string }>(countQuery, params);
+    const total = parseInt(countResult.rows[0].total);
+
+    // Main query
+    const dataQuery = `
+      SELECT ${CAPA_COLUMNS}
+      FROM capas
+      ${whereClause}
+      ORDER BY ${sortBy} ${sortOrder}
+      LIMIT $${paramIndex++} OFFSET $${paramIndex++}
+    `;
+    const dataParams = [...params, limit, offset];
+    const dataResult = await this.executeQuery<CAPA>(dataQuery, dataParams);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data: dataResult.rows,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Create CAPA with auto-generated CAPA number and link it to the given NCRs
+   */
+  async createWithCAPANumber(data: {
+    type: CAPATypeType;
+    title: string;
+    description: string;
+    rootCause?: string;
+    ownerId: string;
+    ownerName: string;
+    dueDate: Date;
+    ncrIds?: string[];
+  }): Promise<CAPA> {
+    const client = await this.beginTransaction();
+    let capaId: string;
+    try {
+      // Generate CAPA number (format: CAPA-YYYY-NNNN)
+      const year = new Date().getFullYear();
+      const countResult = await client.query(
+        `SELECT COUNT(*) as count FROM capas WHERE capa_number LIKE 'CAPA-${year}-%'`
+      );
+      const nextNumber = parseInt(countResult.rows[0].count) + 1;
+      const capaNumber = `CAPA-${year}-${nextNumber.toString().padStart(4, '0')}`;
+
+      const insert = await client.query(
+        `INSERT INTO capas (capa_number, type, title, description, root_cause, owner_id, owner_name, due_date)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         RETURNING id`,
+        [capaNumber, data.type, data.title, data.description, data.rootCause, data.ownerId, data.ownerName, data.dueDate]
+      );
+      capaId = insert.rows[0].id;
+
+      for (const ncrId of data.ncrIds || []) {
+        const linked = await client.query(
+          `UPDATE ncrs
+           SET document_references = COALESCE(document_references, '[]'::jsonb) || jsonb_build_array($2::text), updated_at = NOW()
+           WHERE id = $1 AND is_active = true`,
+          [ncrId, capaNumber]
+        );
+        if (linked.rowCount === 0) {
+          throw new Error(`NCR with ID ${ncrId} not found`);
+        }
+      }
+
+      await this.commitTransaction(client);
+    } catch (error) {
+      await this.rollbackTransaction(client);
+      throw error;
+    }
+
+    return (await this.findById(capaId))!;
+  }
+
+  /**
+   * Update CAPA details. Status, closure approval and links are changed
+   * through their own operations.
+   */
+  async updateCAPA(
+    id: string,
+    data: {
+      title?: string;
+      description?: string;
+      rootCause?: string;
+      ownerId?: string;
+      ownerName?: string;
+      dueDate?: Date;
+    }
+  ): Promise<CAPA | null> {
+    const current = await this.findOpenCAPA(id);
+    if (!current) {
+      return null;
+    }
+
+    await this.update(id, data);
+    return this.findById(id);
+  }
+
+  /**
+   * Move a CAPA through its workflow. Actions must be complete before the
+   * effectiveness check, the latest check must be effective before approval,
+   * and closure must be approved by someone other than the owner.
+   */
+  async updateStatus(
+    id: string,
+    newStatus: CAPAStatusType,
+    transitionData: CAPATransitionData = {}
+  ): Promise<{ capa: CAPA; previousStatus: CAPAStatusType }> {
+    const current = await this.findById(id);
+    if (!current) {
+      throw new Error(`CAPA with ID ${id} not found`);
+    }
+
+    // Validate status transition
+    const validTransitions: Record<string, string[]> = {
+      'OPEN': ['IN_PROGRESS'],
+      'IN_PROGRESS': ['EFFECTIVENESS_CHECK'],
+      'EFFECTIVENESS_CHECK': ['PENDING_APPROVAL', 'IN_PROGRESS'], // Back to actions if not effective
+      'PENDING_APPROVAL': ['CLOSED', 'IN_PROGRESS'], // Back to actions if approval is refused
+      'CLOSED': [] // Terminal state
+    };
+
+    if (!validTransitions[current.status].includes(newStatus)) {
+      throw new Error(`Invalid status transition from ${current.status} to ${newStatus}`);
+    }
+
+    // Check required fields against the record as it will look after the update
+    const merged: Record<string, any> = { ...current, ...transitionData };
+    const missingFields = (CAPA_REQUIRED_FIELDS[newStatus] || []).filter(
+      field => merged[field] === undefined || merged[field] === null || merged[field] === ''
+    );
+
+    if (missingFields.length > 0) {
+      throw new Error(
+        `Transition requirements not met: ${missingFields.join(', ')} required before moving to ${newStatus}`
+      );
+    }
+
+    const actionItems = current.actionItems || [];
+    if (newStatus === 'EFFECTIVENESS_CHECK') {
+      const outstanding = actionItems.filter(
+        (item: CAPAActionItem) => item.status === 'OPEN' || item.status === 'IN_PROGRESS'
+      );
+      if (!actionItems.some((item: CAPAActionItem) => item.status === 'COMPLETED')) {
+        throw new Error('Transition requirements not met: at least one completed action item required before moving to EFFECTIVENESS_CHECK');
+      }
+      if (outstanding.length > 0) {
+        throw new Error(
+          `Transition requirements not met: ${outstanding.length} action item(s) still open before moving to EFFECTIVENESS_CHECK`
+        );
+      }
+    }
+
+    if (newStatus === 'PENDING_APPROVAL') {
+      const performed = (current.effectivenessChecks || [])
+        .filter((check: CAPAEffectivenessCheck) => check.result)
+        .sort((a: CAPAEffectivenessCheck, b: CAPAEffectivenessCheck) =>
+          new Date(b.performedAt!).getTime() - new Date(a.performedAt!).getTime());
+      if (performed.length === 0 || performed[0].result !== 'EFFECTIVE') {
+        throw new Error('Transition requirements not met: the latest effectiveness check must be EFFECTIVE before moving to PENDING_APPROVAL');
+      }
+    }
+
+    if (newStatus === 'CLOSED' && transitionData.approvedBy === current.ownerId) {
+      throw new Error('Transition requirements not met: closure must be approved by someone other than the CAPA owner');
+    }
+
+    const updateData: Record<string, any> = { ...transitionData, status: newStatus };
+
+    if (newStatus === 'CLOSED') {
+      updateData.approvedAt = new Date();
+      updateData.actualCloseDate = new Date();
+    }
+
+    await this.update(id, updateData);
+    const capa = (await this.findById(id))!;
+
+    return { capa, previousStatus: current.status };
+  }
+
+  /**
+   * Link a CAPA to an NCR by adding the CAPA number to the NCR's references
+   */
+  async linkNCR(id: string, ncrId: string): Promise<CAPA | null> {
+    const capa = await this.findOpenCAPA(id);
+    if (!capa) {
+      return null;
+    }
+
+    const result = await this.executeQuery(
+      `UPDATE ncrs
+       SET document_references = COALESCE(document_references, '[]'::jsonb) || jsonb_build_array($2::text), updated_at = NOW()
+       WHERE id = $1 AND is_active = true AND NOT (COALESCE(document_references, '[]'::jsonb) ? $2)`,
+      [ncrId, capa.capaNumber]
+    );
+
+    if (result.rowCount === 0) {
+      const ncr = await this.executeQuery(`SELECT id FROM ncrs WHERE id = $1 AND is_active = true`, [ncrId]);
+      if (ncr.rows.length === 0) {
+        throw new Error(`NCR with ID ${ncrId} not found`);
+      }
+    }
+
+    return this.findById(id);
+  }
+
+  /**
+   * Remove the CAPA number from an NCR's references
+   */
+  async unlinkNCR(id: string, ncrId: string): Promise<CAPA | null> {
+    const capa = await this.findOpenCAPA(id);
+    if (!capa) {
+      return null;
+    }
+
+    const result = await this.executeQuery(
+      `UPDATE ncrs
+       SET document_references = document_references - $2::text, updated_at = NOW()
+       WHERE id = $1 AND is_active = true AND document_references ? $2`,
+      [ncrId, capa.capaNumber]
+    );
+
+    if (result.rowCount === 0) {
+      throw new Error(`NCR with ID ${ncrId} is not linked to ${capa.capaNumber}`);
+    }
+
+    return this.findById(id);
+  }
+
+  /**
+   * Add an action item to a CAPA
+   */
+  async addActionItem(
+    id: string,
+    data: {
+      description: string;
+      assignedTo?: string;
+      assignedToName?: string;
+      dueDate: Date;
+    }
+  ): Promise<CAPAActionItem | null> {
+    const capa = await this.findOpenCAPA(id);
+    if (!capa) {
+      return null;
+    }
+
+    const query = `
+      INSERT INTO capa_action_items (capa_id, description, assigned_to, assigned_to_name, due_date)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING ${ACTION_ITEM_COLUMNS}
+    `;
+    const result = await this.executeQuery<CAPAActionItem>(query, [
+      id,
+      data.description,
+      data.assignedTo,
+      data.assignedToName,
+      data.dueDate,
+    ]);
+    return result.rows[0];
+  }
+
+  /**
+   * Update an action item. Completing an item stamps its completion time.
+   */
+  async updateActionItem(
+    id: string,
+    itemId: string,
+    data: {
+      description?: string;
+      assignedTo?: string;
+      assignedToName?: string;
+      dueDate?: Date;
+      status?: CAPAActionItemStatusType;
+      completionNotes?: string;
+    }
+  ): Promise<CAPAActionItem | null> {
+    const capa = await this.findOpenCAPA(id);
+    if (!capa) {
+      return null;
+    }
+
+    const existing = await this.executeQuery<CAPAActionItem>(
+      `SELECT ${ACTION_ITEM_COLUMNS} FROM capa_action_items WHERE id = $1 AND capa_id = $2 AND is_active = true`,
+      [itemId, id]
+    );
+    const item = existing.rows[0];
+    if (!item) {
+      throw new Error(`Action item with ID ${itemId} not found`);
+    }
+
+    if (data.status === 'COMPLETED' && !(data.completionNotes || item.completionNotes)) {
+      throw new Error('Validation failed: completionNotes are required to complete an action item');
+    }
+
+    const dbData: Record<string, any> = this.convertKeysToSnakeCase(data);
+    if (data.status !== undefined) {
+      dbData.completed_at = data.status === 'COMPLETED' ? (item.completedAt || new Date()) : null;
+    }
+
+    const columns = Object.keys(dbData);
+    if (columns.length === 0) {
+      return item;
+    }
+
+    const values = Object.values(dbData);
+    const setClause = columns.map((col, index) => `${col} = $${index + 2}`).join(', ');
+
+    const result = await this.executeQuery<CAPAActionItem>(
+      `UPDATE capa_action_items
+       SET ${setClause}, updated_at = NOW()
+       WHERE id = $1
+       RETURNING ${ACTION_ITEM_COLUMNS}`,
+      [itemId, ...values]
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * Plan an effectiveness check for a CAPA
+   */
+  async planEffectivenessCheck(
+    id: string,
+    data: { plannedDate: Date; criteria?: string }
+  ): Promise<CAPAEffectivenessCheck | null> {
+    const capa = await this.findOpenCAPA(id);
+    if (!capa) {
+      return null;
+    }
+
+    const query = `
+      INSERT INTO capa_effectiveness_checks (capa_id, planned_date, criteria)
+      VALUES ($1, $2, $3)
+      RETURNING ${EFFECTIVENESS_CHECK_COLUMNS}
+    `;
+    const result = await this.executeQuery<CAPAEffectivenessCheck>(query, [id, data.plannedDate, data.criteria]);
+    return result.rows[0];
+  }
+
+  /**
+   * Record the outcome of an effectiveness check. Results can only be
+   * recorded once the CAPA's actions are complete.
+   */
+  async recordEffectivenessResult(
+    id: string,
+    checkId: string,
+    data: {
+      result: EffectivenessResultType;
+      performedBy: string;
+      performedByName: string;
+      notes?: string;
+    }
+  ): Promise<CAPAEffectivenessCheck | null> {
+    const capa = await this.findOpenCAPA(id);
+    if (!capa) {
+      return null;
+    }
+
+    if (capa.status !== 'EFFECTIVENESS_CHECK') {
+      throw new Error(`Invalid status: effectiveness results can only be recorded while the CAPA is in EFFECTIVENESS_CHECK (currently ${capa.status})`);
+    }
+
+    const result = await this.executeQuery<CAPAEffectivenessCheck>(
+      `UPDATE capa_effectiveness_checks
+       SET result = $3, performed_by = $4, performed_by_name = $5, performed_at = NOW(), notes = $6, updated_at = NOW()
+       WHERE id = $1 AND capa_id = $2 AND is_active = true AND result IS NULL
+       RETURNING ${EFFECTIVENESS_CHECK_COLUMNS}`,
+      [checkId, id, data.result, data.performedBy, data.performedByName, data.notes]
+    );
+
+    if (!result.rows[0]) {
+      throw new Error(`Effectiveness check with ID ${checkId} not found or already performed`);
+    }
+
+    return result.rows[0];
+  }
+
+  /**
+   * CAPAs past their due date, and CAPAs with action items past theirs
+   */
+  async findOverdue(ownerId?: string): Promise<CAPA[]> {
+    const params: any[] = [];
+    let ownerClause = '';
+    if (ownerId) {
+      ownerClause = 'AND owner_id = $1';
+      params.push(ownerId);
+    }
+
+    const query = `
+      SELECT ${CAPA_COLUMNS}
+      FROM capas
+      WHERE is_active = true AND status <> 'CLOSED' ${ownerClause}
+        AND (
+          due_date < NOW()
+          OR EXISTS (
+            SELECT 1 FROM capa_action_items ai
+            WHERE ai.capa_id = capas.id AND ai.is_active = true
+              AND ai.due_date < NOW() AND ai.status IN ('OPEN', 'IN_PROGRESS')
+          )
+        )
+      ORDER BY due_date ASC
+    `;
+    const result = await this.executeQuery<CAPA>(query, params);
+
+    return Promise.all(result.rows.map(async (capa: CAPA) => ({
+      ...capa,
+      actionItems: (await this.findActionItems(capa.id)).filter((item: CAPAActionItem) => item.isOverdue),
+    })));
+  }
+
+  /**
+   * Get CAPA summary, optionally scoped to an owner
+   */
+  async getSummary(scope: { ownerId?: string } = {}): Promise<CAPASummary> {
+    let whereClause = 'WHERE c.is_active = true';
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    if (scope.ownerId) {
+      whereClause += ` AND c.owner_id = $${paramIndex++}`;
+      params.push(scope.ownerId);
+    }
+
+    const query = `
+      SELECT
+        COUNT(*) as total,
+        COUNT(*) FILTER (WHERE c.status = 'OPEN') as open,
+        COUNT(*) FILTER (WHERE c.status = 'IN_PROGRESS') as in_progress,
+        COUNT(*) FILTER (WHERE c.status = 'EFFECTIVENESS_CHECK') as effectiveness_check,
+        COUNT(*) FILTER (WHERE c.status = 'PENDING_APPROVAL') as pending_approval,
+        COUNT(*) FILTER (WHERE c.status = 'CLOSED') as closed,
+        COUNT(*) FILTER (WHERE c.type = 'CORRECTIVE') as corrective,
+        COUNT(*) FILTER (WHERE c.type = 'PREVENTIVE') as preventive,
+        AVG(EXTRACT(EPOCH FROM (c.actual_close_date - c.created_at)) / 86400)
+          FILTER (WHERE c.actual_close_date IS NOT NULL) as avg_closure_days,
+        COUNT(*) FILTER (WHERE c.due_date < NOW() AND c.status <> 'CLOSED') as overdue,
+        COALESCE(SUM((
+          SELECT COUNT(*) FROM capa_action_items ai
+          WHERE ai.capa_id = c.id AND ai.is_active = true
+            AND ai.due_date < NOW() AND ai.status IN ('OPEN', 'IN_PROGRESS')
+        )), 0) as overdue_action_items,
+        COALESCE(SUM((
+          SELECT COUNT(*) FROM capa_effectiveness_checks ec
+          WHERE ec.capa_id = c.id AND ec.is_active = true AND ec.result = 'NOT_EFFECTIVE'
+        )), 0) as ineffective_checks
+      FROM capas c
+      ${whereClause}
+    `;
+
+    const result = await this.executeQuery<{
+      total: string;
+      open: string;
+      in_progress: string;
+      effectiveness_check: string;
+      pending_approval: string;
+      closed: string;
+      corrective: string;
+      preventive: string;
+      avg_closure_days: string | null;
+      overdue: string;
+      overdue_action_items: string;
+      ineffective_checks: string;
+    }>(query, params);
+    const row = result.rows[0];
+
+    return {
+      ownerId: scope.ownerId,
+      totalCAPAs: parseInt(row?.total || '0'),
+      openCAPAs: parseInt(row?.open || '0'),
+      inProgressCAPAs: parseInt(row?.in_progress || '0'),
+      effectivenessCheckCAPAs: parseInt(row?.effectiveness_check || '0'),
+      pendingApprovalCAPAs: parseInt(row?.pending_approval || '0'),
+      closedCAPAs: parseInt(row?.closed || '0'),
+      correctiveCAPAs: parseInt(row?.corrective || '0'),
+      preventiveCAPAs: parseInt(row?.preventive || '0'),
+      averageClosureDays: parseFloat(row?.avg_closure_days || '0'),
+      overdueCAPAs: parseInt(row?.overdue || '0'),
+      overdueActionItems: parseInt(row?.overdue_action_items || '0'),
+      ineffectiveChecks: parseInt(row?.ineffective_checks || '0'),
+      lastUpdated: new Date(),
+    };
+  }
+
+  /**
+   * Find a CAPA that may still be changed
+   */
+  private async findOpenCAPA(id: string): Promise<CAPA | null> {
+    const result = await this.executeQuery<CAPA>(
+      `SELECT ${CAPA_COLUMNS} FROM capas WHERE id = $1 AND is_active = true`,
+      [id]
+    );
+    const capa = result.rows[0];
+    if (capa && capa.status === 'CLOSED') {
+      throw new Error(`CAPA ${capa.capaNumber} is closed and can no longer be changed`);
+    }
+    return capa || null;
+  }
+
+  private async findActionItems(capaId: string): Promise<CAPAActionItem[]> {
+    const result = await this.executeQuery<CAPAActionItem>(
+      `SELECT ${ACTION_ITEM_COLUMNS}
+       FROM capa_action_items
+       WHERE capa_id = $1 AND is_active = true
+       ORDER BY due_date ASC`,
+      [capaId]
+    );
+    return result.rows;
+  }
+
+  private async findEffectivenessChecks(capaId: string): Promise<CAPAEffectivenessCheck[]> {
+    const result = await this.executeQuery<CAPAEffectivenessCheck>(
+      `SELECT ${EFFECTIVENESS_CHECK_COLUMNS}
+       FROM capa_effectiveness_checks
+       WHERE capa_id = $1 AND is_active = true
+       ORDER BY planned_date ASC`,
+      [capaId]
+    );
+    return result.rows;
+  }
+
+  private async findLinkedNCRs(capaNumber: string): Promise<CAPALinkedNCR[]> {
+    const result = await this.executeQuery<CAPALinkedNCR>(
+      `SELECT id, ncr_number as "ncrNumber", title, status, severity
+       FROM ncrs
+       WHERE document_references ? $1 AND is_active = true
+       ORDER BY reported_at ASC`,
+      [capaNumber]
+    );
+    return result.rows;
+  }
+}
@@ -0,0 +1,1091 @@
+import { Pool, PoolClient } from 'pg';
+import {
+  BOMDetail,
+  BOMItemChange,
+  BOMItemDetail,
+  ECO,
+  ECOAffectedOrder,
+  ECOChange,
+  ECOChangeDiff,
+  ECOChangeTypeType,
+  ECODiffLine,
+  ECOStatusType,
+  RoutingDetail,
+  RoutingStepChange,
+  RoutingStepDetail,
+} from '@akazify/core-domain';
+import { BaseRepository, FilterOptions, PaginatedResult, PaginationOptions } from './base';
+import { BOMRepository } from './bom.repository';
+import { RoutingRepository } from './routing.repository';
+import { UoMRepository } from './uom.repository';
+
+/**
+ * ECO specific filter options
+ */
+export interface ECOFilterOptions extends FilterOptions {
+  status?: ECOStatusType;
+  productId?: string; // ECOs with a change to this product
+}
+
+/**
+ * Fields that may be supplied alongside a status transition
+ */
+export interface ECOTransitionData {
+  reviewedBy?: string;
+  reviewedByName?: string;
+  reviewNotes?: string;
+}
+
+/**
+ * ECO change fields accepted on create and update
+ */
+export interface ECOChangeInput {
+  changeType: ECOChangeTypeType;
+  sourceId: string; // BOM or routing being revised
+  newVersion: string;
+  newName?: string;
+  newDescription?: string;
+  makeDefault?: boolean;
+  itemChanges?: BOMItemChange[];
+  stepChanges?: RoutingStepChange[];
+}
+
+/**
+ * Fields that must be present on an ECO before it may enter each status
+ */
+const ECO_REQUIRED_FIELDS: Record<string, string[]> = {
+  'APPROVED': ['reviewedBy', 'reviewedByName'],
+  'REJECTED': ['reviewedBy', 'reviewedByName', 'reviewNotes'],
+};
+
+/**
+ * Manufacturing order statuses that may still be re-planned
+ */
+const OPEN_MO_STATUSES = ['PLANNED', 'RELEASED', 'IN_PROGRESS'];
+
+/**
+ * Gap left between step sequences so steps can be inserted later
+ */
+const SEQUENCE_STEP = 10;
+
+const BOM_LINE_FIELDS = ['componentProductId', 'quantity', 'uom', 'operationSequence', 'wasteFactor'];
+const ROUTING_LINE_FIELDS = [
+  'workCenterId',
+  'operationId',
+  'name',
+  'description',
+  'sequence',
+  'setupTime',
+  'runTime',
+  'teardownTime',
+];
+
+/**
+ * BOM item or routing step as proposed by an ECO change
+ */
+interface ProposedLine {
+  sourceLineId?: string; // Unset for added lines
+  fields: Record<string, any>;
+}
+
+/**
+ * Source version of an ECO change and the lines proposed to replace its own
+ */
+interface Proposal {
+  change: ECOChange;
+  source: BOMDetail | RoutingDetail;
+  sourceLines: ProposedLine[];
+  proposedLines: ProposedLine[];
+}
+
+const ECO_COLUMNS = `
+  id,
+  eco_number as "ecoNumber",
+  status,
+  title,
+  description,
+  reason,
+  effective_date as "effectiveDate",
+  requested_by as "requestedBy",
+  requested_by_name as "requestedByName",
+  reviewed_by as "reviewedBy",
+  reviewed_by_name as "reviewedByName",
+  reviewed_at as "reviewedAt",
+  review_notes as "reviewNotes",
+  applied_by as "appliedBy",
+  applied_by_name as "appliedByName",
+  applied_at as "appliedAt",
+  is_active as "isActive",
+  created_at as "createdAt",
+  updated_at as "updatedAt",
+  version
+`;
+
+const CHANGE_COLUMNS = `
+  c.id,
+  c.eco_id as "ecoId",
+  c.change_type as "changeType",
+  c.product_id as "productId",
+  p.sku as "productSku",
+  c.source_bom_id as "sourceBomId",
+  c.source_routing_id as "sourceRoutingId",
+  COALESCE(b.version, r.version) as "sourceVersion",
+  c.new_version as "newVersion",
+  c.new_name as "newName",
+  c.new_description as "newDescription",
+  c.make_default as "makeDefault",
+  CASE WHEN c.change_type = 'BOM' THEN c.line_changes END as "itemChanges",
+  CASE WHEN c.change_type = 'ROUTING' THEN c.line_changes END as "stepChanges",
+  c.result_bom_id as "resultBomId",
+  c.result_routing_id as "resultRoutingId",
+  c.is_active as "isActive",
+  c.created_at as "createdAt",
+  c.updated_at as "updatedAt",
+  c.version
+`;
+
+const CHANGE_JOINS = `
+  INNER JOIN products p ON c.product_id = p.id
+  LEFT JOIN boms b ON c.source_bom_id = b.id
+  LEFT JOIN routings r ON c.source_routing_id = r.id
+`;
+
+/**
+ * Engineering change order repository. An ECO bundles revisions of released
+ * BOMs and of routings; applying it creates the new versions in one
+ * transaction.
+ */
+export class ECORepository extends BaseRepository<ECO> {
+  private bomRepository: BOMRepository;
+  private routingRepository: RoutingRepository;
+  private uomRepository: UoMRepository;
+
+  constructor(pool: Pool) {
+    super(pool, 'ecos');
+    this.bomRepository = new BOMRepository(pool);
+    this.routingRepository = new RoutingRepository(pool);
+    this.uomRepository = new UoMRepository(pool);
+  }
+
+  /**
+   * Find ECO by ID with its changes
+   */
+  async findById(id: string): Promise<ECO | null> {
+    const result = await this.executeQuery<ECO>(
+      `SELECT ${ECO_COLUMNS} FROM ecos WHERE id = $1 AND is_active = true`,
+      [id]
+    );
+    const eco = result.rows[0];
+    if (!eco) {
+      return null;
+    }
+
+    return { ...eco, changes: await this.findChanges(id) };
+  }
+
+  /**
+   * Find ECOs with filtering and pagination
+   */
+  async findWithFilters(
+    options: PaginationOptions = {},
+    filters: ECOFilterOptions = {}
+  ): Promise<PaginatedResult<ECO>> {
+    const {
+      page = 1,
+      limit = 50,
+      sortBy = 'created_at',
+      sortOrder = 'DESC' as const,
+    } = options;
+
+    const offset = (page - 1) * limit;
+    let whereClause = 'WHERE is_active = true';
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    if (filters.status) {
+      whereClause += ` AND status = $${paramIndex++}`;
+      params.push(filters.status);
+    }
+
+    if (filters.productId) {
+      whereClause += ` AND id IN (
+        SELECT eco_id FROM eco_changes WHERE product_id = $${paramIndex++} AND is_active = true
+      )`;
+      params.push(filters.productId);
+    }
+
+    // Count query
+    const countQuery = `SELECT COUNT(*) as total FROM ecos ${whereClause}`;
+    const countResult = await this.executeQuery<{ total: string }>(countQuery, params);
+    const total = parseInt(countResult.rows[0].total);
+
+    // Main query
+    const dataQuery = `
+      SELECT ${ECO_COLUMNS}
+      FROM ecos
+      ${whereClause}
+      ORDER BY ${sortBy} ${sortOrder}
+      LIMIT $${paramIndex++} OFFSET $${paramIndex++}
+    `;
+    const dataParams = [...params, limit, offset];
+    const dataResult = await this.executeQuery<ECO>(dataQuery, dataParams);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data: dataResult.rows,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Create a draft ECO with auto-generated ECO number
+   */
+  async createWithECONumber(data: {
+    title: string;
+    description?: string;
+    reason?: string;
+    effectiveDate: Date;
+    requestedBy: string;
+    requestedByName: string;
+  }): Promise<ECO> {
+    const client = await this.beginTransaction();
+    let ecoId: string;
+    try {
+      // Generate ECO number (format: ECO-YYYY-NNNN)
+      const year = new Date().getFullYear();
+      const countResult = await client.query(
+        `SELECT COUNT(*) as count FROM ecos WHERE eco_number LIKE 'ECO-${year}-%'`
+      );
+      const nextNumber = parseInt(countResult.rows[0].count) + 1;
+      const ecoNumber = `ECO-${year}-${nextNumber.toString().padStart(4, '0')}`;
+
+      const insert = await client.query(
+        `INSERT INTO ecos (eco_number, title, description, reason, effective_date, requested_by, requested_by_name)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         RETURNING id`,
+        [
+          ecoNumber,
+          data.title,
+          data.description,
+          data.reason,
+          data.effectiveDate,
+          data.requestedBy,
+          data.requestedByName,
+        ]
+      );
+      ecoId = insert.rows[0].id;
+
+      await this.commitTransaction(client);
+    } catch (error) {
+      await this.rollbackTransaction(client);
+      throw error;
+    }
+
+    return (await this.findById(ecoId))!;
+  }
+
+  /**
+   * Update a draft ECO's details
+   */
+  async updateECO(
+    id: string,
+    data: { title?: string; description?: string; reason?: string; effectiveDate?: Date }
+  ): Promise<ECO | null> {
+    const current = await this.findEditableECO(id);
+    if (!current) {
+      return null;
+    }
+
+    await this.update(id, data);
+    return this.findById(id);
+  }
+
+  /**
+   * Move an ECO through its workflow: DRAFT → SUBMITTED → APPROVED or
+   * REJECTED. Submitted ECOs can be returned to DRAFT; unapplied ECOs can be
+   * cancelled. Submission re-validates every change, and the reviewer must be
+   * someone other than the requester.
+   */
+  async updateStatus(
+    id: string,
+    newStatus: ECOStatusType,
+    transitionData: ECOTransitionData = {}
+  ): Promise<{ eco: ECO; previousStatus: ECOStatusType }> {
+    const current = await this.findById(id);
+    if (!current) {
+      throw new Error(`ECO with ID ${id} not found`);
+    }
+
+    // Validate status transition. APPLIED is reached through apply().
+    const validTransitions: Record<string, string[]> = {
+      'DRAFT': ['SUBMITTED', 'CANCELLED'],
+      'SUBMITTED': ['APPROVED', 'REJECTED', 'DRAFT'], // Back to draft for rework
+      'APPROVED': ['CANCELLED'],
+      'REJECTED': [], // Terminal state
+      'APPLIED': [], // Terminal state
+      'CANCELLED': [], // Terminal state
+    };
+
+    if (!validTransitions[current.status].includes(newStatus)) {
+      throw new Error(`Invalid status transition from ${current.status} to ${newStatus}`);
+    }
+
+    const merged: Record<string, any> = { ...current, ...transitionData };
+    const missingFields = (ECO_REQUIRED_FIELDS[newStatus] || []).filter(
+      field => merged[field] === undefined || merged[field] === null || merged[field] === ''
+    );
+
+    if (missingFields.length > 0) {
+      throw new Error(
+        `Transition requirements not met: ${missingFields.join(', ')} required before moving to ${newStatus}`
+      );
+    }
+
+    if (newStatus === 'SUBMITTED') {
+      if ((current.changes || []).length === 0) {
+        throw new Error('Transition requirements not met: at least one change required before moving to SUBMITTED');
+      }
+      // Surfaces invalid or stale changes before review
+      await this.getDiff(id);
+    }
+
+    if ((newStatus === 'APPROVED' || newStatus === 'REJECTED') && transitionData.reviewedBy === current.requestedBy) {
+      throw new Error('Transition requirements not met: the ECO must be reviewed by someone other than the requester');
+    }
+
+    const updateData: Record<string, any> = { ...transitionData, status: newStatus };
+
+    if (newStatus === 'APPROVED' || newStatus === 'REJECTED') {
+      updateData.reviewedAt = new Date();
+    }
+
+    await this.update(id, updateData);
+    const eco = (await this.findById(id))!;
+
+    return { eco, previousStatus: current.status };
+  }
+
+  /**
+   * Add a BOM or routing revision to a draft ECO
+   */
+  async addChange(ecoId: string, data: ECOChangeInput): Promise<ECOChange | null> {
+    const eco = await this.findEditableECO(ecoId);
+    if (!eco) {
+      return null;
+    }
+
+    const source = await this.findSource(data.changeType, data.sourceId);
+    const lineChanges = (data.changeType === 'BOM' ? data.itemChanges : data.stepChanges) || [];
+
+    const duplicate = await this.executeQuery(
+      `SELECT id FROM eco_changes
+       WHERE eco_id = $1 AND is_active = true AND (source_bom_id = $2 OR source_routing_id = $2)`,
+      [ecoId, data.sourceId]
+    );
+    if (duplicate.rows.length > 0) {
+      throw new Error(`${data.changeType} ${source.revision} already exists as a change on this ECO`);
+    }
+
+    await this.assertNewVersionAvailable(data.changeType, source.productId, data.newVersion);
+    await this.validateLineChanges(data.changeType, source, lineChanges);
+
+    const result = await this.executeQuery<{ id: string }>(
+      `INSERT INTO eco_changes
+         (eco_id, change_type, product_id, source_bom_id, source_routing_id, new_version, new_name, new_description, make_default, line_changes)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       RETURNING id`,
+      [
+        ecoId,
+        data.changeType,
+        source.productId,
+        data.changeType === 'BOM' ? data.sourceId : null,
+        data.changeType === 'ROUTING' ? data.sourceId : null,
+        data.newVersion,
+        data.newName,
+        data.newDescription,
+        data.makeDefault ?? true,
+        JSON.stringify(lineChanges),
+      ]
+    );
+
+    return this.findChange(ecoId, result.rows[0].id);
+  }
+
+  /**
+   * Update a change on a draft ECO. Line changes replace the existing list.
+   */
+  async updateChange(
+    ecoId: string,
+    changeId: string,
+    data: Partial<Omit<ECOChangeInput, 'changeType' | 'sourceId'>>
+  ): Promise<ECOChange | null> {
+    const eco = await this.findEditableECO(ecoId);
+    if (!eco) {
+      return null;
+    }
+
+    const change = await this.findChange(ecoId, changeId);
+    if (!change) {
+      throw new Error(`ECO change with ID ${changeId} not found`);
+    }
+
+    const source = await this.findSource(change.changeType, change.sourceBomId ?? change.sourceRoutingId!);
+
+    if (data.newVersion !== undefined && data.newVersion !== change.newVersion) {
+      await this.assertNewVersionAvailable(change.changeType, change.productId, data.newVersion);
+    }
+
+    const lineChanges = change.changeType === 'BOM' ? data.itemChanges : data.stepChanges;
+    if (lineChanges !== undefined) {
+      await this.validateLineChanges(change.changeType, source, lineChanges);
+    }
+
+    const dbData: Record<string, any> = this.convertKeysToSnakeCase({
+      newVersion: data.newVersion,
+      newName: data.newName,
+      newDescription: data.newDescription,
+      makeDefault: data.makeDefault,
+    });
+    if (lineChanges !== undefined) {
+      dbData.line_changes = JSON.stringify(lineChanges);
+    }
+
+    const columns = Object.keys(dbData).filter(col => dbData[col] !== undefined);
+    if (columns.length === 0) {
+      return change;
+    }
+
+    const values = columns.map(col => dbData[col]);
+    const setClause = columns.map((col, index) => `${col} = $${index + 2}`).join(', ');
+
+    await this.executeQuery(
+      `UPDATE eco_changes SET ${setClause} WHERE id = $1`,
+      [changeId, ...values]
+    );
+    return this.findChange(ecoId, changeId);
+  }
+
+  /**
+   * Remove a change from a draft ECO
+   */
+  async removeChange(ecoId: string, changeId: string): Promise<boolean> {
+    const eco = await this.findEditableECO(ecoId);
+    if (!eco) {
+      return false;
+    }
+
+    const result = await this.executeQuery(
+      `UPDATE eco_changes SET is_active = false WHERE id = $1 AND eco_id = $2 AND is_active = true`,
+      [changeId, ecoId]
+    );
+    if (result.rowCount === 0) {
+      throw new Error(`ECO change with ID ${changeId} not found`);
+    }
+    return true;
+  }
+
+  /**
+   * Compare each change's proposal with the current source version, line by
+   * line. Applied ECOs are compared with the versions they replaced.
+   */
+  async getDiff(id: string): Promise<ECOChangeDiff[] | null> {
+    const eco = await this.findById(id);
+    if (!eco) {
+      return null;
+    }
+
+    const proposals = await this.buildProposals(eco.changes || []);
+    const labels = await this.findLineLabels(proposals);
+
+    return proposals.map(({ change, source, sourceLines, proposedLines }) => {
+      const fields = change.changeType === 'BOM' ? BOM_LINE_FIELDS : ROUTING_LINE_FIELDS;
+      const labelOf = (line: ProposedLine) => change.changeType === 'BOM'
+        ? labels.get(line.fields.componentProductId) ?? line.fields.componentProductId
+        : line.fields.operationId;
+
+      const lines: ECODiffLine[] = sourceLines.map(before => {
+        const after = proposedLines.find(line => line.sourceLineId === before.sourceLineId);
+        if (!after) {
+          return {
+            action: 'REMOVED',
+            sourceLineId: before.sourceLineId,
+            label: labelOf(before),
+            before: before.fields,
+            changedFields: [],
+          };
+        }
+
+        const changedFields = fields.filter(field => (before.fields[field] ?? null) !== (after.fields[field] ?? null));
+        return {
+          action: changedFields.length > 0 ? 'CHANGED' : 'UNCHANGED',
+          sourceLineId: before.sourceLineId,
+          label: labelOf(after),
+          before: before.fields,
+          after: after.fields,
+          changedFields,
+        };
+      });
+
+      for (const added of proposedLines.filter(line => !line.sourceLineId)) {
+        lines.push({
+          action: 'ADDED',
+          label: labelOf(added),
+          after: added.fields,
+          changedFields: [],
+        });
+      }
+
+      const header = [
+        { field: 'name', before: source.name, after: change.newName ?? source.name },
+        { field: 'description', before: source.description, after: change.newDescription ?? source.description },
+      ].filter(entry => entry.before !== entry.after);
+
+      return {
+        changeId: change.id,
+        changeType: change.changeType,
+        productId: change.productId,
+        productSku: change.productSku!,
+        sourceId: source.id,
+        sourceVersion: source.revision,
+        newVersion: change.newVersion,
+        header,
+        lines,
+      };
+    });
+  }
+
+  /**
+   * Open manufacturing orders for the revised products (DIRECT) and for
+   * products whose current structure contains a revised BOM's product
+   * (WHERE_USED), so planners can decide whether to re-explode them
+   */
+  async findAffectedOrders(id: string): Promise<ECOAffectedOrder[] | null> {
+    const eco = await this.findById(id);
+    if (!eco) {
+      return null;
+    }
+
+    const changes = eco.changes || [];
+    const changeTypesByProduct = new Map<string, Set<ECOChangeTypeType>>();
+    for (const change of changes) {
+      const types = changeTypesByProduct.get(change.productId) ?? new Set<ECOChangeTypeType>();
+      types.add(change.changeType);
+      changeTypesByProduct.set(change.productId, types);
+    }
+
+    const bomProductIds = changes
+      .filter((change: ECOChange) => change.changeType === 'BOM')
+      .map((change: ECOChange) => change.productId);
+
+    const ancestors = bomProductIds.length === 0 ? [] : (await this.executeQuery<{ productId: string }>(
+      `WITH RECURSIVE ancestors(product_id) AS (
+         SELECT b.product_id
+         FROM bom_items bi
+         INNER JOIN boms b ON bi.bom_id = b.id AND b.is_active = true AND b.status <> 'OBSOLETE'
+         WHERE bi.is_active = true AND bi.component_product_id = ANY($1)
+         UNION
+         SELECT b.product_id
+         FROM ancestors a
+         INNER JOIN bom_items bi ON bi.component_product_id = a.product_id AND bi.is_active = true
+         INNER JOIN boms b ON bi.bom_id = b.id AND b.is_active = true AND b.status <> 'OBSOLETE'
+       )
+       SELECT product_id as "productId" FROM ancestors`,
+      [bomProductIds]
+    )).rows.map(row => row.productId);
+
+    const productIds = [...new Set([...changeTypesByProduct.keys(), ...ancestors])];
+    if (productIds.length === 0) {
+      return [];
+    }
+
+    const result = await this.executeQuery<Omit<ECOAffectedOrder, 'impact' | 'changeTypes'>>(
+      `SELECT
+         mo.id as "manufacturingOrderId",
+         mo.order_number as "orderNumber",
+         mo.product_id as "productId",
+         p.sku as "productSku",
+         mo.status,
+         mo.quantity::float8 as quantity,
+         mo.planned_start_date as "plannedStartDate",
+         mo.bom_id as "bomId",
+         mo.routing_id as "routingId",
+         (mo.planned_start_date < $3) as "startsBeforeEffectiveDate"
+       FROM manufacturing_orders mo
+       INNER JOIN products p ON mo.product_id = p.id
+       WHERE mo.product_id = ANY($1) AND mo.status = ANY($2) AND mo.is_active = true
+       ORDER BY mo.planned_start_date ASC`,
+      [productIds, OPEN_MO_STATUSES, eco.effectiveDate]
+    );
+
+    return result.rows.map(order => {
+      const direct = changeTypesByProduct.get(order.productId);
+      return {
+        ...order,
+        impact: direct ? 'DIRECT' : 'WHERE_USED',
+        changeTypes: direct ? [...direct] : ['BOM'],
+      };
+    });
+  }
+
+  /**
+   * Apply an approved ECO: create each new BOM and routing version from its
+   * source with the proposed lines, in one transaction. New BOMs are released
+   * effective from the ECO's effective date and their source stops being
+   * effective then. Routings are not dated and a new default routing takes
+   * effect when applied, so an ECO that changes the default routing cannot be
+   * applied before its effective date.
+   */
+  async apply(id: string, data: { appliedBy: string; appliedByName: string }): Promise<ECO> {
+    const eco = await this.findById(id);
+    if (!eco) {
+      throw new Error(`ECO with ID ${id} not found`);
+    }
+
+    if (eco.status !== 'APPROVED') {
+      throw new Error(`ECO ${eco.ecoNumber} is ${eco.status} and cannot be applied; only APPROVED ECOs are applied`);
+    }
+
+    const proposals = await this.buildProposals(eco.changes || []);
+    const effectiveDate = new Date(eco.effectiveDate);
+
+    const switchesRouting = proposals.some(({ change }) => change.changeType === 'ROUTING' && change.makeDefault);
+    if (switchesRouting && effectiveDate > new Date()) {
+      throw new Error(
+        `Validation failed: ECO ${eco.ecoNumber} changes the default routing and cannot be applied before its effective date ${effectiveDate.toISOString()}`
+      );
+    }
+
+    const client = await this.beginTransaction();
+    try {
+      // Lock the ECO so it is applied once
+      const locked = await client.query(
+        `SELECT status FROM ecos WHERE id = $1 FOR UPDATE`,
+        [id]
+      );
+      if (locked.rows[0]?.status !== 'APPROVED') {
+        throw new Error(`ECO ${eco.ecoNumber} is ${locked.rows[0]?.status} and cannot be applied; only APPROVED ECOs are applied`);
+      }
+
+      for (const proposal of proposals) {
+        if (proposal.change.changeType === 'BOM') {
+          await this.applyBOMChange(client, proposal, effectiveDate, data);
+        } else {
+          await this.applyRoutingChange(client, proposal);
+        }
+      }
+
+      await client.query(
+        `UPDATE ecos
+         SET status = 'APPLIED', applied_by = $2, applied_by_name = $3, applied_at = NOW()
+         WHERE id = $1`,
+        [id, data.appliedBy, data.appliedByName]
+      );
+
+      await this.commitTransaction(client);
+    } catch (error) {
+      await this.rollbackTransaction(client);
+      throw error;
+    }
+
+    return (await this.findById(id))!;
+  }
+
+  private async applyBOMChange(
+    client: PoolClient,
+    { change, source, proposedLines }: Proposal,
+    effectiveDate: Date,
+    data: { appliedBy: string; appliedByName: string }
+  ): Promise<void> {
+    const bom = source as BOMDetail;
+    if (bom.effectiveFrom && new Date(bom.effectiveFrom) >= effectiveDate) {
+      throw new Error(
+        `Validation failed: the ECO effective date must be after BOM ${bom.revision} becomes effective`
+      );
+    }
+
+    const versionTaken = await client.query(
+      `SELECT id FROM boms WHERE product_id = $1 AND version = $2`,
+      [change.productId, change.newVersion]
+    );
+    if (versionTaken.rows.length > 0) {
+      throw new Error(`BOM version '${change.newVersion}' already exists for this product`);
+    }
+
+    // The source stops being effective when the new version takes over
+    await client.query(
+      `UPDATE boms SET effective_to = $2
+       WHERE id = $1 AND (effective_to IS NULL OR effective_to > $2)`,
+      [bom.id, effectiveDate]
+    );
+
+    if (change.makeDefault) {
+      await client.query(
+        `UPDATE boms SET is_default = false WHERE product_id = $1 AND is_default = true`,
+        [change.productId]
+      );
+    }
+
+    const insert = await client.query(
+      `INSERT INTO boms
+         (product_id, version, name, description, status, is_default, effective_from, released_at, released_by, released_by_name, copied_from_bom_id, cost_allocation_method)
+       VALUES ($1, $2, $3, $4, 'RELEASED', $5, $6, NOW(), $7, $8, $9, $10)
+       RETURNING id`,
+      [
+        change.productId,
+        change.newVersion,
+        change.newName ?? bom.name,
+        change.newDescription ?? bom.description,
+        change.makeDefault,
+        effectiveDate,
+        data.appliedBy,
+        data.appliedByName,
+        bom.id,
+        bom.costAllocationMethod,
+      ]
+    );
+    const bomId = insert.rows[0].id;
+
+    for (const line of proposedLines) {
+      await client.query(
+        `INSERT INTO bom_items (bom_id, component_product_id, quantity, uom, operation_sequence, waste_factor)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          bomId,
+          line.fields.componentProductId,
+          line.fields.quantity,
+          line.fields.uom,
+          line.fields.operationSequence,
+          line.fields.wasteFactor ?? 0,
+        ]
+      );
+    }
+
+    // ECOs only revise items; co-products and by-products carry over
+    await client.query(
+      `INSERT INTO bom_outputs (bom_id, product_id, output_type, yield_ratio, uom, allocation_percent)
+       SELECT $2, product_id, output_type, yield_ratio, uom, allocation_percent
+       FROM bom_outputs
+       WHERE bom_id = $1 AND is_active = true`,
+      [bom.id, bomId]
+    );
+
+    await client.query(`UPDATE eco_changes SET result_bom_id = $2 WHERE id = $1`, [change.id, bomId]);
+  }
+
+  private async applyRoutingChange(client: PoolClient, { change, source, proposedLines }: Proposal): Promise<void> {
+    const routing = source as RoutingDetail;
+
+    const versionTaken = await client.query(
+      `SELECT id FROM routings WHERE product_id = $1 AND version = $2`,
+      [change.productId, change.newVersion]
+    );
+    if (versionTaken.rows.length > 0) {
+      throw new Error(`Routing version '${change.newVersion}' already exists for this product`);
+    }
+
+    if (change.makeDefault) {
+      await client.query(
+        `UPDATE routings SET is_default = false WHERE product_id = $1 AND is_default = true`,
+        [change.productId]
+      );
+    }
+
+    const insert = await client.query(
+      `INSERT INTO routings (product_id, version, name, description, is_default)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING id`,
+      [
+        change.productId,
+        change.newVersion,
+        change.newName ?? routing.name,
+        change.newDescription ?? routing.description,
+        change.makeDefault,
+      ]
+    );
+    const routingId = insert.rows[0].id;
+
+    for (const line of proposedLines) {
+      const step = await client.query(
+        `INSERT INTO routing_steps (routing_id, work_center_id, operation_id, name, description, sequence, setup_time, run_time, teardown_time)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+         RETURNING id`,
+        [
+          routingId,
+          line.fields.workCenterId,
+          line.fields.operationId,
+          line.fields.name,
+          line.fields.description,
+          line.fields.sequence,
+          line.fields.setupTime,
+          line.fields.runTime,
+          line.fields.teardownTime,
+        ]
+      );
+
+      // Carried-over steps keep their alternate work centers
+      if (line.sourceLineId) {
+        await client.query(
+          `INSERT INTO routing_step_alternates (routing_step_id, work_center_id, priority, run_rate_multiplier)
+           SELECT $2, work_center_id, priority, run_rate_multiplier
+           FROM routing_step_alternates
+           WHERE routing_step_id = $1 AND is_active = true AND work_center_id <> $3`,
+          [line.sourceLineId, step.rows[0].id, line.fields.workCenterId]
+        );
+      }
+    }
+
+    await client.query(`UPDATE eco_changes SET result_routing_id = $2 WHERE id = $1`, [change.id, routingId]);
+  }
+
+  /**
+   * Load each change's source and apply its line changes to the source's
+   * current lines
+   */
+  private async buildProposals(changes: ECOChange[]): Promise<Proposal[]> {
+    const proposals: Proposal[] = [];
+    for (const change of changes) {
+      const source = await this.findSource(change.changeType, change.sourceBomId ?? change.sourceRoutingId!, true);
+      const sourceLines = this.toLines(change.changeType, source);
+      const lineChanges = (change.changeType === 'BOM' ? change.itemChanges : change.stepChanges) || [];
+      const proposedLines = this.proposeLines(change.changeType, source, sourceLines, lineChanges);
+      proposals.push({ change, source, sourceLines, proposedLines });
+    }
+    return proposals;
+  }
+
+  private toLines(changeType: ECOChangeTypeType, source: BOMDetail | RoutingDetail): ProposedLine[] {
+    const fields = changeType === 'BOM' ? BOM_LINE_FIELDS : ROUTING_LINE_FIELDS;
+    const rows: Array<BOMItemDetail | RoutingStepDetail> = changeType === 'BOM'
+      ? (source as BOMDetail).items || []
+      : (source as RoutingDetail).steps || [];
+
+    return rows.map(row => ({
+      sourceLineId: row.id,
+      fields: Object.fromEntries(fields.map(field => [field, (row as Record<string, any>)[field] ?? null])),
+    }));
+  }
+
+  /**
+   * Apply line changes in order to a copy of the source lines
+   */
+  private proposeLines(
+    changeType: ECOChangeTypeType,
+    source: BOMDetail | RoutingDetail,
+    sourceLines: ProposedLine[],
+    lineChanges: Array<BOMItemChange | RoutingStepChange>
+  ): ProposedLine[] {
+    const fields = changeType === 'BOM' ? BOM_LINE_FIELDS : ROUTING_LINE_FIELDS;
+    const lineLabel = changeType === 'BOM' ? 'BOM item' : 'Routing step';
+    const lines = sourceLines.map(line => ({ ...line, fields: { ...line.fields } }));
+
+    for (const lineChange of lineChanges) {
+      const values = lineChange as Record<string, any>;
+      const provided = Object.fromEntries(
+        fields.filter(field => values[field] !== undefined).map(field => [field, values[field]])
+      );
+
+      if (lineChange.action === 'ADD') {
+        const required = changeType === 'BOM'
+          ? ['componentProductId', 'quantity', 'uom']
+          : ['workCenterId', 'operationId', 'name'];
+        const missing = required.filter(field => provided[field] === undefined);
+        if (missing.length > 0) {
+          throw new Error(`Validation failed: ${missing.join(', ')} required to add a ${lineLabel.toLowerCase()}`);
+        }
+
+        if (changeType === 'ROUTING' && provided.sequence === undefined) {
+          const last = Math.max(0, ...lines.map(line => line.fields.sequence || 0));
+          provided.sequence = last + SEQUENCE_STEP;
+        }
+
+        lines.push({ fields: { ...Object.fromEntries(fields.map(field => [field, null])), ...provided } });
+        continue;
+      }
+
+      const sourceLineId = changeType === 'BOM' ? values.bomItemId : values.routingStepId;
+      const index = lines.findIndex(line => line.sourceLineId && line.sourceLineId === sourceLineId);
+      if (index === -1) {
+        throw new Error(
+          `Validation failed: ${lineLabel} ${sourceLineId ?? '(missing ID)'} is not on ${changeType === 'BOM' ? 'BOM' : 'routing'} ${source.revision}`
+        );
+      }
+
+      if (lineChange.action === 'REMOVE') {
+        lines.splice(index, 1);
+      } else {
+        lines[index] = { ...lines[index], fields: { ...lines[index].fields, ...provided } };
+      }
+    }
+
+    if (changeType === 'ROUTING') {
+      for (const field of ['sequence', 'operationId']) {
+        const seen = new Set<any>();
+        for (const line of lines) {
+          if (seen.has(line.fields[field])) {
+            throw new Error(`Validation failed: ${field} ${line.fields[field]} appears more than once in the proposed routing`);
+          }
+          seen.add(line.fields[field]);
+        }
+      }
+    }
+
+    return lines;
+  }
+
+  /**
+   * Check a change's line references, components, units and work centers
+   * against the current data
+   */
+  private async validateLineChanges(
+    changeType: ECOChangeTypeType,
+    source: BOMDetail | RoutingDetail,
+    lineChanges: Array<BOMItemChange | RoutingStepChange>
+  ): Promise<void> {
+    this.proposeLines(changeType, source, this.toLines(changeType, source), lineChanges);
+
+    for (const lineChange of lineChanges) {
+      if (changeType === 'BOM') {
+        const { componentProductId } = lineChange as BOMItemChange;
+        if (componentProductId) {
+          const product = await this.executeQuery(
+            `SELECT id FROM products WHERE id = $1 AND is_active = true`,
+            [componentProductId]
+          );
+          if (product.rows.length === 0) {
+            throw new Error(`Component product with ID ${componentProductId} does not exist`);
+          }
+          await this.bomRepository.assertNoCircularReference(source.productId, componentProductId);
+        }
+
+        // Units are stored as catalogue codes and must convert to the component's unit
+        const itemChange = lineChange as BOMItemChange;
+        if (itemChange.uom) {
+          const sourceItem = (source as BOMDetail).items?.find((item: BOMItemDetail) => item.id === itemChange.bomItemId);
+          itemChange.uom = await this.uomRepository.resolveCode(itemChange.uom);
+          const productId = componentProductId ?? sourceItem?.componentProductId;
+          if (productId) {
+            await this.uomRepository.assertConvertible(itemChange.uom, productId);
+          }
+        }
+      } else {
+        const { workCenterId } = lineChange as RoutingStepChange;
+        if (workCenterId) {
+          const workCenter = await this.executeQuery(
+            `SELECT id FROM work_centers WHERE id = $1 AND is_active = true`,
+            [workCenterId]
+          );
+          if (workCenter.rows.length === 0) {
+            throw new Error(`Work center with ID ${workCenterId} does not exist or is inactive`);
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Load the BOM or routing a change revises. Only released BOMs are revised
+   * through an ECO; drafts are edited directly. `forExisting` reports a
+   * source that changed after the ECO was drafted as stale.
+   */
+  private async findSource(
+    changeType: ECOChangeTypeType,
+    sourceId: string,
+    forExisting = false
+  ): Promise<BOMDetail | RoutingDetail> {
+    if (changeType === 'BOM') {
+      const bom = await this.bomRepository.findById(sourceId);
+      if (!bom) {
+        throw new Error(`BOM with ID ${sourceId} does not exist`);
+      }
+      if (bom.status !== 'RELEASED') {
+        throw new Error(forExisting
+          ? `ECO change to BOM ${bom.revision} is stale: the BOM is now ${bom.status}`
+          : `Validation failed: BOM ${bom.revision} is ${bom.status}; only released BOMs are revised through an ECO`);
+      }
+      return bom;
+    }
+
+    const routing = await this.routingRepository.findById(sourceId);
+    if (!routing) {
+      throw new Error(forExisting
+        ? `ECO change to routing ${sourceId} is stale: the routing has been deleted`
+        : `Routing with ID ${sourceId} does not exist`);
+    }
+    return routing;
+  }
+
+  private async findLineLabels(proposals: Proposal[]): Promise<Map<string, string>> {
+    const productIds = proposals
+      .filter(proposal => proposal.change.changeType === 'BOM')
+      .flatMap(proposal => [...proposal.sourceLines, ...proposal.proposedLines])
+      .map(line => line.fields.componentProductId);
+
+    if (productIds.length === 0) {
+      return new Map();
+    }
+
+    const result = await this.executeQuery<{ id: string; sku: string }>(
+      `SELECT id, sku FROM products WHERE id = ANY($1)`,
+      [[...new Set(productIds)]]
+    );
+    return new Map(result.rows.map(row => [row.id, row.sku]));
+  }
+
+  private async findChanges(ecoId: string): Promise<ECOChange[]> {
+    const result = await this.executeQuery<ECOChange>(
+      `SELECT ${CHANGE_COLUMNS}
+       FROM eco_changes c
+       ${CHANGE_JOINS}
+       WHERE c.eco_id = $1 AND c.is_active = true
+       ORDER BY c.created_at ASC`,
+      [ecoId]
+    );
+    return result.rows;
+  }
+
+  private async findChange(ecoId: string, changeId: string): Promise<ECOChange | null> {
+    const result = await this.executeQuery<ECOChange>(
+      `SELECT ${CHANGE_COLUMNS}
+       FROM eco_changes c
+       ${CHANGE_JOINS}
+       WHERE c.id = $1 AND c.eco_id = $2 AND c.is_active = true`,
+      [changeId, ecoId]
+    );
+    return result.rows[0] || null;
+  }
+
+  private async findEditableECO(id: string): Promise<ECO | null> {
+    const result = await this.executeQuery<ECO>(
+      `SELECT ${ECO_COLUMNS} FROM ecos WHERE id = $1 AND is_active = true`,
+      [id]
+    );
+    const eco = result.rows[0];
+    if (eco && eco.status !== 'DRAFT') {
+      throw new Error(`ECO ${eco.ecoNumber} is ${eco.status} and cannot be modified`);
+    }
+    return eco || null;
+  }
+
+  private async assertNewVersionAvailable(
+    changeType: ECOChangeTypeType,
+    productId: string,
+    version: string
+  ): Promise<void> {
+    const table = changeType === 'BOM' ? 'boms' : 'routings';
+    const existing = await this.executeQuery(
+      `SELECT id FROM ${table} WHERE product_id = $1 AND version = $2`,
+      [productId, version]
+    );
+    if (existing.rows.length > 0) {
+      throw new Error(`${changeType === 'BOM' ? 'BOM' : 'Routing'} version '${version}' already exists for this product`);
+    }
+  }
+}
@@ -0,0 +1,1179 @@
+import { Pool, PoolClient } from 'pg';
+import {
+  LicensePlate,
+  LicensePlateContent,
+  LicensePlateEvent,
+  LicensePlateEventTypeType,
+  LicensePlateTotal,
+  LicensePlateTree,
+  LicensePlateTypeType,
+} from '@akazify/core-domain';
+import { BaseRepository, PaginatedResult, PaginationOptions } from './base';
+import { LocationRepository, PutawayQuantity } from './location.repository';
+import { LotRepository } from './lot.repository';
+import { UoMRepository } from './uom.repository';
+
+/**
+ * License plate filter options
+ */
+export interface LicensePlateFilterOptions {
+  lpNumber?: string;
+  lpType?: LicensePlateTypeType;
+  locationId?: string;
+  binId?: string;
+  parentLicensePlateId?: string;
+  topLevel?: boolean;
+}
+
+/**
+ * A new license plate. Without a number one is generated; a nested plate
+ * takes the place of its parent.
+ */
+export interface NewLicensePlate {
+  lpNumber?: string;
+  lpType?: LicensePlateTypeType;
+  parentLicensePlateId?: string;
+  locationId?: string;
+  binId?: string;
+  createdBy?: string;
+}
+
+/**
+ * Lot quantity or serial to pack on, unpack from or split off a plate. The
+ * quantity is in the given unit, or the lot's; unpacking and splitting
+ * default to all of the lot on the plate.
+ */
+export interface LicensePlateContentInput {
+  lotId?: string;
+  serialNumberId?: string;
+  quantity?: number;
+  uom?: string;
+}
+
+/**
+ * Locked plate row, as read inside a transaction
+ */
+interface PlateRow {
+  id: string;
+  lpNumber: string;
+  lpType: LicensePlateTypeType;
+  parentLicensePlateId: string | null;
+  locationId: string | null;
+  binId: string | null;
+}
+
+/**
+ * Storage place of a plate, lot or serial
+ */
+interface Place {
+  locationId?: string | null;
+  binId?: string | null;
+}
+
+const SORT_COLUMNS: Record<string, string> = {
+  lpNumber: 'lp.lp_number',
+  lpType: 'lp.lp_type',
+  createdAt: 'lp.created_at',
+};
+
+const PLATE_COLUMNS = `
+  lp.id,
+  lp.lp_number as "lpNumber",
+  lp.lp_type as "lpType",
+  lp.parent_license_plate_id as "parentLicensePlateId",
+  parent.lp_number as "parentLpNumber",
+  lp.location_id as "locationId",
+  l.code as "locationCode",
+  lp.bin_id as "binId",
+  b.code as "binCode",
+  lp.is_active as "isActive",
+  lp.created_at as "createdAt",
+  lp.updated_at as "updatedAt",
+  lp.version
+`;
+
+const PLATE_JOINS = `
+  LEFT JOIN license_plates parent ON lp.parent_license_plate_id = parent.id
+  LEFT JOIN locations l ON lp.location_id = l.id
+  LEFT JOIN bins b ON lp.bin_id = b.id
+`;
+
+const CONTENT_COLUMNS = `
+  lpc.id,
+  lpc.license_plate_id as "licensePlateId",
+  lpc.product_id as "productId",
+  p.sku,
+  lpc.lot_id as "lotId",
+  lo.lot_number as "lotNumber",
+  lpc.serial_number_id as "serialNumberId",
+  sn.serial_number as "serialNumber",
+  lpc.quantity::float8 as quantity,
+  lpc.uom
+`;
+
+const CONTENT_JOINS = `
+  INNER JOIN products p ON lpc.product_id = p.id
+  LEFT JOIN lots lo ON lpc.lot_id = lo.id
+  LEFT JOIN serial_numbers sn ON lpc.serial_number_id = sn.id
+`;
+
+// The plate given as $1 and the active plates nested in it, at any depth
+const PLATE_TREE = `
+  WITH RECURSIVE tree AS (
+    SELECT id FROM license_plates WHERE id = $1
+    UNION
+    SELECT c.id
+    FROM license_plates c
+    INNER JOIN tree t ON c.parent_license_plate_id = t.id
+    WHERE c.is_active = true
+  )
+`;
+
+/**
+ * Round to the 4 decimal places of the quantity columns
+ */
+function roundQuantity(value: number): number {
+  return Math.round(value * 1e4) / 1e4;
+}
+
+/**
+ * Whether two places are the same location and bin
+ */
+function samePlace(a: Place, b: Place): boolean {
+  return (a.locationId ?? null) === (b.locationId ?? null) && (a.binId ?? null) === (b.binId ?? null);
+}
+
+/**
+ * License plate repository. Plates hold lot quantities and serials at their
+ * place and may be nested; a nested plate moves with the plate it is in.
+ * Packed lot quantity stays part of the lot but sits at the plate's place,
+ * and only the rest of the lot is loose at the lot's own place. Every change
+ * is kept as a license plate event.
+ */
+export class LicensePlateRepository extends BaseRepository<LicensePlate> {
+  private locationRepository: LocationRepository;
+  private lotRepository: LotRepository;
+  private uomRepository: UoMRepository;
+
+  constructor(pool: Pool) {
+    super(pool, 'license_plates');
+    this.locationRepository = new LocationRepository(pool);
+    this.lotRepository = new LotRepository(pool);
+    this.uomRepository = new UoMRepository(pool);
+  }
+
+  /**
+   * Find license plates with filtering and pagination
+   */
+  async findLicensePlates(
+    options: PaginationOptions = {},
+    filters: LicensePlateFilterOptions = {}
+  ): Promise<PaginatedResult<LicensePlate>> {
+    const { page = 1, limit = 50, sortBy = 'createdAt', sortOrder = 'DESC' } = options;
+    const conditions: string[] = ['lp.is_active = true'];
+    const params: any[] = [];
+
+    if (filters.lpNumber) {
+      params.push(`%${filters.lpNumber}%`);
+      conditions.push(`lp.lp_number ILIKE $${params.length}`);
+    }
+
+    if (filters.lpType) {
+      params.push(filters.lpType);
+      conditions.push(`lp.lp_type = $${params.length}`);
+    }
+
+    if (filters.locationId) {
+      params.push(filters.locationId);
+      conditions.push(`lp.location_id = $${params.length}`);
+    }
+
+    if (filters.binId) {
+      params.push(filters.binId);
+      conditions.push(`lp.bin_id = $${params.length}`);
+    }
+
+    if (filters.parentLicensePlateId) {
+      params.push(filters.parentLicensePlateId);
+      conditions.push(`lp.parent_license_plate_id = $${params.length}`);
+    }
+
+    if (filters.topLevel) {
+      conditions.push('lp.parent_license_plate_id IS NULL');
+    }
+
+    const whereClause = `WHERE ${conditions.join(' AND ')}`;
+    const countResult = await this.executeQuery<{ total: string }>(
+      `SELECT COUNT(*) as total FROM license_plates lp ${whereClause}`,
+      params
+    );
+    const total = parseInt(countResult.rows[0]?.total || '0');
+
+    const orderBy = SORT_COLUMNS[sortBy] || SORT_COLUMNS.createdAt;
+    const dataResult = await this.executeQuery<LicensePlate>(
+      `SELECT ${PLATE_COLUMNS}
+       FROM license_plates lp
+       ${PLATE_JOINS}
+       ${whereClause}
+       ORDER BY ${orderBy} ${sortOrder === 'ASC' ? 'ASC' : 'DESC'}, lp.lp_number ASC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, (page - 1) * limit]
+    );
+
+    const totalPages = Math.ceil(total / limit);
+    return {
+      data: dataResult.rows,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Find an active license plate by ID
+   */
+  async findById(id: string): Promise<LicensePlate | null> {
+    const result = await this.executeQuery<LicensePlate>(
+      `SELECT ${PLATE_COLUMNS} FROM license_plates lp ${PLATE_JOINS} WHERE lp.id = $1 AND lp.is_active = true`,
+      [id]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Find an active license plate by exact number, as scanned, with its
+   * contents and nested plates
+   */
+  async findByLpNumber(lpNumber: string): Promise<LicensePlateTree | null> {
+    const result = await this.executeQuery<{ id: string }>(
+      `SELECT id FROM license_plates WHERE lp_number = $1 AND is_active = true`,
+      [lpNumber.trim()]
+    );
+    if (result.rows.length === 0) {
+      return null;
+    }
+    return this.getTree(result.rows[0].id);
+  }
+
+  /**
+   * A license plate with its contents and nested plates. Each plate's
+   * totals cover its own contents and those of the plates nested in it, in
+   * each product's stocking unit.
+   */
+  async getTree(id: string): Promise<LicensePlateTree | null> {
+    const plate = await this.findById(id);
+    if (!plate) {
+      return null;
+    }
+
+    const [plateResult, contentResult] = await Promise.all([
+      this.executeQuery<LicensePlate>(
+        `${PLATE_TREE}
+         SELECT ${PLATE_COLUMNS}
+         FROM license_plates lp
+         ${PLATE_JOINS}
+         WHERE lp.id IN (SELECT id FROM tree) AND lp.id <> $1
+         ORDER BY lp.lp_number ASC`,
+        [id]
+      ),
+      this.executeQuery<LicensePlateContent & { productUom: string }>(
+        `${PLATE_TREE}
+         SELECT ${CONTENT_COLUMNS}, p.uom as "productUom"
+         FROM license_plate_contents lpc
+         ${CONTENT_JOINS}
+         WHERE lpc.license_plate_id IN (SELECT id FROM tree)
+         ORDER BY p.sku ASC, lo.lot_number ASC, sn.serial_number ASC`,
+        [id]
+      ),
+    ]);
+
+    const nodes = new Map<string, LicensePlateTree>();
+    for (const row of [plate, ...plateResult.rows]) {
+      nodes.set(row.id, { ...row, contents: [], children: [], totals: [] });
+    }
+    for (const row of plateResult.rows) {
+      nodes.get(row.parentLicensePlateId!)?.children.push(nodes.get(row.id)!);
+    }
+    for (const { productUom, ...content } of contentResult.rows) {
+      nodes.get(content.licensePlateId)!.contents.push(content);
+    }
+
+    const productUoms = new Map(contentResult.rows.map((row) => [row.productId, row.productUom]));
+
+    // Totals from the bottom up: own contents plus each nested plate's totals
+    const rollUp = async (node: LicensePlateTree): Promise<LicensePlateTotal[]> => {
+      const totals = new Map<string, LicensePlateTotal>();
+      const add = (productId: string, sku: string, quantity: number) => {
+        const total = totals.get(productId) || { productId, sku, uom: productUoms.get(productId)!, quantity: 0 };
+        total.quantity = roundQuantity(total.quantity + quantity);
+        totals.set(productId, total);
+      };
+
+      for (const content of node.contents) {
+        const converted = await this.uomRepository.convert(
+          content.quantity,
+          content.uom,
+          productUoms.get(content.productId)!,
+          content.productId
+        );
+        add(content.productId, content.sku, converted.convertedQuantity);
+      }
+      for (const child of node.children) {
+        for (const total of await rollUp(child)) {
+          add(total.productId, total.sku, total.quantity);
+        }
+      }
+
+      node.totals = Array.from(totals.values()).sort((a, b) => a.sku.localeCompare(b.sku));
+      return node.totals;
+    };
+
+    const root = nodes.get(id)!;
+    await rollUp(root);
+    return root;
+  }
+
+  /**
+   * Create a license plate, empty
+   */
+  async createLicensePlate(data: NewLicensePlate): Promise<LicensePlate> {
+    let place: Place;
+    if (data.parentLicensePlateId) {
+      if (data.locationId || data.binId) {
+        throw new Error('Validation failed: a nested license plate takes the place of its parent');
+      }
+      const parent = await this.findById(data.parentLicensePlateId);
+      if (!parent) {
+        throw new Error(`License plate with ID ${data.parentLicensePlateId} does not exist`);
+      }
+      place = { locationId: parent.locationId, binId: parent.binId };
+    } else {
+      place = await this.locationRepository.resolvePlace(data.locationId, data.binId);
+    }
+
+    const client = await this.beginTransaction();
+    let id: string;
+    try {
+      id = await this.insertPlate(client, { ...data, ...place });
+      await this.commitTransaction(client);
+    } catch (error) {
+      await this.rollbackTransaction(client);
+      throw error;
+    }
+
+    return (await this.findById(id))!;
+  }
+
+  /**
+   * Check if a license plate can be deleted
+   */
+  async canDelete(id: string): Promise<{ canDelete: boolean; reason?: string }> {
+    const contents = await this.executeQuery(
+      `SELECT 1 FROM license_plate_contents WHERE license_plate_id = $1 LIMIT 1`,
+      [id]
+    );
+    if (contents.rows.length > 0) {
+      return { canDelete: false, reason: 'License plate is not empty; unpack it first' };
+    }
+
+    const children = await this.executeQuery(
+      `SELECT 1 FROM license_plates WHERE parent_license_plate_id = $1 AND is_active = true LIMIT 1`,
+      [id]
+    );
+    if (children.rows.length > 0) {
+      return { canDelete: false, reason: 'License plate has nested license plates' };
+    }
+
+    return { canDelete: true };
+  }
+
+  /**
+   * Pack a lot quantity or a serial on a plate. It must be at the plate's
+   * place; an empty top-level plate without a place takes the place of the
+   * first thing packed on it. Lot quantity must be loose, and a serial must
+   * be in stock, outside a lot and not on another plate.
+   */
+  async pack(
+    id: string,
+    input: LicensePlateContentInput,
+    options: { packedBy?: string } = {}
+  ): Promise<LicensePlateTree | null> {
+    const plate = await this.findById(id);
+    if (!plate) {
+      return null;
+    }
+
+    if (!input.lotId === !input.serialNumberId) {
+      throw new Error('Validation failed: give either a lotId or a serialNumberId');
+    }
+
+    const client = await this.beginTransaction();
+    try {
+      const current = await this.lock(client, id);
+      if (input.lotId) {
+        await this.packLot(client, current, input.lotId, input, options.packedBy);
+      } else {
+        await this.packSerial(client, current, input.serialNumberId!, options.packedBy);
+      }
+      await this.commitTransaction(client);
+    } catch (error) {
+      await this.rollbackTransaction(client);
+      throw error;
+    }
+
+    return this.getTree(id);
+  }
+
+  /**
+   * Unpack a lot quantity or a serial from a plate, leaving it loose at the
+   * plate's place. Lot quantity can only be left loose where the rest of the
+   * lot is; a lot with nothing loose is transferred to the plate's place.
+   */
+  async unpack(
+    id: string,
+    input: LicensePlateContentInput,
+    options: { unpackedBy?: string } = {}
+  ): Promise<LicensePlateTree | null> {
+    const plate = await this.findById(id);
+    if (!plate) {
+      return null;
+    }
+
+    if (!input.lotId === !input.serialNumberId) {
+      throw new Error('Validation failed: give either a lotId or a serialNumberId');
+    }
+
+    const client = await this.beginTransaction();
+    try {
+      const current = await this.lock(client, id);
+      const taken = await this.takeContent(client, current, input);
+
+      if (input.lotId) {
+        const lot = await this.lockLot(client, input.lotId);
+        if (!samePlace(lot, current)) {
+          const loose = roundQuantity(lot.quantity - (await this.packedQuantity(client, input.lotId)) - taken.quantity);
+          if (loose > 0) {
+            throw new Error(
+              `Validation failed: lot ${lot.lotNumber} is loose at another place; unpack it where the rest of the lot is`
+            );
+          }
+          await this.lotRepository.post(client, {
+            lotId: input.lotId,
+            transactionType: 'TRANSFER',
+            quantity: 0,
+            toLocationId: current.locationId ?? undefined,
+            toBinId: current.binId ?? undefined,
+            referenceType: 'LICENSE_PLATE',
+            referenceId: id,
+            reason: `Unpacked from license plate ${current.lpNumber}`,
+            performedBy: options.unpackedBy,
+          });
+        }
+      }
+
+      await this.recordEvent(client, current, 'UNPACKED', { ...taken, performedBy: options.unpackedBy });
+      await this.commitTransaction(client);
+    } catch (error) {
+      await this.rollbackTransaction(client);
+      throw error;
+    }
+
+    return this.getTree(id);
+  }
+
+  /**
+   * Move a top-level plate, with everything on it and nested in it, to a
+   * location or bin. A bin must have room for all of it. Each packed lot
+   * gets a transfer on its ledger; a lot with nothing loose or packed
+   * elsewhere moves with the plate.
+   */
+  async move(
+    id: string,
+    destination: { locationId?: string; binId?: string },
+    options: { movedBy?: string } = {}
+  ): Promise<LicensePlateTree | null> {
+    const plate = await this.findById(id);
+    if (!plate) {
+      return null;
+    }
+
+    if (plate.parentLicensePlateId) {
+      throw new Error(
+        `Validation failed: license plate ${plate.lpNumber} is nested in ${plate.parentLpNumber}; unnest it or move ${plate.parentLpNumber}`
+      );
+    }
+    if (!destination.locationId && !destination.binId) {
+      throw new Error('Validation failed: a move needs a locationId or binId');
+    }
+    const place = await this.locationRepository.resolvePlace(destination.locationId, destination.binId);
+    if (samePlace(place, plate)) {
+      throw new Error(`Validation failed: license plate ${plate.lpNumber} is already there`);
+    }
+
+    const client = await this.beginTransaction();
+    try {
+      const current = await this.lock(client, id);
+      const toLocationId = place.locationId ?? null;
+      const toBinId = place.binId ?? null;
+
+      if (place.binId) {
+        await this.locationRepository.lockBin(client, place.binId);
+        const putaway = await client.query<PutawayQuantity>(
+          `${PLATE_TREE}
+           SELECT product_id as "productId", quantity::float8 as quantity, uom
+           FROM license_plate_contents
+           WHERE license_plate_id IN (SELECT id FROM tree)`,
+          [id]
+        );
+        if (putaway.rows.length > 0) {
+          await this.locationRepository.assertCapacity(place.binId, putaway.rows);
+        }
+      }
+
+      const packedLots = await client.query<{ lotId: string; quantity: number }>(
+        `${PLATE_TREE}
+         SELECT lot_id as "lotId", SUM(quantity)::float8 as quantity
+         FROM license_plate_contents
+         WHERE license_plate_id IN (SELECT id FROM tree) AND lot_id IS NOT NULL
+         GROUP BY lot_id
+         ORDER BY lot_id`,
+        [id]
+      );
+      for (const packed of packedLots.rows) {
+        const lot = await this.lockLot(client, packed.lotId);
+        const elsewhere = roundQuantity(lot.quantity - packed.quantity) > 0;
+        await this.lotRepository.post(client, {
+          lotId: packed.lotId,
+          transactionType: 'TRANSFER',
+          quantity: 0,
+          toLocationId: place.locationId,
+          toBinId: place.binId,
+          packedFrom: elsewhere
+            ? { locationId: current.locationId ?? undefined, binId: current.binId ?? undefined }
+            : undefined,
+          referenceType: 'LICENSE_PLATE',
+          referenceId: id,
+          reason: `Moved on license plate ${current.lpNumber}`,
+          performedBy: options.movedBy,
+        });
+      }
+
+      // Packed serials move with the plate and keep a history of their own
+      await client.query(
+        `${PLATE_TREE}
+         INSERT INTO serial_number_events
+           (serial_number_id, event_type, from_status, to_status, from_location_id, from_bin_id,
+            to_location_id, to_bin_id, reason, performed_by)
+         SELECT sn.id, 'MOVED', sn.status, sn.status, sn.location_id, sn.bin_id, $2, $3, $4, $5
+         FROM serial_numbers sn
+         INNER JOIN license_plate_contents lpc ON lpc.serial_number_id = sn.id
+         WHERE lpc.license_plate_id IN (SELECT id FROM tree)`,
+        [id, toLocationId, toBinId, `Moved on license plate ${current.lpNumber}`, options.movedBy]
+      );
+      await client.query(
+        `${PLATE_TREE}
+         UPDATE serial_numbers
+         SET location_id = $2, bin_id = $3, version = version + 1
+         WHERE id IN (
+           SELECT serial_number_id FROM license_plate_contents WHERE license_plate_id IN (SELECT id FROM tree)
+         )`,
+        [id, toLocationId, toBinId]
+      );
+      await client.query(
+        `${PLATE_TREE}
+         UPDATE license_plates
+         SET location_id = $2, bin_id = $3, version = version + 1
+         WHERE id IN (SELECT id FROM tree)`,
+        [id, toLocationId, toBinId]
+      );
+      await this.recordEvent(client, current, 'MOVED', {
+        toLocationId,
+        toBinId,
+        performedBy: options.movedBy,
+      });
+
+      await this.commitTransaction(client);
+    } catch (error) {
+      await this.rollbackTransaction(client);
+      throw error;
+    }
+
+    return this.getTree(id);
+  }
+
+  /**
+   * Nest a top-level plate in another plate at the same place. An empty
+   * plate without a place takes the place of its parent.
+   */
+  async nest(id: string, parentId: string, options: { performedBy?: string } = {}): Promise<LicensePlateTree | null> {
+    const plate = await this.findById(id);
+    if (!plate) {
+      return null;
+    }
+
+    if (parentId === id) {
+      throw new Error(`Validation failed: license plate ${plate.lpNumber} cannot be nested in itself`);
+    }
+    const parent = await this.findById(parentId);
+    if (!parent) {
+      throw new Error(`License plate with ID ${parentId} does not exist`);
+    }
+
+    const client = await this.beginTransaction();
+    try {
+      const child = await this.lock(client, id);
+      const target = await this.lock(client, parentId);
+      if (child.parentLicensePlateId) {
+        throw new Error(`Validation failed: license plate ${child.lpNumber} is already nested; unnest it first`);
+      }
+      await this.assertNotInside(client, target, child);
+      await this.takePlace(client, child, target, `license plate ${target.lpNumber}`);
+
+      await client.query(
+        `UPDATE license_plates SET parent_license_plate_id = $2, version = version + 1 WHERE id = $1`,
+        [id, parentId]
+      );
+      await this.recordEvent(client, child, 'NESTED', {
+        relatedLicensePlateId: parentId,
+        performedBy: options.performedBy,
+      });
+
+      await this.commitTransaction(client);
+    } catch (error) {
+      await this.rollbackTransaction(client);
+      throw error;
+    }
+
+    return this.getTree(id);
+  }
+
+  /**
+   * Take a nested plate out of its parent, leaving it at the same place
+   */
+  async unnest(id: string, options: { performedBy?: string } = {}): Promise<LicensePlateTree | null> {
+    const plate = await this.findById(id);
+    if (!plate) {
+      return null;
+    }
+
+    const client = await this.beginTransaction();
+    try {
+      const current = await this.lock(client, id);
+      if (!current.parentLicensePlateId) {
+        throw new Error(`Validation failed: license plate ${current.lpNumber} is not nested`);
+      }
+
+      await client.query(
+        `UPDATE license_plates SET parent_license_plate_id = NULL, version = version + 1 WHERE id = $1`,
+        [id]
+      );
+      await this.recordEvent(client, current, 'UNNESTED', {
+        relatedLicensePlateId: current.parentLicensePlateId,
+        performedBy: options.performedBy,
+      });
+
+      await this.commitTransaction(client);
+    } catch (error) {
+      await this.rollbackTransaction(client);
+      throw error;
+    }
+
+    return this.getTree(id);
+  }
+
+  /**
+   * Split contents off a plate onto a new plate at the same place and in the
+   * same parent. Returns the new plate.
+   */
+  async split(
+    id: string,
+    data: { lpNumber?: string; lpType?: LicensePlateTypeType; contents: LicensePlateContentInput[]; performedBy?: string }
+  ): Promise<LicensePlateTree | null> {
+    const plate = await this.findById(id);
+    if (!plate) {
+      return null;
+    }
+
+    if (data.contents.length === 0) {
+      throw new Error('Validation failed: a split needs at least one lot or serial');
+    }
+    for (const content of data.contents) {
+      if (!content.lotId === !content.serialNumberId) {
+        throw new Error('Validation failed: give either a lotId or a serialNumberId for each content');
+      }
+    }
+
+    const client = await this.beginTransaction();
+    let newId: string;
+    try {
+      const source = await this.lock(client, id);
+      newId = await this.insertPlate(client, {
+        lpNumber: data.lpNumber,
+        lpType: data.lpType ?? source.lpType,
+        parentLicensePlateId: source.parentLicensePlateId ?? undefined,
+        locationId: source.locationId,
+        binId: source.binId,
+        createdBy: data.performedBy,
+      });
+
+      for (const content of data.contents) {
+        const taken = await this.takeContent(client, source, content);
+        if (taken.lotId) {
+          await this.addLot(client, newId, taken.lotId, taken.quantity);
+        } else {
+          await client.query(
+            `INSERT INTO license_plate_contents (license_plate_id, product_id, serial_number_id, quantity, uom)
+             SELECT $1, product_id, $2, 1, $3 FROM serial_numbers WHERE id = $2`,
+            [newId, taken.serialNumberId, taken.uom]
+          );
+        }
+        await this.recordEvent(client, source, 'SPLIT', {
+          ...taken,
+          relatedLicensePlateId: newId,
+          performedBy: data.performedBy,
+        });
+      }
+
+      await client.query(
+        `INSERT INTO license_plate_events (license_plate_id, event_type, related_license_plate_id, performed_by)
+         VALUES ($1, 'SPLIT', $2, $3)`,
+        [newId, id, data.performedBy]
+      );
+
+      await this.commitTransaction(client);
+    } catch (error) {
+      await this.rollbackTransaction(client);
+      throw error;
+    }
+
+    return this.getTree(newId);
+  }
+
+  /**
+   * Merge a plate into another at the same place: its lot quantities,
+   * serials and nested plates move onto the target, and it is retired
+   */
+  async merge(id: string, sourceId: string, options: { performedBy?: string } = {}): Promise<LicensePlateTree | null> {
+    const plate = await this.findById(id);
+    if (!plate) {
+      return null;
+    }
+
+    if (sourceId === id) {
+      throw new Error(`Validation failed: license plate ${plate.lpNumber} cannot be merged into itself`);
+    }
+    const sourcePlate = await this.findById(sourceId);
+    if (!sourcePlate) {
+      throw new Error(`License plate with ID ${sourceId} does not exist`);
+    }
+
+    const client = await this.beginTransaction();
+    try {
+      const target = await this.lock(client, id);
+      const source = await this.lock(client, sourceId);
+      await this.assertNotInside(client, target, source);
+      if (!samePlace(source, target)) {
+        throw new Error(
+          `Validation failed: license plates ${source.lpNumber} and ${target.lpNumber} are at different places; move ${source.lpNumber} first`
+        );
+      }
+
+      await client.query(
+        `INSERT INTO license_plate_contents (license_plate_id, product_id, lot_id, quantity, uom)
+         SELECT $1, product_id, lot_id, quantity, uom
+         FROM license_plate_contents
+         WHERE license_plate_id = $2 AND lot_id IS NOT NULL
+         ON CONFLICT (license_plate_id, lot_id)
+         DO UPDATE SET quantity = license_plate_contents.quantity + EXCLUDED.quantity`,
+        [id, sourceId]
+      );
+      await client.query(
+        `DELETE FROM license_plate_contents WHERE license_plate_id = $1 AND lot_id IS NOT NULL`,
+        [sourceId]
+      );
+      await client.query(
+        `UPDATE license_plate_contents SET license_plate_id = $2 WHERE license_plate_id = $1`,
+        [sourceId, id]
+      );
+      await client.query(
+        `UPDATE license_plates
+         SET parent_license_plate_id = $2, version = version + 1
+         WHERE parent_license_plate_id = $1 AND is_active = true`,
+        [sourceId, id]
+      );
+      await client.query(
+        `UPDATE license_plates SET is_active = false, version = version + 1 WHERE id = $1`,
+        [sourceId]
+      );
+
+      await this.recordEvent(client, target, 'MERGED', {
+        relatedLicensePlateId: sourceId,
+        performedBy: options.performedBy,
+      });
+      await this.recordEvent(client, source, 'MERGED', {
+        relatedLicensePlateId: id,
+        performedBy: options.performedBy,
+      });
+
+      await this.commitTransaction(client);
+    } catch (error) {
+      await this.rollbackTransaction(client);
+      throw error;
+    }
+
+    return this.getTree(id);
+  }
+
+  /**
+   * A plate's events, oldest first
+   */
+  async getHistory(id: string): Promise<LicensePlateEvent[] | null> {
+    const plate = await this.findById(id);
+    if (!plate) {
+      return null;
+    }
+
+    const result = await this.executeQuery<LicensePlateEvent>(
+      `SELECT id, license_plate_id as "licensePlateId", event_type as "eventType",
+              lot_id as "lotId", serial_number_id as "serialNumberId",
+              quantity::float8 as quantity, uom, related_license_plate_id as "relatedLicensePlateId",
+              from_location_id as "fromLocationId", from_bin_id as "fromBinId",
+              to_location_id as "toLocationId", to_bin_id as "toBinId",
+              performed_by as "performedBy", created_at as "createdAt"
+       FROM license_plate_events
+       WHERE license_plate_id = $1
+       ORDER BY created_at ASC`,
+      [id]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Insert a plate with its creation event, generating its number
+   * (format: LP-YYYY-NNNNNN) when none is given
+   */
+  private async insertPlate(
+    client: PoolClient,
+    data: Omit<NewLicensePlate, 'locationId' | 'binId'> & Place
+  ): Promise<string> {
+    let lpNumber = data.lpNumber?.trim();
+    if (lpNumber) {
+      const existing = await client.query(`SELECT id FROM license_plates WHERE lp_number = $1`, [lpNumber]);
+      if (existing.rows.length > 0) {
+        throw new Error(`License plate ${lpNumber} already exists`);
+      }
+    } else {
+      const year = new Date().getFullYear();
+      const countResult = await client.query(
+        `SELECT COUNT(*) as count FROM license_plates WHERE lp_number LIKE 'LP-${year}-%'`
+      );
+      const nextNumber = parseInt(countResult.rows[0].count) + 1;
+      lpNumber = `LP-${year}-${nextNumber.toString().padStart(6, '0')}`;
+    }
+
+    const inserted = await client.query(
+      `INSERT INTO license_plates (lp_number, lp_type, parent_license_plate_id, location_id, bin_id)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING id`,
+      [lpNumber, data.lpType ?? 'PALLET', data.parentLicensePlateId, data.locationId ?? null, data.binId ?? null]
+    );
+    const id = inserted.rows[0].id;
+    await client.query(
+      `INSERT INTO license_plate_events (license_plate_id, event_type, to_location_id, to_bin_id, performed_by)
+       VALUES ($1, 'CREATED', $2, $3, $4)`,
+      [id, data.locationId ?? null, data.binId ?? null, data.createdBy]
+    );
+    return id;
+  }
+
+  /**
+   * Pack loose lot quantity, converted to the lot's unit
+   */
+  private async packLot(
+    client: PoolClient,
+    plate: PlateRow,
+    lotId: string,
+    input: LicensePlateContentInput,
+    performedBy?: string
+  ): Promise<void> {
+    if (input.quantity === undefined || input.quantity <= 0) {
+      throw new Error('Validation failed: packing a lot needs a positive quantity');
+    }
+
+    const lot = await this.lockLot(client, lotId);
+    if (lot.status === 'CONSUMED') {
+      throw new Error(`Validation failed: lot ${lot.lotNumber} is CONSUMED`);
+    }
+
+    const enteredUom = input.uom ? await this.uomRepository.resolveCode(input.uom) : lot.uom;
+    const converted = await this.uomRepository.convert(input.quantity, enteredUom, lot.uom, lot.productId);
+    const quantity = roundQuantity(converted.convertedQuantity);
+    const loose = roundQuantity(lot.quantity - (await this.packedQuantity(client, lotId)));
+    if (quantity > loose) {
+      throw new Error(
+        `Validation failed: lot ${lot.lotNumber} has ${loose} ${lot.uom} loose; ${quantity} ${lot.uom} requested`
+      );
+    }
+    await this.takePlace(client, plate, lot, `lot ${lot.lotNumber}`);
+
+    await this.addLot(client, plate.id, lotId, quantity);
+    await this.recordEvent(client, plate, 'PACKED', { lotId, quantity, uom: lot.uom, performedBy });
+  }
+
+  /**
+   * Pack a serial that is in stock, outside a lot and not on a plate
+   */
+  private async packSerial(client: PoolClient, plate: PlateRow, serialNumberId: string, performedBy?: string): Promise<void> {
+    const serialResult = await client.query(
+      `SELECT sn.serial_number as "serialNumber", sn.product_id as "productId", sn.lot_id as "lotId", sn.status,
+              sn.location_id as "locationId", sn.bin_id as "binId", p.uom
+       FROM serial_numbers sn
+       INNER JOIN products p ON sn.product_id = p.id
+       WHERE sn.id = $1 AND sn.is_active = true
+       FOR UPDATE OF sn`,
+      [serialNumberId]
+    );
+    const serial = serialResult.rows[0];
+    if (!serial) {
+      throw new Error(`Serial number with ID ${serialNumberId} does not exist`);
+    }
+    if (serial.status !== 'AVAILABLE' && serial.status !== 'ALLOCATED') {
+      throw new Error(`Validation failed: serial ${serial.serialNumber} is ${serial.status}`);
+    }
+    if (serial.lotId) {
+      throw new Error(`Validation failed: serial ${serial.serialNumber} is in a lot; pack the lot quantity instead`);
+    }
+
+    const packed = await client.query(
+      `SELECT lp.lp_number
+       FROM license_plate_contents lpc
+       INNER JOIN license_plates lp ON lpc.license_plate_id = lp.id
+       WHERE lpc.serial_number_id = $1`,
+      [serialNumberId]
+    );
+    if (packed.rows.length > 0) {
+      throw new Error(
+        `Validation failed: serial ${serial.serialNumber} is already packed on license plate ${packed.rows[0].lp_number}`
+      );
+    }
+    await this.takePlace(client, plate, serial, `serial ${serial.serialNumber}`);
+
+    await client.query(
+      `INSERT INTO license_plate_contents (license_plate_id, product_id, serial_number_id, quantity, uom)
+       VALUES ($1, $2, $3, 1, $4)`,
+      [plate.id, serial.productId, serialNumberId, serial.uom]
+    );
+    await this.recordEvent(client, plate, 'PACKED', { serialNumberId, quantity: 1, uom: serial.uom, performedBy });
+  }
+
+  /**
+   * Take a lot quantity or serial off a plate. Lot quantity is converted to
+   * the lot's unit and defaults to all of the lot on the plate.
+   */
+  private async takeContent(
+    client: PoolClient,
+    plate: PlateRow,
+    input: LicensePlateContentInput
+  ): Promise<{ lotId?: string; serialNumberId?: string; quantity: number; uom: string }> {
+    if (input.serialNumberId) {
+      const removed = await client.query(
+        `DELETE FROM license_plate_contents
+         WHERE license_plate_id = $1 AND serial_number_id = $2
+         RETURNING uom`,
+        [plate.id, input.serialNumberId]
+      );
+      if (removed.rows.length === 0) {
+        throw new Error(`Validation failed: the serial is not on license plate ${plate.lpNumber}`);
+      }
+      return { serialNumberId: input.serialNumberId, quantity: 1, uom: removed.rows[0].uom };
+    }
+
+    const contentResult = await client.query(
+      `SELECT lpc.id, lpc.product_id as "productId", lpc.quantity::float8 as quantity, lpc.uom, lo.lot_number as "lotNumber"
+       FROM license_plate_contents lpc
+       INNER JOIN lots lo ON lpc.lot_id = lo.id
+       WHERE lpc.license_plate_id = $1 AND lpc.lot_id = $2
+       FOR UPDATE OF lpc`,
+      [plate.id, input.lotId]
+    );
+    const content = contentResult.rows[0];
+    if (!content) {
+      throw new Error(`Validation failed: the lot is not on license plate ${plate.lpNumber}`);
+    }
+
+    let quantity = content.quantity;
+    if (input.quantity !== undefined) {
+      const enteredUom = input.uom ? await this.uomRepository.resolveCode(input.uom) : content.uom;
+      const converted = await this.uomRepository.convert(input.quantity, enteredUom, content.uom, content.productId);
+      quantity = roundQuantity(converted.convertedQuantity);
+    }
+    if (quantity <= 0 || quantity > content.quantity) {
+      throw new Error(
+        `Validation failed: license plate ${plate.lpNumber} holds ${content.quantity} ${content.uom} of lot ${content.lotNumber}; ${quantity} ${content.uom} requested`
+      );
+    }
+
+    if (quantity === content.quantity) {
+      await client.query(`DELETE FROM license_plate_contents WHERE id = $1`, [content.id]);
+    } else {
+      await client.query(
+        `UPDATE license_plate_contents SET quantity = $2 WHERE id = $1`,
+        [content.id, roundQuantity(content.quantity - quantity)]
+      );
+    }
+    return { lotId: input.lotId, quantity, uom: content.uom };
+  }
+
+  /**
+   * Add lot quantity, in the lot's unit, to a plate
+   */
+  private async addLot(client: PoolClient, plateId: string, lotId: string, quantity: number): Promise<void> {
+    await client.query(
+      `INSERT INTO license_plate_contents (license_plate_id, product_id, lot_id, quantity, uom)
+       SELECT $1, product_id, id, $3, uom FROM lots WHERE id = $2
+       ON CONFLICT (license_plate_id, lot_id)
+       DO UPDATE SET quantity = license_plate_contents.quantity + EXCLUDED.quantity`,
+      [plateId, lotId, quantity]
+    );
+  }
+
+  /**
+   * Check that something is at a plate's place. An empty top-level plate
+   * without a place takes its place instead.
+   */
+  private async takePlace(client: PoolClient, plate: PlateRow, place: Place, what: string): Promise<void> {
+    if (samePlace(plate, place)) {
+      return;
+    }
+
+    if (!plate.locationId && !plate.parentLicensePlateId) {
+      const held = await client.query(
+        `SELECT 1 FROM license_plate_contents WHERE license_plate_id = $1
+         UNION ALL
+         SELECT 1 FROM license_plates WHERE parent_license_plate_id = $1 AND is_active = true
+         LIMIT 1`,
+        [plate.id]
+      );
+      if (held.rows.length === 0) {
+        await client.query(
+          `UPDATE license_plates SET location_id = $2, bin_id = $3, version = version + 1 WHERE id = $1`,
+          [plate.id, place.locationId ?? null, place.binId ?? null]
+        );
+        plate.locationId = place.locationId ?? null;
+        plate.binId = place.binId ?? null;
+        return;
+      }
+    }
+
+    throw new Error(`Validation failed: ${what} is not at the place of license plate ${plate.lpNumber}`);
+  }
+
+  /**
+   * Reject nesting or merging a plate into one of the plates nested in it
+   */
+  private async assertNotInside(client: PoolClient, plate: PlateRow, container: PlateRow): Promise<void> {
+    const inside = await client.query(
+      `${PLATE_TREE} SELECT 1 FROM tree WHERE id = $2`,
+      [container.id, plate.id]
+    );
+    if (inside.rows.length > 0) {
+      throw new Error(`Validation failed: license plate ${plate.lpNumber} is inside ${container.lpNumber}`);
+    }
+  }
+
+  /**
+   * Quantity of a lot packed on license plates, in the lot's unit
+   */
+  private async packedQuantity(client: PoolClient, lotId: string): Promise<number> {
+    const result = await client.query(
+      `SELECT COALESCE(SUM(quantity), 0)::float8 as quantity FROM license_plate_contents WHERE lot_id = $1`,
+      [lotId]
+    );
+    return result.rows[0].quantity;
+  }
+
+  /**
+   * Lock a plate for update
+   */
+  private async lock(client: PoolClient, id: string): Promise<PlateRow> {
+    const result = await client.query(
+      `SELECT id, lp_number as "lpNumber", lp_type as "lpType", parent_license_plate_id as "parentLicensePlateId",
+              location_id as "locationId", bin_id as "binId"
+       FROM license_plates
+       WHERE id = $1 AND is_active = true
+       FOR UPDATE`,
+      [id]
+    );
+    if (result.rows.length === 0) {
+      throw new Error(`License plate with ID ${id} does not exist`);
+    }
+    return result.rows[0];
+  }
+
+  /**
+   * Lock a lot for update
+   */
+  private async lockLot(
+    client: PoolClient,
+    lotId: string
+  ): Promise<{ lotNumber: string; productId: string; quantity: number; uom: string; status: string } & Place> {
+    const result = await client.query(
+      `SELECT lot_number as "lotNumber", product_id as "productId", quantity::float8 as quantity, uom, status,
+              location_id as "locationId", bin_id as "binId"
+       FROM lots
+       WHERE id = $1 AND is_active = true
+       FOR UPDATE`,
+      [lotId]
+    );
+    if (result.rows.length === 0) {
+      throw new Error(`Lot with ID ${lotId} does not exist`);
+    }
+    return result.rows[0];
+  }
+
+  /**
+   * Record a plate event. Only moves change a plate's place.
+   */
+  private async recordEvent(
+    client: PoolClient,
+    plate: PlateRow,
+    eventType: LicensePlateEventTypeType,
+    details: {
+      lotId?: string;
+      serialNumberId?: string;
+      quantity?: number;
+      uom?: string;
+      relatedLicensePlateId?: string;
+      toLocationId?: string | null;
+      toBinId?: string | null;
+      performedBy?: string;
+    } = {}
+  ): Promise<void> {
+    const moves = eventType === 'MOVED';
+    await client.query(
+      `INSERT INTO license_plate_events
+         (license_plate_id, event_type, lot_id, serial_number_id, quantity, uom, related_license_plate_id,
+          from_location_id, from_bin_id, to_location_id, to_bin_id, performed_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+      [
+        plate.id,
+        eventType,
+        details.lotId,
+        details.serialNumberId,
+        details.quantity,
+        details.uom,
+        details.relatedLicensePlateId,
+        plate.locationId,
+        plate.binId,
+        moves ? details.toLocationId ?? null : plate.locationId,
+        moves ? details.toBinId ?? null : plate.binId,
+        details.performedBy,
+      ]
+    );
+  }
+}
@@ -0,0 +1,723 @@
+import { Pool, PoolClient } from 'pg';
+import {
+  Bin,
+  BinCapacity,
+  BinSummary,
+  Location,
+  LocationContents,
+  LocationLicensePlate,
+  LocationLot,
+  LocationSerial,
+  LocationTreeNode,
+  LocationTypeType,
+} from '@akazify/core-domain';
+import { BaseRepository } from './base';
+import { UoMRepository } from './uom.repository';
+
+/**
+ * Location filter options
+ */
+export interface LocationFilterOptions {
+  siteId?: string;
+  type?: LocationTypeType;
+  parentLocationId?: string;
+}
+
+/**
+ * Quantity to be put away, checked against a bin's capacity
+ */
+export interface PutawayQuantity {
+  productId: string;
+  quantity: number;
+  uom: string;
+}
+
+const LOCATION_COLUMNS = `
+  l.id,
+  l.site_id as "siteId",
+  l.name,
+  l.code,
+  l.type,
+  l.parent_location_id as "parentLocationId",
+  l.is_active as "isActive",
+  l.created_at as "createdAt",
+  l.updated_at as "updatedAt",
+  l.version
+`;
+
+const BIN_COLUMNS = `
+  b.id,
+  b.location_id as "locationId",
+  b.name,
+  b.code,
+  b.capacity::float8 as capacity,
+  b.capacity_uom as "capacityUom",
+  b.is_active as "isActive",
+  b.created_at as "createdAt",
+  b.updated_at as "updatedAt",
+  b.version
+`;
+
+/**
+ * Lots and serials still held in stock
+ */
+const STOCKED_LOT = `lo.is_active = true AND lo.quantity > 0 AND lo.status <> 'CONSUMED'`;
+const STOCKED_SERIAL = `sn.is_active = true AND sn.status NOT IN ('CONSUMED', 'SCRAPPED')`;
+
+// Quantity of a lot packed on license plates; the rest is loose at the lot's place
+const PACKED_LOT_QUANTITY = `(SELECT COALESCE(SUM(packed.quantity), 0) FROM license_plate_contents packed WHERE packed.lot_id = lo.id)`;
+
+/**
+ * Round to the 4 decimal places of the quantity columns
+ */
+function roundQuantity(value: number): number {
+  return Math.round(value * 1e4) / 1e4;
+}
+
+/**
+ * Inventory location repository. Locations form a tree within a site; bins
+ * are the storage slots of a location and may carry a capacity.
+ */
+export class LocationRepository extends BaseRepository<Location> {
+  private uomRepository: UoMRepository;
+
+  constructor(pool: Pool) {
+    super(pool, 'locations');
+    this.uomRepository = new UoMRepository(pool);
+  }
+
+  /**
+   * Find locations, optionally within a site, of a type or under a parent
+   */
+  async findLocations(filters: LocationFilterOptions = {}): Promise<Location[]> {
+    const conditions: string[] = ['l.is_active = true'];
+    const params: any[] = [];
+
+    if (filters.siteId) {
+      params.push(filters.siteId);
+      conditions.push(`l.site_id = $${params.length}`);
+    }
+
+    if (filters.type) {
+      params.push(filters.type);
+      conditions.push(`l.type = $${params.length}`);
+    }
+
+    if (filters.parentLocationId) {
+      params.push(filters.parentLocationId);
+      conditions.push(`l.parent_location_id = $${params.length}`);
+    }
+
+    const result = await this.executeQuery<Location>(
+      `SELECT ${LOCATION_COLUMNS}
+       FROM locations l
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY l.code ASC`,
+      params
+    );
+    return result.rows;
+  }
+
+  /**
+   * Find an active location by ID
+   */
+  async findById(id: string): Promise<Location | null> {
+    const result = await this.executeQuery<Location>(
+      `SELECT ${LOCATION_COLUMNS} FROM locations l WHERE l.id = $1 AND l.is_active = true`,
+      [id]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Build the location tree of a site, with the bins of each location
+   */
+  async getTree(siteId: string): Promise<LocationTreeNode[]> {
+    const site = await this.executeQuery(
+      `SELECT id FROM sites WHERE id = $1 AND is_active = true`,
+      [siteId]
+    );
+    if (site.rows.length === 0) {
+      throw new Error(`Site with ID ${siteId} not found`);
+    }
+
+    const [locationResult, binResult] = await Promise.all([
+      this.executeQuery<LocationTreeNode>(
+        `WITH RECURSIVE tree AS (
+           SELECT id, 0 AS level, code::text AS path
+           FROM locations
+           WHERE site_id = $1 AND parent_location_id IS NULL AND is_active = true
+           UNION ALL
+           SELECT l.id, t.level + 1, t.path || '/' || l.code
+           FROM locations l
+           INNER JOIN tree t ON l.parent_location_id = t.id
+           WHERE l.is_active = true
+         )
+         SELECT l.id, l.code, l.name, l.type, l.parent_location_id as "parentLocationId", t.level, t.path
+         FROM tree t
+         INNER JOIN locations l ON l.id = t.id
+         ORDER BY t.path ASC`,
+        [siteId]
+      ),
+      this.executeQuery<BinSummary & { locationId: string }>(
+        `SELECT b.id, b.location_id as "locationId", b.code, b.name,
+                b.capacity::float8 as capacity, b.capacity_uom as "capacityUom"
+         FROM bins b
+         INNER JOIN locations l ON b.location_id = l.id
+         WHERE l.site_id = $1 AND b.is_active = true
+         ORDER BY b.code ASC`,
+        [siteId]
+      ),
+    ]);
+
+    const nodes = new Map<string, LocationTreeNode>();
+    for (const row of locationResult.rows) {
+      nodes.set(row.id, { ...row, bins: [], children: [] });
+    }
+    for (const { locationId, ...bin } of binResult.rows) {
+      nodes.get(locationId)?.bins.push(bin);
+    }
+
+    // Rows are ordered by path, which keeps siblings sorted by code
+    const roots: LocationTreeNode[] = [];
+    for (const node of nodes.values()) {
+      const parent = node.parentLocationId ? nodes.get(node.parentLocationId) : undefined;
+      if (parent) {
+        parent.children.push(node);
+      } else {
+        roots.push(node);
+      }
+    }
+    return roots;
+  }
+
+  /**
+   * Create a location in a site, optionally under a parent location of the
+   * same site. Codes are unique per site.
+   */
+  async createLocation(data: {
+    siteId: string;
+    name: string;
+    code: string;
+    type: LocationTypeType;
+    parentLocationId?: string;
+  }): Promise<Location> {
+    const site = await this.executeQuery(
+      `SELECT id FROM sites WHERE id = $1 AND is_active = true`,
+      [data.siteId]
+    );
+    if (site.rows.length === 0) {
+      throw new Error(`Site with ID ${data.siteId} does not exist`);
+    }
+
+    const existing = await this.executeQuery(
+      `SELECT id FROM locations WHERE site_id = $1 AND code = $2`,
+      [data.siteId, data.code]
+    );
+    if (existing.rows.length > 0) {
+      throw new Error(`Location with code ${data.code} already exists in this site`);
+    }
+
+    if (data.parentLocationId) {
+      await this.assertParent(data.siteId, data.parentLocationId);
+    }
+
+    const result = await this.executeQuery<{ id: string }>(
+      `INSERT INTO locations (site_id, name, code, type, parent_location_id)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING id`,
+      [data.siteId, data.name, data.code, data.type, data.parentLocationId]
+    );
+    return (await this.findById(result.rows[0].id))!;
+  }
+
+  /**
+   * Update a location. Moving it under one of its own descendants is
+   * rejected; a null parent moves it to the top of the site.
+   */
+  async updateLocation(
+    id: string,
+    data: {
+      name?: string;
+      type?: LocationTypeType;
+      parentLocationId?: string | null;
+    }
+  ): Promise<Location | null> {
+    const current = await this.findById(id);
+    if (!current) {
+      return null;
+    }
+
+    if (data.parentLocationId) {
+      if (data.parentLocationId === id) {
+        throw new Error(`Circular reference: location ${current.code} cannot be its own parent`);
+      }
+      const parent = await this.assertParent(current.siteId, data.parentLocationId);
+
+      const cycle = await this.executeQuery(
+        `WITH RECURSIVE ancestors AS (
+           SELECT id, parent_location_id FROM locations WHERE id = $1
+           UNION
+           SELECT l.id, l.parent_location_id
+           FROM locations l
+           INNER JOIN ancestors a ON l.id = a.parent_location_id
+         )
+         SELECT 1 FROM ancestors WHERE id = $2`,
+        [data.parentLocationId, id]
+      );
+      if (cycle.rows.length > 0) {
+        throw new Error(`Circular reference: ${parent.code} is inside location ${current.code}`);
+      }
+    }
+
+    await this.executeQuery(
+      `UPDATE locations
+       SET name = COALESCE($2, name),
+           type = COALESCE($3, type),
+           parent_location_id = CASE WHEN $4 THEN $5::uuid ELSE parent_location_id END,
+           version = version + 1
+       WHERE id = $1`,
+      [id, data.name, data.type, data.parentLocationId !== undefined, data.parentLocationId ?? null]
+    );
+    return this.findById(id);
+  }
+
+  /**
+   * Check if a location can be deleted (no active child locations and no
+   * stock in it or its bins)
+   */
+  async canDelete(id: string): Promise<{ canDelete: boolean; reason?: string }> {
+    const children = await this.executeQuery<{ count: string }>(
+      `SELECT COUNT(*) as count FROM locations WHERE parent_location_id = $1 AND is_active = true`,
+      [id]
+    );
+    if (parseInt(children.rows[0].count) > 0) {
+      return { canDelete: false, reason: 'Cannot delete a location that has active child locations' };
+    }
+
+    if (await this.holdsStock('location', id)) {
+      return { canDelete: false, reason: 'Cannot delete a location that holds stock' };
+    }
+
+    return { canDelete: true };
+  }
+
+  /**
+   * Soft delete a location along with its bins
+   */
+  async deleteLocation(id: string): Promise<boolean> {
+    const client = await this.beginTransaction();
+    try {
+      const result = await client.query(
+        `UPDATE locations SET is_active = false WHERE id = $1 AND is_active = true`,
+        [id]
+      );
+      await client.query(
+        `UPDATE bins SET is_active = false WHERE location_id = $1 AND is_active = true`,
+        [id]
+      );
+      await this.commitTransaction(client);
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      await this.rollbackTransaction(client);
+      throw error;
+    }
+  }
+
+  /**
+   * List what a location holds: lots and serial-numbered items, loose or on
+   * license plates, and the plates themselves, with totals per product in
+   * its stocking unit. Child locations are included unless includeChildren
+   * is false.
+   */
+  async getContents(id: string, includeChildren: boolean = true): Promise<LocationContents | null> {
+    const location = await this.findById(id);
+    if (!location) {
+      return null;
+    }
+
+    const scope = `
+      WITH RECURSIVE scope AS (
+        SELECT id FROM locations WHERE id = $1
+        UNION
+        SELECT l.id
+        FROM locations l
+        INNER JOIN scope s ON l.parent_location_id = s.id
+        WHERE l.is_active = true AND $2::boolean
+      )`;
+
+    const [lotResult, serialResult, licensePlateResult] = await Promise.all([
+      this.executeQuery<LocationLot & { productUom: string }>(
+        `${scope}
+         SELECT lo.id as "lotId", lo.lot_number as "lotNumber", lo.product_id as "productId",
+                p.sku, p.uom as "productUom", (lo.quantity - ${PACKED_LOT_QUANTITY})::float8 as quantity,
+                lo.uom, lo.status, lo.expiry_date as "expiryDate",
+                NULL::uuid as "licensePlateId", NULL as "licensePlateNumber",
+                l.id as "locationId", l.code as "locationCode", b.id as "binId", b.code as "binCode"
+         FROM lots lo
+         INNER JOIN products p ON lo.product_id = p.id
+         LEFT JOIN bins b ON lo.bin_id = b.id
+         INNER JOIN locations l ON l.id = COALESCE(b.location_id, lo.location_id)
+         WHERE l.id IN (SELECT id FROM scope) AND ${STOCKED_LOT} AND lo.quantity > ${PACKED_LOT_QUANTITY}
+         UNION ALL
+         SELECT lo.id, lo.lot_number, lo.product_id,
+                p.sku, p.uom, lpc.quantity::float8,
+                lpc.uom, lo.status, lo.expiry_date,
+                lp.id, lp.lp_number,
+                l.id, l.code, b.id, b.code
+         FROM license_plate_contents lpc
+         INNER JOIN license_plates lp ON lpc.license_plate_id = lp.id
+         INNER JOIN lots lo ON lpc.lot_id = lo.id
+         INNER JOIN products p ON lo.product_id = p.id
+         LEFT JOIN bins b ON lp.bin_id = b.id
+         INNER JOIN locations l ON l.id = COALESCE(b.location_id, lp.location_id)
+         WHERE l.id IN (SELECT id FROM scope) AND lp.is_active = true
+         ORDER BY "locationCode" ASC, "binCode" ASC NULLS FIRST, sku ASC, "lotNumber" ASC, "licensePlateNumber" ASC NULLS FIRST`,
+        [id, includeChildren]
+      ),
+      this.executeQuery<LocationSerial & { productUom: string }>(
+        `${scope}
+         SELECT sn.id as "serialNumberId", sn.serial_number as "serialNumber", sn.product_id as "productId",
+                p.sku, p.uom as "productUom", sn.lot_id as "lotId", sn.status,
+                lp.id as "licensePlateId", lp.lp_number as "licensePlateNumber",
+                l.id as "locationId", l.code as "locationCode", b.id as "binId", b.code as "binCode"
+         FROM serial_numbers sn
+         INNER JOIN products p ON sn.product_id = p.id
+         LEFT JOIN license_plate_contents lpc ON lpc.serial_number_id = sn.id
+         LEFT JOIN license_plates lp ON lpc.license_plate_id = lp.id
+         LEFT JOIN bins b ON sn.bin_id = b.id
+         INNER JOIN locations l ON l.id = COALESCE(b.location_id, sn.location_id)
+         WHERE l.id IN (SELECT id FROM scope) AND ${STOCKED_SERIAL}
+         ORDER BY l.code ASC, b.code ASC NULLS FIRST, p.sku ASC, sn.serial_number ASC`,
+        [id, includeChildren]
+      ),
+      this.executeQuery<LocationLicensePlate>(
+        `${scope}
+         SELECT lp.id as "licensePlateId", lp.lp_number as "lpNumber", lp.lp_type as "lpType",
+                lp.parent_license_plate_id as "parentLicensePlateId",
+                l.id as "locationId", l.code as "locationCode", b.id as "binId", b.code as "binCode"
+         FROM license_plates lp
+         LEFT JOIN bins b ON lp.bin_id = b.id
+         INNER JOIN locations l ON l.id = COALESCE(b.location_id, lp.location_id)
+         WHERE l.id IN (SELECT id FROM scope) AND lp.is_active = true
+         ORDER BY l.code ASC, b.code ASC NULLS FIRST, lp.lp_number ASC`,
+        [id, includeChildren]
+      ),
+    ]);
+
+    // Serials in a lot are already counted in the lot's quantity
+    const totals = new Map<string, { productId: string; sku: string; uom: string; quantity: number }>();
+    const addToTotal = async (productId: string, sku: string, productUom: string, quantity: number, uom: string) => {
+      const converted = await this.uomRepository.convert(quantity, uom, productUom, productId);
+      const total = totals.get(productId) || { productId, sku, uom: productUom, quantity: 0 };
+      total.quantity = roundQuantity(total.quantity + converted.convertedQuantity);
+      totals.set(productId, total);
+    };
+
+    const lots: LocationLot[] = [];
+    for (const { productUom, ...lot } of lotResult.rows) {
+      await addToTotal(lot.productId, lot.sku, productUom, lot.quantity, lot.uom);
+      lots.push(lot);
+    }
+
+    const serialNumbers: LocationSerial[] = [];
+    for (const { productUom, ...serial } of serialResult.rows) {
+      if (!serial.lotId) {
+        await addToTotal(serial.productId, serial.sku, productUom, 1, productUom);
+      }
+      serialNumbers.push(serial);
+    }
+
+    return {
+      locationId: location.id,
+      locationCode: location.code,
+      includeChildren,
+      lots,
+      serialNumbers,
+      licensePlates: licensePlateResult.rows,
+      totals: Array.from(totals.values()).sort((a, b) => a.sku.localeCompare(b.sku)),
+    };
+  }
+
+  /**
+   * List the active bins of a location
+   */
+  async findBins(locationId: string): Promise<Bin[]> {
+    const result = await this.executeQuery<Bin>(
+      `SELECT ${BIN_COLUMNS}
+       FROM bins b
+       WHERE b.location_id = $1 AND b.is_active = true
+       ORDER BY b.code ASC`,
+      [locationId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Find an active bin by ID
+   */
+  async findBin(id: string): Promise<Bin | null> {
+    const result = await this.executeQuery<Bin>(
+      `SELECT ${BIN_COLUMNS} FROM bins b WHERE b.id = $1 AND b.is_active = true`,
+      [id]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Add a bin to a location. Codes are unique per location; a capacity is
+   * counted in EA unless another unit is given.
+   */
+  async createBin(
+    locationId: string,
+    data: { name: string; code: string; capacity?: number; capacityUom?: string }
+  ): Promise<Bin | null> {
+    const location = await this.findById(locationId);
+    if (!location) {
+      return null;
+    }
+
+    const existing = await this.executeQuery(
+      `SELECT id FROM bins WHERE location_id = $1 AND code = $2`,
+      [locationId, data.code]
+    );
+    if (existing.rows.length > 0) {
+      throw new Error(`Bin with code ${data.code} already exists in location ${location.code}`);
+    }
+
+    const capacityUom = data.capacity !== undefined
+      ? await this.uomRepository.resolveCode(data.capacityUom ?? 'EA')
+      : undefined;
+
+    const result = await this.executeQuery<{ id: string }>(
+      `INSERT INTO bins (location_id, name, code, capacity, capacity_uom)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING id`,
+      [locationId, data.name, data.code, data.capacity, capacityUom]
+    );
+    return this.findBin(result.rows[0].id);
+  }
+
+  /**
+   * Update a bin. A null capacity removes the limit; a capacity below the
+   * stock already in the bin is rejected.
+   */
+  async updateBin(
+    id: string,
+    data: { name?: string; capacity?: number | null; capacityUom?: string }
+  ): Promise<Bin | null> {
+    const current = await this.findBin(id);
+    if (!current) {
+      return null;
+    }
+
+    const capacity = (data.capacity === undefined ? current.capacity : data.capacity) ?? undefined;
+    const capacityUom = capacity === undefined
+      ? undefined
+      : await this.uomRepository.resolveCode(data.capacityUom ?? current.capacityUom ?? 'EA');
+
+    if (capacity !== undefined) {
+      const used = await this.binUsage(id, capacityUom!);
+      if (used > capacity) {
+        throw new Error(`Validation failed: bin ${current.code} already holds ${used} ${capacityUom}, above a capacity of ${capacity}`);
+      }
+    }
+
+    await this.executeQuery(
+      `UPDATE bins
+       SET name = COALESCE($2, name), capacity = $3, capacity_uom = $4, version = version + 1
+       WHERE id = $1`,
+      [id, data.name, capacity ?? null, capacityUom ?? null]
+    );
+    return this.findBin(id);
+  }
+
+  /**
+   * Check if a bin can be deleted (holds no stock)
+   */
+  async canDeleteBin(id: string): Promise<{ canDelete: boolean; reason?: string }> {
+    if (await this.holdsStock('bin', id)) {
+      return { canDelete: false, reason: 'Cannot delete a bin that holds stock' };
+    }
+    return { canDelete: true };
+  }
+
+  /**
+   * Soft delete a bin
+   */
+  async deleteBin(id: string): Promise<boolean> {
+    const result = await this.executeQuery(
+      `UPDATE bins SET is_active = false WHERE id = $1 AND is_active = true`,
+      [id]
+    );
+    return result.rowCount > 0;
+  }
+
+  /**
+   * Report a bin's used and available capacity, and whether the quantities
+   * to be put away would fit. Capacity only limits stock measurable in its
+   * unit; stock of another dimension (weight in a bin sized in units, say)
+   * does not count against it.
+   */
+  async checkCapacity(binId: string, putaway?: PutawayQuantity | PutawayQuantity[]): Promise<BinCapacity> {
+    const bin = await this.findBin(binId);
+    if (!bin) {
+      throw new Error(`Bin with ID ${binId} not found`);
+    }
+
+    if (!bin.capacity) {
+      return { binId, binCode: bin.code, fits: true };
+    }
+
+    const capacityUom = bin.capacityUom!;
+    const used = await this.binUsage(binId, capacityUom);
+    let requested: number | undefined;
+    if (putaway) {
+      requested = 0;
+      for (const entry of Array.isArray(putaway) ? putaway : [putaway]) {
+        requested += await this.toCapacityUnit(entry.quantity, entry.uom, capacityUom, entry.productId);
+      }
+      requested = roundQuantity(requested);
+    }
+    const available = roundQuantity(bin.capacity - used);
+
+    return {
+      binId,
+      binCode: bin.code,
+      capacity: bin.capacity,
+      capacityUom,
+      used,
+      available,
+      requested,
+      fits: available >= (requested ?? 0),
+    };
+  }
+
+  /**
+   * Lock a bin within the caller's transaction, so putaways into it are
+   * checked against its capacity one after another
+   */
+  async lockBin(client: PoolClient, binId: string): Promise<void> {
+    await client.query(`SELECT id FROM bins WHERE id = $1 FOR UPDATE`, [binId]);
+  }
+
+  /**
+   * Reject a putaway that would take a bin over its capacity
+   */
+  async assertCapacity(binId: string, putaway: PutawayQuantity | PutawayQuantity[]): Promise<void> {
+    const check = await this.checkCapacity(binId, putaway);
+    if (!check.fits) {
+      throw new Error(
+        `Validation failed: bin ${check.binCode} has room for ${Math.max(check.available!, 0)} ${check.capacityUom}, ${check.requested} requested`
+      );
+    }
+  }
+
+  /**
+   * Resolve a storage place. A bin implies its location; a location given
+   * alongside must match it.
+   */
+  async resolvePlace(locationId?: string, binId?: string): Promise<{ locationId?: string; binId?: string }> {
+    if (binId) {
+      const bin = await this.findBin(binId);
+      if (!bin) {
+        throw new Error(`Bin with ID ${binId} does not exist`);
+      }
+      if (locationId && locationId !== bin.locationId) {
+        throw new Error(`Validation failed: bin ${bin.code} is not in the given location`);
+      }
+      return { locationId: bin.locationId, binId };
+    }
+
+    if (locationId) {
+      const location = await this.findById(locationId);
+      if (!location) {
+        throw new Error(`Location with ID ${locationId} does not exist`);
+      }
+      return { locationId };
+    }
+
+    return {};
+  }
+
+  /**
+   * Stock in a bin, converted to the given unit: loose lot quantities, lot
+   * quantities on license plates in the bin, and serials outside a lot, each
+   * one of their product's stocking unit. Stock that does not convert to the
+   * unit is left out.
+   */
+  private async binUsage(binId: string, uom: string): Promise<number> {
+    const result = await this.executeQuery<{ productId: string; quantity: number; uom: string }>(
+      `SELECT lo.product_id as "productId", (lo.quantity - ${PACKED_LOT_QUANTITY})::float8 as quantity, lo.uom
+       FROM lots lo
+       WHERE lo.bin_id = $1 AND ${STOCKED_LOT}
+       UNION ALL
+       SELECT lpc.product_id, lpc.quantity::float8, lpc.uom
+       FROM license_plate_contents lpc
+       INNER JOIN license_plates lp ON lpc.license_plate_id = lp.id
+       WHERE lp.bin_id = $1 AND lp.is_active = true AND lpc.lot_id IS NOT NULL
+       UNION ALL
+       SELECT sn.product_id, COUNT(*)::float8, p.uom
+       FROM serial_numbers sn
+       INNER JOIN products p ON sn.product_id = p.id
+       WHERE sn.bin_id = $1 AND sn.lot_id IS NULL AND ${STOCKED_SERIAL}
+       GROUP BY sn.product_id, p.uom`,
+      [binId]
+    );
+
+    let used = 0;
+    for (const row of result.rows) {
+      used += await this.toCapacityUnit(row.quantity, row.uom, uom, row.productId);
+    }
+    return roundQuantity(used);
+  }
+
+  /**
+   * Quantity in a bin's capacity unit, or 0 when the product has no
+   * conversion to it
+   */
+  private async toCapacityUnit(quantity: number, uom: string, capacityUom: string, productId: string): Promise<number> {
+    try {
+      return (await this.uomRepository.convert(quantity, uom, capacityUom, productId)).convertedQuantity;
+    } catch (error: any) {
+      if (error.message.includes('no conversion')) {
+        return 0;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Whether any lot, serial or license plate is in a bin, or in a location or its bins
+   */
+  private async holdsStock(scope: 'location' | 'bin', id: string): Promise<boolean> {
+    const match = (alias: string) => scope === 'bin'
+      ? `${alias}.bin_id = $1`
+      : `(${alias}.location_id = $1 OR ${alias}.bin_id IN (SELECT id FROM bins WHERE location_id = $1))`;
+
+    const result = await this.executeQuery(
+      `SELECT 1 FROM lots lo WHERE ${match('lo')} AND ${STOCKED_LOT}
+       UNION ALL
+       SELECT 1 FROM serial_numbers sn WHERE ${match('sn')} AND ${STOCKED_SERIAL}
+       UNION ALL
+       SELECT 1 FROM license_plates lp WHERE ${match('lp')} AND lp.is_active = true
+       LIMIT 1`,
+      [id]
+    );
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Validate a parent location: active and in the same site
+   */
+  private async assertParent(siteId: string, parentLocationId: string): Promise<Location> {
+    const parent = await this.findById(parentLocationId);
+    if (!parent) {
+      throw new Error(`Parent location with ID ${parentLocationId} does not exist`);
+    }
+    if (parent.siteId !== siteId) {
+      throw new Error(`Validation failed: parent location ${parent.code} belongs to another site`);
+    }
+    return parent;
+  }
+}
@@ -0,0 +1,870 @@
+import { Pool, PoolClient } from 'pg';
+import {
+  InventoryTransaction,
+  InventoryTransactionTypeType,
+  LotDetail,
+  LotGenealogyEdge,
+  LotLedger,
+  LotStatusChange,
+  LotStatusType,
+  LotTrace,
+  TraceDirectionType,
+} from '@akazify/core-domain';
+import { BaseRepository, PaginatedResult, PaginationOptions } from './base';
+import { LocationRepository } from './location.repository';
+import { UoMRepository } from './uom.repository';
+
+/**
+ * Lot filter options
+ */
+export interface LotFilterOptions {
+  productId?: string;
+  status?: LotStatusType;
+  lotNumber?: string;
+  locationId?: string;
+  binId?: string;
+}
+
+/**
+ * Ledger entry to post against a lot. The quantity is the signed change in
+ * the lot's unit; a place given on a receipt or transfer becomes the lot's
+ * location and bin, unless the transfer moves packed quantity only.
+ */
+export interface LedgerEntry {
+  lotId: string;
+  transactionType: InventoryTransactionTypeType;
+  quantity: number;
+  enteredQuantity?: number;
+  enteredUom?: string;
+  toLocationId?: string;
+  toBinId?: string;
+  // Place packed quantity leaves from when it moves on a license plate; the
+  // lot itself stays at the place of its loose quantity
+  packedFrom?: { locationId?: string; binId?: string };
+  referenceType?: string;
+  referenceId?: string;
+  reason?: string;
+  performedBy?: string;
+}
+
+/**
+ * A new lot and its opening receipt. The unit must already be a catalogue
+ * code and the place a valid location and bin.
+ */
+export interface NewLot {
+  productId: string;
+  lotNumber: string;
+  quantity: number;
+  uom: string;
+  expiryDate?: Date;
+  manufactureDate?: Date;
+  supplierId?: string;
+  status?: 'AVAILABLE' | 'QUARANTINED';
+  locationId?: string;
+  binId?: string;
+  referenceType?: string;
+  referenceId?: string;
+  performedBy?: string;
+}
+
+/**
+ * Transaction as entered against a lot. Receipt, issue and scrap quantities
+ * are positive; adjustments are signed.
+ */
+export interface LotTransactionInput {
+  transactionType: InventoryTransactionTypeType;
+  quantity?: number;
+  uom?: string;
+  locationId?: string;
+  binId?: string;
+  referenceType?: string;
+  referenceId?: string;
+  reason?: string;
+  performedBy?: string;
+}
+
+/**
+ * Valid lot status transitions. CONSUMED is terminal and is normally reached
+ * by issuing or scrapping the balance to zero.
+ */
+const validTransitions: Record<LotStatusType, LotStatusType[]> = {
+  AVAILABLE: ['QUARANTINED', 'EXPIRED', 'CONSUMED'],
+  QUARANTINED: ['AVAILABLE', 'EXPIRED', 'CONSUMED'],
+  EXPIRED: ['AVAILABLE', 'QUARANTINED', 'CONSUMED'],
+  CONSUMED: [],
+};
+
+const SORT_COLUMNS: Record<string, string> = {
+  lotNumber: 'lo.lot_number',
+  quantity: 'lo.quantity',
+  expiryDate: 'lo.expiry_date',
+  manufactureDate: 'lo.manufacture_date',
+  createdAt: 'lo.created_at',
+};
+
+const LOT_COLUMNS = `
+  lo.id,
+  lo.product_id as "productId",
+  p.sku as "productSku",
+  p.name as "productName",
+  lo.lot_number as "lotNumber",
+  lo.quantity::float8 as quantity,
+  lo.uom,
+  lo.expiry_date as "expiryDate",
+  lo.manufacture_date as "manufactureDate",
+  lo.supplier_id as "supplierId",
+  lo.status,
+  lo.location_id as "locationId",
+  l.code as "locationCode",
+  lo.bin_id as "binId",
+  b.code as "binCode",
+  lo.is_active as "isActive",
+  lo.created_at as "createdAt",
+  lo.updated_at as "updatedAt",
+  lo.version
+`;
+
+const LOT_JOINS = `
+  INNER JOIN products p ON lo.product_id = p.id
+  LEFT JOIN locations l ON lo.location_id = l.id
+  LEFT JOIN bins b ON lo.bin_id = b.id
+`;
+
+const GENEALOGY_COLUMNS = `
+  g.parent_lot_id as "parentLotId",
+  g.child_lot_id as "childLotId",
+  g.manufacturing_order_id as "manufacturingOrderId",
+  mo.order_number as "orderNumber",
+  g.quantity::float8 as quantity,
+  g.uom
+`;
+
+const TRANSACTION_COLUMNS = `
+  it.id,
+  it.lot_id as "lotId",
+  lo.lot_number as "lotNumber",
+  it.product_id as "productId",
+  it.sequence,
+  it.transaction_type as "transactionType",
+  it.quantity::float8 as quantity,
+  it.uom,
+  it.balance_after::float8 as "balanceAfter",
+  it.entered_quantity::float8 as "enteredQuantity",
+  it.entered_uom as "enteredUom",
+  it.from_location_id as "fromLocationId",
+  it.from_bin_id as "fromBinId",
+  it.to_location_id as "toLocationId",
+  it.to_bin_id as "toBinId",
+  it.reference_type as "referenceType",
+  it.reference_id as "referenceId",
+  it.reason,
+  it.performed_by as "performedBy",
+  it.created_at as "createdAt"
+`;
+
+/**
+ * Round to the 4 decimal places of the quantity columns
+ */
+function roundQuantity(value: number): number {
+  return Math.round(value * 1e4) / 1e4;
+}
+
+/**
+ * Lot repository. A lot's quantity is the balance of its append-only
+ * inventory transaction ledger: every receipt, issue, adjustment, transfer
+ * and scrap is posted as an entry, never written to the lot directly.
+ */
+export class LotRepository extends BaseRepository<LotDetail> {
+  private locationRepository: LocationRepository;
+  private uomRepository: UoMRepository;
+
+  constructor(pool: Pool) {
+    super(pool, 'lots');
+    this.locationRepository = new LocationRepository(pool);
+    this.uomRepository = new UoMRepository(pool);
+  }
+
+  /**
+   * Find lots with filtering and pagination
+   */
+  async findLots(
+    options: PaginationOptions = {},
+    filters: LotFilterOptions = {}
+  ): Promise<PaginatedResult<LotDetail>> {
+    const { page = 1, limit = 50, sortBy = 'createdAt', sortOrder = 'DESC' } = options;
+    const conditions: string[] = ['lo.is_active = true'];
+    const params: any[] = [];
+
+    if (filters.productId) {
+      params.push(filters.productId);
+      conditions.push(`lo.product_id = $${params.length}`);
+    }
+
+    if (filters.status) {
+      params.push(filters.status);
+      conditions.push(`lo.status = $${params.length}`);
+    }
+
+    if (filters.lotNumber) {
+      params.push(`%${filters.lotNumber}%`);
+      conditions.push(`lo.lot_number ILIKE $${params.length}`);
+    }
+
+    if (filters.locationId) {
+      params.push(filters.locationId);
+      conditions.push(`lo.location_id = $${params.length}`);
+    }
+
+    if (filters.binId) {
+      params.push(filters.binId);
+      conditions.push(`lo.bin_id = $${params.length}`);
+    }
+
+    const whereClause = `WHERE ${conditions.join(' AND ')}`;
+    const countResult = await this.executeQuery<{ total: string }>(
+      `SELECT COUNT(*) as total FROM lots lo ${whereClause}`,
+      params
+    );
+    const total = parseInt(countResult.rows[0]?.total || '0');
+
+    const orderBy = SORT_COLUMNS[sortBy] || SORT_COLUMNS.createdAt;
+    const dataResult = await this.executeQuery<LotDetail>(
+      `SELECT ${LOT_COLUMNS}
+       FROM lots lo
+       ${LOT_JOINS}
+       ${whereClause}
+       ORDER BY ${orderBy} ${sortOrder === 'ASC' ? 'ASC' : 'DESC'}, lo.lot_number ASC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, (page - 1) * limit]
+    );
+
+    const totalPages = Math.ceil(total / limit);
+    return {
+      data: dataResult.rows,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Find an active lot by ID
+   */
+  async findById(id: string): Promise<LotDetail | null> {
+    const result = await this.executeQuery<LotDetail>(
+      `SELECT ${LOT_COLUMNS} FROM lots lo ${LOT_JOINS} WHERE lo.id = $1 AND lo.is_active = true`,
+      [id]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Find lots by exact lot number, as scanned. Lot numbers are unique per
+   * product, so several products may share one.
+   */
+  async findByLotNumber(lotNumber: string): Promise<LotDetail[]> {
+    const result = await this.executeQuery<LotDetail>(
+      `SELECT ${LOT_COLUMNS}
+       FROM lots lo
+       ${LOT_JOINS}
+       WHERE lo.lot_number = $1 AND lo.is_active = true
+       ORDER BY p.sku ASC`,
+      [lotNumber.trim()]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Create a lot with its opening receipt. The unit is stored as its
+   * catalogue code and must convert to the product's unit; a bin must have
+   * room for the quantity.
+   */
+  async createLot(data: NewLot): Promise<LotDetail> {
+    const product = await this.executeQuery(
+      `SELECT id FROM products WHERE id = $1 AND is_active = true`,
+      [data.productId]
+    );
+    if (product.rows.length === 0) {
+      throw new Error(`Product with ID ${data.productId} does not exist`);
+    }
+
+    const uom = await this.uomRepository.resolveCode(data.uom);
+    await this.uomRepository.assertConvertible(uom, data.productId);
+    const place = await this.locationRepository.resolvePlace(data.locationId, data.binId);
+
+    const client = await this.beginTransaction();
+    let lotId: string;
+    try {
+      if (place.binId) {
+        await this.locationRepository.lockBin(client, place.binId);
+        await this.locationRepository.assertCapacity(place.binId, { productId: data.productId, quantity: data.quantity, uom });
+      }
+      lotId = await this.receiveNewLot(client, { ...data, ...place, uom });
+      await this.commitTransaction(client);
+    } catch (error) {
+      await this.rollbackTransaction(client);
+      throw error;
+    }
+
+    return (await this.findById(lotId))!;
+  }
+
+  /**
+   * Insert a lot and post its opening receipt within the caller's
+   * transaction. Returns the new lot's ID.
+   */
+  async receiveNewLot(client: PoolClient, data: NewLot): Promise<string> {
+    const existing = await client.query(
+      `SELECT id FROM lots WHERE product_id = $1 AND lot_number = $2`,
+      [data.productId, data.lotNumber]
+    );
+    if (existing.rows.length > 0) {
+      throw new Error(`Lot ${data.lotNumber} already exists for this product`);
+    }
+
+    const lot = await client.query(
+      `INSERT INTO lots (product_id, lot_number, quantity, uom, expiry_date, manufacture_date, supplier_id, status)
+       VALUES ($1, $2, 0, $3, $4, $5, $6, $7)
+       RETURNING id`,
+      [
+        data.productId,
+        data.lotNumber,
+        data.uom,
+        data.expiryDate,
+        data.manufactureDate,
+        data.supplierId,
+        data.status ?? 'AVAILABLE',
+      ]
+    );
+
+    await this.post(client, {
+      lotId: lot.rows[0].id,
+      transactionType: 'RECEIPT',
+      quantity: data.quantity,
+      toLocationId: data.locationId,
+      toBinId: data.binId,
+      referenceType: data.referenceType,
+      referenceId: data.referenceId,
+      performedBy: data.performedBy,
+    });
+    return lot.rows[0].id;
+  }
+
+  /**
+   * Update a lot's dates and supplier. Quantity, place and status change
+   * only through transactions and status transitions.
+   */
+  async updateLot(
+    id: string,
+    data: { expiryDate?: Date; manufactureDate?: Date; supplierId?: string }
+  ): Promise<LotDetail | null> {
+    const result = await this.executeQuery(
+      `UPDATE lots
+       SET expiry_date = COALESCE($2, expiry_date),
+           manufacture_date = COALESCE($3, manufacture_date),
+           supplier_id = COALESCE($4, supplier_id),
+           version = version + 1
+       WHERE id = $1 AND is_active = true`,
+      [id, data.expiryDate, data.manufactureDate, data.supplierId]
+    );
+    if (result.rowCount === 0) {
+      return null;
+    }
+    return this.findById(id);
+  }
+
+  /**
+   * Check if a lot can be deleted (holds no quantity)
+   */
+  async canDelete(id: string): Promise<{ canDelete: boolean; reason?: string }> {
+    const result = await this.executeQuery<{ quantity: number }>(
+      `SELECT quantity::float8 as quantity FROM lots WHERE id = $1 AND is_active = true`,
+      [id]
+    );
+    if (result.rows[0] && result.rows[0].quantity > 0) {
+      return { canDelete: false, reason: 'Cannot delete a lot that holds stock; scrap or adjust it to zero first' };
+    }
+    return { canDelete: true };
+  }
+
+  /**
+   * Change a lot's status with transition validation
+   */
+  async updateStatus(
+    id: string,
+    status: LotStatusType,
+    options: { reason?: string; changedBy?: string } = {}
+  ): Promise<LotDetail | null> {
+    const lot = await this.findById(id);
+    if (!lot) {
+      return null;
+    }
+
+    const client = await this.beginTransaction();
+    try {
+      await this.applyStatus(client, id, status, options);
+      await this.commitTransaction(client);
+    } catch (error) {
+      await this.rollbackTransaction(client);
+      throw error;
+    }
+
+    return this.findById(id);
+  }
+
+  /**
+   * Apply a status transition within the caller's transaction and record it.
+   * A lot may be marked CONSUMED only once empty, and an expired lot made
+   * available again only once its expiry date has been moved out.
+   */
+  async applyStatus(
+    client: PoolClient,
+    lotId: string,
+    status: LotStatusType,
+    options: { reason?: string; changedBy?: string } = {}
+  ): Promise<void> {
+    const result = await client.query(
+      `SELECT lot_number, status, quantity::float8 as quantity, expiry_date
+       FROM lots WHERE id = $1 AND is_active = true
+       FOR UPDATE`,
+      [lotId]
+    );
+    const lot = result.rows[0];
+    if (!lot) {
+      throw new Error(`Lot with ID ${lotId} not found`);
+    }
+
+    const currentStatus: LotStatusType = lot.status;
+    if (!validTransitions[currentStatus].includes(status)) {
+      throw new Error(`Invalid status transition from ${currentStatus} to ${status}`);
+    }
+    if (status === 'CONSUMED' && lot.quantity > 0) {
+      throw new Error(
+        `Transition requirements not met: lot ${lot.lot_number} still holds ${lot.quantity}; issue or scrap it first`
+      );
+    }
+    if (currentStatus === 'EXPIRED' && status === 'AVAILABLE' && lot.expiry_date && new Date(lot.expiry_date) <= new Date()) {
+      throw new Error(`Transition requirements not met: lot ${lot.lot_number} is past its expiry date`);
+    }
+
+    await client.query(
+      `UPDATE lots SET status = $2, version = version + 1 WHERE id = $1`,
+      [lotId, status]
+    );
+    await client.query(
+      `INSERT INTO lot_status_changes (lot_id, from_status, to_status, reason, changed_by)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [lotId, currentStatus, status, options.reason, options.changedBy]
+    );
+  }
+
+  /**
+   * Record a transaction against a lot. Quantities are converted to the
+   * lot's unit; receipts and transfers into a bin are checked against its
+   * capacity, a transfer for the loose quantity it moves. Adjustments and
+   * scrap need a reason.
+   */
+  async recordTransaction(lotId: string, input: LotTransactionInput): Promise<InventoryTransaction | null> {
+    const lot = await this.findById(lotId);
+    if (!lot) {
+      return null;
+    }
+
+    const entry: LedgerEntry = {
+      lotId,
+      transactionType: input.transactionType,
+      quantity: 0,
+      referenceType: input.referenceType,
+      referenceId: input.referenceId,
+      reason: input.reason,
+      performedBy: input.performedBy,
+    };
+
+    // Bin checked against its capacity in the posting transaction; a transfer
+    // puts away the loose quantity, read there
+    let putaway: { binId: string; quantity?: number } | undefined;
+
+    if ((input.transactionType === 'ADJUSTMENT' || input.transactionType === 'SCRAP') && !input.reason) {
+      throw new Error(`Validation failed: a reason is required for ${input.transactionType}`);
+    }
+
+    if (input.transactionType === 'TRANSFER') {
+      if (!input.locationId && !input.binId) {
+        throw new Error('Validation failed: a transfer needs a locationId or binId');
+      }
+      const place = await this.locationRepository.resolvePlace(input.locationId, input.binId);
+      if (place.locationId === lot.locationId && (place.binId ?? null) === (lot.binId ?? null)) {
+        throw new Error(`Validation failed: lot ${lot.lotNumber} is already there`);
+      }
+      if (place.binId) {
+        putaway = { binId: place.binId };
+      }
+      entry.toLocationId = place.locationId;
+      entry.toBinId = place.binId;
+    } else {
+      if (input.quantity === undefined || input.quantity === 0) {
+        throw new Error(`Validation failed: ${input.transactionType} needs a non-zero quantity`);
+      }
+      if (input.transactionType !== 'ADJUSTMENT' && input.quantity < 0) {
+        throw new Error(`Validation failed: ${input.transactionType} quantity must be positive`);
+      }
+
+      const enteredUom = input.uom ? await this.uomRepository.resolveCode(input.uom) : lot.uom;
+      const converted = await this.uomRepository.convert(input.quantity, enteredUom, lot.uom, lot.productId);
+      const change = roundQuantity(converted.convertedQuantity);
+
+      if (lot.binId && change > 0) {
+        putaway = { binId: lot.binId, quantity: change };
+      }
+
+      entry.quantity = input.transactionType === 'ISSUE' || input.transactionType === 'SCRAP' ? -change : change;
+      entry.enteredQuantity = input.quantity;
+      entry.enteredUom = enteredUom;
+    }
+
+    const client = await this.beginTransaction();
+    try {
+      if (putaway) {
+        await this.locationRepository.lockBin(client, putaway.binId);
+        await this.locationRepository.assertCapacity(putaway.binId, {
+          productId: lot.productId,
+          quantity: putaway.quantity ?? await this.looseQuantity(client, lotId),
+          uom: lot.uom,
+        });
+      }
+      const transaction = await this.post(client, entry);
+      await this.commitTransaction(client);
+      return transaction;
+    } catch (error) {
+      await this.rollbackTransaction(client);
+      throw error;
+    }
+  }
+
+  /**
+   * Post a ledger entry within the caller's transaction. The lot is locked,
+   * the entry numbered after the lot's last one, and the lot's quantity,
+   * place and status brought in line; a lot issued, scrapped or adjusted to
+   * zero becomes CONSUMED. Quantity packed on license plates cannot be
+   * taken out, and a transfer moves only the loose quantity.
+   */
+  async post(client: PoolClient, entry: LedgerEntry): Promise<InventoryTransaction> {
+    const lotResult = await client.query(
+      `SELECT lot_number, product_id, quantity::float8 as quantity, uom, status, location_id, bin_id
+       FROM lots WHERE id = $1 AND is_active = true
+       FOR UPDATE`,
+      [entry.lotId]
+    );
+    const lot = lotResult.rows[0];
+    if (!lot) {
+      throw new Error(`Lot with ID ${entry.lotId} does not exist`);
+    }
+    if (lot.status === 'CONSUMED') {
+      throw new Error(`Validation failed: lot ${lot.lot_number} is CONSUMED`);
+    }
+    if (entry.transactionType === 'ISSUE' && lot.status !== 'AVAILABLE') {
+      throw new Error(`Validation failed: lot ${lot.lot_number} is ${lot.status}`);
+    }
+
+    const quantity = roundQuantity(entry.quantity);
+    const balance = roundQuantity(lot.quantity + quantity);
+    if (balance < 0) {
+      throw new Error(
+        `Validation failed: lot ${lot.lot_number} holds ${lot.quantity} ${lot.uom}; ${-quantity} ${lot.uom} requested`
+      );
+    }
+
+    // Quantity packed on license plates has to be unpacked before it can leave the lot
+    if (quantity < 0) {
+      const packed = await client.query(
+        `SELECT COALESCE(SUM(quantity), 0)::float8 as quantity FROM license_plate_contents WHERE lot_id = $1`,
+        [entry.lotId]
+      );
+      if (balance < packed.rows[0].quantity) {
+        throw new Error(
+          `Validation failed: ${packed.rows[0].quantity} ${lot.uom} of lot ${lot.lot_number} is packed on license plates; unpack it first`
+        );
+      }
+    }
+
+    const moves = entry.toLocationId !== undefined || entry.toBinId !== undefined;
+    const toLocationId = moves ? entry.toLocationId ?? null : lot.location_id;
+    const toBinId = moves ? entry.toBinId ?? null : lot.bin_id;
+    const fromLocationId = entry.packedFrom ? entry.packedFrom.locationId ?? null : lot.location_id;
+    const fromBinId = entry.packedFrom ? entry.packedFrom.binId ?? null : lot.bin_id;
+    const lotLocationId = entry.packedFrom ? lot.location_id : toLocationId;
+    const lotBinId = entry.packedFrom ? lot.bin_id : toBinId;
+
+    const inserted = await client.query(
+      `INSERT INTO inventory_transactions
+         (lot_id, product_id, sequence, transaction_type, quantity, uom, balance_after,
+          entered_quantity, entered_uom, from_location_id, from_bin_id, to_location_id, to_bin_id,
+          reference_type, reference_id, reason, performed_by)
+       SELECT $1, $2, COALESCE(MAX(sequence), 0) + 1, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16
+       FROM inventory_transactions
+       WHERE lot_id = $1
+       RETURNING id`,
+      [
+        entry.lotId,
+        lot.product_id,
+        entry.transactionType,
+        quantity,
+        lot.uom,
+        balance,
+        entry.enteredQuantity,
+        entry.enteredUom,
+        fromLocationId,
+        fromBinId,
+        toLocationId,
+        toBinId,
+        entry.referenceType,
+        entry.referenceId,
+        entry.reason,
+        entry.performedBy,
+      ]
+    );
+
+    const status: LotStatusType = balance === 0 && quantity < 0 ? 'CONSUMED' : lot.status;
+    await client.query(
+      `UPDATE lots
+       SET quantity = $2, location_id = $3, bin_id = $4, status = $5, version = version + 1
+       WHERE id = $1`,
+      [entry.lotId, balance, lotLocationId, lotBinId, status]
+    );
+    if (status !== lot.status) {
+      await client.query(
+        `INSERT INTO lot_status_changes (lot_id, from_status, to_status, reason, changed_by)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [entry.lotId, lot.status, status, `${entry.transactionType} left no quantity`, entry.performedBy]
+      );
+    }
+
+    const result = await client.query(
+      `SELECT ${TRANSACTION_COLUMNS}
+       FROM inventory_transactions it
+       INNER JOIN lots lo ON it.lot_id = lo.id
+       WHERE it.id = $1`,
+      [inserted.rows[0].id]
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * A lot's ledger in posting order with the balance re-derived from the
+   * entries, and its status history
+   */
+  async getLedger(id: string): Promise<LotLedger | null> {
+    const lot = await this.findById(id);
+    if (!lot) {
+      return null;
+    }
+
+    const [transactionResult, statusResult] = await Promise.all([
+      this.executeQuery<InventoryTransaction & { runningBalance: number }>(
+        `SELECT ${TRANSACTION_COLUMNS},
+                (SUM(it.quantity) OVER (ORDER BY it.sequence))::float8 as "runningBalance"
+         FROM inventory_transactions it
+         INNER JOIN lots lo ON it.lot_id = lo.id
+         WHERE it.lot_id = $1
+         ORDER BY it.sequence ASC`,
+        [id]
+      ),
+      this.executeQuery<LotStatusChange>(
+        `SELECT id, lot_id as "lotId", from_status as "fromStatus", to_status as "toStatus",
+                reason, changed_by as "changedBy", created_at as "createdAt"
+         FROM lot_status_changes
+         WHERE lot_id = $1
+         ORDER BY created_at ASC`,
+        [id]
+      ),
+    ]);
+
+    const transactions = transactionResult.rows;
+    const derivedQuantity = transactions.length > 0
+      ? roundQuantity(transactions[transactions.length - 1].runningBalance)
+      : 0;
+    const balanced = derivedQuantity === lot.quantity &&
+      transactions.every((transaction) => roundQuantity(transaction.runningBalance) === transaction.balanceAfter);
+
+    return {
+      lotId: lot.id,
+      lotNumber: lot.lotNumber,
+      uom: lot.uom,
+      quantity: lot.quantity,
+      derivedQuantity,
+      balanced,
+      transactions,
+      statusChanges: statusResult.rows,
+    };
+  }
+
+  /**
+   * Find ledger entries across lots, newest first
+   */
+  async findTransactions(filters: {
+    lotId?: string;
+    productId?: string;
+    transactionType?: InventoryTransactionTypeType;
+    referenceType?: string;
+    referenceId?: string;
+    from?: Date;
+    to?: Date;
+    limit?: number;
+  } = {}): Promise<InventoryTransaction[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.lotId) {
+      params.push(filters.lotId);
+      conditions.push(`it.lot_id = $${params.length}`);
+    }
+
+    if (filters.productId) {
+      params.push(filters.productId);
+      conditions.push(`it.product_id = $${params.length}`);
+    }
+
+    if (filters.transactionType) {
+      params.push(filters.transactionType);
+      conditions.push(`it.transaction_type = $${params.length}`);
+    }
+
+    if (filters.referenceType) {
+      params.push(filters.referenceType);
+      conditions.push(`it.reference_type = $${params.length}`);
+    }
+
+    if (filters.referenceId) {
+      params.push(filters.referenceId);
+      conditions.push(`it.reference_id = $${params.length}`);
+    }
+
+    if (filters.from) {
+      params.push(filters.from);
+      conditions.push(`it.created_at >= $${params.length}`);
+    }
+
+    if (filters.to) {
+      params.push(filters.to);
+      conditions.push(`it.created_at <= $${params.length}`);
+    }
+
+    params.push(filters.limit ?? 100);
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const result = await this.executeQuery<InventoryTransaction>(
+      `SELECT ${TRANSACTION_COLUMNS}
+       FROM inventory_transactions it
+       INNER JOIN lots lo ON it.lot_id = lo.id
+       ${whereClause}
+       ORDER BY it.created_at DESC, it.sequence DESC
+       LIMIT $${params.length}`,
+      params
+    );
+    return result.rows;
+  }
+
+  /**
+   * Link the lots a manufacturing order drew from to the lots it produced.
+   * Edge quantities are re-totalled from the order's consumption, so this is
+   * called whenever either side changes and is a no-op until both exist.
+   */
+  async linkGenealogy(client: PoolClient, manufacturingOrderId: string): Promise<void> {
+    await client.query(
+      `INSERT INTO lot_genealogy (parent_lot_id, child_lot_id, manufacturing_order_id, quantity, uom)
+       SELECT mc.lot_id, moo.lot_id, mc.manufacturing_order_id, SUM(mc.lot_quantity), mc.lot_uom
+       FROM material_consumption mc
+       INNER JOIN manufacturing_order_outputs moo
+         ON moo.manufacturing_order_id = mc.manufacturing_order_id AND moo.is_active = true
+       WHERE mc.manufacturing_order_id = $1 AND mc.lot_id IS NOT NULL AND mc.is_active = true
+       GROUP BY mc.lot_id, moo.lot_id, mc.manufacturing_order_id, mc.lot_uom
+       ON CONFLICT (parent_lot_id, child_lot_id, manufacturing_order_id)
+       DO UPDATE SET quantity = EXCLUDED.quantity`,
+      [manufacturingOrderId]
+    );
+  }
+
+  /**
+   * Trace a lot's genealogy. Backward follows edges to the lots it was made
+   * from, forward to the lots made from it, one level per step up to
+   * maxDepth. Each lot is expanded once, so shared ancestry is not repeated.
+   */
+  async trace(id: string, direction: TraceDirectionType, maxDepth: number = 20): Promise<LotTrace | null> {
+    const lot = await this.findById(id);
+    if (!lot) {
+      return null;
+    }
+
+    const [near, far] = direction === 'BACKWARD'
+      ? ['child_lot_id', 'parent_lot_id']
+      : ['parent_lot_id', 'child_lot_id'];
+    const farKey = direction === 'BACKWARD' ? 'parentLotId' : 'childLotId';
+
+    const depths = new Map<string, number>([[id, 0]]);
+    const edges: LotGenealogyEdge[] = [];
+    let frontier = [id];
+
+    for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+      const result = await this.executeQuery<Omit<LotGenealogyEdge, 'depth'>>(
+        `SELECT ${GENEALOGY_COLUMNS}
+         FROM lot_genealogy g
+         INNER JOIN manufacturing_orders mo ON g.manufacturing_order_id = mo.id
+         WHERE g.${near} = ANY($1)
+         ORDER BY mo.order_number ASC`,
+        [frontier]
+      );
+
+      frontier = [];
+      for (const edge of result.rows) {
+        edges.push({ ...edge, depth });
+        const lotId = edge[farKey];
+        if (!depths.has(lotId)) {
+          depths.set(lotId, depth);
+          frontier.push(lotId);
+        }
+      }
+    }
+
+    let truncated = false;
+    if (frontier.length > 0) {
+      const more = await this.executeQuery<{ exists: boolean }>(
+        `SELECT EXISTS (SELECT 1 FROM lot_genealogy WHERE ${near} = ANY($1)) as exists`,
+        [frontier]
+      );
+      truncated = more.rows[0].exists;
+    }
+
+    // Inactive lots stay in the trace; a recall has to reach them too
+    const nodeResult = await this.executeQuery<LotDetail>(
+      `SELECT ${LOT_COLUMNS}
+       FROM lots lo
+       ${LOT_JOINS}
+       WHERE lo.id = ANY($1)`,
+      [Array.from(depths.keys())]
+    );
+    const nodes = nodeResult.rows
+      .map((node: LotDetail) => ({ ...node, depth: depths.get(node.id)! }))
+      .sort((a, b) => a.depth - b.depth || a.lotNumber.localeCompare(b.lotNumber));
+
+    return { lotId: id, direction, nodes, edges, truncated };
+  }
+
+  /**
+   * Quantity of a lot that is not packed on license plates
+   */
+  private async looseQuantity(client: PoolClient, lotId: string): Promise<number> {
+    const result = await client.query(
+      `SELECT (lo.quantity - COALESCE(SUM(lpc.quantity), 0))::float8 as quantity
+       FROM lots lo
+       LEFT JOIN license_plate_contents lpc ON lpc.lot_id = lo.id
+       WHERE lo.id = $1
+       GROUP BY lo.id, lo.quantity`,
+      [lotId]
+    );
+    return result.rows[0].quantity;
+  }
+}
@@ -1,6 +1,9 @@
 import { Pool } from 'pg';
-import { ManufacturingOrder, ManufacturingOrderOperation } from '@akazify/core-domain';
+import { ManufacturingOrder, ManufacturingOrderOperation, ReportedOutput } from '@akazify/core-domain';
 import { BaseRepository, FilterOptions, PaginatedResult, PaginationOptions } from './base';
+import { ManufacturingOrderOutputRepository } from './manufacturingOrderOutput.repository';
+import { QualityPlanRepository } from './qualityPlan.repository';
+import { UoMRepository } from './uom.repository';
 
 /**
  * Manufacturing Order specific filter options
@@ -13,12 +16,27 @@ export interface ManufacturingOrderFilterOptions extends FilterOptions {
   startDateTo?: Date;
 }
 
+/**
+ * Outputs reported when an order is completed
+ */
+export interface MOCompletionData {
+  outputs?: ReportedOutput[];
+  reportedBy?: string;
+}
+
 /**
  * Manufacturing Order repository for production execution
  */
 export class ManufacturingOrderRepository extends BaseRepository<ManufacturingOrder> {
+  private qualityPlanRepository: QualityPlanRepository;
+  private outputRepository: ManufacturingOrderOutputRepository;
+  private uomRepository: UoMRepository;
+
   constructor(pool: Pool) {
     super(pool, 'manufacturing_orders');
+    this.qualityPlanRepository = new QualityPlanRepository(pool);
+    this.outputRepository = new ManufacturingOrderOutputRepository(pool);
+    this.uomRepository = new UoMRepository(pool);
   }
 
   /**
@@ -154,9 +172,14 @@ export class ManufacturingOrderRepository extends BaseRepository<ManufacturingOr
   }
 
   /**
-   * Update MO status with lifecycle validation
+   * Update MO status with lifecycle validation. Completing an MO receives its
+   * outputs into lots in the same transaction.
    */
-  async updateStatus(id: string, newStatus: 'PLANNED' | 'RELEASED' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED'): Promise<ManufacturingOrder | null> {
+  async updateStatus(
+    id: string,
+    newStatus: 'PLANNED' | 'RELEASED' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED',
+    completionData: MOCompletionData = {}
+  ): Promise<ManufacturingOrder | null> {
     // Get current MO to validate state transition
     const currentMO = await this.findById(id);
     if (!currentMO) {
@@ -183,13 +206,47 @@ export class ManufacturingOrderRepository extends BaseRepository<ManufacturingOr
       updateData.actualStartDate = new Date();
     }
     
-    if (newStatus === 'COMPLETED' && !currentMO.actualEndDate) {
-      updateData.actualEndDate = new Date();
+    if (newStatus === 'COMPLETED') {
+      await this.outputRepository.completeWithOutputs(currentMO, completionData.outputs, completionData.reportedBy);
+      return this.findById(id);
+    }
+
+    if (newStatus === 'RELEASED') {
+      await this.release(id);
+      return this.findById(id);
     }
 
     return await this.update(id, updateData);
   }
 
+  /**
+   * Release an MO, generating the checks its product's quality plan requires
+   * in the same transaction as the status change
+   */
+  private async release(id: string): Promise<void> {
+    const client = await this.beginTransaction();
+    try {
+      // Lock the order so it is released once
+      const current = await client.query(
+        `SELECT status FROM manufacturing_orders WHERE id = $1 FOR UPDATE`,
+        [id]
+      );
+      if (current.rows[0].status !== 'PLANNED') {
+        throw new Error(`Invalid status transition from ${current.rows[0].status} to RELEASED`);
+      }
+
+      await this.qualityPlanRepository.generateChecksForManufacturingOrder(client, id);
+      await client.query(
+        `UPDATE manufacturing_orders SET status = 'RELEASED', updated_at = NOW() WHERE id = $1`,
+        [id]
+      );
+      await this.commitTransaction(client);
+    } catch (error) {
+      await this.rollbackTransaction(client);
+      throw error;
+    }
+  }
+
   /**
    * Get MO statistics
    */
@@ -252,9 +309,10 @@ export class ManufacturingOrderRepository extends BaseRepository<ManufacturingOr
     const countResult = await this.executeQuery<{ count: string }>(countQuery, []);
     const nextNumber = parseInt(countResult.rows[0].count) + 1;
     const orderNumber = `MO-${year}-${nextNumber.toString().padStart(6, '0')}`;
+    const uom = await this.resolveOrderUoM(data.uom, data.productId);
 
     // Convert camelCase keys to snake_case for database
-    const dbData = this.convertKeysToSnakeCase({ ...data, orderNumber });
+    const dbData = this.convertKeysToSnakeCase({ ...data, uom, orderNumber });
     const columns = Object.keys(dbData);
     const values = Object.values(dbData);
     const placeholders = values.map((_, index) => `$${index + 1}`).join(', ');
@@ -286,4 +344,28 @@ export class ManufacturingOrderRepository extends BaseRepository<ManufacturingOr
     const result = await this.executeQuery<ManufacturingOrder>(query, values);
     return result.rows[0];
   }
+
+  /**
+   * Update MO, storing its unit of measure as the catalogue code
+   */
+  async update(id: string, data: Partial<Omit<ManufacturingOrder, 'id' | 'createdAt' | 'updatedAt' | 'version'>>): Promise<ManufacturingOrder | null> {
+    if (data.uom) {
+      const current = await this.findById(id);
+      if (!current) {
+        return null;
+      }
+      data = { ...data, uom: await this.resolveOrderUoM(data.uom, current.productId) };
+    }
+
+    return super.update(id, data);
+  }
+
+  /**
+   * Resolve an order's unit; it must convert to the product's stocking unit
+   */
+  private async resolveOrderUoM(uom: string, productId: string): Promise<string> {
+    const code = await this.uomRepository.resolveCode(uom);
+    await this.uomRepository.assertConvertible(code, productId);
+    return code;
+  }
 }
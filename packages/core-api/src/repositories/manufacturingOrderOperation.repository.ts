@@ -1,4 +1,4 @@
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
 import { ManufacturingOrderOperation } from '@akazify/core-domain';
 import { BaseRepository, FilterOptions, PaginatedResult, PaginationOptions } from './base';
 
@@ -12,6 +12,63 @@ export interface MOOperationFilterOptions extends FilterOptions {
   sequence?: number;
 }
 
+/**
+ * Work center a routing step runs at: its own, or one of its alternates
+ */
+interface WorkCenterChoice {
+  workCenterId: string;
+  routingStepAlternateId: string | null;
+  runRateMultiplier: number;
+  alternateReason: string | null; // Why the step's own work center was passed over
+}
+
+/**
+ * Routing step as planned onto an operation
+ */
+interface PlannedStep {
+  id: string;
+  workCenterId: string;
+  operationId: string;
+  sequence: number;
+  setupTime: number;
+  runTime: number;
+  teardownTime: number;
+  choice: WorkCenterChoice;
+}
+
+/**
+ * Routing considered when generating operations, in the order tried
+ */
+interface RoutingCandidate {
+  id: string;
+  version: string;
+  alternatePriority: number | null;
+}
+
+const OPERATION_COLUMNS = `
+  id,
+  manufacturing_order_id as "manufacturingOrderId",
+  work_center_id as "workCenterId",
+  operation_id as "operationId",
+  sequence,
+  planned_quantity as "plannedQuantity",
+  completed_quantity as "completedQuantity",
+  status,
+  planned_start_time as "plannedStartTime",
+  actual_start_time as "actualStartTime",
+  planned_end_time as "plannedEndTime",
+  actual_end_time as "actualEndTime",
+  routing_step_id as "routingStepId",
+  primary_work_center_id as "primaryWorkCenterId",
+  routing_step_alternate_id as "routingStepAlternateId",
+  run_rate_multiplier::float8 as "runRateMultiplier",
+  alternate_reason as "alternateReason",
+  is_active as "isActive",
+  created_at as "createdAt",
+  updated_at as "updatedAt",
+  version
+`;
+
 /**
  * Manufacturing Order Operation repository for tracking individual work steps
  */
@@ -25,23 +82,7 @@ export class ManufacturingOrderOperationRepository extends BaseRepository<Manufa
    */
   async findByManufacturingOrderId(manufacturingOrderId: string): Promise<ManufacturingOrderOperation[]> {
     const query = `
-      SELECT 
-        id,
-        manufacturing_order_id as "manufacturingOrderId",
-        work_center_id as "workCenterId",
-        operation_id as "operationId",
-        sequence,
-        planned_quantity as "plannedQuantity",
-        completed_quantity as "completedQuantity",
-        status,
-        planned_start_time as "plannedStartTime",
-        actual_start_time as "actualStartTime",
-        planned_end_time as "plannedEndTime",
-        actual_end_time as "actualEndTime",
-        is_active as "isActive",
-        created_at as "createdAt",
-        updated_at as "updatedAt",
-        version
+      SELECT ${OPERATION_COLUMNS}
       FROM manufacturing_order_operations 
       WHERE manufacturing_order_id = $1 AND is_active = true
       ORDER BY sequence ASC
@@ -50,6 +91,46 @@ export class ManufacturingOrderOperationRepository extends BaseRepository<Manufa
     return result.rows;
   }
 
+  /**
+   * Find an operation together with the work center and product it runs,
+   * as needed to decide which quality check templates apply to it
+   */
+  async findWithContext(id: string): Promise<(ManufacturingOrderOperation & {
+    workCenterCategory?: string;
+    productId: string;
+    productCategory?: string;
+  }) | null> {
+    const query = `
+      SELECT
+        moo.id,
+        moo.manufacturing_order_id as "manufacturingOrderId",
+        moo.work_center_id as "workCenterId",
+        moo.operation_id as "operationId",
+        moo.sequence,
+        moo.planned_quantity as "plannedQuantity",
+        moo.completed_quantity as "completedQuantity",
+        moo.status,
+        moo.is_active as "isActive",
+        moo.created_at as "createdAt",
+        moo.updated_at as "updatedAt",
+        moo.version,
+        wc.category as "workCenterCategory",
+        mo.product_id as "productId",
+        p.category as "productCategory"
+      FROM manufacturing_order_operations moo
+      JOIN manufacturing_orders mo ON moo.manufacturing_order_id = mo.id
+      LEFT JOIN work_centers wc ON moo.work_center_id = wc.id
+      LEFT JOIN products p ON mo.product_id = p.id
+      WHERE moo.id = $1 AND moo.is_active = true
+    `;
+    const result = await this.executeQuery<ManufacturingOrderOperation & {
+      workCenterCategory?: string;
+      productId: string;
+      productCategory?: string;
+    }>(query, [id]);
+    return result.rows[0] || null;
+  }
+
   /**
    * Find operations with work center details
    */
@@ -120,6 +201,11 @@ export class ManufacturingOrderOperationRepository extends BaseRepository<Manufa
         moo.actual_start_time as "actualStartTime",
         moo.planned_end_time as "plannedEndTime",
         moo.actual_end_time as "actualEndTime",
+        moo.routing_step_id as "routingStepId",
+        moo.primary_work_center_id as "primaryWorkCenterId",
+        moo.routing_step_alternate_id as "routingStepAlternateId",
+        moo.run_rate_multiplier::float8 as "runRateMultiplier",
+        moo.alternate_reason as "alternateReason",
         moo.is_active as "isActive",
         moo.created_at as "createdAt",
         moo.updated_at as "updatedAt",
@@ -278,60 +364,328 @@ export class ManufacturingOrderOperationRepository extends BaseRepository<Manufa
   }
 
   /**
-   * Create operations for a manufacturing order based on routing
+   * Create one operation per step of the MO's routing. An MO without a
+   * routing uses the product's default routing, or the first alternate
+   * routing by priority on which every step has an available work center;
+   * the routing used is recorded on the MO. Each step runs at its own work
+   * center unless that is inactive or has equipment DOWN, in which case the
+   * first available alternate is used and the choice and reason are recorded
+   * on the operation. Operations are planned back to back from the MO's
+   * planned start, each taking setup + run time × run-rate multiplier × MO
+   * quantity + teardown minutes.
    */
-  async createOperationsFromRouting(
-    manufacturingOrderId: string,
-    operations: {
-      workCenterId: string;
-      operationId: string;
-      sequence: number;
-      plannedQuantity: number;
-      plannedStartTime?: Date;
-      plannedEndTime?: Date;
-    }[]
-  ): Promise<ManufacturingOrderOperation[]> {
-    const createdOperations: ManufacturingOrderOperation[] = [];
-
-    for (const opData of operations) {
-      const dbData = this.convertKeysToSnakeCase({
-        manufacturingOrderId,
-        ...opData,
-        status: 'WAITING' as const,
-        completedQuantity: 0,
-        isActive: true,
+  async createOperationsFromRouting(manufacturingOrderId: string): Promise<ManufacturingOrderOperation[]> {
+    const client = await this.beginTransaction();
+    try {
+      const moResult = await client.query(
+        `SELECT id, order_number, product_id, routing_id, quantity::float8 as quantity, planned_start_date, status
+         FROM manufacturing_orders
+         WHERE id = $1 AND is_active = true
+         FOR UPDATE`,
+        [manufacturingOrderId]
+      );
+      const mo = moResult.rows[0];
+      if (!mo) {
+        throw new Error(`Manufacturing order with ID ${manufacturingOrderId} not found`);
+      }
+
+      if (mo.status === 'COMPLETED' || mo.status === 'CANCELLED') {
+        throw new Error(`Manufacturing order ${mo.order_number} is ${mo.status} and cannot be given operations`);
+      }
+
+      const existing = await client.query(
+        `SELECT COUNT(*) as count FROM manufacturing_order_operations WHERE manufacturing_order_id = $1 AND is_active = true`,
+        [manufacturingOrderId]
+      );
+      const existingCount = parseInt(existing.rows[0].count);
+      if (existingCount > 0) {
+        throw new Error(`Manufacturing order ${mo.order_number} already has ${existingCount} operations`);
+      }
+
+      // Routings to try in order: the MO's own, or the default then alternates
+      const routingsResult = mo.routing_id
+        ? await client.query(
+            `SELECT id, version, alternate_priority as "alternatePriority" FROM routings WHERE id = $1`,
+            [mo.routing_id]
+          )
+        : await client.query(
+            `SELECT id, version, alternate_priority as "alternatePriority"
+             FROM routings
+             WHERE product_id = $1 AND is_active = true AND (is_default = true OR alternate_priority IS NOT NULL)
+             ORDER BY is_default DESC, alternate_priority ASC`,
+            [mo.product_id]
+          );
+      const routings: RoutingCandidate[] = routingsResult.rows;
+      if (routings.length === 0) {
+        throw new Error(`No routing: manufacturing order ${mo.order_number} has no routing and its product has no default or alternate routing`);
+      }
+
+      let chosen: { routing: RoutingCandidate; steps: PlannedStep[] } | null = null;
+      let fallback: { routing: RoutingCandidate; steps: PlannedStep[] } | null = null;
+      const blockedRoutings: string[] = [];
+
+      for (const routing of routings) {
+        const plan = await this.planRoutingSteps(client, routing.id);
+        if (plan.steps.length === 0) {
+          blockedRoutings.push(`routing ${routing.version} has no steps`);
+          continue;
+        }
+
+        fallback = fallback ?? { routing, steps: plan.steps };
+        if (plan.blocked.length === 0) {
+          chosen = { routing, steps: plan.steps };
+          break;
+        }
+        blockedRoutings.push(`routing ${routing.version} ${plan.blocked.join('; ')}`);
+      }
+
+      if (!fallback) {
+        throw new Error(`No routing: routing ${routings[0].id} has no steps`);
+      }
+
+      // When no routing can run everywhere, keep the first one; steps without
+      // an available work center stay at their own and can be dispatched later
+      const { routing, steps } = chosen ?? fallback;
+      const routingReason = routing.id !== routings[0].id
+        ? `Alternate routing ${routing.version} (priority ${routing.alternatePriority}): ${blockedRoutings.join('; ')}`
+        : null;
+
+      if (!mo.routing_id) {
+        await client.query(
+          `UPDATE manufacturing_orders SET routing_id = $2 WHERE id = $1`,
+          [manufacturingOrderId, routing.id]
+        );
+      }
+
+      const createdOperations: ManufacturingOrderOperation[] = [];
+      let plannedStartTime = new Date(mo.planned_start_date);
+
+      for (const step of steps) {
+        const { choice } = step;
+        const minutes = step.setupTime + step.runTime * choice.runRateMultiplier * mo.quantity + step.teardownTime;
+        const plannedEndTime = new Date(plannedStartTime.getTime() + Math.round(minutes * 60_000));
+        const alternateReason = [routingReason, choice.alternateReason].filter(Boolean).join('; ') || null;
+
+        const result = await client.query(
+          `INSERT INTO manufacturing_order_operations
+             (manufacturing_order_id, work_center_id, operation_id, sequence, planned_quantity, status, planned_start_time, planned_end_time,
+              routing_step_id, primary_work_center_id, routing_step_alternate_id, run_rate_multiplier, alternate_reason)
+           VALUES ($1, $2, $3, $4, $5, 'WAITING', $6, $7, $8, $9, $10, $11, $12)
+           RETURNING ${OPERATION_COLUMNS}`,
+          [
+            manufacturingOrderId,
+            choice.workCenterId,
+            step.operationId,
+            step.sequence,
+            mo.quantity,
+            plannedStartTime,
+            plannedEndTime,
+            step.id,
+            step.workCenterId,
+            choice.routingStepAlternateId,
+            choice.runRateMultiplier,
+            alternateReason,
+          ]
+        );
+        createdOperations.push(result.rows[0]);
+        plannedStartTime = plannedEndTime;
+      }
+
+      await this.commitTransaction(client);
+      return createdOperations;
+    } catch (error) {
+      await this.rollbackTransaction(client);
+      throw error;
+    }
+  }
+
+  /**
+   * Re-choose where a waiting or blocked operation runs: at its routing
+   * step's work center when that is available again, otherwise at the first
+   * available alternate. The planned end is recalculated for the new run rate.
+   */
+  async dispatchOperation(id: string): Promise<ManufacturingOrderOperation> {
+    const client = await this.beginTransaction();
+    try {
+      const opResult = await client.query(
+        `SELECT
+           moo.operation_id,
+           moo.status,
+           moo.work_center_id,
+           moo.routing_step_id,
+           moo.routing_step_alternate_id,
+           moo.planned_quantity::float8 as planned_quantity,
+           moo.planned_start_time,
+           COALESCE(rs.setup_time, 0) as setup_time,
+           COALESCE(rs.run_time, 0)::float8 as run_time,
+           COALESCE(rs.teardown_time, 0) as teardown_time
+         FROM manufacturing_order_operations moo
+         LEFT JOIN routing_steps rs ON moo.routing_step_id = rs.id
+         WHERE moo.id = $1 AND moo.is_active = true
+         FOR UPDATE OF moo`,
+        [id]
+      );
+      const op = opResult.rows[0];
+      if (!op) {
+        throw new Error(`Operation with ID ${id} not found`);
+      }
+
+      if (op.status !== 'WAITING' && op.status !== 'BLOCKED') {
+        throw new Error(`Operation ${op.operation_id} is ${op.status} and cannot be dispatched`);
+      }
+
+      if (!op.routing_step_id) {
+        throw new Error(`No routing: operation ${op.operation_id} was not created from a routing step`);
+      }
+
+      const { choice, unavailable } = await this.chooseWorkCenter(client, op.routing_step_id);
+      if (!choice) {
+        throw new Error(`Operation ${op.operation_id} cannot be dispatched: ${unavailable.join('; ')}`);
+      }
+
+      if (choice.workCenterId === op.work_center_id && choice.routingStepAlternateId === op.routing_step_alternate_id) {
+        const current = await client.query(
+          `SELECT ${OPERATION_COLUMNS} FROM manufacturing_order_operations WHERE id = $1`,
+          [id]
+        );
+        await this.commitTransaction(client);
+        return current.rows[0];
+      }
+
+      const minutes = op.setup_time + op.run_time * choice.runRateMultiplier * op.planned_quantity + op.teardown_time;
+      const plannedEndTime = op.planned_start_time
+        ? new Date(new Date(op.planned_start_time).getTime() + Math.round(minutes * 60_000))
+        : null;
+
+      const result = await client.query(
+        `UPDATE manufacturing_order_operations
+         SET work_center_id = $2,
+             routing_step_alternate_id = $3,
+             run_rate_multiplier = $4,
+             alternate_reason = $5,
+             planned_end_time = COALESCE($6, planned_end_time)
+         WHERE id = $1
+         RETURNING ${OPERATION_COLUMNS}`,
+        [id, choice.workCenterId, choice.routingStepAlternateId, choice.runRateMultiplier, choice.alternateReason, plannedEndTime]
+      );
+
+      await this.commitTransaction(client);
+      return result.rows[0];
+    } catch (error) {
+      await this.rollbackTransaction(client);
+      throw error;
+    }
+  }
+
+  /**
+   * Load a routing's steps with the work center each would run at. Steps
+   * with no available work center keep their own and are listed in `blocked`.
+   */
+  private async planRoutingSteps(
+    client: PoolClient,
+    routingId: string
+  ): Promise<{ steps: PlannedStep[]; blocked: string[] }> {
+    const stepsResult = await client.query(
+      `SELECT
+         id,
+         work_center_id as "workCenterId",
+         operation_id as "operationId",
+         sequence,
+         COALESCE(setup_time, 0) as "setupTime",
+         COALESCE(run_time, 0)::float8 as "runTime",
+         COALESCE(teardown_time, 0) as "teardownTime"
+       FROM routing_steps
+       WHERE routing_id = $1 AND is_active = true
+       ORDER BY sequence ASC`,
+      [routingId]
+    );
+
+    const steps: PlannedStep[] = [];
+    const blocked: string[] = [];
+    for (const step of stepsResult.rows) {
+      const { choice, unavailable } = await this.chooseWorkCenter(client, step.id);
+      if (!choice) {
+        blocked.push(`step ${step.sequence}: ${unavailable.join('; ')}`);
+      }
+      steps.push({
+        ...step,
+        choice: choice ?? {
+          workCenterId: step.workCenterId,
+          routingStepAlternateId: null,
+          runRateMultiplier: 1,
+          alternateReason: null,
+        },
       });
+    }
 
-      const columns = Object.keys(dbData);
-      const values = Object.values(dbData);
-      const placeholders = values.map((_, index) => `$${index + 1}`).join(', ');
-
-      const query = `
-        INSERT INTO ${this.tableName} (${columns.join(', ')})
-        VALUES (${placeholders})
-        RETURNING 
-          id,
-          manufacturing_order_id as "manufacturingOrderId",
-          work_center_id as "workCenterId",
-          operation_id as "operationId",
-          sequence,
-          planned_quantity as "plannedQuantity",
-          completed_quantity as "completedQuantity",
-          status,
-          planned_start_time as "plannedStartTime",
-          actual_start_time as "actualStartTime",
-          planned_end_time as "plannedEndTime",
-          actual_end_time as "actualEndTime",
-          is_active as "isActive",
-          created_at as "createdAt",
-          updated_at as "updatedAt",
-          version
-      `;
+    return { steps, blocked };
+  }
+
+  /**
+   * Choose where a routing step runs: its own work center unless that is
+   * inactive or has equipment DOWN, otherwise the first available alternate
+   * by priority. `unavailable` explains every work center passed over.
+   */
+  private async chooseWorkCenter(
+    client: PoolClient,
+    routingStepId: string
+  ): Promise<{ choice: WorkCenterChoice | null; unavailable: string[] }> {
+    const result = await client.query(
+      `SELECT
+         c.work_center_id as "workCenterId",
+         c.alternate_id as "alternateId",
+         c.priority,
+         c.run_rate_multiplier as "runRateMultiplier",
+         wc.code,
+         wc.is_active as "isActive",
+         ARRAY(
+           SELECT e.code FROM equipment e
+           WHERE e.work_center_id = wc.id AND e.is_active = true AND e.status = 'DOWN'
+           ORDER BY e.code
+         ) as "downEquipment"
+       FROM (
+         SELECT work_center_id, NULL::uuid as alternate_id, 0 as priority, 1::float8 as run_rate_multiplier
+         FROM routing_steps
+         WHERE id = $1
+         UNION ALL
+         SELECT work_center_id, id, priority, run_rate_multiplier::float8
+         FROM routing_step_alternates
+         WHERE routing_step_id = $1 AND is_active = true
+       ) c
+       INNER JOIN work_centers wc ON c.work_center_id = wc.id
+       ORDER BY c.priority ASC`,
+      [routingStepId]
+    );
+
+    const unavailable: string[] = [];
+    for (const candidate of result.rows) {
+      const label = candidate.alternateId
+        ? `alternate work center ${candidate.code}`
+        : `Primary work center ${candidate.code}`;
+
+      if (!candidate.isActive) {
+        unavailable.push(`${label} is inactive`);
+        continue;
+      }
+
+      if (candidate.downEquipment.length > 0) {
+        unavailable.push(`${label} has equipment DOWN (${candidate.downEquipment.join(', ')})`);
+        continue;
+      }
 
-      const result = await this.executeQuery<ManufacturingOrderOperation>(query, values);
-      createdOperations.push(result.rows[0]);
+      return {
+        choice: {
+          workCenterId: candidate.workCenterId,
+          routingStepAlternateId: candidate.alternateId,
+          runRateMultiplier: candidate.runRateMultiplier,
+          alternateReason: candidate.alternateId
+            ? `${unavailable.join('; ')}; using alternate ${candidate.code} (priority ${candidate.priority}, run rate ×${candidate.runRateMultiplier})`
+            : null,
+        },
+        unavailable,
+      };
     }
 
-    return createdOperations;
+    return { choice: null, unavailable };
   }
 }
@@ -0,0 +1,329 @@
+import { Pool } from 'pg';
+import {
+  BOMDetail,
+  BOMOutput,
+  CostAllocationMethodType,
+  ManufacturingOrder,
+  ManufacturingOrderOutput,
+  MOOutputTypeType,
+  ReportedOutput,
+} from '@akazify/core-domain';
+import { BaseRepository } from './base';
+import { BOMRepository } from './bom.repository';
+import { LotRepository } from './lot.repository';
+import { StandardCostRepository } from './standardCost.repository';
+import { UoMRepository } from './uom.repository';
+
+/**
+ * An output as it will be received: the reported (or yield-derived) quantity
+ * and its weight in the cost allocation
+ */
+interface PlannedOutput {
+  productId: string;
+  sku: string;
+  outputType: MOOutputTypeType;
+  bomOutputId?: string;
+  quantity: number;
+  uom: string;
+  lotNumber: string;
+  weight: number;
+}
+
+const OUTPUT_COLUMNS = `
+  moo.id,
+  moo.manufacturing_order_id as "manufacturingOrderId",
+  moo.product_id as "productId",
+  p.sku as "productSku",
+  moo.output_type as "outputType",
+  moo.bom_output_id as "bomOutputId",
+  moo.quantity::float8 as quantity,
+  moo.uom,
+  moo.lot_id as "lotId",
+  l.lot_number as "lotNumber",
+  moo.allocation_method as "allocationMethod",
+  moo.cost_share::float8 as "costShare",
+  moo.allocated_cost::float8 as "allocatedCost",
+  moo.unit_cost::float8 as "unitCost",
+  moo.reported_by as "reportedBy",
+  moo.is_active as "isActive",
+  moo.created_at as "createdAt",
+  moo.updated_at as "updatedAt",
+  moo.version
+`;
+
+/**
+ * Round to the 4 decimal places of the quantity and amount columns
+ */
+function roundQuantity(value: number): number {
+  return Math.round(value * 1e4) / 1e4;
+}
+
+/**
+ * Manufacturing order output repository. Completing an order receives its
+ * product, co-products and by-products into new lots and splits the order's
+ * actual cost across them by the BOM's allocation method.
+ */
+export class ManufacturingOrderOutputRepository extends BaseRepository<ManufacturingOrderOutput> {
+  private bomRepository: BOMRepository;
+  private lotRepository: LotRepository;
+  private standardCostRepository: StandardCostRepository;
+  private uomRepository: UoMRepository;
+
+  constructor(pool: Pool) {
+    super(pool, 'manufacturing_order_outputs');
+    this.bomRepository = new BOMRepository(pool);
+    this.lotRepository = new LotRepository(pool);
+    this.standardCostRepository = new StandardCostRepository(pool);
+    this.uomRepository = new UoMRepository(pool);
+  }
+
+  /**
+   * Find the outputs reported for a manufacturing order
+   */
+  async findByManufacturingOrderId(manufacturingOrderId: string): Promise<ManufacturingOrderOutput[]> {
+    const result = await this.executeQuery<ManufacturingOrderOutput>(
+      `SELECT ${OUTPUT_COLUMNS}
+       FROM manufacturing_order_outputs moo
+       INNER JOIN products p ON moo.product_id = p.id
+       INNER JOIN lots l ON moo.lot_id = l.id
+       WHERE moo.manufacturing_order_id = $1 AND moo.is_active = true
+       ORDER BY moo.output_type ASC, p.sku ASC`,
+      [manufacturingOrderId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Complete an in-progress order with its outputs. Without reported outputs,
+   * the order's product is received at the quantity its last operation
+   * completed and each co-product and by-product at that quantity times its
+   * yield ratio. Reported outputs replace that plan; declared outputs left
+   * out, and zero quantities, are not received, except that FIXED_PERCENTAGE
+   * allocation needs every output it assigns a share to. The order's product
+   * gets a lot numbered after the order and other outputs one numbered after
+   * the order and their SKU, unless another lot number is reported.
+   */
+  async completeWithOutputs(
+    order: ManufacturingOrder,
+    reported?: ReportedOutput[],
+    reportedBy?: string
+  ): Promise<ManufacturingOrderOutput[]> {
+    const product = await this.executeQuery<{ sku: string; uom: string }>(
+      `SELECT sku, uom FROM products WHERE id = $1`,
+      [order.productId]
+    );
+    const { sku, uom: productUom } = product.rows[0];
+
+    const bom: BOMDetail | null = order.bomId
+      ? await this.bomRepository.findById(order.bomId)
+      : await this.bomRepository.findEffective(order.productId);
+    const method: CostAllocationMethodType = bom?.costAllocationMethod ?? 'PHYSICAL_QUANTITY';
+    const bomOutputs: BOMOutput[] = bom?.outputs || [];
+
+    const lastOperation = await this.executeQuery<{ completedQuantity: number }>(
+      `SELECT completed_quantity::float8 as "completedQuantity"
+       FROM manufacturing_order_operations
+       WHERE manufacturing_order_id = $1 AND is_active = true
+       ORDER BY sequence DESC
+       LIMIT 1`,
+      [order.id]
+    );
+    const produced = lastOperation.rows[0]?.completedQuantity ?? order.quantity;
+    const producedInProductUnit = (await this.uomRepository.convert(produced, order.uom, productUom, order.productId))
+      .convertedQuantity;
+
+    let outputs: PlannedOutput[] = [
+      {
+        productId: order.productId,
+        sku,
+        outputType: 'PRIMARY',
+        quantity: produced,
+        uom: order.uom,
+        lotNumber: order.orderNumber,
+        weight: 0,
+      },
+      ...bomOutputs.map((output: BOMOutput) => ({
+        productId: output.productId,
+        sku: output.productSku!,
+        outputType: output.outputType as MOOutputTypeType,
+        bomOutputId: output.id,
+        quantity: producedInProductUnit * output.yieldRatio,
+        uom: output.uom,
+        lotNumber: `${order.orderNumber}-${output.productSku}`,
+        weight: 0,
+      })),
+    ];
+
+    if (reported) {
+      const seen = new Set<string>();
+      const reportedOutputs: PlannedOutput[] = [];
+      for (const entry of reported) {
+        const planned = outputs.find((output: PlannedOutput) => output.productId === entry.productId);
+        if (!planned) {
+          throw new Error(`Validation failed: product ${entry.productId} is not an output of order ${order.orderNumber}`);
+        }
+        if (seen.has(entry.productId)) {
+          throw new Error(`Validation failed: output ${planned.sku} is reported more than once`);
+        }
+        seen.add(entry.productId);
+
+        const entryUom = entry.uom ? await this.uomRepository.resolveCode(entry.uom) : planned.uom;
+        await this.uomRepository.assertConvertible(entryUom, entry.productId);
+        reportedOutputs.push({
+          ...planned,
+          quantity: entry.quantity,
+          uom: entryUom,
+          lotNumber: entry.lotNumber ?? planned.lotNumber,
+        });
+      }
+      outputs = reportedOutputs;
+    }
+
+    outputs = outputs
+      .map((output: PlannedOutput) => ({ ...output, quantity: roundQuantity(output.quantity) }))
+      .filter((output: PlannedOutput) => output.quantity > 0);
+
+    if (outputs.length === 0) {
+      throw new Error(`Validation failed: order ${order.orderNumber} has no output to receive`);
+    }
+
+    // Fixed shares are only meaningful when every output they name is received
+    if (method === 'FIXED_PERCENTAGE') {
+      const missing = [
+        ...(outputs.some((output: PlannedOutput) => output.outputType === 'PRIMARY') ? [] : [sku]),
+        ...bomOutputs
+          .filter((bomOutput: BOMOutput) => bomOutput.outputType === 'CO_PRODUCT')
+          .filter((bomOutput: BOMOutput) => !outputs.some((output: PlannedOutput) => output.bomOutputId === bomOutput.id))
+          .map((bomOutput: BOMOutput) => bomOutput.productSku!),
+      ];
+      if (missing.length > 0) {
+        throw new Error(
+          `Validation failed: FIXED_PERCENTAGE cost allocation needs a quantity for ${missing.join(', ')}`
+        );
+      }
+    }
+
+    const lotNumbers = new Set<string>();
+    for (const output of outputs) {
+      if (lotNumbers.has(output.lotNumber)) {
+        throw new Error(`Validation failed: lot number ${output.lotNumber} is reported for more than one output`);
+      }
+      lotNumbers.add(output.lotNumber);
+    }
+
+    for (const output of outputs) {
+      output.weight = await this.allocationWeight(output, method, bomOutputs, productUom);
+    }
+    const totalWeight = outputs.reduce((total: number, output: PlannedOutput) => total + output.weight, 0);
+    const actualCost = await this.standardCostRepository.findActualCost(order.id);
+
+    const client = await this.beginTransaction();
+    try {
+      // Lock the order so it is completed once
+      const current = await client.query(
+        `SELECT status FROM manufacturing_orders WHERE id = $1 FOR UPDATE`,
+        [order.id]
+      );
+      if (current.rows[0].status !== 'IN_PROGRESS') {
+        throw new Error(`Invalid status transition from ${current.rows[0].status} to COMPLETED`);
+      }
+
+      for (const output of outputs) {
+        // Received through the ledger as the lot's opening receipt
+        const lotId = await this.lotRepository.receiveNewLot(client, {
+          productId: output.productId,
+          lotNumber: output.lotNumber,
+          quantity: output.quantity,
+          uom: output.uom,
+          manufactureDate: new Date(),
+          referenceType: 'MANUFACTURING_ORDER',
+          referenceId: order.id,
+          performedBy: reportedBy,
+        });
+
+        const costShare = totalWeight > 0 ? output.weight / totalWeight : 0;
+        const allocatedCost = roundQuantity(actualCost.total * costShare);
+        await client.query(
+          `INSERT INTO manufacturing_order_outputs
+             (manufacturing_order_id, product_id, output_type, bom_output_id, quantity, uom, lot_id,
+              allocation_method, cost_share, allocated_cost, unit_cost, reported_by)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+          [
+            order.id,
+            output.productId,
+            output.outputType,
+            output.bomOutputId,
+            output.quantity,
+            output.uom,
+            lotId,
+            method,
+            Math.round(costShare * 1e6) / 1e6,
+            allocatedCost,
+            Math.round((allocatedCost / output.quantity) * 1e6) / 1e6,
+            reportedBy,
+          ]
+        );
+      }
+
+      // Link the lots the order drew from to the lots it produced
+      await this.lotRepository.linkGenealogy(client, order.id);
+
+      await client.query(
+        `UPDATE manufacturing_orders
+         SET status = 'COMPLETED', actual_end_date = COALESCE(actual_end_date, NOW()), version = version + 1
+         WHERE id = $1`,
+        [order.id]
+      );
+
+      await this.commitTransaction(client);
+    } catch (error) {
+      await this.rollbackTransaction(client);
+      throw error;
+    }
+
+    return this.findByManufacturingOrderId(order.id);
+  }
+
+  /**
+   * Weight of an output in the cost split. By-products carry no cost; under
+   * FIXED_PERCENTAGE the order's product takes what the co-products leave.
+   */
+  private async allocationWeight(
+    output: PlannedOutput,
+    method: CostAllocationMethodType,
+    bomOutputs: BOMOutput[],
+    productUom: string
+  ): Promise<number> {
+    if (output.outputType === 'BY_PRODUCT') {
+      return 0;
+    }
+
+    switch (method) {
+      case 'FIXED_PERCENTAGE': {
+        if (output.outputType === 'CO_PRODUCT') {
+          const declared = bomOutputs.find((bomOutput: BOMOutput) => bomOutput.id === output.bomOutputId);
+          return declared?.allocationPercent || 0;
+        }
+        const coProductShare = bomOutputs
+          .filter((bomOutput: BOMOutput) => bomOutput.outputType === 'CO_PRODUCT')
+          .reduce((total: number, bomOutput: BOMOutput) => total + (bomOutput.allocationPercent || 0), 0);
+        return 100 - coProductShare;
+      }
+
+      case 'STANDARD_VALUE': {
+        const standardCost = await this.standardCostRepository.findCost(output.productId);
+        if (!standardCost) {
+          throw new Error(`Validation failed: ${output.sku} has no standard cost to allocate by`);
+        }
+        const quantity = await this.uomRepository.convert(output.quantity, output.uom, standardCost.uom, output.productId);
+        return quantity.convertedQuantity * standardCost.totalCost;
+      }
+
+      default: {
+        // Quantities are compared in the unit of the order's product
+        const quantity = await this.uomRepository.convert(output.quantity, output.uom, productUom, output.productId);
+        return quantity.convertedQuantity;
+      }
+    }
+  }
+}
@@ -0,0 +1,335 @@
+import { Pool } from 'pg';
+import { MaterialConsumption } from '@akazify/core-domain';
+import { BaseRepository } from './base';
+import { LotRepository } from './lot.repository';
+import { StandardCostRepository } from './standardCost.repository';
+import { UoMRepository } from './uom.repository';
+
+/**
+ * Consumption as recorded by an operator. Quantities are in `uom`, which
+ * defaults to the BOM item's unit (or the material's unit without one).
+ */
+export interface RecordConsumptionInput {
+  operationId: string;
+  materialId: string; // Component product
+  bomItemId?: string;
+  lotId?: string;
+  consumedQuantity: number;
+  wasteQuantity?: number;
+  uom?: string;
+  wasteReason?: string;
+  notes?: string;
+  recordedBy?: string;
+}
+
+/**
+ * Material totals of an operation, valued at the standard cost recorded with
+ * each consumption
+ */
+export interface OperationMaterialSummary {
+  totalMaterials: number;
+  totalPlannedCost: number;
+  totalActualCost: number;
+  totalWasteCost: number;
+  materialEfficiency: number; // Actual cost as a percentage of planned
+  wastePercentage: number; // Waste cost as a percentage of actual plus waste
+}
+
+const CONSUMPTION_COLUMNS = `
+  mc.id,
+  mc.operation_id as "operationId",
+  mc.manufacturing_order_id as "manufacturingOrderId",
+  mc.product_id as "productId",
+  mc.bom_item_id as "bomItemId",
+  mc.lot_id as "lotId",
+  p.sku,
+  p.name as "productName",
+  mc.uom,
+  mc.entered_uom as "enteredUom",
+  mc.transaction_type as "transactionType",
+  mc.planned_quantity::float8 as "plannedQuantity",
+  mc.consumed_quantity::float8 as "consumedQuantity",
+  mc.waste_quantity::float8 as "wasteQuantity",
+  mc.lot_quantity::float8 as "lotQuantity",
+  mc.lot_uom as "lotUom",
+  mc.unit_cost::float8 as "unitCost",
+  mc.total_cost::float8 as "totalCost",
+  mc.waste_cost::float8 as "wasteCost",
+  mc.waste_reason as "wasteReason",
+  mc.transaction_date as "transactionDate",
+  mc.recorded_by as "recordedBy",
+  mc.notes,
+  mc.is_active as "isActive",
+  mc.created_at as "createdAt",
+  mc.updated_at as "updatedAt",
+  mc.version
+`;
+
+/**
+ * Round to the 4 decimal places of the quantity columns
+ */
+function roundQuantity(value: number): number {
+  return Math.round(value * 1e4) / 1e4;
+}
+
+/**
+ * Material consumption repository. Quantities recorded in one unit are
+ * converted to the BOM item's unit, and to the lot's unit when drawn from a lot.
+ * Consumption is costed at the material's current standard cost.
+ */
+export class MaterialConsumptionRepository extends BaseRepository<MaterialConsumption> {
+  private uomRepository: UoMRepository;
+  private standardCostRepository: StandardCostRepository;
+  private lotRepository: LotRepository;
+
+  constructor(pool: Pool) {
+    super(pool, 'material_consumption');
+    this.uomRepository = new UoMRepository(pool);
+    this.standardCostRepository = new StandardCostRepository(pool);
+    this.lotRepository = new LotRepository(pool);
+  }
+
+  /**
+   * Find consumption record by ID
+   */
+  async findById(id: string): Promise<MaterialConsumption | null> {
+    const result = await this.executeQuery<MaterialConsumption>(
+      `SELECT ${CONSUMPTION_COLUMNS}
+       FROM material_consumption mc
+       INNER JOIN products p ON mc.product_id = p.id
+       WHERE mc.id = $1 AND mc.is_active = true`,
+      [id]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Find consumption recorded against an operation
+   */
+  async findByOperationId(operationId: string): Promise<MaterialConsumption[]> {
+    const result = await this.executeQuery<MaterialConsumption>(
+      `SELECT ${CONSUMPTION_COLUMNS}
+       FROM material_consumption mc
+       INNER JOIN products p ON mc.product_id = p.id
+       WHERE mc.operation_id = $1 AND mc.is_active = true
+       ORDER BY mc.transaction_date ASC`,
+      [operationId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Planned, consumed and waste cost of the materials of an operation. Planned
+   * quantities repeat on every record against a BOM item, so each item's
+   * planned cost is counted once.
+   */
+  async getOperationSummary(operationId: string): Promise<OperationMaterialSummary> {
+    const result = await this.executeQuery<{
+      totalMaterials: number;
+      totalPlannedCost: number;
+      totalActualCost: number;
+      totalWasteCost: number;
+    }>(
+      `WITH planned AS (
+         SELECT MAX(planned_quantity * COALESCE(unit_cost, 0)) as cost
+         FROM material_consumption
+         WHERE operation_id = $1 AND is_active = true
+         GROUP BY product_id, bom_item_id
+       )
+       SELECT
+         COUNT(DISTINCT mc.product_id)::int as "totalMaterials",
+         (SELECT COALESCE(SUM(cost), 0) FROM planned)::float8 as "totalPlannedCost",
+         COALESCE(SUM(mc.total_cost), 0)::float8 as "totalActualCost",
+         COALESCE(SUM(mc.waste_cost), 0)::float8 as "totalWasteCost"
+       FROM material_consumption mc
+       WHERE mc.operation_id = $1 AND mc.is_active = true`,
+      [operationId]
+    );
+    const totals = result.rows[0];
+    const percentage = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 1000) / 10 : 0);
+
+    return {
+      totalMaterials: totals.totalMaterials,
+      totalPlannedCost: roundQuantity(totals.totalPlannedCost),
+      totalActualCost: roundQuantity(totals.totalActualCost),
+      totalWasteCost: roundQuantity(totals.totalWasteCost),
+      materialEfficiency: percentage(totals.totalActualCost, totals.totalPlannedCost),
+      wastePercentage: percentage(totals.totalWasteCost, totals.totalActualCost + totals.totalWasteCost),
+    };
+  }
+
+  /**
+   * Record consumption of a material by an operation. Consumed and waste
+   * quantities are stored in the BOM item's unit; when a lot is given, their
+   * sum is converted to the lot's unit and drawn from the lot.
+   */
+  async recordConsumption(data: RecordConsumptionInput): Promise<MaterialConsumption> {
+    const operation = await this.executeQuery<{
+      manufacturingOrderId: string;
+      productId: string;
+      bomId: string | null;
+      quantity: number;
+      uom: string;
+    }>(
+      `SELECT
+         o.manufacturing_order_id as "manufacturingOrderId",
+         mo.product_id as "productId",
+         mo.bom_id as "bomId",
+         mo.quantity::float8 as quantity,
+         mo.uom
+       FROM manufacturing_order_operations o
+       INNER JOIN manufacturing_orders mo ON o.manufacturing_order_id = mo.id
+       WHERE o.id = $1 AND o.is_active = true`,
+      [data.operationId]
+    );
+    const order = operation.rows[0];
+    if (!order) {
+      throw new Error(`Operation with ID ${data.operationId} not found`);
+    }
+
+    const material = await this.executeQuery<{ uom: string }>(
+      `SELECT uom FROM products WHERE id = $1 AND is_active = true`,
+      [data.materialId]
+    );
+    if (material.rows.length === 0) {
+      throw new Error(`Product with ID ${data.materialId} does not exist`);
+    }
+
+    let uom = material.rows[0].uom;
+    let plannedQuantity = 0;
+
+    if (data.bomItemId) {
+      const item = await this.executeQuery<{ componentProductId: string; quantity: number; uom: string }>(
+        `SELECT component_product_id as "componentProductId", quantity::float8 as quantity, uom
+         FROM bom_items
+         WHERE id = $1 AND bom_id = $2 AND is_active = true`,
+        [data.bomItemId, order.bomId]
+      );
+      const bomItem = item.rows[0];
+      if (!bomItem) {
+        throw new Error(`Validation failed: BOM item ${data.bomItemId} is not on the order's BOM`);
+      }
+      if (bomItem.componentProductId !== data.materialId) {
+        throw new Error(`Validation failed: BOM item ${data.bomItemId} is for a different material`);
+      }
+
+      // BOM quantities are per unit of the parent product's own unit
+      const parent = await this.executeQuery<{ uom: string }>(
+        `SELECT uom FROM products WHERE id = $1`,
+        [order.productId]
+      );
+      const orderQuantity = await this.uomRepository.convert(order.quantity, order.uom, parent.rows[0].uom, order.productId);
+
+      uom = bomItem.uom;
+      plannedQuantity = roundQuantity(bomItem.quantity * orderQuantity.convertedQuantity);
+    }
+
+    const enteredUom = data.uom ?? uom;
+    const toBOMUnit = await this.uomRepository.convert(1, enteredUom, uom, data.materialId);
+    const consumedQuantity = roundQuantity(data.consumedQuantity * toBOMUnit.factor);
+    const wasteQuantity = roundQuantity((data.wasteQuantity ?? 0) * toBOMUnit.factor);
+
+    // Standard cost is per unit of the cost's uom; restate it per unit recorded
+    let unitCost: number | null = null;
+    const standardCost = await this.standardCostRepository.findCost(data.materialId);
+    if (standardCost) {
+      const toCostUnit = await this.uomRepository.convert(1, uom, standardCost.uom, data.materialId);
+      unitCost = Math.round(standardCost.totalCost * toCostUnit.factor * 1e6) / 1e6;
+    }
+
+    const client = await this.beginTransaction();
+    let consumptionId: string;
+    try {
+      let lotQuantity: number | null = null;
+      let lotUom: string | null = null;
+
+      if (data.lotId) {
+        const lotResult = await client.query(
+          `SELECT lot_number, product_id, quantity::float8 as quantity, uom, status
+           FROM lots WHERE id = $1 AND is_active = true
+           FOR UPDATE`,
+          [data.lotId]
+        );
+        const lot = lotResult.rows[0];
+        if (!lot) {
+          throw new Error(`Lot with ID ${data.lotId} does not exist`);
+        }
+        if (lot.product_id !== data.materialId) {
+          throw new Error(`Validation failed: lot ${lot.lot_number} is for a different material`);
+        }
+        if (lot.status !== 'AVAILABLE') {
+          throw new Error(`Validation failed: lot ${lot.lot_number} is ${lot.status}`);
+        }
+
+        const drawn = await this.uomRepository.convert(
+          data.consumedQuantity + (data.wasteQuantity ?? 0),
+          enteredUom,
+          lot.uom,
+          data.materialId
+        );
+        lotQuantity = roundQuantity(drawn.convertedQuantity);
+        lotUom = drawn.toUom;
+
+        if (lotQuantity > lot.quantity) {
+          throw new Error(
+            `Validation failed: lot ${lot.lot_number} holds ${lot.quantity} ${lot.uom}; ${lotQuantity} ${lot.uom} requested`
+          );
+        }
+      }
+
+      const insert = await client.query(
+        `INSERT INTO material_consumption
+           (operation_id, manufacturing_order_id, product_id, bom_item_id, lot_id, uom, entered_uom,
+            planned_quantity, consumed_quantity, waste_quantity, lot_quantity, lot_uom, unit_cost, total_cost, waste_cost,
+            waste_reason, recorded_by, notes)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
+         RETURNING id`,
+        [
+          data.operationId,
+          order.manufacturingOrderId,
+          data.materialId,
+          data.bomItemId,
+          data.lotId,
+          toBOMUnit.toUom,
+          toBOMUnit.fromUom,
+          plannedQuantity,
+          consumedQuantity,
+          wasteQuantity,
+          lotQuantity,
+          lotUom,
+          unitCost,
+          unitCost === null ? null : roundQuantity(consumedQuantity * unitCost),
+          unitCost === null ? null : roundQuantity(wasteQuantity * unitCost),
+          data.wasteReason,
+          data.recordedBy,
+          data.notes,
+        ]
+      );
+      consumptionId = insert.rows[0].id;
+
+      // Draw the consumed and wasted quantity from the lot through the ledger
+      if (data.lotId && lotQuantity) {
+        await this.lotRepository.post(client, {
+          lotId: data.lotId,
+          transactionType: 'ISSUE',
+          quantity: -lotQuantity,
+          enteredQuantity: data.consumedQuantity + (data.wasteQuantity ?? 0),
+          enteredUom: toBOMUnit.fromUom,
+          referenceType: 'MATERIAL_CONSUMPTION',
+          referenceId: consumptionId,
+          performedBy: data.recordedBy,
+        });
+
+        // Late consumption on a completed order still reaches its output lots
+        await this.lotRepository.linkGenealogy(client, order.manufacturingOrderId);
+      }
+
+      await this.commitTransaction(client);
+    } catch (error) {
+      await this.rollbackTransaction(client);
+      throw error;
+    }
+
+    return (await this.findById(consumptionId))!;
+  }
+}
@@ -0,0 +1,80 @@
+import { Pool } from 'pg';
+import { NCRSeverityRule, QualityCheckTypeType } from '@akazify/core-domain';
+import { BaseRepository } from './base';
+
+const RULE_COLUMNS = `
+  id,
+  check_type as "checkType",
+  severity,
+  category,
+  auto_create as "autoCreate",
+  is_active as "isActive",
+  created_at as "createdAt",
+  updated_at as "updatedAt",
+  version
+`;
+
+/**
+ * NCR severity rule repository - configures how NCRs drafted from failed
+ * quality checks are classified
+ */
+export class NCRSeverityRuleRepository extends BaseRepository<NCRSeverityRule> {
+  constructor(pool: Pool) {
+    super(pool, 'ncr_severity_rules');
+  }
+
+  /**
+   * List all active rules
+   */
+  async findAllRules(): Promise<NCRSeverityRule[]> {
+    const query = `
+      SELECT ${RULE_COLUMNS}
+      FROM ncr_severity_rules
+      WHERE is_active = true
+      ORDER BY check_type ASC
+    `;
+    const result = await this.executeQuery<NCRSeverityRule>(query, []);
+    return result.rows;
+  }
+
+  /**
+   * Find the rule for a quality check type
+   */
+  async findByCheckType(checkType: QualityCheckTypeType): Promise<NCRSeverityRule | null> {
+    const query = `
+      SELECT ${RULE_COLUMNS}
+      FROM ncr_severity_rules
+      WHERE check_type = $1 AND is_active = true
+    `;
+    const result = await this.executeQuery<NCRSeverityRule>(query, [checkType]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Create or replace the rule for a quality check type
+   */
+  async upsertRule(
+    checkType: QualityCheckTypeType,
+    data: Pick<NCRSeverityRule, 'severity' | 'category'> & { autoCreate?: boolean }
+  ): Promise<NCRSeverityRule> {
+    const query = `
+      INSERT INTO ncr_severity_rules (check_type, severity, category, auto_create)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (check_type) DO UPDATE SET
+        severity = EXCLUDED.severity,
+        category = EXCLUDED.category,
+        auto_create = EXCLUDED.auto_create,
+        is_active = true,
+        updated_at = NOW(),
+        version = ncr_severity_rules.version + 1
+      RETURNING ${RULE_COLUMNS}
+    `;
+    const result = await this.executeQuery<NCRSeverityRule>(query, [
+      checkType,
+      data.severity,
+      data.category,
+      data.autoCreate ?? true,
+    ]);
+    return result.rows[0];
+  }
+}
@@ -0,0 +1,637 @@
+import { Pool, PoolClient } from 'pg';
+import {
+  NonConformanceReport,
+  NCRSeverityType,
+  NCRStatusType,
+  NCRCategoryType,
+  NCRSummary,
+  NCRSeverityRule,
+  EnhancedQualityCheck,
+} from '@akazify/core-domain';
+import { BaseRepository, FilterOptions, PaginatedResult, PaginationOptions } from './base';
+
+/**
+ * Non-conformance specific filter options
+ */
+export interface NCRFilterOptions extends FilterOptions {
+  manufacturingOrderId?: string;
+  operationId?: string;
+  qualityCheckId?: string;
+  productId?: string;
+  lotId?: string;
+  severity?: NCRSeverityType;
+  status?: NCRStatusType;
+  category?: NCRCategoryType;
+}
+
+/**
+ * Fields that may be supplied alongside a status transition
+ */
+export interface NCRTransitionData {
+  immediateAction?: string;
+  rootCause?: string;
+  correctiveAction?: string;
+  preventiveAction?: string;
+  quantityRejected?: number;
+  quantityReworked?: number;
+  quantityAccepted?: number;
+  actualCost?: number;
+  verifiedBy?: string;
+  verifiedByName?: string;
+  verificationDate?: Date;
+  verificationNotes?: string;
+}
+
+/**
+ * Reporter recorded on NCRs drafted without an identified inspector
+ */
+const SYSTEM_USER_ID = '00000000-0000-0000-0000-000000000000';
+
+/**
+ * Fields that must be present on an NCR before it may enter each status
+ */
+const NCR_REQUIRED_FIELDS: Record<string, string[]> = {
+  'INVESTIGATING': ['immediateAction'],
+  'RESOLVED': ['rootCause', 'correctiveAction'],
+  'CLOSED': ['verifiedBy', 'verificationDate'],
+};
+
+/**
+ * Disposition and quantity fields, fixed once an NCR is resolved
+ */
+const NCR_DISPOSITION_FIELDS = [
+  'quantityAffected',
+  'quantityRejected',
+  'quantityReworked',
+  'quantityAccepted',
+  'rootCause',
+  'correctiveAction',
+  'preventiveAction',
+];
+
+/**
+ * Quantity in ten-thousandths, the scale of the DECIMAL(10,4) quantity
+ * columns, so that sums compare exactly
+ */
+function toQuantityUnits(value: unknown): number {
+  return Math.round(Number(value || 0) * 1e4);
+}
+
+/**
+ * Column list shared by every NCR query. DECIMAL columns are cast so the API
+ * returns numbers rather than pg's string representation.
+ */
+const NCR_COLUMNS = `
+  id,
+  ncr_number as "ncrNumber",
+  operation_id as "operationId",
+  manufacturing_order_id as "manufacturingOrderId",
+  quality_check_id as "qualityCheckId",
+  product_id as "productId",
+  lot_id as "lotId",
+  category,
+  severity,
+  status,
+  title,
+  description,
+  root_cause as "rootCause",
+  reported_by as "reportedBy",
+  reported_by_name as "reportedByName",
+  assigned_to as "assignedTo",
+  assigned_to_name as "assignedToName",
+  quantity_affected::float8 as "quantityAffected",
+  quantity_rejected::float8 as "quantityRejected",
+  quantity_reworked::float8 as "quantityReworked",
+  quantity_accepted::float8 as "quantityAccepted",
+  estimated_cost::float8 as "estimatedCost",
+  actual_cost::float8 as "actualCost",
+  detected_at as "detectedAt",
+  reported_at as "reportedAt",
+  target_close_date as "targetCloseDate",
+  actual_close_date as "actualCloseDate",
+  immediate_action as "immediateAction",
+  corrective_action as "correctiveAction",
+  preventive_action as "preventiveAction",
+  verified_by as "verifiedBy",
+  verified_by_name as "verifiedByName",
+  verification_date as "verificationDate",
+  verification_notes as "verificationNotes",
+  attachments,
+  document_references as "references",
+  is_active as "isActive",
+  created_at as "createdAt",
+  updated_at as "updatedAt",
+  version
+`;
+
+/**
+ * Non-conformance repository for quality issue tracking
+ */
+export class NonConformanceRepository extends BaseRepository<NonConformanceReport> {
+  constructor(pool: Pool) {
+    super(pool, 'ncrs');
+  }
+
+  /**
+   * Find NCR by ID
+   */
+  async findById(id: string): Promise<NonConformanceReport | null> {
+    const query = `
+      SELECT ${NCR_COLUMNS}
+      FROM ncrs
+      WHERE id = $1 AND is_active = true
+    `;
+    const result = await this.executeQuery<NonConformanceReport>(query, [id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Find NCR by NCR number
+   */
+  async findByNCRNumber(ncrNumber: string): Promise<NonConformanceReport | null> {
+    const query = `
+      SELECT ${NCR_COLUMNS}
+      FROM ncrs
+      WHERE ncr_number = $1 AND is_active = true
+    `;
+    const result = await this.executeQuery<NonConformanceReport>(query, [ncrNumber]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Find NCRs raised against an operation
+   */
+  async findByOperationId(operationId: string): Promise<NonConformanceReport[]> {
+    const query = `
+      SELECT ${NCR_COLUMNS}
+      FROM ncrs
+      WHERE operation_id = $1 AND is_active = true
+      ORDER BY reported_at DESC
+    `;
+    const result = await this.executeQuery<NonConformanceReport>(query, [operationId]);
+    return result.rows;
+  }
+
+  /**
+   * Find NCRs with filtering and pagination
+   */
+  async findWithFilters(
+    options: PaginationOptions = {},
+    filters: NCRFilterOptions = {}
+  ): Promise<PaginatedResult<NonConformanceReport>> {
+    const {
+      page = 1,
+      limit = 50,
+      sortBy = 'reported_at',
+      sortOrder = 'DESC' as const,
+    } = options;
+
+    const offset = (page - 1) * limit;
+    let whereClause = 'WHERE is_active = true';
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    // Add filters
+    if (filters.manufacturingOrderId) {
+      whereClause += ` AND manufacturing_order_id = $${paramIndex++}`;
+      params.push(filters.manufacturingOrderId);
+    }
+
+    if (filters.operationId) {
+      whereClause += ` AND operation_id = $${paramIndex++}`;
+      params.push(filters.operationId);
+    }
+
+    if (filters.qualityCheckId) {
+      whereClause += ` AND quality_check_id = $${paramIndex++}`;
+      params.push(filters.qualityCheckId);
+    }
+
+    if (filters.productId) {
+      whereClause += ` AND product_id = $${paramIndex++}`;
+      params.push(filters.productId);
+    }
+
+    if (filters.lotId) {
+      whereClause += ` AND lot_id = $${paramIndex++}`;
+      params.push(filters.lotId);
+    }
+
+    if (filters.severity) {
+      whereClause += ` AND severity = $${paramIndex++}`;
+      params.push(filters.severity);
+    }
+
+    if (filters.status) {
+      whereClause += ` AND status = $${paramIndex++}`;
+      params.push(filters.status);
+    }
+
+    if (filters.category) {
+      whereClause += ` AND category = $${paramIndex++}`;
+      params.push(filters.category);
+    }
+
+    // Count query
+    const countQuery = `SELECT COUNT(*) as total FROM ncrs ${whereClause}`;
+    const countResult = await this.executeQuery<{ total: string }>(countQuery, params);
+    const total = parseInt(countResult.rows[0].total);
+
+    // Main query
+    const dataQuery = `
+      SELECT ${NCR_COLUMNS}
+      FROM ncrs
+      ${whereClause}
+      ORDER BY ${sortBy} ${sortOrder}
+      LIMIT $${paramIndex++} OFFSET $${paramIndex++}
+    `;
+    const dataParams = [...params, limit, offset];
+    const dataResult = await this.executeQuery<NonConformanceReport>(dataQuery, dataParams);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data: dataResult.rows,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Create NCR with auto-generated NCR number
+   */
+  async createWithNCRNumber(
+    data: Omit<NonConformanceReport, 'id' | 'ncrNumber' | 'createdAt' | 'updatedAt' | 'version'>
+  ): Promise<NonConformanceReport> {
+    const client = await this.getClient();
+    try {
+      return await this.insertWithNCRNumber(client, data);
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Insert an NCR within the caller's transaction, numbering it NCR-YYYY-NNNN
+   */
+  private async insertWithNCRNumber(
+    client: PoolClient,
+    data: Omit<NonConformanceReport, 'id' | 'ncrNumber' | 'createdAt' | 'updatedAt' | 'version'>
+  ): Promise<NonConformanceReport> {
+    // Generate NCR number (format: NCR-YYYY-NNNN)
+    const year = new Date().getFullYear();
+    const countQuery = `
+      SELECT COUNT(*) as count
+      FROM ncrs
+      WHERE ncr_number LIKE 'NCR-${year}-%'
+    `;
+    const countResult = await client.query(countQuery);
+    const nextNumber = parseInt(countResult.rows[0].count) + 1;
+    const ncrNumber = `NCR-${year}-${nextNumber.toString().padStart(4, '0')}`;
+
+    const dbData = this.toNCRColumns({ ...data, ncrNumber });
+    const columns = Object.keys(dbData);
+    const values = Object.values(dbData);
+    const placeholders = values.map((_, index) => `$${index + 1}`).join(', ');
+
+    const query = `
+      INSERT INTO ${this.tableName} (${columns.join(', ')})
+      VALUES (${placeholders})
+      RETURNING ${NCR_COLUMNS}
+    `;
+
+    const result = await client.query(query, values);
+    return result.rows[0];
+  }
+
+  /**
+   * Draft an NCR from a failed quality check within the caller's transaction,
+   * inheriting its MO, operation and lot. Severity and category come from the
+   * rule configured for the check type.
+   */
+  async createFromQualityCheck(
+    client: PoolClient,
+    check: EnhancedQualityCheck,
+    productId: string,
+    rule: Pick<NCRSeverityRule, 'severity' | 'category'>
+  ): Promise<NonConformanceReport> {
+    const measured = check.measuredValue !== undefined && check.measuredValue !== null
+      ? Number(check.measuredValue)
+      : undefined;
+    const limits = [
+      check.minValue !== undefined && check.minValue !== null ? `min ${Number(check.minValue)}` : null,
+      check.maxValue !== undefined && check.maxValue !== null ? `max ${Number(check.maxValue)}` : null,
+    ].filter(Boolean).join(', ');
+
+    const descriptionLines = [
+      `Quality check ${check.checkId} (${check.name}) recorded a non-conformance.`,
+      check.specification ? `Specification: ${check.specification}` : null,
+      measured !== undefined
+        ? `Measured value: ${measured}${check.unit ? ` ${check.unit}` : ''}${limits ? ` (${limits})` : ''}`
+        : null,
+      check.notes ? `Inspector notes: ${check.notes}` : null,
+    ].filter(Boolean);
+
+    return this.insertWithNCRNumber(client, {
+      qualityCheckId: check.id,
+      manufacturingOrderId: check.manufacturingOrderId,
+      operationId: check.operationId || undefined,
+      productId,
+      lotId: check.lotId || undefined,
+      category: rule.category,
+      severity: rule.severity,
+      status: 'OPEN',
+      title: `${check.name} failed`.slice(0, 200),
+      description: descriptionLines.join('\n').slice(0, 1000),
+      // Checks recorded without an inspector are attributed to the system
+      reportedBy: check.inspectorId || SYSTEM_USER_ID,
+      reportedByName: check.inspectorName || 'System',
+      quantityAffected: 1,
+      quantityRejected: 0,
+      quantityReworked: 0,
+      quantityAccepted: 0,
+      detectedAt: check.actualEndTime || new Date(),
+      reportedAt: new Date(),
+      attachments: [],
+      references: [],
+      isActive: true,
+    });
+  }
+
+  /**
+   * Update NCR by ID
+   */
+  async update(
+    id: string,
+    data: Partial<Omit<NonConformanceReport, 'id' | 'createdAt' | 'updatedAt' | 'version'>>
+  ): Promise<NonConformanceReport | null> {
+    const statement = this.buildUpdate(id, data);
+    if (!statement) {
+      return this.findById(id);
+    }
+
+    const result = await this.executeQuery<NonConformanceReport>(statement.query, statement.values);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Update the details of an NCR. Disposition and quantity fields are fixed
+   * once it is RESOLVED or CLOSED; before that the dispositioned quantities
+   * may not exceed the quantity affected.
+   */
+  async updateDetails(
+    id: string,
+    data: Partial<Omit<NonConformanceReport, 'id' | 'createdAt' | 'updatedAt' | 'version'>>
+  ): Promise<NonConformanceReport | null> {
+    const client = await this.beginTransaction();
+    try {
+      const currentNCR = await this.lockNCR(client, id);
+      if (!currentNCR) {
+        await this.rollbackTransaction(client);
+        return null;
+      }
+
+      if (currentNCR.status === 'RESOLVED' || currentNCR.status === 'CLOSED') {
+        const lockedFields = NCR_DISPOSITION_FIELDS.filter(
+          field => (data as Record<string, unknown>)[field] !== undefined
+        );
+        if (lockedFields.length > 0) {
+          throw new Error(
+            `Validation failed: ${lockedFields.join(', ')} cannot be changed once an NCR is ${currentNCR.status}`
+          );
+        }
+      } else {
+        this.assertQuantitiesReconcile({ ...currentNCR, ...data });
+      }
+
+      const statement = this.buildUpdate(id, data);
+      const updatedNCR = statement
+        ? (await client.query(statement.query, statement.values)).rows[0]
+        : currentNCR;
+
+      await this.commitTransaction(client);
+      return updatedNCR;
+    } catch (error) {
+      await this.rollbackTransaction(client);
+      throw error;
+    }
+  }
+
+  /**
+   * Move an NCR through its workflow, enforcing the fields each step requires.
+   * Any supplied transition data is saved together with the status change.
+   */
+  async updateStatus(
+    id: string,
+    newStatus: NCRStatusType,
+    transitionData: NCRTransitionData = {}
+  ): Promise<{ ncr: NonConformanceReport; previousStatus: NCRStatusType }> {
+    const client = await this.beginTransaction();
+    try {
+      const currentNCR = await this.lockNCR(client, id);
+      if (!currentNCR) {
+        throw new Error(`NCR with ID ${id} not found`);
+      }
+
+      // Validate status transition
+      const validTransitions: Record<string, string[]> = {
+        'OPEN': ['INVESTIGATING'],
+        'INVESTIGATING': ['CORRECTIVE_ACTION'],
+        'CORRECTIVE_ACTION': ['RESOLVED'],
+        'RESOLVED': ['CLOSED', 'CORRECTIVE_ACTION'], // Back to corrective action if verification fails
+        'CLOSED': [] // Terminal state
+      };
+
+      if (!validTransitions[currentNCR.status].includes(newStatus)) {
+        throw new Error(`Invalid status transition from ${currentNCR.status} to ${newStatus}`);
+      }
+
+      // Check required fields against the record as it will look after the update
+      const merged: Record<string, any> = { ...currentNCR, ...transitionData };
+      const missingFields = (NCR_REQUIRED_FIELDS[newStatus] || []).filter(
+        field => merged[field] === undefined || merged[field] === null || merged[field] === ''
+      );
+
+      if (missingFields.length > 0) {
+        throw new Error(
+          `Transition requirements not met: ${missingFields.join(', ')} required before moving to ${newStatus}`
+        );
+      }
+
+      this.assertQuantitiesReconcile(merged, newStatus);
+
+      const updateData: Record<string, any> = { ...transitionData, status: newStatus };
+
+      if (newStatus === 'CLOSED') {
+        updateData.actualCloseDate = new Date();
+      }
+
+      const statement = this.buildUpdate(id, updateData)!;
+      const result = await client.query(statement.query, statement.values);
+
+      await this.commitTransaction(client);
+      return { ncr: result.rows[0], previousStatus: currentNCR.status };
+    } catch (error) {
+      await this.rollbackTransaction(client);
+      throw error;
+    }
+  }
+
+  /**
+   * Dispositioned quantities can never exceed what was affected, and must
+   * account for all of it before the NCR is resolved. Sums are compared at
+   * the columns' scale rather than as floats.
+   */
+  private assertQuantitiesReconcile(ncr: Record<string, any>, newStatus?: NCRStatusType): void {
+    const dispositioned =
+      toQuantityUnits(ncr.quantityRejected) +
+      toQuantityUnits(ncr.quantityReworked) +
+      toQuantityUnits(ncr.quantityAccepted);
+    const affected = toQuantityUnits(ncr.quantityAffected);
+
+    if (dispositioned > affected) {
+      throw new Error(
+        `Quantity reconciliation failed: rejected + reworked + accepted (${dispositioned / 1e4}) exceeds quantity affected (${affected / 1e4})`
+      );
+    }
+
+    if ((newStatus === 'RESOLVED' || newStatus === 'CLOSED') && dispositioned !== affected) {
+      throw new Error(
+        `Quantity reconciliation failed: rejected + reworked + accepted (${dispositioned / 1e4}) must equal quantity affected (${affected / 1e4}) before moving to ${newStatus}`
+      );
+    }
+  }
+
+  /**
+   * Get NCR summary, optionally scoped to an operation or manufacturing order
+   */
+  async getSummary(scope: { operationId?: string; manufacturingOrderId?: string } = {}): Promise<NCRSummary> {
+    let whereClause = 'WHERE is_active = true';
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    if (scope.operationId) {
+      whereClause += ` AND operation_id = $${paramIndex++}`;
+      params.push(scope.operationId);
+    }
+
+    if (scope.manufacturingOrderId) {
+      whereClause += ` AND manufacturing_order_id = $${paramIndex++}`;
+      params.push(scope.manufacturingOrderId);
+    }
+
+    const query = `
+      SELECT
+        COUNT(*) as total,
+        COUNT(*) FILTER (WHERE status = 'OPEN') as open,
+        COUNT(*) FILTER (WHERE status IN ('INVESTIGATING', 'CORRECTIVE_ACTION')) as investigating,
+        COUNT(*) FILTER (WHERE status = 'RESOLVED') as resolved,
+        COUNT(*) FILTER (WHERE status = 'CLOSED') as closed,
+        COUNT(*) FILTER (WHERE severity = 'MINOR') as minor,
+        COUNT(*) FILTER (WHERE severity = 'MAJOR') as major,
+        COUNT(*) FILTER (WHERE severity = 'CRITICAL') as critical,
+        AVG(EXTRACT(EPOCH FROM (actual_close_date - reported_at)) / 86400)
+          FILTER (WHERE actual_close_date IS NOT NULL) as avg_resolution_days,
+        COUNT(*) FILTER (
+          WHERE target_close_date < NOW() AND status NOT IN ('RESOLVED', 'CLOSED')
+        ) as overdue,
+        COALESCE(SUM(estimated_cost), 0) as total_estimated_cost,
+        COALESCE(SUM(actual_cost), 0) as total_actual_cost
+      FROM ncrs
+      ${whereClause}
+    `;
+
+    const result = await this.executeQuery<{
+      total: string;
+      open: string;
+      investigating: string;
+      resolved: string;
+      closed: string;
+      minor: string;
+      major: string;
+      critical: string;
+      avg_resolution_days: string | null;
+      overdue: string;
+      total_estimated_cost: string;
+      total_actual_cost: string;
+    }>(query, params);
+    const row = result.rows[0];
+
+    return {
+      operationId: scope.operationId,
+      manufacturingOrderId: scope.manufacturingOrderId,
+      totalNCRs: parseInt(row?.total || '0'),
+      openNCRs: parseInt(row?.open || '0'),
+      investigatingNCRs: parseInt(row?.investigating || '0'),
+      resolvedNCRs: parseInt(row?.resolved || '0'),
+      closedNCRs: parseInt(row?.closed || '0'),
+      minorNCRs: parseInt(row?.minor || '0'),
+      majorNCRs: parseInt(row?.major || '0'),
+      criticalNCRs: parseInt(row?.critical || '0'),
+      averageResolutionDays: parseFloat(row?.avg_resolution_days || '0'),
+      overdueNCRs: parseInt(row?.overdue || '0'),
+      totalEstimatedCost: parseFloat(row?.total_estimated_cost || '0'),
+      totalActualCost: parseFloat(row?.total_actual_cost || '0'),
+      lastUpdated: new Date(),
+    };
+  }
+
+  /**
+   * Map NCR fields to database columns. `references` is a reserved word in
+   * SQL, and the JSONB arrays must be serialised before being bound.
+   */
+  /**
+   * Read an NCR and lock its row until the transaction ends, so concurrent
+   * changes are validated one at a time
+   */
+  private async lockNCR(client: PoolClient, id: string): Promise<NonConformanceReport | null> {
+    const result = await client.query(
+      `SELECT ${NCR_COLUMNS} FROM ncrs WHERE id = $1 AND is_active = true FOR UPDATE`,
+      [id]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * UPDATE statement for the given fields, or null when there is nothing to set
+   */
+  private buildUpdate(id: string, data: Record<string, any>): { query: string; values: any[] } | null {
+    const dbData = this.toNCRColumns(data);
+    const columns = Object.keys(dbData);
+    if (columns.length === 0) {
+      return null;
+    }
+
+    const setClause = columns.map((col, index) => `${col} = $${index + 2}`).join(', ');
+    return {
+      query: `
+        UPDATE ${this.tableName}
+        SET ${setClause}, updated_at = NOW()
+        WHERE id = $1 AND is_active = true
+        RETURNING ${NCR_COLUMNS}
+      `,
+      values: [id, ...Object.values(dbData)],
+    };
+  }
+
+  private toNCRColumns(data: Record<string, any>): Record<string, any> {
+    const { references, attachments, ...rest } = data;
+    const dbData = this.convertKeysToSnakeCase(rest);
+
+    if (references !== undefined) {
+      dbData.document_references = JSON.stringify(references);
+    }
+
+    if (attachments !== undefined) {
+      dbData.attachments = JSON.stringify(attachments);
+    }
+
+    return dbData;
+  }
+}
@@ -0,0 +1,297 @@
+import { Pool } from 'pg';
+import { Product, ProductSchema } from '@akazify/core-domain';
+import { BaseRepository, FilterOptions, PaginatedResult, PaginationOptions } from './base';
+import { UoMRepository } from './uom.repository';
+
+/**
+ * Product-specific filter options
+ */
+export interface ProductFilterOptions extends FilterOptions {
+  category?: string;
+  uom?: string;
+  search?: string; // Full-text search on SKU and name
+}
+
+/**
+ * Manufacturing order statuses that still need their product
+ */
+const OPEN_MO_STATUSES = ['PLANNED', 'RELEASED', 'IN_PROGRESS'];
+
+/**
+ * Search document; must match the expression of idx_products_search
+ */
+const SEARCH_VECTOR = `to_tsvector('simple', sku || ' ' || name)`;
+
+const PRODUCT_COLUMNS = `
+  id,
+  sku,
+  name,
+  description,
+  category,
+  uom,
+  weight::float8 as weight,
+  dimensions,
+  is_active as "isActive",
+  created_at as "createdAt",
+  updated_at as "updatedAt",
+  version
+`;
+
+/**
+ * Turn free text into a prefix tsquery, so "wid 12" matches "Widget 1200"
+ */
+function toPrefixQuery(search: string): string | null {
+  const terms = search
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean);
+
+  return terms.length > 0 ? terms.map(term => `${term}:*`).join(' & ') : null;
+}
+
+/**
+ * Product repository for database operations
+ */
+export class ProductRepository extends BaseRepository<Product> {
+  private uomRepository: UoMRepository;
+
+  constructor(pool: Pool) {
+    super(pool, 'products');
+    this.uomRepository = new UoMRepository(pool);
+  }
+
+  /**
+   * Find product by ID
+   */
+  async findById(id: string): Promise<Product | null> {
+    const query = `
+      SELECT ${PRODUCT_COLUMNS}
+      FROM products
+      WHERE id = $1 AND is_active = true
+    `;
+    const result = await this.executeQuery<Product>(query, [id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Find product by SKU, including inactive products since SKUs are never reused
+   */
+  async findBySku(sku: string): Promise<Product | null> {
+    const query = `
+      SELECT ${PRODUCT_COLUMNS}
+      FROM products
+      WHERE sku = $1
+    `;
+    const result = await this.executeQuery<Product>(query, [sku]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Find products with filtering, search and pagination. Search results are
+   * ranked by relevance unless a sort column is given.
+   */
+  async findWithFilters(
+    options: PaginationOptions = {},
+    filters: ProductFilterOptions = {}
+  ): Promise<PaginatedResult<Product>> {
+    const {
+      page = 1,
+      limit = 50,
+      sortOrder = 'ASC' as const,
+    } = options;
+
+    const offset = (page - 1) * limit;
+    const whereConditions: string[] = [];
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    // Always filter by is_active unless explicitly set to false
+    if (filters.isActive !== false) {
+      whereConditions.push(`is_active = $${paramIndex++}`);
+      params.push(filters.isActive ?? true);
+    }
+
+    if (filters.category) {
+      whereConditions.push(`category = $${paramIndex++}`);
+      params.push(filters.category);
+    }
+
+    if (filters.uom) {
+      whereConditions.push(`uom = $${paramIndex++}`);
+      params.push(filters.uom);
+    }
+
+    let rankExpression: string | null = null;
+    const tsQuery = filters.search ? toPrefixQuery(filters.search) : null;
+    if (filters.search && tsQuery) {
+      const queryParam = paramIndex++;
+      whereConditions.push(
+        `(${SEARCH_VECTOR} @@ to_tsquery('simple', $${queryParam}) OR sku ILIKE $${paramIndex++})`
+      );
+      params.push(tsQuery, `%${filters.search.trim()}%`);
+      rankExpression = `ts_rank(${SEARCH_VECTOR}, to_tsquery('simple', $${queryParam}))`;
+    }
+
+    const whereClause = whereConditions.length > 0
+      ? `WHERE ${whereConditions.join(' AND ')}`
+      : '';
+
+    // Count query
+    const countQuery = `SELECT COUNT(*) as total FROM products ${whereClause}`;
+    const countResult = await this.executeQuery<{ total: string }>(countQuery, params);
+    const total = parseInt(countResult.rows[0]?.total || '0');
+
+    const orderBy = options.sortBy
+      ? `${options.sortBy} ${sortOrder}`
+      : rankExpression
+        ? `${rankExpression} DESC, name ASC`
+        : `name ${sortOrder}`;
+
+    // Main query
+    const dataQuery = `
+      SELECT ${PRODUCT_COLUMNS}
+      FROM products
+      ${whereClause}
+      ORDER BY ${orderBy}
+      LIMIT $${paramIndex++} OFFSET $${paramIndex++}
+    `;
+    const dataParams = [...params, limit, offset];
+    const dataResult = await this.executeQuery<Product>(dataQuery, dataParams);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data: dataResult.rows,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Distinct categories and units of measure in use, for filter pickers
+   */
+  async getFacets(): Promise<{ categories: string[]; uoms: string[] }> {
+    const [categoryResult, uomResult] = await Promise.all([
+      this.executeQuery<{ category: string }>(
+        `SELECT DISTINCT category FROM products WHERE is_active = true AND category IS NOT NULL ORDER BY category`
+      ),
+      this.executeQuery<{ uom: string }>(
+        `SELECT DISTINCT uom FROM products WHERE is_active = true ORDER BY uom`
+      ),
+    ]);
+
+    return {
+      categories: categoryResult.rows.map(row => row.category),
+      uoms: uomResult.rows.map(row => row.uom),
+    };
+  }
+
+  /**
+   * Create product with validation
+   */
+  async create(data: Omit<Product, 'id' | 'createdAt' | 'updatedAt' | 'version'>): Promise<Product> {
+    // Validate data against schema
+    const validatedData = ProductSchema.omit({
+      id: true,
+      createdAt: true,
+      updatedAt: true,
+      version: true
+    }).parse(data);
+
+    await this.assertSkuAvailable(validatedData.sku);
+    validatedData.uom = await this.uomRepository.resolveCode(validatedData.uom);
+
+    const created = await super.create(validatedData);
+    return (await this.findById(created.id))!;
+  }
+
+  /**
+   * Update product with validation
+   */
+  async update(id: string, data: Partial<Omit<Product, 'id' | 'createdAt' | 'updatedAt' | 'version'>>): Promise<Product | null> {
+    // Validate partial data against schema
+    const validatedData = ProductSchema.omit({
+      id: true,
+      createdAt: true,
+      updatedAt: true,
+      version: true
+    }).partial().parse(data);
+
+    if (validatedData.sku) {
+      await this.assertSkuAvailable(validatedData.sku, id);
+    }
+
+    if (validatedData.uom) {
+      validatedData.uom = await this.uomRepository.resolveCode(validatedData.uom);
+    }
+
+    const updated = await super.update(id, validatedData);
+    return updated ? this.findById(id) : null;
+  }
+
+  /**
+   * Check if product can be deleted (no BOMs, routings or open manufacturing
+   * orders reference it)
+   */
+  async canDelete(id: string): Promise<{ canDelete: boolean; reason?: string }> {
+    const queries = [
+      `SELECT COUNT(*) as count FROM boms WHERE product_id = $1 AND is_active = true AND status <> 'OBSOLETE'`,
+      `SELECT COUNT(DISTINCT b.id) as count
+       FROM bom_items bi
+       INNER JOIN boms b ON bi.bom_id = b.id
+       WHERE bi.component_product_id = $1 AND bi.is_active = true AND b.is_active = true AND b.status <> 'OBSOLETE'`,
+      'SELECT COUNT(*) as count FROM routings WHERE product_id = $1 AND is_active = true',
+      'SELECT COUNT(*) as count FROM manufacturing_orders WHERE product_id = $1 AND status = ANY($2) AND is_active = true',
+    ];
+
+    const [bomResult, componentResult, routingResult, orderResult] = await Promise.all([
+      this.executeQuery<{ count: string }>(queries[0], [id]),
+      this.executeQuery<{ count: string }>(queries[1], [id]),
+      this.executeQuery<{ count: string }>(queries[2], [id]),
+      this.executeQuery<{ count: string }>(queries[3], [id, OPEN_MO_STATUSES]),
+    ]);
+
+    const bomCount = parseInt(bomResult.rows[0]?.count || '0');
+    const componentCount = parseInt(componentResult.rows[0]?.count || '0');
+    const routingCount = parseInt(routingResult.rows[0]?.count || '0');
+    const orderCount = parseInt(orderResult.rows[0]?.count || '0');
+
+    if (bomCount > 0) {
+      return { canDelete: false, reason: `Product has ${bomCount} active BOMs` };
+    }
+
+    if (componentCount > 0) {
+      return { canDelete: false, reason: `Product is a component in ${componentCount} active BOMs` };
+    }
+
+    if (routingCount > 0) {
+      return { canDelete: false, reason: `Product has ${routingCount} active routings` };
+    }
+
+    if (orderCount > 0) {
+      return { canDelete: false, reason: `Product is referenced by ${orderCount} open manufacturing orders` };
+    }
+
+    return { canDelete: true };
+  }
+
+  /**
+   * Reject a SKU already used by another product
+   */
+  private async assertSkuAvailable(sku: string, excludeId?: string): Promise<void> {
+    const existing = await this.findBySku(sku);
+    if (existing && existing.id !== excludeId) {
+      throw new Error(
+        `Product with SKU '${sku}' already exists${existing.isActive ? '' : ' (inactive)'}`
+      );
+    }
+  }
+}
@@ -1,6 +1,8 @@
-import { Pool } from 'pg';
-import { EnhancedQualityCheck, QualityCheckStatusType, QualityCheckResultType } from '@akazify/core-domain';
+import { Pool, PoolClient } from 'pg';
+import { EnhancedQualityCheck, QualityCheckStatusType, QualityCheckResultType, QualityCheckTemplate } from '@akazify/core-domain';
 import { BaseRepository, FilterOptions, PaginatedResult, PaginationOptions } from './base';
+import { NonConformanceRepository } from './nonConformance.repository';
+import { NCRSeverityRuleRepository } from './ncrSeverityRule.repository';
 
 /**
  * Quality Check specific filter options
@@ -14,14 +16,35 @@ export interface QualityCheckFilterOptions extends FilterOptions {
   inspectorId?: string;
   checkType?: string;
   isRequired?: boolean;
+  supervisorReviewRequired?: boolean;
 }
 
+/**
+ * Second-check fields reset when a two-person check is re-inspected
+ */
+const CLEARED_VERIFICATION = {
+  secondCheckBy: null,
+  secondCheckResult: null,
+  secondCheckMeasuredValue: null,
+  secondCheckNotes: null,
+  secondCheckAt: null,
+  supervisorReviewRequired: false,
+  supervisorReviewBy: null,
+  supervisorReviewAt: null,
+  supervisorReviewNotes: null,
+};
+
 /**
  * Quality Check repository for managing quality inspections in manufacturing
  */
 export class QualityCheckRepository extends BaseRepository<EnhancedQualityCheck> {
+  private ncrRepository: NonConformanceRepository;
+  private severityRuleRepository: NCRSeverityRuleRepository;
+
   constructor(pool: Pool) {
     super(pool, 'quality_checks');
+    this.ncrRepository = new NonConformanceRepository(pool);
+    this.severityRuleRepository = new NCRSeverityRuleRepository(pool);
   }
 
   /**
@@ -35,6 +58,10 @@ export class QualityCheckRepository extends BaseRepository<EnhancedQualityCheck>
         manufacturing_order_id as "manufacturingOrderId",
         operation_id as "operationId",
         work_center_id as "workCenterId",
+        lot_id as "lotId",
+        serial_number_id as "serialNumberId",
+        template_id as "templateId",
+        quality_plan_item_id as "qualityPlanItemId",
         name,
         description,
         type,
@@ -50,6 +77,7 @@ export class QualityCheckRepository extends BaseRepository<EnhancedQualityCheck>
         result,
         measured_value as "measuredValue",
         notes,
+        checklist_items as "checklistItems",
         planned_start_time as "plannedStartTime",
         actual_start_time as "actualStartTime",
         planned_end_time as "plannedEndTime",
@@ -59,6 +87,13 @@ export class QualityCheckRepository extends BaseRepository<EnhancedQualityCheck>
         requires_second_check as "requiresSecondCheck",
         second_check_by as "secondCheckBy",
         second_check_result as "secondCheckResult",
+        second_check_measured_value as "secondCheckMeasuredValue",
+        second_check_notes as "secondCheckNotes",
+        second_check_at as "secondCheckAt",
+        supervisor_review_required as "supervisorReviewRequired",
+        supervisor_review_by as "supervisorReviewBy",
+        supervisor_review_at as "supervisorReviewAt",
+        supervisor_review_notes as "supervisorReviewNotes",
         non_conformance_id as "nonConformanceId",
         corrective_action as "correctiveAction",
         attachments,
@@ -85,6 +120,10 @@ export class QualityCheckRepository extends BaseRepository<EnhancedQualityCheck>
         manufacturing_order_id as "manufacturingOrderId",
         operation_id as "operationId",
         work_center_id as "workCenterId",
+        lot_id as "lotId",
+        serial_number_id as "serialNumberId",
+        template_id as "templateId",
+        quality_plan_item_id as "qualityPlanItemId",
         name,
         description,
         type,
@@ -100,6 +139,7 @@ export class QualityCheckRepository extends BaseRepository<EnhancedQualityCheck>
         result,
         measured_value as "measuredValue",
         notes,
+        checklist_items as "checklistItems",
         planned_start_time as "plannedStartTime",
         actual_start_time as "actualStartTime",
         planned_end_time as "plannedEndTime",
@@ -109,6 +149,13 @@ export class QualityCheckRepository extends BaseRepository<EnhancedQualityCheck>
         requires_second_check as "requiresSecondCheck",
         second_check_by as "secondCheckBy",
         second_check_result as "secondCheckResult",
+        second_check_measured_value as "secondCheckMeasuredValue",
+        second_check_notes as "secondCheckNotes",
+        second_check_at as "secondCheckAt",
+        supervisor_review_required as "supervisorReviewRequired",
+        supervisor_review_by as "supervisorReviewBy",
+        supervisor_review_at as "supervisorReviewAt",
+        supervisor_review_notes as "supervisorReviewNotes",
         non_conformance_id as "nonConformanceId",
         corrective_action as "correctiveAction",
         attachments,
@@ -188,6 +235,11 @@ export class QualityCheckRepository extends BaseRepository<EnhancedQualityCheck>
       params.push(filters.isRequired);
     }
 
+    if (filters.supervisorReviewRequired !== undefined) {
+      whereClause += ` AND qc.supervisor_review_required = $${paramIndex++}`;
+      params.push(filters.supervisorReviewRequired);
+    }
+
     // Count query
     const countQuery = `
       SELECT COUNT(*) as total 
@@ -208,6 +260,10 @@ export class QualityCheckRepository extends BaseRepository<EnhancedQualityCheck>
         qc.manufacturing_order_id as "manufacturingOrderId",
         qc.operation_id as "operationId",
         qc.work_center_id as "workCenterId",
+        qc.lot_id as "lotId",
+        qc.serial_number_id as "serialNumberId",
+        qc.template_id as "templateId",
+        qc.quality_plan_item_id as "qualityPlanItemId",
         qc.name,
         qc.description,
         qc.type,
@@ -223,6 +279,7 @@ export class QualityCheckRepository extends BaseRepository<EnhancedQualityCheck>
         qc.result,
         qc.measured_value as "measuredValue",
         qc.notes,
+        qc.checklist_items as "checklistItems",
         qc.planned_start_time as "plannedStartTime",
         qc.actual_start_time as "actualStartTime",
         qc.planned_end_time as "plannedEndTime",
@@ -232,6 +289,13 @@ export class QualityCheckRepository extends BaseRepository<EnhancedQualityCheck>
         qc.requires_second_check as "requiresSecondCheck",
         qc.second_check_by as "secondCheckBy",
         qc.second_check_result as "secondCheckResult",
+        qc.second_check_measured_value as "secondCheckMeasuredValue",
+        qc.second_check_notes as "secondCheckNotes",
+        qc.second_check_at as "secondCheckAt",
+        qc.supervisor_review_required as "supervisorReviewRequired",
+        qc.supervisor_review_by as "supervisorReviewBy",
+        qc.supervisor_review_at as "supervisorReviewAt",
+        qc.supervisor_review_notes as "supervisorReviewNotes",
         qc.non_conformance_id as "nonConformanceId",
         qc.corrective_action as "correctiveAction",
         qc.attachments,
@@ -294,6 +358,7 @@ export class QualityCheckRepository extends BaseRepository<EnhancedQualityCheck>
     const validTransitions: Record<QualityCheckStatusType, QualityCheckStatusType[]> = {
       'PENDING': ['IN_PROGRESS', 'SKIPPED'],
       'IN_PROGRESS': ['PASSED', 'FAILED', 'PENDING'], // Can go back to pending
+      'PENDING_VERIFICATION': ['IN_PROGRESS'], // Restart inspection before verification
       'PASSED': ['IN_PROGRESS'], // Allow re-inspection
       'FAILED': ['IN_PROGRESS'], // Allow re-inspection
       'SKIPPED': ['IN_PROGRESS'], // Can be un-skipped
@@ -303,8 +368,23 @@ export class QualityCheckRepository extends BaseRepository<EnhancedQualityCheck>
       throw new Error(`Invalid status transition from ${currentQC.status} to ${newStatus}`);
     }
 
+    // Two-person checks only reach a final status through verification
+    if (currentQC.requiresSecondCheck && (newStatus === 'PASSED' || newStatus === 'FAILED')) {
+      throw new Error(`Invalid status transition from ${currentQC.status} to ${newStatus}: check requires a second check`);
+    }
+
+    // A disagreement is cleared only by the supervisor's result
+    if (currentQC.supervisorReviewRequired) {
+      throw new Error(`Invalid status transition from ${currentQC.status} to ${newStatus}: check is awaiting supervisor review`);
+    }
+
     // Update timestamps and inspector info based on status
     const updateData: any = { status: newStatus };
+
+    // Re-inspection discards any earlier verification
+    if (newStatus === 'IN_PROGRESS' && currentQC.requiresSecondCheck) {
+      Object.assign(updateData, CLEARED_VERIFICATION);
+    }
     
     if (newStatus === 'IN_PROGRESS' && !currentQC.actualStartTime) {
       updateData.actualStartTime = new Date();
@@ -326,7 +406,8 @@ export class QualityCheckRepository extends BaseRepository<EnhancedQualityCheck>
   }
 
   /**
-   * Record inspection results
+   * Record inspection results. A non-conforming result drafts an NCR in the
+   * same transaction.
    */
   async recordResults(
     id: string,
@@ -341,26 +422,26 @@ export class QualityCheckRepository extends BaseRepository<EnhancedQualityCheck>
       throw new Error(`Quality check with ID ${id} not found`);
     }
 
-    // Auto-determine status based on result
-    let newStatus: QualityCheckStatusType;
-    switch (result) {
-      case 'PASS':
-        newStatus = 'PASSED';
-        break;
-      case 'FAIL':
-        newStatus = 'FAILED';
-        break;
-      case 'CONDITIONAL_PASS':
-        newStatus = 'PASSED'; // Treat as passed with conditions
-        break;
-      case 'NOT_APPLICABLE':
-        newStatus = 'SKIPPED';
-        break;
-      default:
-        newStatus = currentQC.status;
+    // Two-person checks wait for a second, independent result
+    let newStatus = this.statusForResult(result, currentQC.status);
+    if (currentQC.requiresSecondCheck) {
+      if (!inspectorId) {
+        throw new Error('Inspector ID is required for checks that require a second check');
+      }
+
+      if (currentQC.secondCheckResult) {
+        throw new Error('Second check has already been recorded; restart the inspection to record a new first result');
+      }
+
+      // The first result and its inspector stand until the inspection is restarted
+      if (currentQC.status === 'PENDING_VERIFICATION') {
+        throw new Error('First result has already been recorded; restart the inspection to record a new first result');
+      }
+
+      newStatus = 'PENDING_VERIFICATION';
     }
 
-    const updateData: any = {
+    const updateData: Partial<EnhancedQualityCheck> = {
       result,
       status: newStatus,
       actualEndTime: new Date(),
@@ -370,7 +451,200 @@ export class QualityCheckRepository extends BaseRepository<EnhancedQualityCheck>
       ...(inspectorName && { inspectorName }),
     };
 
-    return await this.update(id, updateData);
+    return await this.saveResult(id, updateData);
+  }
+
+  /**
+   * Record the second, independent result for a check that requires one. When
+   * both results agree the check reaches its final status; otherwise it stays
+   * pending verification and is flagged for supervisor review.
+   */
+  async recordSecondCheck(
+    id: string,
+    result: QualityCheckResultType,
+    inspectorId: string,
+    measuredValue?: number,
+    notes?: string
+  ): Promise<EnhancedQualityCheck | null> {
+    const currentQC = await this.findById(id);
+    if (!currentQC) {
+      throw new Error(`Quality check with ID ${id} not found`);
+    }
+
+    if (!currentQC.requiresSecondCheck) {
+      throw new Error('Quality check does not require a second check');
+    }
+
+    if (currentQC.status !== 'PENDING_VERIFICATION' || currentQC.secondCheckResult) {
+      throw new Error(`Quality check is not awaiting verification (status ${currentQC.status})`);
+    }
+
+    if (inspectorId === currentQC.inspectorId) {
+      throw new Error('Second check must be recorded by a different inspector than the first result');
+    }
+
+    const agrees = result === currentQC.result;
+    const updateData: Partial<EnhancedQualityCheck> = {
+      secondCheckBy: inspectorId,
+      secondCheckResult: result,
+      secondCheckAt: new Date(),
+      supervisorReviewRequired: !agrees,
+      ...(measuredValue !== undefined && { secondCheckMeasuredValue: measuredValue }),
+      ...(notes && { secondCheckNotes: notes }),
+      ...(agrees && { status: this.statusForResult(result, currentQC.status) }),
+    };
+
+    return await this.saveResult(id, updateData);
+  }
+
+  /**
+   * Resolve a disagreement between first and second results. The supervisor's
+   * result becomes the check result and sets its final status.
+   */
+  async resolveSupervisorReview(
+    id: string,
+    result: QualityCheckResultType,
+    supervisorId: string,
+    notes?: string
+  ): Promise<EnhancedQualityCheck | null> {
+    const currentQC = await this.findById(id);
+    if (!currentQC) {
+      throw new Error(`Quality check with ID ${id} not found`);
+    }
+
+    if (!currentQC.supervisorReviewRequired || currentQC.status !== 'PENDING_VERIFICATION') {
+      throw new Error('Quality check is not awaiting supervisor review');
+    }
+
+    if (supervisorId === currentQC.inspectorId || supervisorId === currentQC.secondCheckBy) {
+      throw new Error('Supervisor review must be recorded by someone other than the two inspectors');
+    }
+
+    const updateData: Partial<EnhancedQualityCheck> = {
+      result,
+      status: this.statusForResult(result, currentQC.status),
+      supervisorReviewRequired: false,
+      supervisorReviewBy: supervisorId,
+      supervisorReviewAt: new Date(),
+      ...(notes && { supervisorReviewNotes: notes }),
+    };
+
+    return await this.saveResult(id, updateData);
+  }
+
+  /**
+   * Final status implied by an inspection result
+   */
+  private statusForResult(result: QualityCheckResultType, currentStatus: QualityCheckStatusType): QualityCheckStatusType {
+    switch (result) {
+      case 'PASS':
+        return 'PASSED';
+      case 'FAIL':
+        return 'FAILED';
+      case 'CONDITIONAL_PASS':
+        return 'PASSED'; // Treat as passed with conditions
+      case 'NOT_APPLICABLE':
+        return 'SKIPPED';
+      default:
+        return currentStatus;
+    }
+  }
+
+  /**
+   * Whether a recorded check should raise an NCR: a required check failed,
+   * or the measured value fell outside its min/max limits
+   */
+  isNonConforming(check: EnhancedQualityCheck): boolean {
+    if (check.isRequired && check.result === 'FAIL') {
+      return true;
+    }
+
+    if (check.measuredValue === undefined || check.measuredValue === null) {
+      return false;
+    }
+
+    const measured = Number(check.measuredValue);
+    const belowMin = check.minValue !== undefined && check.minValue !== null && measured < Number(check.minValue);
+    const aboveMax = check.maxValue !== undefined && check.maxValue !== null && measured > Number(check.maxValue);
+
+    return belowMin || aboveMax;
+  }
+
+  /**
+   * Save a recorded result and, when it is final and non-conforming, draft and
+   * link an NCR in the same transaction
+   */
+  private async saveResult(id: string, data: Partial<EnhancedQualityCheck>): Promise<EnhancedQualityCheck | null> {
+    const dbData = this.convertKeysToSnakeCase(data);
+    const columns = Object.keys(dbData);
+    const setClause = columns.map((col, index) => `${col} = $${index + 2}`).join(', ');
+
+    const client = await this.beginTransaction();
+    try {
+      const result = await client.query(
+        `UPDATE quality_checks SET ${setClause}, updated_at = NOW()
+         WHERE id = $1 AND is_active = true
+         RETURNING *`,
+        [id, ...Object.values(dbData)]
+      );
+      if (result.rows.length === 0) {
+        throw new Error(`Quality check with ID ${id} not found`);
+      }
+
+      const check = await this.draftNonConformance(client, this.convertKeysToCamelCase(result.rows[0]));
+      await this.commitTransaction(client);
+      return check;
+    } catch (error) {
+      await this.rollbackTransaction(client);
+      throw error;
+    }
+  }
+
+  /**
+   * Draft an NCR for a non-conforming check unless an open one is already
+   * linked. A failed re-inspection after the linked NCR was closed drafts a
+   * new one. Checks awaiting verification are skipped until their result is
+   * final.
+   */
+  private async draftNonConformance(client: PoolClient, check: EnhancedQualityCheck): Promise<EnhancedQualityCheck> {
+    if (check.status === 'PENDING_VERIFICATION' || !this.isNonConforming(check)) {
+      return check;
+    }
+
+    if (check.nonConformanceId) {
+      const linked = await client.query(
+        `SELECT status FROM ncrs WHERE id = $1 AND is_active = true`,
+        [check.nonConformanceId]
+      );
+      if (linked.rows[0] && linked.rows[0].status !== 'CLOSED') {
+        return check;
+      }
+    }
+
+    const rule = await this.severityRuleRepository.findByCheckType(check.type);
+    if (rule && !rule.autoCreate) {
+      return check;
+    }
+
+    const order = await client.query(
+      `SELECT product_id FROM manufacturing_orders WHERE id = $1 AND is_active = true`,
+      [check.manufacturingOrderId]
+    );
+    if (!order.rows[0]) {
+      return check;
+    }
+
+    const ncr = await this.ncrRepository.createFromQualityCheck(
+      client,
+      check,
+      order.rows[0].product_id,
+      rule || { severity: 'MINOR', category: 'OTHER' }
+    );
+    await client.query(
+      `UPDATE quality_checks SET non_conformance_id = $2 WHERE id = $1`,
+      [check.id, ncr.id]
+    );
+    return { ...check, nonConformanceId: ncr.id };
   }
 
   /**
@@ -380,6 +654,7 @@ export class QualityCheckRepository extends BaseRepository<EnhancedQualityCheck>
     totalChecks: number;
     pendingChecks: number;
     inProgressChecks: number;
+    pendingVerificationChecks: number;
     passedChecks: number;
     failedChecks: number;
     skippedChecks: number;
@@ -404,6 +679,7 @@ export class QualityCheckRepository extends BaseRepository<EnhancedQualityCheck>
     const totalChecks = checks.length;
     const pendingChecks = statusCounts['PENDING'] || 0;
     const inProgressChecks = statusCounts['IN_PROGRESS'] || 0;
+    const pendingVerificationChecks = statusCounts['PENDING_VERIFICATION'] || 0;
     const passedChecks = statusCounts['PASSED'] || 0;
     const failedChecks = statusCounts['FAILED'] || 0;
     const skippedChecks = statusCounts['SKIPPED'] || 0;
@@ -414,7 +690,7 @@ export class QualityCheckRepository extends BaseRepository<EnhancedQualityCheck>
       overallStatus = 'PENDING';
     } else if (failedChecks > 0) {
       overallStatus = 'FAILED';
-    } else if (inProgressChecks > 0) {
+    } else if (inProgressChecks > 0 || pendingVerificationChecks > 0) {
       overallStatus = 'IN_PROGRESS';
     } else if (pendingChecks > 0) {
       overallStatus = 'PENDING';
@@ -430,13 +706,14 @@ export class QualityCheckRepository extends BaseRepository<EnhancedQualityCheck>
 
     // Count critical failures (required checks that failed)
     const criticalFailures = checks.filter(check => 
-      check.isRequired && check.result === 'FAIL'
+      check.isRequired && check.result === 'FAIL' && check.status === 'FAILED'
     ).length;
 
     return {
       totalChecks,
       pendingChecks,
       inProgressChecks,
+      pendingVerificationChecks,
       passedChecks,
       failedChecks,
       skippedChecks,
@@ -447,54 +724,77 @@ export class QualityCheckRepository extends BaseRepository<EnhancedQualityCheck>
   }
 
   /**
-   * Create quality checks from templates for an operation
+   * Create quality checks from templates for an operation. Template defaults,
+   * checklist items and second-check requirements are copied onto each check,
+   * which is sequenced after any checks the operation already has. When a
+   * sample count is given, one check is created per sample.
    */
   async createFromTemplates(
     manufacturingOrderId: string,
     operationId: string,
     workCenterId: string,
-    templateIds: string[]
+    templates: QualityCheckTemplate[],
+    options: { qualityPlanItemId?: string; sampleCount?: number } = {}
   ): Promise<EnhancedQualityCheck[]> {
-    // This would fetch templates and create quality checks
-    // For now, creating sample quality checks
-    const sampleChecks = [
-      {
-        checkId: 'VISUAL-001',
-        manufacturingOrderId,
-        operationId,
-        workCenterId,
-        name: 'Visual Inspection',
-        description: 'Check for visual defects, scratches, and surface quality',
-        type: 'VISUAL' as const,
-        specification: 'No visible defects',
-        sequence: 1,
-        isRequired: true,
-        status: 'PENDING' as const,
-        isActive: true,
-      },
-      {
-        checkId: 'DIM-001',
-        manufacturingOrderId,
-        operationId,
-        workCenterId,
-        name: 'Dimensional Check',
-        description: 'Measure critical dimensions with calipers',
-        type: 'DIMENSIONAL' as const,
-        specification: '100mm ± 0.1mm',
-        tolerance: '±0.1mm',
-        unit: 'mm',
-        targetValue: 100,
-        minValue: 99.9,
-        maxValue: 100.1,
-        sequence: 2,
-        isRequired: true,
-        status: 'PENDING' as const,
-        isActive: true,
-      }
-    ];
+    const client = await this.beginTransaction();
+    try {
+      const checks = await this.insertFromTemplates(client, manufacturingOrderId, operationId, workCenterId, templates, options);
+      await this.commitTransaction(client);
+      return checks;
+    } catch (error) {
+      await this.rollbackTransaction(client);
+      throw error;
+    }
+  }
+
+  /**
+   * Create quality checks from templates within the caller's transaction
+   */
+  async insertFromTemplates(
+    client: PoolClient,
+    manufacturingOrderId: string,
+    operationId: string,
+    workCenterId: string,
+    templates: QualityCheckTemplate[],
+    options: { qualityPlanItemId?: string; sampleCount?: number } = {}
+  ): Promise<EnhancedQualityCheck[]> {
+    const sampleCount = Math.max(1, options.sampleCount ?? 1);
+    const sequenceQuery = `
+      SELECT COALESCE(MAX(sequence), 0) as "maxSequence"
+      FROM quality_checks
+      WHERE operation_id = $1 AND is_active = true
+    `;
+    const sequenceResult = await client.query<{ maxSequence: number }>(sequenceQuery, [operationId]);
+    let sequence = Number(sequenceResult.rows[0]?.maxSequence || 0);
+
+    const checksToCreate = templates.flatMap(template => Array.from({ length: sampleCount }, (_, sample) => ({
+      checkId: template.templateId,
+      templateId: template.id,
+      qualityPlanItemId: options.qualityPlanItemId,
+      manufacturingOrderId,
+      operationId,
+      workCenterId,
+      name: sampleCount > 1 ? `${template.name} (sample ${sample + 1} of ${sampleCount})` : template.name,
+      description: template.instructions || template.description,
+      type: template.type,
+      specification: template.specification,
+      tolerance: template.tolerance,
+      unit: template.unit,
+      targetValue: template.defaultTargetValue,
+      minValue: template.defaultMinValue,
+      maxValue: template.defaultMaxValue,
+      sequence: ++sequence,
+      isRequired: template.isRequired,
+      requiresSecondCheck: template.requiresSecondCheck,
+      checklistItems: JSON.stringify(
+        (template.checklistItems || []).map((item: { id: string; description: string; isRequired: boolean }) => ({ ...item, completed: false }))
+      ),
+      status: 'PENDING' as const,
+      isActive: true,
+    })));
 
     const createdChecks: EnhancedQualityCheck[] = [];
-    for (const checkData of sampleChecks) {
+    for (const checkData of checksToCreate) {
       const dbData = this.convertKeysToSnakeCase(checkData);
       
       const columns = Object.keys(dbData);
@@ -510,6 +810,10 @@ export class QualityCheckRepository extends BaseRepository<EnhancedQualityCheck>
           manufacturing_order_id as "manufacturingOrderId",
           operation_id as "operationId",
           work_center_id as "workCenterId",
+          lot_id as "lotId",
+          serial_number_id as "serialNumberId",
+          template_id as "templateId",
+          quality_plan_item_id as "qualityPlanItemId",
           name,
           description,
           type,
@@ -525,6 +829,7 @@ export class QualityCheckRepository extends BaseRepository<EnhancedQualityCheck>
           result,
           measured_value as "measuredValue",
           notes,
+          checklist_items as "checklistItems",
           planned_start_time as "plannedStartTime",
           actual_start_time as "actualStartTime",
           planned_end_time as "plannedEndTime",
@@ -534,6 +839,13 @@ export class QualityCheckRepository extends BaseRepository<EnhancedQualityCheck>
           requires_second_check as "requiresSecondCheck",
           second_check_by as "secondCheckBy",
           second_check_result as "secondCheckResult",
+          second_check_measured_value as "secondCheckMeasuredValue",
+          second_check_notes as "secondCheckNotes",
+          second_check_at as "secondCheckAt",
+          supervisor_review_required as "supervisorReviewRequired",
+          supervisor_review_by as "supervisorReviewBy",
+          supervisor_review_at as "supervisorReviewAt",
+          supervisor_review_notes as "supervisorReviewNotes",
           non_conformance_id as "nonConformanceId",
           corrective_action as "correctiveAction",
           attachments,
@@ -543,7 +855,7 @@ export class QualityCheckRepository extends BaseRepository<EnhancedQualityCheck>
           version
       `;
 
-      const result = await this.executeQuery<EnhancedQualityCheck>(query, values);
+      const result = await client.query<EnhancedQualityCheck>(query, values);
       createdChecks.push(result.rows[0]);
     }
 
@@ -0,0 +1,285 @@
+import { Pool } from 'pg';
+import { QualityCheckTemplate, QualityCheckTypeType } from '@akazify/core-domain';
+import { BaseRepository, FilterOptions, PaginatedResult, PaginationOptions } from './base';
+
+/**
+ * Quality check template specific filter options
+ */
+export interface QualityCheckTemplateFilterOptions extends FilterOptions {
+  type?: QualityCheckTypeType;
+  search?: string;
+  includeHistory?: boolean;
+}
+
+/**
+ * Context a template is being applied in, used to honour template scoping
+ */
+export interface TemplateScope {
+  workCenterType?: string;
+  operationType?: string;
+  productType?: string;
+}
+
+/**
+ * Columns stored as JSONB which must be serialised before being bound
+ */
+const JSON_COLUMNS = ['workCenterTypes', 'operationTypes', 'productTypes', 'checklistItems'];
+
+const TEMPLATE_COLUMNS = `
+  id,
+  template_id as "templateId",
+  template_version as "templateVersion",
+  is_current as "isCurrent",
+  name,
+  description,
+  work_center_types as "workCenterTypes",
+  operation_types as "operationTypes",
+  product_types as "productTypes",
+  type,
+  specification,
+  tolerance,
+  unit,
+  default_target_value::float8 as "defaultTargetValue",
+  default_min_value::float8 as "defaultMinValue",
+  default_max_value::float8 as "defaultMaxValue",
+  is_required as "isRequired",
+  requires_second_check as "requiresSecondCheck",
+  estimated_duration as "estimatedDuration",
+  instructions,
+  checklist_items as "checklistItems",
+  is_active as "isActive",
+  created_at as "createdAt",
+  updated_at as "updatedAt",
+  version
+`;
+
+/**
+ * Quality check template repository. Templates are versioned: a revision is
+ * never edited in place once created, so checks keep the definition they were
+ * instantiated from.
+ */
+export class QualityCheckTemplateRepository extends BaseRepository<QualityCheckTemplate> {
+  constructor(pool: Pool) {
+    super(pool, 'quality_check_templates');
+  }
+
+  /**
+   * Find template revision by ID
+   */
+  async findById(id: string): Promise<QualityCheckTemplate | null> {
+    const query = `
+      SELECT ${TEMPLATE_COLUMNS}
+      FROM quality_check_templates
+      WHERE id = $1 AND is_active = true
+    `;
+    const result = await this.executeQuery<QualityCheckTemplate>(query, [id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Find templates with filtering and pagination. Only current revisions are
+   * returned unless history is requested.
+   */
+  async findWithFilters(
+    options: PaginationOptions = {},
+    filters: QualityCheckTemplateFilterOptions = {}
+  ): Promise<PaginatedResult<QualityCheckTemplate>> {
+    const {
+      page = 1,
+      limit = 50,
+      sortBy = 'template_id',
+      sortOrder = 'ASC' as const,
+    } = options;
+
+    const offset = (page - 1) * limit;
+    let whereClause = 'WHERE is_active = true';
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    if (!filters.includeHistory) {
+      whereClause += ' AND is_current = true';
+    }
+
+    if (filters.type) {
+      whereClause += ` AND type = $${paramIndex++}`;
+      params.push(filters.type);
+    }
+
+    if (filters.search) {
+      whereClause += ` AND (template_id ILIKE $${paramIndex} OR name ILIKE $${paramIndex})`;
+      params.push(`%${filters.search}%`);
+      paramIndex++;
+    }
+
+    // Count query
+    const countQuery = `SELECT COUNT(*) as total FROM quality_check_templates ${whereClause}`;
+    const countResult = await this.executeQuery<{ total: string }>(countQuery, params);
+    const total = parseInt(countResult.rows[0].total);
+
+    // Main query
+    const dataQuery = `
+      SELECT ${TEMPLATE_COLUMNS}
+      FROM quality_check_templates
+      ${whereClause}
+      ORDER BY ${sortBy} ${sortOrder}, template_version DESC
+      LIMIT $${paramIndex++} OFFSET $${paramIndex++}
+    `;
+    const dataParams = [...params, limit, offset];
+    const dataResult = await this.executeQuery<QualityCheckTemplate>(dataQuery, dataParams);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data: dataResult.rows,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Resolve templates by revision ID or by template code (current revision)
+   */
+  async findForInstantiation(references: string[]): Promise<QualityCheckTemplate[]> {
+    const query = `
+      SELECT ${TEMPLATE_COLUMNS}
+      FROM quality_check_templates
+      WHERE is_active = true
+        AND ((template_id = ANY($1) AND is_current = true) OR id::text = ANY($1))
+    `;
+    const result = await this.executeQuery<QualityCheckTemplate>(query, [references]);
+    return result.rows;
+  }
+
+  /**
+   * List every revision of a template, newest first
+   */
+  async findRevisions(templateId: string): Promise<QualityCheckTemplate[]> {
+    const query = `
+      SELECT ${TEMPLATE_COLUMNS}
+      FROM quality_check_templates
+      WHERE template_id = $1 AND is_active = true
+      ORDER BY template_version DESC
+    `;
+    const result = await this.executeQuery<QualityCheckTemplate>(query, [templateId]);
+    return result.rows;
+  }
+
+  /**
+   * Create the first revision of a new template
+   */
+  async createTemplate(
+    data: Omit<QualityCheckTemplate, 'id' | 'templateVersion' | 'isCurrent' | 'createdAt' | 'updatedAt' | 'version'>
+  ): Promise<QualityCheckTemplate> {
+    return this.insertRevision({ ...data, templateVersion: 1, isCurrent: true });
+  }
+
+  /**
+   * Create a new revision of a template from the current one with changes applied
+   */
+  async createRevision(
+    id: string,
+    changes: Partial<Omit<QualityCheckTemplate, 'id' | 'templateId' | 'templateVersion' | 'isCurrent' | 'createdAt' | 'updatedAt' | 'version'>>
+  ): Promise<QualityCheckTemplate> {
+    const current = await this.findById(id);
+    if (!current) {
+      throw new Error(`Quality check template with ID ${id} not found`);
+    }
+
+    if (!current.isCurrent) {
+      throw new Error(`Template revision ${current.templateId} v${current.templateVersion} is superseded; revise the current revision instead`);
+    }
+
+    const client = await this.beginTransaction();
+    try {
+      await client.query(
+        'UPDATE quality_check_templates SET is_current = false, updated_at = NOW() WHERE id = $1',
+        [id]
+      );
+
+      const { id: _id, createdAt, updatedAt, version, ...carried } = current;
+      const dbData = this.toTemplateColumns({
+        ...carried,
+        ...changes,
+        templateVersion: current.templateVersion + 1,
+        isCurrent: true,
+      });
+      const columns = Object.keys(dbData);
+      const values = Object.values(dbData);
+      const placeholders = values.map((_, index) => `$${index + 1}`).join(', ');
+
+      const result = await client.query(
+        `INSERT INTO quality_check_templates (${columns.join(', ')})
+         VALUES (${placeholders})
+         RETURNING ${TEMPLATE_COLUMNS}`,
+        values
+      );
+
+      await this.commitTransaction(client);
+      return result.rows[0];
+    } catch (error) {
+      await this.rollbackTransaction(client);
+      throw error;
+    }
+  }
+
+  /**
+   * Soft delete a template, retiring all of its revisions
+   */
+  async delete(id: string): Promise<boolean> {
+    const query = `
+      UPDATE quality_check_templates
+      SET is_active = false
+      WHERE template_id = (SELECT template_id FROM quality_check_templates WHERE id = $1)
+        AND is_active = true
+    `;
+    const result = await this.executeQuery(query, [id]);
+    return result.rowCount > 0;
+  }
+
+  /**
+   * Check whether a template may be applied in the given context. An empty
+   * scope list means the template applies everywhere.
+   */
+  isApplicable(template: QualityCheckTemplate, scope: TemplateScope): boolean {
+    const matches = (allowed: string[] | undefined, value: string | undefined) =>
+      !allowed || allowed.length === 0 || (value !== undefined && allowed.includes(value));
+
+    return (
+      matches(template.workCenterTypes, scope.workCenterType) &&
+      matches(template.operationTypes, scope.operationType) &&
+      matches(template.productTypes, scope.productType)
+    );
+  }
+
+  private async insertRevision(data: Record<string, any>): Promise<QualityCheckTemplate> {
+    const dbData = this.toTemplateColumns(data);
+    const columns = Object.keys(dbData);
+    const values = Object.values(dbData);
+    const placeholders = values.map((_, index) => `$${index + 1}`).join(', ');
+
+    const query = `
+      INSERT INTO quality_check_templates (${columns.join(', ')})
+      VALUES (${placeholders})
+      RETURNING ${TEMPLATE_COLUMNS}
+    `;
+
+    const result = await this.executeQuery<QualityCheckTemplate>(query, values);
+    return result.rows[0];
+  }
+
+  private toTemplateColumns(data: Record<string, any>): Record<string, any> {
+    const serialised: Record<string, any> = { ...data };
+    for (const key of JSON_COLUMNS) {
+      if (serialised[key] !== undefined) {
+        serialised[key] = JSON.stringify(serialised[key]);
+      }
+    }
+    return this.convertKeysToSnakeCase(serialised);
+  }
+}
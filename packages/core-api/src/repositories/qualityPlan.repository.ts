@@ -0,0 +1,376 @@
+import { Pool, PoolClient } from 'pg';
+import { EnhancedQualityCheck, QualityPlan, QualityPlanItem, SamplingFrequencyType } from '@akazify/core-domain';
+import { BaseRepository, FilterOptions, PaginatedResult, PaginationOptions } from './base';
+import { QualityCheckRepository } from './qualityCheck.repository';
+import { QualityCheckTemplateRepository } from './qualityCheckTemplate.repository';
+
+/**
+ * Quality plan specific filter options
+ */
+export interface QualityPlanFilterOptions extends FilterOptions {
+  productId?: string;
+  routingId?: string;
+}
+
+/**
+ * Item definition accepted when creating or replacing plan items
+ */
+export interface QualityPlanItemInput {
+  routingStepId: string;
+  templateCode: string;
+  samplingFrequency?: SamplingFrequencyType;
+  samplingInterval?: number;
+}
+
+const PLAN_COLUMNS = `
+  id,
+  product_id as "productId",
+  routing_id as "routingId",
+  name,
+  description,
+  is_active as "isActive",
+  created_at as "createdAt",
+  updated_at as "updatedAt",
+  version
+`;
+
+/**
+ * Most checks a single plan item generates for one operation
+ */
+const MAX_SAMPLES_PER_ITEM = 100;
+
+/**
+ * Quality plan repository - inspections defined per product routing and
+ * generated onto manufacturing order operations at release
+ */
+export class QualityPlanRepository extends BaseRepository<QualityPlan> {
+  private qcRepository: QualityCheckRepository;
+  private templateRepository: QualityCheckTemplateRepository;
+
+  constructor(pool: Pool) {
+    super(pool, 'quality_plans');
+    this.qcRepository = new QualityCheckRepository(pool);
+    this.templateRepository = new QualityCheckTemplateRepository(pool);
+  }
+
+  /**
+   * Find plan by ID, including its active items
+   */
+  async findById(id: string): Promise<QualityPlan | null> {
+    const query = `
+      SELECT ${PLAN_COLUMNS}
+      FROM quality_plans
+      WHERE id = $1 AND is_active = true
+    `;
+    const result = await this.executeQuery<QualityPlan>(query, [id]);
+    const plan = result.rows[0];
+    if (!plan) {
+      return null;
+    }
+
+    return { ...plan, items: await this.findItems(id) };
+  }
+
+  /**
+   * Find active items of a plan ordered by routing step
+   */
+  async findItems(qualityPlanId: string): Promise<QualityPlanItem[]> {
+    const query = `
+      SELECT
+        qpi.id,
+        qpi.quality_plan_id as "qualityPlanId",
+        qpi.routing_step_id as "routingStepId",
+        qpi.template_code as "templateCode",
+        qpi.sampling_frequency as "samplingFrequency",
+        qpi.sampling_interval as "samplingInterval",
+        qpi.is_active as "isActive",
+        qpi.created_at as "createdAt",
+        qpi.updated_at as "updatedAt",
+        qpi.version
+      FROM quality_plan_items qpi
+      JOIN routing_steps rs ON qpi.routing_step_id = rs.id
+      WHERE qpi.quality_plan_id = $1 AND qpi.is_active = true
+      ORDER BY rs.sequence ASC, qpi.created_at ASC
+    `;
+    const result = await this.executeQuery<QualityPlanItem>(query, [qualityPlanId]);
+    return result.rows;
+  }
+
+  /**
+   * Find plans with filtering and pagination
+   */
+  async findWithFilters(
+    options: PaginationOptions = {},
+    filters: QualityPlanFilterOptions = {}
+  ): Promise<PaginatedResult<QualityPlan>> {
+    const {
+      page = 1,
+      limit = 50,
+      sortBy = 'created_at',
+      sortOrder = 'DESC' as const,
+    } = options;
+
+    const offset = (page - 1) * limit;
+    let whereClause = 'WHERE is_active = true';
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    if (filters.productId) {
+      whereClause += ` AND product_id = $${paramIndex++}`;
+      params.push(filters.productId);
+    }
+
+    if (filters.routingId) {
+      whereClause += ` AND routing_id = $${paramIndex++}`;
+      params.push(filters.routingId);
+    }
+
+    // Count query
+    const countQuery = `SELECT COUNT(*) as total FROM quality_plans ${whereClause}`;
+    const countResult = await this.executeQuery<{ total: string }>(countQuery, params);
+    const total = parseInt(countResult.rows[0].total);
+
+    // Main query
+    const dataQuery = `
+      SELECT ${PLAN_COLUMNS}
+      FROM quality_plans
+      ${whereClause}
+      ORDER BY ${sortBy} ${sortOrder}
+      LIMIT $${paramIndex++} OFFSET $${paramIndex++}
+    `;
+    const dataParams = [...params, limit, offset];
+    const dataResult = await this.executeQuery<QualityPlan>(dataQuery, dataParams);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data: dataResult.rows,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Create a plan and its items in one transaction
+   */
+  async createWithItems(
+    data: { productId: string; routingId: string; name: string; description?: string },
+    items: QualityPlanItemInput[]
+  ): Promise<QualityPlan> {
+    const client = await this.beginTransaction();
+    try {
+      const planResult = await client.query(
+        `INSERT INTO quality_plans (product_id, routing_id, name, description)
+         VALUES ($1, $2, $3, $4)
+         RETURNING id`,
+        [data.productId, data.routingId, data.name, data.description]
+      );
+      const planId = planResult.rows[0].id;
+
+      await this.insertItems(client, planId, data.routingId, items);
+      await this.commitTransaction(client);
+    } catch (error) {
+      await this.rollbackTransaction(client);
+      throw error;
+    }
+
+    return (await this.findByProductRouting(data.productId, data.routingId))!;
+  }
+
+  /**
+   * Update plan details and, when items are given, replace its items. Replaced
+   * items are retired rather than deleted so generated checks keep their link.
+   */
+  async updateWithItems(
+    id: string,
+    data: { name?: string; description?: string },
+    items?: QualityPlanItemInput[]
+  ): Promise<QualityPlan | null> {
+    const current = await this.findById(id);
+    if (!current) {
+      return null;
+    }
+
+    const client = await this.beginTransaction();
+    try {
+      await client.query(
+        `UPDATE quality_plans
+         SET name = COALESCE($2, name), description = COALESCE($3, description), updated_at = NOW()
+         WHERE id = $1`,
+        [id, data.name, data.description]
+      );
+
+      if (items) {
+        await client.query(
+          'UPDATE quality_plan_items SET is_active = false WHERE quality_plan_id = $1 AND is_active = true',
+          [id]
+        );
+        await this.insertItems(client, id, current.routingId, items);
+      }
+
+      await this.commitTransaction(client);
+    } catch (error) {
+      await this.rollbackTransaction(client);
+      throw error;
+    }
+
+    return this.findById(id);
+  }
+
+  /**
+   * Find the active plan for a product and routing
+   */
+  async findByProductRouting(productId: string, routingId: string): Promise<QualityPlan | null> {
+    const query = `
+      SELECT ${PLAN_COLUMNS}
+      FROM quality_plans
+      WHERE product_id = $1 AND routing_id = $2 AND is_active = true
+    `;
+    const result = await this.executeQuery<QualityPlan>(query, [productId, routingId]);
+    const plan = result.rows[0];
+    if (!plan) {
+      return null;
+    }
+
+    return { ...plan, items: await this.findItems(plan.id) };
+  }
+
+  /**
+   * Generate quality checks for every operation of a manufacturing order from
+   * the plan for its product and routing, within the caller's transaction.
+   * Operations are matched to plan items by routing step, and templates whose
+   * scope excludes the operation's work center, operation or product type are
+   * skipped. Items already generated for an operation are skipped, so calling
+   * this again after a re-release does not duplicate checks.
+   */
+  async generateChecksForManufacturingOrder(
+    client: PoolClient,
+    manufacturingOrderId: string
+  ): Promise<EnhancedQualityCheck[]> {
+    const query = `
+      SELECT
+        qpi.id as "qualityPlanItemId",
+        qpi.template_code as "templateCode",
+        qpi.sampling_frequency as "samplingFrequency",
+        qpi.sampling_interval as "samplingInterval",
+        moo.id as "operationId",
+        moo.operation_id as "operationType",
+        moo.work_center_id as "workCenterId",
+        wc.category as "workCenterType",
+        p.category as "productType",
+        moo.planned_quantity::float8 as "plannedQuantity"
+      FROM manufacturing_orders mo
+      JOIN products p ON mo.product_id = p.id
+      JOIN quality_plans qp ON qp.product_id = mo.product_id AND qp.routing_id = mo.routing_id AND qp.is_active = true
+      JOIN quality_plan_items qpi ON qpi.quality_plan_id = qp.id AND qpi.is_active = true
+      JOIN manufacturing_order_operations moo
+        ON moo.manufacturing_order_id = mo.id AND moo.routing_step_id = qpi.routing_step_id AND moo.is_active = true
+      JOIN work_centers wc ON moo.work_center_id = wc.id
+      WHERE mo.id = $1
+        AND NOT EXISTS (
+          SELECT 1 FROM quality_checks qc
+          WHERE qc.operation_id = moo.id AND qc.quality_plan_item_id = qpi.id AND qc.is_active = true
+        )
+      ORDER BY moo.sequence ASC, qpi.created_at ASC
+    `;
+    const result = await client.query<{
+      qualityPlanItemId: string;
+      templateCode: string;
+      samplingFrequency: SamplingFrequencyType;
+      samplingInterval: number | null;
+      operationId: string;
+      operationType: string;
+      workCenterId: string;
+      workCenterType: string;
+      productType: string | null;
+      plannedQuantity: number;
+    }>(query, [manufacturingOrderId]);
+
+    if (result.rows.length === 0) {
+      return [];
+    }
+
+    const templateCodes = [...new Set(result.rows.map(row => row.templateCode))];
+    const templates = await this.templateRepository.findForInstantiation(templateCodes);
+
+    const createdChecks: EnhancedQualityCheck[] = [];
+    for (const row of result.rows) {
+      const template = templates.find(t => t.templateId === row.templateCode);
+      if (!template) {
+        throw new Error(`Quality plan references unknown quality check template '${row.templateCode}'`);
+      }
+
+      const applicable = this.templateRepository.isApplicable(template, {
+        workCenterType: row.workCenterType,
+        operationType: row.operationType,
+        productType: row.productType ?? undefined,
+      });
+      if (!applicable) {
+        continue;
+      }
+
+      const checks = await this.qcRepository.insertFromTemplates(
+        client,
+        manufacturingOrderId,
+        row.operationId,
+        row.workCenterId,
+        [template],
+        {
+          qualityPlanItemId: row.qualityPlanItemId,
+          sampleCount: this.getSampleCount(row.samplingFrequency, row.samplingInterval, row.plannedQuantity),
+        }
+      );
+      createdChecks.push(...checks);
+    }
+
+    return createdChecks;
+  }
+
+  /**
+   * Number of checks a sampling frequency requires for a planned quantity.
+   * EVERY_N_UNITS is capped so a large order cannot generate an unbounded
+   * number of checks in the release transaction.
+   */
+  private getSampleCount(frequency: SamplingFrequencyType, interval: number | null, plannedQuantity: number): number {
+    switch (frequency) {
+      case 'FIRST_AND_LAST':
+        return plannedQuantity > 1 ? 2 : 1;
+      case 'EVERY_N_UNITS':
+        return Math.min(MAX_SAMPLES_PER_ITEM, Math.max(1, Math.ceil(plannedQuantity / (interval || 1))));
+      case 'FIRST_PIECE':
+      case 'PER_OPERATION':
+      default:
+        return 1;
+    }
+  }
+
+  private async insertItems(
+    client: PoolClient,
+    qualityPlanId: string,
+    routingId: string,
+    items: QualityPlanItemInput[]
+  ): Promise<void> {
+    for (const item of items) {
+      // Items may only reference steps of the plan's own routing
+      const stepResult = await client.query(
+        'SELECT 1 FROM routing_steps WHERE id = $1 AND routing_id = $2 AND is_active = true',
+        [item.routingStepId, routingId]
+      );
+      if (stepResult.rowCount === 0) {
+        throw new Error(`Routing step ${item.routingStepId} does not belong to routing ${routingId}`);
+      }
+
+      await client.query(
+        `INSERT INTO quality_plan_items (quality_plan_id, routing_step_id, template_code, sampling_frequency, sampling_interval)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [qualityPlanId, item.routingStepId, item.templateCode, item.samplingFrequency || 'PER_OPERATION', item.samplingInterval]
+      );
+    }
+  }
+}
@@ -0,0 +1,840 @@
+import { Pool } from 'pg';
+import {
+  RoutingDetail,
+  RoutingStandardTime,
+  RoutingStepAlternate,
+  RoutingStepDetail,
+  RoutingStepStandardTime,
+} from '@akazify/core-domain';
+import { BaseRepository, FilterOptions, PaginatedResult, PaginationOptions } from './base';
+
+/**
+ * Routing specific filter options
+ */
+export interface RoutingFilterOptions extends FilterOptions {
+  productId?: string;
+  isDefault?: boolean;
+  isAlternate?: boolean;
+}
+
+/**
+ * Routing step fields accepted on create and update
+ */
+export interface RoutingStepInput {
+  workCenterId: string;
+  operationId: string;
+  name: string;
+  description?: string;
+  sequence?: number; // Defaults to 10 after the last step
+  setupTime?: number;
+  runTime?: number;
+  teardownTime?: number;
+}
+
+/**
+ * Routing step alternate fields accepted on create and update
+ */
+export interface RoutingStepAlternateInput {
+  workCenterId: string;
+  priority?: number; // Defaults to after the last alternate
+  runRateMultiplier?: number;
+}
+
+/**
+ * Gap left between step sequences so steps can be inserted later
+ */
+const SEQUENCE_STEP = 10;
+
+/**
+ * Manufacturing order statuses that still need their routing
+ */
+const OPEN_MO_STATUSES = ['PLANNED', 'RELEASED', 'IN_PROGRESS'];
+
+/**
+ * ECO statuses whose changes have not been applied yet
+ */
+const OPEN_ECO_STATUSES = ['DRAFT', 'SUBMITTED', 'APPROVED'];
+
+const ROUTING_COLUMNS = `
+  r.id,
+  r.product_id as "productId",
+  p.sku as "productSku",
+  p.name as "productName",
+  r.version as revision,
+  r.name,
+  r.description,
+  r.is_default as "isDefault",
+  r.alternate_priority as "alternatePriority",
+  r.is_active as "isActive",
+  r.created_at as "createdAt",
+  r.updated_at as "updatedAt",
+  r.version_number as version
+`;
+
+const STEP_COLUMNS = `
+  rs.id,
+  rs.routing_id as "routingId",
+  rs.work_center_id as "workCenterId",
+  wc.code as "workCenterCode",
+  wc.name as "workCenterName",
+  rs.operation_id as "operationId",
+  rs.name,
+  rs.description,
+  rs.sequence,
+  rs.setup_time as "setupTime",
+  rs.run_time::float8 as "runTime",
+  rs.teardown_time as "teardownTime",
+  rs.is_active as "isActive",
+  rs.created_at as "createdAt",
+  rs.updated_at as "updatedAt",
+  rs.version
+`;
+
+const ALTERNATE_COLUMNS = `
+  rsa.id,
+  rsa.routing_step_id as "routingStepId",
+  rsa.work_center_id as "workCenterId",
+  wc.code as "workCenterCode",
+  wc.name as "workCenterName",
+  rsa.priority,
+  rsa.run_rate_multiplier::float8 as "runRateMultiplier",
+  rsa.is_active as "isActive",
+  rsa.created_at as "createdAt",
+  rsa.updated_at as "updatedAt",
+  rsa.version
+`;
+
+/**
+ * Routing repository covering routing versions and their steps
+ */
+export class RoutingRepository extends BaseRepository<RoutingDetail> {
+  constructor(pool: Pool) {
+    super(pool, 'routings');
+  }
+
+  /**
+   * Find routing by ID with its steps in sequence order
+   */
+  async findById(id: string): Promise<RoutingDetail | null> {
+    const query = `
+      SELECT ${ROUTING_COLUMNS}
+      FROM routings r
+      INNER JOIN products p ON r.product_id = p.id
+      WHERE r.id = $1 AND r.is_active = true
+    `;
+    const result = await this.executeQuery<RoutingDetail>(query, [id]);
+    const routing = result.rows[0];
+    if (!routing) {
+      return null;
+    }
+
+    return { ...routing, steps: await this.findSteps(id) };
+  }
+
+  /**
+   * Find routings with filtering and pagination
+   */
+  async findWithFilters(
+    options: PaginationOptions = {},
+    filters: RoutingFilterOptions = {}
+  ): Promise<PaginatedResult<RoutingDetail>> {
+    const {
+      page = 1,
+      limit = 50,
+      sortBy = 'created_at',
+      sortOrder = 'DESC' as const,
+    } = options;
+
+    const offset = (page - 1) * limit;
+    let whereClause = 'WHERE r.is_active = true';
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    if (filters.productId) {
+      whereClause += ` AND r.product_id = $${paramIndex++}`;
+      params.push(filters.productId);
+    }
+
+    if (filters.isDefault !== undefined) {
+      whereClause += ` AND r.is_default = $${paramIndex++}`;
+      params.push(filters.isDefault);
+    }
+
+    if (filters.isAlternate !== undefined) {
+      whereClause += filters.isAlternate
+        ? ' AND r.alternate_priority IS NOT NULL'
+        : ' AND r.alternate_priority IS NULL';
+    }
+
+    // Count query
+    const countQuery = `SELECT COUNT(*) as total FROM routings r ${whereClause}`;
+    const countResult = await this.executeQuery<{ total: string }>(countQuery, params);
+    const total = parseInt(countResult.rows[0].total);
+
+    // Main query
+    const dataQuery = `
+      SELECT ${ROUTING_COLUMNS}
+      FROM routings r
+      INNER JOIN products p ON r.product_id = p.id
+      ${whereClause}
+      ORDER BY r.${sortBy} ${sortOrder}
+      LIMIT $${paramIndex++} OFFSET $${paramIndex++}
+    `;
+    const dataParams = [...params, limit, offset];
+    const dataResult = await this.executeQuery<RoutingDetail>(dataQuery, dataParams);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data: dataResult.rows,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Find the default routing of a product
+   */
+  async findDefault(productId: string): Promise<RoutingDetail | null> {
+    const result = await this.executeQuery<{ id: string }>(
+      `SELECT id FROM routings WHERE product_id = $1 AND is_default = true AND is_active = true`,
+      [productId]
+    );
+    return result.rows[0] ? this.findById(result.rows[0].id) : null;
+  }
+
+  /**
+   * Create a routing version for a product. The product's first routing
+   * becomes its default unless it is created as an alternate.
+   */
+  async createRouting(data: {
+    productId: string;
+    revision: string;
+    name: string;
+    description?: string;
+    isDefault?: boolean;
+    alternatePriority?: number;
+  }): Promise<RoutingDetail> {
+    if (data.isDefault && data.alternatePriority !== undefined) {
+      throw new Error('Validation failed: the default routing cannot also be an alternate');
+    }
+
+    const product = await this.executeQuery(
+      `SELECT id FROM products WHERE id = $1 AND is_active = true`,
+      [data.productId]
+    );
+    if (product.rows.length === 0) {
+      throw new Error(`Product with ID ${data.productId} does not exist`);
+    }
+
+    const existing = await this.executeQuery(
+      `SELECT id FROM routings WHERE product_id = $1 AND version = $2`,
+      [data.productId, data.revision]
+    );
+    if (existing.rows.length > 0) {
+      throw new Error(`Routing version '${data.revision}' already exists for this product`);
+    }
+
+    if (data.alternatePriority !== undefined) {
+      await this.assertAlternatePriorityAvailable(data.productId, data.alternatePriority);
+    }
+
+    const client = await this.beginTransaction();
+    let routingId: string;
+    try {
+      const currentDefault = await client.query(
+        `SELECT id FROM routings WHERE product_id = $1 AND is_default = true AND is_active = true`,
+        [data.productId]
+      );
+      const makeDefault = data.isDefault || (currentDefault.rows.length === 0 && data.alternatePriority === undefined);
+
+      if (makeDefault) {
+        await client.query(
+          `UPDATE routings SET is_default = false WHERE product_id = $1 AND is_default = true`,
+          [data.productId]
+        );
+      }
+
+      const insert = await client.query(
+        `INSERT INTO routings (product_id, version, name, description, is_default, alternate_priority)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         RETURNING id`,
+        [data.productId, data.revision, data.name, data.description, makeDefault, data.alternatePriority]
+      );
+      routingId = insert.rows[0].id;
+
+      await this.commitTransaction(client);
+    } catch (error) {
+      await this.rollbackTransaction(client);
+      throw error;
+    }
+
+    return (await this.findById(routingId))!;
+  }
+
+  /**
+   * Update routing details. The default is changed through setDefault; a
+   * null alternatePriority stops the routing being an alternate.
+   */
+  async updateRouting(
+    id: string,
+    data: { name?: string; description?: string; alternatePriority?: number | null }
+  ): Promise<RoutingDetail | null> {
+    await this.assertNoOpenChange(id);
+
+    if (data.alternatePriority !== undefined && data.alternatePriority !== null) {
+      const current = await this.findById(id);
+      if (!current) {
+        return null;
+      }
+
+      if (current.isDefault) {
+        throw new Error('Validation failed: the default routing cannot also be an alternate');
+      }
+
+      if (data.alternatePriority !== current.alternatePriority) {
+        await this.assertAlternatePriorityAvailable(current.productId, data.alternatePriority);
+      }
+    }
+
+    // Written directly rather than through update() so a null priority
+    // clears the column
+    const dbData: Record<string, any> = this.convertKeysToSnakeCase(data);
+    const columns = Object.keys(dbData);
+    if (columns.length === 0) {
+      return this.findById(id);
+    }
+
+    const values = Object.values(dbData);
+    const setClause = columns.map((col, index) => `${col} = $${index + 2}`).join(', ');
+
+    const result = await this.executeQuery(
+      `UPDATE routings SET ${setClause} WHERE id = $1 AND is_active = true`,
+      [id, ...values]
+    );
+    return result.rowCount > 0 ? this.findById(id) : null;
+  }
+
+  /**
+   * Make a routing the product's default version. An alternate that becomes
+   * the default stops being an alternate.
+   */
+  async setDefault(id: string): Promise<RoutingDetail | null> {
+    const current = await this.findById(id);
+    if (!current) {
+      return null;
+    }
+
+    if (current.isDefault) {
+      return current;
+    }
+
+    const client = await this.beginTransaction();
+    try {
+      await client.query(
+        `UPDATE routings SET is_default = false WHERE product_id = $1 AND is_default = true`,
+        [current.productId]
+      );
+      await client.query(
+        `UPDATE routings SET is_default = true, alternate_priority = NULL WHERE id = $1`,
+        [id]
+      );
+      await this.commitTransaction(client);
+    } catch (error) {
+      await this.rollbackTransaction(client);
+      throw error;
+    }
+
+    return this.findById(id);
+  }
+
+  /**
+   * Check if routing can be deleted (not used by open manufacturing orders or
+   * active quality plans)
+   */
+  async canDelete(id: string): Promise<{ canDelete: boolean; reason?: string }> {
+    const [orderResult, planResult] = await Promise.all([
+      this.executeQuery<{ count: string }>(
+        'SELECT COUNT(*) as count FROM manufacturing_orders WHERE routing_id = $1 AND status = ANY($2) AND is_active = true',
+        [id, OPEN_MO_STATUSES]
+      ),
+      this.executeQuery<{ count: string }>(
+        'SELECT COUNT(*) as count FROM quality_plans WHERE routing_id = $1 AND is_active = true',
+        [id]
+      ),
+    ]);
+
+    const orderCount = parseInt(orderResult.rows[0]?.count || '0');
+    const planCount = parseInt(planResult.rows[0]?.count || '0');
+
+    if (orderCount > 0) {
+      return { canDelete: false, reason: `Routing is referenced by ${orderCount} open manufacturing orders` };
+    }
+
+    if (planCount > 0) {
+      return { canDelete: false, reason: `Routing has ${planCount} active quality plans` };
+    }
+
+    return { canDelete: true };
+  }
+
+  /**
+   * Add a step to a routing. Without a sequence the step goes after the last one.
+   */
+  async addStep(routingId: string, data: RoutingStepInput): Promise<RoutingStepDetail | null> {
+    if (!(await this.exists(routingId))) {
+      return null;
+    }
+
+    await this.assertNoOpenChange(routingId);
+    await this.assertWorkCenterActive(data.workCenterId);
+    await this.assertOperationAvailable(routingId, data.operationId);
+
+    let sequence = data.sequence;
+    if (sequence === undefined) {
+      const last = await this.executeQuery<{ sequence: number | null }>(
+        `SELECT MAX(sequence) as sequence FROM routing_steps WHERE routing_id = $1 AND is_active = true`,
+        [routingId]
+      );
+      sequence = (last.rows[0]?.sequence || 0) + SEQUENCE_STEP;
+    } else {
+      await this.assertSequenceAvailable(routingId, sequence);
+    }
+
+    const result = await this.executeQuery<{ id: string }>(
+      `INSERT INTO routing_steps (routing_id, work_center_id, operation_id, name, description, sequence, setup_time, run_time, teardown_time)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       RETURNING id`,
+      [
+        routingId,
+        data.workCenterId,
+        data.operationId,
+        data.name,
+        data.description,
+        sequence,
+        data.setupTime,
+        data.runTime,
+        data.teardownTime,
+      ]
+    );
+
+    return this.findStep(routingId, result.rows[0].id);
+  }
+
+  /**
+   * Update a routing step
+   */
+  async updateStep(
+    routingId: string,
+    stepId: string,
+    data: Partial<RoutingStepInput>
+  ): Promise<RoutingStepDetail | null> {
+    if (!(await this.exists(routingId))) {
+      return null;
+    }
+
+    await this.assertNoOpenChange(routingId);
+
+    const step = await this.findStep(routingId, stepId);
+    if (!step) {
+      throw new Error(`Routing step with ID ${stepId} not found`);
+    }
+
+    if (data.workCenterId && data.workCenterId !== step.workCenterId) {
+      await this.assertWorkCenterActive(data.workCenterId);
+    }
+
+    if (data.operationId && data.operationId !== step.operationId) {
+      await this.assertOperationAvailable(routingId, data.operationId);
+    }
+
+    if (data.sequence !== undefined && data.sequence !== step.sequence) {
+      await this.assertSequenceAvailable(routingId, data.sequence);
+    }
+
+    const dbData: Record<string, any> = this.convertKeysToSnakeCase(data);
+    const columns = Object.keys(dbData);
+    if (columns.length === 0) {
+      return step;
+    }
+
+    const values = Object.values(dbData);
+    const setClause = columns.map((col, index) => `${col} = $${index + 2}`).join(', ');
+
+    await this.executeQuery(
+      `UPDATE routing_steps SET ${setClause} WHERE id = $1`,
+      [stepId, ...values]
+    );
+    return this.findStep(routingId, stepId);
+  }
+
+  /**
+   * Remove a step from a routing unless quality plans inspect at it
+   */
+  async removeStep(routingId: string, stepId: string): Promise<boolean> {
+    if (!(await this.exists(routingId))) {
+      return false;
+    }
+
+    await this.assertNoOpenChange(routingId);
+
+    const planItems = await this.executeQuery<{ count: string }>(
+      `SELECT COUNT(*) as count FROM quality_plan_items WHERE routing_step_id = $1 AND is_active = true`,
+      [stepId]
+    );
+    const planItemCount = parseInt(planItems.rows[0]?.count || '0');
+    if (planItemCount > 0) {
+      throw new Error(`Routing step is used by ${planItemCount} quality plan items and cannot be removed`);
+    }
+
+    const result = await this.executeQuery(
+      `UPDATE routing_steps SET is_active = false WHERE id = $1 AND routing_id = $2 AND is_active = true`,
+      [stepId, routingId]
+    );
+    if (result.rowCount === 0) {
+      throw new Error(`Routing step with ID ${stepId} not found`);
+    }
+    return true;
+  }
+
+  /**
+   * Renumber a routing's steps in the given order (10, 20, 30, ...). Every
+   * active step must be listed exactly once.
+   */
+  async reorderSteps(routingId: string, stepIds: string[]): Promise<RoutingDetail | null> {
+    const routing = await this.findById(routingId);
+    if (!routing) {
+      return null;
+    }
+
+    await this.assertNoOpenChange(routingId);
+
+    const currentIds = (routing.steps || []).map((step: RoutingStepDetail) => step.id);
+    const requested = new Set(stepIds);
+    if (
+      requested.size !== stepIds.length ||
+      requested.size !== currentIds.length ||
+      currentIds.some((id: string) => !requested.has(id))
+    ) {
+      throw new Error('Validation failed: stepIds must list every active step of the routing exactly once');
+    }
+
+    const client = await this.beginTransaction();
+    try {
+      // Move steps out of the way first so the unique sequence index holds
+      const offset = await client.query(
+        `SELECT COALESCE(MAX(sequence), 0) as max FROM routing_steps WHERE routing_id = $1`,
+        [routingId]
+      );
+      await client.query(
+        `UPDATE routing_steps SET sequence = sequence + $2 WHERE routing_id = $1 AND is_active = true`,
+        [routingId, offset.rows[0].max]
+      );
+
+      for (const [index, stepId] of stepIds.entries()) {
+        await client.query(
+          `UPDATE routing_steps SET sequence = $2 WHERE id = $1`,
+          [stepId, (index + 1) * SEQUENCE_STEP]
+        );
+      }
+
+      await this.commitTransaction(client);
+    } catch (error) {
+      await this.rollbackTransaction(client);
+      throw error;
+    }
+
+    return this.findById(routingId);
+  }
+
+  /**
+   * Add a backup work center to a routing step. Without a priority the
+   * alternate is tried after the existing ones.
+   */
+  async addAlternate(
+    routingId: string,
+    stepId: string,
+    data: RoutingStepAlternateInput
+  ): Promise<RoutingStepAlternate | null> {
+    if (!(await this.exists(routingId))) {
+      return null;
+    }
+
+    await this.assertNoOpenChange(routingId);
+
+    const step = await this.findStep(routingId, stepId);
+    if (!step) {
+      throw new Error(`Routing step with ID ${stepId} not found`);
+    }
+
+    if (data.workCenterId === step.workCenterId) {
+      throw new Error('Validation failed: an alternate cannot be the step\'s own work center');
+    }
+
+    await this.assertWorkCenterActive(data.workCenterId);
+
+    const duplicate = await this.executeQuery(
+      `SELECT id FROM routing_step_alternates WHERE routing_step_id = $1 AND work_center_id = $2 AND is_active = true`,
+      [stepId, data.workCenterId]
+    );
+    if (duplicate.rows.length > 0) {
+      throw new Error('Work center already exists as an alternate for this step');
+    }
+
+    let priority = data.priority;
+    if (priority === undefined) {
+      const last = await this.executeQuery<{ priority: number | null }>(
+        `SELECT MAX(priority) as priority FROM routing_step_alternates WHERE routing_step_id = $1 AND is_active = true`,
+        [stepId]
+      );
+      priority = (last.rows[0]?.priority || 0) + 1;
+    } else {
+      await this.assertAlternateSlotAvailable(stepId, priority);
+    }
+
+    const result = await this.executeQuery<{ id: string }>(
+      `INSERT INTO routing_step_alternates (routing_step_id, work_center_id, priority, run_rate_multiplier)
+       VALUES ($1, $2, $3, $4)
+       RETURNING id`,
+      [stepId, data.workCenterId, priority, data.runRateMultiplier ?? 1]
+    );
+
+    return this.findAlternate(stepId, result.rows[0].id);
+  }
+
+  /**
+   * Update the priority or run-rate multiplier of a step alternate
+   */
+  async updateAlternate(
+    routingId: string,
+    stepId: string,
+    alternateId: string,
+    data: { priority?: number; runRateMultiplier?: number }
+  ): Promise<RoutingStepAlternate | null> {
+    if (!(await this.exists(routingId))) {
+      return null;
+    }
+
+    await this.assertNoOpenChange(routingId);
+
+    if (!(await this.findStep(routingId, stepId))) {
+      throw new Error(`Routing step with ID ${stepId} not found`);
+    }
+
+    const alternate = await this.findAlternate(stepId, alternateId);
+    if (!alternate) {
+      throw new Error(`Routing step alternate with ID ${alternateId} not found`);
+    }
+
+    if (data.priority !== undefined && data.priority !== alternate.priority) {
+      await this.assertAlternateSlotAvailable(stepId, data.priority);
+    }
+
+    const dbData: Record<string, any> = this.convertKeysToSnakeCase(data);
+    const columns = Object.keys(dbData);
+    if (columns.length === 0) {
+      return alternate;
+    }
+
+    const values = Object.values(dbData);
+    const setClause = columns.map((col, index) => `${col} = $${index + 2}`).join(', ');
+
+    await this.executeQuery(
+      `UPDATE routing_step_alternates SET ${setClause} WHERE id = $1`,
+      [alternateId, ...values]
+    );
+    return this.findAlternate(stepId, alternateId);
+  }
+
+  /**
+   * Remove a backup work center from a routing step
+   */
+  async removeAlternate(routingId: string, stepId: string, alternateId: string): Promise<boolean> {
+    if (!(await this.exists(routingId))) {
+      return false;
+    }
+
+    await this.assertNoOpenChange(routingId);
+
+    const result = await this.executeQuery(
+      `UPDATE routing_step_alternates rsa SET is_active = false
+       FROM routing_steps rs
+       WHERE rsa.id = $1 AND rsa.routing_step_id = $2 AND rsa.is_active = true
+         AND rs.id = rsa.routing_step_id AND rs.routing_id = $3 AND rs.is_active = true`,
+      [alternateId, stepId, routingId]
+    );
+    if (result.rowCount === 0) {
+      throw new Error(`Routing step alternate with ID ${alternateId} not found`);
+    }
+    return true;
+  }
+
+  /**
+   * Standard time of a routing for a quantity, in minutes: setup and teardown
+   * once per step plus run time per unit
+   */
+  async getStandardTime(routingId: string, quantity: number): Promise<RoutingStandardTime | null> {
+    const routing = await this.findById(routingId);
+    if (!routing) {
+      return null;
+    }
+
+    const steps: RoutingStepStandardTime[] = (routing.steps || []).map((step: RoutingStepDetail) => {
+      const setupTime = step.setupTime || 0;
+      const runTime = Math.round((step.runTime || 0) * quantity * 100) / 100;
+      const teardownTime = step.teardownTime || 0;
+      return {
+        routingStepId: step.id,
+        sequence: step.sequence,
+        operationId: step.operationId,
+        name: step.name,
+        workCenterId: step.workCenterId,
+        setupTime,
+        runTime,
+        teardownTime,
+        totalTime: Math.round((setupTime + runTime + teardownTime) * 100) / 100,
+      };
+    });
+
+    const sum = (field: 'setupTime' | 'runTime' | 'teardownTime' | 'totalTime') =>
+      Math.round(steps.reduce((total, step) => total + step[field], 0) * 100) / 100;
+
+    return {
+      routingId,
+      quantity,
+      setupTime: sum('setupTime'),
+      runTime: sum('runTime'),
+      teardownTime: sum('teardownTime'),
+      totalTime: sum('totalTime'),
+      steps,
+    };
+  }
+
+  private async findSteps(routingId: string): Promise<RoutingStepDetail[]> {
+    const result = await this.executeQuery<RoutingStepDetail>(
+      `SELECT ${STEP_COLUMNS}
+       FROM routing_steps rs
+       INNER JOIN work_centers wc ON rs.work_center_id = wc.id
+       WHERE rs.routing_id = $1 AND rs.is_active = true
+       ORDER BY rs.sequence ASC`,
+      [routingId]
+    );
+    return this.withAlternates(result.rows);
+  }
+
+  private async findStep(routingId: string, stepId: string): Promise<RoutingStepDetail | null> {
+    const result = await this.executeQuery<RoutingStepDetail>(
+      `SELECT ${STEP_COLUMNS}
+       FROM routing_steps rs
+       INNER JOIN work_centers wc ON rs.work_center_id = wc.id
+       WHERE rs.id = $1 AND rs.routing_id = $2 AND rs.is_active = true`,
+      [stepId, routingId]
+    );
+    const [step] = await this.withAlternates(result.rows);
+    return step || null;
+  }
+
+  private async withAlternates(steps: RoutingStepDetail[]): Promise<RoutingStepDetail[]> {
+    if (steps.length === 0) {
+      return steps;
+    }
+
+    const result = await this.executeQuery<RoutingStepAlternate>(
+      `SELECT ${ALTERNATE_COLUMNS}
+       FROM routing_step_alternates rsa
+       INNER JOIN work_centers wc ON rsa.work_center_id = wc.id
+       WHERE rsa.routing_step_id = ANY($1) AND rsa.is_active = true
+       ORDER BY rsa.priority ASC`,
+      [steps.map(step => step.id)]
+    );
+
+    return steps.map(step => ({
+      ...step,
+      alternates: result.rows.filter(alternate => alternate.routingStepId === step.id),
+    }));
+  }
+
+  private async findAlternate(stepId: string, alternateId: string): Promise<RoutingStepAlternate | null> {
+    const result = await this.executeQuery<RoutingStepAlternate>(
+      `SELECT ${ALTERNATE_COLUMNS}
+       FROM routing_step_alternates rsa
+       INNER JOIN work_centers wc ON rsa.work_center_id = wc.id
+       WHERE rsa.id = $1 AND rsa.routing_step_id = $2 AND rsa.is_active = true`,
+      [alternateId, stepId]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Reject direct edits to a routing that an open ECO revises, so the ECO is
+   * applied to the steps it was reviewed against
+   */
+  private async assertNoOpenChange(routingId: string): Promise<void> {
+    const result = await this.executeQuery<{ ecoNumber: string }>(
+      `SELECT e.eco_number as "ecoNumber"
+       FROM eco_changes c
+       INNER JOIN ecos e ON c.eco_id = e.id
+       WHERE c.source_routing_id = $1 AND c.is_active = true AND e.is_active = true AND e.status = ANY($2)`,
+      [routingId, OPEN_ECO_STATUSES]
+    );
+    if (result.rows.length > 0) {
+      throw new Error(`Routing is being revised by ECO ${result.rows[0].ecoNumber} and cannot be modified`);
+    }
+  }
+
+  private async assertWorkCenterActive(workCenterId: string): Promise<void> {
+    const result = await this.executeQuery(
+      `SELECT id FROM work_centers WHERE id = $1 AND is_active = true`,
+      [workCenterId]
+    );
+    if (result.rows.length === 0) {
+      throw new Error(`Work center with ID ${workCenterId} does not exist or is inactive`);
+    }
+  }
+
+  private async assertOperationAvailable(routingId: string, operationId: string): Promise<void> {
+    const result = await this.executeQuery(
+      `SELECT id FROM routing_steps WHERE routing_id = $1 AND operation_id = $2 AND is_active = true`,
+      [routingId, operationId]
+    );
+    if (result.rows.length > 0) {
+      throw new Error(`Operation '${operationId}' already exists on this routing`);
+    }
+  }
+
+  private async assertSequenceAvailable(routingId: string, sequence: number): Promise<void> {
+    const result = await this.executeQuery(
+      `SELECT id FROM routing_steps WHERE routing_id = $1 AND sequence = $2 AND is_active = true`,
+      [routingId, sequence]
+    );
+    if (result.rows.length > 0) {
+      throw new Error(`Step sequence ${sequence} already exists on this routing`);
+    }
+  }
+
+  private async assertAlternateSlotAvailable(stepId: string, priority: number): Promise<void> {
+    const result = await this.executeQuery(
+      `SELECT id FROM routing_step_alternates WHERE routing_step_id = $1 AND priority = $2 AND is_active = true`,
+      [stepId, priority]
+    );
+    if (result.rows.length > 0) {
+      throw new Error(`Alternate priority ${priority} already exists on this step`);
+    }
+  }
+
+  private async assertAlternatePriorityAvailable(productId: string, priority: number): Promise<void> {
+    const result = await this.executeQuery(
+      `SELECT id FROM routings WHERE product_id = $1 AND alternate_priority = $2 AND is_active = true`,
+      [productId, priority]
+    );
+    if (result.rows.length > 0) {
+      throw new Error(`Alternate routing priority ${priority} already exists for this product`);
+    }
+  }
+}
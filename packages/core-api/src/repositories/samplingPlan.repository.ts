@@ -0,0 +1,794 @@
+import { Pool, PoolClient } from 'pg';
+import {
+  AQL_VALUES,
+  InspectionLevelType,
+  InspectionSeverityType,
+  InspectionStageType,
+  SampleInspection,
+  SampleResult,
+  SampleSize,
+  SamplingPlan,
+} from '@akazify/core-domain';
+import { BaseRepository, FilterOptions, PaginatedResult, PaginationOptions } from './base';
+import { LotRepository } from './lot.repository';
+import { QualityCheckRepository } from './qualityCheck.repository';
+
+/**
+ * Sampling plan specific filter options
+ */
+export interface SamplingPlanFilterOptions extends FilterOptions {
+  inspectionStage?: InspectionStageType;
+  productId?: string;
+}
+
+/**
+ * Sample inspection specific filter options
+ */
+export interface SampleInspectionFilterOptions extends FilterOptions {
+  samplingPlanId?: string;
+  lotId?: string;
+  operationId?: string;
+  status?: string;
+}
+
+/**
+ * Result for one sample unit as submitted by an inspector
+ */
+export interface SampleResultInput {
+  sampleNumber: number;
+  result: 'PASS' | 'FAIL';
+  measuredValue?: number;
+  notes?: string;
+}
+
+const PLAN_COLUMNS = `
+  id,
+  code,
+  name,
+  description,
+  inspection_stage as "inspectionStage",
+  product_id as "productId",
+  aql::float8 as aql,
+  inspection_level as "inspectionLevel",
+  allow_reduced as "allowReduced",
+  current_severity as "currentSeverity",
+  switching_score as "switchingScore",
+  recent_lot_results as "recentLotResults",
+  consecutive_accepted as "consecutiveAccepted",
+  tightened_rejections as "tightenedRejections",
+  is_suspended as "isSuspended",
+  is_active as "isActive",
+  created_at as "createdAt",
+  updated_at as "updatedAt",
+  version
+`;
+
+const INSPECTION_COLUMNS = `
+  id,
+  sampling_plan_id as "samplingPlanId",
+  lot_id as "lotId",
+  operation_id as "operationId",
+  quality_check_id as "qualityCheckId",
+  lot_size as "lotSize",
+  severity,
+  code_letter as "codeLetter",
+  sample_size as "sampleSize",
+  accept_number as "acceptNumber",
+  reject_number as "rejectNumber",
+  samples_inspected as "samplesInspected",
+  nonconforming_count as "nonconformingCount",
+  status,
+  decided_at as "decidedAt",
+  is_active as "isActive",
+  created_at as "createdAt",
+  updated_at as "updatedAt",
+  version
+`;
+
+/**
+ * Sample size code letters (Z1.4 Table I). Each row covers lot sizes up to
+ * its bound; columns are the inspection levels in INSPECTION_LEVELS order.
+ */
+const INSPECTION_LEVELS: InspectionLevelType[] = ['S1', 'S2', 'S3', 'S4', 'I', 'II', 'III'];
+const CODE_LETTER_TABLE: Array<{ maxLotSize: number; letters: string }> = [
+  { maxLotSize: 8, letters: 'AAAAAAB' },
+  { maxLotSize: 15, letters: 'AAAAABC' },
+  { maxLotSize: 25, letters: 'AABBBCD' },
+  { maxLotSize: 50, letters: 'ABBCCDE' },
+  { maxLotSize: 90, letters: 'BBCCCEF' },
+  { maxLotSize: 150, letters: 'BBCDDFG' },
+  { maxLotSize: 280, letters: 'BCDEEGH' },
+  { maxLotSize: 500, letters: 'BCDEFHJ' },
+  { maxLotSize: 1200, letters: 'CCEFGJK' },
+  { maxLotSize: 3200, letters: 'CDEGHKL' },
+  { maxLotSize: 10000, letters: 'CDFGJLM' },
+  { maxLotSize: 35000, letters: 'CDFHKMN' },
+  { maxLotSize: 150000, letters: 'DEGJLNP' },
+  { maxLotSize: 500000, letters: 'DEGJMPQ' },
+  { maxLotSize: Infinity, letters: 'DEHKNQR' },
+];
+
+/**
+ * Code letters in table order with their normal/tightened and reduced sample
+ * sizes. Letter S only exists in the tightened table.
+ */
+const CODE_LETTERS = 'ABCDEFGHJKLMNPQRS';
+const SAMPLE_SIZES = [2, 3, 5, 8, 13, 20, 32, 50, 80, 125, 200, 315, 500, 800, 1250, 2000, 3150];
+const REDUCED_SAMPLE_SIZES = [2, 2, 2, 3, 5, 8, 13, 20, 32, 50, 80, 125, 200, 315, 500, 800];
+
+/**
+ * Acceptance/rejection numbers (Z1.4 Tables II-A/B/C for AQL up to 10).
+ * Plans in the master tables run along diagonals, so a cell is keyed by
+ * sample size position + AQL position. Cells outside the map are arrows:
+ * below the first key point down (larger sample), above the last point up.
+ * Reduced inspection uses the normal numbers with the reduced sample size.
+ */
+type AcceptanceCell = [number, number] | 'UP' | 'DOWN';
+
+const NORMAL_DIAGONAL: Record<number, AcceptanceCell> = {
+  14: [0, 1], 15: 'UP', 16: 'DOWN', 17: [1, 2], 18: [2, 3], 19: [3, 4],
+  20: [5, 6], 21: [7, 8], 22: [10, 11], 23: [14, 15], 24: [21, 22],
+};
+
+const TIGHTENED_DIAGONAL: Record<number, AcceptanceCell> = {
+  16: [0, 1], 17: 'DOWN', 18: [1, 2], 19: [2, 3], 20: [3, 4],
+  21: [5, 6], 22: [8, 9], 23: [12, 13], 24: [18, 19],
+};
+
+/**
+ * Switching rule thresholds (Z1.4 section 8)
+ */
+const NORMAL_WINDOW = 5;             // Two of five lots not accepted -> tightened
+const TIGHTENED_RELEASE = 5;         // Five consecutive accepted on tightened -> normal
+const TIGHTENED_DISCONTINUE = 5;     // Five not accepted on tightened -> discontinue
+const REDUCED_SWITCHING_SCORE = 30;  // Switching score that allows reduced
+
+/**
+ * Look up the sample size and Ac/Re for a lot. When the plan's sample size is
+ * at least the lot size, every unit is inspected with the same Ac/Re.
+ */
+export function lookupSampleSize(
+  aql: number,
+  inspectionLevel: InspectionLevelType,
+  lotSize: number,
+  severity: InspectionSeverityType
+): SampleSize {
+  if (!Number.isInteger(lotSize) || lotSize < 1) {
+    throw new Error('Invalid lot size: must be a positive whole number of units');
+  }
+
+  const aqlIndex = findAqlIndex(aql);
+  const levelIndex = INSPECTION_LEVELS.indexOf(inspectionLevel);
+  const lotRow = CODE_LETTER_TABLE.find(row => lotSize <= row.maxLotSize)!;
+  const startRow = CODE_LETTERS.indexOf(lotRow.letters[levelIndex]);
+
+  const { row, acceptNumber, rejectNumber } = resolveAcceptance(severity, startRow, aqlIndex);
+  const sampleSize = severity === 'REDUCED' ? REDUCED_SAMPLE_SIZES[row] : SAMPLE_SIZES[row];
+
+  return {
+    lotSize,
+    severity,
+    codeLetter: CODE_LETTERS[row],
+    sampleSize: Math.min(sampleSize, lotSize),
+    acceptNumber,
+    rejectNumber,
+  };
+}
+
+function findAqlIndex(aql: number): number {
+  const index = (AQL_VALUES as readonly number[]).findIndex(value => Math.abs(value - aql) < 1e-9);
+  if (index === -1) {
+    throw new Error(`Invalid AQL ${aql}: must be one of ${AQL_VALUES.join(', ')}`);
+  }
+  return index;
+}
+
+/**
+ * Follow the table arrows from the code letter row to the first row with a
+ * plan. If an arrow runs off the edge of the table, the nearest plan in the
+ * other direction is used.
+ */
+function resolveAcceptance(
+  severity: InspectionSeverityType,
+  startRow: number,
+  aqlIndex: number
+): { row: number; acceptNumber: number; rejectNumber: number } {
+  const diagonal = severity === 'TIGHTENED' ? TIGHTENED_DIAGONAL : NORMAL_DIAGONAL;
+  const keys = Object.keys(diagonal).map(Number);
+  const rowCount = severity === 'TIGHTENED' ? SAMPLE_SIZES.length : REDUCED_SAMPLE_SIZES.length;
+
+  const cellAt = (row: number): AcceptanceCell => {
+    const sampleIndex = severity === 'REDUCED'
+      ? SAMPLE_SIZES.indexOf(REDUCED_SAMPLE_SIZES[row])
+      : row;
+    const position = sampleIndex + aqlIndex;
+    if (position < Math.min(...keys)) return 'DOWN';
+    if (position > Math.max(...keys)) return 'UP';
+    return diagonal[position];
+  };
+
+  const search = (direction: 'UP' | 'DOWN') => {
+    const step = direction === 'DOWN' ? 1 : -1;
+    for (let row = startRow + step; row >= 0 && row < rowCount; row += step) {
+      const cell = cellAt(row);
+      if (Array.isArray(cell)) {
+        return { row, acceptNumber: cell[0], rejectNumber: cell[1] };
+      }
+    }
+    return null;
+  };
+
+  const start = cellAt(startRow);
+  if (Array.isArray(start)) {
+    return { row: startRow, acceptNumber: start[0], rejectNumber: start[1] };
+  }
+
+  const found = search(start) || search(start === 'DOWN' ? 'UP' : 'DOWN');
+  if (!found) {
+    throw new Error(`No sampling plan found for AQL index ${aqlIndex}`);
+  }
+  return found;
+}
+
+/**
+ * Sampling plan repository - acceptance sampling per ANSI/ASQ Z1.4 (ISO 2859-1)
+ * with normal/tightened/reduced switching between lots
+ */
+export class SamplingPlanRepository extends BaseRepository<SamplingPlan> {
+  private qcRepository: QualityCheckRepository;
+  private lotRepository: LotRepository;
+
+  constructor(pool: Pool) {
+    super(pool, 'sampling_plans');
+    this.qcRepository = new QualityCheckRepository(pool);
+    this.lotRepository = new LotRepository(pool);
+  }
+
+  /**
+   * Find sampling plan by ID
+   */
+  async findById(id: string): Promise<SamplingPlan | null> {
+    const query = `
+      SELECT ${PLAN_COLUMNS}
+      FROM sampling_plans
+      WHERE id = $1 AND is_active = true
+    `;
+    const result = await this.executeQuery<SamplingPlan>(query, [id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Find sampling plans with filtering and pagination
+   */
+  async findWithFilters(
+    options: PaginationOptions = {},
+    filters: SamplingPlanFilterOptions = {}
+  ): Promise<PaginatedResult<SamplingPlan>> {
+    const {
+      page = 1,
+      limit = 50,
+      sortBy = 'code',
+      sortOrder = 'ASC' as const,
+    } = options;
+
+    const offset = (page - 1) * limit;
+    let whereClause = 'WHERE is_active = true';
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    if (filters.inspectionStage) {
+      whereClause += ` AND inspection_stage = $${paramIndex++}`;
+      params.push(filters.inspectionStage);
+    }
+
+    if (filters.productId) {
+      whereClause += ` AND (product_id = $${paramIndex++} OR product_id IS NULL)`;
+      params.push(filters.productId);
+    }
+
+    // Count query
+    const countQuery = `SELECT COUNT(*) as total FROM sampling_plans ${whereClause}`;
+    const countResult = await this.executeQuery<{ total: string }>(countQuery, params);
+    const total = parseInt(countResult.rows[0].total);
+
+    // Main query
+    const dataQuery = `
+      SELECT ${PLAN_COLUMNS}
+      FROM sampling_plans
+      ${whereClause}
+      ORDER BY ${sortBy} ${sortOrder}
+      LIMIT $${paramIndex++} OFFSET $${paramIndex++}
+    `;
+    const dataParams = [...params, limit, offset];
+    const dataResult = await this.executeQuery<SamplingPlan>(dataQuery, dataParams);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data: dataResult.rows,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Create a sampling plan; inspection starts at normal severity
+   */
+  async createPlan(data: {
+    code: string;
+    name: string;
+    description?: string;
+    inspectionStage: InspectionStageType;
+    productId?: string;
+    aql: number;
+    inspectionLevel?: InspectionLevelType;
+    allowReduced?: boolean;
+  }): Promise<SamplingPlan> {
+    findAqlIndex(data.aql);
+
+    const query = `
+      INSERT INTO sampling_plans (code, name, description, inspection_stage, product_id, aql, inspection_level, allow_reduced)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING id
+    `;
+    const result = await this.executeQuery<{ id: string }>(query, [
+      data.code,
+      data.name,
+      data.description,
+      data.inspectionStage,
+      data.productId,
+      data.aql,
+      data.inspectionLevel || 'II',
+      data.allowReduced ?? true,
+    ]);
+
+    return (await this.findById(result.rows[0].id))!;
+  }
+
+  /**
+   * Update plan definition. Switching state is only changed by lot decisions
+   * and reinstatement.
+   */
+  async updatePlan(
+    id: string,
+    data: {
+      name?: string;
+      description?: string;
+      aql?: number;
+      inspectionLevel?: InspectionLevelType;
+      allowReduced?: boolean;
+    }
+  ): Promise<SamplingPlan | null> {
+    if (data.aql !== undefined) {
+      findAqlIndex(data.aql);
+    }
+
+    const updated = await this.update(id, data);
+    return updated ? this.findById(id) : null;
+  }
+
+  /**
+   * Resume inspection after it was discontinued. Z1.4 requires tightened
+   * inspection once the supplier has taken corrective action.
+   */
+  async reinstate(id: string): Promise<SamplingPlan | null> {
+    const plan = await this.findById(id);
+    if (!plan) {
+      return null;
+    }
+
+    if (!plan.isSuspended) {
+      throw new Error(`Sampling plan ${plan.code} is not suspended`);
+    }
+
+    await this.executeQuery(
+      `UPDATE sampling_plans
+       SET is_suspended = false, current_severity = 'TIGHTENED', switching_score = 0,
+           recent_lot_results = '[]', consecutive_accepted = 0, tightened_rejections = 0, updated_at = NOW()
+       WHERE id = $1`,
+      [id]
+    );
+    return this.findById(id);
+  }
+
+  /**
+   * Sample size and Ac/Re the plan currently gives for a lot size
+   */
+  async calculateSampleSize(id: string, lotSize: number): Promise<SampleSize | null> {
+    const plan = await this.findById(id);
+    if (!plan) {
+      return null;
+    }
+
+    return lookupSampleSize(plan.aql, plan.inspectionLevel, lotSize, plan.currentSeverity);
+  }
+
+  /**
+   * Start inspecting a lot or an operation's output. The lot size is taken from
+   * lots.quantity or manufacturing_order_operations.planned_quantity, and the
+   * sample size and Ac/Re are fixed at the plan's current severity.
+   */
+  async startInspection(
+    samplingPlanId: string,
+    data: { lotId?: string; operationId?: string; qualityCheckId?: string }
+  ): Promise<SampleInspection> {
+    const plan = await this.findById(samplingPlanId);
+    if (!plan) {
+      throw new Error(`Sampling plan with ID ${samplingPlanId} not found`);
+    }
+
+    if (plan.isSuspended) {
+      throw new Error(`Sampling plan ${plan.code} is suspended after repeated rejections on tightened inspection; reinstate it first`);
+    }
+
+    if (!data.lotId && !data.operationId) {
+      throw new Error('Either lotId or operationId is required');
+    }
+
+    const quantityResult = data.lotId
+      ? await this.executeQuery<{ quantity: number }>(
+          'SELECT quantity::float8 as quantity FROM lots WHERE id = $1 AND is_active = true',
+          [data.lotId]
+        )
+      : await this.executeQuery<{ quantity: number }>(
+          'SELECT planned_quantity::float8 as quantity FROM manufacturing_order_operations WHERE id = $1 AND is_active = true',
+          [data.operationId]
+        );
+
+    if (quantityResult.rows.length === 0) {
+      throw new Error(data.lotId ? `Lot with ID ${data.lotId} not found` : `Operation with ID ${data.operationId} not found`);
+    }
+
+    const sample = lookupSampleSize(
+      plan.aql,
+      plan.inspectionLevel,
+      Math.floor(quantityResult.rows[0].quantity),
+      plan.currentSeverity
+    );
+
+    const query = `
+      INSERT INTO sample_inspections (
+        sampling_plan_id, lot_id, operation_id, quality_check_id, lot_size,
+        severity, code_letter, sample_size, accept_number, reject_number
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      RETURNING id
+    `;
+    const result = await this.executeQuery<{ id: string }>(query, [
+      samplingPlanId,
+      data.lotId,
+      data.operationId,
+      data.qualityCheckId,
+      sample.lotSize,
+      sample.severity,
+      sample.codeLetter,
+      sample.sampleSize,
+      sample.acceptNumber,
+      sample.rejectNumber,
+    ]);
+
+    return (await this.findInspectionById(result.rows[0].id))!;
+  }
+
+  /**
+   * Find sample inspection by ID, including its sample results
+   */
+  async findInspectionById(id: string): Promise<SampleInspection | null> {
+    const query = `
+      SELECT ${INSPECTION_COLUMNS}
+      FROM sample_inspections
+      WHERE id = $1 AND is_active = true
+    `;
+    const result = await this.executeQuery<SampleInspection>(query, [id]);
+    const inspection = result.rows[0];
+    if (!inspection) {
+      return null;
+    }
+
+    const resultsQuery = `
+      SELECT
+        id,
+        sample_inspection_id as "sampleInspectionId",
+        sample_number as "sampleNumber",
+        result,
+        measured_value::float8 as "measuredValue",
+        notes,
+        inspector_id as "inspectorId",
+        inspected_at as "inspectedAt",
+        is_active as "isActive",
+        created_at as "createdAt",
+        updated_at as "updatedAt",
+        version
+      FROM sample_results
+      WHERE sample_inspection_id = $1 AND is_active = true
+      ORDER BY sample_number ASC
+    `;
+    const results = await this.executeQuery<SampleResult>(resultsQuery, [id]);
+
+    return { ...inspection, results: results.rows };
+  }
+
+  /**
+   * Find sample inspections with filtering and pagination
+   */
+  async findInspections(
+    options: PaginationOptions = {},
+    filters: SampleInspectionFilterOptions = {}
+  ): Promise<PaginatedResult<SampleInspection>> {
+    const {
+      page = 1,
+      limit = 50,
+      sortBy = 'created_at',
+      sortOrder = 'DESC' as const,
+    } = options;
+
+    const offset = (page - 1) * limit;
+    let whereClause = 'WHERE is_active = true';
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    if (filters.samplingPlanId) {
+      whereClause += ` AND sampling_plan_id = $${paramIndex++}`;
+      params.push(filters.samplingPlanId);
+    }
+
+    if (filters.lotId) {
+      whereClause += ` AND lot_id = $${paramIndex++}`;
+      params.push(filters.lotId);
+    }
+
+    if (filters.operationId) {
+      whereClause += ` AND operation_id = $${paramIndex++}`;
+      params.push(filters.operationId);
+    }
+
+    if (filters.status) {
+      whereClause += ` AND status = $${paramIndex++}`;
+      params.push(filters.status);
+    }
+
+    // Count query
+    const countQuery = `SELECT COUNT(*) as total FROM sample_inspections ${whereClause}`;
+    const countResult = await this.executeQuery<{ total: string }>(countQuery, params);
+    const total = parseInt(countResult.rows[0].total);
+
+    // Main query
+    const dataQuery = `
+      SELECT ${INSPECTION_COLUMNS}
+      FROM sample_inspections
+      ${whereClause}
+      ORDER BY ${sortBy} ${sortOrder}
+      LIMIT $${paramIndex++} OFFSET $${paramIndex++}
+    `;
+    const dataParams = [...params, limit, offset];
+    const dataResult = await this.executeQuery<SampleInspection>(dataQuery, dataParams);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data: dataResult.rows,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Record sample unit results and derive the lot decision. The lot is rejected
+   * as soon as the rejection number is reached, and accepted once the full
+   * sample is inspected within the acceptance number. A decision updates the
+   * plan's switching state, quarantines a rejected inventory lot and records
+   * the outcome on the linked quality check.
+   */
+  async recordSampleResults(
+    id: string,
+    results: SampleResultInput[],
+    inspectorId?: string
+  ): Promise<SampleInspection> {
+    // The decision is recorded on the linked quality check after commit, so
+    // reject up front what the check would refuse
+    const pending = await this.findInspectionById(id);
+    if (pending?.qualityCheckId) {
+      const check = await this.qcRepository.findById(pending.qualityCheckId);
+      if (check?.requiresSecondCheck && !inspectorId) {
+        throw new Error('Inspector ID is required for checks that require a second check');
+      }
+    }
+
+    const client = await this.beginTransaction();
+    let inspection: SampleInspection;
+    try {
+      const current = await client.query(
+        `SELECT ${INSPECTION_COLUMNS} FROM sample_inspections WHERE id = $1 AND is_active = true FOR UPDATE`,
+        [id]
+      );
+      inspection = current.rows[0];
+      if (!inspection) {
+        throw new Error(`Sample inspection with ID ${id} not found`);
+      }
+
+      if (inspection.status !== 'IN_PROGRESS') {
+        throw new Error(`Sample inspection is already ${inspection.status}; no further samples can be recorded`);
+      }
+
+      const outOfRange = results.find(r => r.sampleNumber > inspection.sampleSize);
+      if (outOfRange) {
+        throw new Error(`Invalid sample number ${outOfRange.sampleNumber}: the sample size is ${inspection.sampleSize}`);
+      }
+
+      for (const sample of results) {
+        await client.query(
+          `INSERT INTO sample_results (sample_inspection_id, sample_number, result, measured_value, notes, inspector_id)
+           VALUES ($1, $2, $3, $4, $5, $6)`,
+          [id, sample.sampleNumber, sample.result, sample.measuredValue, sample.notes, inspectorId]
+        );
+      }
+
+      const counts = await client.query(
+        `SELECT COUNT(*)::int as inspected, COUNT(*) FILTER (WHERE result = 'FAIL')::int as nonconforming
+         FROM sample_results
+         WHERE sample_inspection_id = $1 AND is_active = true`,
+        [id]
+      );
+      const { inspected, nonconforming } = counts.rows[0];
+
+      let status = 'IN_PROGRESS';
+      if (nonconforming >= inspection.rejectNumber) {
+        status = 'REJECTED';
+      } else if (inspected >= inspection.sampleSize) {
+        status = 'ACCEPTED';
+      }
+
+      await client.query(
+        `UPDATE sample_inspections
+         SET samples_inspected = $2, nonconforming_count = $3, status = $4,
+             decided_at = CASE WHEN $4 <> 'IN_PROGRESS' THEN NOW() END, updated_at = NOW()
+         WHERE id = $1`,
+        [id, inspected, nonconforming, status]
+      );
+
+      if (status !== 'IN_PROGRESS') {
+        await this.applySwitchingRules(client, inspection, status === 'ACCEPTED', nonconforming);
+
+        if (status === 'REJECTED' && inspection.lotId) {
+          const lot = await client.query(`SELECT status FROM lots WHERE id = $1`, [inspection.lotId]);
+          if (lot.rows[0]?.status === 'AVAILABLE') {
+            await this.lotRepository.applyStatus(client, inspection.lotId, 'QUARANTINED', {
+              reason: 'Rejected by sample inspection',
+              changedBy: inspectorId,
+            });
+          }
+        }
+      }
+
+      await this.commitTransaction(client);
+    } catch (error) {
+      await this.rollbackTransaction(client);
+      throw error;
+    }
+
+    const decided = (await this.findInspectionById(id))!;
+    if (decided.status !== 'IN_PROGRESS' && decided.qualityCheckId) {
+      await this.qcRepository.recordResults(
+        decided.qualityCheckId,
+        decided.status === 'ACCEPTED' ? 'PASS' : 'FAIL',
+        undefined,
+        `Lot ${decided.status.toLowerCase()}: ${decided.nonconformingCount} nonconforming in ${decided.samplesInspected} of ${decided.sampleSize} samples (Ac ${decided.acceptNumber}, Re ${decided.rejectNumber})`,
+        inspectorId
+      );
+    }
+
+    return decided;
+  }
+
+  /**
+   * Move the plan between normal, tightened and reduced inspection after a lot
+   * decision (Z1.4 section 8):
+   * - normal to tightened when 2 of 5 consecutive lots are not accepted
+   * - tightened to normal after 5 consecutive accepted lots
+   * - discontinue after 5 lots not accepted on tightened
+   * - normal to reduced when the switching score reaches 30 and reduced is allowed
+   * - reduced to normal when a lot is not accepted
+   */
+  private async applySwitchingRules(
+    client: PoolClient,
+    inspection: SampleInspection,
+    accepted: boolean,
+    nonconforming: number
+  ): Promise<void> {
+    const planResult = await client.query(
+      `SELECT ${PLAN_COLUMNS} FROM sampling_plans WHERE id = $1 FOR UPDATE`,
+      [inspection.samplingPlanId]
+    );
+    const plan: SamplingPlan = planResult.rows[0];
+
+    // Lots inspected under a severity the plan has since left do not count
+    if (plan.currentSeverity !== inspection.severity) {
+      return;
+    }
+
+    let severity: InspectionSeverityType = plan.currentSeverity;
+    let switchingScore: number = plan.switchingScore;
+    let recentLotResults: boolean[] = plan.recentLotResults || [];
+    let consecutiveAccepted: number = accepted ? plan.consecutiveAccepted + 1 : 0;
+    let tightenedRejections: number = plan.tightenedRejections;
+    let isSuspended = false;
+
+    switch (plan.currentSeverity) {
+      case 'NORMAL': {
+        recentLotResults = [...recentLotResults, accepted].slice(-NORMAL_WINDOW);
+
+        if (!accepted) {
+          switchingScore = 0;
+        } else if (inspection.acceptNumber >= 2) {
+          // Add 3 if the lot would also have been accepted one AQL step tighter
+          const tighter = this.tighterAcceptNumber(plan, inspection);
+          switchingScore = tighter !== null && nonconforming <= tighter ? switchingScore + 3 : 0;
+        } else {
+          switchingScore += 2;
+        }
+
+        if (recentLotResults.filter(result => !result).length >= 2) {
+          severity = 'TIGHTENED';
+        } else if (plan.allowReduced && switchingScore >= REDUCED_SWITCHING_SCORE) {
+          severity = 'REDUCED';
+        }
+        break;
+      }
+      case 'TIGHTENED':
+        if (!accepted) {
+          tightenedRejections += 1;
+          isSuspended = tightenedRejections >= TIGHTENED_DISCONTINUE;
+        } else if (consecutiveAccepted >= TIGHTENED_RELEASE) {
+          severity = 'NORMAL';
+        }
+        break;
+      case 'REDUCED':
+        if (!accepted) {
+          severity = 'NORMAL';
+        }
+        break;
+    }
+
+    // Counters start over whenever the severity changes
+    if (severity !== plan.currentSeverity) {
+      switchingScore = 0;
+      recentLotResults = [];
+      consecutiveAccepted = 0;
+      tightenedRejections = 0;
+    }
+
+    await client.query(
+      `UPDATE sampling_plans
+       SET current_severity = $2, switching_score = $3, recent_lot_results = $4,
+           consecutive_accepted = $5, tightened_rejections = $6, is_suspended = $7, updated_at = NOW()
+       WHERE id = $1`,
+      [plan.id, severity, switchingScore, JSON.stringify(recentLotResults), consecutiveAccepted, tightenedRejections, isSuspended]
+    );
+  }
+
+  /**
+   * Acceptance number for the same code letter at the next tighter AQL, used by
+   * the switching score. Null when there is no tighter AQL.
+   */
+  private tighterAcceptNumber(plan: SamplingPlan, inspection: SampleInspection): number | null {
+    const aqlIndex = findAqlIndex(plan.aql);
+    if (aqlIndex === 0) {
+      return null;
+    }
+
+    const { acceptNumber } = resolveAcceptance('NORMAL', CODE_LETTERS.indexOf(inspection.codeLetter), aqlIndex - 1);
+    return acceptNumber;
+  }
+}
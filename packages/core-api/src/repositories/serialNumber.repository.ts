@@ -0,0 +1,929 @@
+import { Pool, PoolClient } from 'pg';
+import {
+  AsBuiltComponent,
+  AsBuiltQualityCheck,
+  AsBuiltRecord,
+  SerialNumberDetail,
+  SerialNumberEvent,
+  SerialNumberEventTypeType,
+  SerialNumberStatusType,
+} from '@akazify/core-domain';
+import { BaseRepository, PaginatedResult, PaginationOptions } from './base';
+import { LocationRepository } from './location.repository';
+
+/**
+ * Serial number filter options
+ */
+export interface SerialNumberFilterOptions {
+  productId?: string;
+  status?: SerialNumberStatusType;
+  serialNumber?: string;
+  lotId?: string;
+  locationId?: string;
+  binId?: string;
+  manufacturingOrderId?: string;
+  allocatedOperationId?: string;
+}
+
+/**
+ * Serials to register: the attributes they share
+ */
+export interface NewSerialNumbers {
+  productId: string;
+  lotId?: string;
+  locationId?: string;
+  binId?: string;
+  manufacturingOrderId?: string;
+  registeredBy?: string;
+}
+
+/**
+ * A run of serial numbers: prefix, counter zero-padded to width, suffix
+ */
+export interface SerialNumberRange {
+  prefix?: string;
+  suffix?: string;
+  start: number;
+  count: number;
+  width?: number;
+}
+
+/**
+ * A component installed in a finished serial: another serial, or a share of
+ * the lot drawn by a material consumption record
+ */
+export interface InstallComponentInput {
+  operationId?: string;
+  componentSerialId?: string;
+  materialConsumptionId?: string;
+  quantity?: number;
+  installedBy?: string;
+  notes?: string;
+}
+
+/**
+ * Locked serial row, as read inside a transaction
+ */
+interface SerialRow {
+  id: string;
+  serialNumber: string;
+  productId: string;
+  lotId: string | null;
+  status: SerialNumberStatusType;
+  locationId: string | null;
+  binId: string | null;
+  manufacturingOrderId: string | null;
+  allocatedOperationId: string | null;
+}
+
+/**
+ * Valid serial status transitions. CONSUMED (installed) and SCRAPPED are
+ * terminal.
+ */
+const validTransitions: Record<SerialNumberStatusType, SerialNumberStatusType[]> = {
+  AVAILABLE: ['ALLOCATED', 'CONSUMED', 'SCRAPPED'],
+  ALLOCATED: ['AVAILABLE', 'CONSUMED', 'SCRAPPED'],
+  CONSUMED: [],
+  SCRAPPED: [],
+};
+
+const SORT_COLUMNS: Record<string, string> = {
+  serialNumber: 'sn.serial_number',
+  status: 'sn.status',
+  createdAt: 'sn.created_at',
+};
+
+const SERIAL_COLUMNS = `
+  sn.id,
+  sn.product_id as "productId",
+  p.sku as "productSku",
+  p.name as "productName",
+  sn.serial_number as "serialNumber",
+  sn.lot_id as "lotId",
+  lo.lot_number as "lotNumber",
+  sn.status,
+  sn.location_id as "locationId",
+  l.code as "locationCode",
+  sn.bin_id as "binId",
+  b.code as "binCode",
+  sn.manufacturing_order_id as "manufacturingOrderId",
+  mo.order_number as "orderNumber",
+  sn.allocated_operation_id as "allocatedOperationId",
+  sn.is_active as "isActive",
+  sn.created_at as "createdAt",
+  sn.updated_at as "updatedAt",
+  sn.version
+`;
+
+const SERIAL_JOINS = `
+  INNER JOIN products p ON sn.product_id = p.id
+  LEFT JOIN lots lo ON sn.lot_id = lo.id
+  LEFT JOIN locations l ON sn.location_id = l.id
+  LEFT JOIN bins b ON sn.bin_id = b.id
+  LEFT JOIN manufacturing_orders mo ON sn.manufacturing_order_id = mo.id
+`;
+
+const COMPONENT_COLUMNS = `
+  abc.id,
+  abc.serial_number_id as "serialNumberId",
+  abc.operation_id as "operationId",
+  op.sequence as "operationSequence",
+  op.operation_id as "operationCode",
+  abc.product_id as "productId",
+  p.sku as "productSku",
+  abc.component_serial_id as "componentSerialId",
+  csn.serial_number as "componentSerialNumber",
+  abc.lot_id as "lotId",
+  lo.lot_number as "lotNumber",
+  abc.material_consumption_id as "materialConsumptionId",
+  abc.quantity::float8 as quantity,
+  abc.uom,
+  abc.installed_by as "installedBy",
+  abc.notes,
+  abc.installed_at as "installedAt"
+`;
+
+const COMPONENT_JOINS = `
+  INNER JOIN manufacturing_order_operations op ON abc.operation_id = op.id
+  INNER JOIN products p ON abc.product_id = p.id
+  LEFT JOIN serial_numbers csn ON abc.component_serial_id = csn.id
+  LEFT JOIN lots lo ON abc.lot_id = lo.id
+`;
+
+/**
+ * Round to the 4 decimal places of the quantity columns
+ */
+function roundQuantity(value: number): number {
+  return Math.round(value * 1e4) / 1e4;
+}
+
+/**
+ * Serial number repository. Serials are registered singly or in ranges,
+ * moved between bins, allocated to manufacturing order operations and
+ * installed in finished serials, which builds up each finished serial's
+ * as-built record. Every change is kept as a serial number event.
+ */
+export class SerialNumberRepository extends BaseRepository<SerialNumberDetail> {
+  private locationRepository: LocationRepository;
+
+  constructor(pool: Pool) {
+    super(pool, 'serial_numbers');
+    this.locationRepository = new LocationRepository(pool);
+  }
+
+  /**
+   * Find serial numbers with filtering and pagination
+   */
+  async findSerialNumbers(
+    options: PaginationOptions = {},
+    filters: SerialNumberFilterOptions = {}
+  ): Promise<PaginatedResult<SerialNumberDetail>> {
+    const { page = 1, limit = 50, sortBy = 'createdAt', sortOrder = 'DESC' } = options;
+    const conditions: string[] = ['sn.is_active = true'];
+    const params: any[] = [];
+
+    if (filters.productId) {
+      params.push(filters.productId);
+      conditions.push(`sn.product_id = $${params.length}`);
+    }
+
+    if (filters.status) {
+      params.push(filters.status);
+      conditions.push(`sn.status = $${params.length}`);
+    }
+
+    if (filters.serialNumber) {
+      params.push(`%${filters.serialNumber}%`);
+      conditions.push(`sn.serial_number ILIKE $${params.length}`);
+    }
+
+    if (filters.lotId) {
+      params.push(filters.lotId);
+      conditions.push(`sn.lot_id = $${params.length}`);
+    }
+
+    if (filters.locationId) {
+      params.push(filters.locationId);
+      conditions.push(`sn.location_id = $${params.length}`);
+    }
+
+    if (filters.binId) {
+      params.push(filters.binId);
+      conditions.push(`sn.bin_id = $${params.length}`);
+    }
+
+    if (filters.manufacturingOrderId) {
+      params.push(filters.manufacturingOrderId);
+      conditions.push(`sn.manufacturing_order_id = $${params.length}`);
+    }
+
+    if (filters.allocatedOperationId) {
+      params.push(filters.allocatedOperationId);
+      conditions.push(`sn.allocated_operation_id = $${params.length}`);
+    }
+
+    const whereClause = `WHERE ${conditions.join(' AND ')}`;
+    const countResult = await this.executeQuery<{ total: string }>(
+      `SELECT COUNT(*) as total FROM serial_numbers sn ${whereClause}`,
+      params
+    );
+    const total = parseInt(countResult.rows[0]?.total || '0');
+
+    const orderBy = SORT_COLUMNS[sortBy] || SORT_COLUMNS.createdAt;
+    const dataResult = await this.executeQuery<SerialNumberDetail>(
+      `SELECT ${SERIAL_COLUMNS}
+       FROM serial_numbers sn
+       ${SERIAL_JOINS}
+       ${whereClause}
+       ORDER BY ${orderBy} ${sortOrder === 'ASC' ? 'ASC' : 'DESC'}, sn.serial_number ASC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, (page - 1) * limit]
+    );
+
+    const totalPages = Math.ceil(total / limit);
+    return {
+      data: dataResult.rows,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Find an active serial number by ID
+   */
+  async findById(id: string): Promise<SerialNumberDetail | null> {
+    const result = await this.executeQuery<SerialNumberDetail>(
+      `SELECT ${SERIAL_COLUMNS} FROM serial_numbers sn ${SERIAL_JOINS} WHERE sn.id = $1 AND sn.is_active = true`,
+      [id]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Find serials by exact serial number, as scanned. Serial numbers are
+   * unique per product, so several products may share one.
+   */
+  async findBySerialNumber(serialNumber: string): Promise<SerialNumberDetail[]> {
+    const result = await this.executeQuery<SerialNumberDetail>(
+      `SELECT ${SERIAL_COLUMNS}
+       FROM serial_numbers sn
+       ${SERIAL_JOINS}
+       WHERE sn.serial_number = $1 AND sn.is_active = true
+       ORDER BY p.sku ASC`,
+      [serialNumber.trim()]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Register a single serial number
+   */
+  async register(serialNumber: string, data: NewSerialNumbers): Promise<SerialNumberDetail> {
+    const [registered] = await this.registerSerials([serialNumber.trim()], data);
+    return registered;
+  }
+
+  /**
+   * Register a run of serial numbers, all or none
+   */
+  async registerRange(range: SerialNumberRange, data: NewSerialNumbers): Promise<SerialNumberDetail[]> {
+    const serialNumbers: string[] = [];
+    for (let counter = range.start; counter < range.start + range.count; counter++) {
+      serialNumbers.push(`${range.prefix ?? ''}${String(counter).padStart(range.width ?? 0, '0')}${range.suffix ?? ''}`);
+    }
+    return this.registerSerials(serialNumbers, data);
+  }
+
+  /**
+   * Move a serial to a location or bin. Serials outside a lot take one of
+   * their product's unit of a bin's capacity.
+   */
+  async move(
+    id: string,
+    destination: { locationId?: string; binId?: string },
+    options: { reason?: string; movedBy?: string } = {}
+  ): Promise<SerialNumberDetail | null> {
+    const serial = await this.findById(id);
+    if (!serial) {
+      return null;
+    }
+
+    if (!destination.locationId && !destination.binId) {
+      throw new Error('Validation failed: a move needs a locationId or binId');
+    }
+    const place = await this.locationRepository.resolvePlace(destination.locationId, destination.binId);
+    if (place.locationId === serial.locationId && (place.binId ?? null) === (serial.binId ?? null)) {
+      throw new Error(`Validation failed: serial ${serial.serialNumber} is already there`);
+    }
+    if (place.binId && !serial.lotId) {
+      await this.assertRoom(place.binId, serial.productId, 1);
+    }
+
+    const client = await this.beginTransaction();
+    try {
+      const current = await this.lock(client, id);
+      if (current.status !== 'AVAILABLE' && current.status !== 'ALLOCATED') {
+        throw new Error(`Validation failed: serial ${current.serialNumber} is ${current.status}`);
+      }
+      await this.assertNotPacked(client, current);
+
+      await client.query(
+        `UPDATE serial_numbers SET location_id = $2, bin_id = $3, version = version + 1 WHERE id = $1`,
+        [id, place.locationId, place.binId ?? null]
+      );
+      await this.recordEvent(client, current, 'MOVED', current.status, {
+        toLocationId: place.locationId,
+        toBinId: place.binId,
+        reason: options.reason,
+        performedBy: options.movedBy,
+      });
+
+      await this.commitTransaction(client);
+    } catch (error) {
+      await this.rollbackTransaction(client);
+      throw error;
+    }
+
+    return this.findById(id);
+  }
+
+  /**
+   * Allocate an available serial to an operation of an order that is not
+   * yet completed or cancelled
+   */
+  async allocate(id: string, operationId: string, options: { allocatedBy?: string } = {}): Promise<SerialNumberDetail | null> {
+    const serial = await this.findById(id);
+    if (!serial) {
+      return null;
+    }
+
+    const operation = await this.executeQuery<{ orderNumber: string; orderStatus: string }>(
+      `SELECT mo.order_number as "orderNumber", mo.status as "orderStatus"
+       FROM manufacturing_order_operations op
+       INNER JOIN manufacturing_orders mo ON op.manufacturing_order_id = mo.id
+       WHERE op.id = $1 AND op.is_active = true`,
+      [operationId]
+    );
+    if (operation.rows.length === 0) {
+      throw new Error(`Operation with ID ${operationId} does not exist`);
+    }
+    const { orderNumber, orderStatus } = operation.rows[0];
+    if (orderStatus === 'COMPLETED' || orderStatus === 'CANCELLED') {
+      throw new Error(`Validation failed: order ${orderNumber} is ${orderStatus}`);
+    }
+
+    const client = await this.beginTransaction();
+    try {
+      const current = await this.lock(client, id);
+      this.assertTransition(current, 'ALLOCATED');
+
+      await client.query(
+        `UPDATE serial_numbers SET status = 'ALLOCATED', allocated_operation_id = $2, version = version + 1 WHERE id = $1`,
+        [id, operationId]
+      );
+      await this.recordEvent(client, current, 'ALLOCATED', 'ALLOCATED', {
+        operationId,
+        performedBy: options.allocatedBy,
+      });
+
+      await this.commitTransaction(client);
+    } catch (error) {
+      await this.rollbackTransaction(client);
+      throw error;
+    }
+
+    return this.findById(id);
+  }
+
+  /**
+   * Release an allocated serial back to stock
+   */
+  async deallocate(id: string, options: { reason?: string; performedBy?: string } = {}): Promise<SerialNumberDetail | null> {
+    const serial = await this.findById(id);
+    if (!serial) {
+      return null;
+    }
+
+    const client = await this.beginTransaction();
+    try {
+      const current = await this.lock(client, id);
+      this.assertTransition(current, 'AVAILABLE');
+
+      await client.query(
+        `UPDATE serial_numbers SET status = 'AVAILABLE', allocated_operation_id = NULL, version = version + 1 WHERE id = $1`,
+        [id]
+      );
+      await this.recordEvent(client, current, 'DEALLOCATED', 'AVAILABLE', {
+        operationId: current.allocatedOperationId ?? undefined,
+        reason: options.reason,
+        performedBy: options.performedBy,
+      });
+
+      await this.commitTransaction(client);
+    } catch (error) {
+      await this.rollbackTransaction(client);
+      throw error;
+    }
+
+    return this.findById(id);
+  }
+
+  /**
+   * Scrap a serial that is in stock or allocated
+   */
+  async scrap(id: string, options: { reason: string; scrappedBy?: string }): Promise<SerialNumberDetail | null> {
+    const serial = await this.findById(id);
+    if (!serial) {
+      return null;
+    }
+
+    const client = await this.beginTransaction();
+    try {
+      const current = await this.lock(client, id);
+      this.assertTransition(current, 'SCRAPPED');
+      await this.assertNotPacked(client, current);
+
+      await client.query(
+        `UPDATE serial_numbers SET status = 'SCRAPPED', allocated_operation_id = NULL, version = version + 1 WHERE id = $1`,
+        [id]
+      );
+      await this.recordEvent(client, current, 'SCRAPPED', 'SCRAPPED', {
+        operationId: current.allocatedOperationId ?? undefined,
+        reason: options.reason,
+        performedBy: options.scrappedBy,
+      });
+
+      await this.commitTransaction(client);
+    } catch (error) {
+      await this.rollbackTransaction(client);
+      throw error;
+    }
+
+    return this.findById(id);
+  }
+
+  /**
+   * A serial's events, oldest first
+   */
+  async getHistory(id: string): Promise<SerialNumberEvent[] | null> {
+    const serial = await this.findById(id);
+    if (!serial) {
+      return null;
+    }
+
+    const result = await this.executeQuery<SerialNumberEvent>(
+      `SELECT id, serial_number_id as "serialNumberId", event_type as "eventType",
+              from_status as "fromStatus", to_status as "toStatus",
+              from_location_id as "fromLocationId", from_bin_id as "fromBinId",
+              to_location_id as "toLocationId", to_bin_id as "toBinId",
+              operation_id as "operationId", reason, performed_by as "performedBy", created_at as "createdAt"
+       FROM serial_number_events
+       WHERE serial_number_id = $1
+       ORDER BY created_at ASC`,
+      [id]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Install a component in a finished serial. The serial must have been
+   * built by a manufacturing order that is not cancelled, and still be in
+   * stock. A component serial must be available or allocated to the
+   * installing operation, and is consumed; a lot share is attributed from a
+   * material consumption record of the same order, in its unit, and
+   * defaults to what the record has left unattributed.
+   */
+  async installComponent(id: string, input: InstallComponentInput): Promise<AsBuiltComponent | null> {
+    const serial = await this.findById(id);
+    if (!serial) {
+      return null;
+    }
+
+    if (!input.componentSerialId === !input.materialConsumptionId) {
+      throw new Error('Validation failed: give either a componentSerialId or a materialConsumptionId');
+    }
+    if (!serial.manufacturingOrderId) {
+      throw new Error(`Validation failed: serial ${serial.serialNumber} was not built by a manufacturing order`);
+    }
+
+    const order = await this.executeQuery<{ status: string }>(
+      `SELECT status FROM manufacturing_orders WHERE id = $1`,
+      [serial.manufacturingOrderId]
+    );
+    if (order.rows[0].status === 'CANCELLED') {
+      throw new Error(`Validation failed: order ${serial.orderNumber} is CANCELLED`);
+    }
+
+    const client = await this.beginTransaction();
+    let componentId: string;
+    try {
+      const parent = await this.lock(client, id);
+      if (parent.status !== 'AVAILABLE' && parent.status !== 'ALLOCATED') {
+        throw new Error(`Validation failed: serial ${parent.serialNumber} is ${parent.status}`);
+      }
+
+      componentId = input.componentSerialId
+        ? await this.installSerial(client, parent, input.componentSerialId, input)
+        : await this.installLotShare(client, parent, input.materialConsumptionId!, input);
+
+      await this.commitTransaction(client);
+    } catch (error) {
+      await this.rollbackTransaction(client);
+      throw error;
+    }
+
+    const result = await this.executeQuery<AsBuiltComponent>(
+      `SELECT ${COMPONENT_COLUMNS} FROM as_built_components abc ${COMPONENT_JOINS} WHERE abc.id = $1`,
+      [componentId]
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * The as-built record of a serial: its installed components in operation
+   * order, the quality checks recorded against it or its order as a whole,
+   * and the serial it was installed in
+   */
+  async getAsBuilt(id: string): Promise<AsBuiltRecord | null> {
+    const serial = await this.findById(id);
+    if (!serial) {
+      return null;
+    }
+
+    const [componentResult, checkResult, parentResult] = await Promise.all([
+      this.executeQuery<AsBuiltComponent>(
+        `SELECT ${COMPONENT_COLUMNS}
+         FROM as_built_components abc
+         ${COMPONENT_JOINS}
+         WHERE abc.serial_number_id = $1
+         ORDER BY op.sequence ASC, abc.installed_at ASC`,
+        [id]
+      ),
+      this.executeQuery<AsBuiltQualityCheck>(
+        `SELECT qc.id, qc.check_id as "checkId", qc.name, qc.type, qc.operation_id as "operationId",
+                qc.serial_number_id as "serialNumberId", qc.status, qc.result,
+                qc.measured_value::float8 as "measuredValue", qc.unit,
+                qc.inspector_id as "inspectorId", qc.inspector_name as "inspectorName",
+                qc.actual_end_time as "completedAt"
+         FROM quality_checks qc
+         WHERE qc.is_active = true
+           AND (qc.serial_number_id = $1 OR (qc.serial_number_id IS NULL AND qc.manufacturing_order_id = $2))
+         ORDER BY qc.sequence ASC, qc.check_id ASC`,
+        [id, serial.manufacturingOrderId ?? null]
+      ),
+      this.executeQuery<AsBuiltComponent & { parentSerialNumber: string }>(
+        `SELECT ${COMPONENT_COLUMNS}, psn.serial_number as "parentSerialNumber"
+         FROM as_built_components abc
+         ${COMPONENT_JOINS}
+         INNER JOIN serial_numbers psn ON abc.serial_number_id = psn.id
+         WHERE abc.component_serial_id = $1`,
+        [id]
+      ),
+    ]);
+
+    return {
+      serialNumber: serial,
+      components: componentResult.rows,
+      qualityChecks: checkResult.rows,
+      ...(parentResult.rows[0] && { installedIn: parentResult.rows[0] }),
+    };
+  }
+
+  /**
+   * Validate and insert serials with their registration events
+   */
+  private async registerSerials(serialNumbers: string[], data: NewSerialNumbers): Promise<SerialNumberDetail[]> {
+    const tooLong = serialNumbers.find((serialNumber: string) => serialNumber.length === 0 || serialNumber.length > 50);
+    if (tooLong !== undefined) {
+      throw new Error(`Validation failed: serial number '${tooLong}' must be 1 to 50 characters`);
+    }
+
+    const product = await this.executeQuery(
+      `SELECT id FROM products WHERE id = $1 AND is_active = true`,
+      [data.productId]
+    );
+    if (product.rows.length === 0) {
+      throw new Error(`Product with ID ${data.productId} does not exist`);
+    }
+
+    if (data.lotId) {
+      const lot = await this.executeQuery<{ lotNumber: string; productId: string }>(
+        `SELECT lot_number as "lotNumber", product_id as "productId" FROM lots WHERE id = $1 AND is_active = true`,
+        [data.lotId]
+      );
+      if (lot.rows.length === 0) {
+        throw new Error(`Lot with ID ${data.lotId} does not exist`);
+      }
+      if (lot.rows[0].productId !== data.productId) {
+        throw new Error(`Validation failed: lot ${lot.rows[0].lotNumber} is for a different product`);
+      }
+    }
+
+    if (data.manufacturingOrderId) {
+      const order = await this.executeQuery<{ orderNumber: string; productId: string }>(
+        `SELECT order_number as "orderNumber", product_id as "productId" FROM manufacturing_orders WHERE id = $1`,
+        [data.manufacturingOrderId]
+      );
+      if (order.rows.length === 0) {
+        throw new Error(`Manufacturing order with ID ${data.manufacturingOrderId} does not exist`);
+      }
+      if (order.rows[0].productId !== data.productId) {
+        throw new Error(`Validation failed: order ${order.rows[0].orderNumber} does not build this product`);
+      }
+    }
+
+    const place = await this.locationRepository.resolvePlace(data.locationId, data.binId);
+    if (place.binId && !data.lotId) {
+      await this.assertRoom(place.binId, data.productId, serialNumbers.length);
+    }
+
+    const client = await this.beginTransaction();
+    const ids: string[] = [];
+    try {
+      const existing = await client.query(
+        `SELECT serial_number FROM serial_numbers
+         WHERE product_id = $1 AND serial_number = ANY($2)
+         ORDER BY serial_number ASC
+         LIMIT 5`,
+        [data.productId, serialNumbers]
+      );
+      if (existing.rows.length > 0) {
+        const taken = existing.rows.map((row: { serial_number: string }) => row.serial_number).join(', ');
+        throw new Error(`Serial number already exists for this product: ${taken}`);
+      }
+
+      for (const serialNumber of serialNumbers) {
+        const inserted = await client.query(
+          `INSERT INTO serial_numbers (product_id, serial_number, lot_id, location_id, bin_id, manufacturing_order_id)
+           VALUES ($1, $2, $3, $4, $5, $6)
+           RETURNING id`,
+          [data.productId, serialNumber, data.lotId, place.locationId, place.binId, data.manufacturingOrderId]
+        );
+        ids.push(inserted.rows[0].id);
+        await client.query(
+          `INSERT INTO serial_number_events (serial_number_id, event_type, to_status, to_location_id, to_bin_id, performed_by)
+           VALUES ($1, 'REGISTERED', 'AVAILABLE', $2, $3, $4)`,
+          [inserted.rows[0].id, place.locationId, place.binId, data.registeredBy]
+        );
+      }
+
+      await this.commitTransaction(client);
+    } catch (error) {
+      await this.rollbackTransaction(client);
+      throw error;
+    }
+
+    const result = await this.executeQuery<SerialNumberDetail>(
+      `SELECT ${SERIAL_COLUMNS}
+       FROM serial_numbers sn
+       ${SERIAL_JOINS}
+       WHERE sn.id = ANY($1)
+       ORDER BY sn.serial_number ASC`,
+      [ids]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Install a component serial and consume it
+   */
+  private async installSerial(
+    client: PoolClient,
+    parent: SerialRow,
+    componentSerialId: string,
+    input: InstallComponentInput
+  ): Promise<string> {
+    if (!input.operationId) {
+      throw new Error('Validation failed: an operationId is required to install a serial');
+    }
+    if (componentSerialId === parent.id) {
+      throw new Error(`Validation failed: serial ${parent.serialNumber} cannot be installed in itself`);
+    }
+    await this.assertOrderOperation(client, parent, input.operationId);
+
+    const exists = await client.query(
+      `SELECT id FROM serial_numbers WHERE id = $1 AND is_active = true`,
+      [componentSerialId]
+    );
+    if (exists.rows.length === 0) {
+      throw new Error(`Serial number with ID ${componentSerialId} does not exist`);
+    }
+    const component = await this.lock(client, componentSerialId);
+    this.assertTransition(component, 'CONSUMED');
+    await this.assertNotPacked(client, component);
+    if (component.status === 'ALLOCATED' && component.allocatedOperationId !== input.operationId) {
+      throw new Error(`Validation failed: serial ${component.serialNumber} is allocated to another operation`);
+    }
+
+    const product = await client.query(`SELECT uom FROM products WHERE id = $1`, [component.productId]);
+
+    await client.query(
+      `UPDATE serial_numbers
+       SET status = 'CONSUMED', allocated_operation_id = NULL, location_id = NULL, bin_id = NULL, version = version + 1
+       WHERE id = $1`,
+      [componentSerialId]
+    );
+    await this.recordEvent(client, component, 'INSTALLED', 'CONSUMED', {
+      operationId: input.operationId,
+      reason: `Installed in serial ${parent.serialNumber}`,
+      performedBy: input.installedBy,
+    });
+
+    const inserted = await client.query(
+      `INSERT INTO as_built_components
+         (serial_number_id, operation_id, product_id, component_serial_id, quantity, uom, installed_by, notes)
+       VALUES ($1, $2, $3, $4, 1, $5, $6, $7)
+       RETURNING id`,
+      [parent.id, input.operationId, component.productId, componentSerialId, product.rows[0].uom, input.installedBy, input.notes]
+    );
+    return inserted.rows[0].id;
+  }
+
+  /**
+   * Attribute a share of a lot drawn by a material consumption record
+   */
+  private async installLotShare(
+    client: PoolClient,
+    parent: SerialRow,
+    materialConsumptionId: string,
+    input: InstallComponentInput
+  ): Promise<string> {
+    const consumptionResult = await client.query(
+      `SELECT operation_id as "operationId", product_id as "productId", lot_id as "lotId",
+              consumed_quantity::float8 as "consumedQuantity", uom
+       FROM material_consumption
+       WHERE id = $1 AND is_active = true
+       FOR UPDATE`,
+      [materialConsumptionId]
+    );
+    const consumption = consumptionResult.rows[0];
+    if (!consumption) {
+      throw new Error(`Material consumption with ID ${materialConsumptionId} does not exist`);
+    }
+    if (!consumption.lotId) {
+      throw new Error('Validation failed: the material consumption was not drawn from a lot');
+    }
+    if (input.operationId && input.operationId !== consumption.operationId) {
+      throw new Error('Validation failed: the material consumption was recorded by another operation');
+    }
+    await this.assertOrderOperation(client, parent, consumption.operationId);
+
+    const attributed = await client.query(
+      `SELECT COALESCE(SUM(quantity), 0)::float8 as total
+       FROM as_built_components
+       WHERE material_consumption_id = $1`,
+      [materialConsumptionId]
+    );
+    const remaining = roundQuantity(consumption.consumedQuantity - attributed.rows[0].total);
+    const quantity = roundQuantity(input.quantity ?? remaining);
+    if (quantity <= 0 || quantity > remaining) {
+      throw new Error(
+        `Validation failed: ${remaining} ${consumption.uom} of the material consumption is left to attribute; ${quantity} ${consumption.uom} requested`
+      );
+    }
+
+    const inserted = await client.query(
+      `INSERT INTO as_built_components
+         (serial_number_id, operation_id, product_id, lot_id, material_consumption_id, quantity, uom, installed_by, notes)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       RETURNING id`,
+      [
+        parent.id,
+        consumption.operationId,
+        consumption.productId,
+        consumption.lotId,
+        materialConsumptionId,
+        quantity,
+        consumption.uom,
+        input.installedBy,
+        input.notes,
+      ]
+    );
+    return inserted.rows[0].id;
+  }
+
+  /**
+   * Check that an operation belongs to the order that built a serial
+   */
+  private async assertOrderOperation(client: PoolClient, serial: SerialRow, operationId: string): Promise<void> {
+    const operation = await client.query(
+      `SELECT manufacturing_order_id FROM manufacturing_order_operations WHERE id = $1 AND is_active = true`,
+      [operationId]
+    );
+    if (operation.rows.length === 0) {
+      throw new Error(`Operation with ID ${operationId} does not exist`);
+    }
+    if (operation.rows[0].manufacturing_order_id !== serial.manufacturingOrderId) {
+      throw new Error(`Validation failed: the operation is not on the order that built serial ${serial.serialNumber}`);
+    }
+  }
+
+  /**
+   * Reject changes to a serial packed on a license plate; it moves with the
+   * plate until unpacked
+   */
+  private async assertNotPacked(client: PoolClient, serial: SerialRow): Promise<void> {
+    const packed = await client.query(
+      `SELECT lp.lp_number
+       FROM license_plate_contents lpc
+       INNER JOIN license_plates lp ON lpc.license_plate_id = lp.id
+       WHERE lpc.serial_number_id = $1`,
+      [serial.id]
+    );
+    if (packed.rows.length > 0) {
+      throw new Error(
+        `Validation failed: serial ${serial.serialNumber} is packed on license plate ${packed.rows[0].lp_number}; unpack it first`
+      );
+    }
+  }
+
+  /**
+   * Check that a bin has room for a number of serials of a product
+   */
+  private async assertRoom(binId: string, productId: string, count: number): Promise<void> {
+    const product = await this.executeQuery<{ uom: string }>(
+      `SELECT uom FROM products WHERE id = $1`,
+      [productId]
+    );
+    await this.locationRepository.assertCapacity(binId, { productId, quantity: count, uom: product.rows[0].uom });
+  }
+
+  /**
+   * Lock a serial for update
+   */
+  private async lock(client: PoolClient, id: string): Promise<SerialRow> {
+    const result = await client.query(
+      `SELECT id, serial_number as "serialNumber", product_id as "productId", lot_id as "lotId", status,
+              location_id as "locationId", bin_id as "binId",
+              manufacturing_order_id as "manufacturingOrderId", allocated_operation_id as "allocatedOperationId"
+       FROM serial_numbers
+       WHERE id = $1
+       FOR UPDATE`,
+      [id]
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * Check a serial status transition against the valid transitions
+   */
+  private assertTransition(serial: SerialRow, status: SerialNumberStatusType): void {
+    if (!validTransitions[serial.status].includes(status)) {
+      throw new Error(`Invalid status transition from ${serial.status} to ${status}`);
+    }
+  }
+
+  /**
+   * Record a serial event from the serial's state before the change. Only
+   * moves and installations change its place; an installed serial has none.
+   */
+  private async recordEvent(
+    client: PoolClient,
+    serial: SerialRow,
+    eventType: SerialNumberEventTypeType,
+    toStatus: SerialNumberStatusType,
+    details: {
+      toLocationId?: string;
+      toBinId?: string;
+      operationId?: string;
+      reason?: string;
+      performedBy?: string;
+    } = {}
+  ): Promise<void> {
+    let toLocationId = serial.locationId;
+    let toBinId = serial.binId;
+    if (eventType === 'MOVED') {
+      toLocationId = details.toLocationId ?? null;
+      toBinId = details.toBinId ?? null;
+    } else if (eventType === 'INSTALLED') {
+      toLocationId = null;
+      toBinId = null;
+    }
+
+    await client.query(
+      `INSERT INTO serial_number_events
+         (serial_number_id, event_type, from_status, to_status, from_location_id, from_bin_id,
+          to_location_id, to_bin_id, operation_id, reason, performed_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+      [
+        serial.id,
+        eventType,
+        serial.status,
+        toStatus,
+        serial.locationId,
+        serial.binId,
+        toLocationId,
+        toBinId,
+        details.operationId,
+        details.reason,
+        details.performedBy,
+      ]
+    );
+  }
+}
@@ -0,0 +1,506 @@
+import { Pool } from 'pg';
+import {
+  EnhancedQualityCheck,
+  ProcessCapability,
+  SPCControlChart,
+  SPCPoint,
+  SPCRuleSetType,
+  SPCRuleViolation,
+  SPCSeriesKey,
+} from '@akazify/core-domain';
+import { BaseRepository } from './base';
+
+/**
+ * Options for selecting the measurements plotted on a chart
+ */
+export interface SPCQueryOptions {
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  ruleSet?: SPCRuleSetType;
+}
+
+/**
+ * A measurement series available for SPC analysis
+ */
+export interface SPCSeriesSummary extends SPCSeriesKey {
+  productSku?: string;
+  workCenterCode?: string;
+  checkName: string;
+  measurementCount: number;
+  lastMeasuredAt: Date;
+}
+
+/**
+ * Most recent points plotted when no limit is given
+ */
+const DEFAULT_POINT_LIMIT = 125;
+
+interface Measurement {
+  id: string;
+  measuredValue: number;
+  minValue: number | null;
+  maxValue: number | null;
+  targetValue: number | null;
+  unit: string | null;
+  measuredAt: Date;
+}
+
+/**
+ * Shewhart control chart constants by subgroup size (n = 2..10)
+ */
+const CHART_CONSTANTS: Record<number, { a2: number; d2: number; d3: number; d4: number }> = {
+  2: { a2: 1.880, d2: 1.128, d3: 0, d4: 3.267 },
+  3: { a2: 1.023, d2: 1.693, d3: 0, d4: 2.574 },
+  4: { a2: 0.729, d2: 2.059, d3: 0, d4: 2.282 },
+  5: { a2: 0.577, d2: 2.326, d3: 0, d4: 2.114 },
+  6: { a2: 0.483, d2: 2.534, d3: 0, d4: 2.004 },
+  7: { a2: 0.419, d2: 2.704, d3: 0.076, d4: 1.924 },
+  8: { a2: 0.373, d2: 2.847, d3: 0.136, d4: 1.864 },
+  9: { a2: 0.337, d2: 2.970, d3: 0.184, d4: 1.816 },
+  10: { a2: 0.308, d2: 3.078, d3: 0.223, d4: 1.777 },
+};
+
+/**
+ * A run rule: how many consecutive points it inspects and whether a window
+ * of that many points (given as sigma distances from the center line) violates it
+ */
+interface RunRule {
+  rule: number;
+  description: string;
+  window: number;
+  test: (z: number[]) => boolean;
+}
+
+const sameSide = (z: number[]) => z.every(v => v > 0) || z.every(v => v < 0);
+const countBeyond = (z: number[], limit: number) =>
+  Math.max(z.filter(v => v > limit).length, z.filter(v => v < -limit).length);
+
+const BEYOND_3_SIGMA: Omit<RunRule, 'rule'> = {
+  description: 'One point beyond 3 sigma from the center line',
+  window: 1,
+  test: z => Math.abs(z[0]) > 3,
+};
+const TWO_OF_THREE_BEYOND_2_SIGMA: Omit<RunRule, 'rule'> = {
+  description: 'Two of three consecutive points beyond 2 sigma on the same side',
+  window: 3,
+  test: z => countBeyond(z, 2) >= 2,
+};
+const FOUR_OF_FIVE_BEYOND_1_SIGMA: Omit<RunRule, 'rule'> = {
+  description: 'Four of five consecutive points beyond 1 sigma on the same side',
+  window: 5,
+  test: z => countBeyond(z, 1) >= 4,
+};
+
+const RULES: Record<SPCRuleSetType, RunRule[]> = {
+  WESTERN_ELECTRIC: [
+    { rule: 1, ...BEYOND_3_SIGMA },
+    { rule: 2, ...TWO_OF_THREE_BEYOND_2_SIGMA },
+    { rule: 3, ...FOUR_OF_FIVE_BEYOND_1_SIGMA },
+    {
+      rule: 4,
+      description: 'Eight consecutive points on the same side of the center line',
+      window: 8,
+      test: sameSide,
+    },
+  ],
+  NELSON: [
+    { rule: 1, ...BEYOND_3_SIGMA },
+    {
+      rule: 2,
+      description: 'Nine consecutive points on the same side of the center line',
+      window: 9,
+      test: sameSide,
+    },
+    {
+      rule: 3,
+      description: 'Six consecutive points steadily increasing or decreasing',
+      window: 6,
+      test: z => z.slice(1).every((v, i) => v > z[i]) || z.slice(1).every((v, i) => v < z[i]),
+    },
+    {
+      rule: 4,
+      description: 'Fourteen consecutive points alternating up and down',
+      window: 14,
+      test: z => {
+        const diffs = z.slice(1).map((v, i) => v - z[i]);
+        return diffs.every(d => d !== 0) && diffs.slice(1).every((d, i) => Math.sign(d) !== Math.sign(diffs[i]));
+      },
+    },
+    { rule: 5, ...TWO_OF_THREE_BEYOND_2_SIGMA },
+    { rule: 6, ...FOUR_OF_FIVE_BEYOND_1_SIGMA },
+    {
+      rule: 7,
+      description: 'Fifteen consecutive points within 1 sigma of the center line',
+      window: 15,
+      test: z => z.every(v => Math.abs(v) < 1),
+    },
+    {
+      rule: 8,
+      description: 'Eight consecutive points beyond 1 sigma, with points on both sides',
+      window: 8,
+      test: z => z.every(v => Math.abs(v) > 1) && z.some(v => v > 0) && z.some(v => v < 0),
+    },
+  ],
+};
+
+/**
+ * SPC repository - builds control charts, capability indices and run-rule
+ * violations from recorded quality check measurements
+ */
+export class SPCRepository extends BaseRepository<EnhancedQualityCheck> {
+  constructor(pool: Pool) {
+    super(pool, 'quality_checks');
+  }
+
+  /**
+   * List measurement series that have data, most recently measured first
+   */
+  async findSeries(filters: { productId?: string; workCenterId?: string } = {}): Promise<SPCSeriesSummary[]> {
+    let whereClause = 'WHERE qc.is_active = true AND qc.measured_value IS NOT NULL AND qc.work_center_id IS NOT NULL';
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    if (filters.productId) {
+      whereClause += ` AND mo.product_id = $${paramIndex++}`;
+      params.push(filters.productId);
+    }
+
+    if (filters.workCenterId) {
+      whereClause += ` AND qc.work_center_id = $${paramIndex++}`;
+      params.push(filters.workCenterId);
+    }
+
+    const query = `
+      SELECT
+        mo.product_id as "productId",
+        p.sku as "productSku",
+        qc.check_id as "checkId",
+        MAX(qc.name) as "checkName",
+        qc.work_center_id as "workCenterId",
+        wc.code as "workCenterCode",
+        COUNT(*)::int as "measurementCount",
+        MAX(COALESCE(qc.actual_end_time, qc.updated_at)) as "lastMeasuredAt"
+      FROM quality_checks qc
+      JOIN manufacturing_orders mo ON qc.manufacturing_order_id = mo.id
+      LEFT JOIN products p ON mo.product_id = p.id
+      LEFT JOIN work_centers wc ON qc.work_center_id = wc.id
+      ${whereClause}
+      GROUP BY mo.product_id, p.sku, qc.check_id, qc.work_center_id, wc.code
+      ORDER BY "lastMeasuredAt" DESC
+    `;
+    const result = await this.executeQuery<SPCSeriesSummary>(query, params);
+    return result.rows;
+  }
+
+  /**
+   * Build an individuals / moving range chart
+   */
+  async getIndividualsChart(key: SPCSeriesKey, options: SPCQueryOptions = {}): Promise<SPCControlChart> {
+    const measurements = await this.findMeasurements(key, {
+      ...options,
+      limit: options.limit || DEFAULT_POINT_LIMIT,
+    });
+    if (measurements.length < 2) {
+      throw new Error('Insufficient data: an individuals chart needs at least 2 measurements');
+    }
+
+    const values = measurements.map(m => m.measuredValue);
+    const movingRanges = values.slice(1).map((v, i) => Math.abs(v - values[i]));
+    const mean = average(values);
+    const mrBar = average(movingRanges);
+    const { d2, d4 } = CHART_CONSTANTS[2];
+    const sigmaWithin = mrBar / d2;
+
+    const points: SPCPoint[] = measurements.map((m, index) => ({
+      index,
+      value: m.measuredValue,
+      range: index > 0 ? movingRanges[index - 1] : undefined,
+      qualityCheckIds: [m.id],
+      measuredAt: m.measuredAt,
+    }));
+
+    return {
+      ...key,
+      chartType: 'INDIVIDUALS_MR',
+      subgroupSize: 1,
+      unit: this.latestSpec(measurements).unit,
+      locationChart: {
+        centerLine: mean,
+        upperControlLimit: mean + 3 * sigmaWithin,
+        lowerControlLimit: mean - 3 * sigmaWithin,
+      },
+      dispersionChart: {
+        centerLine: mrBar,
+        upperControlLimit: d4 * mrBar,
+        lowerControlLimit: 0,
+      },
+      points,
+      violations: this.detectViolations(values, mean, sigmaWithin, options.ruleSet || 'NELSON'),
+      capability: this.computeCapability(values, sigmaWithin, measurements),
+    };
+  }
+
+  /**
+   * Build an X-bar / R chart from consecutive subgroups of the given size.
+   * Trailing measurements that do not fill a subgroup are left off the chart.
+   */
+  async getXBarRChart(key: SPCSeriesKey, subgroupSize: number, options: SPCQueryOptions = {}): Promise<SPCControlChart> {
+    const constants = CHART_CONSTANTS[subgroupSize];
+    if (!constants) {
+      throw new Error('Invalid subgroup size: must be between 2 and 10');
+    }
+
+    const measurements = await this.findMeasurements(key, {
+      ...options,
+      limit: (options.limit || DEFAULT_POINT_LIMIT) * subgroupSize,
+    });
+    const subgroupCount = Math.floor(measurements.length / subgroupSize);
+    if (subgroupCount < 2) {
+      throw new Error(`Insufficient data: an X-bar/R chart needs at least 2 complete subgroups of ${subgroupSize}`);
+    }
+
+    const points: SPCPoint[] = [];
+    for (let index = 0; index < subgroupCount; index++) {
+      const subgroup = measurements.slice(index * subgroupSize, (index + 1) * subgroupSize);
+      const subgroupValues = subgroup.map(m => m.measuredValue);
+      points.push({
+        index,
+        value: average(subgroupValues),
+        range: Math.max(...subgroupValues) - Math.min(...subgroupValues),
+        qualityCheckIds: subgroup.map(m => m.id),
+        measuredAt: subgroup[subgroup.length - 1].measuredAt,
+      });
+    }
+
+    const xBarBar = average(points.map(p => p.value));
+    const rBar = average(points.map(p => p.range as number));
+    const sigmaWithin = rBar / constants.d2;
+    const plotted = measurements.slice(0, subgroupCount * subgroupSize);
+
+    return {
+      ...key,
+      chartType: 'XBAR_R',
+      subgroupSize,
+      unit: this.latestSpec(plotted).unit,
+      locationChart: {
+        centerLine: xBarBar,
+        upperControlLimit: xBarBar + constants.a2 * rBar,
+        lowerControlLimit: xBarBar - constants.a2 * rBar,
+      },
+      dispersionChart: {
+        centerLine: rBar,
+        upperControlLimit: constants.d4 * rBar,
+        lowerControlLimit: constants.d3 * rBar,
+      },
+      points,
+      // Run rules apply to subgroup averages, whose sigma is sigma / sqrt(n)
+      violations: this.detectViolations(
+        points.map(p => p.value),
+        xBarBar,
+        sigmaWithin / Math.sqrt(subgroupSize),
+        options.ruleSet || 'NELSON'
+      ),
+      capability: this.computeCapability(plotted.map(m => m.measuredValue), sigmaWithin, plotted),
+    };
+  }
+
+  /**
+   * Compute capability indices using the individuals moving-range sigma
+   */
+  async getCapability(key: SPCSeriesKey, options: SPCQueryOptions = {}): Promise<ProcessCapability> {
+    const chart = await this.getIndividualsChart(key, options);
+    return chart.capability;
+  }
+
+  /**
+   * Evaluate the run rules on the series a quality check belongs to and
+   * return the violations whose run ends at that check's measurement, so a
+   * run that was already reported is not raised again for each later point
+   */
+  async findViolationsForCheck(
+    qualityCheckId: string,
+    ruleSet: SPCRuleSetType = 'NELSON'
+  ): Promise<{ key: SPCSeriesKey; value: number; violations: SPCRuleViolation[] } | null> {
+    const query = `
+      SELECT
+        mo.product_id as "productId",
+        qc.check_id as "checkId",
+        qc.work_center_id as "workCenterId",
+        qc.measured_value::float8 as "measuredValue"
+      FROM quality_checks qc
+      JOIN manufacturing_orders mo ON qc.manufacturing_order_id = mo.id
+      WHERE qc.id = $1 AND qc.is_active = true
+    `;
+    const result = await this.executeQuery<SPCSeriesKey & { measuredValue: number | null }>(query, [qualityCheckId]);
+    const row = result.rows[0];
+    if (!row || row.measuredValue === null || !row.workCenterId) {
+      return null;
+    }
+
+    const key = { productId: row.productId, checkId: row.checkId, workCenterId: row.workCenterId };
+    const measurementCount = await this.executeQuery<{ total: number }>(
+      `SELECT COUNT(*)::int as total
+       FROM quality_checks qc
+       JOIN manufacturing_orders mo ON qc.manufacturing_order_id = mo.id
+       WHERE mo.product_id = $1 AND qc.check_id = $2 AND qc.work_center_id = $3
+         AND qc.measured_value IS NOT NULL AND qc.is_active = true`,
+      [key.productId, key.checkId, key.workCenterId]
+    );
+    if (measurementCount.rows[0].total < 2) {
+      return null;
+    }
+
+    const chart = await this.getIndividualsChart(key, { ruleSet });
+    const pointIndex = chart.points.findIndex((p: SPCPoint) => p.qualityCheckIds.includes(qualityCheckId));
+
+    return {
+      key,
+      value: row.measuredValue,
+      violations: chart.violations.filter(
+        (v: SPCRuleViolation) => v.pointIndexes[v.pointIndexes.length - 1] === pointIndex
+      ),
+    };
+  }
+
+  /**
+   * Fetch measurements for a series in chronological order. When a limit is
+   * given, the most recent measurements are used.
+   */
+  private async findMeasurements(key: SPCSeriesKey, options: SPCQueryOptions): Promise<Measurement[]> {
+    let whereClause = `
+      WHERE mo.product_id = $1 AND qc.check_id = $2 AND qc.work_center_id = $3
+        AND qc.measured_value IS NOT NULL AND qc.is_active = true
+    `;
+    const params: any[] = [key.productId, key.checkId, key.workCenterId];
+    let paramIndex = 4;
+
+    if (options.from) {
+      whereClause += ` AND COALESCE(qc.actual_end_time, qc.updated_at) >= $${paramIndex++}`;
+      params.push(options.from);
+    }
+
+    if (options.to) {
+      whereClause += ` AND COALESCE(qc.actual_end_time, qc.updated_at) <= $${paramIndex++}`;
+      params.push(options.to);
+    }
+
+    const query = `
+      SELECT
+        qc.id,
+        qc.measured_value::float8 as "measuredValue",
+        qc.min_value::float8 as "minValue",
+        qc.max_value::float8 as "maxValue",
+        qc.target_value::float8 as "targetValue",
+        qc.unit,
+        COALESCE(qc.actual_end_time, qc.updated_at) as "measuredAt"
+      FROM quality_checks qc
+      JOIN manufacturing_orders mo ON qc.manufacturing_order_id = mo.id
+      ${whereClause}
+      ORDER BY "measuredAt" DESC, qc.id DESC
+      ${options.limit ? `LIMIT $${paramIndex++}` : ''}
+    `;
+    if (options.limit) {
+      params.push(options.limit);
+    }
+
+    const result = await this.executeQuery<Measurement>(query, params);
+    return result.rows.reverse();
+  }
+
+  /**
+   * Specification limits from the most recent measurement, since specs may be revised
+   */
+  private latestSpec(measurements: Measurement[]): { lsl?: number; usl?: number; target?: number; unit?: string } {
+    const latest = measurements[measurements.length - 1];
+    return {
+      lsl: latest?.minValue ?? undefined,
+      usl: latest?.maxValue ?? undefined,
+      target: latest?.targetValue ?? undefined,
+      unit: latest?.unit ?? undefined,
+    };
+  }
+
+  /**
+   * Cp/Cpk use the short-term (within) sigma; Pp/Ppk use the overall sample
+   * standard deviation. Cp and Pp need both specification limits.
+   */
+  private computeCapability(values: number[], sigmaWithin: number, measurements: Measurement[]): ProcessCapability {
+    const { lsl, usl, target } = this.latestSpec(measurements);
+    const mean = average(values);
+    const sigmaOverall = values.length > 1
+      ? Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1))
+      : 0;
+
+    const potential = (sigma: number) =>
+      lsl !== undefined && usl !== undefined && sigma > 0 ? (usl - lsl) / (6 * sigma) : undefined;
+    const actual = (sigma: number) => {
+      if (sigma <= 0 || (lsl === undefined && usl === undefined)) {
+        return undefined;
+      }
+      const sides = [
+        usl !== undefined ? (usl - mean) / (3 * sigma) : Infinity,
+        lsl !== undefined ? (mean - lsl) / (3 * sigma) : Infinity,
+      ];
+      return Math.min(...sides);
+    };
+
+    return {
+      sampleCount: values.length,
+      mean,
+      sigmaWithin,
+      sigmaOverall,
+      lowerSpecLimit: lsl,
+      upperSpecLimit: usl,
+      target,
+      cp: potential(sigmaWithin),
+      cpk: actual(sigmaWithin),
+      pp: potential(sigmaOverall),
+      ppk: actual(sigmaOverall),
+    };
+  }
+
+  /**
+   * Apply the run rules of a rule set. Overlapping windows of the same rule are
+   * merged so each run of violating points is reported once.
+   */
+  private detectViolations(
+    values: number[],
+    centerLine: number,
+    sigma: number,
+    ruleSet: SPCRuleSetType
+  ): SPCRuleViolation[] {
+    if (!(sigma > 0)) {
+      return [];
+    }
+
+    const z = values.map(v => (v - centerLine) / sigma);
+    const violations: SPCRuleViolation[] = [];
+
+    for (const runRule of RULES[ruleSet]) {
+      let current: SPCRuleViolation | null = null;
+
+      for (let end = runRule.window - 1; end < z.length; end++) {
+        const start = end - runRule.window + 1;
+        if (!runRule.test(z.slice(start, end + 1))) {
+          current = null;
+          continue;
+        }
+
+        const windowIndexes = Array.from({ length: runRule.window }, (_, i) => start + i);
+        if (current) {
+          current.pointIndexes = [...new Set([...current.pointIndexes, ...windowIndexes])];
+        } else {
+          current = { ruleSet, rule: runRule.rule, description: runRule.description, pointIndexes: windowIndexes };
+          violations.push(current);
+        }
+      }
+    }
+
+    return violations;
+  }
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
@@ -0,0 +1,771 @@
+import { Pool } from 'pg';
+import {
+  BOMItemDetail,
+  CostElements,
+  CostPeriod,
+  CostPeriodStatusType,
+  CostRollUpResult,
+  MaterialVarianceLine,
+  MOCostVariance,
+  RoutingStepDetail,
+  StandardCost,
+  StandardCostLine,
+} from '@akazify/core-domain';
+import { BaseRepository } from './base';
+import { BOMRepository } from './bom.repository';
+import { RoutingRepository } from './routing.repository';
+import { UoMRepository } from './uom.repository';
+
+/**
+ * Cost period filter options
+ */
+export interface CostPeriodFilterOptions {
+  status?: CostPeriodStatusType;
+  at?: Date; // Periods covering this date
+}
+
+/**
+ * Fields that may be set on a product's standard cost by hand
+ */
+export interface ProductCostInput {
+  materialCost?: number | null; // Purchased cost per uom; null returns the product to roll-up
+  lotSize?: number;
+}
+
+/**
+ * State shared by one roll-up across the products it visits
+ */
+interface RollUpContext {
+  periodId: string;
+  at: Date;
+  existing: Map<string, StandardCost>;
+  computed: Map<string, StandardCost>;
+  rates: Map<string, { laborRate: number; machineRate: number }>;
+  warnings: string[];
+}
+
+const PERIOD_COLUMNS = `
+  cp.id,
+  cp.code,
+  cp.name,
+  cp.start_date as "startDate",
+  cp.end_date as "endDate",
+  cp.status,
+  cp.is_active as "isActive",
+  cp.created_at as "createdAt",
+  cp.updated_at as "updatedAt",
+  cp.version
+`;
+
+const COST_COLUMNS = `
+  sc.id,
+  sc.cost_period_id as "costPeriodId",
+  sc.product_id as "productId",
+  p.sku as "productSku",
+  sc.cost_type as "costType",
+  sc.uom,
+  sc.lot_size::float8 as "lotSize",
+  sc.material_cost::float8 as "materialCost",
+  sc.labor_cost::float8 as "laborCost",
+  sc.machine_cost::float8 as "machineCost",
+  sc.total_cost::float8 as "totalCost",
+  sc.bom_id as "bomId",
+  sc.routing_id as "routingId",
+  sc.lines,
+  sc.rolled_up_at as "rolledUpAt",
+  sc.is_active as "isActive",
+  sc.created_at as "createdAt",
+  sc.updated_at as "updatedAt",
+  sc.version
+`;
+
+/**
+ * Round to the 6 decimal places of the cost columns
+ */
+function roundCost(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+/**
+ * Cost elements rounded, with their total
+ */
+function elements(material: number, labor: number, machine: number): CostElements {
+  return {
+    material: roundCost(material),
+    labor: roundCost(labor),
+    machine: roundCost(machine),
+    total: roundCost(material + labor + machine),
+  };
+}
+
+/**
+ * Standard cost repository covering cost periods, the cost roll-up and
+ * actual-vs-standard variances of completed manufacturing orders
+ */
+export class StandardCostRepository extends BaseRepository<StandardCost> {
+  private bomRepository: BOMRepository;
+  private routingRepository: RoutingRepository;
+  private uomRepository: UoMRepository;
+
+  constructor(pool: Pool) {
+    super(pool, 'standard_costs');
+    this.bomRepository = new BOMRepository(pool);
+    this.routingRepository = new RoutingRepository(pool);
+    this.uomRepository = new UoMRepository(pool);
+  }
+
+  /**
+   * Find cost periods, latest first
+   */
+  async findPeriods(filters: CostPeriodFilterOptions = {}): Promise<CostPeriod[]> {
+    const conditions = ['cp.is_active = true'];
+    const params: any[] = [];
+
+    if (filters.status) {
+      params.push(filters.status);
+      conditions.push(`cp.status = $${params.length}`);
+    }
+
+    if (filters.at) {
+      params.push(filters.at);
+      conditions.push(`cp.start_date <= $${params.length}::date AND cp.end_date >= $${params.length}::date`);
+    }
+
+    const result = await this.executeQuery<CostPeriod>(
+      `SELECT ${PERIOD_COLUMNS}
+       FROM cost_periods cp
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY cp.start_date DESC`,
+      params
+    );
+    return result.rows;
+  }
+
+  /**
+   * Find cost period by ID
+   */
+  async findPeriodById(id: string): Promise<CostPeriod | null> {
+    const result = await this.executeQuery<CostPeriod>(
+      `SELECT ${PERIOD_COLUMNS} FROM cost_periods cp WHERE cp.id = $1 AND cp.is_active = true`,
+      [id]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Find the cost period covering a date
+   */
+  async findPeriodAt(at: Date): Promise<CostPeriod | null> {
+    const periods = await this.findPeriods({ at });
+    return periods[0] || null;
+  }
+
+  /**
+   * Create an open cost period. Periods may not overlap, so every date has at
+   * most one set of standard costs.
+   */
+  async createPeriod(data: { code: string; name: string; startDate: Date; endDate: Date }): Promise<CostPeriod> {
+    if (data.endDate < data.startDate) {
+      throw new Error('Validation failed: endDate must not be before startDate');
+    }
+
+    const existing = await this.executeQuery<{ id: string }>(
+      `SELECT id FROM cost_periods WHERE code = $1`,
+      [data.code]
+    );
+    if (existing.rows.length > 0) {
+      throw new Error(`Cost period ${data.code} already exists`);
+    }
+
+    const overlapping = await this.executeQuery<{ code: string }>(
+      `SELECT code FROM cost_periods
+       WHERE is_active = true AND start_date <= $2::date AND end_date >= $1::date
+       LIMIT 1`,
+      [data.startDate, data.endDate]
+    );
+    if (overlapping.rows.length > 0) {
+      throw new Error(`Validation failed: dates overlap cost period ${overlapping.rows[0].code}`);
+    }
+
+    const result = await this.executeQuery<{ id: string }>(
+      `INSERT INTO cost_periods (code, name, start_date, end_date)
+       VALUES ($1, $2, $3, $4)
+       RETURNING id`,
+      [data.code, data.name, data.startDate, data.endDate]
+    );
+    return (await this.findPeriodById(result.rows[0].id))!;
+  }
+
+  /**
+   * Update cost period status. A frozen period's standard costs are fixed.
+   */
+  async updatePeriodStatus(
+    id: string,
+    newStatus: CostPeriodStatusType
+  ): Promise<{ period: CostPeriod; previousStatus: string } | null> {
+    const current = await this.findPeriodById(id);
+    if (!current) {
+      return null;
+    }
+
+    const validTransitions: Record<string, string[]> = {
+      'OPEN': ['FROZEN'],
+      'FROZEN': [] // Terminal state
+    };
+
+    if (!validTransitions[current.status].includes(newStatus)) {
+      throw new Error(`Invalid status transition from ${current.status} to ${newStatus}`);
+    }
+
+    await this.executeQuery(
+      `UPDATE cost_periods SET status = $2, version = version + 1 WHERE id = $1`,
+      [id, newStatus]
+    );
+
+    return { period: (await this.findPeriodById(id))!, previousStatus: current.status };
+  }
+
+  /**
+   * Find the standard costs of a period, optionally for some products only
+   */
+  async findCosts(periodId: string, productIds?: string[]): Promise<StandardCost[]> {
+    const params: any[] = [periodId];
+    let productFilter = '';
+    if (productIds) {
+      params.push(productIds);
+      productFilter = 'AND sc.product_id = ANY($2)';
+    }
+
+    const result = await this.executeQuery<StandardCost>(
+      `SELECT ${COST_COLUMNS}
+       FROM standard_costs sc
+       INNER JOIN products p ON sc.product_id = p.id
+       WHERE sc.cost_period_id = $1 AND sc.is_active = true ${productFilter}
+       ORDER BY p.sku ASC`,
+      params
+    );
+    return result.rows;
+  }
+
+  /**
+   * Find a product's standard cost in a period, or in the period covering a
+   * date (today by default)
+   */
+  async findCost(productId: string, options: { periodId?: string; at?: Date } = {}): Promise<StandardCost | null> {
+    const periodId = options.periodId ?? (await this.findPeriodAt(options.at ?? new Date()))?.id;
+    if (!periodId) {
+      return null;
+    }
+
+    const costs = await this.findCosts(periodId, [productId]);
+    return costs[0] || null;
+  }
+
+  /**
+   * Set a product's standard cost inputs in an open period. A material cost
+   * makes the product PURCHASED, costed as entered and never rolled up; the
+   * lot size spreads setup and teardown time at the next roll-up.
+   */
+  async setProductCost(periodId: string, productId: string, data: ProductCostInput): Promise<StandardCost | null> {
+    const period = await this.findOpenPeriod(periodId);
+    if (!period) {
+      return null;
+    }
+
+    const product = await this.executeQuery<{ uom: string }>(
+      `SELECT uom FROM products WHERE id = $1 AND is_active = true`,
+      [productId]
+    );
+    if (product.rows.length === 0) {
+      throw new Error(`Product with ID ${productId} does not exist`);
+    }
+
+    const current = (await this.findCosts(periodId, [productId]))[0];
+    const lotSize = data.lotSize ?? current?.lotSize ?? 1;
+
+    if (data.materialCost !== undefined && data.materialCost !== null) {
+      await this.executeQuery(
+        `INSERT INTO standard_costs
+           (cost_period_id, product_id, cost_type, uom, lot_size, material_cost, labor_cost, machine_cost, lines)
+         VALUES ($1, $2, 'PURCHASED', $3, $4, $5, 0, 0, '[]'::jsonb)
+         ON CONFLICT (cost_period_id, product_id) DO UPDATE SET
+           cost_type = 'PURCHASED',
+           uom = EXCLUDED.uom,
+           lot_size = EXCLUDED.lot_size,
+           material_cost = EXCLUDED.material_cost,
+           labor_cost = 0,
+           machine_cost = 0,
+           bom_id = NULL,
+           routing_id = NULL,
+           lines = '[]'::jsonb,
+           rolled_up_at = NULL,
+           version = standard_costs.version + 1`,
+        [periodId, productId, product.rows[0].uom, lotSize, roundCost(data.materialCost)]
+      );
+    } else if (data.materialCost === null && current?.costType === 'PURCHASED') {
+      // Back to roll-up; zero until the next roll-up fills it in
+      await this.executeQuery(
+        `UPDATE standard_costs
+         SET cost_type = 'ROLLED_UP', lot_size = $3, material_cost = 0, version = version + 1
+         WHERE cost_period_id = $1 AND product_id = $2`,
+        [periodId, productId, lotSize]
+      );
+    } else {
+      await this.executeQuery(
+        `INSERT INTO standard_costs (cost_period_id, product_id, cost_type, uom, lot_size)
+         VALUES ($1, $2, 'ROLLED_UP', $3, $4)
+         ON CONFLICT (cost_period_id, product_id) DO UPDATE SET
+           lot_size = EXCLUDED.lot_size,
+           version = standard_costs.version + 1`,
+        [periodId, productId, product.rows[0].uom, lotSize]
+      );
+    }
+
+    return (await this.findCosts(periodId, [productId]))[0];
+  }
+
+  /**
+   * Roll up standard costs in an open period, using the BOMs effective at the
+   * period start and each product's default routing. Material cost is the
+   * full standard cost of the components, including waste, converted from
+   * the BOM unit to each component's own unit; labor and machine cost come
+   * from this level's routing steps and the work center rates. Sub-assemblies
+   * reached through the BOMs are rolled up as well. Without product IDs,
+   * every product with a BOM or routing is rolled up.
+   */
+  async rollUp(periodId: string, productIds?: string[]): Promise<CostRollUpResult | null> {
+    const period = await this.findOpenPeriod(periodId);
+    if (!period) {
+      return null;
+    }
+    const at = new Date(period.startDate);
+
+    let targets = productIds;
+    if (!targets) {
+      const manufactured = await this.executeQuery<{ id: string }>(
+        `SELECT p.id
+         FROM products p
+         WHERE p.is_active = true
+           AND (EXISTS (
+                  SELECT 1 FROM boms b
+                  WHERE b.product_id = p.id AND b.is_active = true AND b.status = 'RELEASED'
+                    AND (b.effective_from IS NULL OR b.effective_from <= $1)
+                    AND (b.effective_to IS NULL OR b.effective_to > $1))
+             OR EXISTS (
+                  SELECT 1 FROM routings r
+                  WHERE r.product_id = p.id AND r.is_default = true AND r.is_active = true))
+         ORDER BY p.sku ASC`,
+        [at]
+      );
+      targets = manufactured.rows.map((row: { id: string }) => row.id);
+    }
+
+    const context: RollUpContext = {
+      periodId,
+      at,
+      existing: new Map((await this.findCosts(periodId)).map((cost: StandardCost) => [cost.productId, cost])),
+      computed: new Map(),
+      rates: new Map(),
+      warnings: [],
+    };
+
+    for (const productId of targets) {
+      await this.costProduct(productId, context, []);
+    }
+
+    const rolledUp = [...context.computed.values()].filter((cost: StandardCost) => cost.costType === 'ROLLED_UP');
+
+    const client = await this.beginTransaction();
+    try {
+      for (const cost of rolledUp) {
+        await client.query(
+          `INSERT INTO standard_costs
+             (cost_period_id, product_id, cost_type, uom, lot_size, material_cost, labor_cost, machine_cost,
+              bom_id, routing_id, lines, rolled_up_at)
+           VALUES ($1, $2, 'ROLLED_UP', $3, $4, $5, $6, $7, $8, $9, $10, NOW())
+           ON CONFLICT (cost_period_id, product_id) DO UPDATE SET
+             cost_type = 'ROLLED_UP',
+             uom = EXCLUDED.uom,
+             material_cost = EXCLUDED.material_cost,
+             labor_cost = EXCLUDED.labor_cost,
+             machine_cost = EXCLUDED.machine_cost,
+             bom_id = EXCLUDED.bom_id,
+             routing_id = EXCLUDED.routing_id,
+             lines = EXCLUDED.lines,
+             rolled_up_at = EXCLUDED.rolled_up_at,
+             version = standard_costs.version + 1`,
+          [
+            periodId,
+            cost.productId,
+            cost.uom,
+            cost.lotSize,
+            cost.materialCost,
+            cost.laborCost,
+            cost.machineCost,
+            cost.bomId,
+            cost.routingId,
+            JSON.stringify(cost.lines),
+          ]
+        );
+      }
+      await this.commitTransaction(client);
+    } catch (error) {
+      await this.rollbackTransaction(client);
+      throw error;
+    }
+
+    return {
+      costPeriodId: periodId,
+      costs: await this.findCosts(periodId, rolledUp.map((cost: StandardCost) => cost.productId)),
+      warnings: context.warnings,
+    };
+  }
+
+  /**
+   * Actual-vs-standard cost of a completed manufacturing order, against the
+   * period covering its completion. Materials are valued at standard so the
+   * material variance is a usage variance; labor is valued at the rate on
+   * each labor assignment (the work center rate without one) and machine time
+   * at the work center rate.
+   */
+  async getMOVariance(manufacturingOrderId: string): Promise<MOCostVariance | null> {
+    const orderResult = await this.executeQuery<{
+      orderNumber: string;
+      productId: string;
+      productSku: string;
+      productUom: string;
+      quantity: number;
+      uom: string;
+      status: string;
+      completedAt: Date;
+      producedQuantity: number | null;
+    }>(
+      `SELECT
+         mo.order_number as "orderNumber",
+         mo.product_id as "productId",
+         p.sku as "productSku",
+         p.uom as "productUom",
+         mo.quantity::float8 as quantity,
+         mo.uom,
+         mo.status,
+         COALESCE(mo.actual_end_date, mo.updated_at) as "completedAt",
+         (SELECT o.completed_quantity::float8
+          FROM manufacturing_order_operations o
+          WHERE o.manufacturing_order_id = mo.id AND o.is_active = true
+          ORDER BY o.sequence DESC
+          LIMIT 1) as "producedQuantity"
+       FROM manufacturing_orders mo
+       INNER JOIN products p ON mo.product_id = p.id
+       WHERE mo.id = $1 AND mo.is_active = true`,
+      [manufacturingOrderId]
+    );
+    const order = orderResult.rows[0];
+    if (!order) {
+      return null;
+    }
+
+    if (order.status !== 'COMPLETED') {
+      throw new Error(`Manufacturing order ${order.orderNumber} is ${order.status} and cannot be costed`);
+    }
+
+    const period = await this.findPeriodAt(new Date(order.completedAt));
+    if (!period) {
+      throw new Error(`Cost period covering ${new Date(order.completedAt).toISOString().slice(0, 10)} does not exist`);
+    }
+
+    const standardCost = (await this.findCosts(period.id, [order.productId]))[0];
+    if (!standardCost) {
+      throw new Error(`Standard cost of ${order.productSku} in cost period ${period.code} does not exist`);
+    }
+
+    // Produced quantity is what the last operation completed, in the product's unit
+    const produced = await this.uomRepository.convert(
+      order.producedQuantity ?? order.quantity,
+      order.uom,
+      order.productUom,
+      order.productId
+    );
+    const quantity = produced.convertedQuantity;
+
+    // Materials: standard quantities from the cost lines, actuals from consumption
+    const materials = new Map<string, MaterialVarianceLine>();
+    for (const line of standardCost.lines as StandardCostLine[]) {
+      if (line.type !== 'COMPONENT' || !line.productId) {
+        continue;
+      }
+      const existing = materials.get(line.productId);
+      const standardQuantity = line.quantity! * quantity;
+      if (existing) {
+        existing.standardQuantity += standardQuantity * (await this.unitFactor(line.uom!, existing.uom, line.productId));
+        existing.standardCost += line.materialCost * quantity;
+      } else {
+        materials.set(line.productId, {
+          productId: line.productId,
+          sku: line.sku!,
+          uom: line.uom!,
+          standardQuantity,
+          actualQuantity: 0,
+          unitCost: line.unitCost!,
+          standardCost: line.materialCost * quantity,
+          actualCost: 0,
+          variance: 0,
+        });
+      }
+    }
+
+    const consumption = await this.executeQuery<{ productId: string; sku: string; uom: string; quantity: number }>(
+      `SELECT
+         mc.product_id as "productId",
+         p.sku,
+         mc.uom,
+         SUM(mc.consumed_quantity + mc.waste_quantity)::float8 as quantity
+       FROM material_consumption mc
+       INNER JOIN products p ON mc.product_id = p.id
+       WHERE mc.manufacturing_order_id = $1 AND mc.is_active = true
+       GROUP BY mc.product_id, p.sku, mc.uom`,
+      [manufacturingOrderId]
+    );
+    for (const row of consumption.rows) {
+      let line = materials.get(row.productId);
+      if (!line) {
+        // Not on the standard BOM: valued at the component's own standard cost
+        const componentCost = (await this.findCosts(period.id, [row.productId]))[0];
+        line = {
+          productId: row.productId,
+          sku: row.sku,
+          uom: componentCost?.uom ?? row.uom,
+          standardQuantity: 0,
+          actualQuantity: 0,
+          unitCost: componentCost?.totalCost ?? 0,
+          standardCost: 0,
+          actualCost: 0,
+          variance: 0,
+        };
+        materials.set(row.productId, line);
+      }
+      line.actualQuantity += row.quantity * (await this.unitFactor(row.uom, line.uom, row.productId));
+    }
+
+    const materialLines = [...materials.values()].map((line: MaterialVarianceLine) => {
+      const actualCost = roundCost(line.actualQuantity * line.unitCost);
+      const standardCostValue = roundCost(line.standardCost);
+      return {
+        ...line,
+        standardQuantity: roundCost(line.standardQuantity),
+        actualQuantity: roundCost(line.actualQuantity),
+        standardCost: standardCostValue,
+        actualCost,
+        variance: roundCost(actualCost - standardCostValue),
+      };
+    });
+
+    const actualCost = await this.findActualCost(manufacturingOrderId);
+
+    const standard = elements(
+      standardCost.materialCost * quantity,
+      standardCost.laborCost * quantity,
+      standardCost.machineCost * quantity
+    );
+    const actual = elements(
+      materialLines.reduce((total: number, line: MaterialVarianceLine) => total + line.actualCost, 0),
+      actualCost.labor,
+      actualCost.machine
+    );
+
+    return {
+      manufacturingOrderId,
+      orderNumber: order.orderNumber,
+      productId: order.productId,
+      productSku: order.productSku,
+      costPeriodId: period.id,
+      costPeriodCode: period.code,
+      quantity: roundCost(quantity),
+      uom: order.productUom,
+      standard,
+      actual,
+      variance: elements(
+        actual.material - standard.material,
+        actual.labor - standard.labor,
+        actual.machine - standard.machine
+      ),
+      materials: materialLines,
+    };
+  }
+
+  /**
+   * Actual cost of a manufacturing order: consumption at the cost recorded
+   * with it, labor hours at the rate on each labor assignment (the work
+   * center rate without one) and operation time at the work center machine rate
+   */
+  async findActualCost(manufacturingOrderId: string): Promise<CostElements> {
+    const material = await this.executeQuery<{ cost: number }>(
+      `SELECT COALESCE(SUM(COALESCE(total_cost, 0) + COALESCE(waste_cost, 0)), 0)::float8 as cost
+       FROM material_consumption
+       WHERE manufacturing_order_id = $1 AND is_active = true`,
+      [manufacturingOrderId]
+    );
+
+    const labor = await this.executeQuery<{ cost: number }>(
+      `SELECT COALESCE(SUM(la.actual_hours * COALESCE(la.hourly_rate, wc.labor_rate)), 0)::float8 as cost
+       FROM labor_assignments la
+       INNER JOIN manufacturing_order_operations o ON la.operation_id = o.id
+       INNER JOIN work_centers wc ON o.work_center_id = wc.id
+       WHERE o.manufacturing_order_id = $1 AND la.is_active = true AND la.actual_hours IS NOT NULL`,
+      [manufacturingOrderId]
+    );
+
+    const machine = await this.executeQuery<{ cost: number }>(
+      `SELECT COALESCE(SUM(EXTRACT(EPOCH FROM (o.actual_end_time - o.actual_start_time)) / 3600.0 * wc.machine_rate), 0)::float8 as cost
+       FROM manufacturing_order_operations o
+       INNER JOIN work_centers wc ON o.work_center_id = wc.id
+       WHERE o.manufacturing_order_id = $1 AND o.is_active = true
+         AND o.actual_start_time IS NOT NULL AND o.actual_end_time IS NOT NULL`,
+      [manufacturingOrderId]
+    );
+
+    return elements(material.rows[0].cost, labor.rows[0].cost, machine.rows[0].cost);
+  }
+
+  /**
+   * Standard cost of one product in a roll-up, costing its components first.
+   * Purchased costs are used as entered; a product with neither a BOM nor a
+   * routing and no purchased cost is costed at zero with a warning.
+   */
+  private async costProduct(
+    productId: string,
+    context: RollUpContext,
+    path: string[]
+  ): Promise<{ uom: string; totalCost: number }> {
+    const computed = context.computed.get(productId);
+    if (computed) {
+      return computed;
+    }
+
+    const existing = context.existing.get(productId);
+    if (existing?.costType === 'PURCHASED') {
+      context.computed.set(productId, existing);
+      return existing;
+    }
+
+    const product = await this.executeQuery<{ sku: string; uom: string }>(
+      `SELECT sku, uom FROM products WHERE id = $1`,
+      [productId]
+    );
+    if (product.rows.length === 0) {
+      throw new Error(`Product with ID ${productId} does not exist`);
+    }
+    const { sku, uom } = product.rows[0];
+
+    // Released BOMs are checked for cycles; guard anyway
+    if (path.includes(productId)) {
+      throw new Error(`Circular reference: ${sku} contains itself`);
+    }
+
+    const bom = await this.bomRepository.findEffective(productId, context.at);
+    const routing = await this.routingRepository.findDefault(productId);
+
+    if (!bom && !routing) {
+      const warning = `${sku} has no purchased cost, BOM or routing and was costed at zero`;
+      if (!context.warnings.includes(warning)) {
+        context.warnings.push(warning);
+      }
+      return { uom, totalCost: 0 };
+    }
+
+    const lotSize = existing?.lotSize ?? 1;
+    const lines: StandardCostLine[] = [];
+
+    for (const item of (bom?.items || []) as BOMItemDetail[]) {
+      const component = await this.costProduct(item.componentProductId, context, [...path, productId]);
+      const quantity = item.quantity * (1 + (item.wasteFactor || 0));
+      const unitCost = component.totalCost * (await this.unitFactor(item.uom, component.uom, item.componentProductId));
+      lines.push({
+        type: 'COMPONENT',
+        productId: item.componentProductId,
+        sku: item.componentSku,
+        quantity: roundCost(quantity),
+        uom: item.uom,
+        unitCost: roundCost(unitCost),
+        materialCost: roundCost(quantity * unitCost),
+        laborCost: 0,
+        machineCost: 0,
+      });
+    }
+
+    for (const step of (routing?.steps || []) as RoutingStepDetail[]) {
+      const rates = await this.findRates(step.workCenterId, context);
+      const minutesPerUnit = ((step.setupTime || 0) + (step.teardownTime || 0)) / lotSize + (step.runTime || 0);
+      lines.push({
+        type: 'OPERATION',
+        routingStepId: step.id,
+        operationId: step.operationId,
+        workCenterId: step.workCenterId,
+        minutesPerUnit: roundCost(minutesPerUnit),
+        materialCost: 0,
+        laborCost: roundCost((minutesPerUnit / 60) * rates.laborRate),
+        machineCost: roundCost((minutesPerUnit / 60) * rates.machineRate),
+      });
+    }
+
+    const sum = (field: 'materialCost' | 'laborCost' | 'machineCost') =>
+      roundCost(lines.reduce((total: number, line: StandardCostLine) => total + line[field], 0));
+
+    const cost = {
+      ...existing,
+      costPeriodId: context.periodId,
+      productId,
+      productSku: sku,
+      costType: 'ROLLED_UP',
+      uom,
+      lotSize,
+      materialCost: sum('materialCost'),
+      laborCost: sum('laborCost'),
+      machineCost: sum('machineCost'),
+      totalCost: roundCost(sum('materialCost') + sum('laborCost') + sum('machineCost')),
+      bomId: bom?.id,
+      routingId: routing?.id,
+      lines,
+    } as StandardCost;
+
+    context.computed.set(productId, cost);
+    return cost;
+  }
+
+  /**
+   * Quantity of toUom in one fromUom, for a product
+   */
+  private async unitFactor(fromUom: string, toUom: string, productId: string): Promise<number> {
+    const result = await this.uomRepository.convert(1, fromUom, toUom, productId);
+    return result.factor;
+  }
+
+  private async findRates(
+    workCenterId: string,
+    context: RollUpContext
+  ): Promise<{ laborRate: number; machineRate: number }> {
+    const cached = context.rates.get(workCenterId);
+    if (cached) {
+      return cached;
+    }
+
+    const result = await this.executeQuery<{ laborRate: number; machineRate: number }>(
+      `SELECT labor_rate::float8 as "laborRate", machine_rate::float8 as "machineRate"
+       FROM work_centers WHERE id = $1`,
+      [workCenterId]
+    );
+    const rates = result.rows[0] || { laborRate: 0, machineRate: 0 };
+    context.rates.set(workCenterId, rates);
+    return rates;
+  }
+
+  /**
+   * Find a cost period whose standard costs may still change
+   */
+  private async findOpenPeriod(id: string): Promise<CostPeriod | null> {
+    const period = await this.findPeriodById(id);
+    if (period && period.status !== 'OPEN') {
+      throw new Error(`Cost period ${period.code} is ${period.status} and cannot be modified`);
+    }
+    return period;
+  }
+}
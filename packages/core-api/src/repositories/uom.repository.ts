@@ -0,0 +1,393 @@
+import { Pool } from 'pg';
+import {
+  UnitOfMeasure,
+  UoMConversion,
+  UoMConversionResult,
+  UoMDimensionType,
+} from '@akazify/core-domain';
+import { BaseRepository } from './base';
+
+/**
+ * UoM catalogue filter options
+ */
+export interface UoMFilterOptions {
+  dimension?: UoMDimensionType;
+  includeInactive?: boolean;
+}
+
+/**
+ * Conversion edge between two units, in the direction it is applied
+ */
+interface ConversionEdge {
+  toUom: string;
+  factor: number;
+}
+
+const UOM_COLUMNS = `
+  id,
+  code,
+  name,
+  dimension,
+  aliases,
+  is_active as "isActive",
+  created_at as "createdAt",
+  updated_at as "updatedAt",
+  version
+`;
+
+const CONVERSION_COLUMNS = `
+  c.id,
+  c.from_uom as "fromUom",
+  c.to_uom as "toUom",
+  c.factor::float8 as factor,
+  c.product_id as "productId",
+  p.sku as "productSku",
+  c.is_active as "isActive",
+  c.created_at as "createdAt",
+  c.updated_at as "updatedAt",
+  c.version
+`;
+
+/**
+ * Unit of measure repository. Resolves free-text units to catalogue codes and
+ * converts quantities through global and product-specific conversion factors.
+ */
+export class UoMRepository extends BaseRepository<UnitOfMeasure> {
+  constructor(pool: Pool) {
+    super(pool, 'uoms');
+  }
+
+  /**
+   * List units, optionally within one dimension
+   */
+  async findUnits(filters: UoMFilterOptions = {}): Promise<UnitOfMeasure[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (!filters.includeInactive) {
+      conditions.push('is_active = true');
+    }
+
+    if (filters.dimension) {
+      params.push(filters.dimension);
+      conditions.push(`dimension = $${params.length}`);
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const result = await this.executeQuery<UnitOfMeasure>(
+      `SELECT ${UOM_COLUMNS} FROM uoms ${whereClause} ORDER BY dimension ASC, code ASC`,
+      params
+    );
+    return result.rows;
+  }
+
+  /**
+   * Find a unit by its code or one of its aliases
+   */
+  async findByCode(uom: string): Promise<UnitOfMeasure | null> {
+    const result = await this.executeQuery<UnitOfMeasure>(
+      `SELECT ${UOM_COLUMNS}
+       FROM uoms
+       WHERE code = UPPER(TRIM($1)) OR LOWER(TRIM($1)) = ANY(aliases)`,
+      [uom]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Resolve a unit as entered (any case, or an alias) to its catalogue code.
+   * Used to validate uom fields on write.
+   */
+  async resolveCode(uom: string): Promise<string> {
+    const unit = await this.findByCode(uom);
+    if (!unit || !unit.isActive) {
+      throw new Error(`Unit of measure '${uom}' does not exist`);
+    }
+    return unit.code;
+  }
+
+  /**
+   * Add a unit to the catalogue
+   */
+  async createUnit(data: {
+    code: string;
+    name: string;
+    dimension: UoMDimensionType;
+    aliases?: string[];
+  }): Promise<UnitOfMeasure> {
+    const code = data.code.trim().toUpperCase();
+    const aliases = this.normaliseAliases(data.aliases);
+
+    await this.assertSpellingsAvailable([code.toLowerCase(), ...aliases]);
+
+    const result = await this.executeQuery<UnitOfMeasure>(
+      `INSERT INTO uoms (code, name, dimension, aliases)
+       VALUES ($1, $2, $3, $4)
+       RETURNING ${UOM_COLUMNS}`,
+      [code, data.name, data.dimension, aliases]
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * Update a unit's name, aliases or active flag. The code and dimension are
+   * fixed once other records use the unit.
+   */
+  async updateUnit(
+    code: string,
+    data: { name?: string; aliases?: string[]; isActive?: boolean }
+  ): Promise<UnitOfMeasure | null> {
+    const unit = await this.findByCode(code);
+    if (!unit) {
+      return null;
+    }
+
+    const aliases = data.aliases !== undefined ? this.normaliseAliases(data.aliases) : undefined;
+    if (aliases) {
+      await this.assertSpellingsAvailable(aliases, unit.code);
+    }
+
+    const result = await this.executeQuery<UnitOfMeasure>(
+      `UPDATE uoms
+       SET name = COALESCE($2, name), aliases = COALESCE($3, aliases), is_active = COALESCE($4, is_active)
+       WHERE code = $1
+       RETURNING ${UOM_COLUMNS}`,
+      [unit.code, data.name, aliases, data.isActive]
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * List conversions. With a product, its own conversions are listed
+   * alongside the global ones.
+   */
+  async findConversions(filters: { productId?: string; uom?: string } = {}): Promise<UoMConversion[]> {
+    const conditions = ['c.is_active = true'];
+    const params: any[] = [];
+
+    if (filters.productId) {
+      params.push(filters.productId);
+      conditions.push(`(c.product_id IS NULL OR c.product_id = $${params.length})`);
+    } else {
+      conditions.push('c.product_id IS NULL');
+    }
+
+    if (filters.uom) {
+      params.push(await this.resolveCode(filters.uom));
+      conditions.push(`(c.from_uom = $${params.length} OR c.to_uom = $${params.length})`);
+    }
+
+    const result = await this.executeQuery<UoMConversion>(
+      `SELECT ${CONVERSION_COLUMNS}
+       FROM uom_conversions c
+       LEFT JOIN products p ON c.product_id = p.id
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY c.product_id NULLS FIRST, c.from_uom ASC, c.to_uom ASC`,
+      params
+    );
+    return result.rows;
+  }
+
+  /**
+   * Add a conversion: 1 fromUom = factor × toUom. Global conversions must
+   * stay within a dimension; product conversions may cross dimensions.
+   */
+  async createConversion(data: {
+    fromUom: string;
+    toUom: string;
+    factor: number;
+    productId?: string;
+  }): Promise<UoMConversion> {
+    const fromUnit = await this.findActiveUnit(data.fromUom);
+    const toUnit = await this.findActiveUnit(data.toUom);
+
+    if (fromUnit.code === toUnit.code) {
+      throw new Error('Validation failed: a conversion needs two different units');
+    }
+
+    if (data.productId) {
+      const product = await this.executeQuery(
+        `SELECT id FROM products WHERE id = $1 AND is_active = true`,
+        [data.productId]
+      );
+      if (product.rows.length === 0) {
+        throw new Error(`Product with ID ${data.productId} does not exist`);
+      }
+    } else if (fromUnit.dimension !== toUnit.dimension) {
+      throw new Error(
+        `Validation failed: ${fromUnit.code} (${fromUnit.dimension}) and ${toUnit.code} (${toUnit.dimension}) can only be converted for a specific product`
+      );
+    }
+
+    // Conversions apply in both directions, so either order is a duplicate
+    const existing = await this.executeQuery(
+      `SELECT id FROM uom_conversions
+       WHERE is_active = true
+         AND ((from_uom = $1 AND to_uom = $2) OR (from_uom = $2 AND to_uom = $1))
+         AND product_id IS NOT DISTINCT FROM $3`,
+      [fromUnit.code, toUnit.code, data.productId ?? null]
+    );
+    if (existing.rows.length > 0) {
+      throw new Error(
+        `Conversion between ${fromUnit.code} and ${toUnit.code} already exists${data.productId ? ' for this product' : ''}`
+      );
+    }
+
+    const result = await this.executeQuery<{ id: string }>(
+      `INSERT INTO uom_conversions (from_uom, to_uom, factor, product_id)
+       VALUES ($1, $2, $3, $4)
+       RETURNING id`,
+      [fromUnit.code, toUnit.code, data.factor, data.productId]
+    );
+    return (await this.findConversion(result.rows[0].id))!;
+  }
+
+  /**
+   * Change a conversion's factor
+   */
+  async updateConversion(id: string, factor: number): Promise<UoMConversion | null> {
+    const result = await this.executeQuery(
+      `UPDATE uom_conversions SET factor = $2 WHERE id = $1 AND is_active = true`,
+      [id, factor]
+    );
+    return result.rowCount > 0 ? this.findConversion(id) : null;
+  }
+
+  /**
+   * Remove a conversion
+   */
+  async removeConversion(id: string): Promise<boolean> {
+    const result = await this.executeQuery(
+      `UPDATE uom_conversions SET is_active = false WHERE id = $1 AND is_active = true`,
+      [id]
+    );
+    return result.rowCount > 0;
+  }
+
+  /**
+   * Convert a quantity between units. Conversions apply in both directions and
+   * chain (BOX → PCS → DOZ); with a product, its own conversions are used
+   * alongside the global ones. The shortest chain wins.
+   */
+  async convert(
+    quantity: number,
+    fromUom: string,
+    toUom: string,
+    productId?: string
+  ): Promise<UoMConversionResult> {
+    const from = await this.resolveCode(fromUom);
+    const to = await this.resolveCode(toUom);
+
+    if (from === to) {
+      return { quantity, fromUom: from, toUom: to, factor: 1, convertedQuantity: quantity, productId, path: [from] };
+    }
+
+    const graph = await this.loadConversionGraph(productId);
+
+    // Breadth-first search from the source unit, accumulating the factor
+    const visited = new Map<string, { factor: number; path: string[] }>([[from, { factor: 1, path: [from] }]]);
+    const queue = [from];
+    while (queue.length > 0 && !visited.has(to)) {
+      const current = queue.shift()!;
+      const { factor, path } = visited.get(current)!;
+      for (const edge of graph.get(current) || []) {
+        if (!visited.has(edge.toUom)) {
+          visited.set(edge.toUom, { factor: factor * edge.factor, path: [...path, edge.toUom] });
+          queue.push(edge.toUom);
+        }
+      }
+    }
+
+    const found = visited.get(to);
+    if (!found) {
+      throw new Error(`Validation failed: no conversion from ${from} to ${to}${productId ? ' for this product' : ''}`);
+    }
+
+    return {
+      quantity,
+      fromUom: from,
+      toUom: to,
+      factor: found.factor,
+      convertedQuantity: quantity * found.factor,
+      productId,
+      path: found.path,
+    };
+  }
+
+  /**
+   * Reject a unit that cannot be converted to the product's stocking unit
+   */
+  async assertConvertible(uom: string, productId: string): Promise<void> {
+    const product = await this.executeQuery<{ uom: string }>(
+      `SELECT uom FROM products WHERE id = $1`,
+      [productId]
+    );
+    if (product.rows.length === 0) {
+      return;
+    }
+    await this.convert(1, uom, product.rows[0].uom, productId);
+  }
+
+  private async loadConversionGraph(productId?: string): Promise<Map<string, ConversionEdge[]>> {
+    const result = await this.executeQuery<{ fromUom: string; toUom: string; factor: number }>(
+      `SELECT from_uom as "fromUom", to_uom as "toUom", factor::float8 as factor
+       FROM uom_conversions
+       WHERE is_active = true AND (product_id IS NULL OR product_id = $1)
+       ORDER BY product_id NULLS LAST`,
+      [productId ?? null]
+    );
+
+    const graph = new Map<string, ConversionEdge[]>();
+    const addEdge = (from: string, edge: ConversionEdge) => {
+      graph.set(from, [...(graph.get(from) || []), edge]);
+    };
+
+    // Product conversions are listed first so they win ties
+    for (const row of result.rows) {
+      addEdge(row.fromUom, { toUom: row.toUom, factor: row.factor });
+      addEdge(row.toUom, { toUom: row.fromUom, factor: 1 / row.factor });
+    }
+    return graph;
+  }
+
+  private async findConversion(id: string): Promise<UoMConversion | null> {
+    const result = await this.executeQuery<UoMConversion>(
+      `SELECT ${CONVERSION_COLUMNS}
+       FROM uom_conversions c
+       LEFT JOIN products p ON c.product_id = p.id
+       WHERE c.id = $1 AND c.is_active = true`,
+      [id]
+    );
+    return result.rows[0] || null;
+  }
+
+  private async findActiveUnit(uom: string): Promise<UnitOfMeasure> {
+    const unit = await this.findByCode(uom);
+    if (!unit || !unit.isActive) {
+      throw new Error(`Unit of measure '${uom}' does not exist`);
+    }
+    return unit;
+  }
+
+  private normaliseAliases(aliases: string[] = []): string[] {
+    return [...new Set(aliases.map(alias => alias.trim().toLowerCase()).filter(alias => alias.length > 0))];
+  }
+
+  /**
+   * Reject spellings that already resolve to another unit
+   */
+  private async assertSpellingsAvailable(spellings: string[], excludeCode?: string): Promise<void> {
+    if (spellings.length === 0) {
+      return;
+    }
+
+    const result = await this.executeQuery<{ code: string }>(
+      `SELECT code FROM uoms
+       WHERE (LOWER(code) = ANY($1) OR aliases && $1) AND code IS DISTINCT FROM $2`,
+      [spellings, excludeCode ?? null]
+    );
+    if (result.rows.length > 0) {
+      throw new Error(`Unit of measure '${result.rows[0].code}' already exists with one of these spellings`);
+    }
+  }
+}
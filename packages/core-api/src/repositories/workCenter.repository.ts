@@ -57,6 +57,8 @@ export class WorkCenterRepository extends BaseRepository<WorkCenter> {
         description,
         category,
         capacity,
+        labor_rate::float8 as "laborRate",
+        machine_rate::float8 as "machineRate",
         is_active as "isActive",
         created_at as "createdAt",
         updated_at as "updatedAt",
@@ -140,6 +142,8 @@ export class WorkCenterRepository extends BaseRepository<WorkCenter> {
         wc.description,
         wc.category,
         wc.capacity,
+        wc.labor_rate::float8 as "laborRate",
+        wc.machine_rate::float8 as "machineRate",
         wc.is_active as "isActive",
         wc.created_at as "createdAt",
         wc.updated_at as "updatedAt",
@@ -166,6 +170,8 @@ export class WorkCenterRepository extends BaseRepository<WorkCenter> {
       description: row.description,
       category: row.category,
       capacity: row.capacity,
+      laborRate: row.laborRate,
+      machineRate: row.machineRate,
       isActive: row.isActive,
       createdAt: row.createdAt,
       updatedAt: row.updatedAt,
@@ -206,6 +212,8 @@ export class WorkCenterRepository extends BaseRepository<WorkCenter> {
         description,
         category,
         capacity,
+        labor_rate::float8 as "laborRate",
+        machine_rate::float8 as "machineRate",
         is_active as "isActive",
         created_at as "createdAt",
         updated_at as "updatedAt",
@@ -231,6 +239,8 @@ export class WorkCenterRepository extends BaseRepository<WorkCenter> {
         description,
         category,
         capacity,
+        labor_rate::float8 as "laborRate",
+        machine_rate::float8 as "machineRate",
         is_active as "isActive",
         created_at as "createdAt",
         updated_at as "updatedAt",
@@ -0,0 +1,450 @@
+import { createHash, randomUUID } from 'crypto';
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { Type } from '@fastify/type-provider-typebox';
+import { MultipartValue } from '@fastify/multipart';
+import { AttachmentRepository } from '../repositories/attachment.repository';
+import { LocalStorageDriver, StorageDriver, contentDisposition, createStorageDriver, loadStorageConfig } from '../config/storage';
+
+// Request/Response schemas using TypeBox for Fastify
+const AttachmentResponseSchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  ownerType: Type.Union([Type.Literal('QUALITY_CHECK'), Type.Literal('NCR')]),
+  ownerId: Type.String({ format: 'uuid' }),
+  fileName: Type.String(),
+  contentType: Type.String(),
+  sizeBytes: Type.Integer(),
+  checksumSha256: Type.String(),
+  storageDriver: Type.Union([Type.Literal('local'), Type.Literal('s3')]),
+  storageKey: Type.String(),
+  description: Type.Optional(Type.String()),
+  uploadedBy: Type.Optional(Type.String({ format: 'uuid' })),
+  uploadedAt: Type.String({ format: 'date-time' }),
+  isActive: Type.Boolean(),
+  createdAt: Type.String({ format: 'date-time' }),
+  updatedAt: Type.String({ format: 'date-time' }),
+  version: Type.Integer(),
+});
+
+const DownloadUrlResponseSchema = Type.Object({
+  url: Type.String(),
+  expiresAt: Type.String({ format: 'date-time' }),
+});
+
+const IdParams = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+});
+
+const StorageKeyParams = Type.Object({
+  key: Type.String({ minLength: 1 }),
+});
+
+const SignedUrlQuerySchema = Type.Object({
+  expires: Type.Integer(),
+  signature: Type.String({ minLength: 1 }),
+});
+
+const ErrorResponseSchema = Type.Object({
+  error: Type.String(),
+  message: Type.String(),
+});
+
+const UPLOAD_DESCRIPTION =
+  'Upload a file as multipart/form-data in the `file` field. Optional `description` and `uploadedBy` fields must precede the file. ' +
+  'The content type must be on the configured allow-list and the size within the configured limit; the SHA-256 checksum is stored with the file.';
+
+type OwnerType = 'QUALITY_CHECK' | 'NCR';
+
+/**
+ * Quality check and NCR attachment API routes
+ */
+export default async function attachmentRoutes(fastify: FastifyInstance) {
+  const attachmentRepository = new AttachmentRepository(fastify.pg.pool);
+  const storageConfig = loadStorageConfig();
+
+  // Attachments are read back through the driver that stored them, which is
+  // not the configured one for files uploaded before a driver switch
+  const drivers = new Map<StorageDriver['name'], StorageDriver>([[fastify.storage.name, fastify.storage]]);
+  function storageFor(name: StorageDriver['name']): StorageDriver {
+    let driver = drivers.get(name);
+    if (!driver) {
+      driver = createStorageDriver(storageConfig, name);
+      drivers.set(name, driver);
+    }
+    return driver;
+  }
+
+  /**
+   * Store the uploaded file and record it against the owner
+   */
+  async function uploadAttachment(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply,
+    ownerType: OwnerType
+  ) {
+    const ownerId = request.params.id;
+    const ownerLabel = ownerType === 'NCR' ? 'NCR' : 'Quality check';
+
+    try {
+      if (!(await attachmentRepository.ownerExists(ownerType, ownerId))) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `${ownerLabel} with ID '${ownerId}' not found`
+        });
+      }
+
+      const part = await request.file();
+      if (!part) {
+        return reply.code(400).send({
+          error: 'Validation Error',
+          message: 'A file must be uploaded in the `file` field'
+        });
+      }
+
+      if (!storageConfig.allowedContentTypes.includes(part.mimetype)) {
+        return reply.code(415).send({
+          error: 'Unsupported Media Type',
+          message: `Content type '${part.mimetype}' is not allowed. Allowed types: ${storageConfig.allowedContentTypes.join(', ')}`
+        });
+      }
+
+      const body = await part.toBuffer();
+      if (body.length === 0) {
+        return reply.code(400).send({
+          error: 'Validation Error',
+          message: 'Uploaded file is empty'
+        });
+      }
+
+      const field = (name: string) => {
+        const value = part.fields[name] as MultipartValue<string> | undefined;
+        return value && value.type === 'field' && value.value ? String(value.value) : undefined;
+      };
+
+      const id = randomUUID();
+      const storageKey = `${ownerType === 'NCR' ? 'ncrs' : 'quality-checks'}/${ownerId}/${id}`;
+
+      await fastify.storage.put(storageKey, body, part.mimetype);
+
+      try {
+        const attachment = await attachmentRepository.createForOwner({
+          id,
+          ownerType,
+          ownerId,
+          fileName: part.filename.slice(0, 255),
+          contentType: part.mimetype,
+          sizeBytes: body.length,
+          checksumSha256: createHash('sha256').update(body).digest('hex'),
+          storageDriver: fastify.storage.name,
+          storageKey,
+          description: field('description'),
+          uploadedBy: field('uploadedBy'),
+        });
+
+        return reply.code(201).send(attachment);
+      } catch (error) {
+        // Do not leave orphaned objects behind when the record cannot be saved
+        await fastify.storage.delete(storageKey).catch(deleteError =>
+          fastify.log.warn({ err: deleteError, storageKey }, 'Failed to remove orphaned attachment object'));
+        throw error;
+      }
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.code === 'FST_REQ_FILE_TOO_LARGE') {
+        return reply.code(413).send({
+          error: 'Payload Too Large',
+          message: `File exceeds the maximum size of ${storageConfig.maxFileSizeBytes} bytes`
+        });
+      }
+
+      if (error.code === 'FST_INVALID_MULTIPART_CONTENT_TYPE') {
+        return reply.code(400).send({
+          error: 'Validation Error',
+          message: 'Request must be multipart/form-data'
+        });
+      }
+
+      if (error.message?.includes('not found')) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: error.message
+        });
+      }
+
+      // Check for invalid uploader ID
+      if (error.code === '22P02') {
+        return reply.code(400).send({
+          error: 'Validation Error',
+          message: 'uploadedBy must be a UUID'
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to upload attachment'
+      });
+    }
+  }
+
+  /**
+   * List the attachments of an owner
+   */
+  async function listAttachments(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply,
+    ownerType: OwnerType
+  ) {
+    try {
+      const { id } = request.params;
+
+      if (!(await attachmentRepository.ownerExists(ownerType, id))) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `${ownerType === 'NCR' ? 'NCR' : 'Quality check'} with ID '${id}' not found`
+        });
+      }
+
+      const attachments = await attachmentRepository.findByOwner(ownerType, id);
+      return reply.code(200).send(attachments);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve attachments'
+      });
+    }
+  }
+
+  // POST /quality-checks/:id/attachments - Upload a quality check attachment
+  fastify.post('/quality-checks/:id/attachments', {
+    schema: {
+      tags: ['Attachments'],
+      summary: 'Upload quality check attachment',
+      description: UPLOAD_DESCRIPTION,
+      consumes: ['multipart/form-data'],
+      params: IdParams,
+      response: {
+        201: AttachmentResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+        413: ErrorResponseSchema,
+        415: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) =>
+    uploadAttachment(request, reply, 'QUALITY_CHECK'));
+
+  // GET /quality-checks/:id/attachments - List quality check attachments
+  fastify.get('/quality-checks/:id/attachments', {
+    schema: {
+      tags: ['Attachments'],
+      summary: 'List quality check attachments',
+      description: 'Retrieve the files attached to a quality check, newest first',
+      params: IdParams,
+      response: {
+        200: Type.Array(AttachmentResponseSchema),
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) =>
+    listAttachments(request, reply, 'QUALITY_CHECK'));
+
+  // POST /ncrs/:id/attachments - Upload an NCR attachment
+  fastify.post('/ncrs/:id/attachments', {
+    schema: {
+      tags: ['Attachments'],
+      summary: 'Upload NCR attachment',
+      description: UPLOAD_DESCRIPTION,
+      consumes: ['multipart/form-data'],
+      params: IdParams,
+      response: {
+        201: AttachmentResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+        413: ErrorResponseSchema,
+        415: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) =>
+    uploadAttachment(request, reply, 'NCR'));
+
+  // GET /ncrs/:id/attachments - List NCR attachments
+  fastify.get('/ncrs/:id/attachments', {
+    schema: {
+      tags: ['Attachments'],
+      summary: 'List NCR attachments',
+      description: 'Retrieve the files attached to a non-conformance report, newest first',
+      params: IdParams,
+      response: {
+        200: Type.Array(AttachmentResponseSchema),
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) =>
+    listAttachments(request, reply, 'NCR'));
+
+  // GET /attachments/:id - Get attachment metadata
+  fastify.get('/attachments/:id', {
+    schema: {
+      tags: ['Attachments'],
+      summary: 'Get attachment by ID',
+      description: 'Retrieve attachment metadata including its SHA-256 checksum',
+      params: IdParams,
+      response: {
+        200: AttachmentResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const attachment = await attachmentRepository.findById(id);
+
+      if (!attachment) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Attachment with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(attachment);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve attachment'
+      });
+    }
+  });
+
+  // GET /attachments/:id/download-url - Get a signed download URL
+  fastify.get('/attachments/:id/download-url', {
+    schema: {
+      tags: ['Attachments'],
+      summary: 'Get attachment download URL',
+      description: 'Issue a time-limited signed URL for downloading the attachment content',
+      params: IdParams,
+      response: {
+        200: DownloadUrlResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const attachment = await attachmentRepository.findById(id);
+
+      if (!attachment) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Attachment with ID '${id}' not found`
+        });
+      }
+
+      const expiresInSeconds = storageConfig.signedUrlTtlSeconds;
+      const url = await storageFor(attachment.storageDriver).getSignedDownloadUrl(attachment.storageKey, {
+        expiresInSeconds,
+        fileName: attachment.fileName,
+        contentType: attachment.contentType,
+      });
+
+      return reply.code(200).send({
+        url,
+        expiresAt: new Date(Date.now() + expiresInSeconds * 1000).toISOString(),
+      });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to create download URL'
+      });
+    }
+  });
+
+  // DELETE /attachments/:id - Remove an attachment
+  fastify.delete('/attachments/:id', {
+    schema: {
+      tags: ['Attachments'],
+      summary: 'Delete attachment',
+      description: 'Remove an attachment from its quality check or NCR (soft delete; the stored content is retained for audit)',
+      params: IdParams,
+      response: {
+        204: Type.Null(),
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const removed = await attachmentRepository.removeFromOwner(id);
+
+      if (!removed) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Attachment with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(204).send();
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to delete attachment'
+      });
+    }
+  });
+
+  // GET /storage/local/:key - Serve local storage content from a signed URL
+  fastify.get('/storage/local/:key', {
+    schema: {
+      tags: ['Attachments'],
+      summary: 'Download attachment content',
+      description: 'Stream attachment content from the local storage driver. Only reachable through a URL issued by the download-url endpoint.',
+      params: StorageKeyParams,
+      querystring: SignedUrlQuerySchema,
+      response: {
+        403: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { key: string };
+    Querystring: { expires: number; signature: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const storage = storageFor('local');
+      const { key } = request.params;
+      const { expires, signature } = request.query;
+
+      if (!(storage instanceof LocalStorageDriver) || !storage.verifySignature(key, expires, signature)) {
+        return reply.code(403).send({
+          error: 'Forbidden',
+          message: 'Download URL is invalid or has expired'
+        });
+      }
+
+      const attachment = await attachmentRepository.findByStorageKey(key);
+      if (!attachment || attachment.storageDriver !== 'local') {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: 'Attachment not found'
+        });
+      }
+
+      const content = await storage.get(key);
+      return reply
+        .header('Content-Type', attachment.contentType)
+        .header('Content-Length', attachment.sizeBytes)
+        .header('Content-Disposition', contentDisposition(attachment.fileName))
+        .header('X-Checksum-Sha256', attachment.checksumSha256)
+        .send(content);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to download attachment'
+      });
+    }
+  });
+}
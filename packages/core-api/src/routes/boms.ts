@@ -0,0 +1,1147 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { Type } from '@fastify/type-provider-typebox';
+import { BOMRepository } from '../repositories/bom.repository';
+
+// Request/Response schemas using TypeBox for Fastify
+const BOMStatusSchema = Type.Union([
+  Type.Literal('DRAFT'),
+  Type.Literal('RELEASED'),
+  Type.Literal('OBSOLETE')
+]);
+
+const BOMItemResponseSchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  bomId: Type.String({ format: 'uuid' }),
+  componentProductId: Type.String({ format: 'uuid' }),
+  componentSku: Type.Optional(Type.String()),
+  componentName: Type.Optional(Type.String()),
+  quantity: Type.Number(),
+  uom: Type.String(),
+  operationSequence: Type.Optional(Type.Integer()),
+  wasteFactor: Type.Number(),
+  isActive: Type.Boolean(),
+  createdAt: Type.String({ format: 'date-time' }),
+  updatedAt: Type.String({ format: 'date-time' }),
+  version: Type.Integer(),
+});
+
+const BOMOutputTypeSchema = Type.Union([
+  Type.Literal('CO_PRODUCT'),
+  Type.Literal('BY_PRODUCT')
+]);
+
+const CostAllocationMethodSchema = Type.Union([
+  Type.Literal('PHYSICAL_QUANTITY'),
+  Type.Literal('STANDARD_VALUE'),
+  Type.Literal('FIXED_PERCENTAGE')
+]);
+
+const BOMOutputResponseSchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  bomId: Type.String({ format: 'uuid' }),
+  productId: Type.String({ format: 'uuid' }),
+  productSku: Type.Optional(Type.String()),
+  productName: Type.Optional(Type.String()),
+  outputType: BOMOutputTypeSchema,
+  yieldRatio: Type.Number(),
+  uom: Type.String(),
+  allocationPercent: Type.Optional(Type.Number()),
+  isActive: Type.Boolean(),
+  createdAt: Type.String({ format: 'date-time' }),
+  updatedAt: Type.String({ format: 'date-time' }),
+  version: Type.Integer(),
+});
+
+const BOMResponseSchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  productId: Type.String({ format: 'uuid' }),
+  productSku: Type.Optional(Type.String()),
+  productName: Type.Optional(Type.String()),
+  revision: Type.String({ maxLength: 10 }),
+  name: Type.String({ maxLength: 100 }),
+  description: Type.Optional(Type.String()),
+  status: BOMStatusSchema,
+  isDefault: Type.Boolean(),
+  effectiveFrom: Type.Optional(Type.String({ format: 'date-time' })),
+  effectiveTo: Type.Optional(Type.String({ format: 'date-time' })),
+  releasedAt: Type.Optional(Type.String({ format: 'date-time' })),
+  releasedBy: Type.Optional(Type.String({ format: 'uuid' })),
+  releasedByName: Type.Optional(Type.String()),
+  copiedFromBomId: Type.Optional(Type.String({ format: 'uuid' })),
+  costAllocationMethod: CostAllocationMethodSchema,
+  items: Type.Optional(Type.Array(BOMItemResponseSchema)),
+  outputs: Type.Optional(Type.Array(BOMOutputResponseSchema)),
+  isActive: Type.Boolean({ default: true }),
+  createdAt: Type.String({ format: 'date-time' }),
+  updatedAt: Type.String({ format: 'date-time' }),
+  version: Type.Integer({ minimum: 1 }),
+});
+
+const CreateBOMSchema = Type.Object({
+  productId: Type.String({ format: 'uuid' }),
+  revision: Type.String({ minLength: 1, maxLength: 10 }),
+  name: Type.String({ minLength: 1, maxLength: 100 }),
+  description: Type.Optional(Type.String()),
+  effectiveFrom: Type.Optional(Type.String({ format: 'date-time' })),
+  effectiveTo: Type.Optional(Type.String({ format: 'date-time' })),
+  costAllocationMethod: Type.Optional(CostAllocationMethodSchema),
+});
+
+const UpdateBOMSchema = Type.Object({
+  name: Type.Optional(Type.String({ minLength: 1, maxLength: 100 })),
+  description: Type.Optional(Type.String()),
+  effectiveFrom: Type.Optional(Type.String({ format: 'date-time' })),
+  effectiveTo: Type.Optional(Type.String({ format: 'date-time' })),
+  costAllocationMethod: Type.Optional(CostAllocationMethodSchema),
+});
+
+const CopyBOMSchema = Type.Object({
+  revision: Type.String({ minLength: 1, maxLength: 10 }),
+  name: Type.Optional(Type.String({ minLength: 1, maxLength: 100 })),
+  description: Type.Optional(Type.String()),
+  effectiveFrom: Type.Optional(Type.String({ format: 'date-time' })),
+  effectiveTo: Type.Optional(Type.String({ format: 'date-time' })),
+});
+
+const StatusTransitionSchema = Type.Object({
+  status: BOMStatusSchema,
+  releasedBy: Type.Optional(Type.String({ format: 'uuid' })),
+  releasedByName: Type.Optional(Type.String({ maxLength: 100 })),
+  makeDefault: Type.Optional(Type.Boolean()),
+});
+
+const CreateBOMItemSchema = Type.Object({
+  componentProductId: Type.String({ format: 'uuid' }),
+  quantity: Type.Number({ exclusiveMinimum: 0 }),
+  uom: Type.String({ minLength: 1, maxLength: 20 }),
+  operationSequence: Type.Optional(Type.Integer({ minimum: 1 })),
+  wasteFactor: Type.Optional(Type.Number({ minimum: 0, maximum: 1, default: 0 })),
+});
+
+const UpdateBOMItemSchema = Type.Partial(CreateBOMItemSchema);
+
+const CreateBOMOutputSchema = Type.Object({
+  productId: Type.String({ format: 'uuid' }),
+  outputType: BOMOutputTypeSchema,
+  yieldRatio: Type.Number({ exclusiveMinimum: 0, description: 'Output quantity per unit of the BOM\'s product' }),
+  uom: Type.String({ minLength: 1, maxLength: 20 }),
+  allocationPercent: Type.Optional(Type.Number({ minimum: 0, maximum: 100, description: 'Share of the order cost under FIXED_PERCENTAGE; co-products only' })),
+});
+
+const UpdateBOMOutputSchema = Type.Partial(CreateBOMOutputSchema);
+
+const BOMIdParams = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+});
+
+const BOMItemParams = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  itemId: Type.String({ format: 'uuid' }),
+});
+
+const BOMOutputParams = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  outputId: Type.String({ format: 'uuid' }),
+});
+
+const EffectiveBOMQuerySchema = Type.Object({
+  at: Type.Optional(Type.String({ format: 'date-time' })),
+});
+
+const ExplodeQuerySchema = Type.Object({
+  quantity: Type.Optional(Type.Number({ exclusiveMinimum: 0, default: 1 })),
+  at: Type.Optional(Type.String({ format: 'date-time' })),
+});
+
+const StructureLineFields = {
+  productId: Type.String({ format: 'uuid' }),
+  sku: Type.String(),
+  name: Type.String(),
+  level: Type.Integer({ minimum: 0 }),
+  uom: Type.String(),
+  quantityPer: Type.Number(),
+  wasteFactor: Type.Number(),
+  bomItemId: Type.Optional(Type.String({ format: 'uuid' })),
+  bomId: Type.Optional(Type.String({ format: 'uuid' })),
+  bomVersion: Type.Optional(Type.String()),
+};
+
+const ExplosionNodeSchema = Type.Recursive(This => Type.Object({
+  ...StructureLineFields,
+  extendedQuantity: Type.Number(),
+  operationSequence: Type.Optional(Type.Integer()),
+  children: Type.Array(This),
+}), { $id: 'BOMExplosionNode' });
+
+const ExplosionResponseSchema = Type.Object({
+  productId: Type.String({ format: 'uuid' }),
+  quantity: Type.Number(),
+  effectiveAt: Type.String({ format: 'date-time' }),
+  tree: ExplosionNodeSchema,
+  lines: Type.Array(Type.Object({
+    ...StructureLineFields,
+    parentProductId: Type.Optional(Type.String({ format: 'uuid' })),
+    extendedQuantity: Type.Number(),
+    operationSequence: Type.Optional(Type.Integer()),
+  })),
+  components: Type.Array(Type.Object({
+    productId: Type.String({ format: 'uuid' }),
+    sku: Type.String(),
+    name: Type.String(),
+    uom: Type.String(),
+    totalQuantity: Type.Number(),
+    levels: Type.Array(Type.Integer()),
+    isAssembly: Type.Boolean(),
+  })),
+});
+
+const WhereUsedNodeSchema = Type.Recursive(This => Type.Object({
+  ...StructureLineFields,
+  cumulativeQuantity: Type.Number(),
+  usedBy: Type.Array(This),
+}), { $id: 'WhereUsedNode' });
+
+const WhereUsedResponseSchema = Type.Object({
+  productId: Type.String({ format: 'uuid' }),
+  effectiveAt: Type.String({ format: 'date-time' }),
+  tree: WhereUsedNodeSchema,
+  lines: Type.Array(Type.Object({
+    ...StructureLineFields,
+    childProductId: Type.Optional(Type.String({ format: 'uuid' })),
+    cumulativeQuantity: Type.Number(),
+    isEndItem: Type.Boolean(),
+  })),
+});
+
+const PaginationQuerySchema = Type.Object({
+  page: Type.Optional(Type.Integer({ minimum: 1, default: 1 })),
+  limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: 50 })),
+  sortBy: Type.Optional(Type.String({ default: 'created_at' })),
+  sortOrder: Type.Optional(Type.Union([Type.Literal('ASC'), Type.Literal('DESC')], { default: 'DESC' })),
+  productId: Type.Optional(Type.String({ format: 'uuid' })),
+  status: Type.Optional(BOMStatusSchema),
+  isDefault: Type.Optional(Type.Boolean()),
+  effectiveAt: Type.Optional(Type.String({ format: 'date-time' })),
+});
+
+const PaginatedBOMResponseSchema = Type.Object({
+  data: Type.Array(BOMResponseSchema),
+  pagination: Type.Object({
+    page: Type.Integer(),
+    limit: Type.Integer(),
+    total: Type.Integer(),
+    totalPages: Type.Integer(),
+    hasNext: Type.Boolean(),
+    hasPrev: Type.Boolean(),
+  }),
+});
+
+const ErrorResponseSchema = Type.Object({
+  error: Type.String(),
+  message: Type.String(),
+});
+
+type BOMStatus = 'DRAFT' | 'RELEASED' | 'OBSOLETE';
+type BOMItemBody = {
+  componentProductId: string;
+  quantity: number;
+  uom: string;
+  operationSequence?: number;
+  wasteFactor?: number;
+};
+
+type BOMOutputBody = {
+  productId: string;
+  outputType: 'CO_PRODUCT' | 'BY_PRODUCT';
+  yieldRatio: number;
+  uom: string;
+  allocationPercent?: number;
+};
+
+type CostAllocationMethod = 'PHYSICAL_QUANTITY' | 'STANDARD_VALUE' | 'FIXED_PERCENTAGE';
+
+/**
+ * Bill of materials API routes
+ */
+export default async function bomRoutes(fastify: FastifyInstance) {
+  const bomRepository = new BOMRepository(fastify.pg.pool);
+
+  // GET /boms - List BOMs with filtering
+  fastify.get('/boms', {
+    schema: {
+      tags: ['BOMs'],
+      summary: 'List BOMs',
+      description: 'Retrieve a paginated list of BOM versions without their items, optionally filtered by product, status or the time they are effective at',
+      querystring: PaginationQuerySchema,
+      response: {
+        200: PaginatedBOMResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Querystring: {
+      page?: number;
+      limit?: number;
+      sortBy?: string;
+      sortOrder?: 'ASC' | 'DESC';
+      productId?: string;
+      status?: BOMStatus;
+      isDefault?: boolean;
+      effectiveAt?: string;
+    };
+  }>, reply: FastifyReply) => {
+    try {
+      const { page, limit, sortBy, sortOrder, effectiveAt, ...filters } = request.query;
+
+      const result = await bomRepository.findWithFilters(
+        { page, limit, sortBy, sortOrder },
+        { ...filters, ...(effectiveAt && { effectiveAt: new Date(effectiveAt) }) }
+      );
+
+      return reply.code(200).send(result);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve BOMs'
+      });
+    }
+  });
+
+  // GET /products/:id/boms/effective - Get the BOM to build a product with
+  fastify.get('/products/:id/boms/effective', {
+    schema: {
+      tags: ['BOMs'],
+      summary: 'Get effective BOM for product',
+      description: 'Retrieve the released BOM to build a product with at the given time (default now): the default BOM if it is effective then, otherwise the most recently effective released BOM',
+      params: BOMIdParams,
+      querystring: EffectiveBOMQuerySchema,
+      response: {
+        200: BOMResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Querystring: { at?: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const at = request.query.at ? new Date(request.query.at) : new Date();
+      const bom = await bomRepository.findEffective(id, at);
+
+      if (!bom) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `No released BOM is effective for product '${id}' at ${at.toISOString()}`
+        });
+      }
+
+      return reply.code(200).send(bom);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve effective BOM'
+      });
+    }
+  });
+
+  // GET /products/:id/bom/explode - Multi-level BOM explosion
+  fastify.get('/products/:id/bom/explode', {
+    schema: {
+      tags: ['BOMs'],
+      summary: 'Explode product BOM',
+      description: 'Walk the product structure through every level, using the effective BOM of each sub-assembly at the given time (default now). Quantities are for the requested quantity of the product and include waste: extendedQuantity = parent extendedQuantity × quantityPer × (1 + wasteFactor). Returns the indented tree, the same structure as a flat depth-first list, and the total per component across levels.',
+      params: BOMIdParams,
+      querystring: ExplodeQuerySchema,
+      response: {
+        200: ExplosionResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Querystring: { quantity?: number; at?: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { quantity = 1, at } = request.query;
+
+      const explosion = await bomRepository.explode(id, quantity, at ? new Date(at) : new Date());
+      return reply.code(200).send(explosion);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('not found') || error.message.includes('No released BOM')) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to explode BOM'
+      });
+    }
+  });
+
+  // GET /products/:id/where-used - Where-used (inverse explosion)
+  fastify.get('/products/:id/where-used', {
+    schema: {
+      tags: ['BOMs'],
+      summary: 'Get where-used for product',
+      description: 'Find every product whose effective BOM at the given time (default now) uses this product, directly or through sub-assemblies, up to the end items. cumulativeQuantity is the quantity of this product needed per unit of each parent, including waste.',
+      params: BOMIdParams,
+      querystring: EffectiveBOMQuerySchema,
+      response: {
+        200: WhereUsedResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Querystring: { at?: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { at } = request.query;
+
+      const whereUsed = await bomRepository.whereUsed(id, at ? new Date(at) : new Date());
+      return reply.code(200).send(whereUsed);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('not found')) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve where-used'
+      });
+    }
+  });
+
+  // GET /boms/:id - Get BOM by ID
+  fastify.get('/boms/:id', {
+    schema: {
+      tags: ['BOMs'],
+      summary: 'Get BOM by ID',
+      description: 'Retrieve a BOM version with its items',
+      params: BOMIdParams,
+      response: {
+        200: BOMResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const bom = await bomRepository.findById(id);
+
+      if (!bom) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `BOM with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(bom);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve BOM'
+      });
+    }
+  });
+
+  // POST /boms - Create BOM
+  fastify.post('/boms', {
+    schema: {
+      tags: ['BOMs'],
+      summary: 'Create BOM',
+      description: 'Create a draft BOM version for a product. Versions are unique per product.',
+      body: CreateBOMSchema,
+      response: {
+        201: BOMResponseSchema,
+        400: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Body: {
+      productId: string;
+      revision: string;
+      name: string;
+      description?: string;
+      effectiveFrom?: string;
+      effectiveTo?: string;
+      costAllocationMethod?: CostAllocationMethod;
+    };
+  }>, reply: FastifyReply) => {
+    try {
+      const { effectiveFrom, effectiveTo, ...bomData } = request.body;
+
+      const bom = await bomRepository.createBOM({
+        ...bomData,
+        ...(effectiveFrom && { effectiveFrom: new Date(effectiveFrom) }),
+        ...(effectiveTo && { effectiveTo: new Date(effectiveTo) }),
+      });
+      return reply.code(201).send(bom);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('does not exist') || error.message.includes('Validation failed')) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('already exists')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to create BOM'
+      });
+    }
+  });
+
+  // PUT /boms/:id - Update BOM
+  fastify.put('/boms/:id', {
+    schema: {
+      tags: ['BOMs'],
+      summary: 'Update BOM',
+      description: 'Update the details, effectivity dates or cost allocation method of a draft BOM. Released and obsolete BOMs cannot be modified.',
+      params: BOMIdParams,
+      body: UpdateBOMSchema,
+      response: {
+        200: BOMResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: {
+      name?: string;
+      description?: string;
+      effectiveFrom?: string;
+      effectiveTo?: string;
+      costAllocationMethod?: CostAllocationMethod;
+    };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { effectiveFrom, effectiveTo, ...updateData } = request.body;
+
+      const bom = await bomRepository.updateBOM(id, {
+        ...updateData,
+        ...(effectiveFrom && { effectiveFrom: new Date(effectiveFrom) }),
+        ...(effectiveTo && { effectiveTo: new Date(effectiveTo) }),
+      });
+
+      if (!bom) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `BOM with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(bom);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('Validation failed')) {
+        return reply.code(400).send({
+          error: 'Validation Error',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('cannot be modified')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to update BOM'
+      });
+    }
+  });
+
+  // PUT /boms/:id/status - Release or obsolete a BOM
+  fastify.put('/boms/:id/status', {
+    schema: {
+      tags: ['BOMs'],
+      summary: 'Update BOM status',
+      description: 'Move a BOM through DRAFT → RELEASED → OBSOLETE. Releasing requires at least one item and the releaser, locks the BOM against changes and makes it the default if makeDefault is set or the product has no default yet. Obsolete BOMs stop being the default.',
+      params: BOMIdParams,
+      body: StatusTransitionSchema,
+      response: {
+        200: BOMResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: {
+      status: BOMStatus;
+      releasedBy?: string;
+      releasedByName?: string;
+      makeDefault?: boolean;
+    };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { status, ...transitionData } = request.body;
+
+      const { bom } = await bomRepository.updateStatus(id, status, transitionData);
+      return reply.code(200).send(bom);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('not found')) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('Invalid status transition')) {
+        return reply.code(400).send({
+          error: 'Invalid Transition',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('Transition requirements not met') || error.message.includes('Circular reference')) {
+        return reply.code(400).send({
+          error: 'Validation Error',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to update BOM status'
+      });
+    }
+  });
+
+  // PUT /boms/:id/default - Make a BOM the product's default
+  fastify.put('/boms/:id/default', {
+    schema: {
+      tags: ['BOMs'],
+      summary: 'Set default BOM',
+      description: 'Make a released BOM the default version for its product, replacing the previous default',
+      params: BOMIdParams,
+      response: {
+        200: BOMResponseSchema,
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const bom = await bomRepository.setDefault(id);
+
+      if (!bom) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `BOM with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(bom);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('Only released BOMs')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to set default BOM'
+      });
+    }
+  });
+
+  // POST /boms/:id/copy - Copy a BOM into a new version
+  fastify.post('/boms/:id/copy', {
+    schema: {
+      tags: ['BOMs'],
+      summary: 'Copy BOM to new version',
+      description: 'Create a draft version of the same product with a copy of the BOM\'s items, outputs and cost allocation method. Any BOM can be copied, including released and obsolete ones.',
+      params: BOMIdParams,
+      body: CopyBOMSchema,
+      response: {
+        201: BOMResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: {
+      revision: string;
+      name?: string;
+      description?: string;
+      effectiveFrom?: string;
+      effectiveTo?: string;
+    };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { effectiveFrom, effectiveTo, ...copyData } = request.body;
+
+      const bom = await bomRepository.copyToVersion(id, {
+        ...copyData,
+        ...(effectiveFrom && { effectiveFrom: new Date(effectiveFrom) }),
+        ...(effectiveTo && { effectiveTo: new Date(effectiveTo) }),
+      });
+
+      if (!bom) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `BOM with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(201).send(bom);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('Validation failed')) {
+        return reply.code(400).send({
+          error: 'Validation Error',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('already exists')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to copy BOM'
+      });
+    }
+  });
+
+  // DELETE /boms/:id - Delete BOM
+  fastify.delete('/boms/:id', {
+    schema: {
+      tags: ['BOMs'],
+      summary: 'Delete BOM',
+      description: 'Soft delete a draft or obsolete BOM. Released BOMs and BOMs used by open manufacturing orders cannot be deleted.',
+      params: BOMIdParams,
+      response: {
+        204: Type.Null(),
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+
+      // Check if BOM can be deleted
+      const canDeleteResult = await bomRepository.canDelete(id);
+      if (!canDeleteResult.canDelete) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: canDeleteResult.reason || 'Cannot delete BOM'
+        });
+      }
+
+      const deleted = await bomRepository.delete(id);
+
+      if (!deleted) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `BOM with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(204).send();
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to delete BOM'
+      });
+    }
+  });
+
+  // POST /boms/:id/items - Add a component
+  fastify.post('/boms/:id/items', {
+    schema: {
+      tags: ['BOMs'],
+      summary: 'Add BOM item',
+      description: 'Add a component to a draft BOM. Components whose own structure contains the BOM\'s product are rejected. The unit is stored as its catalogue code and must convert to the component\'s unit.',
+      params: BOMIdParams,
+      body: CreateBOMItemSchema,
+      response: {
+        201: BOMItemResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: BOMItemBody;
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const item = await bomRepository.addItem(id, request.body);
+
+      if (!item) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `BOM with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(201).send(item);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('does not exist') || error.message.includes('Circular reference') ||
+          error.message.includes('Validation failed')) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('cannot be modified')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to add BOM item'
+      });
+    }
+  });
+
+  // PUT /boms/:id/items/:itemId - Update a component
+  fastify.put('/boms/:id/items/:itemId', {
+    schema: {
+      tags: ['BOMs'],
+      summary: 'Update BOM item',
+      description: 'Update a component line on a draft BOM. The unit is stored as its catalogue code and must convert to the component\'s unit.',
+      params: BOMItemParams,
+      body: UpdateBOMItemSchema,
+      response: {
+        200: BOMItemResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string; itemId: string };
+    Body: Partial<BOMItemBody>;
+  }>, reply: FastifyReply) => {
+    try {
+      const { id, itemId } = request.params;
+      const item = await bomRepository.updateItem(id, itemId, request.body);
+
+      if (!item) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `BOM with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(item);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('not found')) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('does not exist') || error.message.includes('Circular reference') ||
+          error.message.includes('Validation failed')) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('cannot be modified')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to update BOM item'
+      });
+    }
+  });
+
+  // DELETE /boms/:id/items/:itemId - Remove a component
+  fastify.delete('/boms/:id/items/:itemId', {
+    schema: {
+      tags: ['BOMs'],
+      summary: 'Remove BOM item',
+      description: 'Remove a component line from a draft BOM',
+      params: BOMItemParams,
+      response: {
+        204: Type.Null(),
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string; itemId: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id, itemId } = request.params;
+      const removed = await bomRepository.removeItem(id, itemId);
+
+      if (!removed) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `BOM with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(204).send();
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('not found')) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('cannot be modified')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to remove BOM item'
+      });
+    }
+  });
+
+  // POST /boms/:id/outputs - Add a co-product or by-product
+  fastify.post('/boms/:id/outputs', {
+    schema: {
+      tags: ['BOMs'],
+      summary: 'Add BOM output',
+      description: 'Declare a co-product or by-product of a draft BOM, produced at its yield ratio per unit of the BOM\'s product. By-products carry no cost; co-product allocation percentages may not exceed 100 in total. The unit is stored as its catalogue code and must convert to the output product\'s unit.',
+      params: BOMIdParams,
+      body: CreateBOMOutputSchema,
+      response: {
+        201: BOMOutputResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: BOMOutputBody;
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const output = await bomRepository.addOutput(id, request.body);
+
+      if (!output) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `BOM with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(201).send(output);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('does not exist') || error.message.includes('Validation failed')) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('cannot be modified') || error.message.includes('already exists')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to add BOM output'
+      });
+    }
+  });
+
+  // PUT /boms/:id/outputs/:outputId - Update a co-product or by-product
+  fastify.put('/boms/:id/outputs/:outputId', {
+    schema: {
+      tags: ['BOMs'],
+      summary: 'Update BOM output',
+      description: 'Update a co-product or by-product line on a draft BOM',
+      params: BOMOutputParams,
+      body: UpdateBOMOutputSchema,
+      response: {
+        200: BOMOutputResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string; outputId: string };
+    Body: Partial<BOMOutputBody>;
+  }>, reply: FastifyReply) => {
+    try {
+      const { id, outputId } = request.params;
+      const output = await bomRepository.updateOutput(id, outputId, request.body);
+
+      if (!output) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `BOM with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(output);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('not found')) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('does not exist') || error.message.includes('Validation failed')) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('cannot be modified') || error.message.includes('already exists')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to update BOM output'
+      });
+    }
+  });
+
+  // DELETE /boms/:id/outputs/:outputId - Remove a co-product or by-product
+  fastify.delete('/boms/:id/outputs/:outputId', {
+    schema: {
+      tags: ['BOMs'],
+      summary: 'Remove BOM output',
+      description: 'Remove a co-product or by-product line from a draft BOM',
+      params: BOMOutputParams,
+      response: {
+        204: Type.Null(),
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string; outputId: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id, outputId } = request.params;
+      const removed = await bomRepository.removeOutput(id, outputId);
+
+      if (!removed) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `BOM with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(204).send();
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('not found')) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('cannot be modified')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to remove BOM output'
+      });
+    }
+  });
+}
@@ -0,0 +1,878 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { Type } from '@fastify/type-provider-typebox';
+import { CAPARepository } from '../repositories/capa.repository';
+
+// Request/Response schemas using TypeBox for Fastify
+const CAPATypeSchema = Type.Union([
+  Type.Literal('CORRECTIVE'),
+  Type.Literal('PREVENTIVE')
+]);
+
+const CAPAStatusSchema = Type.Union([
+  Type.Literal('OPEN'),
+  Type.Literal('IN_PROGRESS'),
+  Type.Literal('EFFECTIVENESS_CHECK'),
+  Type.Literal('PENDING_APPROVAL'),
+  Type.Literal('CLOSED')
+]);
+
+const ActionItemStatusSchema = Type.Union([
+  Type.Literal('OPEN'),
+  Type.Literal('IN_PROGRESS'),
+  Type.Literal('COMPLETED'),
+  Type.Literal('CANCELLED')
+]);
+
+const EffectivenessResultSchema = Type.Union([
+  Type.Literal('EFFECTIVE'),
+  Type.Literal('NOT_EFFECTIVE')
+]);
+
+const ActionItemResponseSchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  capaId: Type.String({ format: 'uuid' }),
+  description: Type.String(),
+  assignedTo: Type.Optional(Type.String({ format: 'uuid' })),
+  assignedToName: Type.Optional(Type.String()),
+  dueDate: Type.String({ format: 'date-time' }),
+  status: ActionItemStatusSchema,
+  completedAt: Type.Optional(Type.String({ format: 'date-time' })),
+  completionNotes: Type.Optional(Type.String()),
+  isOverdue: Type.Boolean(),
+  isActive: Type.Boolean(),
+  createdAt: Type.String({ format: 'date-time' }),
+  updatedAt: Type.String({ format: 'date-time' }),
+  version: Type.Integer(),
+});
+
+const EffectivenessCheckResponseSchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  capaId: Type.String({ format: 'uuid' }),
+  plannedDate: Type.String({ format: 'date-time' }),
+  criteria: Type.Optional(Type.String()),
+  result: Type.Optional(EffectivenessResultSchema),
+  performedBy: Type.Optional(Type.String({ format: 'uuid' })),
+  performedByName: Type.Optional(Type.String()),
+  performedAt: Type.Optional(Type.String({ format: 'date-time' })),
+  notes: Type.Optional(Type.String()),
+  isActive: Type.Boolean(),
+  createdAt: Type.String({ format: 'date-time' }),
+  updatedAt: Type.String({ format: 'date-time' }),
+  version: Type.Integer(),
+});
+
+const LinkedNCRSchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  ncrNumber: Type.String(),
+  title: Type.String(),
+  status: Type.String(),
+  severity: Type.String(),
+});
+
+const CAPAResponseSchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  capaNumber: Type.String({ maxLength: 50 }),
+  type: CAPATypeSchema,
+  status: CAPAStatusSchema,
+  title: Type.String({ maxLength: 200 }),
+  description: Type.String(),
+  rootCause: Type.Optional(Type.String()),
+  ownerId: Type.String({ format: 'uuid' }),
+  ownerName: Type.String({ maxLength: 100 }),
+  dueDate: Type.String({ format: 'date-time' }),
+  actualCloseDate: Type.Optional(Type.String({ format: 'date-time' })),
+  approvedBy: Type.Optional(Type.String({ format: 'uuid' })),
+  approvedByName: Type.Optional(Type.String({ maxLength: 100 })),
+  approvedAt: Type.Optional(Type.String({ format: 'date-time' })),
+  approvalNotes: Type.Optional(Type.String()),
+  isOverdue: Type.Boolean(),
+  actionItems: Type.Optional(Type.Array(ActionItemResponseSchema)),
+  effectivenessChecks: Type.Optional(Type.Array(EffectivenessCheckResponseSchema)),
+  linkedNCRs: Type.Optional(Type.Array(LinkedNCRSchema)),
+  isActive: Type.Boolean({ default: true }),
+  createdAt: Type.String({ format: 'date-time' }),
+  updatedAt: Type.String({ format: 'date-time' }),
+  version: Type.Integer({ minimum: 1 }),
+});
+
+const CreateCAPASchema = Type.Object({
+  type: CAPATypeSchema,
+  title: Type.String({ minLength: 1, maxLength: 200 }),
+  description: Type.String({ minLength: 1, maxLength: 2000 }),
+  rootCause: Type.Optional(Type.String({ maxLength: 2000 })),
+  ownerId: Type.String({ format: 'uuid' }),
+  ownerName: Type.String({ minLength: 1, maxLength: 100 }),
+  dueDate: Type.String({ format: 'date-time' }),
+  ncrIds: Type.Optional(Type.Array(Type.String({ format: 'uuid' }))),
+});
+
+const UpdateCAPASchema = Type.Object({
+  title: Type.Optional(Type.String({ minLength: 1, maxLength: 200 })),
+  description: Type.Optional(Type.String({ minLength: 1, maxLength: 2000 })),
+  rootCause: Type.Optional(Type.String({ maxLength: 2000 })),
+  ownerId: Type.Optional(Type.String({ format: 'uuid' })),
+  ownerName: Type.Optional(Type.String({ minLength: 1, maxLength: 100 })),
+  dueDate: Type.Optional(Type.String({ format: 'date-time' })),
+});
+
+const StatusTransitionSchema = Type.Object({
+  status: CAPAStatusSchema,
+  rootCause: Type.Optional(Type.String({ maxLength: 2000 })),
+  approvedBy: Type.Optional(Type.String({ format: 'uuid' })),
+  approvedByName: Type.Optional(Type.String({ maxLength: 100 })),
+  approvalNotes: Type.Optional(Type.String({ maxLength: 500 })),
+});
+
+const LinkNCRSchema = Type.Object({
+  ncrId: Type.String({ format: 'uuid' }),
+});
+
+const CreateActionItemSchema = Type.Object({
+  description: Type.String({ minLength: 1, maxLength: 500 }),
+  assignedTo: Type.Optional(Type.String({ format: 'uuid' })),
+  assignedToName: Type.Optional(Type.String({ maxLength: 100 })),
+  dueDate: Type.String({ format: 'date-time' }),
+});
+
+const UpdateActionItemSchema = Type.Object({
+  description: Type.Optional(Type.String({ minLength: 1, maxLength: 500 })),
+  assignedTo: Type.Optional(Type.String({ format: 'uuid' })),
+  assignedToName: Type.Optional(Type.String({ maxLength: 100 })),
+  dueDate: Type.Optional(Type.String({ format: 'date-time' })),
+  status: Type.Optional(ActionItemStatusSchema),
+  completionNotes: Type.Optional(Type.String({ maxLength: 500 })),
+});
+
+const PlanEffectivenessCheckSchema = Type.Object({
+  plannedDate: Type.String({ format: 'date-time' }),
+  criteria: Type.Optional(Type.String({ maxLength: 500 })),
+});
+
+const RecordEffectivenessResultSchema = Type.Object({
+  result: EffectivenessResultSchema,
+  performedBy: Type.String({ format: 'uuid' }),
+  performedByName: Type.String({ minLength: 1, maxLength: 100 }),
+  notes: Type.Optional(Type.String({ maxLength: 1000 })),
+});
+
+const CAPAIdParams = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+});
+
+const CAPANCRParams = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  ncrId: Type.String({ format: 'uuid' }),
+});
+
+const ActionItemParams = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  itemId: Type.String({ format: 'uuid' }),
+});
+
+const EffectivenessCheckParams = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  checkId: Type.String({ format: 'uuid' }),
+});
+
+const CAPASummarySchema = Type.Object({
+  ownerId: Type.Optional(Type.String({ format: 'uuid' })),
+  totalCAPAs: Type.Integer(),
+  openCAPAs: Type.Integer(),
+  inProgressCAPAs: Type.Integer(),
+  effectivenessCheckCAPAs: Type.Integer(),
+  pendingApprovalCAPAs: Type.Integer(),
+  closedCAPAs: Type.Integer(),
+  correctiveCAPAs: Type.Integer(),
+  preventiveCAPAs: Type.Integer(),
+  averageClosureDays: Type.Number(),
+  overdueCAPAs: Type.Integer(),
+  overdueActionItems: Type.Integer(),
+  ineffectiveChecks: Type.Integer(),
+  lastUpdated: Type.String({ format: 'date-time' }),
+});
+
+const OwnerQuerySchema = Type.Object({
+  ownerId: Type.Optional(Type.String({ format: 'uuid' })),
+});
+
+const PaginationQuerySchema = Type.Object({
+  page: Type.Optional(Type.Integer({ minimum: 1, default: 1 })),
+  limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: 50 })),
+  sortBy: Type.Optional(Type.String({ default: 'due_date' })),
+  sortOrder: Type.Optional(Type.Union([Type.Literal('ASC'), Type.Literal('DESC')], { default: 'ASC' })),
+  type: Type.Optional(CAPATypeSchema),
+  status: Type.Optional(CAPAStatusSchema),
+  ownerId: Type.Optional(Type.String({ format: 'uuid' })),
+  ncrId: Type.Optional(Type.String({ format: 'uuid' })),
+  overdue: Type.Optional(Type.Boolean()),
+});
+
+const PaginatedCAPAResponseSchema = Type.Object({
+  data: Type.Array(CAPAResponseSchema),
+  pagination: Type.Object({
+    page: Type.Integer(),
+    limit: Type.Integer(),
+    total: Type.Integer(),
+    totalPages: Type.Integer(),
+    hasNext: Type.Boolean(),
+    hasPrev: Type.Boolean(),
+  }),
+});
+
+const ErrorResponseSchema = Type.Object({
+  error: Type.String(),
+  message: Type.String(),
+});
+
+type CAPAType = 'CORRECTIVE' | 'PREVENTIVE';
+type CAPAStatus = 'OPEN' | 'IN_PROGRESS' | 'EFFECTIVENESS_CHECK' | 'PENDING_APPROVAL' | 'CLOSED';
+type ActionItemStatus = 'OPEN' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED';
+type EffectivenessResult = 'EFFECTIVE' | 'NOT_EFFECTIVE';
+
+/**
+ * Corrective and preventive action (CAPA) API routes
+ */
+export default async function capaRoutes(fastify: FastifyInstance) {
+  const capaRepository = new CAPARepository(fastify.pg.pool);
+
+  // GET /capas - List CAPAs with filtering
+  fastify.get('/capas', {
+    schema: {
+      tags: ['CAPA'],
+      summary: 'List CAPAs',
+      description: 'Retrieve a paginated list of CAPAs, optionally filtered by owner, status or a linked NCR',
+      querystring: PaginationQuerySchema,
+      response: {
+        200: PaginatedCAPAResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Querystring: {
+      page?: number;
+      limit?: number;
+      sortBy?: string;
+      sortOrder?: 'ASC' | 'DESC';
+      type?: CAPAType;
+      status?: CAPAStatus;
+      ownerId?: string;
+      ncrId?: string;
+      overdue?: boolean;
+    };
+  }>, reply: FastifyReply) => {
+    try {
+      const { page, limit, sortBy, sortOrder, ...filters } = request.query;
+
+      const result = await capaRepository.findWithFilters(
+        { page, limit, sortBy, sortOrder },
+        filters
+      );
+
+      return reply.code(200).send(result);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve CAPAs'
+      });
+    }
+  });
+
+  // GET /capas/summary - Get CAPA summary
+  fastify.get('/capas/summary', {
+    schema: {
+      tags: ['CAPA'],
+      summary: 'Get CAPA summary',
+      description: 'Retrieve CAPA counts, closure time and overdue work, optionally scoped to an owner',
+      querystring: OwnerQuerySchema,
+      response: {
+        200: CAPASummarySchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Querystring: { ownerId?: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const summary = await capaRepository.getSummary(request.query);
+      return reply.code(200).send(summary);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve CAPA summary'
+      });
+    }
+  });
+
+  // GET /capas/overdue - List overdue CAPAs
+  fastify.get('/capas/overdue', {
+    schema: {
+      tags: ['CAPA'],
+      summary: 'List overdue CAPAs',
+      description: 'Retrieve open CAPAs that are past their due date or have overdue action items. Only the overdue action items are included.',
+      querystring: OwnerQuerySchema,
+      response: {
+        200: Type.Array(CAPAResponseSchema),
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Querystring: { ownerId?: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const capas = await capaRepository.findOverdue(request.query.ownerId);
+      return reply.code(200).send(capas);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve overdue CAPAs'
+      });
+    }
+  });
+
+  // GET /capas/:id - Get CAPA by ID
+  fastify.get('/capas/:id', {
+    schema: {
+      tags: ['CAPA'],
+      summary: 'Get CAPA by ID',
+      description: 'Retrieve a CAPA with its action items, effectiveness checks and linked NCRs',
+      params: CAPAIdParams,
+      response: {
+        200: CAPAResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const capa = await capaRepository.findById(id);
+
+      if (!capa) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `CAPA with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(capa);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve CAPA'
+      });
+    }
+  });
+
+  // POST /capas - Create CAPA
+  fastify.post('/capas', {
+    schema: {
+      tags: ['CAPA'],
+      summary: 'Create CAPA',
+      description: 'Create a CAPA with auto-generated CAPA number. The CAPA number is added to the references of each NCR given in ncrIds.',
+      body: CreateCAPASchema,
+      response: {
+        201: CAPAResponseSchema,
+        400: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Body: {
+      type: CAPAType;
+      title: string;
+      description: string;
+      rootCause?: string;
+      ownerId: string;
+      ownerName: string;
+      dueDate: string;
+      ncrIds?: string[];
+    };
+  }>, reply: FastifyReply) => {
+    try {
+      const capa = await capaRepository.createWithCAPANumber({
+        ...request.body,
+        dueDate: new Date(request.body.dueDate),
+      });
+      return reply.code(201).send(capa);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('not found')) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to create CAPA'
+      });
+    }
+  });
+
+  // PUT /capas/:id - Update CAPA
+  fastify.put('/capas/:id', {
+    schema: {
+      tags: ['CAPA'],
+      summary: 'Update CAPA',
+      description: 'Update the details, owner or due date of a CAPA that is not closed',
+      params: CAPAIdParams,
+      body: UpdateCAPASchema,
+      response: {
+        200: CAPAResponseSchema,
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: {
+      title?: string;
+      description?: string;
+      rootCause?: string;
+      ownerId?: string;
+      ownerName?: string;
+      dueDate?: string;
+    };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { dueDate, ...updateData } = request.body;
+
+      const capa = await capaRepository.updateCAPA(id, {
+        ...updateData,
+        ...(dueDate && { dueDate: new Date(dueDate) }),
+      });
+
+      if (!capa) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `CAPA with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(capa);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('is closed')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to update CAPA'
+      });
+    }
+  });
+
+  // PUT /capas/:id/status - Transition CAPA status
+  fastify.put('/capas/:id/status', {
+    schema: {
+      tags: ['CAPA'],
+      summary: 'Update CAPA status',
+      description: 'Move a CAPA through OPEN → IN_PROGRESS → EFFECTIVENESS_CHECK → PENDING_APPROVAL → CLOSED. Action items must be complete before the effectiveness check, the latest check must be effective before approval, and closure must be approved by someone other than the owner.',
+      params: CAPAIdParams,
+      body: StatusTransitionSchema,
+      response: {
+        200: CAPAResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: {
+      status: CAPAStatus;
+      rootCause?: string;
+      approvedBy?: string;
+      approvedByName?: string;
+      approvalNotes?: string;
+    };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { status, ...transitionData } = request.body;
+
+      const { capa } = await capaRepository.updateStatus(id, status, transitionData);
+      return reply.code(200).send(capa);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('not found')) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('Invalid status transition')) {
+        return reply.code(400).send({
+          error: 'Invalid Transition',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('Transition requirements not met')) {
+        return reply.code(400).send({
+          error: 'Validation Error',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to update CAPA status'
+      });
+    }
+  });
+
+  // POST /capas/:id/ncrs - Link an NCR
+  fastify.post('/capas/:id/ncrs', {
+    schema: {
+      tags: ['CAPA'],
+      summary: 'Link NCR to CAPA',
+      description: 'Add the CAPA number to the references of a non-conformance report',
+      params: CAPAIdParams,
+      body: LinkNCRSchema,
+      response: {
+        200: CAPAResponseSchema,
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: { ncrId: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const capa = await capaRepository.linkNCR(id, request.body.ncrId);
+
+      if (!capa) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `CAPA with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(capa);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('not found')) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('is closed')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to link NCR'
+      });
+    }
+  });
+
+  // DELETE /capas/:id/ncrs/:ncrId - Unlink an NCR
+  fastify.delete('/capas/:id/ncrs/:ncrId', {
+    schema: {
+      tags: ['CAPA'],
+      summary: 'Unlink NCR from CAPA',
+      description: 'Remove the CAPA number from the references of a non-conformance report',
+      params: CAPANCRParams,
+      response: {
+        200: CAPAResponseSchema,
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string; ncrId: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id, ncrId } = request.params;
+      const capa = await capaRepository.unlinkNCR(id, ncrId);
+
+      if (!capa) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `CAPA with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(capa);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('not linked')) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('is closed')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to unlink NCR'
+      });
+    }
+  });
+
+  // POST /capas/:id/action-items - Add an action item
+  fastify.post('/capas/:id/action-items', {
+    schema: {
+      tags: ['CAPA'],
+      summary: 'Add CAPA action item',
+      description: 'Add an action item with its own assignee and due date',
+      params: CAPAIdParams,
+      body: CreateActionItemSchema,
+      response: {
+        201: ActionItemResponseSchema,
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: {
+      description: string;
+      assignedTo?: string;
+      assignedToName?: string;
+      dueDate: string;
+    };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const item = await capaRepository.addActionItem(id, {
+        ...request.body,
+        dueDate: new Date(request.body.dueDate),
+      });
+
+      if (!item) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `CAPA with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(201).send(item);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('is closed')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to add action item'
+      });
+    }
+  });
+
+  // PUT /capas/:id/action-items/:itemId - Update an action item
+  fastify.put('/capas/:id/action-items/:itemId', {
+    schema: {
+      tags: ['CAPA'],
+      summary: 'Update CAPA action item',
+      description: 'Update or complete an action item. Completion notes are required to complete an item.',
+      params: ActionItemParams,
+      body: UpdateActionItemSchema,
+      response: {
+        200: ActionItemResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string; itemId: string };
+    Body: {
+      description?: string;
+      assignedTo?: string;
+      assignedToName?: string;
+      dueDate?: string;
+      status?: ActionItemStatus;
+      completionNotes?: string;
+    };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id, itemId } = request.params;
+      const { dueDate, ...updateData } = request.body;
+
+      const item = await capaRepository.updateActionItem(id, itemId, {
+        ...updateData,
+        ...(dueDate && { dueDate: new Date(dueDate) }),
+      });
+
+      if (!item) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `CAPA with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(item);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('not found')) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('Validation failed')) {
+        return reply.code(400).send({
+          error: 'Validation Error',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('is closed')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to update action item'
+      });
+    }
+  });
+
+  // POST /capas/:id/effectiveness-checks - Plan an effectiveness check
+  fastify.post('/capas/:id/effectiveness-checks', {
+    schema: {
+      tags: ['CAPA'],
+      summary: 'Plan CAPA effectiveness check',
+      description: 'Schedule a check that the CAPA actions prevented recurrence',
+      params: CAPAIdParams,
+      body: PlanEffectivenessCheckSchema,
+      response: {
+        201: EffectivenessCheckResponseSchema,
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: { plannedDate: string; criteria?: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const check = await capaRepository.planEffectivenessCheck(id, {
+        plannedDate: new Date(request.body.plannedDate),
+        criteria: request.body.criteria,
+      });
+
+      if (!check) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `CAPA with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(201).send(check);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('is closed')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to plan effectiveness check'
+      });
+    }
+  });
+
+  // PUT /capas/:id/effectiveness-checks/:checkId - Record an effectiveness check result
+  fastify.put('/capas/:id/effectiveness-checks/:checkId', {
+    schema: {
+      tags: ['CAPA'],
+      summary: 'Record CAPA effectiveness check',
+      description: 'Record whether the CAPA actions were effective. Only allowed while the CAPA is in EFFECTIVENESS_CHECK.',
+      params: EffectivenessCheckParams,
+      body: RecordEffectivenessResultSchema,
+      response: {
+        200: EffectivenessCheckResponseSchema,
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string; checkId: string };
+    Body: {
+      result: EffectivenessResult;
+      performedBy: string;
+      performedByName: string;
+      notes?: string;
+    };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id, checkId } = request.params;
+      const check = await capaRepository.recordEffectivenessResult(id, checkId, request.body);
+
+      if (!check) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `CAPA with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(check);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('not found')) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('is closed') || error.message.includes('Invalid status')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to record effectiveness check'
+      });
+    }
+  });
+}
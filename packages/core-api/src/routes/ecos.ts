@@ -0,0 +1,835 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { Type } from '@fastify/type-provider-typebox';
+import { ECORepository } from '../repositories/eco.repository';
+
+// Request/Response schemas using TypeBox for Fastify
+const ECOStatusSchema = Type.Union([
+  Type.Literal('DRAFT'),
+  Type.Literal('SUBMITTED'),
+  Type.Literal('APPROVED'),
+  Type.Literal('REJECTED'),
+  Type.Literal('APPLIED'),
+  Type.Literal('CANCELLED')
+]);
+
+// APPLIED is reached through POST /ecos/:id/apply
+const ECOTransitionStatusSchema = Type.Union([
+  Type.Literal('DRAFT'),
+  Type.Literal('SUBMITTED'),
+  Type.Literal('APPROVED'),
+  Type.Literal('REJECTED'),
+  Type.Literal('CANCELLED')
+]);
+
+const ECOChangeTypeSchema = Type.Union([
+  Type.Literal('BOM'),
+  Type.Literal('ROUTING')
+]);
+
+const ECOLineActionSchema = Type.Union([
+  Type.Literal('ADD'),
+  Type.Literal('UPDATE'),
+  Type.Literal('REMOVE')
+]);
+
+const BOMItemChangeSchema = Type.Object({
+  action: ECOLineActionSchema,
+  bomItemId: Type.Optional(Type.String({ format: 'uuid' })),
+  componentProductId: Type.Optional(Type.String({ format: 'uuid' })),
+  quantity: Type.Optional(Type.Number({ exclusiveMinimum: 0 })),
+  uom: Type.Optional(Type.String({ minLength: 1, maxLength: 20 })),
+  operationSequence: Type.Optional(Type.Integer({ minimum: 1 })),
+  wasteFactor: Type.Optional(Type.Number({ minimum: 0, maximum: 1 })),
+});
+
+const RoutingStepChangeSchema = Type.Object({
+  action: ECOLineActionSchema,
+  routingStepId: Type.Optional(Type.String({ format: 'uuid' })),
+  workCenterId: Type.Optional(Type.String({ format: 'uuid' })),
+  operationId: Type.Optional(Type.String({ minLength: 1, maxLength: 50 })),
+  name: Type.Optional(Type.String({ minLength: 1, maxLength: 100 })),
+  description: Type.Optional(Type.String()),
+  sequence: Type.Optional(Type.Integer({ minimum: 1 })),
+  setupTime: Type.Optional(Type.Integer({ minimum: 0 })),
+  runTime: Type.Optional(Type.Number({ minimum: 0 })),
+  teardownTime: Type.Optional(Type.Integer({ minimum: 0 })),
+});
+
+const ECOChangeResponseSchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  ecoId: Type.String({ format: 'uuid' }),
+  changeType: ECOChangeTypeSchema,
+  productId: Type.String({ format: 'uuid' }),
+  productSku: Type.Optional(Type.String()),
+  sourceBomId: Type.Optional(Type.String({ format: 'uuid' })),
+  sourceRoutingId: Type.Optional(Type.String({ format: 'uuid' })),
+  sourceVersion: Type.Optional(Type.String()),
+  newVersion: Type.String(),
+  newName: Type.Optional(Type.String()),
+  newDescription: Type.Optional(Type.String()),
+  makeDefault: Type.Boolean(),
+  itemChanges: Type.Optional(Type.Array(BOMItemChangeSchema)),
+  stepChanges: Type.Optional(Type.Array(RoutingStepChangeSchema)),
+  resultBomId: Type.Optional(Type.String({ format: 'uuid' })),
+  resultRoutingId: Type.Optional(Type.String({ format: 'uuid' })),
+  isActive: Type.Boolean(),
+  createdAt: Type.String({ format: 'date-time' }),
+  updatedAt: Type.String({ format: 'date-time' }),
+  version: Type.Integer(),
+});
+
+const ECOResponseSchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  ecoNumber: Type.String({ maxLength: 50 }),
+  status: ECOStatusSchema,
+  title: Type.String({ maxLength: 200 }),
+  description: Type.Optional(Type.String()),
+  reason: Type.Optional(Type.String()),
+  effectiveDate: Type.String({ format: 'date-time' }),
+  requestedBy: Type.String({ format: 'uuid' }),
+  requestedByName: Type.String({ maxLength: 100 }),
+  reviewedBy: Type.Optional(Type.String({ format: 'uuid' })),
+  reviewedByName: Type.Optional(Type.String({ maxLength: 100 })),
+  reviewedAt: Type.Optional(Type.String({ format: 'date-time' })),
+  reviewNotes: Type.Optional(Type.String()),
+  appliedBy: Type.Optional(Type.String({ format: 'uuid' })),
+  appliedByName: Type.Optional(Type.String({ maxLength: 100 })),
+  appliedAt: Type.Optional(Type.String({ format: 'date-time' })),
+  changes: Type.Optional(Type.Array(ECOChangeResponseSchema)),
+  isActive: Type.Boolean({ default: true }),
+  createdAt: Type.String({ format: 'date-time' }),
+  updatedAt: Type.String({ format: 'date-time' }),
+  version: Type.Integer({ minimum: 1 }),
+});
+
+const ECODiffLineSchema = Type.Object({
+  action: Type.Union([
+    Type.Literal('ADDED'),
+    Type.Literal('CHANGED'),
+    Type.Literal('REMOVED'),
+    Type.Literal('UNCHANGED')
+  ]),
+  sourceLineId: Type.Optional(Type.String({ format: 'uuid' })),
+  label: Type.String(),
+  before: Type.Optional(Type.Record(Type.String(), Type.Any())),
+  after: Type.Optional(Type.Record(Type.String(), Type.Any())),
+  changedFields: Type.Array(Type.String()),
+});
+
+const ECOChangeDiffSchema = Type.Object({
+  changeId: Type.String({ format: 'uuid' }),
+  changeType: ECOChangeTypeSchema,
+  productId: Type.String({ format: 'uuid' }),
+  productSku: Type.String(),
+  sourceId: Type.String({ format: 'uuid' }),
+  sourceVersion: Type.String(),
+  newVersion: Type.String(),
+  header: Type.Array(Type.Object({
+    field: Type.String(),
+    before: Type.Optional(Type.String()),
+    after: Type.Optional(Type.String()),
+  })),
+  lines: Type.Array(ECODiffLineSchema),
+});
+
+const ECOAffectedOrderSchema = Type.Object({
+  manufacturingOrderId: Type.String({ format: 'uuid' }),
+  orderNumber: Type.String(),
+  productId: Type.String({ format: 'uuid' }),
+  productSku: Type.String(),
+  status: Type.String(),
+  quantity: Type.Number(),
+  plannedStartDate: Type.String({ format: 'date-time' }),
+  bomId: Type.Optional(Type.String({ format: 'uuid' })),
+  routingId: Type.Optional(Type.String({ format: 'uuid' })),
+  impact: Type.Union([Type.Literal('DIRECT'), Type.Literal('WHERE_USED')]),
+  changeTypes: Type.Array(ECOChangeTypeSchema),
+  startsBeforeEffectiveDate: Type.Boolean(),
+});
+
+const CreateECOSchema = Type.Object({
+  title: Type.String({ minLength: 1, maxLength: 200 }),
+  description: Type.Optional(Type.String({ maxLength: 2000 })),
+  reason: Type.Optional(Type.String({ maxLength: 2000 })),
+  effectiveDate: Type.String({ format: 'date-time' }),
+  requestedBy: Type.String({ format: 'uuid' }),
+  requestedByName: Type.String({ minLength: 1, maxLength: 100 }),
+});
+
+const UpdateECOSchema = Type.Object({
+  title: Type.Optional(Type.String({ minLength: 1, maxLength: 200 })),
+  description: Type.Optional(Type.String({ maxLength: 2000 })),
+  reason: Type.Optional(Type.String({ maxLength: 2000 })),
+  effectiveDate: Type.Optional(Type.String({ format: 'date-time' })),
+});
+
+const StatusTransitionSchema = Type.Object({
+  status: ECOTransitionStatusSchema,
+  reviewedBy: Type.Optional(Type.String({ format: 'uuid' })),
+  reviewedByName: Type.Optional(Type.String({ maxLength: 100 })),
+  reviewNotes: Type.Optional(Type.String({ maxLength: 1000 })),
+});
+
+const CreateECOChangeSchema = Type.Object({
+  changeType: ECOChangeTypeSchema,
+  sourceId: Type.String({ format: 'uuid', description: 'Released BOM or routing being revised' }),
+  newVersion: Type.String({ minLength: 1, maxLength: 10 }),
+  newName: Type.Optional(Type.String({ minLength: 1, maxLength: 100 })),
+  newDescription: Type.Optional(Type.String()),
+  makeDefault: Type.Optional(Type.Boolean({ default: true })),
+  itemChanges: Type.Optional(Type.Array(BOMItemChangeSchema)),
+  stepChanges: Type.Optional(Type.Array(RoutingStepChangeSchema)),
+});
+
+const UpdateECOChangeSchema = Type.Object({
+  newVersion: Type.Optional(Type.String({ minLength: 1, maxLength: 10 })),
+  newName: Type.Optional(Type.String({ minLength: 1, maxLength: 100 })),
+  newDescription: Type.Optional(Type.String()),
+  makeDefault: Type.Optional(Type.Boolean()),
+  itemChanges: Type.Optional(Type.Array(BOMItemChangeSchema)),
+  stepChanges: Type.Optional(Type.Array(RoutingStepChangeSchema)),
+});
+
+const ApplyECOSchema = Type.Object({
+  appliedBy: Type.String({ format: 'uuid' }),
+  appliedByName: Type.String({ minLength: 1, maxLength: 100 }),
+});
+
+const ECOIdParams = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+});
+
+const ECOChangeParams = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  changeId: Type.String({ format: 'uuid' }),
+});
+
+const PaginationQuerySchema = Type.Object({
+  page: Type.Optional(Type.Integer({ minimum: 1, default: 1 })),
+  limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: 50 })),
+  sortBy: Type.Optional(Type.String({ default: 'created_at' })),
+  sortOrder: Type.Optional(Type.Union([Type.Literal('ASC'), Type.Literal('DESC')], { default: 'DESC' })),
+  status: Type.Optional(ECOStatusSchema),
+  productId: Type.Optional(Type.String({ format: 'uuid' })),
+});
+
+const PaginatedECOResponseSchema = Type.Object({
+  data: Type.Array(ECOResponseSchema),
+  pagination: Type.Object({
+    page: Type.Integer(),
+    limit: Type.Integer(),
+    total: Type.Integer(),
+    totalPages: Type.Integer(),
+    hasNext: Type.Boolean(),
+    hasPrev: Type.Boolean(),
+  }),
+});
+
+const ErrorResponseSchema = Type.Object({
+  error: Type.String(),
+  message: Type.String(),
+});
+
+type ECOStatus = 'DRAFT' | 'SUBMITTED' | 'APPROVED' | 'REJECTED' | 'APPLIED' | 'CANCELLED';
+type ECOTransitionStatus = Exclude<ECOStatus, 'APPLIED'>;
+type ECOChangeType = 'BOM' | 'ROUTING';
+type ECOLineAction = 'ADD' | 'UPDATE' | 'REMOVE';
+
+interface BOMItemChangeBody {
+  action: ECOLineAction;
+  bomItemId?: string;
+  componentProductId?: string;
+  quantity?: number;
+  uom?: string;
+  operationSequence?: number;
+  wasteFactor?: number;
+}
+
+interface RoutingStepChangeBody {
+  action: ECOLineAction;
+  routingStepId?: string;
+  workCenterId?: string;
+  operationId?: string;
+  name?: string;
+  description?: string;
+  sequence?: number;
+  setupTime?: number;
+  runTime?: number;
+  teardownTime?: number;
+}
+
+/**
+ * Engineering change order (ECO) API routes
+ */
+export default async function ecoRoutes(fastify: FastifyInstance) {
+  const ecoRepository = new ECORepository(fastify.pg.pool);
+
+  // GET /ecos - List ECOs with filtering
+  fastify.get('/ecos', {
+    schema: {
+      tags: ['ECOs'],
+      summary: 'List ECOs',
+      description: 'Retrieve a paginated list of engineering change orders, optionally filtered by status or by a product they revise',
+      querystring: PaginationQuerySchema,
+      response: {
+        200: PaginatedECOResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Querystring: {
+      page?: number;
+      limit?: number;
+      sortBy?: string;
+      sortOrder?: 'ASC' | 'DESC';
+      status?: ECOStatus;
+      productId?: string;
+    };
+  }>, reply: FastifyReply) => {
+    try {
+      const { page, limit, sortBy, sortOrder, ...filters } = request.query;
+
+      const result = await ecoRepository.findWithFilters(
+        { page, limit, sortBy, sortOrder },
+        filters
+      );
+
+      return reply.code(200).send(result);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve ECOs'
+      });
+    }
+  });
+
+  // GET /ecos/:id - Get ECO by ID
+  fastify.get('/ecos/:id', {
+    schema: {
+      tags: ['ECOs'],
+      summary: 'Get ECO by ID',
+      description: 'Retrieve an ECO with its proposed BOM and routing changes',
+      params: ECOIdParams,
+      response: {
+        200: ECOResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const eco = await ecoRepository.findById(id);
+
+      if (!eco) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `ECO with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(eco);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve ECO'
+      });
+    }
+  });
+
+  // POST /ecos - Create ECO
+  fastify.post('/ecos', {
+    schema: {
+      tags: ['ECOs'],
+      summary: 'Create ECO',
+      description: 'Create a draft ECO with auto-generated ECO number. New BOM versions created by the ECO take effect on its effective date.',
+      body: CreateECOSchema,
+      response: {
+        201: ECOResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Body: {
+      title: string;
+      description?: string;
+      reason?: string;
+      effectiveDate: string;
+      requestedBy: string;
+      requestedByName: string;
+    };
+  }>, reply: FastifyReply) => {
+    try {
+      const eco = await ecoRepository.createWithECONumber({
+        ...request.body,
+        effectiveDate: new Date(request.body.effectiveDate),
+      });
+      return reply.code(201).send(eco);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to create ECO'
+      });
+    }
+  });
+
+  // PUT /ecos/:id - Update ECO
+  fastify.put('/ecos/:id', {
+    schema: {
+      tags: ['ECOs'],
+      summary: 'Update ECO',
+      description: 'Update the details or effective date of a draft ECO',
+      params: ECOIdParams,
+      body: UpdateECOSchema,
+      response: {
+        200: ECOResponseSchema,
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: {
+      title?: string;
+      description?: string;
+      reason?: string;
+      effectiveDate?: string;
+    };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { effectiveDate, ...updateData } = request.body;
+
+      const eco = await ecoRepository.updateECO(id, {
+        ...updateData,
+        ...(effectiveDate && { effectiveDate: new Date(effectiveDate) }),
+      });
+
+      if (!eco) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `ECO with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(eco);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('cannot be modified')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to update ECO'
+      });
+    }
+  });
+
+  // PUT /ecos/:id/status - Transition ECO status
+  fastify.put('/ecos/:id/status', {
+    schema: {
+      tags: ['ECOs'],
+      summary: 'Update ECO status',
+      description: 'Move an ECO through DRAFT → SUBMITTED → APPROVED or REJECTED. Submission validates every change against the current BOMs and routings. Approval and rejection need a reviewer other than the requester; rejection also needs review notes. Submitted ECOs can be returned to DRAFT, and unapplied ones cancelled.',
+      params: ECOIdParams,
+      body: StatusTransitionSchema,
+      response: {
+        200: ECOResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: {
+      status: ECOTransitionStatus;
+      reviewedBy?: string;
+      reviewedByName?: string;
+      reviewNotes?: string;
+    };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { status, ...transitionData } = request.body;
+
+      const { eco } = await ecoRepository.updateStatus(id, status, transitionData);
+      return reply.code(200).send(eco);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('not found')) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('Invalid status transition')) {
+        return reply.code(400).send({
+          error: 'Invalid Transition',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('Transition requirements not met') || error.message.includes('Validation failed') ||
+          error.message.includes('does not exist') || error.message.includes('Circular reference')) {
+        return reply.code(400).send({
+          error: 'Validation Error',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('is stale')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to update ECO status'
+      });
+    }
+  });
+
+  // POST /ecos/:id/changes - Add a BOM or routing revision
+  fastify.post('/ecos/:id/changes', {
+    schema: {
+      tags: ['ECOs'],
+      summary: 'Add ECO change',
+      description: 'Propose a new version of a released BOM (itemChanges) or of a routing (stepChanges). UPDATE and REMOVE reference an item or step of the source; ADD supplies a new one. Each BOM or routing is revised at most once per ECO.',
+      params: ECOIdParams,
+      body: CreateECOChangeSchema,
+      response: {
+        201: ECOChangeResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: {
+      changeType: ECOChangeType;
+      sourceId: string;
+      newVersion: string;
+      newName?: string;
+      newDescription?: string;
+      makeDefault?: boolean;
+      itemChanges?: BOMItemChangeBody[];
+      stepChanges?: RoutingStepChangeBody[];
+    };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const change = await ecoRepository.addChange(id, request.body);
+
+      if (!change) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `ECO with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(201).send(change);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('does not exist') || error.message.includes('Validation failed') ||
+          error.message.includes('Circular reference')) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('cannot be modified') || error.message.includes('already exists')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to add ECO change'
+      });
+    }
+  });
+
+  // PUT /ecos/:id/changes/:changeId - Update a revision
+  fastify.put('/ecos/:id/changes/:changeId', {
+    schema: {
+      tags: ['ECOs'],
+      summary: 'Update ECO change',
+      description: 'Update a change on a draft ECO. Item or step changes, when given, replace the existing list.',
+      params: ECOChangeParams,
+      body: UpdateECOChangeSchema,
+      response: {
+        200: ECOChangeResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string; changeId: string };
+    Body: {
+      newVersion?: string;
+      newName?: string;
+      newDescription?: string;
+      makeDefault?: boolean;
+      itemChanges?: BOMItemChangeBody[];
+      stepChanges?: RoutingStepChangeBody[];
+    };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id, changeId } = request.params;
+      const change = await ecoRepository.updateChange(id, changeId, request.body);
+
+      if (!change) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `ECO with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(change);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('not found')) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('does not exist') || error.message.includes('Validation failed') ||
+          error.message.includes('Circular reference')) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('cannot be modified') || error.message.includes('already exists') ||
+          error.message.includes('is stale')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to update ECO change'
+      });
+    }
+  });
+
+  // DELETE /ecos/:id/changes/:changeId - Remove a revision
+  fastify.delete('/ecos/:id/changes/:changeId', {
+    schema: {
+      tags: ['ECOs'],
+      summary: 'Remove ECO change',
+      description: 'Remove a change from a draft ECO',
+      params: ECOChangeParams,
+      response: {
+        204: Type.Null(),
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string; changeId: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id, changeId } = request.params;
+      const removed = await ecoRepository.removeChange(id, changeId);
+
+      if (!removed) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `ECO with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(204).send();
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('not found')) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('cannot be modified')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to remove ECO change'
+      });
+    }
+  });
+
+  // GET /ecos/:id/diff - Compare proposals with their sources
+  fastify.get('/ecos/:id/diff', {
+    schema: {
+      tags: ['ECOs'],
+      summary: 'Get ECO diff',
+      description: 'Compare each proposed BOM or routing version with its source, item by item or step by step',
+      params: ECOIdParams,
+      response: {
+        200: Type.Array(ECOChangeDiffSchema),
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const diff = await ecoRepository.getDiff(id);
+
+      if (!diff) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `ECO with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(diff);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('Validation failed')) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('is stale')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to compute ECO diff'
+      });
+    }
+  });
+
+  // GET /ecos/:id/affected-orders - Open orders touched by the ECO
+  fastify.get('/ecos/:id/affected-orders', {
+    schema: {
+      tags: ['ECOs'],
+      summary: 'List orders affected by ECO',
+      description: 'List open manufacturing orders for the revised products (DIRECT) and for products whose structure contains a revised BOM\'s product (WHERE_USED), so planners can decide whether to re-explode them',
+      params: ECOIdParams,
+      response: {
+        200: Type.Array(ECOAffectedOrderSchema),
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const orders = await ecoRepository.findAffectedOrders(id);
+
+      if (!orders) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `ECO with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(orders);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve affected orders'
+      });
+    }
+  });
+
+  // POST /ecos/:id/apply - Create the new versions
+  fastify.post('/ecos/:id/apply', {
+    schema: {
+      tags: ['ECOs'],
+      summary: 'Apply ECO',
+      description: 'Create every proposed BOM and routing version in one transaction. New BOMs are released effective from the ECO effective date, when their source BOM stops being effective, and keep the source\'s outputs and cost allocation method. Routings are not dated, so new routings take effect (and become default if requested) as soon as the ECO is applied; an ECO that changes the default routing cannot be applied before its effective date. Routings revised by an open ECO cannot be edited directly.',
+      params: ECOIdParams,
+      body: ApplyECOSchema,
+      response: {
+        200: ECOResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: { appliedBy: string; appliedByName: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const eco = await ecoRepository.apply(id, request.body);
+      return reply.code(200).send(eco);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('not found')) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('Validation failed')) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('cannot be applied') || error.message.includes('already exists') ||
+          error.message.includes('is stale')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to apply ECO'
+      });
+    }
+  });
+}
@@ -0,0 +1,666 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { Type } from '@fastify/type-provider-typebox';
+import { LicensePlateRepository } from '../repositories/licensePlate.repository';
+
+// Request/Response schemas using TypeBox for Fastify
+const LicensePlateTypeSchema = Type.Union([
+  Type.Literal('PALLET'),
+  Type.Literal('CASE'),
+  Type.Literal('TOTE'),
+  Type.Literal('CONTAINER')
+]);
+
+const LicensePlateProperties = {
+  id: Type.String({ format: 'uuid' }),
+  lpNumber: Type.String(),
+  lpType: LicensePlateTypeSchema,
+  parentLicensePlateId: Type.Optional(Type.String({ format: 'uuid' })),
+  parentLpNumber: Type.Optional(Type.String()),
+  locationId: Type.Optional(Type.String({ format: 'uuid' })),
+  locationCode: Type.Optional(Type.String()),
+  binId: Type.Optional(Type.String({ format: 'uuid' })),
+  binCode: Type.Optional(Type.String()),
+  isActive: Type.Boolean(),
+  createdAt: Type.String({ format: 'date-time' }),
+  updatedAt: Type.String({ format: 'date-time' }),
+  version: Type.Integer(),
+};
+
+const LicensePlateResponseSchema = Type.Object(LicensePlateProperties);
+
+const LicensePlateTreeResponseSchema = Type.Recursive(This => Type.Object({
+  ...LicensePlateProperties,
+  contents: Type.Array(Type.Object({
+    id: Type.String({ format: 'uuid' }),
+    licensePlateId: Type.String({ format: 'uuid' }),
+    productId: Type.String({ format: 'uuid' }),
+    sku: Type.String(),
+    lotId: Type.Optional(Type.String({ format: 'uuid' })),
+    lotNumber: Type.Optional(Type.String()),
+    serialNumberId: Type.Optional(Type.String({ format: 'uuid' })),
+    serialNumber: Type.Optional(Type.String()),
+    quantity: Type.Number(),
+    uom: Type.String(),
+  })),
+  children: Type.Array(This),
+  totals: Type.Array(Type.Object({
+    productId: Type.String({ format: 'uuid' }),
+    sku: Type.String(),
+    uom: Type.String(),
+    quantity: Type.Number(),
+  })),
+}));
+
+const LicensePlateEventResponseSchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  licensePlateId: Type.String({ format: 'uuid' }),
+  eventType: Type.Union([
+    Type.Literal('CREATED'),
+    Type.Literal('PACKED'),
+    Type.Literal('UNPACKED'),
+    Type.Literal('MOVED'),
+    Type.Literal('NESTED'),
+    Type.Literal('UNNESTED'),
+    Type.Literal('SPLIT'),
+    Type.Literal('MERGED')
+  ]),
+  lotId: Type.Optional(Type.String({ format: 'uuid' })),
+  serialNumberId: Type.Optional(Type.String({ format: 'uuid' })),
+  quantity: Type.Optional(Type.Number()),
+  uom: Type.Optional(Type.String()),
+  relatedLicensePlateId: Type.Optional(Type.String({ format: 'uuid' })),
+  fromLocationId: Type.Optional(Type.String({ format: 'uuid' })),
+  fromBinId: Type.Optional(Type.String({ format: 'uuid' })),
+  toLocationId: Type.Optional(Type.String({ format: 'uuid' })),
+  toBinId: Type.Optional(Type.String({ format: 'uuid' })),
+  performedBy: Type.Optional(Type.String({ format: 'uuid' })),
+  createdAt: Type.String({ format: 'date-time' }),
+});
+
+const PaginatedLicensePlateResponseSchema = Type.Object({
+  data: Type.Array(LicensePlateResponseSchema),
+  pagination: Type.Object({
+    page: Type.Integer(),
+    limit: Type.Integer(),
+    total: Type.Integer(),
+    totalPages: Type.Integer(),
+    hasNext: Type.Boolean(),
+    hasPrev: Type.Boolean(),
+  }),
+});
+
+const CreateLicensePlateSchema = Type.Object({
+  lpNumber: Type.Optional(Type.String({ minLength: 1, maxLength: 50, description: 'Generated as LP-YYYY-NNNNNN when not given' })),
+  lpType: Type.Optional(LicensePlateTypeSchema),
+  parentLicensePlateId: Type.Optional(Type.String({ format: 'uuid' })),
+  locationId: Type.Optional(Type.String({ format: 'uuid' })),
+  binId: Type.Optional(Type.String({ format: 'uuid' })),
+  createdBy: Type.Optional(Type.String({ format: 'uuid' })),
+});
+
+const ContentProperties = {
+  lotId: Type.Optional(Type.String({ format: 'uuid' })),
+  serialNumberId: Type.Optional(Type.String({ format: 'uuid' })),
+  quantity: Type.Optional(Type.Number({ exclusiveMinimum: 0, description: 'Lot quantity, in uom or the lot\'s unit' })),
+  uom: Type.Optional(Type.String({ maxLength: 20 })),
+};
+
+const PackSchema = Type.Object({
+  ...ContentProperties,
+  packedBy: Type.Optional(Type.String({ format: 'uuid' })),
+});
+
+const UnpackSchema = Type.Object({
+  ...ContentProperties,
+  unpackedBy: Type.Optional(Type.String({ format: 'uuid' })),
+});
+
+const MoveLicensePlateSchema = Type.Object({
+  locationId: Type.Optional(Type.String({ format: 'uuid' })),
+  binId: Type.Optional(Type.String({ format: 'uuid' })),
+  movedBy: Type.Optional(Type.String({ format: 'uuid' })),
+});
+
+const NestLicensePlateSchema = Type.Object({
+  parentLicensePlateId: Type.String({ format: 'uuid' }),
+  performedBy: Type.Optional(Type.String({ format: 'uuid' })),
+});
+
+const UnnestLicensePlateSchema = Type.Object({
+  performedBy: Type.Optional(Type.String({ format: 'uuid' })),
+});
+
+const SplitLicensePlateSchema = Type.Object({
+  lpNumber: Type.Optional(Type.String({ minLength: 1, maxLength: 50 })),
+  lpType: Type.Optional(LicensePlateTypeSchema),
+  contents: Type.Array(Type.Object(ContentProperties), { minItems: 1 }),
+  performedBy: Type.Optional(Type.String({ format: 'uuid' })),
+});
+
+const MergeLicensePlateSchema = Type.Object({
+  sourceLicensePlateId: Type.String({ format: 'uuid' }),
+  performedBy: Type.Optional(Type.String({ format: 'uuid' })),
+});
+
+const LicensePlateIdParams = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+});
+
+const LicensePlateQuerySchema = Type.Object({
+  page: Type.Optional(Type.Integer({ minimum: 1, default: 1 })),
+  limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 200, default: 50 })),
+  sortBy: Type.Optional(Type.Union([
+    Type.Literal('lpNumber'),
+    Type.Literal('lpType'),
+    Type.Literal('createdAt')
+  ])),
+  sortOrder: Type.Optional(Type.Union([Type.Literal('ASC'), Type.Literal('DESC')], { default: 'DESC' })),
+  lpNumber: Type.Optional(Type.String({ minLength: 1, maxLength: 50 })),
+  lpType: Type.Optional(LicensePlateTypeSchema),
+  locationId: Type.Optional(Type.String({ format: 'uuid' })),
+  binId: Type.Optional(Type.String({ format: 'uuid' })),
+  parentLicensePlateId: Type.Optional(Type.String({ format: 'uuid' })),
+  topLevel: Type.Optional(Type.Boolean({ description: 'Only plates not nested in another' })),
+});
+
+const LookupQuerySchema = Type.Object({
+  lpNumber: Type.String({ minLength: 1, maxLength: 50 }),
+});
+
+const ErrorResponseSchema = Type.Object({
+  error: Type.String(),
+  message: Type.String(),
+});
+
+type LicensePlateType = 'PALLET' | 'CASE' | 'TOTE' | 'CONTAINER';
+
+interface ContentBody {
+  lotId?: string;
+  serialNumberId?: string;
+  quantity?: number;
+  uom?: string;
+}
+
+/**
+ * License plate API routes
+ */
+export default async function licensePlateRoutes(fastify: FastifyInstance) {
+  const licensePlateRepository = new LicensePlateRepository(fastify.pg.pool);
+
+  /**
+   * Map repository errors to responses; unknown errors become a 500 with
+   * the given message
+   */
+  const sendError = (reply: FastifyReply, error: any, message: string) => {
+    fastify.log.error(error);
+
+    if (error.message.includes('does not exist') || error.message.includes('Validation failed')) {
+      return reply.code(400).send({
+        error: 'Bad Request',
+        message: error.message
+      });
+    }
+
+    if (error.message.includes('already exists')) {
+      return reply.code(409).send({
+        error: 'Conflict',
+        message: error.message
+      });
+    }
+
+    return reply.code(500).send({
+      error: 'Internal Server Error',
+      message
+    });
+  };
+
+  const sendNotFound = (reply: FastifyReply, id: string) => reply.code(404).send({
+    error: 'Not Found',
+    message: `License plate with ID '${id}' not found`
+  });
+
+  // GET /inventory/license-plates - List license plates
+  fastify.get('/inventory/license-plates', {
+    schema: {
+      tags: ['License Plates'],
+      summary: 'List license plates',
+      description: 'Retrieve a paginated list of license plates, optionally by number (partial match), type, place or parent plate, or only those not nested in another',
+      querystring: LicensePlateQuerySchema,
+      response: {
+        200: PaginatedLicensePlateResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Querystring: {
+      page?: number;
+      limit?: number;
+      sortBy?: string;
+      sortOrder?: 'ASC' | 'DESC';
+      lpNumber?: string;
+      lpType?: LicensePlateType;
+      locationId?: string;
+      binId?: string;
+      parentLicensePlateId?: string;
+      topLevel?: boolean;
+    };
+  }>, reply: FastifyReply) => {
+    try {
+      const { page, limit, sortBy, sortOrder, ...filters } = request.query;
+      const result = await licensePlateRepository.findLicensePlates({ page, limit, sortBy, sortOrder }, filters);
+      return reply.code(200).send(result);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve license plates'
+      });
+    }
+  });
+
+  // GET /inventory/license-plates/lookup - Find a plate by scanned number
+  fastify.get('/inventory/license-plates/lookup', {
+    schema: {
+      tags: ['License Plates'],
+      summary: 'Look up license plate',
+      description: 'Find a license plate by exact number, as read by a barcode scanner, with its contents, nested plates and product totals',
+      querystring: LookupQuerySchema,
+      response: {
+        200: LicensePlateTreeResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Querystring: { lpNumber: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { lpNumber } = request.query;
+      const plate = await licensePlateRepository.findByLpNumber(lpNumber);
+
+      if (!plate) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `License plate '${lpNumber}' not found`
+        });
+      }
+
+      return reply.code(200).send(plate);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to look up license plate'
+      });
+    }
+  });
+
+  // GET /inventory/license-plates/:id - Get license plate with contents
+  fastify.get('/inventory/license-plates/:id', {
+    schema: {
+      tags: ['License Plates'],
+      summary: 'Get license plate by ID',
+      description: 'Retrieve a license plate with its contents and nested plates. Each plate\'s totals cover the plates nested in it, per product in its stocking unit.',
+      params: LicensePlateIdParams,
+      response: {
+        200: LicensePlateTreeResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const plate = await licensePlateRepository.getTree(id);
+
+      if (!plate) {
+        return sendNotFound(reply, id);
+      }
+
+      return reply.code(200).send(plate);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve license plate'
+      });
+    }
+  });
+
+  // POST /inventory/license-plates - Create license plate
+  fastify.post('/inventory/license-plates', {
+    schema: {
+      tags: ['License Plates'],
+      summary: 'Create license plate',
+      description: 'Create an empty license plate at a location or bin, or nested in another plate, whose place it takes. A plate created without a place takes the place of the first lot or serial packed on it.',
+      body: CreateLicensePlateSchema,
+      response: {
+        201: LicensePlateResponseSchema,
+        400: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Body: {
+      lpNumber?: string;
+      lpType?: LicensePlateType;
+      parentLicensePlateId?: string;
+      locationId?: string;
+      binId?: string;
+      createdBy?: string;
+    };
+  }>, reply: FastifyReply) => {
+    try {
+      const plate = await licensePlateRepository.createLicensePlate(request.body);
+      return reply.code(201).send(plate);
+    } catch (error: any) {
+      return sendError(reply, error, 'Failed to create license plate');
+    }
+  });
+
+  // DELETE /inventory/license-plates/:id - Delete license plate
+  fastify.delete('/inventory/license-plates/:id', {
+    schema: {
+      tags: ['License Plates'],
+      summary: 'Delete license plate',
+      description: 'Soft delete an empty license plate with no plates nested in it. Its history is kept.',
+      params: LicensePlateIdParams,
+      response: {
+        204: Type.Null(),
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+
+      // Check if license plate can be deleted
+      const canDeleteResult = await licensePlateRepository.canDelete(id);
+      if (!canDeleteResult.canDelete) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: canDeleteResult.reason || 'Cannot delete license plate'
+        });
+      }
+
+      const deleted = await licensePlateRepository.delete(id);
+
+      if (!deleted) {
+        return sendNotFound(reply, id);
+      }
+
+      return reply.code(204).send();
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to delete license plate'
+      });
+    }
+  });
+
+  // POST /inventory/license-plates/:id/pack - Pack a lot quantity or serial
+  fastify.post('/inventory/license-plates/:id/pack', {
+    schema: {
+      tags: ['License Plates'],
+      summary: 'Pack license plate',
+      description: 'Pack a quantity of a lot, or a serial, on a license plate. It must be at the plate\'s place. Lot quantity must be loose, not already on a plate; a serial must be available or allocated, outside a lot and not on another plate.',
+      params: LicensePlateIdParams,
+      body: PackSchema,
+      response: {
+        200: LicensePlateTreeResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: ContentBody & { packedBy?: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { packedBy, ...content } = request.body;
+      const plate = await licensePlateRepository.pack(id, content, { packedBy });
+
+      if (!plate) {
+        return sendNotFound(reply, id);
+      }
+
+      return reply.code(200).send(plate);
+    } catch (error: any) {
+      return sendError(reply, error, 'Failed to pack license plate');
+    }
+  });
+
+  // POST /inventory/license-plates/:id/unpack - Unpack a lot quantity or serial
+  fastify.post('/inventory/license-plates/:id/unpack', {
+    schema: {
+      tags: ['License Plates'],
+      summary: 'Unpack license plate',
+      description: 'Take a quantity of a lot, by default all of it, or a serial off a license plate, leaving it loose at the plate\'s place. Lot quantity can only be left loose where the rest of the lot is.',
+      params: LicensePlateIdParams,
+      body: UnpackSchema,
+      response: {
+        200: LicensePlateTreeResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: ContentBody & { unpackedBy?: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { unpackedBy, ...content } = request.body;
+      const plate = await licensePlateRepository.unpack(id, content, { unpackedBy });
+
+      if (!plate) {
+        return sendNotFound(reply, id);
+      }
+
+      return reply.code(200).send(plate);
+    } catch (error: any) {
+      return sendError(reply, error, 'Failed to unpack license plate');
+    }
+  });
+
+  // POST /inventory/license-plates/:id/move - Move a license plate
+  fastify.post('/inventory/license-plates/:id/move', {
+    schema: {
+      tags: ['License Plates'],
+      summary: 'Move license plate',
+      description: 'Move a license plate that is not nested, with everything on it and nested in it, to a location or bin. A bin implies its location and must have room for the whole plate. Each lot on the plate gets a TRANSFER on its ledger.',
+      params: LicensePlateIdParams,
+      body: MoveLicensePlateSchema,
+      response: {
+        200: LicensePlateTreeResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: { locationId?: string; binId?: string; movedBy?: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { locationId, binId, movedBy } = request.body;
+      const plate = await licensePlateRepository.move(id, { locationId, binId }, { movedBy });
+
+      if (!plate) {
+        return sendNotFound(reply, id);
+      }
+
+      return reply.code(200).send(plate);
+    } catch (error: any) {
+      return sendError(reply, error, 'Failed to move license plate');
+    }
+  });
+
+  // POST /inventory/license-plates/:id/nest - Nest in another plate
+  fastify.post('/inventory/license-plates/:id/nest', {
+    schema: {
+      tags: ['License Plates'],
+      summary: 'Nest license plate',
+      description: 'Put a license plate that is not nested inside another plate at the same place, such as a case on a pallet',
+      params: LicensePlateIdParams,
+      body: NestLicensePlateSchema,
+      response: {
+        200: LicensePlateTreeResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: { parentLicensePlateId: string; performedBy?: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { parentLicensePlateId, performedBy } = request.body;
+      const plate = await licensePlateRepository.nest(id, parentLicensePlateId, { performedBy });
+
+      if (!plate) {
+        return sendNotFound(reply, id);
+      }
+
+      return reply.code(200).send(plate);
+    } catch (error: any) {
+      return sendError(reply, error, 'Failed to nest license plate');
+    }
+  });
+
+  // POST /inventory/license-plates/:id/unnest - Take out of parent plate
+  fastify.post('/inventory/license-plates/:id/unnest', {
+    schema: {
+      tags: ['License Plates'],
+      summary: 'Unnest license plate',
+      description: 'Take a nested license plate out of its parent, leaving it at the same place',
+      params: LicensePlateIdParams,
+      body: UnnestLicensePlateSchema,
+      response: {
+        200: LicensePlateTreeResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: { performedBy?: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const plate = await licensePlateRepository.unnest(id, request.body);
+
+      if (!plate) {
+        return sendNotFound(reply, id);
+      }
+
+      return reply.code(200).send(plate);
+    } catch (error: any) {
+      return sendError(reply, error, 'Failed to unnest license plate');
+    }
+  });
+
+  // POST /inventory/license-plates/:id/split - Split contents onto a new plate
+  fastify.post('/inventory/license-plates/:id/split', {
+    schema: {
+      tags: ['License Plates'],
+      summary: 'Split license plate',
+      description: 'Move lot quantities, by default all of each lot, and serials off a license plate onto a new plate at the same place and in the same parent. Returns the new plate.',
+      params: LicensePlateIdParams,
+      body: SplitLicensePlateSchema,
+      response: {
+        201: LicensePlateTreeResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: { lpNumber?: string; lpType?: LicensePlateType; contents: ContentBody[]; performedBy?: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const plate = await licensePlateRepository.split(id, request.body);
+
+      if (!plate) {
+        return sendNotFound(reply, id);
+      }
+
+      return reply.code(201).send(plate);
+    } catch (error: any) {
+      return sendError(reply, error, 'Failed to split license plate');
+    }
+  });
+
+  // POST /inventory/license-plates/:id/merge - Merge another plate into this one
+  fastify.post('/inventory/license-plates/:id/merge', {
+    schema: {
+      tags: ['License Plates'],
+      summary: 'Merge license plates',
+      description: 'Move the lot quantities, serials and nested plates of another license plate at the same place onto this one. The emptied plate is retired.',
+      params: LicensePlateIdParams,
+      body: MergeLicensePlateSchema,
+      response: {
+        200: LicensePlateTreeResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: { sourceLicensePlateId: string; performedBy?: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { sourceLicensePlateId, performedBy } = request.body;
+      const plate = await licensePlateRepository.merge(id, sourceLicensePlateId, { performedBy });
+
+      if (!plate) {
+        return sendNotFound(reply, id);
+      }
+
+      return reply.code(200).send(plate);
+    } catch (error: any) {
+      return sendError(reply, error, 'Failed to merge license plates');
+    }
+  });
+
+  // GET /inventory/license-plates/:id/history - License plate events
+  fastify.get('/inventory/license-plates/:id/history', {
+    schema: {
+      tags: ['License Plates'],
+      summary: 'Get license plate history',
+      description: 'Retrieve a license plate\'s packing, moves, nesting, splits and merges, oldest first',
+      params: LicensePlateIdParams,
+      response: {
+        200: Type.Array(LicensePlateEventResponseSchema),
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const history = await licensePlateRepository.getHistory(id);
+
+      if (!history) {
+        return sendNotFound(reply, id);
+      }
+
+      return reply.code(200).send(history);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve license plate history'
+      });
+    }
+  });
+}
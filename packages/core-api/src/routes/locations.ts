@@ -0,0 +1,761 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { Type } from '@fastify/type-provider-typebox';
+import { LocationRepository } from '../repositories/location.repository';
+
+// Request/Response schemas using TypeBox for Fastify
+const LocationTypeSchema = Type.Union([
+  Type.Literal('WAREHOUSE'),
+  Type.Literal('PRODUCTION'),
+  Type.Literal('SHIPPING'),
+  Type.Literal('RECEIVING'),
+  Type.Literal('QUALITY')
+]);
+
+const LocationResponseSchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  siteId: Type.String({ format: 'uuid' }),
+  name: Type.String({ maxLength: 100 }),
+  code: Type.String({ maxLength: 20 }),
+  type: LocationTypeSchema,
+  parentLocationId: Type.Optional(Type.String({ format: 'uuid' })),
+  isActive: Type.Boolean(),
+  createdAt: Type.String({ format: 'date-time' }),
+  updatedAt: Type.String({ format: 'date-time' }),
+  version: Type.Integer(),
+});
+
+const BinResponseSchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  locationId: Type.String({ format: 'uuid' }),
+  name: Type.String({ maxLength: 50 }),
+  code: Type.String({ maxLength: 20 }),
+  capacity: Type.Optional(Type.Number()),
+  capacityUom: Type.Optional(Type.String()),
+  isActive: Type.Boolean(),
+  createdAt: Type.String({ format: 'date-time' }),
+  updatedAt: Type.String({ format: 'date-time' }),
+  version: Type.Integer(),
+});
+
+const BinSummarySchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  code: Type.String(),
+  name: Type.String(),
+  capacity: Type.Optional(Type.Number()),
+  capacityUom: Type.Optional(Type.String()),
+});
+
+const LocationTreeNodeSchema = Type.Recursive(This => Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  code: Type.String(),
+  name: Type.String(),
+  type: LocationTypeSchema,
+  parentLocationId: Type.Optional(Type.String({ format: 'uuid' })),
+  level: Type.Integer({ minimum: 0 }),
+  path: Type.String(),
+  bins: Type.Array(BinSummarySchema),
+  children: Type.Array(This),
+}));
+
+const BinCapacityResponseSchema = Type.Object({
+  binId: Type.String({ format: 'uuid' }),
+  binCode: Type.String(),
+  capacity: Type.Optional(Type.Number()),
+  capacityUom: Type.Optional(Type.String()),
+  used: Type.Optional(Type.Number()),
+  available: Type.Optional(Type.Number()),
+  requested: Type.Optional(Type.Number()),
+  fits: Type.Boolean(),
+});
+
+const LocationContentsResponseSchema = Type.Object({
+  locationId: Type.String({ format: 'uuid' }),
+  locationCode: Type.String(),
+  includeChildren: Type.Boolean(),
+  lots: Type.Array(Type.Object({
+    lotId: Type.String({ format: 'uuid' }),
+    lotNumber: Type.String(),
+    productId: Type.String({ format: 'uuid' }),
+    sku: Type.String(),
+    quantity: Type.Number(),
+    uom: Type.String(),
+    status: Type.String(),
+    expiryDate: Type.Optional(Type.String({ format: 'date' })),
+    locationId: Type.String({ format: 'uuid' }),
+    locationCode: Type.String(),
+    binId: Type.Optional(Type.String({ format: 'uuid' })),
+    binCode: Type.Optional(Type.String()),
+    licensePlateId: Type.Optional(Type.String({ format: 'uuid' })),
+    licensePlateNumber: Type.Optional(Type.String()),
+  })),
+  serialNumbers: Type.Array(Type.Object({
+    serialNumberId: Type.String({ format: 'uuid' }),
+    serialNumber: Type.String(),
+    productId: Type.String({ format: 'uuid' }),
+    sku: Type.String(),
+    lotId: Type.Optional(Type.String({ format: 'uuid' })),
+    status: Type.String(),
+    locationId: Type.String({ format: 'uuid' }),
+    locationCode: Type.String(),
+    binId: Type.Optional(Type.String({ format: 'uuid' })),
+    binCode: Type.Optional(Type.String()),
+    licensePlateId: Type.Optional(Type.String({ format: 'uuid' })),
+    licensePlateNumber: Type.Optional(Type.String()),
+  })),
+  licensePlates: Type.Array(Type.Object({
+    licensePlateId: Type.String({ format: 'uuid' }),
+    lpNumber: Type.String(),
+    lpType: Type.String(),
+    parentLicensePlateId: Type.Optional(Type.String({ format: 'uuid' })),
+    locationId: Type.String({ format: 'uuid' }),
+    locationCode: Type.String(),
+    binId: Type.Optional(Type.String({ format: 'uuid' })),
+    binCode: Type.Optional(Type.String()),
+  })),
+  totals: Type.Array(Type.Object({
+    productId: Type.String({ format: 'uuid' }),
+    sku: Type.String(),
+    uom: Type.String(),
+    quantity: Type.Number(),
+  })),
+});
+
+const CreateLocationSchema = Type.Object({
+  siteId: Type.String({ format: 'uuid' }),
+  name: Type.String({ minLength: 1, maxLength: 100 }),
+  code: Type.String({ minLength: 1, maxLength: 20 }),
+  type: LocationTypeSchema,
+  parentLocationId: Type.Optional(Type.String({ format: 'uuid' })),
+});
+
+const UpdateLocationSchema = Type.Object({
+  name: Type.Optional(Type.String({ minLength: 1, maxLength: 100 })),
+  type: Type.Optional(LocationTypeSchema),
+  parentLocationId: Type.Optional(Type.Union([
+    Type.String({ format: 'uuid' }),
+    Type.Null()
+  ], { description: 'Null moves the location to the top of its site' })),
+});
+
+const CreateBinSchema = Type.Object({
+  name: Type.String({ minLength: 1, maxLength: 50 }),
+  code: Type.String({ minLength: 1, maxLength: 20 }),
+  capacity: Type.Optional(Type.Number({ exclusiveMinimum: 0 })),
+  capacityUom: Type.Optional(Type.String({ minLength: 1, maxLength: 20, description: 'Unit the capacity is measured in; defaults to EA' })),
+});
+
+const UpdateBinSchema = Type.Object({
+  name: Type.Optional(Type.String({ minLength: 1, maxLength: 50 })),
+  capacity: Type.Optional(Type.Union([
+    Type.Number({ exclusiveMinimum: 0 }),
+    Type.Null()
+  ], { description: 'Null removes the capacity limit' })),
+  capacityUom: Type.Optional(Type.String({ minLength: 1, maxLength: 20 })),
+});
+
+const LocationIdParams = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+});
+
+const SiteIdParams = Type.Object({
+  siteId: Type.String({ format: 'uuid' }),
+});
+
+const BinIdParams = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+});
+
+const LocationQuerySchema = Type.Object({
+  siteId: Type.Optional(Type.String({ format: 'uuid' })),
+  type: Type.Optional(LocationTypeSchema),
+  parentLocationId: Type.Optional(Type.String({ format: 'uuid' })),
+});
+
+const ContentsQuerySchema = Type.Object({
+  includeChildren: Type.Optional(Type.Boolean({ default: true })),
+});
+
+const CapacityQuerySchema = Type.Object({
+  productId: Type.Optional(Type.String({ format: 'uuid' })),
+  quantity: Type.Optional(Type.Number({ minimum: 0 })),
+  uom: Type.Optional(Type.String({ minLength: 1, maxLength: 50 })),
+});
+
+const ErrorResponseSchema = Type.Object({
+  error: Type.String(),
+  message: Type.String(),
+});
+
+type LocationType = 'WAREHOUSE' | 'PRODUCTION' | 'SHIPPING' | 'RECEIVING' | 'QUALITY';
+
+/**
+ * Inventory location and bin API routes
+ */
+export default async function locationRoutes(fastify: FastifyInstance) {
+  const locationRepository = new LocationRepository(fastify.pg.pool);
+
+  // GET /sites/:siteId/location-tree - Location hierarchy of a site
+  fastify.get('/sites/:siteId/location-tree', {
+    schema: {
+      tags: ['Inventory Locations'],
+      summary: 'Get site location tree',
+      description: 'Retrieve the locations of a site as a tree, with the bins of each location',
+      params: SiteIdParams,
+      response: {
+        200: Type.Array(LocationTreeNodeSchema),
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { siteId: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const tree = await locationRepository.getTree(request.params.siteId);
+      return reply.code(200).send(tree);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('not found')) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve location tree'
+      });
+    }
+  });
+
+  // GET /locations - List locations
+  fastify.get('/locations', {
+    schema: {
+      tags: ['Inventory Locations'],
+      summary: 'List locations',
+      description: 'Retrieve locations, optionally within a site, of one type or directly under a parent location',
+      querystring: LocationQuerySchema,
+      response: {
+        200: Type.Array(LocationResponseSchema),
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Querystring: { siteId?: string; type?: LocationType; parentLocationId?: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const locations = await locationRepository.findLocations(request.query);
+      return reply.code(200).send(locations);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve locations'
+      });
+    }
+  });
+
+  // GET /locations/:id - Get location
+  fastify.get('/locations/:id', {
+    schema: {
+      tags: ['Inventory Locations'],
+      summary: 'Get location by ID',
+      params: LocationIdParams,
+      response: {
+        200: LocationResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const location = await locationRepository.findById(id);
+
+      if (!location) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Location with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(location);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve location'
+      });
+    }
+  });
+
+  // POST /locations - Create location
+  fastify.post('/locations', {
+    schema: {
+      tags: ['Inventory Locations'],
+      summary: 'Create location',
+      description: 'Create a location in a site, optionally under a parent location of the same site. Codes are unique per site.',
+      body: CreateLocationSchema,
+      response: {
+        201: LocationResponseSchema,
+        400: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Body: {
+      siteId: string;
+      name: string;
+      code: string;
+      type: LocationType;
+      parentLocationId?: string;
+    };
+  }>, reply: FastifyReply) => {
+    try {
+      const location = await locationRepository.createLocation(request.body);
+      return reply.code(201).send(location);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('does not exist') || error.message.includes('Validation failed')) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('already exists')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to create location'
+      });
+    }
+  });
+
+  // PUT /locations/:id - Update location
+  fastify.put('/locations/:id', {
+    schema: {
+      tags: ['Inventory Locations'],
+      summary: 'Update location',
+      description: 'Rename, retype or move a location within its site. A location cannot be moved under one of its own child locations.',
+      params: LocationIdParams,
+      body: UpdateLocationSchema,
+      response: {
+        200: LocationResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: { name?: string; type?: LocationType; parentLocationId?: string | null };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const location = await locationRepository.updateLocation(id, request.body);
+
+      if (!location) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Location with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(location);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('does not exist') || error.message.includes('Circular reference') ||
+          error.message.includes('Validation failed')) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to update location'
+      });
+    }
+  });
+
+  // DELETE /locations/:id - Delete location
+  fastify.delete('/locations/:id', {
+    schema: {
+      tags: ['Inventory Locations'],
+      summary: 'Delete location',
+      description: 'Soft delete a location and its bins. Locations with active child locations or holding stock cannot be deleted.',
+      params: LocationIdParams,
+      response: {
+        204: Type.Null(),
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+
+      // Check if location can be deleted
+      const canDeleteResult = await locationRepository.canDelete(id);
+      if (!canDeleteResult.canDelete) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: canDeleteResult.reason || 'Cannot delete location'
+        });
+      }
+
+      const deleted = await locationRepository.deleteLocation(id);
+
+      if (!deleted) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Location with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(204).send();
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to delete location'
+      });
+    }
+  });
+
+  // GET /locations/:id/contents - Stock held in a location
+  fastify.get('/locations/:id/contents', {
+    schema: {
+      tags: ['Inventory Locations'],
+      summary: 'Get location contents',
+      description: 'List the lots and serial-numbered items held in a location and its bins, with totals per product in its stocking unit. Lot quantity packed on a license plate is listed at the plate\'s place, with the plate; the license plates there are listed too. Child locations are included unless includeChildren is false.',
+      params: LocationIdParams,
+      querystring: ContentsQuerySchema,
+      response: {
+        200: LocationContentsResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Querystring: { includeChildren?: boolean };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const contents = await locationRepository.getContents(id, request.query.includeChildren ?? true);
+
+      if (!contents) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Location with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(contents);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('Validation failed')) {
+        return reply.code(400).send({
+          error: 'Validation Error',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve location contents'
+      });
+    }
+  });
+
+  // GET /locations/:id/bins - List bins of a location
+  fastify.get('/locations/:id/bins', {
+    schema: {
+      tags: ['Inventory Locations'],
+      summary: 'List location bins',
+      params: LocationIdParams,
+      response: {
+        200: Type.Array(BinResponseSchema),
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const location = await locationRepository.findById(id);
+
+      if (!location) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Location with ID '${id}' not found`
+        });
+      }
+
+      const bins = await locationRepository.findBins(id);
+      return reply.code(200).send(bins);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve bins'
+      });
+    }
+  });
+
+  // POST /locations/:id/bins - Add a bin
+  fastify.post('/locations/:id/bins', {
+    schema: {
+      tags: ['Inventory Locations'],
+      summary: 'Create bin',
+      description: 'Add a bin to a location. Codes are unique per location. A capacity is measured in EA unless another catalogue unit is given.',
+      params: LocationIdParams,
+      body: CreateBinSchema,
+      response: {
+        201: BinResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: { name: string; code: string; capacity?: number; capacityUom?: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const bin = await locationRepository.createBin(id, request.body);
+
+      if (!bin) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Location with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(201).send(bin);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('does not exist')) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('already exists')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to create bin'
+      });
+    }
+  });
+
+  // GET /bins/:id - Get bin
+  fastify.get('/bins/:id', {
+    schema: {
+      tags: ['Inventory Locations'],
+      summary: 'Get bin by ID',
+      params: BinIdParams,
+      response: {
+        200: BinResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const bin = await locationRepository.findBin(id);
+
+      if (!bin) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Bin with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(bin);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve bin'
+      });
+    }
+  });
+
+  // PUT /bins/:id - Update bin
+  fastify.put('/bins/:id', {
+    schema: {
+      tags: ['Inventory Locations'],
+      summary: 'Update bin',
+      description: 'Rename a bin or change its capacity. A capacity below the stock already in the bin is rejected.',
+      params: BinIdParams,
+      body: UpdateBinSchema,
+      response: {
+        200: BinResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: { name?: string; capacity?: number | null; capacityUom?: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const bin = await locationRepository.updateBin(id, request.body);
+
+      if (!bin) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Bin with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(bin);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('does not exist') || error.message.includes('Validation failed')) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to update bin'
+      });
+    }
+  });
+
+  // DELETE /bins/:id - Delete bin
+  fastify.delete('/bins/:id', {
+    schema: {
+      tags: ['Inventory Locations'],
+      summary: 'Delete bin',
+      description: 'Soft delete an empty bin',
+      params: BinIdParams,
+      response: {
+        204: Type.Null(),
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+
+      // Check if bin can be deleted
+      const canDeleteResult = await locationRepository.canDeleteBin(id);
+      if (!canDeleteResult.canDelete) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: canDeleteResult.reason || 'Cannot delete bin'
+        });
+      }
+
+      const deleted = await locationRepository.deleteBin(id);
+
+      if (!deleted) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Bin with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(204).send();
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to delete bin'
+      });
+    }
+  });
+
+  // GET /bins/:id/capacity - Capacity check
+  fastify.get('/bins/:id/capacity', {
+    schema: {
+      tags: ['Inventory Locations'],
+      summary: 'Check bin capacity',
+      description: 'Report a bin\'s used and available capacity in its capacity unit. Stock with no conversion to that unit does not count against the capacity. With productId, quantity and uom, also report whether that quantity would fit.',
+      params: BinIdParams,
+      querystring: CapacityQuerySchema,
+      response: {
+        200: BinCapacityResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Querystring: { productId?: string; quantity?: number; uom?: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { productId, quantity, uom } = request.query;
+
+      if ((productId || quantity !== undefined || uom) && !(productId && quantity !== undefined && uom)) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: 'productId, quantity and uom must be given together'
+        });
+      }
+
+      const capacity = await locationRepository.checkCapacity(
+        id,
+        productId ? { productId, quantity: quantity!, uom: uom! } : undefined
+      );
+      return reply.code(200).send(capacity);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('not found')) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('does not exist') || error.message.includes('Validation failed')) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to check bin capacity'
+      });
+    }
+  });
+}
@@ -0,0 +1,743 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { Type } from '@fastify/type-provider-typebox';
+import { LotRepository } from '../repositories/lot.repository';
+
+// Request/Response schemas using TypeBox for Fastify
+const LotStatusSchema = Type.Union([
+  Type.Literal('AVAILABLE'),
+  Type.Literal('QUARANTINED'),
+  Type.Literal('EXPIRED'),
+  Type.Literal('CONSUMED')
+]);
+
+const TransactionTypeSchema = Type.Union([
+  Type.Literal('RECEIPT'),
+  Type.Literal('ISSUE'),
+  Type.Literal('ADJUSTMENT'),
+  Type.Literal('TRANSFER'),
+  Type.Literal('SCRAP')
+]);
+
+const LotResponseSchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  productId: Type.String({ format: 'uuid' }),
+  productSku: Type.Optional(Type.String()),
+  productName: Type.Optional(Type.String()),
+  lotNumber: Type.String(),
+  quantity: Type.Number(),
+  uom: Type.String(),
+  expiryDate: Type.Optional(Type.String({ format: 'date' })),
+  manufactureDate: Type.Optional(Type.String({ format: 'date' })),
+  supplierId: Type.Optional(Type.String()),
+  status: LotStatusSchema,
+  locationId: Type.Optional(Type.String({ format: 'uuid' })),
+  locationCode: Type.Optional(Type.String()),
+  binId: Type.Optional(Type.String({ format: 'uuid' })),
+  binCode: Type.Optional(Type.String()),
+  isActive: Type.Boolean(),
+  createdAt: Type.String({ format: 'date-time' }),
+  updatedAt: Type.String({ format: 'date-time' }),
+  version: Type.Integer(),
+});
+
+const TransactionResponseSchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  lotId: Type.String({ format: 'uuid' }),
+  lotNumber: Type.Optional(Type.String()),
+  productId: Type.String({ format: 'uuid' }),
+  sequence: Type.Integer(),
+  transactionType: TransactionTypeSchema,
+  quantity: Type.Number(),
+  uom: Type.String(),
+  balanceAfter: Type.Number(),
+  enteredQuantity: Type.Optional(Type.Number()),
+  enteredUom: Type.Optional(Type.String()),
+  fromLocationId: Type.Optional(Type.String({ format: 'uuid' })),
+  fromBinId: Type.Optional(Type.String({ format: 'uuid' })),
+  toLocationId: Type.Optional(Type.String({ format: 'uuid' })),
+  toBinId: Type.Optional(Type.String({ format: 'uuid' })),
+  referenceType: Type.Optional(Type.String()),
+  referenceId: Type.Optional(Type.String({ format: 'uuid' })),
+  reason: Type.Optional(Type.String()),
+  performedBy: Type.Optional(Type.String({ format: 'uuid' })),
+  createdAt: Type.String({ format: 'date-time' }),
+});
+
+const LotLedgerResponseSchema = Type.Object({
+  lotId: Type.String({ format: 'uuid' }),
+  lotNumber: Type.String(),
+  uom: Type.String(),
+  quantity: Type.Number(),
+  derivedQuantity: Type.Number(),
+  balanced: Type.Boolean(),
+  transactions: Type.Array(Type.Intersect([
+    TransactionResponseSchema,
+    Type.Object({ runningBalance: Type.Number() }),
+  ])),
+  statusChanges: Type.Array(Type.Object({
+    id: Type.String({ format: 'uuid' }),
+    lotId: Type.String({ format: 'uuid' }),
+    fromStatus: LotStatusSchema,
+    toStatus: LotStatusSchema,
+    reason: Type.Optional(Type.String()),
+    changedBy: Type.Optional(Type.String({ format: 'uuid' })),
+    createdAt: Type.String({ format: 'date-time' }),
+  })),
+});
+
+const LotTraceResponseSchema = Type.Object({
+  lotId: Type.String({ format: 'uuid' }),
+  direction: Type.Union([Type.Literal('BACKWARD'), Type.Literal('FORWARD')]),
+  nodes: Type.Array(Type.Intersect([
+    LotResponseSchema,
+    Type.Object({ depth: Type.Integer() }),
+  ])),
+  edges: Type.Array(Type.Object({
+    parentLotId: Type.String({ format: 'uuid' }),
+    childLotId: Type.String({ format: 'uuid' }),
+    manufacturingOrderId: Type.String({ format: 'uuid' }),
+    orderNumber: Type.Optional(Type.String()),
+    quantity: Type.Number(),
+    uom: Type.String(),
+    depth: Type.Integer(),
+  })),
+  truncated: Type.Boolean(),
+});
+
+const PaginatedLotResponseSchema = Type.Object({
+  data: Type.Array(LotResponseSchema),
+  pagination: Type.Object({
+    page: Type.Integer(),
+    limit: Type.Integer(),
+    total: Type.Integer(),
+    totalPages: Type.Integer(),
+    hasNext: Type.Boolean(),
+    hasPrev: Type.Boolean(),
+  }),
+});
+
+const CreateLotSchema = Type.Object({
+  productId: Type.String({ format: 'uuid' }),
+  lotNumber: Type.String({ minLength: 1, maxLength: 50 }),
+  quantity: Type.Number({ exclusiveMinimum: 0 }),
+  uom: Type.String({ minLength: 1, maxLength: 20 }),
+  expiryDate: Type.Optional(Type.String({ format: 'date' })),
+  manufactureDate: Type.Optional(Type.String({ format: 'date' })),
+  supplierId: Type.Optional(Type.String({ maxLength: 100 })),
+  status: Type.Optional(Type.Union([Type.Literal('AVAILABLE'), Type.Literal('QUARANTINED')], { default: 'AVAILABLE' })),
+  locationId: Type.Optional(Type.String({ format: 'uuid' })),
+  binId: Type.Optional(Type.String({ format: 'uuid' })),
+  referenceType: Type.Optional(Type.String({ maxLength: 30 })),
+  referenceId: Type.Optional(Type.String({ format: 'uuid' })),
+  performedBy: Type.Optional(Type.String({ format: 'uuid' })),
+});
+
+const UpdateLotSchema = Type.Object({
+  expiryDate: Type.Optional(Type.String({ format: 'date' })),
+  manufactureDate: Type.Optional(Type.String({ format: 'date' })),
+  supplierId: Type.Optional(Type.String({ maxLength: 100 })),
+});
+
+const StatusUpdateSchema = Type.Object({
+  status: LotStatusSchema,
+  reason: Type.Optional(Type.String()),
+  changedBy: Type.Optional(Type.String({ format: 'uuid' })),
+});
+
+const CreateTransactionSchema = Type.Object({
+  transactionType: TransactionTypeSchema,
+  quantity: Type.Optional(Type.Number({ description: 'Positive for receipts, issues and scrap; signed for adjustments; omitted for transfers' })),
+  uom: Type.Optional(Type.String({ minLength: 1, maxLength: 20, description: 'Defaults to the lot unit' })),
+  locationId: Type.Optional(Type.String({ format: 'uuid' })),
+  binId: Type.Optional(Type.String({ format: 'uuid' })),
+  referenceType: Type.Optional(Type.String({ maxLength: 30 })),
+  referenceId: Type.Optional(Type.String({ format: 'uuid' })),
+  reason: Type.Optional(Type.String()),
+  performedBy: Type.Optional(Type.String({ format: 'uuid' })),
+});
+
+const LotIdParams = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+});
+
+const LotQuerySchema = Type.Object({
+  page: Type.Optional(Type.Integer({ minimum: 1, default: 1 })),
+  limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 200, default: 50 })),
+  sortBy: Type.Optional(Type.Union([
+    Type.Literal('lotNumber'),
+    Type.Literal('quantity'),
+    Type.Literal('expiryDate'),
+    Type.Literal('manufactureDate'),
+    Type.Literal('createdAt')
+  ])),
+  sortOrder: Type.Optional(Type.Union([Type.Literal('ASC'), Type.Literal('DESC')], { default: 'DESC' })),
+  productId: Type.Optional(Type.String({ format: 'uuid' })),
+  status: Type.Optional(LotStatusSchema),
+  lotNumber: Type.Optional(Type.String({ minLength: 1, maxLength: 50 })),
+  locationId: Type.Optional(Type.String({ format: 'uuid' })),
+  binId: Type.Optional(Type.String({ format: 'uuid' })),
+});
+
+const LookupQuerySchema = Type.Object({
+  lotNumber: Type.String({ minLength: 1, maxLength: 50 }),
+});
+
+const TransactionQuerySchema = Type.Object({
+  lotId: Type.Optional(Type.String({ format: 'uuid' })),
+  productId: Type.Optional(Type.String({ format: 'uuid' })),
+  transactionType: Type.Optional(TransactionTypeSchema),
+  referenceType: Type.Optional(Type.String({ maxLength: 30 })),
+  referenceId: Type.Optional(Type.String({ format: 'uuid' })),
+  from: Type.Optional(Type.String({ format: 'date-time' })),
+  to: Type.Optional(Type.String({ format: 'date-time' })),
+  limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 1000, default: 100 })),
+});
+
+const TraceQuerySchema = Type.Object({
+  maxDepth: Type.Optional(Type.Integer({ minimum: 1, maximum: 50, default: 20 })),
+});
+
+const ErrorResponseSchema = Type.Object({
+  error: Type.String(),
+  message: Type.String(),
+});
+
+type LotStatus = 'AVAILABLE' | 'QUARANTINED' | 'EXPIRED' | 'CONSUMED';
+type TransactionType = 'RECEIPT' | 'ISSUE' | 'ADJUSTMENT' | 'TRANSFER' | 'SCRAP';
+
+/**
+ * Lot management, inventory transaction ledger and lot genealogy API routes
+ */
+export default async function lotRoutes(fastify: FastifyInstance) {
+  const lotRepository = new LotRepository(fastify.pg.pool);
+
+  // GET /inventory/lots - List lots
+  fastify.get('/inventory/lots', {
+    schema: {
+      tags: ['Inventory Lots'],
+      summary: 'List lots',
+      description: 'Retrieve a paginated list of lots, optionally by product, status, lot number (partial match), location or bin',
+      querystring: LotQuerySchema,
+      response: {
+        200: PaginatedLotResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Querystring: {
+      page?: number;
+      limit?: number;
+      sortBy?: string;
+      sortOrder?: 'ASC' | 'DESC';
+      productId?: string;
+      status?: LotStatus;
+      lotNumber?: string;
+      locationId?: string;
+      binId?: string;
+    };
+  }>, reply: FastifyReply) => {
+    try {
+      const { page, limit, sortBy, sortOrder, ...filters } = request.query;
+      const result = await lotRepository.findLots({ page, limit, sortBy, sortOrder }, filters);
+      return reply.code(200).send(result);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve lots'
+      });
+    }
+  });
+
+  // GET /inventory/lots/lookup - Find lots by scanned lot number
+  fastify.get('/inventory/lots/lookup', {
+    schema: {
+      tags: ['Inventory Lots'],
+      summary: 'Look up lot number',
+      description: 'Find lots by exact lot number, as read by a barcode scanner. Lot numbers are unique per product, so more than one lot may match.',
+      querystring: LookupQuerySchema,
+      response: {
+        200: Type.Array(LotResponseSchema),
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Querystring: { lotNumber: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const lots = await lotRepository.findByLotNumber(request.query.lotNumber);
+      return reply.code(200).send(lots);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to look up lot'
+      });
+    }
+  });
+
+  // GET /inventory/lots/:id - Get lot
+  fastify.get('/inventory/lots/:id', {
+    schema: {
+      tags: ['Inventory Lots'],
+      summary: 'Get lot by ID',
+      params: LotIdParams,
+      response: {
+        200: LotResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const lot = await lotRepository.findById(id);
+
+      if (!lot) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Lot with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(lot);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve lot'
+      });
+    }
+  });
+
+  // POST /inventory/lots - Create lot
+  fastify.post('/inventory/lots', {
+    schema: {
+      tags: ['Inventory Lots'],
+      summary: 'Create lot',
+      description: 'Create a lot and post its opening receipt to the ledger. Lot numbers are unique per product. The unit is stored as its catalogue code and must convert to the product\'s unit; a bin must have room for the quantity.',
+      body: CreateLotSchema,
+      response: {
+        201: LotResponseSchema,
+        400: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Body: {
+      productId: string;
+      lotNumber: string;
+      quantity: number;
+      uom: string;
+      expiryDate?: string;
+      manufactureDate?: string;
+      supplierId?: string;
+      status?: 'AVAILABLE' | 'QUARANTINED';
+      locationId?: string;
+      binId?: string;
+      referenceType?: string;
+      referenceId?: string;
+      performedBy?: string;
+    };
+  }>, reply: FastifyReply) => {
+    try {
+      const { expiryDate, manufactureDate, ...lotData } = request.body;
+
+      const lot = await lotRepository.createLot({
+        ...lotData,
+        ...(expiryDate && { expiryDate: new Date(expiryDate) }),
+        ...(manufactureDate && { manufactureDate: new Date(manufactureDate) }),
+      });
+      return reply.code(201).send(lot);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('does not exist') || error.message.includes('Validation failed')) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('already exists')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to create lot'
+      });
+    }
+  });
+
+  // PUT /inventory/lots/:id - Update lot
+  fastify.put('/inventory/lots/:id', {
+    schema: {
+      tags: ['Inventory Lots'],
+      summary: 'Update lot',
+      description: 'Update a lot\'s dates or supplier. Quantity and place change only through transactions, and status through status transitions.',
+      params: LotIdParams,
+      body: UpdateLotSchema,
+      response: {
+        200: LotResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: { expiryDate?: string; manufactureDate?: string; supplierId?: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { expiryDate, manufactureDate, supplierId } = request.body;
+
+      const lot = await lotRepository.updateLot(id, {
+        supplierId,
+        ...(expiryDate && { expiryDate: new Date(expiryDate) }),
+        ...(manufactureDate && { manufactureDate: new Date(manufactureDate) }),
+      });
+
+      if (!lot) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Lot with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(lot);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to update lot'
+      });
+    }
+  });
+
+  // DELETE /inventory/lots/:id - Delete lot
+  fastify.delete('/inventory/lots/:id', {
+    schema: {
+      tags: ['Inventory Lots'],
+      summary: 'Delete lot',
+      description: 'Soft delete an empty lot. Its ledger is kept.',
+      params: LotIdParams,
+      response: {
+        204: Type.Null(),
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+
+      // Check if lot can be deleted
+      const canDeleteResult = await lotRepository.canDelete(id);
+      if (!canDeleteResult.canDelete) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: canDeleteResult.reason || 'Cannot delete lot'
+        });
+      }
+
+      const deleted = await lotRepository.delete(id);
+
+      if (!deleted) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Lot with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(204).send();
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to delete lot'
+      });
+    }
+  });
+
+  // PUT /inventory/lots/:id/status - Change lot status
+  fastify.put('/inventory/lots/:id/status', {
+    schema: {
+      tags: ['Inventory Lots'],
+      summary: 'Update lot status',
+      description: 'Change a lot\'s status with transition validation. CONSUMED is terminal and needs an empty lot; an expired lot can be made available only once its expiry date is in the future. Every change is recorded.',
+      params: LotIdParams,
+      body: StatusUpdateSchema,
+      response: {
+        200: LotResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: { status: LotStatus; reason?: string; changedBy?: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { status, ...options } = request.body;
+      const lot = await lotRepository.updateStatus(id, status, options);
+
+      if (!lot) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Lot with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(lot);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('Invalid status transition') ||
+          error.message.includes('Transition requirements not met')) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to update lot status'
+      });
+    }
+  });
+
+  // POST /inventory/lots/:id/transactions - Post to the ledger
+  fastify.post('/inventory/lots/:id/transactions', {
+    schema: {
+      tags: ['Inventory Lots'],
+      summary: 'Record lot transaction',
+      description: 'Post a receipt, issue, adjustment, transfer or scrap to the lot\'s ledger. Quantities are converted to the lot\'s unit and may not take the balance below zero; a lot emptied by an issue, scrap or adjustment becomes CONSUMED. Transfers move the whole lot to a location or bin. Receipts and transfers into a bin are checked against its capacity, a transfer for the quantity not packed on license plates. Adjustments and scrap need a reason.',
+      params: LotIdParams,
+      body: CreateTransactionSchema,
+      response: {
+        201: TransactionResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: {
+      transactionType: TransactionType;
+      quantity?: number;
+      uom?: string;
+      locationId?: string;
+      binId?: string;
+      referenceType?: string;
+      referenceId?: string;
+      reason?: string;
+      performedBy?: string;
+    };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const transaction = await lotRepository.recordTransaction(id, request.body);
+
+      if (!transaction) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Lot with ID '${id}' not found`
+        });
+      }
+
+      // Publish write-offs and count corrections
+      if ((transaction.transactionType === 'ADJUSTMENT' || transaction.transactionType === 'SCRAP') && fastify.eventProducer) {
+        try {
+          await fastify.eventProducer.publishInventoryAdjusted({
+            transactionId: transaction.id,
+            lotId: transaction.lotId,
+            lotNumber: transaction.lotNumber!,
+            productId: transaction.productId,
+            transactionType: transaction.transactionType,
+            quantity: transaction.quantity,
+            uom: transaction.uom,
+            balanceAfter: transaction.balanceAfter,
+            reason: transaction.reason!,
+            timestamp: new Date().toISOString(),
+          });
+        } catch (publishError) {
+          fastify.log.warn({ err: publishError, lotId: id }, 'Failed to publish inventory adjusted event');
+        }
+      }
+
+      return reply.code(201).send(transaction);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('does not exist') || error.message.includes('Validation failed')) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to record lot transaction'
+      });
+    }
+  });
+
+  // GET /inventory/lots/:id/ledger - Lot ledger with derived balance
+  fastify.get('/inventory/lots/:id/ledger', {
+    schema: {
+      tags: ['Inventory Lots'],
+      summary: 'Get lot ledger',
+      description: 'Retrieve a lot\'s transactions in posting order with the running balance re-derived from them, and its status history. `balanced` is false if the derived balance disagrees with the lot quantity or any recorded balance.',
+      params: LotIdParams,
+      response: {
+        200: LotLedgerResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const ledger = await lotRepository.getLedger(id);
+
+      if (!ledger) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Lot with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(ledger);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve lot ledger'
+      });
+    }
+  });
+
+  // GET /inventory/lots/:id/trace/backward - Lots this lot was made from
+  fastify.get('/inventory/lots/:id/trace/backward', {
+    schema: {
+      tags: ['Inventory Lots'],
+      summary: 'Trace lot backward',
+      description: 'Retrieve the genealogy graph of the lots a lot was made from: the lots consumed by the orders that produced it, and recursively the lots those were made from. Use it to find the source of a defect. Nodes carry their fewest steps from the lot; `truncated` is true when the graph continues past maxDepth.',
+      params: LotIdParams,
+      querystring: TraceQuerySchema,
+      response: {
+        200: LotTraceResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Querystring: { maxDepth?: number };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const trace = await lotRepository.trace(id, 'BACKWARD', request.query.maxDepth);
+
+      if (!trace) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Lot with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(trace);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to trace lot backward'
+      });
+    }
+  });
+
+  // GET /inventory/lots/:id/trace/forward - Lots made from this lot
+  fastify.get('/inventory/lots/:id/trace/forward', {
+    schema: {
+      tags: ['Inventory Lots'],
+      summary: 'Trace lot forward',
+      description: 'Retrieve the genealogy graph of the lots made from a lot: the lots produced by the orders that consumed it, and recursively the lots made from those. Use it to find everything a recall has to reach. Nodes carry their fewest steps from the lot; `truncated` is true when the graph continues past maxDepth.',
+      params: LotIdParams,
+      querystring: TraceQuerySchema,
+      response: {
+        200: LotTraceResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Querystring: { maxDepth?: number };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const trace = await lotRepository.trace(id, 'FORWARD', request.query.maxDepth);
+
+      if (!trace) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Lot with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(trace);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to trace lot forward'
+      });
+    }
+  });
+
+  // GET /inventory/transactions - Ledger entries across lots
+  fastify.get('/inventory/transactions', {
+    schema: {
+      tags: ['Inventory Lots'],
+      summary: 'List inventory transactions',
+      description: 'Retrieve ledger entries across lots, newest first, optionally by lot, product, type, source document or period',
+      querystring: TransactionQuerySchema,
+      response: {
+        200: Type.Array(TransactionResponseSchema),
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Querystring: {
+      lotId?: string;
+      productId?: string;
+      transactionType?: TransactionType;
+      referenceType?: string;
+      referenceId?: string;
+      from?: string;
+      to?: string;
+      limit?: number;
+    };
+  }>, reply: FastifyReply) => {
+    try {
+      const { from, to, ...filters } = request.query;
+      const transactions = await lotRepository.findTransactions({
+        ...filters,
+        ...(from && { from: new Date(from) }),
+        ...(to && { to: new Date(to) }),
+      });
+      return reply.code(200).send(transactions);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve inventory transactions'
+      });
+    }
+  });
+}
@@ -23,6 +23,11 @@ const MOOperationResponseSchema = Type.Object({
   actualStartTime: Type.Optional(Type.String({ format: 'date-time' })),
   plannedEndTime: Type.Optional(Type.String({ format: 'date-time' })),
   actualEndTime: Type.Optional(Type.String({ format: 'date-time' })),
+  routingStepId: Type.Optional(Type.String({ format: 'uuid' })),
+  primaryWorkCenterId: Type.Optional(Type.String({ format: 'uuid', description: 'Work center of the routing step' })),
+  routingStepAlternateId: Type.Optional(Type.String({ format: 'uuid', description: 'Set when running at an alternate work center' })),
+  runRateMultiplier: Type.Optional(Type.Number()),
+  alternateReason: Type.Optional(Type.String({ description: 'Why an alternate work center or routing was chosen' })),
   isActive: Type.Boolean({ default: true }),
   createdAt: Type.String({ format: 'date-time' }),
   updatedAt: Type.String({ format: 'date-time' }),
@@ -83,15 +88,9 @@ const OperationProgressSchema = Type.Object({
   currentOperation: Type.Optional(MOOperationWithDetailsSchema),
 });
 
-const CreateOperationsFromRoutingSchema = Type.Object({
-  operations: Type.Array(Type.Object({
-    workCenterId: Type.String({ format: 'uuid' }),
-    operationId: Type.String({ minLength: 1, maxLength: 50 }),
-    sequence: Type.Integer({ minimum: 1 }),
-    plannedQuantity: Type.Number({ minimum: 0.01 }),
-    plannedStartTime: Type.Optional(Type.String({ format: 'date-time' })),
-    plannedEndTime: Type.Optional(Type.String({ format: 'date-time' })),
-  }))
+const ErrorResponseSchema = Type.Object({
+  error: Type.String(),
+  message: Type.String(),
 });
 
 const PaginationQuerySchema = Type.Object({
@@ -186,32 +185,47 @@ export default async function manufacturingOrderOperationsRoutes(fastify: Fastif
     schema: {
       tags: ['Manufacturing Order Operations'],
       summary: 'Create operations from routing',
-      description: 'Create multiple operations for a manufacturing order based on routing',
+      description: 'Create one operation per step of the manufacturing order\'s routing. An order without a routing uses the product\'s default routing, or the first alternate routing by priority on which every step has an available work center. Each operation uses the step\'s work center, or its first available alternate when that work center is inactive or has equipment DOWN, recording the choice and reason. Operations plan the order quantity and are scheduled back to back from the order\'s planned start using the step\'s setup, run (× the alternate\'s run-rate multiplier) and teardown times.',
       params: MOIdParams,
-      body: CreateOperationsFromRoutingSchema,
       response: {
         201: Type.Array(MOOperationResponseSchema),
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema,
       },
     },
   }, async (request: FastifyRequest<{
     Params: { moId: string };
-    Body: { operations: any[] };
   }>, reply: FastifyReply) => {
     try {
       const { moId } = request.params;
-      const { operations } = request.body;
 
-      // Process operations data
-      const processedOperations = operations.map(op => ({
-        ...op,
-        plannedStartTime: op.plannedStartTime ? new Date(op.plannedStartTime) : undefined,
-        plannedEndTime: op.plannedEndTime ? new Date(op.plannedEndTime) : undefined,
-      }));
-
-      const createdOperations = await moOpRepository.createOperationsFromRouting(moId, processedOperations);
+      const createdOperations = await moOpRepository.createOperationsFromRouting(moId);
       return reply.code(201).send(createdOperations);
-    } catch (error) {
+    } catch (error: any) {
       fastify.log.error(error);
+
+      if (error.message.includes('not found')) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('No routing')) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('already has') || error.message.includes('cannot be given operations')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
       return reply.code(500).send({ 
         error: 'Internal Server Error',
         message: 'Failed to create operations'
@@ -343,6 +357,7 @@ export default async function manufacturingOrderOperationsRoutes(fastify: Fastif
         plannedEndTime: opData.plannedEndTime ? new Date(opData.plannedEndTime) : undefined,
         status: 'WAITING' as const,
         completedQuantity: 0,
+        runRateMultiplier: 1,
         isActive: true,
       };
 
@@ -482,6 +497,58 @@ export default async function manufacturingOrderOperationsRoutes(fastify: Fastif
     }
   });
 
+  // POST /mo-operations/:id/dispatch - Choose the work center an operation runs at
+  fastify.post('/mo-operations/:id/dispatch', {
+    schema: {
+      tags: ['Manufacturing Order Operations'],
+      summary: 'Dispatch operation',
+      description: 'Re-check where a waiting or blocked operation runs: at its routing step\'s work center when that is active with no equipment DOWN, otherwise at the first available alternate by priority. The choice and reason are recorded and the planned end is recalculated for the alternate\'s run rate.',
+      params: MOOperationIdParams,
+      response: {
+        200: MOOperationResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const operation = await moOpRepository.dispatchOperation(id);
+      return reply.code(200).send(operation);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('not found')) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('No routing')) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('cannot be dispatched')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to dispatch operation'
+      });
+    }
+  });
+
   // PUT /mo-operations/:id - Update operation
   fastify.put('/mo-operations/:id', {
     schema: {
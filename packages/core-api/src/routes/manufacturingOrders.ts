@@ -2,6 +2,7 @@ import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { Type } from '@fastify/type-provider-typebox';
 import { ManufacturingOrderRepository } from '../repositories/manufacturingOrder.repository';
 import { ManufacturingOrderOperationRepository } from '../repositories/manufacturingOrderOperation.repository';
+import { ManufacturingOrderOutputRepository } from '../repositories/manufacturingOrderOutput.repository';
 import { ManufacturingOrderSchema } from '@akazify/core-domain';
 import { z } from 'zod';
 
@@ -65,6 +66,39 @@ const StatusUpdateSchema = Type.Object({
     Type.Literal('COMPLETED'),
     Type.Literal('CANCELLED')
   ]),
+  outputs: Type.Optional(Type.Array(Type.Object({
+    productId: Type.String({ format: 'uuid' }),
+    quantity: Type.Number({ minimum: 0 }),
+    uom: Type.Optional(Type.String({ minLength: 1, maxLength: 20 })),
+    lotNumber: Type.Optional(Type.String({ minLength: 1, maxLength: 50 })),
+  }), { description: 'Output reported on completion; defaults to the quantity produced and the BOM yield ratios' })),
+  reportedBy: Type.Optional(Type.String({ format: 'uuid' })),
+});
+
+const MOOutputResponseSchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  manufacturingOrderId: Type.String({ format: 'uuid' }),
+  productId: Type.String({ format: 'uuid' }),
+  productSku: Type.Optional(Type.String()),
+  outputType: Type.Union([
+    Type.Literal('PRIMARY'),
+    Type.Literal('CO_PRODUCT'),
+    Type.Literal('BY_PRODUCT')
+  ]),
+  bomOutputId: Type.Optional(Type.String({ format: 'uuid' })),
+  quantity: Type.Number(),
+  uom: Type.String(),
+  lotId: Type.String({ format: 'uuid' }),
+  lotNumber: Type.String(),
+  allocationMethod: Type.String(),
+  costShare: Type.Number(),
+  allocatedCost: Type.Number(),
+  unitCost: Type.Number(),
+  reportedBy: Type.Optional(Type.String({ format: 'uuid' })),
+  isActive: Type.Boolean(),
+  createdAt: Type.String({ format: 'date-time' }),
+  updatedAt: Type.String({ format: 'date-time' }),
+  version: Type.Integer(),
 });
 
 const ManufacturingOrderIdParams = Type.Object({
@@ -115,6 +149,7 @@ const ManufacturingOrderStatisticsSchema = Type.Object({
 export default async function manufacturingOrdersRoutes(fastify: FastifyInstance) {
   const moRepository = new ManufacturingOrderRepository(fastify.pg.pool);
   const moOpRepository = new ManufacturingOrderOperationRepository(fastify.pg.pool);
+  const moOutputRepository = new ManufacturingOrderOutputRepository(fastify.pg.pool);
 
   // GET /manufacturing-orders - List manufacturing orders with filtering
   fastify.get('/manufacturing-orders', {
@@ -223,7 +258,7 @@ export default async function manufacturingOrdersRoutes(fastify: FastifyInstance
     schema: {
       tags: ['Manufacturing Orders'],
       summary: 'Create manufacturing order',
-      description: 'Create a new manufacturing order with auto-generated order number',
+      description: 'Create a new manufacturing order with auto-generated order number. The unit of measure is stored as its catalogue code and must convert to the product\'s unit.',
       body: CreateManufacturingOrderSchema,
       response: {
         201: ManufacturingOrderResponseSchema,
@@ -269,7 +304,7 @@ export default async function manufacturingOrdersRoutes(fastify: FastifyInstance
       const newMO = await moRepository.createWithOrderNumber(validatedData);
       
       return reply.code(201).send(newMO);
-    } catch (error) {
+    } catch (error: any) {
       fastify.log.error(error);
       
       if (error instanceof z.ZodError) {
@@ -278,6 +313,13 @@ export default async function manufacturingOrdersRoutes(fastify: FastifyInstance
           message: error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')
         });
       }
+
+      if (error.message?.includes('does not exist') || error.message?.includes('Validation failed')) {
+        return reply.code(400).send({
+          error: 'Validation Error',
+          message: error.message
+        });
+      }
       
       return reply.code(500).send({ 
         error: 'Internal Server Error',
@@ -291,7 +333,7 @@ export default async function manufacturingOrdersRoutes(fastify: FastifyInstance
     schema: {
       tags: ['Manufacturing Orders'],
       summary: 'Update manufacturing order',
-      description: 'Update an existing manufacturing order',
+      description: 'Update an existing manufacturing order. The unit of measure is stored as its catalogue code and must convert to the product\'s unit.',
       params: ManufacturingOrderIdParams,
       body: UpdateManufacturingOrderSchema,
       response: {
@@ -341,7 +383,7 @@ export default async function manufacturingOrdersRoutes(fastify: FastifyInstance
       }
       
       return reply.code(200).send(updatedMO);
-    } catch (error) {
+    } catch (error: any) {
       fastify.log.error(error);
       
       if (error instanceof z.ZodError) {
@@ -350,6 +392,13 @@ export default async function manufacturingOrdersRoutes(fastify: FastifyInstance
           message: error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')
         });
       }
+
+      if (error.message?.includes('does not exist') || error.message?.includes('Validation failed')) {
+        return reply.code(400).send({
+          error: 'Validation Error',
+          message: error.message
+        });
+      }
       
       return reply.code(500).send({ 
         error: 'Internal Server Error',
@@ -363,7 +412,7 @@ export default async function manufacturingOrdersRoutes(fastify: FastifyInstance
     schema: {
       tags: ['Manufacturing Orders'],
       summary: 'Update manufacturing order status',
-      description: 'Update MO status with automatic lifecycle validation',
+      description: 'Update MO status with automatic lifecycle validation. Releasing an MO generates the quality checks defined by the quality plan for its product and routing. Completing an MO receives its product and the co-products and by-products of its BOM into new lots, numbered after the order (and, for co-products and by-products, their SKU) unless reported otherwise, and splits the order\'s actual cost across them by the BOM\'s allocation method; by-products carry no cost. Without reported outputs, quantities follow the last operation\'s completed quantity and the BOM yield ratios. FIXED_PERCENTAGE allocation requires the product and every co-product to be received.',
       params: ManufacturingOrderIdParams,
       body: StatusUpdateSchema,
       response: {
@@ -376,15 +425,23 @@ export default async function manufacturingOrdersRoutes(fastify: FastifyInstance
           error: Type.String(),
           message: Type.String(),
         }),
+        409: Type.Object({
+          error: Type.String(),
+          message: Type.String(),
+        }),
       },
     },
   }, async (request: FastifyRequest<{
     Params: { id: string };
-    Body: { status: 'PLANNED' | 'RELEASED' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED' };
+    Body: {
+      status: 'PLANNED' | 'RELEASED' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED';
+      outputs?: { productId: string; quantity: number; uom?: string; lotNumber?: string }[];
+      reportedBy?: string;
+    };
   }>, reply: FastifyReply) => {
     try {
       const { id } = request.params;
-      const { status } = request.body;
+      const { status, outputs, reportedBy } = request.body;
 
       // Validate that all operations are completed before marking order as COMPLETED
       if (status === 'COMPLETED') {
@@ -403,10 +460,33 @@ export default async function manufacturingOrdersRoutes(fastify: FastifyInstance
         }
       }
 
-      const updatedMO = await moRepository.updateStatus(id, status);
-      
+      const updatedMO = await moRepository.updateStatus(id, status, { outputs, reportedBy });
+
+      // Announce each output received into inventory
+      if (status === 'COMPLETED' && updatedMO && fastify.eventProducer) {
+        try {
+          const received = await moOutputRepository.findByManufacturingOrderId(id);
+          for (const output of received) {
+            await fastify.eventProducer.publishInventoryProduced({
+              manufacturingOrderId: id,
+              orderNumber: updatedMO.orderNumber,
+              productId: output.productId,
+              outputType: output.outputType,
+              lotId: output.lotId,
+              lotNumber: output.lotNumber,
+              quantity: output.quantity,
+              uom: output.uom,
+              unitCost: output.unitCost,
+              timestamp: new Date().toISOString(),
+            });
+          }
+        } catch (publishError) {
+          fastify.log.warn({ err: publishError, manufacturingOrderId: id }, 'Failed to publish inventory produced events');
+        }
+      }
+
       return reply.code(200).send(updatedMO);
-    } catch (error) {
+    } catch (error: any) {
       fastify.log.error(error);
       
       if (error.message.includes('not found')) {
@@ -422,6 +502,27 @@ export default async function manufacturingOrdersRoutes(fastify: FastifyInstance
           message: error.message
         });
       }
+
+      if (error.message.includes('unknown quality check template')) {
+        return reply.code(400).send({
+          error: 'Quality Plan Error',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('does not exist') || error.message.includes('Validation failed')) {
+        return reply.code(400).send({
+          error: 'Validation Error',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('already exists')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
       
       return reply.code(500).send({ 
         error: 'Internal Server Error',
@@ -430,6 +531,46 @@ export default async function manufacturingOrdersRoutes(fastify: FastifyInstance
     }
   });
 
+  // GET /manufacturing-orders/:id/outputs - Outputs received on completion
+  fastify.get('/manufacturing-orders/:id/outputs', {
+    schema: {
+      tags: ['Manufacturing Orders'],
+      summary: 'Get manufacturing order outputs',
+      description: 'Retrieve the product, co-products and by-products a completed MO received, with their lots and allocated cost',
+      params: ManufacturingOrderIdParams,
+      response: {
+        200: Type.Array(MOOutputResponseSchema),
+        404: Type.Object({
+          error: Type.String(),
+          message: Type.String(),
+        }),
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const manufacturingOrder = await moRepository.findById(id);
+
+      if (!manufacturingOrder) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Manufacturing order with ID '${id}' not found`
+        });
+      }
+
+      const outputs = await moOutputRepository.findByManufacturingOrderId(id);
+      return reply.code(200).send(outputs);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve manufacturing order outputs'
+      });
+    }
+  });
+
   // DELETE /manufacturing-orders/:id - Delete manufacturing order
   fastify.delete('/manufacturing-orders/:id', {
     schema: {
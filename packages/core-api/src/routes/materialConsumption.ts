@@ -1,9 +1,9 @@
 import { FastifyPluginAsync } from 'fastify';
 import { Type } from '@sinclair/typebox';
-import { BaseRepository } from '../repositories/base';
+import { MaterialConsumptionRepository, RecordConsumptionInput } from '../repositories/materialConsumption.repository';
 
 const materialConsumptionRoutes: FastifyPluginAsync = async (fastify) => {
-  const materialRepo = new BaseRepository(fastify.pg.pool, 'material_consumption');
+  const materialRepo = new MaterialConsumptionRepository(fastify.pg.pool);
 
   // Get material consumption for operation
   fastify.get('/operations/:operationId/materials', {
@@ -15,33 +15,7 @@ const materialConsumptionRoutes: FastifyPluginAsync = async (fastify) => {
   }, async (request, reply) => {
     try {
       const { operationId } = request.params as { operationId: string };
-      
-      // Mock response for now - replace with real repository call
-      const materials = [
-        {
-          id: '1',
-          sku: 'STL-BAR-100',
-          productName: 'Steel Bar 100mm',
-          plannedQuantity: 100,
-          consumedQuantity: 75,
-          wasteQuantity: 3,
-          unitCost: 8.50,
-          totalCost: 637.50,
-          wasteCost: 25.50,
-        },
-        {
-          id: '2',
-          sku: 'OIL-CUT-5L',
-          productName: 'Cutting Oil Premium',
-          plannedQuantity: 5,
-          consumedQuantity: 2.3,
-          wasteQuantity: 0.3,
-          unitCost: 12.00,
-          totalCost: 27.60,
-          wasteCost: 3.60,
-        }
-      ];
-      
+      const materials = await materialRepo.findByOperationId(operationId);
       return materials;
     } catch (error) {
       fastify.log.error(error);
@@ -52,29 +26,35 @@ const materialConsumptionRoutes: FastifyPluginAsync = async (fastify) => {
   // Record material consumption
   fastify.post('/materials/consume', {
     schema: {
+      description: 'Record material consumed by an operation. Quantities are in uom (default: the BOM item\'s unit, or the material\'s unit) and are stored converted to the BOM item\'s unit, costed at the material\'s current standard cost. With a lot, consumed plus waste is converted to the lot\'s unit and drawn from the lot.',
       body: Type.Object({
         operationId: Type.String({ format: 'uuid' }),
-        materialId: Type.String(),
+        materialId: Type.String({ format: 'uuid' }),
+        bomItemId: Type.Optional(Type.String({ format: 'uuid' })),
+        lotId: Type.Optional(Type.String({ format: 'uuid' })),
         consumedQuantity: Type.Number({ minimum: 0 }),
         wasteQuantity: Type.Optional(Type.Number({ minimum: 0 })),
-        notes: Type.Optional(Type.String())
+        uom: Type.Optional(Type.String({ minLength: 1, maxLength: 20 })),
+        wasteReason: Type.Optional(Type.String({ maxLength: 200 })),
+        notes: Type.Optional(Type.String()),
+        recordedBy: Type.Optional(Type.String({ format: 'uuid' }))
       })
     }
   }, async (request, reply) => {
     try {
-      const consumption = request.body as any;
-      
-      // Mock response - replace with real repository call
-      const result = {
-        id: 'new-consumption-id',
-        ...consumption,
-        timestamp: new Date(),
-        recordedBy: 'operator-123'
-      };
-      
-      return result;
-    } catch (error) {
+      const consumption = await materialRepo.recordConsumption(request.body as RecordConsumptionInput);
+      return reply.status(201).send(consumption);
+    } catch (error: any) {
       fastify.log.error(error);
+
+      if (error.message.includes('not found')) {
+        return reply.status(404).send({ error: error.message });
+      }
+
+      if (error.message.includes('does not exist') || error.message.includes('Validation failed')) {
+        return reply.status(400).send({ error: error.message });
+      }
+
       return reply.status(500).send({ error: 'Failed to record material consumption' });
     }
   });
@@ -89,16 +69,7 @@ const materialConsumptionRoutes: FastifyPluginAsync = async (fastify) => {
   }, async (request, reply) => {
     try {
       const { operationId } = request.params as { operationId: string };
-      
-      const summary = {
-        totalMaterials: 2,
-        totalPlannedCost: 950.00,
-        totalActualCost: 665.10,
-        totalWasteCost: 29.10,
-        materialEfficiency: 70.0,
-        wastePercentage: 4.2
-      };
-      
+      const summary = await materialRepo.getOperationSummary(operationId);
       return summary;
     } catch (error) {
       fastify.log.error(error);
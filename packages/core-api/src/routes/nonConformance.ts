@@ -1,20 +1,789 @@
-import { FastifyPluginAsync } from 'fastify';
-import { Type } from '@sinclair/typebox';
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { Type } from '@fastify/type-provider-typebox';
+import { NonConformanceRepository } from '../repositories/nonConformance.repository';
+import { ManufacturingOrderOperationRepository } from '../repositories/manufacturingOrderOperation.repository';
+import { ManufacturingOrderRepository } from '../repositories/manufacturingOrder.repository';
+import { NCRSeverityRuleRepository } from '../repositories/ncrSeverityRule.repository';
+import { CreateNCRRequestSchema } from '@akazify/core-domain';
+import { z } from 'zod';
 
-const nonConformanceRoutes: FastifyPluginAsync = async (fastify) => {
-  // Get NCRs
-  fastify.get('/operations/:operationId/ncrs', async (request, reply) => {
-    const mockNCRs = [
-      { id: '1', ncrNumber: 'NCR-2025-001', title: 'Dimensional variance', severity: 'MAJOR', status: 'INVESTIGATING' }
-    ];
-    return mockNCRs;
+// Request/Response schemas using TypeBox for Fastify
+const NCRSeveritySchema = Type.Union([
+  Type.Literal('MINOR'),
+  Type.Literal('MAJOR'),
+  Type.Literal('CRITICAL')
+]);
+
+const NCRStatusSchema = Type.Union([
+  Type.Literal('OPEN'),
+  Type.Literal('INVESTIGATING'),
+  Type.Literal('CORRECTIVE_ACTION'),
+  Type.Literal('RESOLVED'),
+  Type.Literal('CLOSED')
+]);
+
+const NCRCategorySchema = Type.Union([
+  Type.Literal('MATERIAL_DEFECT'),
+  Type.Literal('DIMENSIONAL'),
+  Type.Literal('SURFACE_FINISH'),
+  Type.Literal('FUNCTIONAL'),
+  Type.Literal('PACKAGING'),
+  Type.Literal('DOCUMENTATION'),
+  Type.Literal('PROCESS'),
+  Type.Literal('SAFETY'),
+  Type.Literal('OTHER')
+]);
+
+const NCRResponseSchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  ncrNumber: Type.String({ maxLength: 50 }),
+  operationId: Type.Optional(Type.String({ format: 'uuid' })),
+  manufacturingOrderId: Type.Optional(Type.String({ format: 'uuid' })),
+  qualityCheckId: Type.Optional(Type.String({ format: 'uuid' })),
+  productId: Type.String({ format: 'uuid' }),
+  lotId: Type.Optional(Type.String({ format: 'uuid' })),
+  category: NCRCategorySchema,
+  severity: NCRSeveritySchema,
+  status: NCRStatusSchema,
+  title: Type.String({ maxLength: 200 }),
+  description: Type.String({ maxLength: 1000 }),
+  rootCause: Type.Optional(Type.String({ maxLength: 500 })),
+  reportedBy: Type.String({ format: 'uuid' }),
+  reportedByName: Type.String({ maxLength: 100 }),
+  assignedTo: Type.Optional(Type.String({ format: 'uuid' })),
+  assignedToName: Type.Optional(Type.String({ maxLength: 100 })),
+  quantityAffected: Type.Number({ minimum: 0 }),
+  quantityRejected: Type.Number({ minimum: 0 }),
+  quantityReworked: Type.Number({ minimum: 0 }),
+  quantityAccepted: Type.Number({ minimum: 0 }),
+  estimatedCost: Type.Optional(Type.Number({ minimum: 0 })),
+  actualCost: Type.Optional(Type.Number({ minimum: 0 })),
+  detectedAt: Type.String({ format: 'date-time' }),
+  reportedAt: Type.String({ format: 'date-time' }),
+  targetCloseDate: Type.Optional(Type.String({ format: 'date-time' })),
+  actualCloseDate: Type.Optional(Type.String({ format: 'date-time' })),
+  immediateAction: Type.Optional(Type.String({ maxLength: 500 })),
+  correctiveAction: Type.Optional(Type.String({ maxLength: 500 })),
+  preventiveAction: Type.Optional(Type.String({ maxLength: 500 })),
+  verifiedBy: Type.Optional(Type.String({ format: 'uuid' })),
+  verifiedByName: Type.Optional(Type.String({ maxLength: 100 })),
+  verificationDate: Type.Optional(Type.String({ format: 'date-time' })),
+  verificationNotes: Type.Optional(Type.String({ maxLength: 500 })),
+  attachments: Type.Array(Type.String()),
+  references: Type.Array(Type.String()),
+  isActive: Type.Boolean({ default: true }),
+  createdAt: Type.String({ format: 'date-time' }),
+  updatedAt: Type.String({ format: 'date-time' }),
+  version: Type.Integer({ minimum: 1 }),
+});
+
+const CreateNCRSchema = Type.Object({
+  operationId: Type.Optional(Type.String({ format: 'uuid' })),
+  manufacturingOrderId: Type.Optional(Type.String({ format: 'uuid' })),
+  qualityCheckId: Type.Optional(Type.String({ format: 'uuid' })),
+  productId: Type.Optional(Type.String({ format: 'uuid' })),
+  lotId: Type.Optional(Type.String({ format: 'uuid' })),
+  category: NCRCategorySchema,
+  severity: NCRSeveritySchema,
+  title: Type.String({ minLength: 1, maxLength: 200 }),
+  description: Type.String({ minLength: 1, maxLength: 1000 }),
+  reportedBy: Type.String({ format: 'uuid' }),
+  reportedByName: Type.String({ minLength: 1, maxLength: 100 }),
+  assignedTo: Type.Optional(Type.String({ format: 'uuid' })),
+  assignedToName: Type.Optional(Type.String({ maxLength: 100 })),
+  quantityAffected: Type.Number({ minimum: 0 }),
+  estimatedCost: Type.Optional(Type.Number({ minimum: 0 })),
+  detectedAt: Type.Optional(Type.String({ format: 'date-time' })),
+  targetCloseDate: Type.Optional(Type.String({ format: 'date-time' })),
+  immediateAction: Type.Optional(Type.String({ maxLength: 500 })),
+  attachments: Type.Optional(Type.Array(Type.String())),
+  references: Type.Optional(Type.Array(Type.String())),
+});
+
+const UpdateNCRSchema = Type.Object({
+  lotId: Type.Optional(Type.String({ format: 'uuid' })),
+  category: Type.Optional(NCRCategorySchema),
+  severity: Type.Optional(NCRSeveritySchema),
+  title: Type.Optional(Type.String({ minLength: 1, maxLength: 200 })),
+  description: Type.Optional(Type.String({ minLength: 1, maxLength: 1000 })),
+  rootCause: Type.Optional(Type.String({ maxLength: 500 })),
+  assignedTo: Type.Optional(Type.String({ format: 'uuid' })),
+  assignedToName: Type.Optional(Type.String({ maxLength: 100 })),
+  quantityAffected: Type.Optional(Type.Number({ minimum: 0 })),
+  quantityRejected: Type.Optional(Type.Number({ minimum: 0 })),
+  quantityReworked: Type.Optional(Type.Number({ minimum: 0 })),
+  quantityAccepted: Type.Optional(Type.Number({ minimum: 0 })),
+  estimatedCost: Type.Optional(Type.Number({ minimum: 0 })),
+  actualCost: Type.Optional(Type.Number({ minimum: 0 })),
+  targetCloseDate: Type.Optional(Type.String({ format: 'date-time' })),
+  immediateAction: Type.Optional(Type.String({ maxLength: 500 })),
+  correctiveAction: Type.Optional(Type.String({ maxLength: 500 })),
+  preventiveAction: Type.Optional(Type.String({ maxLength: 500 })),
+  attachments: Type.Optional(Type.Array(Type.String())),
+  references: Type.Optional(Type.Array(Type.String())),
+});
+
+const StatusTransitionSchema = Type.Object({
+  status: NCRStatusSchema,
+  immediateAction: Type.Optional(Type.String({ maxLength: 500 })),
+  rootCause: Type.Optional(Type.String({ maxLength: 500 })),
+  correctiveAction: Type.Optional(Type.String({ maxLength: 500 })),
+  preventiveAction: Type.Optional(Type.String({ maxLength: 500 })),
+  quantityRejected: Type.Optional(Type.Number({ minimum: 0 })),
+  quantityReworked: Type.Optional(Type.Number({ minimum: 0 })),
+  quantityAccepted: Type.Optional(Type.Number({ minimum: 0 })),
+  actualCost: Type.Optional(Type.Number({ minimum: 0 })),
+  verifiedBy: Type.Optional(Type.String({ format: 'uuid' })),
+  verifiedByName: Type.Optional(Type.String({ maxLength: 100 })),
+  verificationDate: Type.Optional(Type.String({ format: 'date-time' })),
+  verificationNotes: Type.Optional(Type.String({ maxLength: 500 })),
+});
+
+const NCRIdParams = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+});
+
+const OperationIdParams = Type.Object({
+  operationId: Type.String({ format: 'uuid' }),
+});
+
+const NCRSummarySchema = Type.Object({
+  operationId: Type.Optional(Type.String({ format: 'uuid' })),
+  manufacturingOrderId: Type.Optional(Type.String({ format: 'uuid' })),
+  totalNCRs: Type.Integer(),
+  openNCRs: Type.Integer(),
+  investigatingNCRs: Type.Integer(),
+  resolvedNCRs: Type.Integer(),
+  closedNCRs: Type.Integer(),
+  minorNCRs: Type.Integer(),
+  majorNCRs: Type.Integer(),
+  criticalNCRs: Type.Integer(),
+  averageResolutionDays: Type.Number(),
+  overdueNCRs: Type.Integer(),
+  totalEstimatedCost: Type.Number(),
+  totalActualCost: Type.Number(),
+  lastUpdated: Type.String({ format: 'date-time' }),
+});
+
+const SummaryQuerySchema = Type.Object({
+  operationId: Type.Optional(Type.String({ format: 'uuid' })),
+  manufacturingOrderId: Type.Optional(Type.String({ format: 'uuid' })),
+});
+
+const PaginationQuerySchema = Type.Object({
+  page: Type.Optional(Type.Integer({ minimum: 1, default: 1 })),
+  limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: 50 })),
+  sortBy: Type.Optional(Type.String({ default: 'reported_at' })),
+  sortOrder: Type.Optional(Type.Union([Type.Literal('ASC'), Type.Literal('DESC')], { default: 'DESC' })),
+  manufacturingOrderId: Type.Optional(Type.String({ format: 'uuid' })),
+  operationId: Type.Optional(Type.String({ format: 'uuid' })),
+  qualityCheckId: Type.Optional(Type.String({ format: 'uuid' })),
+  productId: Type.Optional(Type.String({ format: 'uuid' })),
+  lotId: Type.Optional(Type.String({ format: 'uuid' })),
+  severity: Type.Optional(NCRSeveritySchema),
+  status: Type.Optional(NCRStatusSchema),
+  category: Type.Optional(NCRCategorySchema),
+});
+
+const PaginatedNCRResponseSchema = Type.Object({
+  data: Type.Array(NCRResponseSchema),
+  pagination: Type.Object({
+    page: Type.Integer(),
+    limit: Type.Integer(),
+    total: Type.Integer(),
+    totalPages: Type.Integer(),
+    hasNext: Type.Boolean(),
+    hasPrev: Type.Boolean(),
+  }),
+});
+
+const QualityCheckTypeSchema = Type.Union([
+  Type.Literal('VISUAL'),
+  Type.Literal('DIMENSIONAL'),
+  Type.Literal('FUNCTIONAL'),
+  Type.Literal('MATERIAL'),
+  Type.Literal('SAFETY'),
+  Type.Literal('CUSTOM'),
+]);
+
+const SeverityRuleResponseSchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  checkType: QualityCheckTypeSchema,
+  severity: NCRSeveritySchema,
+  category: NCRCategorySchema,
+  autoCreate: Type.Boolean(),
+  isActive: Type.Boolean(),
+  createdAt: Type.String({ format: 'date-time' }),
+  updatedAt: Type.String({ format: 'date-time' }),
+  version: Type.Integer(),
+});
+
+const UpsertSeverityRuleSchema = Type.Object({
+  severity: NCRSeveritySchema,
+  category: NCRCategorySchema,
+  autoCreate: Type.Optional(Type.Boolean({ default: true })),
+});
+
+const CheckTypeParams = Type.Object({
+  checkType: QualityCheckTypeSchema,
+});
+
+const ErrorResponseSchema = Type.Object({
+  error: Type.String(),
+  message: Type.String(),
+});
+
+type NCRSeverity = 'MINOR' | 'MAJOR' | 'CRITICAL';
+type NCRStatus = 'OPEN' | 'INVESTIGATING' | 'CORRECTIVE_ACTION' | 'RESOLVED' | 'CLOSED';
+type QualityCheckType = 'VISUAL' | 'DIMENSIONAL' | 'FUNCTIONAL' | 'MATERIAL' | 'SAFETY' | 'CUSTOM';
+type NCRCategory =
+  | 'MATERIAL_DEFECT' | 'DIMENSIONAL' | 'SURFACE_FINISH' | 'FUNCTIONAL'
+  | 'PACKAGING' | 'DOCUMENTATION' | 'PROCESS' | 'SAFETY' | 'OTHER';
+
+/**
+ * Non-conformance (NCR) API routes
+ */
+export default async function nonConformanceRoutes(fastify: FastifyInstance) {
+  const ncrRepository = new NonConformanceRepository(fastify.pg.pool);
+  const severityRuleRepository = new NCRSeverityRuleRepository(fastify.pg.pool);
+  const moOpRepository = new ManufacturingOrderOperationRepository(fastify.pg.pool);
+  const moRepository = new ManufacturingOrderRepository(fastify.pg.pool);
+
+  // GET /ncrs - List NCRs with filtering
+  fastify.get('/ncrs', {
+    schema: {
+      tags: ['Non-Conformance'],
+      summary: 'List NCRs',
+      description: 'Retrieve a paginated list of non-conformance reports with optional filtering',
+      querystring: PaginationQuerySchema,
+      response: {
+        200: PaginatedNCRResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Querystring: {
+      page?: number;
+      limit?: number;
+      sortBy?: string;
+      sortOrder?: 'ASC' | 'DESC';
+      manufacturingOrderId?: string;
+      operationId?: string;
+      qualityCheckId?: string;
+      productId?: string;
+      lotId?: string;
+      severity?: NCRSeverity;
+      status?: NCRStatus;
+      category?: NCRCategory;
+    };
+  }>, reply: FastifyReply) => {
+    try {
+      const { page, limit, sortBy, sortOrder, ...filters } = request.query;
+
+      const result = await ncrRepository.findWithFilters(
+        { page, limit, sortBy, sortOrder },
+        filters
+      );
+
+      return reply.code(200).send(result);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve NCRs'
+      });
+    }
+  });
+
+  // GET /ncrs/summary - Get NCR summary
+  fastify.get('/ncrs/summary', {
+    schema: {
+      tags: ['Non-Conformance'],
+      summary: 'Get NCR summary',
+      description: 'Retrieve NCR counts, resolution time and cost impact, optionally scoped to an operation or manufacturing order',
+      querystring: SummaryQuerySchema,
+      response: {
+        200: NCRSummarySchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Querystring: { operationId?: string; manufacturingOrderId?: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const summary = await ncrRepository.getSummary(request.query);
+      return reply.code(200).send(summary);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve NCR summary'
+      });
+    }
+  });
+
+  // GET /operations/:operationId/ncrs - List NCRs for an operation
+  fastify.get('/operations/:operationId/ncrs', {
+    schema: {
+      tags: ['Non-Conformance'],
+      summary: 'List NCRs for operation',
+      description: 'Retrieve non-conformance reports raised against a manufacturing order operation',
+      params: OperationIdParams,
+      response: {
+        200: Type.Array(NCRResponseSchema),
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { operationId: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { operationId } = request.params;
+      const ncrs = await ncrRepository.findByOperationId(operationId);
+      return reply.code(200).send(ncrs);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve NCRs'
+      });
+    }
+  });
+
+  // GET /operations/:operationId/ncrs/summary - Get NCR summary for an operation
+  fastify.get('/operations/:operationId/ncrs/summary', {
+    schema: {
+      tags: ['Non-Conformance'],
+      summary: 'Get NCR summary for operation',
+      description: 'Retrieve NCR summary statistics for a manufacturing order operation',
+      params: OperationIdParams,
+      response: {
+        200: NCRSummarySchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { operationId: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { operationId } = request.params;
+      const summary = await ncrRepository.getSummary({ operationId });
+      return reply.code(200).send(summary);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve NCR summary'
+      });
+    }
+  });
+
+  // GET /ncrs/:id - Get specific NCR
+  fastify.get('/ncrs/:id', {
+    schema: {
+      tags: ['Non-Conformance'],
+      summary: 'Get NCR by ID',
+      description: 'Retrieve a specific non-conformance report',
+      params: NCRIdParams,
+      response: {
+        200: NCRResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const ncr = await ncrRepository.findById(id);
+
+      if (!ncr) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `NCR with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(ncr);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve NCR'
+      });
+    }
+  });
+
+  // POST /ncrs - Create new NCR
+  fastify.post('/ncrs', {
+    schema: {
+      tags: ['Non-Conformance'],
+      summary: 'Create NCR',
+      description: 'Create a new non-conformance report with auto-generated NCR number. Manufacturing order and product are inherited from the operation when omitted.',
+      body: CreateNCRSchema,
+      response: {
+        201: NCRResponseSchema,
+        400: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Body: {
+      operationId?: string;
+      manufacturingOrderId?: string;
+      qualityCheckId?: string;
+      productId?: string;
+      lotId?: string;
+      category: NCRCategory;
+      severity: NCRSeverity;
+      title: string;
+      description: string;
+      reportedBy: string;
+      reportedByName: string;
+      assignedTo?: string;
+      assignedToName?: string;
+      quantityAffected: number;
+      estimatedCost?: number;
+      detectedAt?: string;
+      targetCloseDate?: string;
+      immediateAction?: string;
+      attachments?: string[];
+      references?: string[];
+    };
+  }>, reply: FastifyReply) => {
+    try {
+      const ncrData = { ...request.body };
+
+      // Inherit manufacturing order and product from the operation
+      if (ncrData.operationId && !ncrData.manufacturingOrderId) {
+        const operation = await moOpRepository.findById(ncrData.operationId);
+        if (!operation) {
+          return reply.code(400).send({
+            error: 'Bad Request',
+            message: `Operation with ID '${ncrData.operationId}' not found`
+          });
+        }
+        ncrData.manufacturingOrderId = operation.manufacturingOrderId;
+      }
+
+      if (!ncrData.productId && ncrData.manufacturingOrderId) {
+        const mo = await moRepository.findById(ncrData.manufacturingOrderId);
+        if (!mo) {
+          return reply.code(400).send({
+            error: 'Bad Request',
+            message: `Manufacturing order with ID '${ncrData.manufacturingOrderId}' not found`
+          });
+        }
+        ncrData.productId = mo.productId;
+      }
+
+      if (!ncrData.productId) {
+        return reply.code(400).send({
+          error: 'Validation Error',
+          message: 'productId is required when no operation or manufacturing order is given'
+        });
+      }
+
+      const now = new Date();
+
+      // Validate against domain schema
+      const validatedData = CreateNCRRequestSchema.parse({
+        ...ncrData,
+        status: 'OPEN' as const,
+        quantityRejected: 0,
+        quantityReworked: 0,
+        quantityAccepted: 0,
+        detectedAt: ncrData.detectedAt ? new Date(ncrData.detectedAt) : now,
+        reportedAt: now,
+        targetCloseDate: ncrData.targetCloseDate ? new Date(ncrData.targetCloseDate) : undefined,
+        attachments: ncrData.attachments || [],
+        references: ncrData.references || [],
+        isActive: true,
+      });
+
+      const newNCR = await ncrRepository.createWithNCRNumber(validatedData);
+      return reply.code(201).send(newNCR);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({
+          error: 'Validation Error',
+          message: error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')
+        });
+      }
+
+      // Check for foreign key violation
+      if (error.code === '23503') {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: 'Invalid operation, manufacturing order, product or lot reference'
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to create NCR'
+      });
+    }
   });
 
-  // Create NCR
-  fastify.post('/ncrs', async (request, reply) => {
-    const newNCR = { id: 'new-ncr', ncrNumber: 'NCR-2025-NEW', status: 'OPEN' };
-    return reply.status(201).send(newNCR);
+  // PUT /ncrs/:id - Update NCR
+  fastify.put('/ncrs/:id', {
+    schema: {
+      tags: ['Non-Conformance'],
+      summary: 'Update NCR',
+      description: 'Update the details of a non-conformance report. Quantities, root cause and corrective and preventive actions cannot be changed once the NCR is RESOLVED or CLOSED, and dispositioned quantities may not exceed the quantity affected.',
+      params: NCRIdParams,
+      body: UpdateNCRSchema,
+      response: {
+        200: NCRResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: {
+      lotId?: string;
+      category?: NCRCategory;
+      severity?: NCRSeverity;
+      title?: string;
+      description?: string;
+      rootCause?: string;
+      assignedTo?: string;
+      assignedToName?: string;
+      quantityAffected?: number;
+      quantityRejected?: number;
+      quantityReworked?: number;
+      quantityAccepted?: number;
+      estimatedCost?: number;
+      actualCost?: number;
+      targetCloseDate?: string;
+      immediateAction?: string;
+      correctiveAction?: string;
+      preventiveAction?: string;
+      attachments?: string[];
+      references?: string[];
+    };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { targetCloseDate, ...updateData } = request.body;
+
+      const processedData = {
+        ...updateData,
+        ...(targetCloseDate && { targetCloseDate: new Date(targetCloseDate) }),
+      };
+
+      const updatedNCR = await ncrRepository.updateDetails(id, processedData);
+
+      if (!updatedNCR) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `NCR with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(updatedNCR);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.code === '23503') {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: 'Invalid lot reference'
+        });
+      }
+
+      if (error.message.includes('Validation failed') ||
+          error.message.includes('Quantity reconciliation failed')) {
+        return reply.code(400).send({
+          error: 'Validation Error',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to update NCR'
+      });
+    }
   });
-};
 
-export default nonConformanceRoutes;
+  // PATCH /ncrs/:id/status - Move NCR through its workflow
+  fastify.patch('/ncrs/:id/status', {
+    schema: {
+      tags: ['Non-Conformance'],
+      summary: 'Transition NCR status',
+      description: 'Move an NCR through OPEN → INVESTIGATING → CORRECTIVE_ACTION → RESOLVED → CLOSED, enforcing the containment, disposition and verification fields each step requires',
+      params: NCRIdParams,
+      body: StatusTransitionSchema,
+      response: {
+        200: NCRResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: {
+      status: NCRStatus;
+      immediateAction?: string;
+      rootCause?: string;
+      correctiveAction?: string;
+      preventiveAction?: string;
+      quantityRejected?: number;
+      quantityReworked?: number;
+      quantityAccepted?: number;
+      actualCost?: number;
+      verifiedBy?: string;
+      verifiedByName?: string;
+      verificationDate?: string;
+      verificationNotes?: string;
+    };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { status, verificationDate, ...transitionData } = request.body;
+
+      const { ncr, previousStatus } = await ncrRepository.updateStatus(id, status, {
+        ...transitionData,
+        ...(verificationDate && { verificationDate: new Date(verificationDate) }),
+      });
+
+      if (fastify.eventProducer) {
+        try {
+          await fastify.eventProducer.publishNonConformanceStatusChanged({
+            ncrId: ncr.id,
+            ncrNumber: ncr.ncrNumber,
+            productId: ncr.productId,
+            manufacturingOrderId: ncr.manufacturingOrderId || undefined,
+            operationId: ncr.operationId || undefined,
+            severity: ncr.severity,
+            previousStatus,
+            newStatus: ncr.status,
+            timestamp: new Date().toISOString(),
+          });
+        } catch (publishError) {
+          fastify.log.warn({ err: publishError, ncrId: ncr.id }, 'Failed to publish NCR status event');
+        }
+      }
+
+      return reply.code(200).send(ncr);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('not found')) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('Invalid status transition')) {
+        return reply.code(400).send({
+          error: 'Invalid Transition',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('Transition requirements not met') ||
+          error.message.includes('Quantity reconciliation failed')) {
+        return reply.code(400).send({
+          error: 'Validation Error',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to update NCR status'
+      });
+    }
+  });
+
+  // GET /ncr-severity-rules - List automatic NCR severity rules
+  fastify.get('/ncr-severity-rules', {
+    schema: {
+      tags: ['Non-Conformance'],
+      summary: 'List NCR severity rules',
+      description: 'List the severity and category assigned to NCRs drafted from failed quality checks, per check type',
+      response: {
+        200: Type.Array(SeverityRuleResponseSchema),
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const rules = await severityRuleRepository.findAllRules();
+      return reply.code(200).send(rules);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to fetch NCR severity rules'
+      });
+    }
+  });
+
+  // PUT /ncr-severity-rules/:checkType - Configure severity rule for a check type
+  fastify.put('/ncr-severity-rules/:checkType', {
+    schema: {
+      tags: ['Non-Conformance'],
+      summary: 'Configure NCR severity rule',
+      description: 'Set the severity and category of NCRs drafted when a check of this type fails, or disable automatic drafting',
+      params: CheckTypeParams,
+      body: UpsertSeverityRuleSchema,
+      response: {
+        200: SeverityRuleResponseSchema,
+        400: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { checkType: QualityCheckType };
+    Body: { severity: NCRSeverity; category: NCRCategory; autoCreate?: boolean };
+  }>, reply: FastifyReply) => {
+    try {
+      const { checkType } = request.params;
+      const rule = await severityRuleRepository.upsertRule(checkType, request.body);
+      return reply.code(200).send(rule);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to update NCR severity rule'
+      });
+    }
+  });
+
+  // DELETE /ncrs/:id - Delete NCR
+  fastify.delete('/ncrs/:id', {
+    schema: {
+      tags: ['Non-Conformance'],
+      summary: 'Delete NCR',
+      description: 'Delete a non-conformance report (soft delete)',
+      params: NCRIdParams,
+      response: {
+        204: Type.Null(),
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const deleted = await ncrRepository.delete(id);
+
+      if (!deleted) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `NCR with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(204).send();
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to delete NCR'
+      });
+    }
+  });
+}
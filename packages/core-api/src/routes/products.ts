@@ -0,0 +1,382 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { Type } from '@fastify/type-provider-typebox';
+import { ProductRepository } from '../repositories/product.repository';
+import { z } from 'zod';
+
+// Request/Response schemas using TypeBox for Fastify
+const DimensionsSchema = Type.Object({
+  length: Type.Optional(Type.Number({ exclusiveMinimum: 0 })),
+  width: Type.Optional(Type.Number({ exclusiveMinimum: 0 })),
+  height: Type.Optional(Type.Number({ exclusiveMinimum: 0 })),
+  unit: Type.Optional(Type.String({ default: 'mm' })),
+});
+
+const ProductResponseSchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  sku: Type.String({ maxLength: 50 }),
+  name: Type.String({ maxLength: 200 }),
+  description: Type.Optional(Type.String()),
+  category: Type.Optional(Type.String()),
+  uom: Type.String({ maxLength: 20 }),
+  weight: Type.Optional(Type.Number()),
+  dimensions: Type.Optional(DimensionsSchema),
+  isActive: Type.Boolean({ default: true }),
+  createdAt: Type.String({ format: 'date-time' }),
+  updatedAt: Type.String({ format: 'date-time' }),
+  version: Type.Integer({ minimum: 1 }),
+});
+
+const CreateProductSchema = Type.Object({
+  sku: Type.String({ minLength: 1, maxLength: 50 }),
+  name: Type.String({ minLength: 1, maxLength: 200 }),
+  description: Type.Optional(Type.String()),
+  category: Type.Optional(Type.String({ maxLength: 100 })),
+  uom: Type.String({ minLength: 1, maxLength: 20 }),
+  weight: Type.Optional(Type.Number({ exclusiveMinimum: 0 })),
+  dimensions: Type.Optional(DimensionsSchema),
+  isActive: Type.Optional(Type.Boolean({ default: true })),
+});
+
+const UpdateProductSchema = Type.Partial(CreateProductSchema);
+
+const ProductQuerySchema = Type.Object({
+  page: Type.Optional(Type.Integer({ minimum: 1, default: 1 })),
+  limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: 50 })),
+  sortBy: Type.Optional(Type.String()),
+  sortOrder: Type.Optional(Type.Union([Type.Literal('ASC'), Type.Literal('DESC')], { default: 'ASC' })),
+  category: Type.Optional(Type.String()),
+  uom: Type.Optional(Type.String()),
+  search: Type.Optional(Type.String({ minLength: 1, maxLength: 100 })),
+  isActive: Type.Optional(Type.Boolean()),
+});
+
+const ProductIdParams = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+});
+
+const PaginatedProductResponseSchema = Type.Object({
+  data: Type.Array(ProductResponseSchema),
+  pagination: Type.Object({
+    page: Type.Integer(),
+    limit: Type.Integer(),
+    total: Type.Integer(),
+    totalPages: Type.Integer(),
+    hasNext: Type.Boolean(),
+    hasPrev: Type.Boolean(),
+  }),
+});
+
+const ProductFacetsSchema = Type.Object({
+  categories: Type.Array(Type.String()),
+  uoms: Type.Array(Type.String()),
+});
+
+const ErrorResponseSchema = Type.Object({
+  error: Type.String(),
+  message: Type.String(),
+});
+
+type Dimensions = { length?: number; width?: number; height?: number; unit?: string };
+
+/**
+ * Products API routes
+ */
+export default async function productsRoutes(fastify: FastifyInstance) {
+  const productRepository = new ProductRepository(fastify.pg.pool);
+
+  // GET /products - List products with pagination, filtering and search
+  fastify.get('/products', {
+    schema: {
+      tags: ['Products'],
+      summary: 'List products',
+      description: 'Retrieve a paginated list of products. `search` matches SKU and name by word prefix (and SKU substrings); results are ranked by relevance unless sortBy is given.',
+      querystring: ProductQuerySchema,
+      response: {
+        200: PaginatedProductResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Querystring: {
+      page?: number;
+      limit?: number;
+      sortBy?: string;
+      sortOrder?: 'ASC' | 'DESC';
+      category?: string;
+      uom?: string;
+      search?: string;
+      isActive?: boolean;
+    };
+  }>, reply: FastifyReply) => {
+    try {
+      const { page, limit, sortBy, sortOrder, ...filters } = request.query;
+
+      const result = await productRepository.findWithFilters(
+        { page, limit, sortBy, sortOrder },
+        filters
+      );
+
+      return reply.code(200).send(result);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve products'
+      });
+    }
+  });
+
+  // GET /products/facets - Get categories and units of measure in use
+  fastify.get('/products/facets', {
+    schema: {
+      tags: ['Products'],
+      summary: 'Get product facets',
+      description: 'Retrieve the distinct categories and units of measure of active products',
+      response: {
+        200: ProductFacetsSchema,
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const facets = await productRepository.getFacets();
+      return reply.code(200).send(facets);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve product facets'
+      });
+    }
+  });
+
+  // GET /products/:id - Get product by ID
+  fastify.get('/products/:id', {
+    schema: {
+      tags: ['Products'],
+      summary: 'Get product by ID',
+      description: 'Retrieve a specific product by its ID',
+      params: ProductIdParams,
+      response: {
+        200: ProductResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const product = await productRepository.findById(id);
+
+      if (!product) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Product with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(product);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve product'
+      });
+    }
+  });
+
+  // POST /products - Create new product
+  fastify.post('/products', {
+    schema: {
+      tags: ['Products'],
+      summary: 'Create product',
+      description: 'Create a new product. SKUs must be unique, including against inactive products. The unit of measure may be given as any catalogue code or alias and is stored as the code.',
+      body: CreateProductSchema,
+      response: {
+        201: ProductResponseSchema,
+        400: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Body: {
+      sku: string;
+      name: string;
+      description?: string;
+      category?: string;
+      uom: string;
+      weight?: number;
+      dimensions?: Dimensions;
+      isActive?: boolean;
+    };
+  }>, reply: FastifyReply) => {
+    try {
+      const productData = request.body;
+
+      const newProduct = await productRepository.create({
+        ...productData,
+        dimensions: productData.dimensions
+          ? { ...productData.dimensions, unit: productData.dimensions.unit ?? 'mm' }
+          : undefined,
+        isActive: productData.isActive ?? true,
+      });
+
+      return reply.code(201).send(newProduct);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({
+          error: 'Validation Error',
+          message: error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')
+        });
+      }
+
+      if (error.message?.includes('does not exist')) {
+        return reply.code(400).send({
+          error: 'Validation Error',
+          message: error.message
+        });
+      }
+
+      // Check for duplicate SKU, including a concurrent insert
+      if (error.message?.includes('already exists') || error.code === '23505') {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.code === '23505'
+            ? `Product with SKU '${request.body.sku}' already exists`
+            : error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to create product'
+      });
+    }
+  });
+
+  // PUT /products/:id - Update product
+  fastify.put('/products/:id', {
+    schema: {
+      tags: ['Products'],
+      summary: 'Update product',
+      description: 'Update an existing product. The unit of measure is stored as its catalogue code.',
+      params: ProductIdParams,
+      body: UpdateProductSchema,
+      response: {
+        200: ProductResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: {
+      sku?: string;
+      name?: string;
+      description?: string;
+      category?: string;
+      uom?: string;
+      weight?: number;
+      dimensions?: Dimensions;
+      isActive?: boolean;
+    };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { dimensions, ...updateData } = request.body;
+
+      const updatedProduct = await productRepository.update(id, {
+        ...updateData,
+        ...(dimensions && { dimensions: { ...dimensions, unit: dimensions.unit ?? 'mm' } }),
+      });
+
+      if (!updatedProduct) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Product with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(updatedProduct);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({
+          error: 'Validation Error',
+          message: error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')
+        });
+      }
+
+      if (error.message?.includes('does not exist')) {
+        return reply.code(400).send({
+          error: 'Validation Error',
+          message: error.message
+        });
+      }
+
+      if (error.message?.includes('already exists') || error.code === '23505') {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.code === '23505'
+            ? `Product with SKU '${request.body.sku}' already exists`
+            : error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to update product'
+      });
+    }
+  });
+
+  // DELETE /products/:id - Delete product
+  fastify.delete('/products/:id', {
+    schema: {
+      tags: ['Products'],
+      summary: 'Delete product',
+      description: 'Soft delete a product (sets isActive to false). Blocked while active BOMs, routings or open manufacturing orders reference the product.',
+      params: ProductIdParams,
+      response: {
+        204: Type.Null(),
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+
+      // Check if product can be deleted
+      const canDeleteResult = await productRepository.canDelete(id);
+      if (!canDeleteResult.canDelete) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: canDeleteResult.reason || 'Cannot delete product'
+        });
+      }
+
+      const deleted = await productRepository.delete(id);
+
+      if (!deleted) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Product with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(204).send();
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to delete product'
+      });
+    }
+  });
+}
@@ -0,0 +1,380 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { Type } from '@fastify/type-provider-typebox';
+import { QualityCheckTemplateRepository } from '../repositories/qualityCheckTemplate.repository';
+
+// Request/Response schemas using TypeBox for Fastify
+const QualityCheckTypeSchema = Type.Union([
+  Type.Literal('VISUAL'),
+  Type.Literal('DIMENSIONAL'),
+  Type.Literal('FUNCTIONAL'),
+  Type.Literal('MATERIAL'),
+  Type.Literal('SAFETY'),
+  Type.Literal('CUSTOM')
+]);
+
+const ChecklistItemSchema = Type.Object({
+  id: Type.String(),
+  description: Type.String(),
+  isRequired: Type.Boolean({ default: true }),
+});
+
+const TemplateResponseSchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  templateId: Type.String({ maxLength: 50 }),
+  templateVersion: Type.Integer({ minimum: 1 }),
+  isCurrent: Type.Boolean(),
+  name: Type.String({ maxLength: 200 }),
+  description: Type.Optional(Type.String({ maxLength: 1000 })),
+  workCenterTypes: Type.Array(Type.String()),
+  operationTypes: Type.Array(Type.String()),
+  productTypes: Type.Array(Type.String()),
+  type: QualityCheckTypeSchema,
+  specification: Type.Optional(Type.String({ maxLength: 500 })),
+  tolerance: Type.Optional(Type.String({ maxLength: 100 })),
+  unit: Type.Optional(Type.String({ maxLength: 20 })),
+  defaultTargetValue: Type.Optional(Type.Number()),
+  defaultMinValue: Type.Optional(Type.Number()),
+  defaultMaxValue: Type.Optional(Type.Number()),
+  isRequired: Type.Boolean(),
+  requiresSecondCheck: Type.Boolean(),
+  estimatedDuration: Type.Optional(Type.Integer()),
+  instructions: Type.Optional(Type.String({ maxLength: 2000 })),
+  checklistItems: Type.Array(ChecklistItemSchema),
+  isActive: Type.Boolean(),
+  createdAt: Type.String({ format: 'date-time' }),
+  updatedAt: Type.String({ format: 'date-time' }),
+  version: Type.Integer({ minimum: 1 }),
+});
+
+const TemplateFieldsSchema = {
+  name: Type.String({ minLength: 1, maxLength: 200 }),
+  description: Type.Optional(Type.String({ maxLength: 1000 })),
+  workCenterTypes: Type.Optional(Type.Array(Type.String())),
+  operationTypes: Type.Optional(Type.Array(Type.String())),
+  productTypes: Type.Optional(Type.Array(Type.String())),
+  type: QualityCheckTypeSchema,
+  specification: Type.Optional(Type.String({ maxLength: 500 })),
+  tolerance: Type.Optional(Type.String({ maxLength: 100 })),
+  unit: Type.Optional(Type.String({ maxLength: 20 })),
+  defaultTargetValue: Type.Optional(Type.Number()),
+  defaultMinValue: Type.Optional(Type.Number()),
+  defaultMaxValue: Type.Optional(Type.Number()),
+  isRequired: Type.Optional(Type.Boolean({ default: true })),
+  requiresSecondCheck: Type.Optional(Type.Boolean({ default: false })),
+  estimatedDuration: Type.Optional(Type.Integer({ minimum: 0 })),
+  instructions: Type.Optional(Type.String({ maxLength: 2000 })),
+  checklistItems: Type.Optional(Type.Array(ChecklistItemSchema)),
+};
+
+const CreateTemplateSchema = Type.Object({
+  templateId: Type.String({ minLength: 1, maxLength: 50 }),
+  ...TemplateFieldsSchema,
+});
+
+const ReviseTemplateSchema = Type.Partial(Type.Object(TemplateFieldsSchema));
+
+const TemplateIdParams = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+});
+
+const TemplateCodeParams = Type.Object({
+  templateId: Type.String({ minLength: 1, maxLength: 50 }),
+});
+
+const PaginationQuerySchema = Type.Object({
+  page: Type.Optional(Type.Integer({ minimum: 1, default: 1 })),
+  limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: 50 })),
+  sortBy: Type.Optional(Type.String({ default: 'template_id' })),
+  sortOrder: Type.Optional(Type.Union([Type.Literal('ASC'), Type.Literal('DESC')], { default: 'ASC' })),
+  type: Type.Optional(QualityCheckTypeSchema),
+  search: Type.Optional(Type.String()),
+  includeHistory: Type.Optional(Type.Boolean({ default: false })),
+});
+
+const PaginatedTemplateResponseSchema = Type.Object({
+  data: Type.Array(TemplateResponseSchema),
+  pagination: Type.Object({
+    page: Type.Integer(),
+    limit: Type.Integer(),
+    total: Type.Integer(),
+    totalPages: Type.Integer(),
+    hasNext: Type.Boolean(),
+    hasPrev: Type.Boolean(),
+  }),
+});
+
+const ErrorResponseSchema = Type.Object({
+  error: Type.String(),
+  message: Type.String(),
+});
+
+type QualityCheckType = 'VISUAL' | 'DIMENSIONAL' | 'FUNCTIONAL' | 'MATERIAL' | 'SAFETY' | 'CUSTOM';
+
+interface TemplateFields {
+  name: string;
+  description?: string;
+  workCenterTypes?: string[];
+  operationTypes?: string[];
+  productTypes?: string[];
+  type: QualityCheckType;
+  specification?: string;
+  tolerance?: string;
+  unit?: string;
+  defaultTargetValue?: number;
+  defaultMinValue?: number;
+  defaultMaxValue?: number;
+  isRequired?: boolean;
+  requiresSecondCheck?: boolean;
+  estimatedDuration?: number;
+  instructions?: string;
+  checklistItems?: { id: string; description: string; isRequired: boolean }[];
+}
+
+/**
+ * Quality Check Templates API routes
+ */
+export default async function qualityCheckTemplatesRoutes(fastify: FastifyInstance) {
+  const templateRepository = new QualityCheckTemplateRepository(fastify.pg.pool);
+
+  // GET /quality-check-templates - List templates
+  fastify.get('/quality-check-templates', {
+    schema: {
+      tags: ['Quality Check Templates'],
+      summary: 'List quality check templates',
+      description: 'Retrieve current template revisions, optionally including superseded revisions',
+      querystring: PaginationQuerySchema,
+      response: {
+        200: PaginatedTemplateResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Querystring: {
+      page?: number;
+      limit?: number;
+      sortBy?: string;
+      sortOrder?: 'ASC' | 'DESC';
+      type?: QualityCheckType;
+      search?: string;
+      includeHistory?: boolean;
+    };
+  }>, reply: FastifyReply) => {
+    try {
+      const { page, limit, sortBy, sortOrder, type, search, includeHistory } = request.query;
+
+      const result = await templateRepository.findWithFilters(
+        { page, limit, sortBy, sortOrder },
+        { type, search, includeHistory }
+      );
+
+      return reply.code(200).send(result);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to fetch quality check templates'
+      });
+    }
+  });
+
+  // GET /quality-check-templates/:id - Get template revision by ID
+  fastify.get('/quality-check-templates/:id', {
+    schema: {
+      tags: ['Quality Check Templates'],
+      summary: 'Get quality check template',
+      description: 'Retrieve a specific template revision',
+      params: TemplateIdParams,
+      response: {
+        200: TemplateResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const template = await templateRepository.findById(id);
+
+      if (!template) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Quality check template with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(template);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to fetch quality check template'
+      });
+    }
+  });
+
+  // GET /quality-check-templates/code/:templateId/revisions - Template revision history
+  fastify.get('/quality-check-templates/code/:templateId/revisions', {
+    schema: {
+      tags: ['Quality Check Templates'],
+      summary: 'List template revisions',
+      description: 'Retrieve every revision of a template, newest first',
+      params: TemplateCodeParams,
+      response: {
+        200: Type.Array(TemplateResponseSchema),
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { templateId: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { templateId } = request.params;
+      const revisions = await templateRepository.findRevisions(templateId);
+
+      if (revisions.length === 0) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Quality check template '${templateId}' not found`
+        });
+      }
+
+      return reply.code(200).send(revisions);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to fetch template revisions'
+      });
+    }
+  });
+
+  // POST /quality-check-templates - Create template
+  fastify.post('/quality-check-templates', {
+    schema: {
+      tags: ['Quality Check Templates'],
+      summary: 'Create quality check template',
+      description: 'Create revision 1 of a new quality check template',
+      body: CreateTemplateSchema,
+      response: {
+        201: TemplateResponseSchema,
+        400: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Body: TemplateFields & { templateId: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const templateData = request.body;
+
+      const newTemplate = await templateRepository.createTemplate({
+        ...templateData,
+        workCenterTypes: templateData.workCenterTypes || [],
+        operationTypes: templateData.operationTypes || [],
+        productTypes: templateData.productTypes || [],
+        checklistItems: templateData.checklistItems || [],
+        isRequired: templateData.isRequired ?? true,
+        requiresSecondCheck: templateData.requiresSecondCheck ?? false,
+        isActive: true,
+      });
+
+      return reply.code(201).send(newTemplate);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.code === '23505') {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: `Quality check template '${request.body.templateId}' already exists`
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to create quality check template'
+      });
+    }
+  });
+
+  // PUT /quality-check-templates/:id - Revise template
+  fastify.put('/quality-check-templates/:id', {
+    schema: {
+      tags: ['Quality Check Templates'],
+      summary: 'Revise quality check template',
+      description: 'Create a new revision of a template. The previous revision is kept so existing checks remain traceable.',
+      params: TemplateIdParams,
+      body: ReviseTemplateSchema,
+      response: {
+        200: TemplateResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: Partial<TemplateFields>;
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const revision = await templateRepository.createRevision(id, request.body);
+      return reply.code(200).send(revision);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('not found')) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('superseded')) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to revise quality check template'
+      });
+    }
+  });
+
+  // DELETE /quality-check-templates/:id - Delete template
+  fastify.delete('/quality-check-templates/:id', {
+    schema: {
+      tags: ['Quality Check Templates'],
+      summary: 'Delete quality check template',
+      description: 'Retire a template and all of its revisions (soft delete)',
+      params: TemplateIdParams,
+      response: {
+        204: Type.Null(),
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const deleted = await templateRepository.delete(id);
+
+      if (!deleted) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Quality check template with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(204).send();
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to delete quality check template'
+      });
+    }
+  });
+}
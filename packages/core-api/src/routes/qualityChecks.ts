@@ -1,6 +1,9 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { Type } from '@fastify/type-provider-typebox';
 import { QualityCheckRepository } from '../repositories/qualityCheck.repository';
+import { ManufacturingOrderOperationRepository } from '../repositories/manufacturingOrderOperation.repository';
+import { QualityCheckTemplateRepository } from '../repositories/qualityCheckTemplate.repository';
+import { SPCRepository } from '../repositories/spc.repository';
 
 // Request/Response schemas using TypeBox for Fastify
 const QualityCheckResponseSchema = Type.Object({
@@ -9,6 +12,9 @@ const QualityCheckResponseSchema = Type.Object({
   manufacturingOrderId: Type.String({ format: 'uuid' }),
   operationId: Type.Optional(Type.String({ format: 'uuid' })),
   workCenterId: Type.Optional(Type.String({ format: 'uuid' })),
+  lotId: Type.Optional(Type.String({ format: 'uuid' })),
+  serialNumberId: Type.Optional(Type.String({ format: 'uuid' })),
+  templateId: Type.Optional(Type.String({ format: 'uuid' })),
   name: Type.String({ maxLength: 200 }),
   description: Type.Optional(Type.String({ maxLength: 1000 })),
   type: Type.Union([
@@ -28,6 +34,7 @@ const QualityCheckResponseSchema = Type.Object({
   status: Type.Union([
     Type.Literal('PENDING'),
     Type.Literal('IN_PROGRESS'),
+    Type.Literal('PENDING_VERIFICATION'),
     Type.Literal('PASSED'),
     Type.Literal('FAILED'),
     Type.Literal('SKIPPED')
@@ -42,6 +49,12 @@ const QualityCheckResponseSchema = Type.Object({
   ])),
   measuredValue: Type.Optional(Type.Number()),
   notes: Type.Optional(Type.String({ maxLength: 1000 })),
+  checklistItems: Type.Optional(Type.Array(Type.Object({
+    id: Type.String(),
+    description: Type.String(),
+    isRequired: Type.Boolean(),
+    completed: Type.Boolean(),
+  }))),
   plannedStartTime: Type.Optional(Type.String({ format: 'date-time' })),
   actualStartTime: Type.Optional(Type.String({ format: 'date-time' })),
   plannedEndTime: Type.Optional(Type.String({ format: 'date-time' })),
@@ -56,6 +69,13 @@ const QualityCheckResponseSchema = Type.Object({
     Type.Literal('CONDITIONAL_PASS'),
     Type.Literal('NOT_APPLICABLE')
   ])),
+  secondCheckMeasuredValue: Type.Optional(Type.Number()),
+  secondCheckNotes: Type.Optional(Type.String({ maxLength: 1000 })),
+  secondCheckAt: Type.Optional(Type.String({ format: 'date-time' })),
+  supervisorReviewRequired: Type.Boolean({ default: false }),
+  supervisorReviewBy: Type.Optional(Type.String({ format: 'uuid' })),
+  supervisorReviewAt: Type.Optional(Type.String({ format: 'date-time' })),
+  supervisorReviewNotes: Type.Optional(Type.String({ maxLength: 1000 })),
   nonConformanceId: Type.Optional(Type.String({ format: 'uuid' })),
   correctiveAction: Type.Optional(Type.String({ maxLength: 500 })),
   isActive: Type.Boolean({ default: true }),
@@ -78,6 +98,8 @@ const CreateQualityCheckSchema = Type.Object({
   manufacturingOrderId: Type.String({ format: 'uuid' }),
   operationId: Type.Optional(Type.String({ format: 'uuid' })),
   workCenterId: Type.Optional(Type.String({ format: 'uuid' })),
+  lotId: Type.Optional(Type.String({ format: 'uuid' })),
+  serialNumberId: Type.Optional(Type.String({ format: 'uuid' })),
   name: Type.String({ minLength: 1, maxLength: 200 }),
   description: Type.Optional(Type.String({ maxLength: 1000 })),
   type: Type.Union([
@@ -125,6 +147,29 @@ const RecordResultsSchema = Type.Object({
   inspectorName: Type.Optional(Type.String({ maxLength: 100 })),
 });
 
+const RecordSecondCheckSchema = Type.Object({
+  result: Type.Union([
+    Type.Literal('PASS'),
+    Type.Literal('FAIL'),
+    Type.Literal('CONDITIONAL_PASS'),
+    Type.Literal('NOT_APPLICABLE')
+  ]),
+  inspectorId: Type.String({ format: 'uuid' }),
+  measuredValue: Type.Optional(Type.Number()),
+  notes: Type.Optional(Type.String({ maxLength: 1000 })),
+});
+
+const SupervisorReviewSchema = Type.Object({
+  result: Type.Union([
+    Type.Literal('PASS'),
+    Type.Literal('FAIL'),
+    Type.Literal('CONDITIONAL_PASS'),
+    Type.Literal('NOT_APPLICABLE')
+  ]),
+  supervisorId: Type.String({ format: 'uuid' }),
+  notes: Type.Optional(Type.String({ maxLength: 1000 })),
+});
+
 const QualityCheckIdParams = Type.Object({
   id: Type.String({ format: 'uuid' }),
 });
@@ -141,6 +186,7 @@ const QualitySummarySchema = Type.Object({
   totalChecks: Type.Integer(),
   pendingChecks: Type.Integer(),
   inProgressChecks: Type.Integer(),
+  pendingVerificationChecks: Type.Integer(),
   passedChecks: Type.Integer(),
   failedChecks: Type.Integer(),
   skippedChecks: Type.Integer(),
@@ -156,7 +202,7 @@ const QualitySummarySchema = Type.Object({
 });
 
 const CreateFromTemplatesSchema = Type.Object({
-  templateIds: Type.Array(Type.String()),
+  templateIds: Type.Array(Type.String(), { minItems: 1 }),
 });
 
 const PaginationQuerySchema = Type.Object({
@@ -170,6 +216,7 @@ const PaginationQuerySchema = Type.Object({
   status: Type.Optional(Type.Union([
     Type.Literal('PENDING'),
     Type.Literal('IN_PROGRESS'),
+    Type.Literal('PENDING_VERIFICATION'),
     Type.Literal('PASSED'),
     Type.Literal('FAILED'),
     Type.Literal('SKIPPED')
@@ -183,6 +230,7 @@ const PaginationQuerySchema = Type.Object({
   inspectorId: Type.Optional(Type.String({ format: 'uuid' })),
   checkType: Type.Optional(Type.String()),
   isRequired: Type.Optional(Type.Boolean()),
+  supervisorReviewRequired: Type.Optional(Type.Boolean()),
 });
 
 const PaginatedQualityCheckResponseSchema = Type.Object({
@@ -202,6 +250,9 @@ const PaginatedQualityCheckResponseSchema = Type.Object({
  */
 export default async function qualityChecksRoutes(fastify: FastifyInstance) {
   const qcRepository = new QualityCheckRepository(fastify.pg.pool);
+  const moOpRepository = new ManufacturingOrderOperationRepository(fastify.pg.pool);
+  const templateRepository = new QualityCheckTemplateRepository(fastify.pg.pool);
+  const spcRepository = new SPCRepository(fastify.pg.pool);
 
   // GET /manufacturing-orders/:moId/quality-checks - List quality checks for MO
   fastify.get('/manufacturing-orders/:moId/quality-checks', {
@@ -262,11 +313,19 @@ export default async function qualityChecksRoutes(fastify: FastifyInstance) {
     schema: {
       tags: ['Quality Checks'],
       summary: 'Create quality checks from templates',
-      description: 'Create quality checks for an operation using templates',
+      description: 'Create quality checks for an operation from template IDs or template codes, copying template defaults and honouring template scoping',
       params: OperationIdParams,
       body: CreateFromTemplatesSchema,
       response: {
         201: Type.Array(QualityCheckResponseSchema),
+        400: Type.Object({
+          error: Type.String(),
+          message: Type.String(),
+        }),
+        404: Type.Object({
+          error: Type.String(),
+          message: Type.String(),
+        }),
       },
     },
   }, async (request: FastifyRequest<{
@@ -277,16 +336,43 @@ export default async function qualityChecksRoutes(fastify: FastifyInstance) {
       const { operationId } = request.params;
       const { templateIds } = request.body;
 
-      // For now, we need to get the MO and work center from the operation
-      // In a real implementation, we'd fetch the operation details first
-      const manufacturingOrderId = 'sample-mo-id'; // Would fetch from operation
-      const workCenterId = 'sample-wc-id'; // Would fetch from operation
+      const operation = await moOpRepository.findWithContext(operationId);
+      if (!operation) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Operation with ID '${operationId}' not found`
+        });
+      }
+
+      const templates = await templateRepository.findForInstantiation(templateIds);
+      const missing = templateIds.filter(ref =>
+        !templates.some(template => template.id === ref || template.templateId === ref)
+      );
+      if (missing.length > 0) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Quality check template(s) not found: ${missing.join(', ')}`
+        });
+      }
+
+      const scope = {
+        workCenterType: operation.workCenterCategory,
+        operationType: operation.operationId,
+        productType: operation.productCategory,
+      };
+      const outOfScope = templates.filter(template => !templateRepository.isApplicable(template, scope));
+      if (outOfScope.length > 0) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: `Template(s) not applicable to this operation's work center or product: ${outOfScope.map(t => t.templateId).join(', ')}`
+        });
+      }
 
       const createdChecks = await qcRepository.createFromTemplates(
-        manufacturingOrderId, 
-        operationId, 
-        workCenterId, 
-        templateIds
+        operation.manufacturingOrderId,
+        operationId,
+        operation.workCenterId,
+        templates
       );
       return reply.code(201).send(createdChecks);
     } catch (error: any) {
@@ -318,23 +404,24 @@ export default async function qualityChecksRoutes(fastify: FastifyInstance) {
       manufacturingOrderId?: string;
       operationId?: string;
       workCenterId?: string;
-      status?: 'PENDING' | 'IN_PROGRESS' | 'PASSED' | 'FAILED' | 'SKIPPED';
+      status?: 'PENDING' | 'IN_PROGRESS' | 'PENDING_VERIFICATION' | 'PASSED' | 'FAILED' | 'SKIPPED';
       result?: 'PASS' | 'FAIL' | 'CONDITIONAL_PASS' | 'NOT_APPLICABLE';
       inspectorId?: string;
       checkType?: string;
       isRequired?: boolean;
+      supervisorReviewRequired?: boolean;
     };
   }>, reply: FastifyReply) => {
     try {
       const { 
         page, limit, sortBy, sortOrder, 
         manufacturingOrderId, operationId, workCenterId, 
-        status, result, inspectorId, checkType, isRequired 
+        status, result, inspectorId, checkType, isRequired, supervisorReviewRequired
       } = request.query;
       
       const result_data = await qcRepository.findWithDetails(
         { page, limit, sortBy, sortOrder },
-        { manufacturingOrderId, operationId, workCenterId, status, result, inspectorId, checkType, isRequired }
+        { manufacturingOrderId, operationId, workCenterId, status, result, inspectorId, checkType, isRequired, supervisorReviewRequired }
       );
       
       return reply.code(200).send(result_data);
@@ -403,6 +490,8 @@ export default async function qualityChecksRoutes(fastify: FastifyInstance) {
       manufacturingOrderId: string;
       operationId?: string;
       workCenterId?: string;
+      lotId?: string;
+      serialNumberId?: string;
       name: string;
       description?: string;
       type: 'VISUAL' | 'DIMENSIONAL' | 'FUNCTIONAL' | 'MATERIAL' | 'SAFETY' | 'CUSTOM';
@@ -504,7 +593,7 @@ export default async function qualityChecksRoutes(fastify: FastifyInstance) {
     schema: {
       tags: ['Quality Checks'],
       summary: 'Record inspection results',
-      description: 'Record the results of a quality inspection',
+      description: 'Record the results of a quality inspection. A failed required check, or a measured value outside its limits, drafts an NCR linked to the check. Checks that require a second check wait in PENDING_VERIFICATION instead. Measurements are evaluated against the SPC run rules and violations are published as events.',
       params: QualityCheckIdParams,
       body: RecordResultsSchema,
       response: {
@@ -517,6 +606,10 @@ export default async function qualityChecksRoutes(fastify: FastifyInstance) {
           error: Type.String(),
           message: Type.String(),
         }),
+        409: Type.Object({
+          error: Type.String(),
+          message: Type.String(),
+        }),
       },
     },
   }, async (request: FastifyRequest<{
@@ -533,9 +626,30 @@ export default async function qualityChecksRoutes(fastify: FastifyInstance) {
       const { id } = request.params;
       const { result, measuredValue, notes, inspectorId, inspectorName } = request.body;
 
-      const updatedQualityCheck = await qcRepository.recordResults(
-        id, result, measuredValue, notes, inspectorId, inspectorName
-      );
+      const updatedQualityCheck = await qcRepository.recordResults(id, result, measuredValue, notes, inspectorId, inspectorName);
+
+      // Announce SPC rule violations the new measurement takes part in
+      if (updatedQualityCheck && measuredValue !== undefined && fastify.eventProducer) {
+        try {
+          const evaluation = await spcRepository.findViolationsForCheck(id);
+          if (evaluation) {
+            for (const violation of evaluation.violations) {
+              await fastify.eventProducer.publishSPCRuleViolation({
+                ...evaluation.key,
+                qualityCheckId: id,
+                measuredValue: evaluation.value,
+                ruleSet: violation.ruleSet,
+                rule: violation.rule,
+                description: violation.description,
+                timestamp: new Date().toISOString(),
+              });
+            }
+          }
+        } catch (publishError) {
+          fastify.log.warn({ err: publishError, qualityCheckId: id }, 'Failed to publish SPC rule violations');
+        }
+      }
+
       return reply.code(200).send(updatedQualityCheck);
     } catch (error: any) {
       fastify.log.error(error);
@@ -547,6 +661,20 @@ export default async function qualityChecksRoutes(fastify: FastifyInstance) {
         });
       }
       
+      if (error.message.includes('Inspector ID is required')) {
+        return reply.code(400).send({
+          error: 'Validation Error',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('already been recorded')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+      
       return reply.code(500).send({ 
         error: 'Internal Server Error',
         message: 'Failed to record inspection results'
@@ -554,6 +682,147 @@ export default async function qualityChecksRoutes(fastify: FastifyInstance) {
     }
   });
 
+  // PUT /quality-checks/:id/second-check - Record the verifying result
+  fastify.put('/quality-checks/:id/second-check', {
+    schema: {
+      tags: ['Quality Checks'],
+      summary: 'Record second check',
+      description: 'Record the independent second result for a check that requires one. It must come from a different inspector. Matching results finalize the check; a disagreement flags it for supervisor review.',
+      params: QualityCheckIdParams,
+      body: RecordSecondCheckSchema,
+      response: {
+        200: QualityCheckResponseSchema,
+        400: Type.Object({
+          error: Type.String(),
+          message: Type.String(),
+        }),
+        404: Type.Object({
+          error: Type.String(),
+          message: Type.String(),
+        }),
+        409: Type.Object({
+          error: Type.String(),
+          message: Type.String(),
+        }),
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: {
+      result: 'PASS' | 'FAIL' | 'CONDITIONAL_PASS' | 'NOT_APPLICABLE';
+      inspectorId: string;
+      measuredValue?: number;
+      notes?: string;
+    };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { result, inspectorId, measuredValue, notes } = request.body;
+
+      const updatedQualityCheck = await qcRepository.recordSecondCheck(id, result, inspectorId, measuredValue, notes);
+
+      return reply.code(200).send(updatedQualityCheck);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('not found')) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('different inspector') || error.message.includes('does not require')) {
+        return reply.code(400).send({
+          error: 'Validation Error',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('not awaiting verification')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to record second check'
+      });
+    }
+  });
+
+  // PUT /quality-checks/:id/supervisor-review - Resolve disagreeing results
+  fastify.put('/quality-checks/:id/supervisor-review', {
+    schema: {
+      tags: ['Quality Checks'],
+      summary: 'Resolve supervisor review',
+      description: 'Decide the result of a check whose first and second results disagree. The supervisor must be neither of the two inspectors.',
+      params: QualityCheckIdParams,
+      body: SupervisorReviewSchema,
+      response: {
+        200: QualityCheckResponseSchema,
+        400: Type.Object({
+          error: Type.String(),
+          message: Type.String(),
+        }),
+        404: Type.Object({
+          error: Type.String(),
+          message: Type.String(),
+        }),
+        409: Type.Object({
+          error: Type.String(),
+          message: Type.String(),
+        }),
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: {
+      result: 'PASS' | 'FAIL' | 'CONDITIONAL_PASS' | 'NOT_APPLICABLE';
+      supervisorId: string;
+      notes?: string;
+    };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { result, supervisorId, notes } = request.body;
+
+      const updatedQualityCheck = await qcRepository.resolveSupervisorReview(id, result, supervisorId, notes);
+
+      return reply.code(200).send(updatedQualityCheck);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('not found')) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('someone other than')) {
+        return reply.code(400).send({
+          error: 'Validation Error',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('not awaiting supervisor review')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to resolve supervisor review'
+      });
+    }
+  });
+
   // DELETE /quality-checks/:id - Delete quality check
   fastify.delete('/quality-checks/:id', {
     schema: {
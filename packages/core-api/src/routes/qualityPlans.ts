@@ -0,0 +1,343 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { Type } from '@fastify/type-provider-typebox';
+import { QualityPlanRepository, QualityPlanItemInput } from '../repositories/qualityPlan.repository';
+
+// Request/Response schemas using TypeBox for Fastify
+const SamplingFrequencySchema = Type.Union([
+  Type.Literal('PER_OPERATION'),
+  Type.Literal('FIRST_PIECE'),
+  Type.Literal('FIRST_AND_LAST'),
+  Type.Literal('EVERY_N_UNITS')
+]);
+
+const QualityPlanItemResponseSchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  qualityPlanId: Type.String({ format: 'uuid' }),
+  routingStepId: Type.String({ format: 'uuid' }),
+  templateCode: Type.String(),
+  samplingFrequency: SamplingFrequencySchema,
+  samplingInterval: Type.Optional(Type.Integer()),
+  isActive: Type.Boolean(),
+  createdAt: Type.String({ format: 'date-time' }),
+  updatedAt: Type.String({ format: 'date-time' }),
+  version: Type.Integer(),
+});
+
+const QualityPlanResponseSchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  productId: Type.String({ format: 'uuid' }),
+  routingId: Type.String({ format: 'uuid' }),
+  name: Type.String(),
+  description: Type.Optional(Type.String()),
+  items: Type.Optional(Type.Array(QualityPlanItemResponseSchema)),
+  isActive: Type.Boolean(),
+  createdAt: Type.String({ format: 'date-time' }),
+  updatedAt: Type.String({ format: 'date-time' }),
+  version: Type.Integer(),
+});
+
+const QualityPlanItemInputSchema = Type.Object({
+  routingStepId: Type.String({ format: 'uuid' }),
+  templateCode: Type.String({ minLength: 1, maxLength: 50 }),
+  samplingFrequency: Type.Optional(SamplingFrequencySchema),
+  samplingInterval: Type.Optional(Type.Integer({ minimum: 1 })),
+});
+
+const CreateQualityPlanSchema = Type.Object({
+  productId: Type.String({ format: 'uuid' }),
+  routingId: Type.String({ format: 'uuid' }),
+  name: Type.String({ minLength: 1, maxLength: 200 }),
+  description: Type.Optional(Type.String({ maxLength: 1000 })),
+  items: Type.Array(QualityPlanItemInputSchema),
+});
+
+const UpdateQualityPlanSchema = Type.Object({
+  name: Type.Optional(Type.String({ minLength: 1, maxLength: 200 })),
+  description: Type.Optional(Type.String({ maxLength: 1000 })),
+  items: Type.Optional(Type.Array(QualityPlanItemInputSchema)),
+});
+
+const QualityPlanIdParams = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+});
+
+const PaginationQuerySchema = Type.Object({
+  page: Type.Optional(Type.Integer({ minimum: 1, default: 1 })),
+  limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: 50 })),
+  sortBy: Type.Optional(Type.String({ default: 'created_at' })),
+  sortOrder: Type.Optional(Type.Union([Type.Literal('ASC'), Type.Literal('DESC')], { default: 'DESC' })),
+  productId: Type.Optional(Type.String({ format: 'uuid' })),
+  routingId: Type.Optional(Type.String({ format: 'uuid' })),
+});
+
+const PaginatedQualityPlanResponseSchema = Type.Object({
+  data: Type.Array(QualityPlanResponseSchema),
+  pagination: Type.Object({
+    page: Type.Integer(),
+    limit: Type.Integer(),
+    total: Type.Integer(),
+    totalPages: Type.Integer(),
+    hasNext: Type.Boolean(),
+    hasPrev: Type.Boolean(),
+  }),
+});
+
+const ErrorResponseSchema = Type.Object({
+  error: Type.String(),
+  message: Type.String(),
+});
+
+/**
+ * Validate sampling settings that JSON schema cannot express
+ */
+function validateItems(items: QualityPlanItemInput[]): string | null {
+  const invalid = items.find(item => item.samplingFrequency === 'EVERY_N_UNITS' && !item.samplingInterval);
+  return invalid
+    ? `samplingInterval is required for EVERY_N_UNITS (routing step ${invalid.routingStepId})`
+    : null;
+}
+
+/**
+ * Quality Plans API routes
+ */
+export default async function qualityPlansRoutes(fastify: FastifyInstance) {
+  const planRepository = new QualityPlanRepository(fastify.pg.pool);
+
+  // GET /quality-plans - List quality plans
+  fastify.get('/quality-plans', {
+    schema: {
+      tags: ['Quality Plans'],
+      summary: 'List quality plans',
+      description: 'Retrieve a paginated list of quality plans, optionally filtered by product or routing',
+      querystring: PaginationQuerySchema,
+      response: {
+        200: PaginatedQualityPlanResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Querystring: {
+      page?: number;
+      limit?: number;
+      sortBy?: string;
+      sortOrder?: 'ASC' | 'DESC';
+      productId?: string;
+      routingId?: string;
+    };
+  }>, reply: FastifyReply) => {
+    try {
+      const { page, limit, sortBy, sortOrder, productId, routingId } = request.query;
+
+      const result = await planRepository.findWithFilters(
+        { page, limit, sortBy, sortOrder },
+        { productId, routingId }
+      );
+
+      return reply.code(200).send(result);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to fetch quality plans'
+      });
+    }
+  });
+
+  // GET /quality-plans/:id - Get quality plan with items
+  fastify.get('/quality-plans/:id', {
+    schema: {
+      tags: ['Quality Plans'],
+      summary: 'Get quality plan',
+      description: 'Retrieve a quality plan and its routing step items',
+      params: QualityPlanIdParams,
+      response: {
+        200: QualityPlanResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const plan = await planRepository.findById(id);
+
+      if (!plan) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Quality plan with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(plan);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to fetch quality plan'
+      });
+    }
+  });
+
+  // POST /quality-plans - Create quality plan
+  fastify.post('/quality-plans', {
+    schema: {
+      tags: ['Quality Plans'],
+      summary: 'Create quality plan',
+      description: 'Define the check templates and sampling for each routing step of a product routing',
+      body: CreateQualityPlanSchema,
+      response: {
+        201: QualityPlanResponseSchema,
+        400: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Body: {
+      productId: string;
+      routingId: string;
+      name: string;
+      description?: string;
+      items: QualityPlanItemInput[];
+    };
+  }>, reply: FastifyReply) => {
+    try {
+      const { items, ...planData } = request.body;
+
+      const itemError = validateItems(items);
+      if (itemError) {
+        return reply.code(400).send({
+          error: 'Validation Error',
+          message: itemError
+        });
+      }
+
+      const plan = await planRepository.createWithItems(planData, items);
+      return reply.code(201).send(plan);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.code === '23505') {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: 'A quality plan already exists for this product and routing'
+        });
+      }
+
+      if (error.code === '23503') {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: 'Invalid product or routing reference'
+        });
+      }
+
+      if (error.message.includes('does not belong to routing')) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to create quality plan'
+      });
+    }
+  });
+
+  // PUT /quality-plans/:id - Update quality plan
+  fastify.put('/quality-plans/:id', {
+    schema: {
+      tags: ['Quality Plans'],
+      summary: 'Update quality plan',
+      description: 'Update plan details; when items are supplied they replace the current items. Checks already generated are not affected.',
+      params: QualityPlanIdParams,
+      body: UpdateQualityPlanSchema,
+      response: {
+        200: QualityPlanResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: {
+      name?: string;
+      description?: string;
+      items?: QualityPlanItemInput[];
+    };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { items, ...planData } = request.body;
+
+      const itemError = items ? validateItems(items) : null;
+      if (itemError) {
+        return reply.code(400).send({
+          error: 'Validation Error',
+          message: itemError
+        });
+      }
+
+      const plan = await planRepository.updateWithItems(id, planData, items);
+
+      if (!plan) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Quality plan with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(plan);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('does not belong to routing')) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to update quality plan'
+      });
+    }
+  });
+
+  // DELETE /quality-plans/:id - Delete quality plan
+  fastify.delete('/quality-plans/:id', {
+    schema: {
+      tags: ['Quality Plans'],
+      summary: 'Delete quality plan',
+      description: 'Delete a quality plan (soft delete)',
+      params: QualityPlanIdParams,
+      response: {
+        204: Type.Null(),
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const deleted = await planRepository.delete(id);
+
+      if (!deleted) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Quality plan with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(204).send();
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to delete quality plan'
+      });
+    }
+  });
+}
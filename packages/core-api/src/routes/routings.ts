@@ -0,0 +1,878 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { Type } from '@fastify/type-provider-typebox';
+import { RoutingRepository } from '../repositories/routing.repository';
+
+// Request/Response schemas using TypeBox for Fastify
+const RoutingStepAlternateResponseSchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  routingStepId: Type.String({ format: 'uuid' }),
+  workCenterId: Type.String({ format: 'uuid' }),
+  workCenterCode: Type.Optional(Type.String()),
+  workCenterName: Type.Optional(Type.String()),
+  priority: Type.Integer({ minimum: 1, description: 'Order alternates are tried in, 1 first' }),
+  runRateMultiplier: Type.Number({ description: 'Applied to the step run time at this work center' }),
+  isActive: Type.Boolean(),
+  createdAt: Type.String({ format: 'date-time' }),
+  updatedAt: Type.String({ format: 'date-time' }),
+  version: Type.Integer(),
+});
+
+const RoutingStepResponseSchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  routingId: Type.String({ format: 'uuid' }),
+  workCenterId: Type.String({ format: 'uuid' }),
+  workCenterCode: Type.Optional(Type.String()),
+  workCenterName: Type.Optional(Type.String()),
+  operationId: Type.String({ maxLength: 50 }),
+  name: Type.String({ maxLength: 100 }),
+  description: Type.Optional(Type.String()),
+  sequence: Type.Integer({ minimum: 1 }),
+  setupTime: Type.Optional(Type.Integer({ description: 'Minutes' })),
+  runTime: Type.Optional(Type.Number({ description: 'Minutes per unit' })),
+  teardownTime: Type.Optional(Type.Integer({ description: 'Minutes' })),
+  alternates: Type.Optional(Type.Array(RoutingStepAlternateResponseSchema)),
+  isActive: Type.Boolean(),
+  createdAt: Type.String({ format: 'date-time' }),
+  updatedAt: Type.String({ format: 'date-time' }),
+  version: Type.Integer(),
+});
+
+const RoutingResponseSchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  productId: Type.String({ format: 'uuid' }),
+  productSku: Type.Optional(Type.String()),
+  productName: Type.Optional(Type.String()),
+  revision: Type.String({ maxLength: 10 }),
+  name: Type.String({ maxLength: 100 }),
+  description: Type.Optional(Type.String()),
+  isDefault: Type.Boolean(),
+  alternatePriority: Type.Optional(Type.Integer({ minimum: 1 })),
+  steps: Type.Optional(Type.Array(RoutingStepResponseSchema)),
+  isActive: Type.Boolean({ default: true }),
+  createdAt: Type.String({ format: 'date-time' }),
+  updatedAt: Type.String({ format: 'date-time' }),
+  version: Type.Integer({ minimum: 1 }),
+});
+
+const CreateRoutingSchema = Type.Object({
+  productId: Type.String({ format: 'uuid' }),
+  revision: Type.String({ minLength: 1, maxLength: 10 }),
+  name: Type.String({ minLength: 1, maxLength: 100 }),
+  description: Type.Optional(Type.String()),
+  isDefault: Type.Optional(Type.Boolean()),
+  alternatePriority: Type.Optional(Type.Integer({ minimum: 1 })),
+});
+
+const UpdateRoutingSchema = Type.Object({
+  name: Type.Optional(Type.String({ minLength: 1, maxLength: 100 })),
+  description: Type.Optional(Type.String()),
+  alternatePriority: Type.Optional(Type.Union([Type.Integer({ minimum: 1 }), Type.Null()])),
+});
+
+const CreateRoutingStepSchema = Type.Object({
+  workCenterId: Type.String({ format: 'uuid' }),
+  operationId: Type.String({ minLength: 1, maxLength: 50 }),
+  name: Type.String({ minLength: 1, maxLength: 100 }),
+  description: Type.Optional(Type.String()),
+  sequence: Type.Optional(Type.Integer({ minimum: 1 })),
+  setupTime: Type.Optional(Type.Integer({ minimum: 0 })),
+  runTime: Type.Optional(Type.Number({ minimum: 0 })),
+  teardownTime: Type.Optional(Type.Integer({ minimum: 0 })),
+});
+
+const UpdateRoutingStepSchema = Type.Partial(CreateRoutingStepSchema);
+
+const CreateAlternateSchema = Type.Object({
+  workCenterId: Type.String({ format: 'uuid' }),
+  priority: Type.Optional(Type.Integer({ minimum: 1 })),
+  runRateMultiplier: Type.Optional(Type.Number({ exclusiveMinimum: 0, maximum: 999 })),
+});
+
+const UpdateAlternateSchema = Type.Object({
+  priority: Type.Optional(Type.Integer({ minimum: 1 })),
+  runRateMultiplier: Type.Optional(Type.Number({ exclusiveMinimum: 0, maximum: 999 })),
+});
+
+const ReorderStepsSchema = Type.Object({
+  stepIds: Type.Array(Type.String({ format: 'uuid' }), { minItems: 1 }),
+});
+
+const StandardTimeQuerySchema = Type.Object({
+  quantity: Type.Number({ exclusiveMinimum: 0 }),
+});
+
+const StepStandardTimeSchema = Type.Object({
+  routingStepId: Type.String({ format: 'uuid' }),
+  sequence: Type.Integer(),
+  operationId: Type.String(),
+  name: Type.String(),
+  workCenterId: Type.String({ format: 'uuid' }),
+  setupTime: Type.Number(),
+  runTime: Type.Number(),
+  teardownTime: Type.Number(),
+  totalTime: Type.Number(),
+});
+
+const StandardTimeResponseSchema = Type.Object({
+  routingId: Type.String({ format: 'uuid' }),
+  quantity: Type.Number(),
+  setupTime: Type.Number(),
+  runTime: Type.Number(),
+  teardownTime: Type.Number(),
+  totalTime: Type.Number(),
+  steps: Type.Array(StepStandardTimeSchema),
+});
+
+const RoutingIdParams = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+});
+
+const RoutingStepParams = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  stepId: Type.String({ format: 'uuid' }),
+});
+
+const RoutingStepAlternateParams = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  stepId: Type.String({ format: 'uuid' }),
+  alternateId: Type.String({ format: 'uuid' }),
+});
+
+const PaginationQuerySchema = Type.Object({
+  page: Type.Optional(Type.Integer({ minimum: 1, default: 1 })),
+  limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: 50 })),
+  sortBy: Type.Optional(Type.String({ default: 'created_at' })),
+  sortOrder: Type.Optional(Type.Union([Type.Literal('ASC'), Type.Literal('DESC')], { default: 'DESC' })),
+  productId: Type.Optional(Type.String({ format: 'uuid' })),
+  isDefault: Type.Optional(Type.Boolean()),
+  isAlternate: Type.Optional(Type.Boolean()),
+});
+
+const PaginatedRoutingResponseSchema = Type.Object({
+  data: Type.Array(RoutingResponseSchema),
+  pagination: Type.Object({
+    page: Type.Integer(),
+    limit: Type.Integer(),
+    total: Type.Integer(),
+    totalPages: Type.Integer(),
+    hasNext: Type.Boolean(),
+    hasPrev: Type.Boolean(),
+  }),
+});
+
+const ErrorResponseSchema = Type.Object({
+  error: Type.String(),
+  message: Type.String(),
+});
+
+type RoutingStepBody = {
+  workCenterId: string;
+  operationId: string;
+  name: string;
+  description?: string;
+  sequence?: number;
+  setupTime?: number;
+  runTime?: number;
+  teardownTime?: number;
+};
+
+/**
+ * Routing API routes
+ */
+export default async function routingRoutes(fastify: FastifyInstance) {
+  const routingRepository = new RoutingRepository(fastify.pg.pool);
+
+  // GET /routings - List routings with filtering
+  fastify.get('/routings', {
+    schema: {
+      tags: ['Routings'],
+      summary: 'List routings',
+      description: 'Retrieve a paginated list of routing versions without their steps, optionally filtered by product, default flag or whether they are alternates',
+      querystring: PaginationQuerySchema,
+      response: {
+        200: PaginatedRoutingResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Querystring: {
+      page?: number;
+      limit?: number;
+      sortBy?: string;
+      sortOrder?: 'ASC' | 'DESC';
+      productId?: string;
+      isDefault?: boolean;
+      isAlternate?: boolean;
+    };
+  }>, reply: FastifyReply) => {
+    try {
+      const { page, limit, sortBy, sortOrder, ...filters } = request.query;
+
+      const result = await routingRepository.findWithFilters(
+        { page, limit, sortBy, sortOrder },
+        filters
+      );
+
+      return reply.code(200).send(result);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve routings'
+      });
+    }
+  });
+
+  // GET /routings/:id - Get routing by ID
+  fastify.get('/routings/:id', {
+    schema: {
+      tags: ['Routings'],
+      summary: 'Get routing by ID',
+      description: 'Retrieve a routing with its steps in sequence order',
+      params: RoutingIdParams,
+      response: {
+        200: RoutingResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const routing = await routingRepository.findById(id);
+
+      if (!routing) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Routing with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(routing);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve routing'
+      });
+    }
+  });
+
+  // GET /routings/:id/standard-time - Standard time for a quantity
+  fastify.get('/routings/:id/standard-time', {
+    schema: {
+      tags: ['Routings'],
+      summary: 'Get routing standard time',
+      description: 'Compute the standard time in minutes to make a quantity: setup and teardown once per step plus run time per unit, broken down by step',
+      params: RoutingIdParams,
+      querystring: StandardTimeQuerySchema,
+      response: {
+        200: StandardTimeResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Querystring: { quantity: number };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const standardTime = await routingRepository.getStandardTime(id, request.query.quantity);
+
+      if (!standardTime) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Routing with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(standardTime);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to compute routing standard time'
+      });
+    }
+  });
+
+  // POST /routings - Create routing
+  fastify.post('/routings', {
+    schema: {
+      tags: ['Routings'],
+      summary: 'Create routing',
+      description: 'Create a routing version for a product. Versions are unique per product; the first routing of a product becomes its default unless it is created as an alternate. Alternates are tried in priority order when the default cannot run.',
+      body: CreateRoutingSchema,
+      response: {
+        201: RoutingResponseSchema,
+        400: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Body: {
+      productId: string;
+      revision: string;
+      name: string;
+      description?: string;
+      isDefault?: boolean;
+      alternatePriority?: number;
+    };
+  }>, reply: FastifyReply) => {
+    try {
+      const routing = await routingRepository.createRouting(request.body);
+      return reply.code(201).send(routing);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('does not exist') || error.message.includes('Validation failed')) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('already exists')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to create routing'
+      });
+    }
+  });
+
+  // PUT /routings/:id - Update routing
+  fastify.put('/routings/:id', {
+    schema: {
+      tags: ['Routings'],
+      summary: 'Update routing',
+      description: 'Update the name or description of a routing, or its alternate priority (null stops it being an alternate). The default routing cannot be an alternate.',
+      params: RoutingIdParams,
+      body: UpdateRoutingSchema,
+      response: {
+        200: RoutingResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: { name?: string; description?: string; alternatePriority?: number | null };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const routing = await routingRepository.updateRouting(id, request.body);
+
+      if (!routing) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Routing with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(routing);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('Validation failed')) {
+        return reply.code(400).send({
+          error: 'Validation Error',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('already exists') || error.message.includes('cannot be modified')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to update routing'
+      });
+    }
+  });
+
+  // PUT /routings/:id/default - Make a routing the product's default
+  fastify.put('/routings/:id/default', {
+    schema: {
+      tags: ['Routings'],
+      summary: 'Set default routing',
+      description: 'Make a routing the default version for its product, replacing the previous default. An alternate routing made default stops being an alternate.',
+      params: RoutingIdParams,
+      response: {
+        200: RoutingResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const routing = await routingRepository.setDefault(id);
+
+      if (!routing) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Routing with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(routing);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to set default routing'
+      });
+    }
+  });
+
+  // DELETE /routings/:id - Delete routing
+  fastify.delete('/routings/:id', {
+    schema: {
+      tags: ['Routings'],
+      summary: 'Delete routing',
+      description: 'Soft delete a routing. Routings used by open manufacturing orders or active quality plans cannot be deleted.',
+      params: RoutingIdParams,
+      response: {
+        204: Type.Null(),
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+
+      // Check if routing can be deleted
+      const canDeleteResult = await routingRepository.canDelete(id);
+      if (!canDeleteResult.canDelete) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: canDeleteResult.reason || 'Cannot delete routing'
+        });
+      }
+
+      const deleted = await routingRepository.delete(id);
+
+      if (!deleted) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Routing with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(204).send();
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to delete routing'
+      });
+    }
+  });
+
+  // POST /routings/:id/steps - Add a step
+  fastify.post('/routings/:id/steps', {
+    schema: {
+      tags: ['Routings'],
+      summary: 'Add routing step',
+      description: 'Add an operation at an active work center. Without a sequence the step is placed 10 after the last step.',
+      params: RoutingIdParams,
+      body: CreateRoutingStepSchema,
+      response: {
+        201: RoutingStepResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: RoutingStepBody;
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const step = await routingRepository.addStep(id, request.body);
+
+      if (!step) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Routing with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(201).send(step);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('does not exist')) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('already exists') || error.message.includes('cannot be modified')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to add routing step'
+      });
+    }
+  });
+
+  // PUT /routings/:id/steps/order - Reorder steps
+  fastify.put('/routings/:id/steps/order', {
+    schema: {
+      tags: ['Routings'],
+      summary: 'Reorder routing steps',
+      description: 'Renumber the steps 10, 20, 30, ... in the order given. Every active step must be listed exactly once.',
+      params: RoutingIdParams,
+      body: ReorderStepsSchema,
+      response: {
+        200: RoutingResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: { stepIds: string[] };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const routing = await routingRepository.reorderSteps(id, request.body.stepIds);
+
+      if (!routing) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Routing with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(routing);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('Validation failed')) {
+        return reply.code(400).send({
+          error: 'Validation Error',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('cannot be modified')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to reorder routing steps'
+      });
+    }
+  });
+
+  // PUT /routings/:id/steps/:stepId - Update a step
+  fastify.put('/routings/:id/steps/:stepId', {
+    schema: {
+      tags: ['Routings'],
+      summary: 'Update routing step',
+      description: 'Update a routing step. A new work center must be active.',
+      params: RoutingStepParams,
+      body: UpdateRoutingStepSchema,
+      response: {
+        200: RoutingStepResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string; stepId: string };
+    Body: Partial<RoutingStepBody>;
+  }>, reply: FastifyReply) => {
+    try {
+      const { id, stepId } = request.params;
+      const step = await routingRepository.updateStep(id, stepId, request.body);
+
+      if (!step) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Routing with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(step);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('not found')) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('does not exist')) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('already exists') || error.message.includes('cannot be modified')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to update routing step'
+      });
+    }
+  });
+
+  // DELETE /routings/:id/steps/:stepId - Remove a step
+  fastify.delete('/routings/:id/steps/:stepId', {
+    schema: {
+      tags: ['Routings'],
+      summary: 'Remove routing step',
+      description: 'Remove a step from a routing. Steps inspected by quality plans cannot be removed.',
+      params: RoutingStepParams,
+      response: {
+        204: Type.Null(),
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string; stepId: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id, stepId } = request.params;
+      const removed = await routingRepository.removeStep(id, stepId);
+
+      if (!removed) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Routing with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(204).send();
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('not found')) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('cannot be removed') || error.message.includes('cannot be modified')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to remove routing step'
+      });
+    }
+  });
+
+  // POST /routings/:id/steps/:stepId/alternates - Add an alternate work center
+  fastify.post('/routings/:id/steps/:stepId/alternates', {
+    schema: {
+      tags: ['Routings'],
+      summary: 'Add routing step alternate',
+      description: 'Add an active backup work center to a step with its own run-rate multiplier. Alternates are tried in priority order when the step\'s work center is inactive or has equipment down; without a priority the alternate goes last.',
+      params: RoutingStepParams,
+      body: CreateAlternateSchema,
+      response: {
+        201: RoutingStepAlternateResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string; stepId: string };
+    Body: { workCenterId: string; priority?: number; runRateMultiplier?: number };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id, stepId } = request.params;
+      const alternate = await routingRepository.addAlternate(id, stepId, request.body);
+
+      if (!alternate) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Routing with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(201).send(alternate);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('not found')) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('does not exist') || error.message.includes('Validation failed')) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('already exists') || error.message.includes('cannot be modified')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to add routing step alternate'
+      });
+    }
+  });
+
+  // PUT /routings/:id/steps/:stepId/alternates/:alternateId - Update an alternate
+  fastify.put('/routings/:id/steps/:stepId/alternates/:alternateId', {
+    schema: {
+      tags: ['Routings'],
+      summary: 'Update routing step alternate',
+      description: 'Change the priority or run-rate multiplier of a step alternate',
+      params: RoutingStepAlternateParams,
+      body: UpdateAlternateSchema,
+      response: {
+        200: RoutingStepAlternateResponseSchema,
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string; stepId: string; alternateId: string };
+    Body: { priority?: number; runRateMultiplier?: number };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id, stepId, alternateId } = request.params;
+      const alternate = await routingRepository.updateAlternate(id, stepId, alternateId, request.body);
+
+      if (!alternate) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Routing with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(alternate);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('not found')) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('already exists') || error.message.includes('cannot be modified')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to update routing step alternate'
+      });
+    }
+  });
+
+  // DELETE /routings/:id/steps/:stepId/alternates/:alternateId - Remove an alternate
+  fastify.delete('/routings/:id/steps/:stepId/alternates/:alternateId', {
+    schema: {
+      tags: ['Routings'],
+      summary: 'Remove routing step alternate',
+      description: 'Remove a backup work center from a routing step',
+      params: RoutingStepAlternateParams,
+      response: {
+        204: Type.Null(),
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string; stepId: string; alternateId: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id, stepId, alternateId } = request.params;
+      const removed = await routingRepository.removeAlternate(id, stepId, alternateId);
+
+      if (!removed) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Routing with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(204).send();
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('not found')) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('cannot be modified')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to remove routing step alternate'
+      });
+    }
+  });
+}
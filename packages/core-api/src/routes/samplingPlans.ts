@@ -0,0 +1,674 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { Type } from '@fastify/type-provider-typebox';
+import { SamplingPlanRepository, SampleResultInput } from '../repositories/samplingPlan.repository';
+
+// Request/Response schemas using TypeBox for Fastify
+const InspectionStageSchema = Type.Union([
+  Type.Literal('RECEIVING'),
+  Type.Literal('IN_PROCESS'),
+  Type.Literal('FINAL'),
+  Type.Literal('SHIPPING')
+]);
+
+const InspectionLevelSchema = Type.Union([
+  Type.Literal('S1'),
+  Type.Literal('S2'),
+  Type.Literal('S3'),
+  Type.Literal('S4'),
+  Type.Literal('I'),
+  Type.Literal('II'),
+  Type.Literal('III')
+]);
+
+const InspectionSeveritySchema = Type.Union([
+  Type.Literal('NORMAL'),
+  Type.Literal('TIGHTENED'),
+  Type.Literal('REDUCED')
+]);
+
+const SampleInspectionStatusSchema = Type.Union([
+  Type.Literal('IN_PROGRESS'),
+  Type.Literal('ACCEPTED'),
+  Type.Literal('REJECTED')
+]);
+
+const SamplingPlanResponseSchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  code: Type.String(),
+  name: Type.String(),
+  description: Type.Optional(Type.String()),
+  inspectionStage: InspectionStageSchema,
+  productId: Type.Optional(Type.String({ format: 'uuid' })),
+  aql: Type.Number(),
+  inspectionLevel: InspectionLevelSchema,
+  allowReduced: Type.Boolean(),
+  currentSeverity: InspectionSeveritySchema,
+  switchingScore: Type.Integer(),
+  recentLotResults: Type.Array(Type.Boolean()),
+  consecutiveAccepted: Type.Integer(),
+  tightenedRejections: Type.Integer(),
+  isSuspended: Type.Boolean(),
+  isActive: Type.Boolean(),
+  createdAt: Type.String({ format: 'date-time' }),
+  updatedAt: Type.String({ format: 'date-time' }),
+  version: Type.Integer(),
+});
+
+const SampleSizeResponseSchema = Type.Object({
+  lotSize: Type.Integer(),
+  severity: InspectionSeveritySchema,
+  codeLetter: Type.String(),
+  sampleSize: Type.Integer(),
+  acceptNumber: Type.Integer(),
+  rejectNumber: Type.Integer(),
+});
+
+const SampleResultResponseSchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  sampleInspectionId: Type.String({ format: 'uuid' }),
+  sampleNumber: Type.Integer(),
+  result: Type.Union([Type.Literal('PASS'), Type.Literal('FAIL')]),
+  measuredValue: Type.Optional(Type.Number()),
+  notes: Type.Optional(Type.String()),
+  inspectorId: Type.Optional(Type.String({ format: 'uuid' })),
+  inspectedAt: Type.String({ format: 'date-time' }),
+});
+
+const SampleInspectionResponseSchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  samplingPlanId: Type.String({ format: 'uuid' }),
+  lotId: Type.Optional(Type.String({ format: 'uuid' })),
+  operationId: Type.Optional(Type.String({ format: 'uuid' })),
+  qualityCheckId: Type.Optional(Type.String({ format: 'uuid' })),
+  lotSize: Type.Integer(),
+  severity: InspectionSeveritySchema,
+  codeLetter: Type.String(),
+  sampleSize: Type.Integer(),
+  acceptNumber: Type.Integer(),
+  rejectNumber: Type.Integer(),
+  samplesInspected: Type.Integer(),
+  nonconformingCount: Type.Integer(),
+  status: SampleInspectionStatusSchema,
+  decidedAt: Type.Optional(Type.String({ format: 'date-time' })),
+  results: Type.Optional(Type.Array(SampleResultResponseSchema)),
+  isActive: Type.Boolean(),
+  createdAt: Type.String({ format: 'date-time' }),
+  updatedAt: Type.String({ format: 'date-time' }),
+  version: Type.Integer(),
+});
+
+const CreateSamplingPlanSchema = Type.Object({
+  code: Type.String({ minLength: 1, maxLength: 50 }),
+  name: Type.String({ minLength: 1, maxLength: 200 }),
+  description: Type.Optional(Type.String({ maxLength: 1000 })),
+  inspectionStage: InspectionStageSchema,
+  productId: Type.Optional(Type.String({ format: 'uuid' })),
+  aql: Type.Number({ exclusiveMinimum: 0, maximum: 10, description: 'Preferred AQL value, e.g. 0.65, 1.0, 2.5' }),
+  inspectionLevel: Type.Optional(InspectionLevelSchema),
+  allowReduced: Type.Optional(Type.Boolean({ default: true })),
+});
+
+const UpdateSamplingPlanSchema = Type.Object({
+  name: Type.Optional(Type.String({ minLength: 1, maxLength: 200 })),
+  description: Type.Optional(Type.String({ maxLength: 1000 })),
+  aql: Type.Optional(Type.Number({ exclusiveMinimum: 0, maximum: 10 })),
+  inspectionLevel: Type.Optional(InspectionLevelSchema),
+  allowReduced: Type.Optional(Type.Boolean()),
+});
+
+const StartInspectionSchema = Type.Object({
+  lotId: Type.Optional(Type.String({ format: 'uuid', description: 'Inventory lot; its quantity is the lot size' })),
+  operationId: Type.Optional(Type.String({ format: 'uuid', description: 'MO operation; its planned quantity is the lot size' })),
+  qualityCheckId: Type.Optional(Type.String({ format: 'uuid', description: 'Quality check that receives the lot decision' })),
+});
+
+const RecordSampleResultsSchema = Type.Object({
+  inspectorId: Type.Optional(Type.String({ format: 'uuid' })),
+  results: Type.Array(Type.Object({
+    sampleNumber: Type.Integer({ minimum: 1 }),
+    result: Type.Union([Type.Literal('PASS'), Type.Literal('FAIL')]),
+    measuredValue: Type.Optional(Type.Number()),
+    notes: Type.Optional(Type.String({ maxLength: 1000 })),
+  }), { minItems: 1 }),
+});
+
+const IdParams = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+});
+
+const PaginationSchema = Type.Object({
+  page: Type.Integer(),
+  limit: Type.Integer(),
+  total: Type.Integer(),
+  totalPages: Type.Integer(),
+  hasNext: Type.Boolean(),
+  hasPrev: Type.Boolean(),
+});
+
+const ErrorResponseSchema = Type.Object({
+  error: Type.String(),
+  message: Type.String(),
+});
+
+type InspectionStage = 'RECEIVING' | 'IN_PROCESS' | 'FINAL' | 'SHIPPING';
+type InspectionLevel = 'S1' | 'S2' | 'S3' | 'S4' | 'I' | 'II' | 'III';
+
+/**
+ * Sampling plan and sample inspection API routes
+ */
+export default async function samplingPlansRoutes(fastify: FastifyInstance) {
+  const samplingPlanRepository = new SamplingPlanRepository(fastify.pg.pool);
+
+  // GET /sampling-plans - List sampling plans
+  fastify.get('/sampling-plans', {
+    schema: {
+      tags: ['Sampling Plans'],
+      summary: 'List sampling plans',
+      description: 'Retrieve sampling plans, optionally filtered by inspection stage or product (plans without a product apply to all products)',
+      querystring: Type.Object({
+        page: Type.Optional(Type.Integer({ minimum: 1, default: 1 })),
+        limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: 50 })),
+        inspectionStage: Type.Optional(InspectionStageSchema),
+        productId: Type.Optional(Type.String({ format: 'uuid' })),
+      }),
+      response: {
+        200: Type.Object({
+          data: Type.Array(SamplingPlanResponseSchema),
+          pagination: PaginationSchema,
+        }),
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Querystring: {
+      page?: number;
+      limit?: number;
+      inspectionStage?: InspectionStage;
+      productId?: string;
+    };
+  }>, reply: FastifyReply) => {
+    try {
+      const { page, limit, inspectionStage, productId } = request.query;
+      const result = await samplingPlanRepository.findWithFilters({ page, limit }, { inspectionStage, productId });
+      return reply.code(200).send(result);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to fetch sampling plans'
+      });
+    }
+  });
+
+  // GET /sampling-plans/:id - Get sampling plan
+  fastify.get('/sampling-plans/:id', {
+    schema: {
+      tags: ['Sampling Plans'],
+      summary: 'Get sampling plan',
+      description: 'Retrieve a sampling plan with its current switching state',
+      params: IdParams,
+      response: {
+        200: SamplingPlanResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const plan = await samplingPlanRepository.findById(id);
+
+      if (!plan) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Sampling plan with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(plan);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to fetch sampling plan'
+      });
+    }
+  });
+
+  // POST /sampling-plans - Create sampling plan
+  fastify.post('/sampling-plans', {
+    schema: {
+      tags: ['Sampling Plans'],
+      summary: 'Create sampling plan',
+      description: 'Create an ANSI/ASQ Z1.4 single sampling plan. Inspection starts at normal severity.',
+      body: CreateSamplingPlanSchema,
+      response: {
+        201: SamplingPlanResponseSchema,
+        400: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Body: {
+      code: string;
+      name: string;
+      description?: string;
+      inspectionStage: InspectionStage;
+      productId?: string;
+      aql: number;
+      inspectionLevel?: InspectionLevel;
+      allowReduced?: boolean;
+    };
+  }>, reply: FastifyReply) => {
+    try {
+      const plan = await samplingPlanRepository.createPlan(request.body);
+      return reply.code(201).send(plan);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('Invalid AQL')) {
+        return reply.code(400).send({
+          error: 'Validation Error',
+          message: error.message
+        });
+      }
+
+      if (error.code === '23505') {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: `Sampling plan with code '${request.body.code}' already exists`
+        });
+      }
+
+      if (error.code === '23503') {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: 'Invalid product reference'
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to create sampling plan'
+      });
+    }
+  });
+
+  // PUT /sampling-plans/:id - Update sampling plan
+  fastify.put('/sampling-plans/:id', {
+    schema: {
+      tags: ['Sampling Plans'],
+      summary: 'Update sampling plan',
+      description: 'Update the plan definition. Inspections already started keep the sample size they were given.',
+      params: IdParams,
+      body: UpdateSamplingPlanSchema,
+      response: {
+        200: SamplingPlanResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: {
+      name?: string;
+      description?: string;
+      aql?: number;
+      inspectionLevel?: InspectionLevel;
+      allowReduced?: boolean;
+    };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const plan = await samplingPlanRepository.updatePlan(id, request.body);
+
+      if (!plan) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Sampling plan with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(plan);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('Invalid AQL')) {
+        return reply.code(400).send({
+          error: 'Validation Error',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to update sampling plan'
+      });
+    }
+  });
+
+  // DELETE /sampling-plans/:id - Delete sampling plan
+  fastify.delete('/sampling-plans/:id', {
+    schema: {
+      tags: ['Sampling Plans'],
+      summary: 'Delete sampling plan',
+      description: 'Delete a sampling plan (soft delete)',
+      params: IdParams,
+      response: {
+        204: Type.Null(),
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const deleted = await samplingPlanRepository.delete(id);
+
+      if (!deleted) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Sampling plan with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(204).send();
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to delete sampling plan'
+      });
+    }
+  });
+
+  // GET /sampling-plans/:id/sample-size - Calculate sample size for a lot size
+  fastify.get('/sampling-plans/:id/sample-size', {
+    schema: {
+      tags: ['Sampling Plans'],
+      summary: 'Calculate sample size',
+      description: 'Sample size code letter, sample size and accept/reject numbers for a lot size at the plan\'s current severity',
+      params: IdParams,
+      querystring: Type.Object({
+        lotSize: Type.Integer({ minimum: 1 }),
+      }),
+      response: {
+        200: SampleSizeResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Querystring: { lotSize: number };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const sampleSize = await samplingPlanRepository.calculateSampleSize(id, request.query.lotSize);
+
+      if (!sampleSize) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Sampling plan with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(sampleSize);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to calculate sample size'
+      });
+    }
+  });
+
+  // POST /sampling-plans/:id/reinstate - Resume a discontinued plan
+  fastify.post('/sampling-plans/:id/reinstate', {
+    schema: {
+      tags: ['Sampling Plans'],
+      summary: 'Reinstate sampling plan',
+      description: 'Resume inspection after it was discontinued on tightened inspection. Inspection resumes at tightened severity.',
+      params: IdParams,
+      response: {
+        200: SamplingPlanResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const plan = await samplingPlanRepository.reinstate(id);
+
+      if (!plan) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Sampling plan with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(plan);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('not suspended')) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to reinstate sampling plan'
+      });
+    }
+  });
+
+  // POST /sampling-plans/:id/inspections - Start a sample inspection
+  fastify.post('/sampling-plans/:id/inspections', {
+    schema: {
+      tags: ['Sampling Plans'],
+      summary: 'Start sample inspection',
+      description: 'Start inspecting a lot or an operation\'s output. The lot size comes from the lot quantity or the operation\'s planned quantity.',
+      params: IdParams,
+      body: StartInspectionSchema,
+      response: {
+        201: SampleInspectionResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: { lotId?: string; operationId?: string; qualityCheckId?: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const inspection = await samplingPlanRepository.startInspection(request.params.id, request.body);
+      return reply.code(201).send(inspection);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('not found')) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('suspended')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('required') || error.message.includes('Invalid lot size')) {
+        return reply.code(400).send({
+          error: 'Validation Error',
+          message: error.message
+        });
+      }
+
+      if (error.code === '23503') {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: 'Invalid quality check reference'
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to start sample inspection'
+      });
+    }
+  });
+
+  // GET /sample-inspections - List sample inspections
+  fastify.get('/sample-inspections', {
+    schema: {
+      tags: ['Sampling Plans'],
+      summary: 'List sample inspections',
+      description: 'Retrieve sample inspections filtered by plan, lot, operation or status',
+      querystring: Type.Object({
+        page: Type.Optional(Type.Integer({ minimum: 1, default: 1 })),
+        limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: 50 })),
+        samplingPlanId: Type.Optional(Type.String({ format: 'uuid' })),
+        lotId: Type.Optional(Type.String({ format: 'uuid' })),
+        operationId: Type.Optional(Type.String({ format: 'uuid' })),
+        status: Type.Optional(SampleInspectionStatusSchema),
+      }),
+      response: {
+        200: Type.Object({
+          data: Type.Array(SampleInspectionResponseSchema),
+          pagination: PaginationSchema,
+        }),
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Querystring: {
+      page?: number;
+      limit?: number;
+      samplingPlanId?: string;
+      lotId?: string;
+      operationId?: string;
+      status?: string;
+    };
+  }>, reply: FastifyReply) => {
+    try {
+      const { page, limit, ...filters } = request.query;
+      const result = await samplingPlanRepository.findInspections({ page, limit }, filters);
+      return reply.code(200).send(result);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to fetch sample inspections'
+      });
+    }
+  });
+
+  // GET /sample-inspections/:id - Get sample inspection
+  fastify.get('/sample-inspections/:id', {
+    schema: {
+      tags: ['Sampling Plans'],
+      summary: 'Get sample inspection',
+      description: 'Retrieve a sample inspection with its per-sample results',
+      params: IdParams,
+      response: {
+        200: SampleInspectionResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const inspection = await samplingPlanRepository.findInspectionById(id);
+
+      if (!inspection) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Sample inspection with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(inspection);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to fetch sample inspection'
+      });
+    }
+  });
+
+  // POST /sample-inspections/:id/results - Record sample results
+  fastify.post('/sample-inspections/:id/results', {
+    schema: {
+      tags: ['Sampling Plans'],
+      summary: 'Record sample results',
+      description: 'Record pass/fail results for sample units. The lot is rejected when the rejection number is reached and accepted when the full sample is within the acceptance number; the decision drives the plan\'s switching rules.',
+      params: IdParams,
+      body: RecordSampleResultsSchema,
+      response: {
+        200: SampleInspectionResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: { inspectorId?: string; results: SampleResultInput[] };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { results, inspectorId } = request.body;
+
+      const inspection = await samplingPlanRepository.recordSampleResults(id, results, inspectorId);
+      return reply.code(200).send(inspection);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('not found')) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('Invalid sample number') ||
+          error.message.includes('Inspector ID is required')) {
+        return reply.code(400).send({
+          error: 'Validation Error',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('already')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      if (error.code === '23505') {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: 'A result has already been recorded for one of these sample numbers'
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to record sample results'
+      });
+    }
+  });
+}
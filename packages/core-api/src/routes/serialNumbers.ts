@@ -0,0 +1,639 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { Type } from '@fastify/type-provider-typebox';
+import { SerialNumberRepository } from '../repositories/serialNumber.repository';
+
+// Request/Response schemas using TypeBox for Fastify
+const SerialNumberStatusSchema = Type.Union([
+  Type.Literal('AVAILABLE'),
+  Type.Literal('ALLOCATED'),
+  Type.Literal('CONSUMED'),
+  Type.Literal('SCRAPPED')
+]);
+
+const SerialNumberResponseSchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  productId: Type.String({ format: 'uuid' }),
+  productSku: Type.Optional(Type.String()),
+  productName: Type.Optional(Type.String()),
+  serialNumber: Type.String(),
+  lotId: Type.Optional(Type.String({ format: 'uuid' })),
+  lotNumber: Type.Optional(Type.String()),
+  status: SerialNumberStatusSchema,
+  locationId: Type.Optional(Type.String({ format: 'uuid' })),
+  locationCode: Type.Optional(Type.String()),
+  binId: Type.Optional(Type.String({ format: 'uuid' })),
+  binCode: Type.Optional(Type.String()),
+  manufacturingOrderId: Type.Optional(Type.String({ format: 'uuid' })),
+  orderNumber: Type.Optional(Type.String()),
+  allocatedOperationId: Type.Optional(Type.String({ format: 'uuid' })),
+  isActive: Type.Boolean(),
+  createdAt: Type.String({ format: 'date-time' }),
+  updatedAt: Type.String({ format: 'date-time' }),
+  version: Type.Integer(),
+});
+
+const SerialNumberEventResponseSchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  serialNumberId: Type.String({ format: 'uuid' }),
+  eventType: Type.Union([
+    Type.Literal('REGISTERED'),
+    Type.Literal('MOVED'),
+    Type.Literal('ALLOCATED'),
+    Type.Literal('DEALLOCATED'),
+    Type.Literal('INSTALLED'),
+    Type.Literal('SCRAPPED')
+  ]),
+  fromStatus: Type.Optional(SerialNumberStatusSchema),
+  toStatus: SerialNumberStatusSchema,
+  fromLocationId: Type.Optional(Type.String({ format: 'uuid' })),
+  fromBinId: Type.Optional(Type.String({ format: 'uuid' })),
+  toLocationId: Type.Optional(Type.String({ format: 'uuid' })),
+  toBinId: Type.Optional(Type.String({ format: 'uuid' })),
+  operationId: Type.Optional(Type.String({ format: 'uuid' })),
+  reason: Type.Optional(Type.String()),
+  performedBy: Type.Optional(Type.String({ format: 'uuid' })),
+  createdAt: Type.String({ format: 'date-time' }),
+});
+
+const AsBuiltComponentResponseSchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  serialNumberId: Type.String({ format: 'uuid' }),
+  operationId: Type.String({ format: 'uuid' }),
+  operationSequence: Type.Optional(Type.Integer()),
+  operationCode: Type.Optional(Type.String()),
+  productId: Type.String({ format: 'uuid' }),
+  productSku: Type.Optional(Type.String()),
+  componentSerialId: Type.Optional(Type.String({ format: 'uuid' })),
+  componentSerialNumber: Type.Optional(Type.String()),
+  lotId: Type.Optional(Type.String({ format: 'uuid' })),
+  lotNumber: Type.Optional(Type.String()),
+  materialConsumptionId: Type.Optional(Type.String({ format: 'uuid' })),
+  quantity: Type.Number(),
+  uom: Type.String(),
+  installedBy: Type.Optional(Type.String({ format: 'uuid' })),
+  notes: Type.Optional(Type.String()),
+  installedAt: Type.String({ format: 'date-time' }),
+});
+
+const AsBuiltResponseSchema = Type.Object({
+  serialNumber: SerialNumberResponseSchema,
+  components: Type.Array(AsBuiltComponentResponseSchema),
+  qualityChecks: Type.Array(Type.Object({
+    id: Type.String({ format: 'uuid' }),
+    checkId: Type.String(),
+    name: Type.String(),
+    type: Type.String(),
+    operationId: Type.Optional(Type.String({ format: 'uuid' })),
+    serialNumberId: Type.Optional(Type.String({ format: 'uuid' })),
+    status: Type.String(),
+    result: Type.Optional(Type.String()),
+    measuredValue: Type.Optional(Type.Number()),
+    unit: Type.Optional(Type.String()),
+    inspectorId: Type.Optional(Type.String({ format: 'uuid' })),
+    inspectorName: Type.Optional(Type.String()),
+    completedAt: Type.Optional(Type.String({ format: 'date-time' })),
+  })),
+  installedIn: Type.Optional(Type.Intersect([
+    AsBuiltComponentResponseSchema,
+    Type.Object({ parentSerialNumber: Type.String() }),
+  ])),
+});
+
+const PaginatedSerialNumberResponseSchema = Type.Object({
+  data: Type.Array(SerialNumberResponseSchema),
+  pagination: Type.Object({
+    page: Type.Integer(),
+    limit: Type.Integer(),
+    total: Type.Integer(),
+    totalPages: Type.Integer(),
+    hasNext: Type.Boolean(),
+    hasPrev: Type.Boolean(),
+  }),
+});
+
+const SharedRegistrationProperties = {
+  productId: Type.String({ format: 'uuid' }),
+  lotId: Type.Optional(Type.String({ format: 'uuid' })),
+  locationId: Type.Optional(Type.String({ format: 'uuid' })),
+  binId: Type.Optional(Type.String({ format: 'uuid' })),
+  manufacturingOrderId: Type.Optional(Type.String({ format: 'uuid', description: 'Order that built the serial' })),
+  registeredBy: Type.Optional(Type.String({ format: 'uuid' })),
+};
+
+const CreateSerialNumberSchema = Type.Object({
+  serialNumber: Type.String({ minLength: 1, maxLength: 50 }),
+  ...SharedRegistrationProperties,
+});
+
+const CreateSerialNumberRangeSchema = Type.Object({
+  prefix: Type.Optional(Type.String({ maxLength: 40 })),
+  suffix: Type.Optional(Type.String({ maxLength: 40 })),
+  start: Type.Integer({ minimum: 0 }),
+  count: Type.Integer({ minimum: 1, maximum: 1000 }),
+  width: Type.Optional(Type.Integer({ minimum: 1, maximum: 20, description: 'Zero-pad the counter to this many digits' })),
+  ...SharedRegistrationProperties,
+});
+
+const MoveSerialNumberSchema = Type.Object({
+  locationId: Type.Optional(Type.String({ format: 'uuid' })),
+  binId: Type.Optional(Type.String({ format: 'uuid' })),
+  reason: Type.Optional(Type.String()),
+  movedBy: Type.Optional(Type.String({ format: 'uuid' })),
+});
+
+const AllocateSerialNumberSchema = Type.Object({
+  operationId: Type.String({ format: 'uuid' }),
+  allocatedBy: Type.Optional(Type.String({ format: 'uuid' })),
+});
+
+const DeallocateSerialNumberSchema = Type.Object({
+  reason: Type.Optional(Type.String()),
+  performedBy: Type.Optional(Type.String({ format: 'uuid' })),
+});
+
+const ScrapSerialNumberSchema = Type.Object({
+  reason: Type.String({ minLength: 1 }),
+  scrappedBy: Type.Optional(Type.String({ format: 'uuid' })),
+});
+
+const InstallComponentSchema = Type.Object({
+  componentSerialId: Type.Optional(Type.String({ format: 'uuid' })),
+  materialConsumptionId: Type.Optional(Type.String({ format: 'uuid' })),
+  operationId: Type.Optional(Type.String({ format: 'uuid', description: 'Required for serials; taken from the consumption for lots' })),
+  quantity: Type.Optional(Type.Number({ exclusiveMinimum: 0, description: 'Lot share in the consumption\'s unit' })),
+  installedBy: Type.Optional(Type.String({ format: 'uuid' })),
+  notes: Type.Optional(Type.String()),
+});
+
+const SerialNumberIdParams = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+});
+
+const SerialNumberQuerySchema = Type.Object({
+  page: Type.Optional(Type.Integer({ minimum: 1, default: 1 })),
+  limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 200, default: 50 })),
+  sortBy: Type.Optional(Type.Union([
+    Type.Literal('serialNumber'),
+    Type.Literal('status'),
+    Type.Literal('createdAt')
+  ])),
+  sortOrder: Type.Optional(Type.Union([Type.Literal('ASC'), Type.Literal('DESC')], { default: 'DESC' })),
+  productId: Type.Optional(Type.String({ format: 'uuid' })),
+  status: Type.Optional(SerialNumberStatusSchema),
+  serialNumber: Type.Optional(Type.String({ minLength: 1, maxLength: 50 })),
+  lotId: Type.Optional(Type.String({ format: 'uuid' })),
+  locationId: Type.Optional(Type.String({ format: 'uuid' })),
+  binId: Type.Optional(Type.String({ format: 'uuid' })),
+  manufacturingOrderId: Type.Optional(Type.String({ format: 'uuid' })),
+  allocatedOperationId: Type.Optional(Type.String({ format: 'uuid' })),
+});
+
+const LookupQuerySchema = Type.Object({
+  serialNumber: Type.String({ minLength: 1, maxLength: 50 }),
+});
+
+const ErrorResponseSchema = Type.Object({
+  error: Type.String(),
+  message: Type.String(),
+});
+
+type SerialNumberStatus = 'AVAILABLE' | 'ALLOCATED' | 'CONSUMED' | 'SCRAPPED';
+
+interface SharedRegistrationBody {
+  productId: string;
+  lotId?: string;
+  locationId?: string;
+  binId?: string;
+  manufacturingOrderId?: string;
+  registeredBy?: string;
+}
+
+/**
+ * Serial number lifecycle and as-built record API routes
+ */
+export default async function serialNumberRoutes(fastify: FastifyInstance) {
+  const serialNumberRepository = new SerialNumberRepository(fastify.pg.pool);
+
+  /**
+   * Map repository errors to responses; unknown errors become a 500 with
+   * the given message
+   */
+  const sendError = (reply: FastifyReply, error: any, message: string) => {
+    fastify.log.error(error);
+
+    if (error.message.includes('does not exist') ||
+        error.message.includes('Validation failed') ||
+        error.message.includes('Invalid status transition')) {
+      return reply.code(400).send({
+        error: 'Bad Request',
+        message: error.message
+      });
+    }
+
+    if (error.message.includes('already exists')) {
+      return reply.code(409).send({
+        error: 'Conflict',
+        message: error.message
+      });
+    }
+
+    return reply.code(500).send({
+      error: 'Internal Server Error',
+      message
+    });
+  };
+
+  const sendNotFound = (reply: FastifyReply, id: string) => reply.code(404).send({
+    error: 'Not Found',
+    message: `Serial number with ID '${id}' not found`
+  });
+
+  // GET /inventory/serial-numbers - List serial numbers
+  fastify.get('/inventory/serial-numbers', {
+    schema: {
+      tags: ['Serial Numbers'],
+      summary: 'List serial numbers',
+      description: 'Retrieve a paginated list of serial numbers, optionally by product, status, serial number (partial match), lot, place, building order or allocated operation',
+      querystring: SerialNumberQuerySchema,
+      response: {
+        200: PaginatedSerialNumberResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Querystring: {
+      page?: number;
+      limit?: number;
+      sortBy?: string;
+      sortOrder?: 'ASC' | 'DESC';
+      productId?: string;
+      status?: SerialNumberStatus;
+      serialNumber?: string;
+      lotId?: string;
+      locationId?: string;
+      binId?: string;
+      manufacturingOrderId?: string;
+      allocatedOperationId?: string;
+    };
+  }>, reply: FastifyReply) => {
+    try {
+      const { page, limit, sortBy, sortOrder, ...filters } = request.query;
+      const result = await serialNumberRepository.findSerialNumbers({ page, limit, sortBy, sortOrder }, filters);
+      return reply.code(200).send(result);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve serial numbers'
+      });
+    }
+  });
+
+  // GET /inventory/serial-numbers/lookup - Find serials by scanned serial number
+  fastify.get('/inventory/serial-numbers/lookup', {
+    schema: {
+      tags: ['Serial Numbers'],
+      summary: 'Look up serial number',
+      description: 'Find serials by exact serial number, as read by a barcode scanner. Serial numbers are unique per product, so more than one serial may match.',
+      querystring: LookupQuerySchema,
+      response: {
+        200: Type.Array(SerialNumberResponseSchema),
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Querystring: { serialNumber: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const serials = await serialNumberRepository.findBySerialNumber(request.query.serialNumber);
+      return reply.code(200).send(serials);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to look up serial number'
+      });
+    }
+  });
+
+  // GET /inventory/serial-numbers/:id - Get serial number
+  fastify.get('/inventory/serial-numbers/:id', {
+    schema: {
+      tags: ['Serial Numbers'],
+      summary: 'Get serial number by ID',
+      params: SerialNumberIdParams,
+      response: {
+        200: SerialNumberResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const serial = await serialNumberRepository.findById(id);
+
+      if (!serial) {
+        return sendNotFound(reply, id);
+      }
+
+      return reply.code(200).send(serial);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve serial number'
+      });
+    }
+  });
+
+  // POST /inventory/serial-numbers - Register a serial number
+  fastify.post('/inventory/serial-numbers', {
+    schema: {
+      tags: ['Serial Numbers'],
+      summary: 'Register serial number',
+      description: 'Register a serial number as available stock. Serial numbers are unique per product. A lot must be of the same product and an order must build it; serials outside a lot need room in their bin.',
+      body: CreateSerialNumberSchema,
+      response: {
+        201: SerialNumberResponseSchema,
+        400: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Body: SharedRegistrationBody & { serialNumber: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { serialNumber, ...data } = request.body;
+      const serial = await serialNumberRepository.register(serialNumber, data);
+      return reply.code(201).send(serial);
+    } catch (error: any) {
+      return sendError(reply, error, 'Failed to register serial number');
+    }
+  });
+
+  // POST /inventory/serial-numbers/range - Register a range of serial numbers
+  fastify.post('/inventory/serial-numbers/range', {
+    schema: {
+      tags: ['Serial Numbers'],
+      summary: 'Register serial number range',
+      description: 'Register `count` serial numbers made of the prefix, a counter from `start` zero-padded to `width` digits, and the suffix. The range is registered all or none; if any number is taken, none are.',
+      body: CreateSerialNumberRangeSchema,
+      response: {
+        201: Type.Array(SerialNumberResponseSchema),
+        400: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Body: SharedRegistrationBody & {
+      prefix?: string;
+      suffix?: string;
+      start: number;
+      count: number;
+      width?: number;
+    };
+  }>, reply: FastifyReply) => {
+    try {
+      const { prefix, suffix, start, count, width, ...data } = request.body;
+      const serials = await serialNumberRepository.registerRange({ prefix, suffix, start, count, width }, data);
+      return reply.code(201).send(serials);
+    } catch (error: any) {
+      return sendError(reply, error, 'Failed to register serial number range');
+    }
+  });
+
+  // POST /inventory/serial-numbers/:id/move - Move a serial
+  fastify.post('/inventory/serial-numbers/:id/move', {
+    schema: {
+      tags: ['Serial Numbers'],
+      summary: 'Move serial number',
+      description: 'Move an available or allocated serial to a location or bin. A bin implies its location; serials outside a lot need room in the bin.',
+      params: SerialNumberIdParams,
+      body: MoveSerialNumberSchema,
+      response: {
+        200: SerialNumberResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: { locationId?: string; binId?: string; reason?: string; movedBy?: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { locationId, binId, ...options } = request.body;
+      const serial = await serialNumberRepository.move(id, { locationId, binId }, options);
+
+      if (!serial) {
+        return sendNotFound(reply, id);
+      }
+
+      return reply.code(200).send(serial);
+    } catch (error: any) {
+      return sendError(reply, error, 'Failed to move serial number');
+    }
+  });
+
+  // POST /inventory/serial-numbers/:id/allocate - Allocate to an operation
+  fastify.post('/inventory/serial-numbers/:id/allocate', {
+    schema: {
+      tags: ['Serial Numbers'],
+      summary: 'Allocate serial number',
+      description: 'Reserve an available serial for a manufacturing order operation. The order must not be completed or cancelled.',
+      params: SerialNumberIdParams,
+      body: AllocateSerialNumberSchema,
+      response: {
+        200: SerialNumberResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: { operationId: string; allocatedBy?: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { operationId, allocatedBy } = request.body;
+      const serial = await serialNumberRepository.allocate(id, operationId, { allocatedBy });
+
+      if (!serial) {
+        return sendNotFound(reply, id);
+      }
+
+      return reply.code(200).send(serial);
+    } catch (error: any) {
+      return sendError(reply, error, 'Failed to allocate serial number');
+    }
+  });
+
+  // POST /inventory/serial-numbers/:id/deallocate - Release an allocation
+  fastify.post('/inventory/serial-numbers/:id/deallocate', {
+    schema: {
+      tags: ['Serial Numbers'],
+      summary: 'Deallocate serial number',
+      description: 'Release an allocated serial back to available stock',
+      params: SerialNumberIdParams,
+      body: DeallocateSerialNumberSchema,
+      response: {
+        200: SerialNumberResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: { reason?: string; performedBy?: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const serial = await serialNumberRepository.deallocate(id, request.body);
+
+      if (!serial) {
+        return sendNotFound(reply, id);
+      }
+
+      return reply.code(200).send(serial);
+    } catch (error: any) {
+      return sendError(reply, error, 'Failed to deallocate serial number');
+    }
+  });
+
+  // POST /inventory/serial-numbers/:id/scrap - Scrap a serial
+  fastify.post('/inventory/serial-numbers/:id/scrap', {
+    schema: {
+      tags: ['Serial Numbers'],
+      summary: 'Scrap serial number',
+      description: 'Write off an available or allocated serial. Scrapping is terminal and needs a reason.',
+      params: SerialNumberIdParams,
+      body: ScrapSerialNumberSchema,
+      response: {
+        200: SerialNumberResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: { reason: string; scrappedBy?: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const serial = await serialNumberRepository.scrap(id, request.body);
+
+      if (!serial) {
+        return sendNotFound(reply, id);
+      }
+
+      return reply.code(200).send(serial);
+    } catch (error: any) {
+      return sendError(reply, error, 'Failed to scrap serial number');
+    }
+  });
+
+  // GET /inventory/serial-numbers/:id/history - Serial events
+  fastify.get('/inventory/serial-numbers/:id/history', {
+    schema: {
+      tags: ['Serial Numbers'],
+      summary: 'Get serial number history',
+      description: 'Retrieve a serial\'s registration, moves, allocations, installation and scrapping, oldest first',
+      params: SerialNumberIdParams,
+      response: {
+        200: Type.Array(SerialNumberEventResponseSchema),
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const history = await serialNumberRepository.getHistory(id);
+
+      if (!history) {
+        return sendNotFound(reply, id);
+      }
+
+      return reply.code(200).send(history);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve serial number history'
+      });
+    }
+  });
+
+  // POST /inventory/serial-numbers/:id/as-built - Install a component
+  fastify.post('/inventory/serial-numbers/:id/as-built', {
+    schema: {
+      tags: ['Serial Numbers'],
+      summary: 'Install component',
+      description: 'Record a component installed in a finished serial by an operation of the order that built it. Give a componentSerialId and operationId to install a serial, which must be available or allocated to that operation and is consumed. Give a materialConsumptionId to attribute a share of the lot that consumption drew; the share defaults to what the consumption has left unattributed.',
+      params: SerialNumberIdParams,
+      body: InstallComponentSchema,
+      response: {
+        201: AsBuiltComponentResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: {
+      componentSerialId?: string;
+      materialConsumptionId?: string;
+      operationId?: string;
+      quantity?: number;
+      installedBy?: string;
+      notes?: string;
+    };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const component = await serialNumberRepository.installComponent(id, request.body);
+
+      if (!component) {
+        return sendNotFound(reply, id);
+      }
+
+      return reply.code(201).send(component);
+    } catch (error: any) {
+      return sendError(reply, error, 'Failed to install component');
+    }
+  });
+
+  // GET /inventory/serial-numbers/:id/as-built - As-built record
+  fastify.get('/inventory/serial-numbers/:id/as-built', {
+    schema: {
+      tags: ['Serial Numbers'],
+      summary: 'Get as-built record',
+      description: 'Retrieve what a serial was built from: every component serial and lot installed, with the operation and operator that installed it, in operation order; the quality checks recorded against the serial or its order as a whole; and the serial it was itself installed in, if any.',
+      params: SerialNumberIdParams,
+      response: {
+        200: AsBuiltResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const record = await serialNumberRepository.getAsBuilt(id);
+
+      if (!record) {
+        return sendNotFound(reply, id);
+      }
+
+      return reply.code(200).send(record);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve as-built record'
+      });
+    }
+  });
+}
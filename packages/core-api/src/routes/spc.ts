@@ -0,0 +1,238 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { Type } from '@fastify/type-provider-typebox';
+import { SPCRepository, SPCQueryOptions } from '../repositories/spc.repository';
+
+// Request/Response schemas using TypeBox for Fastify
+const RuleSetSchema = Type.Union([
+  Type.Literal('WESTERN_ELECTRIC'),
+  Type.Literal('NELSON')
+]);
+
+const ControlLimitsSchema = Type.Object({
+  centerLine: Type.Number(),
+  upperControlLimit: Type.Number(),
+  lowerControlLimit: Type.Number(),
+});
+
+const CapabilityResponseSchema = Type.Object({
+  sampleCount: Type.Integer(),
+  mean: Type.Optional(Type.Number()),
+  sigmaWithin: Type.Optional(Type.Number()),
+  sigmaOverall: Type.Optional(Type.Number()),
+  lowerSpecLimit: Type.Optional(Type.Number()),
+  upperSpecLimit: Type.Optional(Type.Number()),
+  target: Type.Optional(Type.Number()),
+  cp: Type.Optional(Type.Number()),
+  cpk: Type.Optional(Type.Number()),
+  pp: Type.Optional(Type.Number()),
+  ppk: Type.Optional(Type.Number()),
+});
+
+const ControlChartResponseSchema = Type.Object({
+  productId: Type.String({ format: 'uuid' }),
+  checkId: Type.String(),
+  workCenterId: Type.String({ format: 'uuid' }),
+  chartType: Type.Union([Type.Literal('INDIVIDUALS_MR'), Type.Literal('XBAR_R')]),
+  subgroupSize: Type.Integer(),
+  unit: Type.Optional(Type.String()),
+  locationChart: ControlLimitsSchema,
+  dispersionChart: ControlLimitsSchema,
+  points: Type.Array(Type.Object({
+    index: Type.Integer(),
+    value: Type.Number(),
+    range: Type.Optional(Type.Number()),
+    qualityCheckIds: Type.Array(Type.String({ format: 'uuid' })),
+    measuredAt: Type.String({ format: 'date-time' }),
+  })),
+  violations: Type.Array(Type.Object({
+    ruleSet: RuleSetSchema,
+    rule: Type.Integer(),
+    description: Type.String(),
+    pointIndexes: Type.Array(Type.Integer()),
+  })),
+  capability: CapabilityResponseSchema,
+});
+
+const SeriesResponseSchema = Type.Object({
+  productId: Type.String({ format: 'uuid' }),
+  productSku: Type.Optional(Type.String()),
+  checkId: Type.String(),
+  checkName: Type.String(),
+  workCenterId: Type.String({ format: 'uuid' }),
+  workCenterCode: Type.Optional(Type.String()),
+  measurementCount: Type.Integer(),
+  lastMeasuredAt: Type.String({ format: 'date-time' }),
+});
+
+const SeriesQuerySchema = Type.Object({
+  productId: Type.String({ format: 'uuid' }),
+  checkId: Type.String({ minLength: 1, maxLength: 50 }),
+  workCenterId: Type.String({ format: 'uuid' }),
+  from: Type.Optional(Type.String({ format: 'date-time' })),
+  to: Type.Optional(Type.String({ format: 'date-time' })),
+  limit: Type.Optional(Type.Integer({ minimum: 2, maximum: 1000, description: 'Most recent points to plot (default 125)' })),
+  ruleSet: Type.Optional(RuleSetSchema),
+});
+
+const XBarRQuerySchema = Type.Intersect([
+  SeriesQuerySchema,
+  Type.Object({
+    subgroupSize: Type.Optional(Type.Integer({ minimum: 2, maximum: 10, default: 5 })),
+  }),
+]);
+
+const ErrorResponseSchema = Type.Object({
+  error: Type.String(),
+  message: Type.String(),
+});
+
+type SeriesQuery = {
+  productId: string;
+  checkId: string;
+  workCenterId: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+  ruleSet?: 'WESTERN_ELECTRIC' | 'NELSON';
+};
+
+/**
+ * Split a series query into the series key and chart options
+ */
+function parseSeriesQuery(query: SeriesQuery) {
+  const { productId, checkId, workCenterId, from, to, limit, ruleSet } = query;
+  const options: SPCQueryOptions = {
+    from: from ? new Date(from) : undefined,
+    to: to ? new Date(to) : undefined,
+    limit,
+    ruleSet,
+  };
+  return { key: { productId, checkId, workCenterId }, options };
+}
+
+/**
+ * Statistical process control API routes
+ */
+export default async function spcRoutes(fastify: FastifyInstance) {
+  const spcRepository = new SPCRepository(fastify.pg.pool);
+
+  /**
+   * Map chart errors to responses; too few measurements is a client-side condition
+   */
+  const sendChartError = (reply: FastifyReply, error: any, message: string) => {
+    fastify.log.error(error);
+
+    if (error.message.includes('Insufficient data') || error.message.includes('Invalid subgroup size')) {
+      return reply.code(400).send({
+        error: 'Bad Request',
+        message: error.message
+      });
+    }
+
+    return reply.code(500).send({
+      error: 'Internal Server Error',
+      message
+    });
+  };
+
+  // GET /quality/spc/series - List measurement series
+  fastify.get('/quality/spc/series', {
+    schema: {
+      tags: ['SPC'],
+      summary: 'List SPC series',
+      description: 'List the (product, check, work center) combinations that have recorded measurements',
+      querystring: Type.Object({
+        productId: Type.Optional(Type.String({ format: 'uuid' })),
+        workCenterId: Type.Optional(Type.String({ format: 'uuid' })),
+      }),
+      response: {
+        200: Type.Array(SeriesResponseSchema),
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Querystring: { productId?: string; workCenterId?: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const series = await spcRepository.findSeries(request.query);
+      return reply.code(200).send(series);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to fetch SPC series'
+      });
+    }
+  });
+
+  // GET /quality/spc/charts/individuals - Individuals / moving range chart
+  fastify.get('/quality/spc/charts/individuals', {
+    schema: {
+      tags: ['SPC'],
+      summary: 'Get individuals / moving range chart',
+      description: 'Build an I-MR control chart for a measurement series with rule violations and capability indices',
+      querystring: SeriesQuerySchema,
+      response: {
+        200: ControlChartResponseSchema,
+        400: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Querystring: SeriesQuery;
+  }>, reply: FastifyReply) => {
+    try {
+      const { key, options } = parseSeriesQuery(request.query);
+      const chart = await spcRepository.getIndividualsChart(key, options);
+      return reply.code(200).send(chart);
+    } catch (error: any) {
+      return sendChartError(reply, error, 'Failed to build individuals chart');
+    }
+  });
+
+  // GET /quality/spc/charts/xbar-r - X-bar / R chart
+  fastify.get('/quality/spc/charts/xbar-r', {
+    schema: {
+      tags: ['SPC'],
+      summary: 'Get X-bar / R chart',
+      description: 'Build an X-bar/R control chart from consecutive subgroups of a measurement series. The limit applies to subgroups.',
+      querystring: XBarRQuerySchema,
+      response: {
+        200: ControlChartResponseSchema,
+        400: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Querystring: SeriesQuery & { subgroupSize?: number };
+  }>, reply: FastifyReply) => {
+    try {
+      const { key, options } = parseSeriesQuery(request.query);
+      const chart = await spcRepository.getXBarRChart(key, request.query.subgroupSize || 5, options);
+      return reply.code(200).send(chart);
+    } catch (error: any) {
+      return sendChartError(reply, error, 'Failed to build X-bar/R chart');
+    }
+  });
+
+  // GET /quality/spc/capability - Process capability
+  fastify.get('/quality/spc/capability', {
+    schema: {
+      tags: ['SPC'],
+      summary: 'Get process capability',
+      description: 'Compute Cp/Cpk (within sigma) and Pp/Ppk (overall sigma) against the minValue/maxValue specification limits',
+      querystring: SeriesQuerySchema,
+      response: {
+        200: CapabilityResponseSchema,
+        400: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Querystring: SeriesQuery;
+  }>, reply: FastifyReply) => {
+    try {
+      const { key, options } = parseSeriesQuery(request.query);
+      const capability = await spcRepository.getCapability(key, options);
+      return reply.code(200).send(capability);
+    } catch (error: any) {
+      return sendChartError(reply, error, 'Failed to compute process capability');
+    }
+  });
+}
@@ -0,0 +1,524 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { Type } from '@fastify/type-provider-typebox';
+import { StandardCostRepository } from '../repositories/standardCost.repository';
+
+// Request/Response schemas using TypeBox for Fastify
+const CostPeriodStatusSchema = Type.Union([
+  Type.Literal('OPEN'),
+  Type.Literal('FROZEN')
+]);
+
+const CostPeriodResponseSchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  code: Type.String({ maxLength: 20 }),
+  name: Type.String({ maxLength: 100 }),
+  startDate: Type.String({ format: 'date-time' }),
+  endDate: Type.String({ format: 'date-time' }),
+  status: CostPeriodStatusSchema,
+  isActive: Type.Boolean(),
+  createdAt: Type.String({ format: 'date-time' }),
+  updatedAt: Type.String({ format: 'date-time' }),
+  version: Type.Integer(),
+});
+
+const StandardCostLineSchema = Type.Object({
+  type: Type.Union([Type.Literal('COMPONENT'), Type.Literal('OPERATION')]),
+  productId: Type.Optional(Type.String({ format: 'uuid' })),
+  sku: Type.Optional(Type.String()),
+  quantity: Type.Optional(Type.Number()),
+  uom: Type.Optional(Type.String()),
+  unitCost: Type.Optional(Type.Number()),
+  routingStepId: Type.Optional(Type.String({ format: 'uuid' })),
+  operationId: Type.Optional(Type.String()),
+  workCenterId: Type.Optional(Type.String({ format: 'uuid' })),
+  minutesPerUnit: Type.Optional(Type.Number()),
+  materialCost: Type.Number(),
+  laborCost: Type.Number(),
+  machineCost: Type.Number(),
+});
+
+const StandardCostResponseSchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  costPeriodId: Type.String({ format: 'uuid' }),
+  productId: Type.String({ format: 'uuid' }),
+  productSku: Type.String(),
+  costType: Type.Union([Type.Literal('PURCHASED'), Type.Literal('ROLLED_UP')]),
+  uom: Type.String(),
+  lotSize: Type.Number(),
+  materialCost: Type.Number(),
+  laborCost: Type.Number(),
+  machineCost: Type.Number(),
+  totalCost: Type.Number(),
+  bomId: Type.Optional(Type.String({ format: 'uuid' })),
+  routingId: Type.Optional(Type.String({ format: 'uuid' })),
+  lines: Type.Array(StandardCostLineSchema),
+  rolledUpAt: Type.Optional(Type.String({ format: 'date-time' })),
+  isActive: Type.Boolean(),
+  createdAt: Type.String({ format: 'date-time' }),
+  updatedAt: Type.String({ format: 'date-time' }),
+  version: Type.Integer(),
+});
+
+const RollUpResponseSchema = Type.Object({
+  costPeriodId: Type.String({ format: 'uuid' }),
+  costs: Type.Array(StandardCostResponseSchema),
+  warnings: Type.Array(Type.String()),
+});
+
+const CostElementsSchema = Type.Object({
+  material: Type.Number(),
+  labor: Type.Number(),
+  machine: Type.Number(),
+  total: Type.Number(),
+});
+
+const CostVarianceResponseSchema = Type.Object({
+  manufacturingOrderId: Type.String({ format: 'uuid' }),
+  orderNumber: Type.String(),
+  productId: Type.String({ format: 'uuid' }),
+  productSku: Type.String(),
+  costPeriodId: Type.String({ format: 'uuid' }),
+  costPeriodCode: Type.String(),
+  quantity: Type.Number(),
+  uom: Type.String(),
+  standard: CostElementsSchema,
+  actual: CostElementsSchema,
+  variance: CostElementsSchema,
+  materials: Type.Array(Type.Object({
+    productId: Type.String({ format: 'uuid' }),
+    sku: Type.String(),
+    uom: Type.String(),
+    standardQuantity: Type.Number(),
+    actualQuantity: Type.Number(),
+    unitCost: Type.Number(),
+    standardCost: Type.Number(),
+    actualCost: Type.Number(),
+    variance: Type.Number(),
+  })),
+});
+
+const CreateCostPeriodSchema = Type.Object({
+  code: Type.String({ minLength: 1, maxLength: 20 }),
+  name: Type.String({ minLength: 1, maxLength: 100 }),
+  startDate: Type.String({ format: 'date' }),
+  endDate: Type.String({ format: 'date', description: 'Last day of the period, inclusive' }),
+});
+
+const StatusTransitionSchema = Type.Object({
+  status: CostPeriodStatusSchema,
+});
+
+const SetProductCostSchema = Type.Object({
+  materialCost: Type.Optional(Type.Union([Type.Number({ minimum: 0 }), Type.Null()], {
+    description: 'Purchased cost per unit of the product\'s uom; null returns the product to roll-up'
+  })),
+  lotSize: Type.Optional(Type.Number({ exclusiveMinimum: 0 })),
+});
+
+const RollUpSchema = Type.Object({
+  productIds: Type.Optional(Type.Array(Type.String({ format: 'uuid' }), { minItems: 1 })),
+});
+
+const IdParams = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+});
+
+const ProductCostParams = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  productId: Type.String({ format: 'uuid' }),
+});
+
+const CostPeriodQuerySchema = Type.Object({
+  status: Type.Optional(CostPeriodStatusSchema),
+  at: Type.Optional(Type.String({ format: 'date' })),
+});
+
+const ProductCostQuerySchema = Type.Object({
+  periodId: Type.Optional(Type.String({ format: 'uuid' })),
+  at: Type.Optional(Type.String({ format: 'date', description: 'Defaults to today' })),
+});
+
+const ErrorResponseSchema = Type.Object({
+  error: Type.String(),
+  message: Type.String(),
+});
+
+type CostPeriodStatus = 'OPEN' | 'FROZEN';
+
+/**
+ * Cost period, standard cost roll-up and MO cost variance API routes
+ */
+export default async function standardCostRoutes(fastify: FastifyInstance) {
+  const standardCostRepository = new StandardCostRepository(fastify.pg.pool);
+
+  // GET /cost-periods - List cost periods
+  fastify.get('/cost-periods', {
+    schema: {
+      tags: ['Costing'],
+      summary: 'List cost periods',
+      description: 'Retrieve cost periods, latest first, optionally by status or the period covering a date',
+      querystring: CostPeriodQuerySchema,
+      response: {
+        200: Type.Array(CostPeriodResponseSchema),
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Querystring: { status?: CostPeriodStatus; at?: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { status, at } = request.query;
+      const periods = await standardCostRepository.findPeriods({
+        status,
+        at: at ? new Date(at) : undefined,
+      });
+      return reply.code(200).send(periods);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve cost periods'
+      });
+    }
+  });
+
+  // POST /cost-periods - Open a cost period
+  fastify.post('/cost-periods', {
+    schema: {
+      tags: ['Costing'],
+      summary: 'Create cost period',
+      description: 'Open a cost period. Periods may not overlap; standard costs are set and rolled up per period.',
+      body: CreateCostPeriodSchema,
+      response: {
+        201: CostPeriodResponseSchema,
+        400: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Body: { code: string; name: string; startDate: string; endDate: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { startDate, endDate, ...data } = request.body;
+      const period = await standardCostRepository.createPeriod({
+        ...data,
+        startDate: new Date(startDate),
+        endDate: new Date(endDate),
+      });
+      return reply.code(201).send(period);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('Validation failed')) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('already exists')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to create cost period'
+      });
+    }
+  });
+
+  // PUT /cost-periods/:id/status - Freeze a cost period
+  fastify.put('/cost-periods/:id/status', {
+    schema: {
+      tags: ['Costing'],
+      summary: 'Update cost period status',
+      description: 'Move a cost period from OPEN to FROZEN. A frozen period\'s standard costs can no longer be set or rolled up.',
+      params: IdParams,
+      body: StatusTransitionSchema,
+      response: {
+        200: CostPeriodResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: { status: CostPeriodStatus };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const result = await standardCostRepository.updatePeriodStatus(id, request.body.status);
+
+      if (!result) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Cost period with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(result.period);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('Invalid status transition')) {
+        return reply.code(400).send({
+          error: 'Invalid Transition',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to update cost period status'
+      });
+    }
+  });
+
+  // GET /cost-periods/:id/costs - List standard costs of a period
+  fastify.get('/cost-periods/:id/costs', {
+    schema: {
+      tags: ['Costing'],
+      summary: 'List standard costs',
+      description: 'Retrieve the standard costs of a cost period, per unit of each product\'s uom',
+      params: IdParams,
+      response: {
+        200: Type.Array(StandardCostResponseSchema),
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const period = await standardCostRepository.findPeriodById(id);
+
+      if (!period) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Cost period with ID '${id}' not found`
+        });
+      }
+
+      const costs = await standardCostRepository.findCosts(id);
+      return reply.code(200).send(costs);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve standard costs'
+      });
+    }
+  });
+
+  // PUT /cost-periods/:id/costs/:productId - Set a product's cost inputs
+  fastify.put('/cost-periods/:id/costs/:productId', {
+    schema: {
+      tags: ['Costing'],
+      summary: 'Set product standard cost',
+      description: 'Enter the purchased cost of a bought item, or the lot size that setup and teardown time are spread over at the next roll-up. Purchased costs are used as entered and never rolled up.',
+      params: ProductCostParams,
+      body: SetProductCostSchema,
+      response: {
+        200: StandardCostResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string; productId: string };
+    Body: { materialCost?: number | null; lotSize?: number };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id, productId } = request.params;
+      const cost = await standardCostRepository.setProductCost(id, productId, request.body);
+
+      if (!cost) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Cost period with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(cost);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('does not exist')) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('cannot be modified')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to set standard cost'
+      });
+    }
+  });
+
+  // POST /cost-periods/:id/roll-up - Roll up standard costs
+  fastify.post('/cost-periods/:id/roll-up', {
+    schema: {
+      tags: ['Costing'],
+      summary: 'Roll up standard costs',
+      description: 'Calculate standard costs through the multi-level BOMs effective at the period start and the default routings. Material is the full standard cost of the components including waste; labor and machine cost are routing step times at the work center rates, with setup and teardown spread over the lot size. Without productIds, every product with a BOM or routing is rolled up.',
+      params: IdParams,
+      body: RollUpSchema,
+      response: {
+        200: RollUpResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: { productIds?: string[] };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const result = await standardCostRepository.rollUp(id, request.body.productIds);
+
+      if (!result) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Cost period with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(result);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (
+        error.message.includes('does not exist') ||
+        error.message.includes('Validation failed') ||
+        error.message.includes('Circular reference')
+      ) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('cannot be modified')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to roll up standard costs'
+      });
+    }
+  });
+
+  // GET /products/:id/standard-cost - Get a product's standard cost
+  fastify.get('/products/:id/standard-cost', {
+    schema: {
+      tags: ['Costing'],
+      summary: 'Get product standard cost',
+      description: 'Retrieve a product\'s standard cost in a cost period, or in the period covering a date',
+      params: IdParams,
+      querystring: ProductCostQuerySchema,
+      response: {
+        200: StandardCostResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Querystring: { periodId?: string; at?: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { periodId, at } = request.query;
+      const cost = await standardCostRepository.findCost(id, {
+        periodId,
+        at: at ? new Date(at) : undefined,
+      });
+
+      if (!cost) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Standard cost for product with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(cost);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve standard cost'
+      });
+    }
+  });
+
+  // GET /manufacturing-orders/:id/cost-variance - Actual vs standard cost
+  fastify.get('/manufacturing-orders/:id/cost-variance', {
+    schema: {
+      tags: ['Costing'],
+      summary: 'Get MO cost variance',
+      description: 'Compare the actual cost of a completed manufacturing order with standard, in the cost period covering its completion. Materials are valued at standard, so the material variance is a usage variance; labor uses the rate on each labor assignment and machine time the work center rate. Positive variances are unfavourable.',
+      params: IdParams,
+      response: {
+        200: CostVarianceResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const variance = await standardCostRepository.getMOVariance(id);
+
+      if (!variance) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Manufacturing order with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(variance);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('does not exist') || error.message.includes('Validation failed')) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('cannot be costed')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to calculate cost variance'
+      });
+    }
+  });
+}
@@ -0,0 +1,441 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { Type } from '@fastify/type-provider-typebox';
+import { UoMRepository } from '../repositories/uom.repository';
+
+// Request/Response schemas using TypeBox for Fastify
+const UoMDimensionSchema = Type.Union([
+  Type.Literal('MASS'),
+  Type.Literal('LENGTH'),
+  Type.Literal('COUNT'),
+  Type.Literal('VOLUME')
+]);
+
+const UoMResponseSchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  code: Type.String({ maxLength: 20 }),
+  name: Type.String({ maxLength: 100 }),
+  dimension: UoMDimensionSchema,
+  aliases: Type.Array(Type.String()),
+  isActive: Type.Boolean(),
+  createdAt: Type.String({ format: 'date-time' }),
+  updatedAt: Type.String({ format: 'date-time' }),
+  version: Type.Integer(),
+});
+
+const UoMConversionResponseSchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  fromUom: Type.String(),
+  toUom: Type.String(),
+  factor: Type.Number(),
+  productId: Type.Optional(Type.String({ format: 'uuid' })),
+  productSku: Type.Optional(Type.String()),
+  isActive: Type.Boolean(),
+  createdAt: Type.String({ format: 'date-time' }),
+  updatedAt: Type.String({ format: 'date-time' }),
+  version: Type.Integer(),
+});
+
+const ConversionResultSchema = Type.Object({
+  quantity: Type.Number(),
+  fromUom: Type.String(),
+  toUom: Type.String(),
+  factor: Type.Number(),
+  convertedQuantity: Type.Number(),
+  productId: Type.Optional(Type.String({ format: 'uuid' })),
+  path: Type.Array(Type.String()),
+});
+
+const CreateUoMSchema = Type.Object({
+  code: Type.String({ minLength: 1, maxLength: 20, pattern: '^[A-Za-z0-9_]+$' }),
+  name: Type.String({ minLength: 1, maxLength: 100 }),
+  dimension: UoMDimensionSchema,
+  aliases: Type.Optional(Type.Array(Type.String({ minLength: 1, maxLength: 50 }))),
+});
+
+const UpdateUoMSchema = Type.Object({
+  name: Type.Optional(Type.String({ minLength: 1, maxLength: 100 })),
+  aliases: Type.Optional(Type.Array(Type.String({ minLength: 1, maxLength: 50 }))),
+  isActive: Type.Optional(Type.Boolean()),
+});
+
+const CreateConversionSchema = Type.Object({
+  fromUom: Type.String({ minLength: 1, maxLength: 20 }),
+  toUom: Type.String({ minLength: 1, maxLength: 20 }),
+  factor: Type.Number({ exclusiveMinimum: 0, description: '1 fromUom = factor × toUom' }),
+  productId: Type.Optional(Type.String({ format: 'uuid', description: 'Set for a product-specific conversion' })),
+});
+
+const UpdateConversionSchema = Type.Object({
+  factor: Type.Number({ exclusiveMinimum: 0 }),
+});
+
+const UoMCodeParams = Type.Object({
+  code: Type.String({ minLength: 1, maxLength: 50 }),
+});
+
+const ConversionIdParams = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+});
+
+const UoMQuerySchema = Type.Object({
+  dimension: Type.Optional(UoMDimensionSchema),
+  includeInactive: Type.Optional(Type.Boolean({ default: false })),
+});
+
+const ConversionQuerySchema = Type.Object({
+  productId: Type.Optional(Type.String({ format: 'uuid' })),
+  uom: Type.Optional(Type.String({ minLength: 1, maxLength: 50 })),
+});
+
+const ConvertQuerySchema = Type.Object({
+  quantity: Type.Number(),
+  from: Type.String({ minLength: 1, maxLength: 50 }),
+  to: Type.String({ minLength: 1, maxLength: 50 }),
+  productId: Type.Optional(Type.String({ format: 'uuid' })),
+});
+
+const ErrorResponseSchema = Type.Object({
+  error: Type.String(),
+  message: Type.String(),
+});
+
+type UoMDimension = 'MASS' | 'LENGTH' | 'COUNT' | 'VOLUME';
+
+/**
+ * Unit of measure catalogue and conversion API routes
+ */
+export default async function uomRoutes(fastify: FastifyInstance) {
+  const uomRepository = new UoMRepository(fastify.pg.pool);
+
+  // GET /uoms - List units of measure
+  fastify.get('/uoms', {
+    schema: {
+      tags: ['Units of Measure'],
+      summary: 'List units of measure',
+      description: 'Retrieve the unit of measure catalogue, optionally within one dimension',
+      querystring: UoMQuerySchema,
+      response: {
+        200: Type.Array(UoMResponseSchema),
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Querystring: { dimension?: UoMDimension; includeInactive?: boolean };
+  }>, reply: FastifyReply) => {
+    try {
+      const units = await uomRepository.findUnits(request.query);
+      return reply.code(200).send(units);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve units of measure'
+      });
+    }
+  });
+
+  // GET /uoms/convert - Convert a quantity
+  fastify.get('/uoms/convert', {
+    schema: {
+      tags: ['Units of Measure'],
+      summary: 'Convert quantity',
+      description: 'Convert a quantity between units, chaining conversions where needed. With a product, its own conversions (e.g. 1 BOX = 12 PCS) are used alongside the global ones.',
+      querystring: ConvertQuerySchema,
+      response: {
+        200: ConversionResultSchema,
+        400: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Querystring: { quantity: number; from: string; to: string; productId?: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { quantity, from, to, productId } = request.query;
+      const result = await uomRepository.convert(quantity, from, to, productId);
+      return reply.code(200).send(result);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('does not exist') || error.message.includes('Validation failed')) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to convert quantity'
+      });
+    }
+  });
+
+  // GET /uoms/:code - Get unit by code or alias
+  fastify.get('/uoms/:code', {
+    schema: {
+      tags: ['Units of Measure'],
+      summary: 'Get unit of measure',
+      description: 'Retrieve a unit by its code or any of its aliases, case-insensitively',
+      params: UoMCodeParams,
+      response: {
+        200: UoMResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { code: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { code } = request.params;
+      const unit = await uomRepository.findByCode(code);
+
+      if (!unit) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Unit of measure '${code}' not found`
+        });
+      }
+
+      return reply.code(200).send(unit);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve unit of measure'
+      });
+    }
+  });
+
+  // POST /uoms - Add a unit
+  fastify.post('/uoms', {
+    schema: {
+      tags: ['Units of Measure'],
+      summary: 'Create unit of measure',
+      description: 'Add a unit to the catalogue. The code is stored upper case and aliases lower case; neither may already resolve to another unit.',
+      body: CreateUoMSchema,
+      response: {
+        201: UoMResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Body: { code: string; name: string; dimension: UoMDimension; aliases?: string[] };
+  }>, reply: FastifyReply) => {
+    try {
+      const unit = await uomRepository.createUnit(request.body);
+      return reply.code(201).send(unit);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('already exists')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to create unit of measure'
+      });
+    }
+  });
+
+  // PUT /uoms/:code - Update a unit
+  fastify.put('/uoms/:code', {
+    schema: {
+      tags: ['Units of Measure'],
+      summary: 'Update unit of measure',
+      description: 'Update a unit\'s name, aliases or active flag. Inactive units are rejected on write but remain on existing records.',
+      params: UoMCodeParams,
+      body: UpdateUoMSchema,
+      response: {
+        200: UoMResponseSchema,
+        404: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { code: string };
+    Body: { name?: string; aliases?: string[]; isActive?: boolean };
+  }>, reply: FastifyReply) => {
+    try {
+      const { code } = request.params;
+      const unit = await uomRepository.updateUnit(code, request.body);
+
+      if (!unit) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Unit of measure '${code}' not found`
+        });
+      }
+
+      return reply.code(200).send(unit);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('already exists')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to update unit of measure'
+      });
+    }
+  });
+
+  // GET /uom-conversions - List conversions
+  fastify.get('/uom-conversions', {
+    schema: {
+      tags: ['Units of Measure'],
+      summary: 'List UoM conversions',
+      description: 'Retrieve global conversions, plus a product\'s own conversions when productId is given, optionally limited to those involving one unit',
+      querystring: ConversionQuerySchema,
+      response: {
+        200: Type.Array(UoMConversionResponseSchema),
+        400: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Querystring: { productId?: string; uom?: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const conversions = await uomRepository.findConversions(request.query);
+      return reply.code(200).send(conversions);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('does not exist')) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve UoM conversions'
+      });
+    }
+  });
+
+  // POST /uom-conversions - Add a conversion
+  fastify.post('/uom-conversions', {
+    schema: {
+      tags: ['Units of Measure'],
+      summary: 'Create UoM conversion',
+      description: 'Add a conversion, 1 fromUom = factor × toUom, that also applies in reverse. Global conversions must stay within a dimension; product conversions may cross dimensions (e.g. 1 BAG = 25 KG).',
+      body: CreateConversionSchema,
+      response: {
+        201: UoMConversionResponseSchema,
+        400: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Body: { fromUom: string; toUom: string; factor: number; productId?: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const conversion = await uomRepository.createConversion(request.body);
+      return reply.code(201).send(conversion);
+    } catch (error: any) {
+      fastify.log.error(error);
+
+      if (error.message.includes('does not exist') || error.message.includes('Validation failed')) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('already exists')) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: error.message
+        });
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to create UoM conversion'
+      });
+    }
+  });
+
+  // PUT /uom-conversions/:id - Change a conversion factor
+  fastify.put('/uom-conversions/:id', {
+    schema: {
+      tags: ['Units of Measure'],
+      summary: 'Update UoM conversion',
+      description: 'Change the factor of a conversion',
+      params: ConversionIdParams,
+      body: UpdateConversionSchema,
+      response: {
+        200: UoMConversionResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+    Body: { factor: number };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const conversion = await uomRepository.updateConversion(id, request.body.factor);
+
+      if (!conversion) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `UoM conversion with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(200).send(conversion);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to update UoM conversion'
+      });
+    }
+  });
+
+  // DELETE /uom-conversions/:id - Remove a conversion
+  fastify.delete('/uom-conversions/:id', {
+    schema: {
+      tags: ['Units of Measure'],
+      summary: 'Remove UoM conversion',
+      description: 'Remove a conversion',
+      params: ConversionIdParams,
+      response: {
+        204: Type.Null(),
+        404: ErrorResponseSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const removed = await uomRepository.removeConversion(id);
+
+      if (!removed) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `UoM conversion with ID '${id}' not found`
+        });
+      }
+
+      return reply.code(204).send();
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to remove UoM conversion'
+      });
+    }
+  });
+}
@@ -19,6 +19,8 @@ const WorkCenterResponseSchema = Type.Object({
     Type.Literal('MAINTENANCE')
   ]),
   capacity: Type.Optional(Type.Number({ minimum: 0 })),
+  laborRate: Type.Optional(Type.Number({ minimum: 0, description: 'Labor cost per hour' })),
+  machineRate: Type.Optional(Type.Number({ minimum: 0, description: 'Machine cost per hour' })),
   isActive: Type.Boolean({ default: true }),
   createdAt: Type.String({ format: 'date-time' }),
   updatedAt: Type.String({ format: 'date-time' }),
@@ -50,6 +52,8 @@ const CreateWorkCenterSchema = Type.Object({
     Type.Literal('MAINTENANCE')
   ]),
   capacity: Type.Optional(Type.Number({ minimum: 0 })),
+  laborRate: Type.Optional(Type.Number({ minimum: 0, description: 'Labor cost per hour' })),
+  machineRate: Type.Optional(Type.Number({ minimum: 0, description: 'Machine cost per hour' })),
   isActive: Type.Optional(Type.Boolean({ default: true })),
 });
 
@@ -281,6 +285,8 @@ export default async function workCentersRoutes(fastify: FastifyInstance) {
       description?: string;
       category: 'PRODUCTION' | 'ASSEMBLY' | 'PACKAGING' | 'QUALITY' | 'MAINTENANCE';
       capacity?: number;
+      laborRate?: number;
+      machineRate?: number;
       isActive?: boolean;
     };
   }>, reply: FastifyReply) => {
@@ -365,6 +371,8 @@ export default async function workCentersRoutes(fastify: FastifyInstance) {
       description?: string;
       category?: 'PRODUCTION' | 'ASSEMBLY' | 'PACKAGING' | 'QUALITY' | 'MAINTENANCE';
       capacity?: number;
+      laborRate?: number;
+      machineRate?: number;
       isActive?: boolean;
     };
   }>, reply: FastifyReply) => {
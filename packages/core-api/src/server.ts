@@ -4,22 +4,40 @@ import fastifyCors from '@fastify/cors';
 import fastifyHelmet from '@fastify/helmet';
 import fastifySwagger from '@fastify/swagger';
 import fastifySwaggerUi from '@fastify/swagger-ui';
+import fastifyMultipart from '@fastify/multipart';
 import { TypeBoxTypeProvider } from '@fastify/type-provider-typebox';
 
 // Configuration imports
 import { createDatabasePool, testDatabaseConnection, initializeTimescaleDB, loadDatabaseConfig } from './config/database';
 import { createKafka, initializeKafkaTopics, ManufacturingEventProducer } from './config/kafka';
 import { createRedisClient, testRedisConnection, CacheService } from './config/redis';
+import { createStorageDriver, loadStorageConfig, StorageDriver } from './config/storage';
 
 // Route imports
 import sitesRoutes from './routes/sites';
 import workCentersRoutes from './routes/workCenters';
+import locationRoutes from './routes/locations';
+import lotRoutes from './routes/lots';
+import serialNumberRoutes from './routes/serialNumbers';
+import licensePlateRoutes from './routes/licensePlates';
+import productsRoutes from './routes/products';
+import uomRoutes from './routes/uoms';
+import bomRoutes from './routes/boms';
+import routingRoutes from './routes/routings';
+import ecoRoutes from './routes/ecos';
+import standardCostRoutes from './routes/standardCosts';
 import manufacturingOrdersRoutes from './routes/manufacturingOrders';
 import manufacturingOrderOperationsRoutes from './routes/manufacturingOrderOperations';
 import qualityChecksRoutes from './routes/qualityChecks';
+import qualityCheckTemplatesRoutes from './routes/qualityCheckTemplates';
+import qualityPlansRoutes from './routes/qualityPlans';
+import spcRoutes from './routes/spc';
+import samplingPlansRoutes from './routes/samplingPlans';
 import laborTrackingRoutes from './routes/laborTracking';
 import materialConsumptionRoutes from './routes/materialConsumption';
 import nonConformanceRoutes from './routes/nonConformance';
+import capaRoutes from './routes/capas';
+import attachmentRoutes from './routes/attachments';
 
 /**
  * Server configuration interface
@@ -134,6 +152,18 @@ async function registerPlugins(server: FastifyInstance, config: ServerConfig): P
     server.log.warn('Redis connection failed, continuing without caching:', error);
   }
 
+  // Attachment storage and multipart uploads
+  const storageConfig = loadStorageConfig();
+  server.decorate('storage', createStorageDriver(storageConfig));
+  server.log.info(`Attachment storage using ${storageConfig.driver} driver`);
+
+  await server.register(fastifyMultipart, {
+    limits: {
+      fileSize: storageConfig.maxFileSizeBytes,
+      files: 1,
+    },
+  });
+
   // API documentation
   await server.register(fastifySwagger, {
     openapi: {
@@ -198,6 +228,36 @@ async function registerRoutes(server: FastifyInstance): Promise<void> {
     
     // Work Centers routes
     await fastify.register(workCentersRoutes);
+
+    // Inventory location routes
+    await fastify.register(locationRoutes);
+
+    // Inventory lot routes
+    await fastify.register(lotRoutes);
+
+    // Serial number routes
+    await fastify.register(serialNumberRoutes);
+
+    // License plate routes
+    await fastify.register(licensePlateRoutes);
+
+    // Products routes
+    await fastify.register(productsRoutes);
+
+    // Unit of measure routes
+    await fastify.register(uomRoutes);
+
+    // BOM routes
+    await fastify.register(bomRoutes);
+
+    // Routing routes
+    await fastify.register(routingRoutes);
+
+    // ECO routes
+    await fastify.register(ecoRoutes);
+
+    // Standard cost routes
+    await fastify.register(standardCostRoutes);
     
     // Manufacturing Orders routes
     await fastify.register(manufacturingOrdersRoutes);
@@ -208,6 +268,18 @@ async function registerRoutes(server: FastifyInstance): Promise<void> {
     // Quality Checks routes
     await fastify.register(qualityChecksRoutes);
     
+    // Quality Check Templates routes
+    await fastify.register(qualityCheckTemplatesRoutes);
+    
+    // Quality Plans routes
+    await fastify.register(qualityPlansRoutes);
+    
+    // SPC routes
+    await fastify.register(spcRoutes);
+    
+    // Sampling Plans routes
+    await fastify.register(samplingPlansRoutes);
+    
     // Labor Tracking routes
     await fastify.register(laborTrackingRoutes);
     
@@ -216,6 +288,12 @@ async function registerRoutes(server: FastifyInstance): Promise<void> {
     
     // Non-conformance routes
     await fastify.register(nonConformanceRoutes);
+
+    // CAPA routes
+    await fastify.register(capaRoutes);
+
+    // Attachment routes
+    await fastify.register(attachmentRoutes);
     
   }, { prefix: '/api/v1' });
 }
@@ -412,6 +490,7 @@ declare module 'fastify' {
   interface FastifyInstance {
     eventProducer?: ManufacturingEventProducer;
     cache?: CacheService;
+    storage: StorageDriver;
   }
 }
 
@@ -4,6 +4,15 @@ export * from './schemas';
 // Enhanced quality management entities
 export * from './manufacturing/qualityCheck.entity';
 
+// Quality plan entities
+export * from './manufacturing/qualityPlan.entity';
+
+// Statistical process control
+export * from './manufacturing/spc.entity';
+
+// Acceptance sampling
+export * from './manufacturing/samplingPlan.entity';
+
 // Labor tracking entities
 export * from './manufacturing/laborTracking.entity';
 
@@ -12,3 +21,39 @@ export * from './manufacturing/materialConsumption.entity';
 
 // Non-conformance tracking entities
 export * from './manufacturing/nonConformance.entity';
+
+// Quality check and NCR attachments
+export * from './manufacturing/attachment.entity';
+
+// Corrective and preventive actions
+export * from './manufacturing/capa.entity';
+
+// Bill of materials versioning
+export * from './manufacturing/bom.entity';
+
+// Routings and standard times
+export * from './manufacturing/routing.entity';
+
+// Engineering change orders
+export * from './manufacturing/eco.entity';
+
+// Units of measure and conversions
+export * from './manufacturing/uom.entity';
+
+// Standard costing
+export * from './manufacturing/costing.entity';
+
+// Manufacturing order outputs
+export * from './manufacturing/moOutput.entity';
+
+// Inventory locations and bins
+export * from './manufacturing/location.entity';
+
+// Lots, the inventory transaction ledger and lot genealogy
+export * from './manufacturing/lot.entity';
+
+// Serial number lifecycle and as-built records
+export * from './manufacturing/serialNumber.entity';
+
+// License plates
+export * from './manufacturing/licensePlate.entity';
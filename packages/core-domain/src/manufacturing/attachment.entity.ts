@@ -0,0 +1,34 @@
+import { z } from 'zod';
+import { BaseEntitySchema } from '../schemas';
+
+/**
+ * Attachment owner type enum - records that carry an `attachments` array
+ */
+export const AttachmentOwnerType = {
+  QUALITY_CHECK: 'QUALITY_CHECK', // Defect photos, gauge readouts
+  NCR: 'NCR',                     // Evidence, calibration certificates
+} as const;
+
+export type AttachmentOwnerTypeType = typeof AttachmentOwnerType[keyof typeof AttachmentOwnerType];
+
+/**
+ * Attachment schema
+ * File metadata; the content lives in the configured object store and the
+ * attachment ID is listed in the owner's `attachments` array
+ */
+export const AttachmentSchema = BaseEntitySchema.extend({
+  ownerType: z.nativeEnum(AttachmentOwnerType).describe('Kind of record the file is attached to'),
+  ownerId: z.string().uuid().describe('Quality check or NCR the file is attached to'),
+  fileName: z.string().min(1).max(255).describe('Original file name'),
+  contentType: z.string().min(1).max(100).describe('MIME type'),
+  sizeBytes: z.number().int().positive().describe('File size in bytes'),
+  checksumSha256: z.string().length(64).describe('Hex SHA-256 of the content'),
+  storageDriver: z.enum(['local', 's3']).describe('Store holding the content'),
+  storageKey: z.string().min(1).max(500).describe('Object key within the store'),
+  description: z.string().max(500).optional(),
+  uploadedBy: z.string().uuid().optional().describe('Who uploaded the file'),
+  uploadedAt: z.date(),
+  isActive: z.boolean().default(true),
+});
+
+export type Attachment = z.infer<typeof AttachmentSchema>;
@@ -0,0 +1,239 @@
+import { z } from 'zod';
+import { BaseEntitySchema, BOMItemSchema, BOMSchema } from '../schemas';
+
+/**
+ * BOM status enum
+ */
+export const BOMStatus = {
+  DRAFT: 'DRAFT',         // Being edited; not used for production
+  RELEASED: 'RELEASED',   // Approved and locked; eligible for production
+  OBSOLETE: 'OBSOLETE',   // Superseded; kept for history
+} as const;
+
+export type BOMStatusType = typeof BOMStatus[keyof typeof BOMStatus];
+
+/**
+ * BOM item with component details
+ */
+export const BOMItemDetailSchema = BOMItemSchema.extend({
+  componentSku: z.string().optional().describe('SKU of the component product'),
+  componentName: z.string().optional().describe('Name of the component product'),
+});
+
+export type BOMItemDetail = z.infer<typeof BOMItemDetailSchema>;
+
+/**
+ * BOM output type enum - outputs besides the BOM's own product
+ */
+export const BOMOutputType = {
+  CO_PRODUCT: 'CO_PRODUCT',   // Saleable output that shares the order's cost
+  BY_PRODUCT: 'BY_PRODUCT',   // Incidental output carried at no cost
+} as const;
+
+export type BOMOutputTypeType = typeof BOMOutputType[keyof typeof BOMOutputType];
+
+/**
+ * How an order's cost is split between its product and co-products
+ */
+export const CostAllocationMethod = {
+  PHYSICAL_QUANTITY: 'PHYSICAL_QUANTITY',   // By quantity in the BOM product's unit
+  STANDARD_VALUE: 'STANDARD_VALUE',         // By quantity × standard cost
+  FIXED_PERCENTAGE: 'FIXED_PERCENTAGE',     // By each co-product's allocationPercent; the product takes the rest
+} as const;
+
+export type CostAllocationMethodType = typeof CostAllocationMethod[keyof typeof CostAllocationMethod];
+
+/**
+ * Co-product or by-product of a BOM
+ * yieldRatio is the output quantity, in uom, per unit of the BOM's product
+ */
+export const BOMOutputSchema = BaseEntitySchema.extend({
+  bomId: z.string().uuid(),
+  productId: z.string().uuid(),
+  productSku: z.string().optional(),
+  productName: z.string().optional(),
+  outputType: z.nativeEnum(BOMOutputType),
+  yieldRatio: z.number().positive().describe('Output per unit of the BOM product'),
+  uom: z.string().min(1).max(20),
+  allocationPercent: z.number().min(0).max(100).optional().describe('Share of cost under FIXED_PERCENTAGE'),
+  isActive: z.boolean().default(true),
+});
+
+export type BOMOutput = z.infer<typeof BOMOutputSchema>;
+
+/**
+ * Versioned BOM schema
+ * `revision` is the label of this BOM version; `version` is the row's
+ * optimistic lock counter, as on every other entity
+ */
+export const BOMDetailSchema = BOMSchema.extend({
+  status: z.nativeEnum(BOMStatus).default(BOMStatus.DRAFT),
+  effectiveFrom: z.date().optional().describe('First day the BOM may be used; open if unset'),
+  effectiveTo: z.date().optional().describe('Day the BOM stops being used; open if unset'),
+  releasedAt: z.date().optional(),
+  releasedBy: z.string().uuid().optional(),
+  releasedByName: z.string().max(100).optional(),
+  copiedFromBomId: z.string().uuid().optional().describe('BOM this version was copied from'),
+  costAllocationMethod: z.nativeEnum(CostAllocationMethod).default(CostAllocationMethod.PHYSICAL_QUANTITY),
+  productSku: z.string().optional(),
+  productName: z.string().optional(),
+  items: z.array(BOMItemDetailSchema).optional(),
+  outputs: z.array(BOMOutputSchema).optional(),
+});
+
+export type BOMDetail = z.infer<typeof BOMDetailSchema>;
+
+/**
+ * Node of an exploded BOM structure
+ * Quantities are in the line's uom, per unit of the parent's stocking unit, and
+ * include the waste factor:
+ * extendedQuantity = parent quantity in its stocking unit × quantityPer × (1 + wasteFactor)
+ */
+export interface BOMExplosionNode {
+  productId: string;
+  sku: string;
+  name: string;
+  level: number;
+  uom: string;
+  quantityPer: number;
+  wasteFactor: number;
+  extendedQuantity: number;
+  bomItemId?: string;
+  operationSequence?: number;
+  bomId?: string;      // Effective BOM used to explode this node; unset for purchased items
+  bomVersion?: string;
+  children: BOMExplosionNode[];
+}
+
+export const BOMExplosionNodeSchema: z.ZodType<BOMExplosionNode> = z.lazy(() => z.object({
+  productId: z.string().uuid(),
+  sku: z.string(),
+  name: z.string(),
+  level: z.number().int().min(0).describe('0 for the exploded product'),
+  uom: z.string(),
+  quantityPer: z.number().positive(),
+  wasteFactor: z.number().min(0).max(1),
+  extendedQuantity: z.number().positive(),
+  bomItemId: z.string().uuid().optional(),
+  operationSequence: z.number().int().positive().optional(),
+  bomId: z.string().uuid().optional(),
+  bomVersion: z.string().optional(),
+  children: z.array(BOMExplosionNodeSchema),
+}));
+
+/**
+ * Row of an indented (flattened) BOM structure, in depth-first order
+ */
+export const BOMExplosionLineSchema = z.object({
+  productId: z.string().uuid(),
+  parentProductId: z.string().uuid().optional(),
+  sku: z.string(),
+  name: z.string(),
+  level: z.number().int().min(0),
+  uom: z.string(),
+  quantityPer: z.number().positive(),
+  wasteFactor: z.number().min(0).max(1),
+  extendedQuantity: z.number().positive(),
+  bomItemId: z.string().uuid().optional(),
+  operationSequence: z.number().int().positive().optional(),
+  bomId: z.string().uuid().optional(),
+  bomVersion: z.string().optional(),
+});
+
+export type BOMExplosionLine = z.infer<typeof BOMExplosionLineSchema>;
+
+/**
+ * Component requirement rolled up across all levels of a structure
+ */
+export const BOMComponentRequirementSchema = z.object({
+  productId: z.string().uuid(),
+  sku: z.string(),
+  name: z.string(),
+  uom: z.string().describe("Component's stocking unit"),
+  totalQuantity: z.number().positive().describe('Sum of extended quantities, in the stocking unit, wherever the component appears'),
+  levels: z.array(z.number().int().positive()).describe('Levels the component appears at'),
+  isAssembly: z.boolean().describe('Component has its own effective BOM'),
+});
+
+export type BOMComponentRequirement = z.infer<typeof BOMComponentRequirementSchema>;
+
+/**
+ * Multi-level BOM explosion
+ */
+export const BOMExplosionSchema = z.object({
+  productId: z.string().uuid(),
+  quantity: z.number().positive(),
+  effectiveAt: z.date(),
+  tree: BOMExplosionNodeSchema,
+  lines: z.array(BOMExplosionLineSchema),
+  components: z.array(BOMComponentRequirementSchema),
+});
+
+export type BOMExplosion = z.infer<typeof BOMExplosionSchema>;
+
+/**
+ * Node of a where-used structure; children are the parents that use the node
+ * cumulativeQuantity = quantity of the queried component per unit of this product
+ */
+export interface WhereUsedNode {
+  productId: string;
+  sku: string;
+  name: string;
+  level: number;
+  uom: string;
+  quantityPer: number;
+  wasteFactor: number;
+  cumulativeQuantity: number;
+  bomItemId?: string;
+  bomId?: string;      // Effective BOM of this product that uses the child
+  bomVersion?: string;
+  usedBy: WhereUsedNode[];
+}
+
+export const WhereUsedNodeSchema: z.ZodType<WhereUsedNode> = z.lazy(() => z.object({
+  productId: z.string().uuid(),
+  sku: z.string(),
+  name: z.string(),
+  level: z.number().int().min(0).describe('0 for the queried component'),
+  uom: z.string().describe('Unit the child is consumed in'),
+  quantityPer: z.number().positive(),
+  wasteFactor: z.number().min(0).max(1),
+  cumulativeQuantity: z.number().positive(),
+  bomItemId: z.string().uuid().optional(),
+  bomId: z.string().uuid().optional(),
+  bomVersion: z.string().optional(),
+  usedBy: z.array(WhereUsedNodeSchema),
+}));
+
+/**
+ * Row of a flattened where-used structure, in depth-first order
+ */
+export const WhereUsedLineSchema = z.object({
+  productId: z.string().uuid(),
+  childProductId: z.string().uuid().optional(),
+  sku: z.string(),
+  name: z.string(),
+  level: z.number().int().min(0),
+  uom: z.string(),
+  quantityPer: z.number().positive(),
+  wasteFactor: z.number().min(0).max(1),
+  cumulativeQuantity: z.number().positive(),
+  bomItemId: z.string().uuid().optional(),
+  bomId: z.string().uuid().optional(),
+  bomVersion: z.string().optional(),
+  isEndItem: z.boolean().describe('Not used by any other effective BOM'),
+});
+
+export type WhereUsedLine = z.infer<typeof WhereUsedLineSchema>;
+
+/**
+ * Where-used (inverse explosion) of a component
+ */
+export const WhereUsedSchema = z.object({
+  productId: z.string().uuid(),
+  effectiveAt: z.date(),
+  tree: WhereUsedNodeSchema,
+  lines: z.array(WhereUsedLineSchema),
+});
+
+export type WhereUsed = z.infer<typeof WhereUsedSchema>;
@@ -0,0 +1,164 @@
+import { z } from 'zod';
+import { BaseEntitySchema } from '../schemas';
+import { NCRSeverity, NCRStatus } from './nonConformance.entity';
+
+/**
+ * CAPA type enum
+ */
+export const CAPAType = {
+  CORRECTIVE: 'CORRECTIVE', // Eliminate the cause of an existing non-conformance
+  PREVENTIVE: 'PREVENTIVE', // Eliminate the cause of a potential non-conformance
+} as const;
+
+export type CAPATypeType = typeof CAPAType[keyof typeof CAPAType];
+
+/**
+ * CAPA status enum
+ */
+export const CAPAStatus = {
+  OPEN: 'OPEN',                               // Raised, owner assigned
+  IN_PROGRESS: 'IN_PROGRESS',                 // Root cause analysis and action items underway
+  EFFECTIVENESS_CHECK: 'EFFECTIVENESS_CHECK', // Actions complete, verifying they worked
+  PENDING_APPROVAL: 'PENDING_APPROVAL',       // Verified effective, awaiting closure approval
+  CLOSED: 'CLOSED',                           // Closure approved
+} as const;
+
+export type CAPAStatusType = typeof CAPAStatus[keyof typeof CAPAStatus];
+
+/**
+ * CAPA action item status enum
+ */
+export const CAPAActionItemStatus = {
+  OPEN: 'OPEN',
+  IN_PROGRESS: 'IN_PROGRESS',
+  COMPLETED: 'COMPLETED',
+  CANCELLED: 'CANCELLED', // No longer needed; does not block closure
+} as const;
+
+export type CAPAActionItemStatusType = typeof CAPAActionItemStatus[keyof typeof CAPAActionItemStatus];
+
+/**
+ * Effectiveness check result enum
+ */
+export const EffectivenessResult = {
+  EFFECTIVE: 'EFFECTIVE',         // The problem has not recurred
+  NOT_EFFECTIVE: 'NOT_EFFECTIVE', // Further action required
+} as const;
+
+export type EffectivenessResultType = typeof EffectivenessResult[keyof typeof EffectivenessResult];
+
+/**
+ * CAPA action item schema
+ */
+export const CAPAActionItemSchema = BaseEntitySchema.extend({
+  capaId: z.string().uuid(),
+  description: z.string().min(1).max(500).describe('Action to be taken'),
+  assignedTo: z.string().uuid().optional().describe('Who carries out the action'),
+  assignedToName: z.string().max(100).optional().describe('Assignee name'),
+  dueDate: z.date().describe('When the action must be complete'),
+  status: z.nativeEnum(CAPAActionItemStatus).default(CAPAActionItemStatus.OPEN),
+  completedAt: z.date().optional().describe('When the action was completed'),
+  completionNotes: z.string().max(500).optional().describe('Evidence of completion'),
+  isOverdue: z.boolean().optional().describe('Past due and not yet completed or cancelled'),
+  isActive: z.boolean().default(true),
+});
+
+export type CAPAActionItem = z.infer<typeof CAPAActionItemSchema>;
+
+/**
+ * CAPA effectiveness check schema
+ * Planned when actions are complete; the result is recorded once performed
+ */
+export const CAPAEffectivenessCheckSchema = BaseEntitySchema.extend({
+  capaId: z.string().uuid(),
+  plannedDate: z.date().describe('When the check is due'),
+  criteria: z.string().max(500).optional().describe('How effectiveness will be judged'),
+  result: z.nativeEnum(EffectivenessResult).optional().describe('Outcome once performed'),
+  performedBy: z.string().uuid().optional(),
+  performedByName: z.string().max(100).optional(),
+  performedAt: z.date().optional(),
+  notes: z.string().max(1000).optional(),
+  isActive: z.boolean().default(true),
+});
+
+export type CAPAEffectivenessCheck = z.infer<typeof CAPAEffectivenessCheckSchema>;
+
+/**
+ * NCR linked to a CAPA through the NCR's references
+ */
+export const CAPALinkedNCRSchema = z.object({
+  id: z.string().uuid(),
+  ncrNumber: z.string(),
+  title: z.string(),
+  status: z.nativeEnum(NCRStatus),
+  severity: z.nativeEnum(NCRSeverity),
+});
+
+export type CAPALinkedNCR = z.infer<typeof CAPALinkedNCRSchema>;
+
+/**
+ * Corrective and preventive action schema
+ * Linked to NCRs by listing the CAPA number in each NCR's references
+ */
+export const CAPASchema = BaseEntitySchema.extend({
+  capaNumber: z.string().min(1).max(50).describe('CAPA reference number'),
+  type: z.nativeEnum(CAPAType).describe('Corrective or preventive'),
+  status: z.nativeEnum(CAPAStatus).default(CAPAStatus.OPEN).describe('Current status'),
+
+  // Description
+  title: z.string().min(1).max(200).describe('Short description'),
+  description: z.string().min(1).max(2000).describe('Problem statement'),
+  rootCause: z.string().max(2000).optional().describe('Root cause analysis'),
+
+  // Ownership
+  ownerId: z.string().uuid().describe('Person accountable for the CAPA'),
+  ownerName: z.string().max(100).describe('Owner name'),
+
+  // Timing
+  dueDate: z.date().describe('Target closure date'),
+  actualCloseDate: z.date().optional().describe('When closure was approved'),
+
+  // Closure approval - must be someone other than the owner
+  approvedBy: z.string().uuid().optional(),
+  approvedByName: z.string().max(100).optional(),
+  approvedAt: z.date().optional(),
+  approvalNotes: z.string().max(500).optional(),
+
+  isOverdue: z.boolean().optional().describe('Past due and not yet closed'),
+  actionItems: z.array(CAPAActionItemSchema).optional(),
+  effectivenessChecks: z.array(CAPAEffectivenessCheckSchema).optional(),
+  linkedNCRs: z.array(CAPALinkedNCRSchema).optional(),
+
+  isActive: z.boolean().default(true),
+});
+
+export type CAPA = z.infer<typeof CAPASchema>;
+
+/**
+ * CAPA summary for dashboards
+ */
+export const CAPASummarySchema = z.object({
+  ownerId: z.string().uuid().optional(),
+
+  // Counts by status
+  totalCAPAs: z.number().int().min(0),
+  openCAPAs: z.number().int().min(0),
+  inProgressCAPAs: z.number().int().min(0),
+  effectivenessCheckCAPAs: z.number().int().min(0),
+  pendingApprovalCAPAs: z.number().int().min(0),
+  closedCAPAs: z.number().int().min(0),
+
+  // Counts by type
+  correctiveCAPAs: z.number().int().min(0),
+  preventiveCAPAs: z.number().int().min(0),
+
+  // Performance metrics
+  averageClosureDays: z.number().min(0),
+  overdueCAPAs: z.number().int().min(0),
+  overdueActionItems: z.number().int().min(0),
+  ineffectiveChecks: z.number().int().min(0),
+
+  lastUpdated: z.date(),
+});
+
+export type CAPASummary = z.infer<typeof CAPASummarySchema>;
@@ -0,0 +1,145 @@
+import { z } from 'zod';
+import { BaseEntitySchema } from '../schemas';
+
+/**
+ * Cost period status enum
+ */
+export const CostPeriodStatus = {
+  OPEN: 'OPEN',       // Standard costs may be set and rolled up
+  FROZEN: 'FROZEN',   // Standard costs fixed for valuation and variances
+} as const;
+
+export type CostPeriodStatusType = typeof CostPeriodStatus[keyof typeof CostPeriodStatus];
+
+/**
+ * How a standard cost was obtained
+ */
+export const StandardCostType = {
+  PURCHASED: 'PURCHASED',   // Entered material cost of a bought item
+  ROLLED_UP: 'ROLLED_UP',   // Calculated from the BOM and routing
+} as const;
+
+export type StandardCostTypeType = typeof StandardCostType[keyof typeof StandardCostType];
+
+/**
+ * Cost period schema - standard costs are versioned per period
+ */
+export const CostPeriodSchema = BaseEntitySchema.extend({
+  code: z.string().min(1).max(20).describe('Period reference, e.g. 2026-Q4'),
+  name: z.string().min(1).max(100),
+  startDate: z.date(),
+  endDate: z.date().describe('Last day of the period, inclusive'),
+  status: z.nativeEnum(CostPeriodStatus).default(CostPeriodStatus.OPEN),
+  isActive: z.boolean().default(true),
+});
+
+export type CostPeriod = z.infer<typeof CostPeriodSchema>;
+
+/**
+ * Cost elements per unit or extended over a quantity
+ */
+export const CostElementsSchema = z.object({
+  material: z.number(),
+  labor: z.number(),
+  machine: z.number(),
+  total: z.number(),
+});
+
+export type CostElements = z.infer<typeof CostElementsSchema>;
+
+/**
+ * One line of a rolled-up standard cost: a BOM component or a routing step
+ */
+export const StandardCostLineSchema = z.object({
+  type: z.enum(['COMPONENT', 'OPERATION']),
+  // Components
+  productId: z.string().uuid().optional(),
+  sku: z.string().optional(),
+  quantity: z.number().optional().describe('Per unit of the parent, including waste, in uom'),
+  uom: z.string().optional(),
+  unitCost: z.number().optional().describe('Component total standard cost per uom'),
+  // Operations
+  routingStepId: z.string().uuid().optional(),
+  operationId: z.string().optional(),
+  workCenterId: z.string().uuid().optional(),
+  minutesPerUnit: z.number().optional().describe('Run time plus setup and teardown spread over the lot size'),
+  // Cost per unit of the parent
+  materialCost: z.number(),
+  laborCost: z.number(),
+  machineCost: z.number(),
+});
+
+export type StandardCostLine = z.infer<typeof StandardCostLineSchema>;
+
+/**
+ * Standard cost of a product in a cost period, per unit of the product's uom.
+ * Material cost includes the full standard cost of components; labor and
+ * machine costs are this level's routing only.
+ */
+export const StandardCostSchema = BaseEntitySchema.extend({
+  costPeriodId: z.string().uuid(),
+  productId: z.string().uuid(),
+  productSku: z.string().optional(),
+  costType: z.nativeEnum(StandardCostType),
+  uom: z.string().max(20),
+  lotSize: z.number().positive().default(1).describe('Quantity setup and teardown are spread over'),
+  materialCost: z.number().min(0),
+  laborCost: z.number().min(0),
+  machineCost: z.number().min(0),
+  totalCost: z.number().min(0),
+  bomId: z.string().uuid().optional(),
+  routingId: z.string().uuid().optional(),
+  lines: z.array(StandardCostLineSchema).default([]),
+  rolledUpAt: z.date().optional(),
+  isActive: z.boolean().default(true),
+});
+
+export type StandardCost = z.infer<typeof StandardCostSchema>;
+
+/**
+ * Result of a cost roll-up
+ */
+export const CostRollUpResultSchema = z.object({
+  costPeriodId: z.string().uuid(),
+  costs: z.array(StandardCostSchema),
+  warnings: z.array(z.string()).describe('Components costed at zero for lack of a BOM or purchased cost'),
+});
+
+export type CostRollUpResult = z.infer<typeof CostRollUpResultSchema>;
+
+/**
+ * Material usage of a completed MO against standard
+ */
+export const MaterialVarianceLineSchema = z.object({
+  productId: z.string().uuid(),
+  sku: z.string(),
+  uom: z.string(),
+  standardQuantity: z.number(),
+  actualQuantity: z.number().describe('Consumed plus waste'),
+  unitCost: z.number(),
+  standardCost: z.number(),
+  actualCost: z.number(),
+  variance: z.number().describe('Actual minus standard; positive is unfavourable'),
+});
+
+export type MaterialVarianceLine = z.infer<typeof MaterialVarianceLineSchema>;
+
+/**
+ * Actual-vs-standard cost of a completed manufacturing order
+ */
+export const MOCostVarianceSchema = z.object({
+  manufacturingOrderId: z.string().uuid(),
+  orderNumber: z.string(),
+  productId: z.string().uuid(),
+  productSku: z.string(),
+  costPeriodId: z.string().uuid(),
+  costPeriodCode: z.string(),
+  quantity: z.number().describe('Quantity produced, in uom'),
+  uom: z.string(),
+  standard: CostElementsSchema,
+  actual: CostElementsSchema,
+  variance: CostElementsSchema.describe('Actual minus standard; positive is unfavourable'),
+  materials: z.array(MaterialVarianceLineSchema),
+});
+
+export type MOCostVariance = z.infer<typeof MOCostVarianceSchema>;
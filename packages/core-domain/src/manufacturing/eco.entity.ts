@@ -0,0 +1,202 @@
+import { z } from 'zod';
+import { BaseEntitySchema } from '../schemas';
+
+/**
+ * ECO status enum
+ */
+export const ECOStatus = {
+  DRAFT: 'DRAFT',           // Changes being prepared; editable
+  SUBMITTED: 'SUBMITTED',   // Awaiting review
+  APPROVED: 'APPROVED',     // Approved; ready to apply
+  REJECTED: 'REJECTED',     // Refused by the reviewer
+  APPLIED: 'APPLIED',       // New BOM and routing versions created
+  CANCELLED: 'CANCELLED',   // Withdrawn before being applied
+} as const;
+
+export type ECOStatusType = typeof ECOStatus[keyof typeof ECOStatus];
+
+/**
+ * ECO change type enum - what a change revises
+ */
+export const ECOChangeType = {
+  BOM: 'BOM',         // Released BOM and its items
+  ROUTING: 'ROUTING', // Routing and its steps
+} as const;
+
+export type ECOChangeTypeType = typeof ECOChangeType[keyof typeof ECOChangeType];
+
+/**
+ * Action of a proposed BOM item or routing step change
+ */
+export const ECOLineAction = {
+  ADD: 'ADD',
+  UPDATE: 'UPDATE',
+  REMOVE: 'REMOVE',
+} as const;
+
+export type ECOLineActionType = typeof ECOLineAction[keyof typeof ECOLineAction];
+
+/**
+ * How a line differs between the source version and the proposed one
+ */
+export const ECODiffAction = {
+  ADDED: 'ADDED',
+  CHANGED: 'CHANGED',
+  REMOVED: 'REMOVED',
+  UNCHANGED: 'UNCHANGED',
+} as const;
+
+export type ECODiffActionType = typeof ECODiffAction[keyof typeof ECODiffAction];
+
+/**
+ * Proposed change to one item of a BOM
+ * UPDATE and REMOVE reference bomItemId; ADD supplies the new item
+ */
+export const BOMItemChangeSchema = z.object({
+  action: z.nativeEnum(ECOLineAction),
+  bomItemId: z.string().uuid().optional(),
+  componentProductId: z.string().uuid().optional(),
+  quantity: z.number().positive().optional(),
+  uom: z.string().min(1).max(20).optional(),
+  operationSequence: z.number().int().positive().optional(),
+  wasteFactor: z.number().min(0).max(1).optional(),
+});
+
+export type BOMItemChange = z.infer<typeof BOMItemChangeSchema>;
+
+/**
+ * Proposed change to one step of a routing
+ * UPDATE and REMOVE reference routingStepId; ADD supplies the new step
+ */
+export const RoutingStepChangeSchema = z.object({
+  action: z.nativeEnum(ECOLineAction),
+  routingStepId: z.string().uuid().optional(),
+  workCenterId: z.string().uuid().optional(),
+  operationId: z.string().min(1).max(50).optional(),
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().optional(),
+  sequence: z.number().int().positive().optional(),
+  setupTime: z.number().int().min(0).optional(),
+  runTime: z.number().min(0).optional(),
+  teardownTime: z.number().int().min(0).optional(),
+});
+
+export type RoutingStepChange = z.infer<typeof RoutingStepChangeSchema>;
+
+/**
+ * Proposed revision of one BOM or routing
+ * Applying it creates version `newVersion` from the source with the line
+ * changes applied
+ */
+export const ECOChangeSchema = BaseEntitySchema.extend({
+  ecoId: z.string().uuid(),
+  changeType: z.nativeEnum(ECOChangeType),
+  productId: z.string().uuid(),
+  productSku: z.string().optional(),
+  sourceBomId: z.string().uuid().optional().describe('Released BOM being revised'),
+  sourceRoutingId: z.string().uuid().optional().describe('Routing being revised'),
+  sourceVersion: z.string().optional(),
+  newVersion: z.string().min(1).max(10).describe('Revision label of the version created on apply'),
+  newName: z.string().max(100).optional().describe('Replaces the source name if set'),
+  newDescription: z.string().optional().describe('Replaces the source description if set'),
+  makeDefault: z.boolean().default(true),
+  itemChanges: z.array(BOMItemChangeSchema).optional(),
+  stepChanges: z.array(RoutingStepChangeSchema).optional(),
+  resultBomId: z.string().uuid().optional().describe('BOM created when the ECO was applied'),
+  resultRoutingId: z.string().uuid().optional().describe('Routing created when the ECO was applied'),
+  isActive: z.boolean().default(true),
+});
+
+export type ECOChange = z.infer<typeof ECOChangeSchema>;
+
+/**
+ * Engineering change order schema
+ * Bundles BOM and routing revisions that are reviewed and applied together
+ */
+export const ECOSchema = BaseEntitySchema.extend({
+  ecoNumber: z.string().min(1).max(50).describe('ECO reference number'),
+  status: z.nativeEnum(ECOStatus).default(ECOStatus.DRAFT),
+
+  // Description
+  title: z.string().min(1).max(200),
+  description: z.string().max(2000).optional(),
+  reason: z.string().max(2000).optional().describe('Why the change is needed'),
+
+  // Effectivity - new BOM versions take over from this instant
+  effectiveDate: z.date(),
+
+  // Request and review - the reviewer must be someone other than the requester
+  requestedBy: z.string().uuid(),
+  requestedByName: z.string().max(100),
+  reviewedBy: z.string().uuid().optional(),
+  reviewedByName: z.string().max(100).optional(),
+  reviewedAt: z.date().optional(),
+  reviewNotes: z.string().max(1000).optional(),
+
+  // Application
+  appliedBy: z.string().uuid().optional(),
+  appliedByName: z.string().max(100).optional(),
+  appliedAt: z.date().optional(),
+
+  changes: z.array(ECOChangeSchema).optional(),
+  isActive: z.boolean().default(true),
+});
+
+export type ECO = z.infer<typeof ECOSchema>;
+
+/**
+ * One BOM item or routing step compared between the source and the proposal
+ */
+export const ECODiffLineSchema = z.object({
+  action: z.nativeEnum(ECODiffAction),
+  sourceLineId: z.string().uuid().optional().describe('bom_items or routing_steps row of the source'),
+  label: z.string().describe('Component SKU or operation ID'),
+  before: z.record(z.any()).optional(),
+  after: z.record(z.any()).optional(),
+  changedFields: z.array(z.string()),
+});
+
+export type ECODiffLine = z.infer<typeof ECODiffLineSchema>;
+
+/**
+ * Diff of one ECO change against the current source version
+ */
+export const ECOChangeDiffSchema = z.object({
+  changeId: z.string().uuid(),
+  changeType: z.nativeEnum(ECOChangeType),
+  productId: z.string().uuid(),
+  productSku: z.string(),
+  sourceId: z.string().uuid(),
+  sourceVersion: z.string(),
+  newVersion: z.string(),
+  header: z.array(z.object({
+    field: z.string(),
+    before: z.string().optional(),
+    after: z.string().optional(),
+  })).describe('Name and description changes'),
+  lines: z.array(ECODiffLineSchema),
+});
+
+export type ECOChangeDiff = z.infer<typeof ECOChangeDiffSchema>;
+
+/**
+ * Open manufacturing order affected by an ECO
+ * DIRECT orders make a revised product; WHERE_USED orders make a product
+ * whose structure contains one
+ */
+export const ECOAffectedOrderSchema = z.object({
+  manufacturingOrderId: z.string().uuid(),
+  orderNumber: z.string(),
+  productId: z.string().uuid(),
+  productSku: z.string(),
+  status: z.string(),
+  quantity: z.number().positive(),
+  plannedStartDate: z.date(),
+  bomId: z.string().uuid().optional(),
+  routingId: z.string().uuid().optional(),
+  impact: z.enum(['DIRECT', 'WHERE_USED']),
+  changeTypes: z.array(z.nativeEnum(ECOChangeType)),
+  startsBeforeEffectiveDate: z.boolean().describe('Order is planned to start before the ECO takes effect'),
+});
+
+export type ECOAffectedOrder = z.infer<typeof ECOAffectedOrderSchema>;
@@ -0,0 +1,117 @@
+import { z } from 'zod';
+import { BaseEntitySchema } from '../schemas';
+
+/**
+ * License plate type enum
+ */
+export const LicensePlateType = {
+  PALLET: 'PALLET',
+  CASE: 'CASE',
+  TOTE: 'TOTE',
+  CONTAINER: 'CONTAINER',
+} as const;
+
+export type LicensePlateTypeType = typeof LicensePlateType[keyof typeof LicensePlateType];
+
+/**
+ * License plate event type enum
+ */
+export const LicensePlateEventType = {
+  CREATED: 'CREATED',
+  PACKED: 'PACKED',         // Lot quantity or serial put on the plate
+  UNPACKED: 'UNPACKED',     // Lot quantity or serial taken off, left loose
+  MOVED: 'MOVED',           // Plate and everything on it moved
+  NESTED: 'NESTED',         // Plate put inside another
+  UNNESTED: 'UNNESTED',     // Plate taken out of its parent
+  SPLIT: 'SPLIT',           // Contents moved to a new plate
+  MERGED: 'MERGED',         // Contents of one plate moved onto another
+} as const;
+
+export type LicensePlateEventTypeType = typeof LicensePlateEventType[keyof typeof LicensePlateEventType];
+
+/**
+ * License plate - an identified container or pallet. Plates nested in
+ * another share its place and move with it.
+ */
+export const LicensePlateSchema = BaseEntitySchema.extend({
+  lpNumber: z.string().min(1).max(50).describe('Scannable plate number'),
+  lpType: z.nativeEnum(LicensePlateType),
+  parentLicensePlateId: z.string().uuid().optional(),
+  parentLpNumber: z.string().optional(),
+  locationId: z.string().uuid().optional(),
+  locationCode: z.string().optional(),
+  binId: z.string().uuid().optional(),
+  binCode: z.string().optional(),
+  isActive: z.boolean().default(true),
+});
+
+export type LicensePlate = z.infer<typeof LicensePlateSchema>;
+
+/**
+ * Lot quantity or serial packed directly on a plate. Lot quantities are in
+ * the lot's unit; a serial is one of its product's unit.
+ */
+export const LicensePlateContentSchema = z.object({
+  id: z.string().uuid(),
+  licensePlateId: z.string().uuid(),
+  productId: z.string().uuid(),
+  sku: z.string(),
+  lotId: z.string().uuid().optional(),
+  lotNumber: z.string().optional(),
+  serialNumberId: z.string().uuid().optional(),
+  serialNumber: z.string().optional(),
+  quantity: z.number().positive(),
+  uom: z.string(),
+});
+
+export type LicensePlateContent = z.infer<typeof LicensePlateContentSchema>;
+
+/**
+ * Product total on a plate and the plates nested in it, in the product's
+ * stocking unit
+ */
+export const LicensePlateTotalSchema = z.object({
+  productId: z.string().uuid(),
+  sku: z.string(),
+  uom: z.string(),
+  quantity: z.number(),
+});
+
+export type LicensePlateTotal = z.infer<typeof LicensePlateTotalSchema>;
+
+/**
+ * License plate with its contents and nested plates
+ */
+export interface LicensePlateTree extends LicensePlate {
+  contents: LicensePlateContent[];
+  children: LicensePlateTree[];
+  totals: LicensePlateTotal[];  // Rolled up from nested plates
+}
+
+export const LicensePlateTreeSchema: z.ZodType<LicensePlateTree> = z.lazy(() => LicensePlateSchema.extend({
+  contents: z.array(LicensePlateContentSchema),
+  children: z.array(LicensePlateTreeSchema),
+  totals: z.array(LicensePlateTotalSchema),
+})) as z.ZodType<LicensePlateTree>;
+
+/**
+ * License plate event, kept for audit
+ */
+export const LicensePlateEventSchema = z.object({
+  id: z.string().uuid(),
+  licensePlateId: z.string().uuid(),
+  eventType: z.nativeEnum(LicensePlateEventType),
+  lotId: z.string().uuid().optional(),
+  serialNumberId: z.string().uuid().optional(),
+  quantity: z.number().optional(),
+  uom: z.string().optional(),
+  relatedLicensePlateId: z.string().uuid().optional().describe('Parent, split-off or merged plate'),
+  fromLocationId: z.string().uuid().optional(),
+  fromBinId: z.string().uuid().optional(),
+  toLocationId: z.string().uuid().optional(),
+  toBinId: z.string().uuid().optional(),
+  performedBy: z.string().uuid().optional(),
+  createdAt: z.date(),
+});
+
+export type LicensePlateEvent = z.infer<typeof LicensePlateEventSchema>;
@@ -0,0 +1,149 @@
+import { z } from 'zod';
+
+/**
+ * Inventory location type enum
+ */
+export const LocationType = {
+  WAREHOUSE: 'WAREHOUSE',     // Storage of raw materials and finished goods
+  PRODUCTION: 'PRODUCTION',   // Line-side and work-in-progress stock
+  SHIPPING: 'SHIPPING',       // Staged for dispatch
+  RECEIVING: 'RECEIVING',     // Goods in, awaiting putaway
+  QUALITY: 'QUALITY',         // Held for inspection or quarantine
+} as const;
+
+export type LocationTypeType = typeof LocationType[keyof typeof LocationType];
+
+/**
+ * Bin as listed in a location tree
+ */
+export const BinSummarySchema = z.object({
+  id: z.string().uuid(),
+  code: z.string(),
+  name: z.string(),
+  capacity: z.number().positive().optional(),
+  capacityUom: z.string().optional(),
+});
+
+export type BinSummary = z.infer<typeof BinSummarySchema>;
+
+/**
+ * Node of a site's location tree
+ */
+export interface LocationTreeNode {
+  id: string;
+  code: string;
+  name: string;
+  type: LocationTypeType;
+  parentLocationId?: string;
+  level: number;
+  path: string;        // Location codes from the root, e.g. WH1/A/A-01
+  bins: BinSummary[];
+  children: LocationTreeNode[];
+}
+
+export const LocationTreeNodeSchema: z.ZodType<LocationTreeNode> = z.lazy(() => z.object({
+  id: z.string().uuid(),
+  code: z.string(),
+  name: z.string(),
+  type: z.nativeEnum(LocationType),
+  parentLocationId: z.string().uuid().optional(),
+  level: z.number().int().min(0).describe('0 for top-level locations of the site'),
+  path: z.string(),
+  bins: z.array(BinSummarySchema),
+  children: z.array(LocationTreeNodeSchema),
+}));
+
+/**
+ * Bin capacity check. Stock is converted to the bin's capacity unit; a bin
+ * without a capacity accepts any quantity.
+ */
+export const BinCapacitySchema = z.object({
+  binId: z.string().uuid(),
+  binCode: z.string(),
+  capacity: z.number().positive().optional(),
+  capacityUom: z.string().optional(),
+  used: z.number().min(0).optional().describe('Stock in the bin, in capacityUom; unset without a capacity'),
+  available: z.number().optional().describe('Capacity less used; negative when over capacity'),
+  requested: z.number().min(0).optional().describe('Quantity checked, in capacityUom'),
+  fits: z.boolean(),
+});
+
+export type BinCapacity = z.infer<typeof BinCapacitySchema>;
+
+/**
+ * Lot held in a location
+ */
+export const LocationLotSchema = z.object({
+  lotId: z.string().uuid(),
+  lotNumber: z.string(),
+  productId: z.string().uuid(),
+  sku: z.string(),
+  quantity: z.number(),
+  uom: z.string(),
+  status: z.string(),
+  expiryDate: z.date().optional(),
+  licensePlateId: z.string().uuid().optional().describe('Set for quantity packed on a license plate'),
+  licensePlateNumber: z.string().optional(),
+  locationId: z.string().uuid(),
+  locationCode: z.string(),
+  binId: z.string().uuid().optional(),
+  binCode: z.string().optional(),
+});
+
+export type LocationLot = z.infer<typeof LocationLotSchema>;
+
+/**
+ * Serial-numbered item held in a location
+ */
+export const LocationSerialSchema = z.object({
+  serialNumberId: z.string().uuid(),
+  serialNumber: z.string(),
+  productId: z.string().uuid(),
+  sku: z.string(),
+  lotId: z.string().uuid().optional(),
+  status: z.string(),
+  licensePlateId: z.string().uuid().optional(),
+  licensePlateNumber: z.string().optional(),
+  locationId: z.string().uuid(),
+  locationCode: z.string(),
+  binId: z.string().uuid().optional(),
+  binCode: z.string().optional(),
+});
+
+export type LocationSerial = z.infer<typeof LocationSerialSchema>;
+
+/**
+ * License plate held in a location
+ */
+export const LocationLicensePlateSchema = z.object({
+  licensePlateId: z.string().uuid(),
+  lpNumber: z.string(),
+  lpType: z.string(),
+  parentLicensePlateId: z.string().uuid().optional(),
+  locationId: z.string().uuid(),
+  locationCode: z.string(),
+  binId: z.string().uuid().optional(),
+  binCode: z.string().optional(),
+});
+
+export type LocationLicensePlate = z.infer<typeof LocationLicensePlateSchema>;
+
+/**
+ * Contents of a location, optionally including its child locations
+ */
+export const LocationContentsSchema = z.object({
+  locationId: z.string().uuid(),
+  locationCode: z.string(),
+  includeChildren: z.boolean(),
+  lots: z.array(LocationLotSchema).describe('Loose lot quantities and quantities packed on license plates, one row each'),
+  serialNumbers: z.array(LocationSerialSchema).describe('Serials in a lot are counted in the lot quantity, not again in totals'),
+  licensePlates: z.array(LocationLicensePlateSchema),
+  totals: z.array(z.object({
+    productId: z.string().uuid(),
+    sku: z.string(),
+    uom: z.string().describe('Product stocking unit'),
+    quantity: z.number(),
+  })),
+});
+
+export type LocationContents = z.infer<typeof LocationContentsSchema>;
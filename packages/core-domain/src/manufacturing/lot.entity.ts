@@ -0,0 +1,148 @@
+import { z } from 'zod';
+import { LotSchema } from '../schemas';
+
+/**
+ * Lot status enum
+ */
+export const LotStatus = {
+  AVAILABLE: 'AVAILABLE',       // Free to issue and move
+  QUARANTINED: 'QUARANTINED',   // Held pending inspection or disposition
+  EXPIRED: 'EXPIRED',           // Past its expiry date
+  CONSUMED: 'CONSUMED',         // Balance issued or scrapped to zero; terminal
+} as const;
+
+export type LotStatusType = typeof LotStatus[keyof typeof LotStatus];
+
+/**
+ * Inventory transaction type enum
+ */
+export const InventoryTransactionType = {
+  RECEIPT: 'RECEIPT',         // Quantity into the lot: purchase, production output
+  ISSUE: 'ISSUE',             // Quantity out to production
+  ADJUSTMENT: 'ADJUSTMENT',   // Count correction, either sign
+  TRANSFER: 'TRANSFER',       // Lot moved between locations or bins; no quantity change
+  SCRAP: 'SCRAP',             // Quantity written off
+} as const;
+
+export type InventoryTransactionTypeType = typeof InventoryTransactionType[keyof typeof InventoryTransactionType];
+
+/**
+ * Lot with its product and storage place
+ */
+export const LotDetailSchema = LotSchema.extend({
+  productSku: z.string().optional(),
+  productName: z.string().optional(),
+  locationCode: z.string().optional(),
+  binCode: z.string().optional(),
+});
+
+export type LotDetail = z.infer<typeof LotDetailSchema>;
+
+/**
+ * Inventory transaction - one append-only ledger entry against a lot.
+ * Entries are numbered per lot; each records the signed quantity change in
+ * the lot's unit and the balance it left.
+ */
+export const InventoryTransactionSchema = z.object({
+  id: z.string().uuid(),
+  lotId: z.string().uuid(),
+  lotNumber: z.string().optional(),
+  productId: z.string().uuid(),
+  sequence: z.number().int().positive().describe('Position in the lot\'s ledger'),
+  transactionType: z.nativeEnum(InventoryTransactionType),
+  quantity: z.number().describe('Signed change in uom; zero for transfers'),
+  uom: z.string().max(20),
+  balanceAfter: z.number().min(0),
+  enteredQuantity: z.number().optional().describe('Quantity as entered, before conversion'),
+  enteredUom: z.string().optional(),
+  fromLocationId: z.string().uuid().optional(),
+  fromBinId: z.string().uuid().optional(),
+  toLocationId: z.string().uuid().optional(),
+  toBinId: z.string().uuid().optional(),
+  referenceType: z.string().max(30).optional().describe('Source document, e.g. MATERIAL_CONSUMPTION'),
+  referenceId: z.string().uuid().optional(),
+  reason: z.string().optional(),
+  performedBy: z.string().uuid().optional(),
+  createdAt: z.date(),
+});
+
+export type InventoryTransaction = z.infer<typeof InventoryTransactionSchema>;
+
+/**
+ * Lot status change, kept for audit
+ */
+export const LotStatusChangeSchema = z.object({
+  id: z.string().uuid(),
+  lotId: z.string().uuid(),
+  fromStatus: z.nativeEnum(LotStatus),
+  toStatus: z.nativeEnum(LotStatus),
+  reason: z.string().optional(),
+  changedBy: z.string().uuid().optional(),
+  createdAt: z.date(),
+});
+
+export type LotStatusChange = z.infer<typeof LotStatusChangeSchema>;
+
+/**
+ * A lot's ledger with the balance derived from it. `derivedQuantity` is the
+ * sum of the entries; `balanced` is false if it differs from the lot's
+ * recorded quantity or from any entry's balanceAfter.
+ */
+export const LotLedgerSchema = z.object({
+  lotId: z.string().uuid(),
+  lotNumber: z.string(),
+  uom: z.string(),
+  quantity: z.number().describe('Recorded on the lot'),
+  derivedQuantity: z.number(),
+  balanced: z.boolean(),
+  transactions: z.array(InventoryTransactionSchema.extend({
+    runningBalance: z.number().describe('Sum of entries up to and including this one'),
+  })),
+  statusChanges: z.array(LotStatusChangeSchema),
+});
+
+export type LotLedger = z.infer<typeof LotLedgerSchema>;
+
+/**
+ * Lot genealogy edge - a lot consumed by a manufacturing order and a lot that
+ * order produced. The quantity is what the order drew from the parent lot.
+ */
+export const LotGenealogyEdgeSchema = z.object({
+  parentLotId: z.string().uuid().describe('Consumed lot'),
+  childLotId: z.string().uuid().describe('Produced lot'),
+  manufacturingOrderId: z.string().uuid(),
+  orderNumber: z.string().optional(),
+  quantity: z.number().min(0),
+  uom: z.string().max(20),
+  depth: z.number().int().positive().describe('Steps from the traced lot'),
+});
+
+export type LotGenealogyEdge = z.infer<typeof LotGenealogyEdgeSchema>;
+
+/**
+ * Trace direction: backward to the lots a lot was made from, forward to the
+ * lots made from it
+ */
+export const TraceDirection = {
+  BACKWARD: 'BACKWARD',
+  FORWARD: 'FORWARD',
+} as const;
+
+export type TraceDirectionType = typeof TraceDirection[keyof typeof TraceDirection];
+
+/**
+ * Lot trace - the genealogy graph reachable from a lot in one direction.
+ * Nodes include the traced lot at depth 0; `truncated` is true when the
+ * graph continues past the depth limit.
+ */
+export const LotTraceSchema = z.object({
+  lotId: z.string().uuid(),
+  direction: z.nativeEnum(TraceDirection),
+  nodes: z.array(LotDetailSchema.extend({
+    depth: z.number().int().min(0).describe('Fewest steps from the traced lot'),
+  })),
+  edges: z.array(LotGenealogyEdgeSchema),
+  truncated: z.boolean(),
+});
+
+export type LotTrace = z.infer<typeof LotTraceSchema>;
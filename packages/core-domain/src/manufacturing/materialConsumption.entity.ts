@@ -29,7 +29,8 @@ export const MaterialConsumptionSchema = BaseEntitySchema.extend({
   // Material Details
   sku: z.string().min(1).max(50).describe('Material SKU'),
   productName: z.string().min(1).max(200).describe('Material name'),
-  uom: z.string().min(1).max(20).describe('Unit of measure'),
+  uom: z.string().min(1).max(20).describe('Unit of measure (the BOM item unit when recorded against one)'),
+  enteredUom: z.string().max(20).optional().describe('Unit the quantities were recorded in, before conversion'),
   
   // Transaction Info
   transactionType: z.nativeEnum(MaterialTransactionType).describe('Type of material transaction'),
@@ -40,10 +41,12 @@ export const MaterialConsumptionSchema = BaseEntitySchema.extend({
   consumedQuantity: z.number().min(0).default(0).describe('Actual quantity consumed'),
   wasteQuantity: z.number().min(0).default(0).describe('Quantity wasted'),
   returnedQuantity: z.number().min(0).default(0).describe('Quantity returned unused'),
+  lotQuantity: z.number().min(0).optional().describe('Consumed plus waste quantity drawn from the lot, in lotUom'),
+  lotUom: z.string().max(20).optional().describe('Unit of measure of the lot'),
   
   // Costing
-  unitCost: z.number().min(0).optional().describe('Cost per unit'),
-  totalCost: z.number().min(0).optional().describe('Total material cost'),
+  unitCost: z.number().min(0).optional().describe('Standard cost per uom when recorded'),
+  totalCost: z.number().min(0).optional().describe('Cost of the consumed quantity'),
   wasteCost: z.number().min(0).optional().describe('Cost of waste'),
   
   // Waste Analysis
@@ -0,0 +1,51 @@
+import { z } from 'zod';
+import { BaseEntitySchema } from '../schemas';
+import { CostAllocationMethod } from './bom.entity';
+
+/**
+ * Manufacturing order output type enum
+ */
+export const MOOutputType = {
+  PRIMARY: 'PRIMARY',         // The order's own product
+  CO_PRODUCT: 'CO_PRODUCT',   // Declared on the BOM; shares the order's cost
+  BY_PRODUCT: 'BY_PRODUCT',   // Declared on the BOM; carried at no cost
+} as const;
+
+export type MOOutputTypeType = typeof MOOutputType[keyof typeof MOOutputType];
+
+/**
+ * Output reported for a manufacturing order on completion, received into a
+ * new lot and costed with its share of the order's actual cost
+ */
+export const ManufacturingOrderOutputSchema = BaseEntitySchema.extend({
+  manufacturingOrderId: z.string().uuid(),
+  productId: z.string().uuid(),
+  productSku: z.string().optional(),
+  outputType: z.nativeEnum(MOOutputType),
+  bomOutputId: z.string().uuid().optional().describe('BOM co-product or by-product line'),
+  quantity: z.number().positive(),
+  uom: z.string().min(1).max(20),
+  lotId: z.string().uuid(),
+  lotNumber: z.string().max(50),
+  allocationMethod: z.nativeEnum(CostAllocationMethod),
+  costShare: z.number().min(0).max(1).describe('Fraction of the order cost allocated to this output'),
+  allocatedCost: z.number().min(0),
+  unitCost: z.number().min(0).describe('Allocated cost per uom'),
+  reportedBy: z.string().uuid().optional(),
+  isActive: z.boolean().default(true),
+});
+
+export type ManufacturingOrderOutput = z.infer<typeof ManufacturingOrderOutputSchema>;
+
+/**
+ * Output quantity reported by the shop floor. Without reports, outputs are
+ * derived from the quantity produced and the BOM yield ratios.
+ */
+export const ReportedOutputSchema = z.object({
+  productId: z.string().uuid(),
+  quantity: z.number().min(0),
+  uom: z.string().min(1).max(20).optional().describe('Defaults to the BOM output unit, or the order unit for its product'),
+  lotNumber: z.string().min(1).max(50).optional().describe('Defaults to the order number'),
+});
+
+export type ReportedOutput = z.infer<typeof ReportedOutputSchema>;
@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { BaseEntitySchema } from '../schemas';
+import { QualityCheckType } from './qualityCheck.entity';
 
 /**
  * Non-conformance Severity enum
@@ -151,3 +152,17 @@ export const CreateNCRRequestSchema = NonConformanceReportSchema.omit({
 });
 
 export type CreateNCRRequest = z.infer<typeof CreateNCRRequestSchema>;
+
+/**
+ * NCR severity rule schema
+ * Classifies NCRs drafted automatically from failed quality checks
+ */
+export const NCRSeverityRuleSchema = BaseEntitySchema.extend({
+  checkType: z.nativeEnum(QualityCheckType).describe('Quality check type the rule applies to'),
+  severity: z.nativeEnum(NCRSeverity).describe('Severity assigned to drafted NCRs'),
+  category: z.nativeEnum(NCRCategory).describe('Category assigned to drafted NCRs'),
+  autoCreate: z.boolean().default(true).describe('Whether failures of this check type draft an NCR'),
+  isActive: z.boolean().default(true).describe('Soft delete flag'),
+});
+
+export type NCRSeverityRule = z.infer<typeof NCRSeverityRuleSchema>;
@@ -7,6 +7,7 @@ import { BaseEntitySchema } from '../common/base.entity';
 export const QualityCheckStatus = {
   PENDING: 'PENDING',
   IN_PROGRESS: 'IN_PROGRESS',
+  PENDING_VERIFICATION: 'PENDING_VERIFICATION', // First result recorded, awaiting second check
   PASSED: 'PASSED',
   FAILED: 'FAILED',
   SKIPPED: 'SKIPPED',
@@ -50,6 +51,10 @@ export const EnhancedQualityCheckSchema = BaseEntitySchema.extend({
   manufacturingOrderId: z.string().uuid().describe('Associated manufacturing order'),
   operationId: z.string().uuid().optional().describe('Associated manufacturing operation (if operation-specific)'),
   workCenterId: z.string().uuid().optional().describe('Work center where check is performed'),
+  lotId: z.string().uuid().optional().describe('Lot being inspected'),
+  serialNumberId: z.string().uuid().optional().describe('Serial being inspected'),
+  templateId: z.string().uuid().optional().describe('Template version this check was created from'),
+  qualityPlanItemId: z.string().uuid().optional().describe('Quality plan item that generated this check'),
 
   // Check Definition
   name: z.string().min(1).max(200).describe('Quality check name'),
@@ -75,6 +80,12 @@ export const EnhancedQualityCheckSchema = BaseEntitySchema.extend({
   result: z.nativeEnum(QualityCheckResult).optional().describe('Overall result'),
   measuredValue: z.number().optional().describe('Actual measured value'),
   notes: z.string().max(1000).optional().describe('Inspector notes and observations'),
+  checklistItems: z.array(z.object({
+    id: z.string(),
+    description: z.string(),
+    isRequired: z.boolean().default(true),
+    completed: z.boolean().default(false),
+  })).optional().describe('Checklist items copied from the template'),
   
   // Timing
   plannedStartTime: z.date().optional().describe('Planned start time for inspection'),
@@ -90,6 +101,13 @@ export const EnhancedQualityCheckSchema = BaseEntitySchema.extend({
   requiresSecondCheck: z.boolean().default(false).describe('Requires secondary inspection'),
   secondCheckBy: z.string().uuid().optional().describe('Secondary inspector ID'),
   secondCheckResult: z.nativeEnum(QualityCheckResult).optional().describe('Secondary check result'),
+  secondCheckMeasuredValue: z.number().optional().describe('Value measured by the secondary inspector'),
+  secondCheckNotes: z.string().max(1000).optional().describe('Secondary inspector notes'),
+  secondCheckAt: z.date().optional().describe('When the secondary check was recorded'),
+  supervisorReviewRequired: z.boolean().default(false).describe('First and second results disagree'),
+  supervisorReviewBy: z.string().uuid().optional().describe('Supervisor who resolved the disagreement'),
+  supervisorReviewAt: z.date().optional().describe('When the disagreement was resolved'),
+  supervisorReviewNotes: z.string().max(1000).optional().describe('Supervisor decision notes'),
   
   // Non-conformance
   nonConformanceId: z.string().uuid().optional().describe('Associated non-conformance record'),
@@ -118,6 +136,8 @@ export type EnhancedQualityCheck = z.infer<typeof EnhancedQualityCheckSchema>;
 export const QualityCheckTemplateSchema = BaseEntitySchema.extend({
   // Template Identity
   templateId: z.string().min(1).max(50).describe('Template identifier (e.g., VISUAL-WELD, DIM-CNC)'),
+  templateVersion: z.number().int().min(1).default(1).describe('Template revision; edits create a new revision'),
+  isCurrent: z.boolean().default(true).describe('Whether this is the current revision of the template'),
   name: z.string().min(1).max(200).describe('Template name'),
   description: z.string().max(1000).optional().describe('Template description'),
   
@@ -0,0 +1,44 @@
+import { z } from 'zod';
+import { BaseEntitySchema } from '../schemas';
+
+/**
+ * Sampling frequency enum - how often a planned check is performed
+ */
+export const SamplingFrequency = {
+  PER_OPERATION: 'PER_OPERATION',   // Once for the whole operation
+  FIRST_PIECE: 'FIRST_PIECE',       // First article only
+  FIRST_AND_LAST: 'FIRST_AND_LAST', // First and last piece
+  EVERY_N_UNITS: 'EVERY_N_UNITS',   // One check per samplingInterval units
+} as const;
+
+export type SamplingFrequencyType = typeof SamplingFrequency[keyof typeof SamplingFrequency];
+
+/**
+ * Quality plan item schema
+ * Maps a routing step to a check template and how often it is sampled
+ */
+export const QualityPlanItemSchema = BaseEntitySchema.extend({
+  qualityPlanId: z.string().uuid().describe('Owning quality plan'),
+  routingStepId: z.string().uuid().describe('Routing step the check applies to'),
+  templateCode: z.string().min(1).max(50).describe('Quality check template code; the current revision is used when checks are generated'),
+  samplingFrequency: z.nativeEnum(SamplingFrequency).default(SamplingFrequency.PER_OPERATION).describe('How often the check is performed'),
+  samplingInterval: z.number().int().positive().optional().describe('Units between samples for EVERY_N_UNITS'),
+  isActive: z.boolean().default(true).describe('Soft delete flag'),
+});
+
+export type QualityPlanItem = z.infer<typeof QualityPlanItemSchema>;
+
+/**
+ * Quality plan schema
+ * Defines the inspections for a product and routing once, instead of operation by operation
+ */
+export const QualityPlanSchema = BaseEntitySchema.extend({
+  productId: z.string().uuid().describe('Product the plan applies to'),
+  routingId: z.string().uuid().describe('Routing the plan applies to'),
+  name: z.string().min(1).max(200).describe('Plan name'),
+  description: z.string().max(1000).optional().describe('Plan description'),
+  items: z.array(QualityPlanItemSchema).optional().describe('Planned checks per routing step'),
+  isActive: z.boolean().default(true).describe('Soft delete flag'),
+});
+
+export type QualityPlan = z.infer<typeof QualityPlanSchema>;
@@ -0,0 +1,75 @@
+import { z } from 'zod';
+import { BaseEntitySchema, RoutingSchema, RoutingStepSchema } from '../schemas';
+
+/**
+ * Backup work center for a routing step
+ * Run time at the alternate = step run time × runRateMultiplier
+ */
+export const RoutingStepAlternateSchema = BaseEntitySchema.extend({
+  routingStepId: z.string().uuid(),
+  workCenterId: z.string().uuid(),
+  workCenterCode: z.string().optional(),
+  workCenterName: z.string().optional(),
+  priority: z.number().int().positive().describe('Order alternates are tried in, 1 first'),
+  runRateMultiplier: z.number().positive().default(1),
+  isActive: z.boolean().default(true),
+});
+
+export type RoutingStepAlternate = z.infer<typeof RoutingStepAlternateSchema>;
+
+/**
+ * Routing step with work center details
+ */
+export const RoutingStepDetailSchema = RoutingStepSchema.extend({
+  workCenterCode: z.string().optional(),
+  workCenterName: z.string().optional(),
+  alternates: z.array(RoutingStepAlternateSchema).optional(),
+});
+
+export type RoutingStepDetail = z.infer<typeof RoutingStepDetailSchema>;
+
+/**
+ * Routing schema with steps
+ * `revision` is the label of this routing version; `version` is the row's
+ * optimistic lock counter, as on every other entity
+ */
+export const RoutingDetailSchema = RoutingSchema.extend({
+  alternatePriority: z.number().int().positive().optional().describe('Set on alternate routings; 1 is tried first when the default cannot run'),
+  productSku: z.string().optional(),
+  productName: z.string().optional(),
+  steps: z.array(RoutingStepDetailSchema).optional(),
+});
+
+export type RoutingDetail = z.infer<typeof RoutingDetailSchema>;
+
+/**
+ * Standard time of one routing step for a quantity, in minutes
+ */
+export const RoutingStepStandardTimeSchema = z.object({
+  routingStepId: z.string().uuid(),
+  sequence: z.number().int().positive(),
+  operationId: z.string(),
+  name: z.string(),
+  workCenterId: z.string().uuid(),
+  setupTime: z.number().min(0),
+  runTime: z.number().min(0).describe('runTime per unit × quantity'),
+  teardownTime: z.number().min(0),
+  totalTime: z.number().min(0),
+});
+
+export type RoutingStepStandardTime = z.infer<typeof RoutingStepStandardTimeSchema>;
+
+/**
+ * Standard time of a whole routing for a quantity, in minutes
+ */
+export const RoutingStandardTimeSchema = z.object({
+  routingId: z.string().uuid(),
+  quantity: z.number().positive(),
+  setupTime: z.number().min(0),
+  runTime: z.number().min(0),
+  teardownTime: z.number().min(0),
+  totalTime: z.number().min(0),
+  steps: z.array(RoutingStepStandardTimeSchema),
+});
+
+export type RoutingStandardTime = z.infer<typeof RoutingStandardTimeSchema>;
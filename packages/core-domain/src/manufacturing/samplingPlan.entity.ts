@@ -0,0 +1,139 @@
+import { z } from 'zod';
+import { BaseEntitySchema } from '../schemas';
+
+/**
+ * Inspection stage enum - matches QualityCheckSchema.checkType
+ */
+export const InspectionStage = {
+  RECEIVING: 'RECEIVING',   // Incoming material
+  IN_PROCESS: 'IN_PROCESS', // Between operations
+  FINAL: 'FINAL',           // Finished goods
+  SHIPPING: 'SHIPPING',     // Before dispatch
+} as const;
+
+export type InspectionStageType = typeof InspectionStage[keyof typeof InspectionStage];
+
+/**
+ * Inspection level enum (ANSI/ASQ Z1.4 Table I)
+ */
+export const InspectionLevel = {
+  S1: 'S1',   // Special levels - small samples where destructive or costly
+  S2: 'S2',
+  S3: 'S3',
+  S4: 'S4',
+  I: 'I',     // General level I - less discrimination
+  II: 'II',   // General level II - default
+  III: 'III', // General level III - more discrimination
+} as const;
+
+export type InspectionLevelType = typeof InspectionLevel[keyof typeof InspectionLevel];
+
+/**
+ * Inspection severity enum - moved between by the switching rules
+ */
+export const InspectionSeverity = {
+  NORMAL: 'NORMAL',
+  TIGHTENED: 'TIGHTENED',
+  REDUCED: 'REDUCED',
+} as const;
+
+export type InspectionSeverityType = typeof InspectionSeverity[keyof typeof InspectionSeverity];
+
+/**
+ * Preferred AQL values (percent nonconforming) supported by the sampling tables
+ */
+export const AQL_VALUES = [
+  0.010, 0.015, 0.025, 0.040, 0.065, 0.10, 0.15, 0.25, 0.40, 0.65, 1.0, 1.5, 2.5, 4.0, 6.5, 10,
+] as const;
+
+/**
+ * Sample inspection status enum
+ */
+export const SampleInspectionStatus = {
+  IN_PROGRESS: 'IN_PROGRESS', // Samples still being inspected
+  ACCEPTED: 'ACCEPTED',       // Nonconforming count within the acceptance number
+  REJECTED: 'REJECTED',       // Nonconforming count reached the rejection number
+} as const;
+
+export type SampleInspectionStatusType = typeof SampleInspectionStatus[keyof typeof SampleInspectionStatus];
+
+/**
+ * Sampling plan schema
+ * AQL and inspection level for a stage, plus the switching state carried between lots
+ */
+export const SamplingPlanSchema = BaseEntitySchema.extend({
+  code: z.string().min(1).max(50).describe('Unique plan code (e.g., RCV-AQL1.0-II)'),
+  name: z.string().min(1).max(200).describe('Plan name'),
+  description: z.string().max(1000).optional().describe('Plan description'),
+  inspectionStage: z.nativeEnum(InspectionStage).describe('Where the plan is used'),
+  productId: z.string().uuid().optional().describe('Product the plan is limited to, if any'),
+  aql: z.number().positive().max(10).describe('Acceptance quality limit (percent nonconforming)'),
+  inspectionLevel: z.nativeEnum(InspectionLevel).default(InspectionLevel.II).describe('Inspection level'),
+  allowReduced: z.boolean().default(true).describe('Whether the responsible authority permits reduced inspection'),
+
+  // Switching state
+  currentSeverity: z.nativeEnum(InspectionSeverity).default(InspectionSeverity.NORMAL).describe('Severity applied to the next lot'),
+  switchingScore: z.number().int().min(0).default(0).describe('Normal-to-reduced switching score'),
+  recentLotResults: z.array(z.boolean()).default([]).describe('Acceptance of the last five lots under normal inspection'),
+  consecutiveAccepted: z.number().int().min(0).default(0).describe('Consecutive lots accepted under the current severity'),
+  tightenedRejections: z.number().int().min(0).default(0).describe('Lots not accepted since tightened inspection began'),
+  isSuspended: z.boolean().default(false).describe('Inspection discontinued after five lots not accepted on tightened'),
+
+  isActive: z.boolean().default(true).describe('Soft delete flag'),
+});
+
+export type SamplingPlan = z.infer<typeof SamplingPlanSchema>;
+
+/**
+ * Sample size and acceptance numbers for a lot
+ */
+export const SampleSizeSchema = z.object({
+  lotSize: z.number().int().positive(),
+  severity: z.nativeEnum(InspectionSeverity),
+  codeLetter: z.string().length(1).describe('Sample size code letter'),
+  sampleSize: z.number().int().positive().describe('Units to inspect (capped at the lot size)'),
+  acceptNumber: z.number().int().min(0).describe('Accept the lot with this many nonconforming units or fewer'),
+  rejectNumber: z.number().int().positive().describe('Reject the lot with this many nonconforming units or more'),
+});
+
+export type SampleSize = z.infer<typeof SampleSizeSchema>;
+
+/**
+ * Result for one inspected sample unit
+ */
+export const SampleResultSchema = BaseEntitySchema.extend({
+  sampleInspectionId: z.string().uuid(),
+  sampleNumber: z.number().int().positive().describe('Position of the unit in the sample'),
+  result: z.enum(['PASS', 'FAIL']),
+  measuredValue: z.number().optional(),
+  notes: z.string().max(1000).optional(),
+  inspectorId: z.string().uuid().optional(),
+  inspectedAt: z.date(),
+});
+
+export type SampleResult = z.infer<typeof SampleResultSchema>;
+
+/**
+ * Sample inspection schema
+ * One lot inspected under a sampling plan; the lot decision is derived from the sample results
+ */
+export const SampleInspectionSchema = BaseEntitySchema.extend({
+  samplingPlanId: z.string().uuid(),
+  lotId: z.string().uuid().optional().describe('Inventory lot being inspected'),
+  operationId: z.string().uuid().optional().describe('Manufacturing order operation being inspected'),
+  qualityCheckId: z.string().uuid().optional().describe('Quality check the sample results roll up to'),
+  lotSize: z.number().int().positive(),
+  severity: z.nativeEnum(InspectionSeverity),
+  codeLetter: z.string().length(1),
+  sampleSize: z.number().int().positive(),
+  acceptNumber: z.number().int().min(0),
+  rejectNumber: z.number().int().positive(),
+  samplesInspected: z.number().int().min(0).default(0),
+  nonconformingCount: z.number().int().min(0).default(0),
+  status: z.nativeEnum(SampleInspectionStatus).default(SampleInspectionStatus.IN_PROGRESS),
+  decidedAt: z.date().optional(),
+  results: z.array(SampleResultSchema).optional(),
+  isActive: z.boolean().default(true),
+});
+
+export type SampleInspection = z.infer<typeof SampleInspectionSchema>;
@@ -0,0 +1,128 @@
+import { z } from 'zod';
+import { SerialNumberSchema } from '../schemas';
+import { QualityCheckResult, QualityCheckStatus, QualityCheckType } from './qualityCheck.entity';
+
+/**
+ * Serial number status enum
+ */
+export const SerialNumberStatus = {
+  AVAILABLE: 'AVAILABLE',   // In stock, free to move or allocate
+  ALLOCATED: 'ALLOCATED',   // Reserved for a manufacturing order operation
+  CONSUMED: 'CONSUMED',     // Installed in another serial; terminal
+  SCRAPPED: 'SCRAPPED',     // Written off; terminal
+} as const;
+
+export type SerialNumberStatusType = typeof SerialNumberStatus[keyof typeof SerialNumberStatus];
+
+/**
+ * Serial number event type enum
+ */
+export const SerialNumberEventType = {
+  REGISTERED: 'REGISTERED',
+  MOVED: 'MOVED',
+  ALLOCATED: 'ALLOCATED',
+  DEALLOCATED: 'DEALLOCATED',
+  INSTALLED: 'INSTALLED',
+  SCRAPPED: 'SCRAPPED',
+} as const;
+
+export type SerialNumberEventTypeType = typeof SerialNumberEventType[keyof typeof SerialNumberEventType];
+
+/**
+ * Serial number with its product, lot, storage place and orders
+ */
+export const SerialNumberDetailSchema = SerialNumberSchema.extend({
+  productSku: z.string().optional(),
+  productName: z.string().optional(),
+  lotNumber: z.string().optional(),
+  locationCode: z.string().optional(),
+  binCode: z.string().optional(),
+  orderNumber: z.string().optional().describe('Order that built the serial'),
+});
+
+export type SerialNumberDetail = z.infer<typeof SerialNumberDetailSchema>;
+
+/**
+ * Serial number event, kept for audit
+ */
+export const SerialNumberEventSchema = z.object({
+  id: z.string().uuid(),
+  serialNumberId: z.string().uuid(),
+  eventType: z.nativeEnum(SerialNumberEventType),
+  fromStatus: z.nativeEnum(SerialNumberStatus).optional(),
+  toStatus: z.nativeEnum(SerialNumberStatus),
+  fromLocationId: z.string().uuid().optional(),
+  fromBinId: z.string().uuid().optional(),
+  toLocationId: z.string().uuid().optional(),
+  toBinId: z.string().uuid().optional(),
+  operationId: z.string().uuid().optional(),
+  reason: z.string().optional(),
+  performedBy: z.string().uuid().optional(),
+  createdAt: z.date(),
+});
+
+export type SerialNumberEvent = z.infer<typeof SerialNumberEventSchema>;
+
+/**
+ * As-built component - a serial, or a share of a lot, installed in a finished
+ * serial by a manufacturing order operation. Lot shares are drawn by a
+ * material consumption record and are in its unit.
+ */
+export const AsBuiltComponentSchema = z.object({
+  id: z.string().uuid(),
+  serialNumberId: z.string().uuid().describe('Finished serial'),
+  operationId: z.string().uuid(),
+  operationSequence: z.number().int().optional(),
+  operationCode: z.string().optional(),
+  productId: z.string().uuid(),
+  productSku: z.string().optional(),
+  componentSerialId: z.string().uuid().optional(),
+  componentSerialNumber: z.string().optional(),
+  lotId: z.string().uuid().optional(),
+  lotNumber: z.string().optional(),
+  materialConsumptionId: z.string().uuid().optional(),
+  quantity: z.number().positive(),
+  uom: z.string().max(20),
+  installedBy: z.string().uuid().optional().describe('Operator who installed the component'),
+  notes: z.string().optional(),
+  installedAt: z.date(),
+});
+
+export type AsBuiltComponent = z.infer<typeof AsBuiltComponentSchema>;
+
+/**
+ * Quality check result as it applies to a serial: checks recorded against
+ * the serial and order-level checks of the order that built it
+ */
+export const AsBuiltQualityCheckSchema = z.object({
+  id: z.string().uuid(),
+  checkId: z.string(),
+  name: z.string(),
+  type: z.nativeEnum(QualityCheckType),
+  operationId: z.string().uuid().optional(),
+  serialNumberId: z.string().uuid().optional().describe('Unset for order-level checks'),
+  status: z.nativeEnum(QualityCheckStatus),
+  result: z.nativeEnum(QualityCheckResult).optional(),
+  measuredValue: z.number().optional(),
+  unit: z.string().optional(),
+  inspectorId: z.string().uuid().optional(),
+  inspectorName: z.string().optional(),
+  completedAt: z.date().optional(),
+});
+
+export type AsBuiltQualityCheck = z.infer<typeof AsBuiltQualityCheckSchema>;
+
+/**
+ * As-built record of a serial: what it was built from and how it was
+ * inspected, and the serial it was itself installed in, if any
+ */
+export const AsBuiltRecordSchema = z.object({
+  serialNumber: SerialNumberDetailSchema,
+  components: z.array(AsBuiltComponentSchema),
+  qualityChecks: z.array(AsBuiltQualityCheckSchema),
+  installedIn: AsBuiltComponentSchema.extend({
+    parentSerialNumber: z.string(),
+  }).optional(),
+});
+
+export type AsBuiltRecord = z.infer<typeof AsBuiltRecordSchema>;
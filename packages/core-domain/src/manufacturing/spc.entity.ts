@@ -0,0 +1,103 @@
+import { z } from 'zod';
+
+/**
+ * SPC chart type enum
+ */
+export const SPCChartType = {
+  INDIVIDUALS_MR: 'INDIVIDUALS_MR', // Individuals and moving range
+  XBAR_R: 'XBAR_R',                 // Subgroup averages and ranges
+} as const;
+
+export type SPCChartTypeType = typeof SPCChartType[keyof typeof SPCChartType];
+
+/**
+ * SPC rule set enum
+ */
+export const SPCRuleSet = {
+  WESTERN_ELECTRIC: 'WESTERN_ELECTRIC', // Rules 1-4
+  NELSON: 'NELSON',                     // Rules 1-8
+} as const;
+
+export type SPCRuleSetType = typeof SPCRuleSet[keyof typeof SPCRuleSet];
+
+/**
+ * Identifies one measurement series: a check measured on a product at a work center
+ */
+export const SPCSeriesKeySchema = z.object({
+  productId: z.string().uuid().describe('Product being measured'),
+  checkId: z.string().min(1).max(50).describe('Quality check identifier (e.g., DIM-001)'),
+  workCenterId: z.string().uuid().describe('Work center where the measurement is taken'),
+});
+
+export type SPCSeriesKey = z.infer<typeof SPCSeriesKeySchema>;
+
+/**
+ * A plotted point on a control chart
+ */
+export const SPCPointSchema = z.object({
+  index: z.number().int().min(0).describe('Position of the point on the chart'),
+  value: z.number().describe('Plotted value (measurement or subgroup average)'),
+  range: z.number().optional().describe('Moving range or subgroup range'),
+  qualityCheckIds: z.array(z.string().uuid()).describe('Quality checks contributing to the point'),
+  measuredAt: z.date().describe('Time of the (last) measurement in the point'),
+});
+
+export type SPCPoint = z.infer<typeof SPCPointSchema>;
+
+/**
+ * Control limits for one chart
+ */
+export const SPCControlLimitsSchema = z.object({
+  centerLine: z.number(),
+  upperControlLimit: z.number(),
+  lowerControlLimit: z.number(),
+});
+
+export type SPCControlLimits = z.infer<typeof SPCControlLimitsSchema>;
+
+/**
+ * A detected Western Electric / Nelson rule violation
+ */
+export const SPCRuleViolationSchema = z.object({
+  ruleSet: z.nativeEnum(SPCRuleSet),
+  rule: z.number().int().min(1).max(8).describe('Rule number within the rule set'),
+  description: z.string(),
+  pointIndexes: z.array(z.number().int().min(0)).describe('Points forming the violating pattern'),
+});
+
+export type SPCRuleViolation = z.infer<typeof SPCRuleViolationSchema>;
+
+/**
+ * Process capability indices
+ */
+export const ProcessCapabilitySchema = z.object({
+  sampleCount: z.number().int().min(0),
+  mean: z.number().optional(),
+  sigmaWithin: z.number().optional().describe('Short-term sigma estimated from ranges'),
+  sigmaOverall: z.number().optional().describe('Long-term sample standard deviation'),
+  lowerSpecLimit: z.number().optional(),
+  upperSpecLimit: z.number().optional(),
+  target: z.number().optional(),
+  cp: z.number().optional().describe('Potential capability (requires both spec limits)'),
+  cpk: z.number().optional().describe('Actual capability using within-subgroup sigma'),
+  pp: z.number().optional().describe('Potential performance (requires both spec limits)'),
+  ppk: z.number().optional().describe('Actual performance using overall sigma'),
+});
+
+export type ProcessCapability = z.infer<typeof ProcessCapabilitySchema>;
+
+/**
+ * Control chart schema
+ */
+export const SPCControlChartSchema = SPCSeriesKeySchema.extend({
+  chartType: z.nativeEnum(SPCChartType),
+  subgroupSize: z.number().int().min(1).describe('1 for individuals charts'),
+  unit: z.string().optional(),
+  locationChart: SPCControlLimitsSchema.describe('Individuals or X-bar chart limits'),
+  dispersionChart: SPCControlLimitsSchema.describe('Moving range or range chart limits'),
+  points: z.array(SPCPointSchema),
+  violations: z.array(SPCRuleViolationSchema),
+  capability: ProcessCapabilitySchema,
+});
+
+export type SPCControlChart = z.infer<typeof SPCControlChartSchema>;
@@ -0,0 +1,60 @@
+import { z } from 'zod';
+import { BaseEntitySchema } from '../schemas';
+
+/**
+ * UoM dimension enum - quantities convert freely only within a dimension
+ */
+export const UoMDimension = {
+  MASS: 'MASS',       // kg, g, lb
+  LENGTH: 'LENGTH',   // m, mm, ft
+  COUNT: 'COUNT',     // each, pieces, boxes
+  VOLUME: 'VOLUME',   // l, ml, gal
+} as const;
+
+export type UoMDimensionType = typeof UoMDimension[keyof typeof UoMDimension];
+
+/**
+ * Unit of measure schema
+ * `code` is the canonical form stored on products, BOM items, lots and MOs;
+ * aliases are other spellings accepted on write
+ */
+export const UnitOfMeasureSchema = BaseEntitySchema.extend({
+  code: z.string().min(1).max(20).regex(/^[A-Z0-9_]+$/).describe('Canonical code, e.g. KG'),
+  name: z.string().min(1).max(100),
+  dimension: z.nativeEnum(UoMDimension),
+  aliases: z.array(z.string().min(1).max(50)).default([]).describe('Case-insensitive alternative spellings'),
+  isActive: z.boolean().default(true),
+});
+
+export type UnitOfMeasure = z.infer<typeof UnitOfMeasureSchema>;
+
+/**
+ * Conversion factor schema: 1 fromUom = factor × toUom
+ * Global conversions link units of the same dimension; product conversions
+ * (e.g. 1 BOX = 12 PCS) apply to one product and may cross dimensions
+ */
+export const UoMConversionSchema = BaseEntitySchema.extend({
+  fromUom: z.string().min(1).max(20),
+  toUom: z.string().min(1).max(20),
+  factor: z.number().positive(),
+  productId: z.string().uuid().optional().describe('Set for product-specific conversions'),
+  productSku: z.string().optional(),
+  isActive: z.boolean().default(true),
+});
+
+export type UoMConversion = z.infer<typeof UoMConversionSchema>;
+
+/**
+ * Result of converting a quantity between units
+ */
+export const UoMConversionResultSchema = z.object({
+  quantity: z.number(),
+  fromUom: z.string(),
+  toUom: z.string(),
+  factor: z.number().positive().describe('Multiplier applied to quantity'),
+  convertedQuantity: z.number(),
+  productId: z.string().uuid().optional(),
+  path: z.array(z.string()).describe('Units the conversion passed through'),
+});
+
+export type UoMConversionResult = z.infer<typeof UoMConversionResultSchema>;
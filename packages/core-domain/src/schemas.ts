@@ -44,6 +44,8 @@ export const WorkCenterSchema = BaseEntitySchema.extend({
   description: z.string().optional(),
   category: z.enum(['PRODUCTION', 'ASSEMBLY', 'PACKAGING', 'QUALITY', 'MAINTENANCE']),
   capacity: z.number().positive().optional(), // Units per hour
+  laborRate: z.number().min(0).optional(), // Labor cost per hour, for standard costing
+  machineRate: z.number().min(0).optional(), // Machine cost per hour, for standard costing
   isActive: z.boolean().default(true),
 });
 
@@ -81,7 +83,7 @@ export const ProductSchema = BaseEntitySchema.extend({
 
 export const BOMSchema = BaseEntitySchema.extend({
   productId: z.string().uuid(),
-  version: z.string().min(1).max(10),
+  revision: z.string().min(1).max(10), // Revision label, e.g. "A" or "2.1"
   name: z.string().min(1).max(100),
   description: z.string().optional(),
   isDefault: z.boolean().default(false),
@@ -100,7 +102,7 @@ export const BOMItemSchema = BaseEntitySchema.extend({
 
 export const RoutingSchema = BaseEntitySchema.extend({
   productId: z.string().uuid(),
-  version: z.string().min(1).max(10),
+  revision: z.string().min(1).max(10), // Revision label, e.g. "A" or "2.1"
   name: z.string().min(1).max(100),
   description: z.string().optional(),
   isDefault: z.boolean().default(false),
@@ -135,6 +137,7 @@ export const BinSchema = BaseEntitySchema.extend({
   name: z.string().min(1).max(50),
   code: z.string().min(1).max(20),
   capacity: z.number().positive().optional(),
+  capacityUom: z.string().max(20).optional(),
   isActive: z.boolean().default(true),
 });
 
@@ -147,6 +150,8 @@ export const LotSchema = BaseEntitySchema.extend({
   manufactureDate: z.date().optional(),
   supplierId: z.string().optional(),
   status: z.enum(['AVAILABLE', 'QUARANTINED', 'EXPIRED', 'CONSUMED']).default('AVAILABLE'),
+  locationId: z.string().uuid().optional(),
+  binId: z.string().uuid().optional(),
   isActive: z.boolean().default(true),
 });
 
@@ -157,6 +162,8 @@ export const SerialNumberSchema = BaseEntitySchema.extend({
   status: z.enum(['AVAILABLE', 'ALLOCATED', 'CONSUMED', 'SCRAPPED']).default('AVAILABLE'),
   locationId: z.string().uuid().optional(),
   binId: z.string().uuid().optional(),
+  manufacturingOrderId: z.string().uuid().optional(),
+  allocatedOperationId: z.string().uuid().optional(),
   isActive: z.boolean().default(true),
 });
 
@@ -194,6 +201,11 @@ export const ManufacturingOrderOperationSchema = BaseEntitySchema.extend({
   actualStartTime: z.date().optional(),
   plannedEndTime: z.date().optional(),
   actualEndTime: z.date().optional(),
+  routingStepId: z.string().uuid().optional(),
+  primaryWorkCenterId: z.string().uuid().optional(), // Work center of the routing step
+  routingStepAlternateId: z.string().uuid().optional(), // Set when running at an alternate
+  runRateMultiplier: z.number().positive().default(1),
+  alternateReason: z.string().optional(),
   isActive: z.boolean().default(true),
 });
 
@@ -15,56 +15,28 @@ import {
   DollarSign
 } from 'lucide-react'
 import { apiClient } from '@/lib/api-client'
+import { getCurrentOperator } from '@/lib/api'
 
-// Sample NCRs
-const sampleNCRs = [
-  {
-    id: '1',
-    ncrNumber: 'NCR-2025-001',
-    title: 'Dimensional variance in machined parts',
-    severity: 'MAJOR' as const,
-    status: 'INVESTIGATING' as const,
-    category: 'DIMENSIONAL' as const,
-    quantityAffected: 25,
-    reportedBy: 'John Smith',
-    reportedAt: '2025-09-23T10:30:00Z',
-    estimatedCost: 2500,
-    targetCloseDate: '2025-09-25T17:00:00Z',
-  },
-  {
-    id: '2',
-    ncrNumber: 'NCR-2025-002', 
-    title: 'Surface finish quality issue',
-    severity: 'MINOR' as const,
-    status: 'CORRECTIVE_ACTION' as const,
-    category: 'SURFACE_FINISH' as const,
-    quantityAffected: 5,
-    reportedBy: 'Sarah Johnson',
-    reportedAt: '2025-09-23T14:15:00Z',
-    estimatedCost: 500,
-    targetCloseDate: '2025-09-24T17:00:00Z',
-  },
-  {
-    id: '3',
-    ncrNumber: 'NCR-2025-003',
-    title: 'Material contamination detected',
-    severity: 'CRITICAL' as const,
-    status: 'OPEN' as const,
-    category: 'MATERIAL_DEFECT' as const,
-    quantityAffected: 100,
-    reportedBy: 'Mike Wilson',
-    reportedAt: '2025-09-23T16:00:00Z',
-    estimatedCost: 8000,
-    targetCloseDate: '2025-09-24T09:00:00Z',
-  }
-]
+interface NCR {
+  id: string
+  ncrNumber: string
+  title: string
+  severity: 'MINOR' | 'MAJOR' | 'CRITICAL'
+  status: 'OPEN' | 'INVESTIGATING' | 'CORRECTIVE_ACTION' | 'RESOLVED' | 'CLOSED'
+  category: string
+  quantityAffected: number
+  reportedByName: string
+  reportedAt: string
+  estimatedCost?: number
+  targetCloseDate?: string
+}
 
 interface NonConformancePanelProps {
   operationId?: string
 }
 
 export function NonConformancePanel({ operationId = '2' }: NonConformancePanelProps) {
-  const [ncrs, setNCRs] = useState(sampleNCRs)
+  const [ncrs, setNCRs] = useState<NCR[]>([])
   const [showCreateForm, setShowCreateForm] = useState(false)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
@@ -74,13 +46,12 @@ export function NonConformancePanel({ operationId = '2' }: NonConformancePanelPr
     const loadNCRs = async () => {
       try {
         setLoading(true)
-        const data = await apiClient.getNCRs(operationId)
+        const data = await apiClient.getNCRs(operationId) as NCR[]
         setNCRs(data)
         setError(null)
       } catch (err) {
         console.error('Failed to load NCRs:', err)
         setError('Failed to load NCRs')
-        // Keep using mock data on error
       } finally {
         setLoading(false)
       }
@@ -91,6 +62,12 @@ export function NonConformancePanel({ operationId = '2' }: NonConformancePanelPr
 
   // Handle create NCR
   const handleCreateNCR = async () => {
+    const operator = getCurrentOperator()
+    if (!operator) {
+      setError('Sign in as an operator to raise an NCR')
+      return
+    }
+
     try {
       const newNCR = await apiClient.createNCR({
         operationId,
@@ -99,9 +76,10 @@ export function NonConformancePanel({ operationId = '2' }: NonConformancePanelPr
         category: 'OTHER',
         severity: 'MINOR',
         quantityAffected: 1,
-        reportedBy: 'Current Operator'
-      })
-      setNCRs([...ncrs, newNCR])
+        reportedBy: operator.id,
+        reportedByName: operator.name
+      }) as NCR
+      setNCRs([newNCR, ...ncrs])
       setShowCreateForm(false)
     } catch (err) {
       console.error('Failed to create NCR:', err)
@@ -146,14 +124,15 @@ export function NonConformancePanel({ operationId = '2' }: NonConformancePanelPr
     return new Date(dateStr).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
   }
 
-  const isOverdue = (targetDate: string) => {
-    return new Date(targetDate) < new Date()
+  const isOverdue = (ncr: NCR) => {
+    if (!ncr.targetCloseDate || ncr.status === 'RESOLVED' || ncr.status === 'CLOSED') return false
+    return new Date(ncr.targetCloseDate) < new Date()
   }
 
   const totalNCRs = ncrs.length
   const openNCRs = ncrs.filter(n => n.status === 'OPEN').length
   const criticalNCRs = ncrs.filter(n => n.severity === 'CRITICAL').length
-  const totalEstimatedCost = ncrs.reduce((sum, n) => sum + n.estimatedCost, 0)
+  const totalEstimatedCost = ncrs.reduce((sum, n) => sum + (n.estimatedCost ?? 0), 0)
 
   return (
     <div className="space-y-4">
@@ -222,7 +201,7 @@ export function NonConformancePanel({ operationId = '2' }: NonConformancePanelPr
                         </Badge>
                       </div>
                       <p className="text-sm text-gray-600 mt-1">
-                        Reported by {ncr.reportedBy} on {formatDate(ncr.reportedAt)}
+                        Reported by {ncr.reportedByName} on {formatDate(ncr.reportedAt)}
                       </p>
                     </div>
                   </div>
@@ -231,7 +210,7 @@ export function NonConformancePanel({ operationId = '2' }: NonConformancePanelPr
                     <Badge className={getStatusColor(ncr.status)}>
                       {ncr.status.replace('_', ' ')}
                     </Badge>
-                    {isOverdue(ncr.targetCloseDate) && (
+                    {isOverdue(ncr) && (
                       <Badge variant="destructive" className="text-xs">
                         <Clock className="w-3 h-3 mr-1" />
                         OVERDUE
@@ -252,15 +231,15 @@ export function NonConformancePanel({ operationId = '2' }: NonConformancePanelPr
                   </div>
                   <div>
                     <span className="text-gray-600">Target Close:</span>
-                    <p className={`font-medium ${isOverdue(ncr.targetCloseDate) ? 'text-red-600' : ''}`}>
-                      {formatDate(ncr.targetCloseDate)}
+                    <p className={`font-medium ${isOverdue(ncr) ? 'text-red-600' : ''}`}>
+                      {ncr.targetCloseDate ? formatDate(ncr.targetCloseDate) : 'Not set'}
                     </p>
                   </div>
                   <div>
                     <span className="text-gray-600">Est. Cost:</span>
                     <p className="font-medium flex items-center">
                       <DollarSign className="w-3 h-3 mr-1" />
-                      {ncr.estimatedCost.toLocaleString()}
+                      {(ncr.estimatedCost ?? 0).toLocaleString()}
                     </p>
                   </div>
                 </div>
@@ -20,7 +20,7 @@ import {
   Play
 } from 'lucide-react'
 
-type QualityCheckStatus = 'PENDING' | 'IN_PROGRESS' | 'PASSED' | 'FAILED' | 'SKIPPED'
+type QualityCheckStatus = 'PENDING' | 'IN_PROGRESS' | 'PENDING_VERIFICATION' | 'PASSED' | 'FAILED' | 'SKIPPED'
 type QualityCheckResult = 'PASS' | 'FAIL' | 'CONDITIONAL_PASS' | 'NOT_APPLICABLE'
 type QualityCheckType = 'VISUAL' | 'DIMENSIONAL' | 'FUNCTIONAL' | 'MATERIAL' | 'SAFETY' | 'CUSTOM'
 
@@ -58,7 +58,7 @@ export function QualityChecksPanel({
 
   // Mutation for updating status (Start inspection)
   const updateStatusMutation = useMutation({
-    mutationFn: ({ checkId, status }: { checkId: string; status: QualityCheckStatus }) =>
+    mutationFn: ({ checkId, status }: { checkId: string; status: Exclude<QualityCheckStatus, 'PENDING_VERIFICATION'> }) =>
       qualityChecksApi.updateStatus(checkId, status),
     onSuccess: () => {
       if (operationId) {
@@ -89,6 +89,7 @@ export function QualityChecksPanel({
     switch (status) {
       case 'PENDING': return 'bg-gray-100 text-gray-800'
       case 'IN_PROGRESS': return 'bg-blue-100 text-blue-800'
+      case 'PENDING_VERIFICATION': return 'bg-purple-100 text-purple-800'
       case 'PASSED': return 'bg-green-100 text-green-800'
       case 'FAILED': return 'bg-red-100 text-red-800'
       case 'SKIPPED': return 'bg-yellow-100 text-yellow-800'
@@ -110,6 +111,7 @@ export function QualityChecksPanel({
     switch (status) {
       case 'PENDING': return Clock
       case 'IN_PROGRESS': return Play
+      case 'PENDING_VERIFICATION': return Eye
       case 'PASSED': return CheckCircle
       case 'FAILED': return XCircle
       case 'SKIPPED': return AlertTriangle
@@ -58,8 +58,11 @@ export class ApiClient {
   async recordMaterialConsumption(data: {
     operationId: string;
     materialId: string;
+    bomItemId?: string;
+    lotId?: string;
     consumedQuantity: number;
     wasteQuantity?: number;
+    uom?: string;
     notes?: string;
   }) {
     return this.request('/materials/consume', {
@@ -85,6 +88,7 @@ export class ApiClient {
     severity: string;
     quantityAffected: number;
     reportedBy: string;
+    reportedByName: string;
   }) {
     return this.request('/ncrs', {
       method: 'POST',
@@ -92,7 +96,20 @@ export class ApiClient {
     });
   }
 
-  async updateNCRStatus(ncrId: string, data: { status: string; notes?: string }) {
+  async updateNCRStatus(ncrId: string, data: {
+    status: string;
+    immediateAction?: string;
+    rootCause?: string;
+    correctiveAction?: string;
+    preventiveAction?: string;
+    quantityRejected?: number;
+    quantityReworked?: number;
+    quantityAccepted?: number;
+    verifiedBy?: string;
+    verifiedByName?: string;
+    verificationDate?: string;
+    verificationNotes?: string;
+  }) {
     return this.request(`/ncrs/${ncrId}/status`, {
       method: 'PATCH',
       body: JSON.stringify(data),
@@ -54,6 +54,33 @@ const createApiClient = (): AxiosInstance => {
 
 export const apiClient = createApiClient()
 
+/**
+ * Operator signed in on this device
+ */
+export interface CurrentOperator {
+  id: string
+  name: string
+}
+
+/**
+ * Read the signed-in operator from the auth token's claims (sub and name).
+ * Returns null when nobody is signed in or the token carries no identity.
+ */
+export function getCurrentOperator(): CurrentOperator | null {
+  const token = typeof window !== 'undefined' ? localStorage.getItem('auth-token') : null
+  if (!token) {
+    return null
+  }
+
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')
+    const claims = JSON.parse(atob(payload))
+    return claims.sub && claims.name ? { id: claims.sub, name: claims.name } : null
+  } catch {
+    return null
+  }
+}
+
 /**
  * Pagination parameters for API requests
  */
@@ -534,7 +561,7 @@ export interface QualityCheck {
   targetValue?: number
   minValue?: number
   maxValue?: number
-  status: 'PENDING' | 'IN_PROGRESS' | 'PASSED' | 'FAILED' | 'SKIPPED'
+  status: 'PENDING' | 'IN_PROGRESS' | 'PENDING_VERIFICATION' | 'PASSED' | 'FAILED' | 'SKIPPED'
   sequence: number
   isRequired: boolean
   result?: 'PASS' | 'FAIL' | 'CONDITIONAL_PASS' | 'NOT_APPLICABLE'
@@ -549,6 +576,13 @@ export interface QualityCheck {
   requiresSecondCheck: boolean
   secondCheckBy?: string
   secondCheckResult?: 'PASS' | 'FAIL' | 'CONDITIONAL_PASS' | 'NOT_APPLICABLE'
+  secondCheckMeasuredValue?: number
+  secondCheckNotes?: string
+  secondCheckAt?: string
+  supervisorReviewRequired: boolean
+  supervisorReviewBy?: string
+  supervisorReviewAt?: string
+  supervisorReviewNotes?: string
   nonConformanceId?: string
   correctiveAction?: string
   isActive: boolean
@@ -634,6 +668,19 @@ export const qualityChecksApi = {
     return response.data
   },
 
+  /**
+   * Record the second, independent result for a two-person check
+   */
+  recordSecondCheck: async (id: string, data: {
+    result: 'PASS' | 'FAIL' | 'CONDITIONAL_PASS' | 'NOT_APPLICABLE'
+    inspectorId: string
+    measuredValue?: number
+    notes?: string
+  }): Promise<QualityCheck> => {
+    const response = await apiClient.put(`/quality-checks/${id}/second-check`, data)
+    return response.data
+  },
+
   /**
    * Delete quality check
    */